@@ -0,0 +1,65 @@
+/**
+ * 因子收益数据 API
+ *
+ * GET /api/factors                              当前因子数据概况
+ * PUT /api/factors   { csv, source? }           导入因子收益 CSV（覆盖原有数据）
+ *
+ * CSV 首行为表头，首列为日期，其余列为各因子日收益率（小数），可选 RF 列:
+ *   date,MKT,SMB,HML,UMD,RF
+ *   2025-01-02,-0.0132,0.0041,-0.0020,0.0011,0.00006
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { FactorRegressionError } from '@/lib/factors/regression';
+import { getFactorDataSummary, importFactorCsv } from '@/lib/factors/factor-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// CSV 最大长度（约 20 年日度数据）
+const MAX_CSV_LENGTH = 2 * 1024 * 1024;
+
+export async function GET() {
+  try {
+    return NextResponse.json({ success: true, data: await getFactorDataSummary() });
+  } catch (error) {
+    console.error('Factor data error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: '读取因子数据失败',
+        message: error instanceof Error ? error.message : '未知错误',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const { csv, source } = await request.json();
+    if (typeof csv !== 'string' || csv.length === 0 || csv.length > MAX_CSV_LENGTH) {
+      return NextResponse.json(
+        { success: false, error: 'csv 应为非空且不超过 2MB 的文本' },
+        { status: 400 }
+      );
+    }
+
+    const data = await importFactorCsv(csv, typeof source === 'string' && source ? source.slice(0, 100) : 'upload');
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    if (error instanceof FactorRegressionError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+
+    console.error('Factor import error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: '导入因子数据失败',
+        message: error instanceof Error ? error.message : '未知错误',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * Fund Benchmark Analysis API
+ *
+ * GET /api/funds/110022/benchmark                     对比基金合同中的业绩比较基准
+ * GET /api/funds/110022/benchmark?index=sh000905      对比指定指数
+ * GET /api/funds/110022/benchmark?days=730&series=1   回看两年，同时返回基准日收益率
+ *
+ * 返回 Alpha、Beta、R²、跟踪误差、信息比率、上行/下行捕获率
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { validateFundCode } from '@/lib/security';
+import { BENCHMARK_INDICES } from '@/lib/benchmark/benchmark';
+import { analyzeFundBenchmark, UnknownBenchmarkError } from '@/lib/benchmark/benchmark-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { code: string } }
+) {
+  const { code } = params;
+  const searchParams = request.nextUrl.searchParams;
+  const indexCode = searchParams.get('index') || undefined;
+  const days = searchParams.get('days');
+  const lookbackDays = days ? parseInt(days, 10) : undefined;
+
+  if (!validateFundCode(code)) {
+    return NextResponse.json(
+      { success: false, error: '基金代码格式错误', fundCode: code },
+      { status: 400 }
+    );
+  }
+
+  if (lookbackDays !== undefined && (!Number.isInteger(lookbackDays) || lookbackDays < 30 || lookbackDays > 3650)) {
+    return NextResponse.json(
+      { success: false, error: '回看天数应在 30 到 3650 之间' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { benchmark, metrics, benchmarkReturns } = await analyzeFundBenchmark(code, { indexCode, lookbackDays });
+
+    return NextResponse.json({
+      success: true,
+      fundCode: code,
+      benchmark,
+      metrics,
+      ...(searchParams.get('series') === '1' ? { benchmarkReturns } : {}),
+      indices: BENCHMARK_INDICES.map(({ code, name }) => ({ code, name })),
+    });
+  } catch (error) {
+    if (error instanceof UnknownBenchmarkError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+
+    console.error(`Fund benchmark error for ${code}:`, error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: '基准分析失败',
+        message: error instanceof Error ? error.message : '未知错误',
+      },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Fund Dividend & Split Events API
+ *
+ * GET /api/funds/110022/events                                   分红与拆分事件
+ * GET /api/funds/110022/events?adjusted=1&from=2024-01-01        同时返回复权净值序列
+ *
+ * 单位净值在除息日、拆分日下跳，计算收益应使用复权净值
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { validateFundCode } from '@/lib/security';
+import { getAdjustedNavHistory, getFundEvents } from '@/lib/events/fund-events-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { code: string } }
+) {
+  const { code } = params;
+  const searchParams = request.nextUrl.searchParams;
+  const from = searchParams.get('from') || undefined;
+  const to = searchParams.get('to') || undefined;
+
+  if (!validateFundCode(code)) {
+    return NextResponse.json(
+      { success: false, error: '基金代码格式错误', fundCode: code },
+      { status: 400 }
+    );
+  }
+
+  if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to))) {
+    return NextResponse.json(
+      { success: false, error: '日期格式应为 YYYY-MM-DD' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    if (searchParams.get('adjusted') === '1') {
+      const { records, events } = await getAdjustedNavHistory(code, { from, to });
+      return NextResponse.json({ success: true, fundCode: code, events, adjustedNav: records });
+    }
+
+    const events = await getFundEvents(code, searchParams.get('refresh') === '1');
+    return NextResponse.json({ success: true, fundCode: code, events });
+  } catch (error) {
+    console.error(`Fund events error for ${code}:`, error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: '获取分红送配失败',
+        message: error instanceof Error ? error.message : '未知错误',
+      },
+      { status: 502 }
+    );
+  }
+}
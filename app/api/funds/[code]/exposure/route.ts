@@ -0,0 +1,48 @@
+/**
+ * Fund Holdings Exposure API
+ *
+ * GET /api/funds/110022/exposure     最新一期重仓股的申万一级行业分布和投资风格箱
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { validateFundCode } from '@/lib/security';
+import { getFundExposure } from '@/lib/exposure/exposure-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { code: string } }
+) {
+  const { code } = params;
+
+  if (!validateFundCode(code)) {
+    return NextResponse.json(
+      { success: false, error: '基金代码格式错误', fundCode: code },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const exposure = await getFundExposure(code);
+    if (!exposure) {
+      return NextResponse.json(
+        { success: false, error: '该基金没有股票持仓数据', fundCode: code },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: exposure });
+  } catch (error) {
+    console.error(`Fund exposure error for ${code}:`, error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: '持仓分析失败',
+        message: error instanceof Error ? error.message : '未知错误',
+      },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Fund Factor Exposure API
+ *
+ * GET  /api/funds/110022/factors?days=730&window=60&step=5   使用已导入的因子数据回归
+ * POST /api/funds/110022/factors  { csv, days?, window?, step? }  使用本次提供的因子 CSV 回归
+ *
+ * 返回各因子暴露及 t 统计量、残差 Alpha、R² 和滚动窗口暴露序列（可直接用于绘图）
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { validateFundCode } from '@/lib/security';
+import { FactorRegressionError } from '@/lib/factors/regression';
+import { analyzeFundFactors } from '@/lib/factors/factor-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const MAX_CSV_LENGTH = 2 * 1024 * 1024;
+
+/**
+ * 解析正整数参数，缺省时返回 undefined，越界时返回 null
+ */
+function parseIntParam(value: unknown, min: number, max: number): number | undefined | null {
+  if (value === null || value === undefined || value === '') return undefined;
+  const n = typeof value === 'number' ? value : parseInt(String(value), 10);
+  return Number.isInteger(n) && n >= min && n <= max ? n : null;
+}
+
+async function regress(
+  code: string,
+  params: { days: unknown; window: unknown; step: unknown; csv?: string }
+) {
+  if (!validateFundCode(code)) {
+    return NextResponse.json(
+      { success: false, error: '基金代码格式错误', fundCode: code },
+      { status: 400 }
+    );
+  }
+
+  const lookbackDays = parseIntParam(params.days, 30, 3650);
+  const window = parseIntParam(params.window, 20, 500);
+  const step = parseIntParam(params.step, 1, 250);
+  if (lookbackDays === null || window === null || step === null) {
+    return NextResponse.json(
+      { success: false, error: 'days 应在 30-3650，window 应在 20-500，step 应在 1-250 之间' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const data = await analyzeFundFactors(code, { lookbackDays, window, step, csv: params.csv });
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    if (error instanceof FactorRegressionError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 422 });
+    }
+
+    console.error(`Fund factor regression error for ${code}:`, error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: '因子回归失败',
+        message: error instanceof Error ? error.message : '未知错误',
+      },
+      { status: 502 }
+    );
+  }
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { code: string } }
+) {
+  const searchParams = request.nextUrl.searchParams;
+  return regress(params.code, {
+    days: searchParams.get('days'),
+    window: searchParams.get('window'),
+    step: searchParams.get('step'),
+  });
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { code: string } }
+) {
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ success: false, error: '请求体应为 JSON' }, { status: 400 });
+  }
+
+  if (typeof body?.csv !== 'string' || body.csv.length === 0 || body.csv.length > MAX_CSV_LENGTH) {
+    return NextResponse.json(
+      { success: false, error: 'csv 应为非空且不超过 2MB 的文本' },
+      { status: 400 }
+    );
+  }
+
+  return regress(params.code, { days: body.days, window: body.window, step: body.step, csv: body.csv });
+}
@@ -0,0 +1,90 @@
+/**
+ * Redemption Fee Quote API
+ *
+ * POST /api/funds/110022/fees/redeem
+ * {
+ *   "ledgerId": "xxxx",          // 服务端台账 ID，或直接传 transactions（浏览器本地流水）
+ *   "transactions": [...],
+ *   "shares": 1000,              // 可选，缺省为全部赎回
+ *   "nav": 1.2345,               // 可选，缺省为最新净值
+ *   "date": "2025-01-24"         // 可选，赎回申请日，缺省为今天
+ * }
+ *
+ * 按先进先出确定赎回的各笔份额，逐笔按持有天数计算赎回费，返回应付赎回费与到账金额
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { validateFundCode } from '@/lib/security';
+import { createTransaction, LedgerTransaction, LedgerValidationError } from '@/lib/portfolio/ledger';
+import { isValidLedgerId } from '@/lib/portfolio/ledger-service';
+import { quoteLedgerRedemption, quoteTransactionsRedemption } from '@/lib/fees/redemption';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_TRANSACTIONS = 5000;
+
+function badRequest(error: string) {
+  return NextResponse.json({ success: false, error }, { status: 400 });
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { code: string } }
+) {
+  const { code } = params;
+  if (!validateFundCode(code)) {
+    return NextResponse.json(
+      { success: false, error: '基金代码格式错误', fundCode: code },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { ledgerId, transactions, shares, nav, date } = await request.json();
+
+    if (shares !== undefined && (typeof shares !== 'number' || !isFinite(shares) || shares <= 0)) {
+      return badRequest('shares 应为正数');
+    }
+    if (nav !== undefined && (typeof nav !== 'number' || !isFinite(nav) || nav <= 0)) {
+      return badRequest('nav 应为正数');
+    }
+    if (date !== undefined && (typeof date !== 'string' || !DATE_PATTERN.test(date))) {
+      return badRequest('日期格式应为 YYYY-MM-DD');
+    }
+
+    const options = { shares, nav, date };
+    let quote;
+
+    if (typeof ledgerId === 'string') {
+      if (!isValidLedgerId(ledgerId)) return badRequest('台账 ID 不合法');
+      quote = await quoteLedgerRedemption(ledgerId, code, options);
+    } else if (Array.isArray(transactions) && transactions.length <= MAX_TRANSACTIONS) {
+      // 浏览器本地流水：逐条校验，保留原始录入顺序
+      const normalized: LedgerTransaction[] = transactions.map((tx: LedgerTransaction) => ({
+        ...createTransaction(tx),
+        createdAt: tx.createdAt || 0,
+      }));
+      quote = await quoteTransactionsRedemption(normalized, code, options);
+    } else {
+      return badRequest(`需要提供 ledgerId 或不超过 ${MAX_TRANSACTIONS} 条的 transactions`);
+    }
+
+    return NextResponse.json({ success: true, data: quote });
+  } catch (error) {
+    if (error instanceof LedgerValidationError) {
+      return badRequest(error.message);
+    }
+
+    console.error(`Redemption quote error for ${code}:`, error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: '赎回试算失败',
+        message: error instanceof Error ? error.message : '未知错误',
+      },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Fund Fee Schedule API
+ *
+ * GET /api/funds/110022/fees                 费率表（申购、赎回、运作费用）
+ * GET /api/funds/110022/fees?amount=50000    同时计算该金额的申购费
+ *
+ * 费率来自天天基金 F10 费率页，每个份额类别（A/C）单独查询
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { validateFundCode } from '@/lib/security';
+import { calculatePurchaseFee, getFeeSchedule } from '@/lib/fees/fee-schedule';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { code: string } }
+) {
+  const { code } = params;
+  const amountParam = request.nextUrl.searchParams.get('amount');
+  const amount = amountParam ? Number(amountParam) : null;
+
+  if (!validateFundCode(code)) {
+    return NextResponse.json(
+      { success: false, error: '基金代码格式错误', fundCode: code },
+      { status: 400 }
+    );
+  }
+
+  if (amount !== null && (!isFinite(amount) || amount <= 0)) {
+    return NextResponse.json(
+      { success: false, error: 'amount 应为正数' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const schedule = await getFeeSchedule(code);
+
+    return NextResponse.json({
+      success: true,
+      data: schedule,
+      purchaseFee: amount !== null ? calculatePurchaseFee(schedule, amount) : undefined,
+    });
+  } catch (error) {
+    console.error(`Fee schedule error for ${code}:`, error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: '获取费率表失败',
+        message: error instanceof Error ? error.message : '未知错误',
+      },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Fund Holdings Changes API
+ *
+ * GET /api/funds/110022/holdings-changes              各报告期之间的重仓股变动和估算换手率
+ * GET /api/funds/110022/holdings-changes?refresh=1    忽略同步间隔，立即拉取最新报告期
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { validateFundCode } from '@/lib/security';
+import { getHoldingsChanges } from '@/lib/valuation/holdings-history-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { code: string } }
+) {
+  const { code } = params;
+
+  if (!validateFundCode(code)) {
+    return NextResponse.json(
+      { success: false, error: '基金代码格式错误', fundCode: code },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const refresh = request.nextUrl.searchParams.get('refresh') === '1';
+    const history = await getHoldingsChanges(code, refresh);
+
+    if (history.quarters.length === 0) {
+      return NextResponse.json(
+        { success: false, error: '该基金没有股票持仓数据', fundCode: code },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: history });
+  } catch (error) {
+    console.error(`Fund holdings changes error for ${code}:`, error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: '持仓变动分析失败',
+        message: error instanceof Error ? error.message : '未知错误',
+      },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * Fund NAV History API
+ *
+ * GET /api/funds/110022/nav-history?from=2024-01-01&to=2024-12-31
+ * GET /api/funds/110022/nav-history?refresh=1   立即同步增量
+ *
+ * 返回基金历史净值序列（单位净值、累计净值、日增长率、申购赎回状态），数据保存在本地，
+ * 首次请求全量拉取，之后只拉取增量
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { validateFundCode } from '@/lib/security';
+import { getNavHistory } from '@/lib/nav/nav-history-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { code: string } }
+) {
+  const { code } = params;
+  const searchParams = request.nextUrl.searchParams;
+  const from = searchParams.get('from') || undefined;
+  const to = searchParams.get('to') || undefined;
+
+  if (!validateFundCode(code)) {
+    return NextResponse.json(
+      { success: false, error: '基金代码格式错误', fundCode: code },
+      { status: 400 }
+    );
+  }
+
+  if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to))) {
+    return NextResponse.json(
+      { success: false, error: '日期格式应为 YYYY-MM-DD' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const records = await getNavHistory(code, {
+      from,
+      to,
+      refresh: searchParams.get('refresh') === '1',
+    });
+
+    return NextResponse.json({
+      success: true,
+      fundCode: code,
+      from: records[0]?.date || from || null,
+      to: records[records.length - 1]?.date || to || null,
+      total: records.length,
+      data: records,
+    });
+  } catch (error) {
+    console.error(`NAV history error for ${code}:`, error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: '获取历史净值失败',
+        message: error instanceof Error ? error.message : '未知错误',
+      },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Fund Profile API
+ *
+ * GET /api/funds/110022/profile              基金档案：收益、风险、基金经理、费率、规模、持仓集中度
+ * GET /api/funds/110022/profile?refresh=1    忽略刷新间隔，立即重新获取
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { validateFundCode } from '@/lib/security';
+import { FundProfileError, getFundProfile } from '@/lib/services/fund-profile-service';
+import { toFundData } from '@/lib/services/fund-profile';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { code: string } }
+) {
+  const { code } = params;
+
+  if (!validateFundCode(code)) {
+    return NextResponse.json(
+      { success: false, error: '基金代码格式错误', fundCode: code },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const refresh = request.nextUrl.searchParams.get('refresh') === '1';
+    const profile = await getFundProfile(code, refresh);
+
+    return NextResponse.json({ success: true, data: { profile, fundData: toFundData(profile) } });
+  } catch (error) {
+    if (error instanceof FundProfileError) {
+      return NextResponse.json(
+        { success: false, error: error.message, fundCode: code },
+        { status: 404 }
+      );
+    }
+
+    console.error(`Fund profile error for ${code}:`, error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: '获取基金档案失败',
+        message: error instanceof Error ? error.message : '未知错误',
+      },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Fund Share Classes API
+ *
+ * GET /api/funds/003095/share-classes                           同一基金的 A/C 份额及持有成本对比（默认 1 万元、持有 1 年）
+ * GET /api/funds/003095/share-classes?amount=50000&horizon=180  指定投入金额和计划持有天数
+ * GET /api/funds/003095/share-classes?expectedReturn=0.08       按预期年化收益计算持有期内的资产
+ *
+ * 没有可对比的 A/C 份额时返回 404，classes 仍为已找到的份额
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { validateFundCode } from '@/lib/security';
+import { DEFAULT_MAX_DAYS } from '@/lib/fees/share-class-cost';
+import { compareFundShareClasses, ShareClassError } from '@/lib/fees/share-class-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_AMOUNT = 10000;
+const DEFAULT_HORIZON = 365;
+const MAX_HORIZON = 10 * 365;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { code: string } }
+) {
+  const { code } = params;
+  const searchParams = request.nextUrl.searchParams;
+  const amount = Number(searchParams.get('amount') || DEFAULT_AMOUNT);
+  const horizonDays = Number(searchParams.get('horizon') || DEFAULT_HORIZON);
+  const expectedReturn = Number(searchParams.get('expectedReturn') || 0);
+
+  if (!validateFundCode(code)) {
+    return NextResponse.json(
+      { success: false, error: '基金代码格式错误', fundCode: code },
+      { status: 400 }
+    );
+  }
+
+  if (!isFinite(amount) || amount <= 0) {
+    return NextResponse.json(
+      { success: false, error: 'amount 应为正数' },
+      { status: 400 }
+    );
+  }
+
+  if (!Number.isInteger(horizonDays) || horizonDays < 1 || horizonDays > MAX_HORIZON) {
+    return NextResponse.json(
+      { success: false, error: `horizon 应为 1 到 ${MAX_HORIZON} 之间的整数天数` },
+      { status: 400 }
+    );
+  }
+
+  if (!isFinite(expectedReturn) || expectedReturn <= -1 || expectedReturn > 1) {
+    return NextResponse.json(
+      { success: false, error: 'expectedReturn 应为 -1 到 1 之间的小数' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const report = await compareFundShareClasses(code, {
+      amount,
+      horizonDays,
+      expectedReturn,
+      // 计划持有期超过 5 年时盈亏平衡点的搜索范围随之扩大
+      maxDays: Math.max(horizonDays, DEFAULT_MAX_DAYS),
+    });
+
+    return NextResponse.json({ success: true, data: report });
+  } catch (error) {
+    if (error instanceof ShareClassError) {
+      return NextResponse.json(
+        { success: false, error: error.message, classes: error.classes },
+        { status: 404 }
+      );
+    }
+
+    console.error(`Share class comparison error for ${code}:`, error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: '份额费用对比失败',
+        message: error instanceof Error ? error.message : '未知错误',
+      },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * SIP (定投) Simulation API
+ *
+ * POST /api/funds/110022/sip
+ * {
+ *   "amount": 1000,
+ *   "frequency": "weekly" | "biweekly" | "monthly",
+ *   "startDate": "2022-01-01",
+ *   "endDate": "2024-12-31",                  // 可选，默认最新净值日
+ *   "dayOfWeek": 1, "dayOfMonth": 1,          // 可选，扣款日
+ *   "strategy": "fixed" | "value-averaging" | "percentile" | "ma-deviation",
+ *   "minMultiplier": 0.5, "maxMultiplier": 2, // 可选，智能定投单期金额倍数范围
+ *   "feeRate": 0.0015                         // 可选，缺省按费率页优惠费率
+ * }
+ *
+ * 在历史净值上回放定投计划，返回累计份额、XIRR、持仓最大回撤，以及与同金额一次性投入的对比
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { validateFundCode } from '@/lib/security';
+import { runSipSimulation, SipPlanError } from '@/lib/sip/simulator';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { code: string } }
+) {
+  const { code } = params;
+  if (!validateFundCode(code)) {
+    return NextResponse.json(
+      { success: false, error: '基金代码格式错误', fundCode: code },
+      { status: 400 }
+    );
+  }
+
+  let plan;
+  try {
+    plan = await request.json();
+  } catch {
+    return NextResponse.json({ success: false, error: '请求体应为 JSON' }, { status: 400 });
+  }
+
+  // series 为逐日持仓，数据量较大，includeSeries=0 时不返回
+  const includeSeries = request.nextUrl.searchParams.get('includeSeries') !== '0';
+
+  try {
+    const result = await runSipSimulation(code, plan);
+
+    return NextResponse.json({
+      success: true,
+      data: includeSeries ? result : { ...result, series: undefined },
+    });
+  } catch (error) {
+    if (error instanceof SipPlanError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+
+    console.error(`SIP simulation error for ${code}:`, error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: '定投模拟失败',
+        message: error instanceof Error ? error.message : '未知错误',
+      },
+      { status: 502 }
+    );
+  }
+}
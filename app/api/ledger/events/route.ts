@@ -0,0 +1,113 @@
+/**
+ * 台账分红与拆分导入 API
+ *
+ * POST /api/ledger/events   { id }                                服务端台账：导入并保存
+ * POST /api/ledger/events   { transactions, dividendMethods }     浏览器本地流水：只返回应补录的流水
+ * PUT  /api/ledger/events   { id, fundCode, method }              设置基金的分红方式（cash | reinvest）
+ *
+ * 按权益登记日的持有份额生成现金分红或红利再投资流水、按拆分日前份额生成份额折算流水，
+ * 已导入或已手工录入的事件不会重复生成
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { validateFundCode } from '@/lib/security';
+import { createTransaction, LedgerTransaction, LedgerValidationError } from '@/lib/portfolio/ledger';
+import { isValidLedgerId, ledgerService } from '@/lib/portfolio/ledger-service';
+import { generateEventTransactions } from '@/lib/events/fund-events-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const MAX_TRANSACTIONS = 5000;
+
+function errorResponse(error: unknown) {
+  if (error instanceof LedgerValidationError) {
+    return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+  }
+
+  console.error('Ledger events API error:', error);
+  return NextResponse.json({
+    success: false,
+    error: '导入分红送配失败',
+    message: error instanceof Error ? error.message : '未知错误',
+  }, { status: 502 });
+}
+
+/**
+ * 解析 JSON 请求体，无法解析时返回 null
+ */
+async function readBody(request: NextRequest): Promise<Record<string, any> | null> {
+  try {
+    const body = await request.json();
+    return body && typeof body === 'object' ? body : {};
+  } catch {
+    return null;
+  }
+}
+
+function invalidBody() {
+  return NextResponse.json({ success: false, error: '请求体不是有效的 JSON' }, { status: 400 });
+}
+
+export async function POST(request: NextRequest) {
+  const body = await readBody(request);
+  if (!body) return invalidBody();
+
+  try {
+    const { id, transactions, dividendMethods } = body;
+
+    if (typeof id === 'string') {
+      if (!isValidLedgerId(id)) {
+        return NextResponse.json({ success: false, error: '缺少有效的台账 ID' }, { status: 400 });
+      }
+      const { result } = await ledgerService.applyFundEvents(id);
+      return NextResponse.json({
+        success: true,
+        added: result.transactions,
+        skipped: result.skipped,
+        data: await ledgerService.getSnapshot(id),
+      });
+    }
+
+    if (!Array.isArray(transactions) || transactions.length > MAX_TRANSACTIONS) {
+      return NextResponse.json(
+        { success: false, error: `需要提供台账 ID 或不超过 ${MAX_TRANSACTIONS} 条的 transactions` },
+        { status: 400 }
+      );
+    }
+
+    // 逐条校验，保留原 ID 以便去重
+    const normalized: LedgerTransaction[] = transactions.map((tx: LedgerTransaction) => {
+      const created = createTransaction(tx);
+      return { ...created, id: tx.id || created.id, createdAt: tx.createdAt || created.createdAt };
+    });
+    const result = await generateEventTransactions(
+      normalized,
+      dividendMethods && typeof dividendMethods === 'object' ? dividendMethods : {}
+    );
+
+    return NextResponse.json({ success: true, added: result.transactions, skipped: result.skipped });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  const body = await readBody(request);
+  if (!body) return invalidBody();
+
+  try {
+    const { id, fundCode, method } = body;
+    if (typeof id !== 'string' || !isValidLedgerId(id)) {
+      return NextResponse.json({ success: false, error: '缺少有效的台账 ID' }, { status: 400 });
+    }
+    if (!validateFundCode(fundCode)) {
+      return NextResponse.json({ success: false, error: '基金代码格式错误' }, { status: 400 });
+    }
+
+    const ledger = await ledgerService.setDividendMethod(id, fundCode, method);
+    return NextResponse.json({ success: true, dividendMethods: ledger.dividendMethods });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
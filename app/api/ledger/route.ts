@@ -0,0 +1,128 @@
+/**
+ * 持仓台账 API
+ *
+ * GET    /api/ledger?id=xxx&includeClosed=1     获取流水、持仓（按最新净值估值）和汇总
+ * POST   /api/ledger   { id, transaction }       新增一条交易
+ * PUT    /api/ledger   { id, transactions }      用浏览器端流水整体覆盖
+ * DELETE /api/ledger?id=xxx&transactionId=yyy   删除一条交易
+ *
+ * 台账 ID 由浏览器生成并保存在 localStorage，清除浏览器数据后输入原 ID 即可恢复
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { LedgerValidationError } from '@/lib/portfolio/ledger';
+import { isValidLedgerId, ledgerService } from '@/lib/portfolio/ledger-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// 单本台账最多保存的流水条数
+const MAX_TRANSACTIONS = 5000;
+
+function errorResponse(error: unknown) {
+  if (error instanceof LedgerValidationError) {
+    return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+  }
+
+  console.error('Ledger API error:', error);
+  return NextResponse.json({
+    success: false,
+    error: '台账操作失败',
+    message: error instanceof Error ? error.message : '未知错误',
+  }, { status: 500 });
+}
+
+/**
+ * 解析 JSON 请求体，无法解析时返回 null
+ */
+async function readBody(request: NextRequest): Promise<Record<string, any> | null> {
+  try {
+    const body = await request.json();
+    return body && typeof body === 'object' ? body : {};
+  } catch {
+    return null;
+  }
+}
+
+function invalidBody() {
+  return NextResponse.json({ success: false, error: '请求体不是有效的 JSON' }, { status: 400 });
+}
+
+function invalidId() {
+  return NextResponse.json({ success: false, error: '缺少有效的台账 ID' }, { status: 400 });
+}
+
+async function snapshotResponse(id: string, includeClosed: boolean = false) {
+  return NextResponse.json({
+    success: true,
+    data: await ledgerService.getSnapshot(id, includeClosed),
+  });
+}
+
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const id = searchParams.get('id') || '';
+  if (!isValidLedgerId(id)) return invalidId();
+
+  try {
+    return await snapshotResponse(id, searchParams.get('includeClosed') === '1');
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const body = await readBody(request);
+  if (!body) return invalidBody();
+
+  try {
+    const { id, transaction } = body;
+    if (typeof id !== 'string' || !isValidLedgerId(id)) return invalidId();
+    if (!transaction || typeof transaction !== 'object') {
+      return NextResponse.json({ success: false, error: '缺少交易数据' }, { status: 400 });
+    }
+
+    await ledgerService.addTransaction(id, transaction);
+    return await snapshotResponse(id);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  const body = await readBody(request);
+  if (!body) return invalidBody();
+
+  try {
+    const { id, transactions } = body;
+    if (typeof id !== 'string' || !isValidLedgerId(id)) return invalidId();
+    if (!Array.isArray(transactions) || transactions.length > MAX_TRANSACTIONS) {
+      return NextResponse.json(
+        { success: false, error: `transactions 应为不超过 ${MAX_TRANSACTIONS} 条的数组` },
+        { status: 400 }
+      );
+    }
+
+    await ledgerService.replaceTransactions(id, transactions);
+    return await snapshotResponse(id);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const id = searchParams.get('id') || '';
+  const transactionId = searchParams.get('transactionId') || '';
+  if (!isValidLedgerId(id)) return invalidId();
+  if (!transactionId) {
+    return NextResponse.json({ success: false, error: '缺少 transactionId' }, { status: 400 });
+  }
+
+  try {
+    await ledgerService.removeTransaction(id, transactionId);
+    return await snapshotResponse(id);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * 组合持仓穿透 API
+ *
+ * POST /api/portfolio/exposure
+ *
+ * 请求体: { holdings: [{ code, weight }] }，weight 为持有市值或比例，内部归一
+ *
+ * 按各基金最新重仓股合并出组合的申万一级行业权重和投资风格箱
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { validateFundCode } from '@/lib/security';
+import { getPortfolioExposure } from '@/lib/exposure/exposure-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const MAX_FUNDS = 30;
+
+export async function POST(request: NextRequest) {
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ success: false, error: '请求体不是有效的 JSON' }, { status: 400 });
+  }
+
+  const holdings = body?.holdings;
+  if (!Array.isArray(holdings) || holdings.length === 0 || holdings.length > MAX_FUNDS) {
+    return NextResponse.json(
+      { success: false, error: `holdings 应为 1-${MAX_FUNDS} 只基金` },
+      { status: 400 }
+    );
+  }
+
+  const invalid = holdings.find((h: any) =>
+    !h || typeof h.code !== 'string' || !validateFundCode(h.code)
+    || typeof h.weight !== 'number' || !isFinite(h.weight) || h.weight < 0
+  );
+  if (invalid) {
+    return NextResponse.json(
+      { success: false, error: '每只基金需要有效的 code 和非负的 weight', holding: invalid },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const data = await getPortfolioExposure(holdings.map((h: any) => ({ code: h.code, weight: h.weight })));
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error('Portfolio exposure error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: '组合穿透分析失败',
+        message: error instanceof Error ? error.message : '未知错误',
+      },
+      { status: 500 }
+    );
+  }
+}
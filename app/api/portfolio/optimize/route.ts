@@ -0,0 +1,121 @@
+/**
+ * 组合优化 API
+ *
+ * POST /api/portfolio/optimize
+ *
+ * 请求体:
+ * {
+ *   method: 'mean-variance' | 'risk-parity' | 'min-variance',
+ *   funds: [{ code, name?, type?, volatility?, expectedReturn? }],
+ *   minWeight?, maxWeight?, typeCaps?: [{ type, max }],
+ *   targetReturn?, targetRisk?, riskBudgets?, lookbackDays?
+ * }
+ *
+ * risk-parity 不支持 minWeight、maxWeight、typeCaps，传入时返回 400
+ *
+ * 协方差优先由历史净值计算，返回各基金权重、边际风险贡献和风险贡献占比
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { validateFundCode } from '@/lib/security';
+import { InfeasibleConstraintsError } from '@/lib/portfolio/optimizer';
+import {
+  OptimizationFund,
+  OptimizationInputError,
+  OptimizationMethod,
+  optimizePortfolio,
+} from '@/lib/portfolio/optimization-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const METHODS: OptimizationMethod[] = ['mean-variance', 'risk-parity', 'min-variance'];
+const MAX_FUNDS = 30;
+
+// 回看天数范围
+const MIN_LOOKBACK_DAYS = 90;
+const MAX_LOOKBACK_DAYS = 365 * 5;
+
+function optionalNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && isFinite(value) ? value : undefined;
+}
+
+export async function POST(request: NextRequest) {
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ success: false, error: '请求体不是有效的 JSON' }, { status: 400 });
+  }
+
+  const method = METHODS.find(m => m === body?.method);
+  if (!method) {
+    return NextResponse.json(
+      { success: false, error: `method 应为 ${METHODS.join(' / ')}` },
+      { status: 400 }
+    );
+  }
+
+  const funds: OptimizationFund[] = Array.isArray(body.funds)
+    ? body.funds
+      .filter((f: any) => f && typeof f.code === 'string' && validateFundCode(f.code))
+      .map((f: any) => ({
+        code: f.code,
+        name: typeof f.name === 'string' ? f.name : undefined,
+        type: typeof f.type === 'string' ? f.type : undefined,
+        volatility: optionalNumber(f.volatility),
+        expectedReturn: optionalNumber(f.expectedReturn),
+      }))
+    : [];
+
+  if (funds.length < 2) {
+    return NextResponse.json({ success: false, error: '至少需要 2 只有效的候选基金' }, { status: 400 });
+  }
+
+  if (funds.length > MAX_FUNDS) {
+    return NextResponse.json({ success: false, error: `单次最多优化 ${MAX_FUNDS} 只基金` }, { status: 400 });
+  }
+
+  if (new Set(funds.map(f => f.code)).size !== funds.length) {
+    return NextResponse.json({ success: false, error: '候选基金代码重复' }, { status: 400 });
+  }
+
+  const lookbackDays = Math.min(
+    MAX_LOOKBACK_DAYS,
+    Math.max(MIN_LOOKBACK_DAYS, optionalNumber(body.lookbackDays) ?? 365)
+  );
+
+  try {
+    const result = await optimizePortfolio({
+      method,
+      funds,
+      lookbackDays,
+      minWeight: optionalNumber(body.minWeight),
+      maxWeight: optionalNumber(body.maxWeight),
+      typeConstraints: Array.isArray(body.typeCaps)
+        ? body.typeCaps
+          .filter((c: any) => c && typeof c.type === 'string')
+          .map((c: any) => ({ type: c.type, max: optionalNumber(c.max), min: optionalNumber(c.min) }))
+        : undefined,
+      targetReturn: optionalNumber(body.targetReturn),
+      targetRisk: optionalNumber(body.targetRisk),
+      riskFreeRate: optionalNumber(body.riskFreeRate),
+      riskBudgets: Array.isArray(body.riskBudgets) ? body.riskBudgets.map(Number) : undefined,
+    });
+
+    return NextResponse.json({
+      success: true,
+      timestamp: new Date().toISOString(),
+      lookbackDays,
+      data: result,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '未知错误';
+    const isInputError = error instanceof InfeasibleConstraintsError || error instanceof OptimizationInputError;
+
+    return NextResponse.json(
+      { success: false, error: isInputError ? message : '组合优化失败', message },
+      { status: isInputError ? 400 : 500 }
+    );
+  }
+}
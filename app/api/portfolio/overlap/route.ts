@@ -0,0 +1,78 @@
+/**
+ * 组合持仓重叠 API
+ *
+ * POST /api/portfolio/overlap
+ *
+ * 请求体: { holdings: [{ code, weight }], threshold?: 5 }
+ * weight 为持有市值或比例，内部归一；threshold 为个股穿透权重预警阈值 (%)
+ *
+ * 返回基金两两重叠度、个股在组合中的穿透权重和超过阈值的个股预警
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { validateFundCode } from '@/lib/security';
+import { DEFAULT_STOCK_THRESHOLD } from '@/lib/exposure/overlap';
+import { getPortfolioOverlap } from '@/lib/exposure/exposure-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const MAX_FUNDS = 30;
+
+export async function POST(request: NextRequest) {
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ success: false, error: '请求体不是有效的 JSON' }, { status: 400 });
+  }
+
+  const holdings = body?.holdings;
+  if (!Array.isArray(holdings) || holdings.length === 0 || holdings.length > MAX_FUNDS) {
+    return NextResponse.json(
+      { success: false, error: `holdings 应为 1-${MAX_FUNDS} 只基金` },
+      { status: 400 }
+    );
+  }
+
+  const invalid = holdings.find((h: any) =>
+    !h || typeof h.code !== 'string' || !validateFundCode(h.code)
+    || typeof h.weight !== 'number' || !isFinite(h.weight) || h.weight < 0
+  );
+  if (invalid) {
+    return NextResponse.json(
+      { success: false, error: '每只基金需要有效的 code 和非负的 weight', holding: invalid },
+      { status: 400 }
+    );
+  }
+
+  const duplicated = holdings
+    .map((h: any) => h.code)
+    .filter((code: string, i: number, codes: string[]) => codes.indexOf(code) !== i);
+  if (duplicated.length > 0) {
+    return NextResponse.json(
+      { success: false, error: `基金代码重复: ${Array.from(new Set(duplicated)).join('、')}` },
+      { status: 400 }
+    );
+  }
+
+  const threshold = body.threshold ?? DEFAULT_STOCK_THRESHOLD;
+  if (typeof threshold !== 'number' || !(threshold > 0 && threshold <= 100)) {
+    return NextResponse.json({ success: false, error: 'threshold 应在 0-100 之间' }, { status: 400 });
+  }
+
+  try {
+    const data = await getPortfolioOverlap(holdings.map((h: any) => ({ code: h.code, weight: h.weight })), threshold);
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error('Portfolio overlap error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: '持仓重叠分析失败',
+        message: error instanceof Error ? error.message : '未知错误',
+      },
+      { status: 500 }
+    );
+  }
+}
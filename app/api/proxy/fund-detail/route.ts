@@ -5,49 +5,11 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { getLatestFundNav } from '@/lib/valuation/valuation-service';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
-/**
- * 从东方财富获取基金净值数据
- */
-async function getFundNavFromEastmoney(fundCode: string) {
-  const urls = [
-    `https://fundf10.eastmoney.com/F10DataApi.aspx?type=lsjz&code=${fundCode}&sort=date&desc=true&page=1&per=1`,
-    `http://fundf10.eastmoney.com/F10DataApi.aspx?type=lsjz&code=${fundCode}&sort=date&desc=true&page=1&per=1`,
-  ];
-
-  for (const url of urls) {
-    try {
-      const response = await fetch(url, {
-        headers: { 'User-Agent': 'Mozilla/5.0' },
-        signal: AbortSignal.timeout(8000),
-      });
-
-      if (!response.ok) continue;
-
-      const text = await response.text();
-
-      // 解析返回的数据
-      const match = text.match(/var apidata=\{ content:"<table[^>]*>[\s\S]*?<tr>[\s\S]*?<td>([\d-]+)<\/td>[\s\S]*?<td class='tor bold'>([\d.]+)<\/td>[\s\S]*?<td class='tor bold'>([\d.]+)<\/td>[\s\S]*?<td class='tor bold[^']*'>([^<]+)<\/td>/);
-
-      if (match) {
-        return {
-          date: match[1],
-          nav: parseFloat(match[2]),
-          accumulatedNav: parseFloat(match[3]),
-          dayGrowth: parseFloat(match[4].replace('%', '')),
-        };
-      }
-    } catch (e) {
-      continue;
-    }
-  }
-
-  return null;
-}
-
 /**
  * 从东方财富获取基金名称
  */
@@ -95,7 +57,7 @@ export async function GET(request: NextRequest) {
   try {
     // 并行获取净值数据和基金名称
     const [navData, fundName] = await Promise.all([
-      getFundNavFromEastmoney(code),
+      getLatestFundNav(code),
       getFundNameFromEastmoney(code),
     ]);
 
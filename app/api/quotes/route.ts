@@ -0,0 +1,58 @@
+/**
+ * Stock Quotes API
+ *
+ * GET /api/quotes?codes=600519,000858,00700
+ *
+ * 服务端批量获取股票实时行情（多数据源自动故障转移）
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getQuoteProvider } from '@/lib/quotes';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// 单次请求的代码数量上限
+const MAX_CODES = 200;
+
+export async function GET(request: NextRequest) {
+  const codes = (request.nextUrl.searchParams.get('codes') || '')
+    .split(',')
+    .map(c => c.trim())
+    .filter(Boolean);
+
+  if (codes.length === 0) {
+    return NextResponse.json(
+      { error: 'Stock codes are required' },
+      { status: 400 }
+    );
+  }
+
+  if (codes.length > MAX_CODES) {
+    return NextResponse.json(
+      { error: `At most ${MAX_CODES} codes per request` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const provider = getQuoteProvider();
+    const quotes = await provider.getQuotes(codes);
+
+    return NextResponse.json({
+      success: true,
+      provider: provider.name,
+      data: quotes,
+      missing: codes.filter(code => !quotes.some(q => q.code === code)),
+    });
+  } catch (error) {
+    console.error('Quotes API error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch quotes',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 502 }
+    );
+  }
+}
@@ -6,16 +6,25 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { PortfolioRiskAnalyzer } from '../../../../lib/risk/portfolio-risk';
+import { FundHolding, MIN_OBSERVATIONS, PortfolioRiskAnalyzer } from '../../../../lib/risk/portfolio-risk';
+import { getFundReturnsBatch } from '../../../../lib/risk/fund-returns';
+import { computeSeriesRiskMetrics } from '../../../../lib/risk/metrics';
+
+// 回看天数范围
+const MIN_LOOKBACK_DAYS = 90;
+const MAX_LOOKBACK_DAYS = 365 * 5;
 
 /**
  * POST /api/risk/analyze
  *
  * 分析组合风险
+ *
+ * 请求体: { holdings: [{ code, name, weight, return }], lookbackDays?: 365 }
+ * 自动加载各基金历史净值，样本足够时按实际收益率序列计算指标
  */
 export async function POST(request: NextRequest) {
   try {
-    const { holdings } = await request.json();
+    const { holdings, lookbackDays } = await request.json();
 
     // 验证输入
     if (!Array.isArray(holdings) || holdings.length === 0) {
@@ -28,8 +37,40 @@ export async function POST(request: NextRequest) {
     // 创建风险分析器
     const analyzer = new PortfolioRiskAnalyzer();
 
+    // 加载历史收益率序列
+    const days = Math.min(MAX_LOOKBACK_DAYS, Math.max(MIN_LOOKBACK_DAYS, Number(lookbackDays) || 365));
+    const returnsByCode = await getFundReturnsBatch(holdings.map((h: FundHolding) => h.code), days);
+    const holdingsWithReturns: FundHolding[] = holdings.map((h: FundHolding) => ({
+      ...h,
+      returns: returnsByCode.get(h.code),
+    }));
+
     // 分析组合风险
-    const metrics = analyzer.analyzePortfolio(holdings);
+    const metrics = analyzer.analyzePortfolio(holdingsWithReturns);
+
+    // 相关系数矩阵（Ledoit-Wolf 收缩），历史数据不足时为 null
+    const covariance = analyzer.getCovarianceMatrix(holdingsWithReturns);
+    const correlationMatrix = covariance && {
+      codes: covariance.codes,
+      names: holdingsWithReturns.map(h => h.name),
+      method: covariance.method,
+      observations: covariance.observations,
+      startDate: covariance.startDate,
+      endDate: covariance.endDate,
+      shrinkage: covariance.shrinkage,
+      correlation: covariance.correlation,
+    };
+
+    // 单只基金的实际风险指标
+    const funds = holdingsWithReturns.map(h => {
+      const returns = h.returns || [];
+      return {
+        code: h.code,
+        name: h.name,
+        method: returns.length >= MIN_OBSERVATIONS ? 'empirical' : 'estimated',
+        ...(returns.length > 0 ? computeSeriesRiskMetrics(returns) : { observations: 0 }),
+      };
+    });
 
     // 压力测试
     const stressTests = analyzer.stressTest(holdings);
@@ -39,6 +80,9 @@ export async function POST(request: NextRequest) {
       data: {
         metrics,
         stressTests,
+        funds,
+        correlationMatrix,
+        lookbackDays: days,
         holdingsCount: holdings.length,
       },
     });
@@ -0,0 +1,95 @@
+/**
+ * Fund Screener API
+ *
+ * POST /api/screener    按筛选条件在全市场基金中筛选，条件格式见 lib/screener/screener.ts
+ *   { "filters": { "types": ["股票型"], "performance": [{ "window": "1y", "return": { "min": 10 } }] },
+ *     "sort": { "field": "sharpeRatio", "window": "3y", "order": "desc" }, "page": 1, "pageSize": 20 }
+ * GET  /api/screener    基金列表和本地索引概况
+ * PUT  /api/screener    扩充本地索引 { "codes"?: [...], "types"?: [...], "limit"?: 20, "refresh"?: false }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { validateFundCode } from '@/lib/security';
+import { parseScreenerRequest, ScreenerQueryError } from '@/lib/screener/screener';
+import { expandScreenerIndex, getScreenerSummary, MAX_INDEX_BATCH, screen } from '@/lib/screener/screener-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+function errorResponse(error: unknown, message: string) {
+  console.error(`Screener error:`, error);
+  return NextResponse.json(
+    {
+      success: false,
+      error: message,
+      message: error instanceof Error ? error.message : '未知错误',
+    },
+    { status: 502 }
+  );
+}
+
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ success: false, error: '请求体应为 JSON' }, { status: 400 });
+  }
+
+  try {
+    const result = await screen(parseScreenerRequest(body));
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    if (error instanceof ScreenerQueryError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+    return errorResponse(error, '基金筛选失败');
+  }
+}
+
+export async function GET() {
+  try {
+    return NextResponse.json({ success: true, data: await getScreenerSummary() });
+  } catch (error) {
+    return errorResponse(error, '获取基金列表失败');
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    body = {};
+  }
+
+  const codes = body?.codes;
+  if (codes !== undefined) {
+    if (!Array.isArray(codes) || codes.length > MAX_INDEX_BATCH || !codes.every(c => validateFundCode(c))) {
+      return NextResponse.json(
+        { success: false, error: `codes 应为不超过 ${MAX_INDEX_BATCH} 个的基金代码数组` },
+        { status: 400 }
+      );
+    }
+  }
+
+  const types = body?.types;
+  if (types !== undefined && (!Array.isArray(types) || types.some((t: unknown) => typeof t !== 'string'))) {
+    return NextResponse.json({ success: false, error: 'types 应为字符串数组' }, { status: 400 });
+  }
+
+  const limit = body?.limit;
+  if (limit !== undefined && !(Number.isInteger(limit) && limit >= 1 && limit <= MAX_INDEX_BATCH)) {
+    return NextResponse.json(
+      { success: false, error: `limit 应为 1 到 ${MAX_INDEX_BATCH} 之间的整数` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const result = await expandScreenerIndex({ codes, types, limit, refresh: body?.refresh === true });
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    return errorResponse(error, '扩充筛选索引失败');
+  }
+}
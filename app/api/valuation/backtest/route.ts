@@ -0,0 +1,74 @@
+/**
+ * 估值准确度回测 API
+ *
+ * GET /api/valuation/backtest?fundCodes=110022,005827&start=2024-10-01&end=2024-12-31&method=scale
+ *
+ * 用历史持仓和收盘行情逐日回放估值，与实际公布净值比较，返回每只基金的误差统计
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { sanitizeFundCodes } from '@/lib/security';
+import { backtestFunds } from '@/lib/valuation/backtest';
+import type { CorrectionMethod } from '@/lib/valuation/calculation-engine';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// 回测请求量大，限制单次基金数量
+const MAX_FUNDS = 10;
+
+const CORRECTION_METHODS: CorrectionMethod[] = ['none', 'scale', 'benchmark'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const codes = Array.from(new Set(sanitizeFundCodes((searchParams.get('fundCodes') || '').split(','))));
+  const start = searchParams.get('start') || undefined;
+  const end = searchParams.get('end') || undefined;
+  const lag = parseInt(searchParams.get('lag') || '', 10);
+
+  if (codes.length === 0) {
+    return NextResponse.json(
+      { success: false, error: '缺少有效的基金代码' },
+      { status: 400 }
+    );
+  }
+
+  if (codes.length > MAX_FUNDS) {
+    return NextResponse.json(
+      { success: false, error: `单次最多回测 ${MAX_FUNDS} 只基金` },
+      { status: 400 }
+    );
+  }
+
+  if ((start && !DATE_PATTERN.test(start)) || (end && !DATE_PATTERN.test(end))) {
+    return NextResponse.json(
+      { success: false, error: '日期格式应为 YYYY-MM-DD' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { results, failed } = await backtestFunds(codes, {
+      startDate: start,
+      endDate: end,
+      method: CORRECTION_METHODS.find(m => m === searchParams.get('method')),
+      benchmarkCode: searchParams.get('benchmark') || undefined,
+      bondIndexCode: searchParams.get('bondIndex') || undefined,
+      disclosureLagDays: isNaN(lag) ? undefined : lag,
+    });
+
+    return NextResponse.json({
+      success: results.length > 0,
+      timestamp: new Date().toISOString(),
+      results,
+      failed,
+    });
+  } catch (error) {
+    return NextResponse.json({
+      success: false,
+      error: '回测失败',
+      message: error instanceof Error ? error.message : '未知错误',
+    }, { status: 500 });
+  }
+}
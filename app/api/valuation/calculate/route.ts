@@ -1,46 +1,79 @@
 /**
  * 基金估值计算 API (真实数据版本)
+ *
+ * GET  /api/valuation/calculate?fundCode=110022
+ * GET  /api/valuation/calculate?fundCode=110022&method=benchmark&benchmark=sh000905&bondIndex=sh000012
+ * GET  /api/valuation/calculate?fundCodes=110022,000001
+ * POST /api/valuation/calculate  { fundCodes: ['110022', '000001'], method?: 'benchmark' }
+ *
+ * 获取持仓 → 获取持仓股票行情 → 计算估算净值
+ *
+ * method: none | scale（默认）| benchmark，未披露仓位的修正方法
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { sanitizeFundCodes, validateFundCode } from '@/lib/security';
+import {
+  estimateBatchValuation,
+  estimateFundValuation,
+  ValuationOptions,
+} from '@/lib/valuation/valuation-service';
+import type { CorrectionMethod } from '@/lib/valuation/calculation-engine';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// 单次批量估值的基金数量上限
+const MAX_BATCH_SIZE = 50;
+
+const CORRECTION_METHODS: CorrectionMethod[] = ['none', 'scale', 'benchmark'];
 
 /**
- * 从东方财富获取基金最新净值
+ * 从请求参数中读取估值选项
  */
-async function getFundNav(fundCode: string) {
-  const urls = [
-    `https://fundf10.eastmoney.com/F10DataApi.aspx?type=lsjz&code=${fundCode}&sort=date&desc=true&page=1&per=1`,
-    `http://fundf10.eastmoney.com/F10DataApi.aspx?type=lsjz&code=${fundCode}&sort=date&desc=true&page=1&per=1`,
-  ];
-
-  for (const url of urls) {
-    try {
-      const response = await fetch(url, {
-        headers: { 'User-Agent': 'Mozilla/5.0' },
-        signal: AbortSignal.timeout(8000),
-      });
-
-      if (!response.ok) continue;
-
-      const text = await response.text();
-
-      // 解析返回的数据
-      const match = text.match(/var apidata=\{ content:"<table[^>]*>[\s\S]*?<tr>[\s\S]*?<td>([\d-]+)<\/td>[\s\S]*?<td class='tor bold'>([\d.]+)<\/td>[\s\S]*?<td class='tor bold'>([\d.]+)<\/td>[\s\S]*?<td class='tor bold[^']*'>([^<]+)<\/td>/);
-
-      if (match) {
-        return {
-          date: match[1],
-          nav: parseFloat(match[2]),
-          accumulatedNav: parseFloat(match[3]),
-          dayGrowth: parseFloat(match[4].replace('%', '')),
-        };
-      }
-    } catch (e) {
-      continue;
-    }
+function parseValuationOptions(params: {
+  method?: string | null;
+  benchmark?: string | null;
+  bondIndex?: string | null;
+}): ValuationOptions {
+  const method = CORRECTION_METHODS.find(m => m === params.method);
+
+  return {
+    method,
+    benchmarkCode: params.benchmark || undefined,
+    bondIndexCode: params.bondIndex || undefined,
+  };
+}
+
+/**
+ * 批量估值
+ */
+async function handleBatch(fundCodes: string[], options: ValuationOptions) {
+  const codes = Array.from(new Set(sanitizeFundCodes(fundCodes)));
+
+  if (codes.length === 0) {
+    return NextResponse.json(
+      { success: false, error: '缺少有效的基金代码' },
+      { status: 400 }
+    );
+  }
+
+  if (codes.length > MAX_BATCH_SIZE) {
+    return NextResponse.json(
+      { success: false, error: `单次最多估值 ${MAX_BATCH_SIZE} 只基金` },
+      { status: 400 }
+    );
   }
 
-  return null;
+  const { results, failed } = await estimateBatchValuation(codes, options);
+
+  return NextResponse.json({
+    success: results.length > 0,
+    timestamp: new Date().toISOString(),
+    total: codes.length,
+    results,
+    failed,
+  });
 }
 
 /**
@@ -48,41 +81,63 @@ async function getFundNav(fundCode: string) {
  */
 export async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams;
-  const fundCode = searchParams.get('fundCode') || '000001';
+  const fundCodes = searchParams.get('fundCodes');
+  const options = parseValuationOptions({
+    method: searchParams.get('method'),
+    benchmark: searchParams.get('benchmark'),
+    bondIndex: searchParams.get('bondIndex'),
+  });
 
   try {
-    // 获取基金净值
-    const navData = await getFundNav(fundCode);
-
-    if (!navData) {
-      return NextResponse.json({
-        success: false,
-        error: '无法获取基金净值',
-        message: '基金代码不存在或数据源不可用',
-        fundCode,
-      });
+    if (fundCodes) {
+      return await handleBatch(fundCodes.split(','), options);
+    }
+
+    const fundCode = searchParams.get('fundCode') || '000001';
+
+    if (!validateFundCode(fundCode)) {
+      return NextResponse.json(
+        { success: false, error: '基金代码格式错误', fundCode },
+        { status: 400 }
+      );
     }
 
-    // 返回净值数据
+    const valuation = await estimateFundValuation(fundCode, options);
+
     return NextResponse.json({
       success: true,
-      fundCode,
-      fundName: `基金${fundCode}`,
-      lastNav: navData.nav,
-      lastNavDate: navData.date,
-      accumulatedNav: navData.accumulatedNav,
-      dayGrowth: navData.dayGrowth,
-      estimatedNav: navData.nav,
-      estimatedChange: 0,
-      estimatedChangePercent: 0,
-      message: '实时估值计算功能开发中',
+      ...valuation,
     });
   } catch (error) {
     return NextResponse.json({
       success: false,
       error: '估值计算失败',
       message: error instanceof Error ? error.message : '未知错误',
-      fundCode,
+      fundCode: searchParams.get('fundCode'),
+    }, { status: 500 });
+  }
+}
+
+/**
+ * POST 处理器（自选列表批量估值）
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { fundCodes, method, benchmark, bondIndex } = await request.json();
+
+    if (!Array.isArray(fundCodes)) {
+      return NextResponse.json(
+        { success: false, error: 'fundCodes 必须是基金代码数组' },
+        { status: 400 }
+      );
+    }
+
+    return await handleBatch(fundCodes.map(String), parseValuationOptions({ method, benchmark, bondIndex }));
+  } catch (error) {
+    return NextResponse.json({
+      success: false,
+      error: '批量估值失败',
+      message: error instanceof Error ? error.message : '未知错误',
     }, { status: 500 });
   }
 }
@@ -2,6 +2,7 @@
  * 基金持仓解析测试 API
  *
  * GET /api/valuation/parse-holdings?fundCode=000001
+ * GET /api/valuation/parse-holdings?fundCode=000001&year=2023
  *
  * 测试从东方财富 HTML 中解析持仓数据的功能
  */
@@ -12,9 +13,10 @@ import { getFundHoldings } from '@/lib/valuation/holdings-parser';
 export async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams;
   const fundCode = searchParams.get('fundCode') || '000001';
+  const year = parseInt(searchParams.get('year') || '', 10);
 
   try {
-    const result = await getFundHoldings(fundCode);
+    const result = await getFundHoldings(fundCode, false, isNaN(year) ? undefined : year);
 
     return NextResponse.json({
       timestamp: new Date().toISOString(),
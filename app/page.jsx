@@ -10,8 +10,11 @@ import { RiskDashboard } from '../components/RiskDashboard';
 import { FundDetailModal } from '../components/FundDetailModal';
 import { FundFilters } from '../components/FundFilters';
 import { PortfolioStats } from '../components/PortfolioStats';
+import { HoldingsOverlap } from '../components/HoldingsOverlap';
+import { PositionLedger } from '../components/PositionLedger';
 import { FundCompare, CompareButton } from '../components/FundCompare';
 import { ThemeToggle } from '../components/ThemeToggle';
+import { buildPositions } from '../lib/portfolio/ledger';
 
 function PlusIcon(props) {
   return (
@@ -124,6 +127,9 @@ export default function HomePage() {
   // 基金对比状态
   const [comparingFunds, setComparingFunds] = useState([]);
 
+  // 持仓交易流水
+  const [transactions, setTransactions] = useState([]);
+
   // 当基金列表或标签页变化时更新筛选列表
   useEffect(() => {
     // 先去重，确保没有重复的基金代码
@@ -182,6 +188,20 @@ export default function HomePage() {
     setComparingFunds([]);
   };
 
+  const updateTransactions = (next) => {
+    setTransactions(next);
+    localStorage.setItem('ledger', JSON.stringify(next));
+  };
+
+  // 由流水推导的持仓（流水异常时视为未录入）
+  const positions = (() => {
+    try {
+      return buildPositions(transactions);
+    } catch {
+      return [];
+    }
+  })();
+
   useEffect(() => {
     try {
       const saved = JSON.parse(localStorage.getItem('funds') || '[]');
@@ -204,6 +224,11 @@ export default function HomePage() {
       if (Array.isArray(savedFavorites)) {
         setFavorites(new Set(savedFavorites));
       }
+      // 加载持仓流水
+      const savedLedger = JSON.parse(localStorage.getItem('ledger') || '[]');
+      if (Array.isArray(savedLedger)) {
+        setTransactions(savedLedger);
+      }
     } catch {}
   }, []);
 
@@ -243,68 +268,32 @@ export default function HomePage() {
       if (proxyResponse.ok) {
         const proxyData = await proxyResponse.json();
         if (proxyData.success && proxyData.data) {
-          // 获取重仓股票列表
-          const holdingsUrl = `https://fundf10.eastmoney.com/FundArchivesDatas.aspx?type=jjcc&code=${c}&topline=10&year=&month=&rt=${Date.now()}`;
-
+          // 获取重仓股票列表（服务端解析最新报告期持仓）
           try {
-            await loadScript(holdingsUrl);
             let holdings = [];
-            const html = window.apidata?.content || '';
-            const rows = html.match(/<tr[\s\S]*?<\/tr>/gi) || [];
-
-            for (const r of rows) {
-              const cells = (r.match(/<td[\s\S]*?>([\s\S]*?)<\/td>/gi) || []).map(td => td.replace(/<[^>]*>/g, '').trim());
-              const codeIdx = cells.findIndex(txt => /^\d{6}$/.test(txt));
-              const weightIdx = cells.findIndex(txt => /\d+(?:\.\d+)?\s*%/.test(txt));
-
-              if (codeIdx >= 0 && weightIdx >= 0) {
-                holdings.push({
-                  code: cells[codeIdx],
-                  name: cells[codeIdx + 1] || '',
-                  weight: cells[weightIdx],
-                  change: null
-                });
-              }
+            const holdingsResponse = await fetch(`/api/valuation/parse-holdings?fundCode=${c}`);
+            if (holdingsResponse.ok) {
+              const holdingsData = await holdingsResponse.json();
+              holdings = (holdingsData.holdings || []).slice(0, 10).map(h => ({
+                code: h.stockCode,
+                name: h.stockName,
+                weight: `${h.ratio.toFixed(2)}%`,
+                change: null
+              }));
             }
 
-            holdings = holdings.slice(0, 10);
-
-            // 尝试获取股票涨跌幅
+            // 尝试获取股票涨跌幅（服务端行情 API，多数据源故障转移）
             if (holdings.length) {
-              const getTencentPrefix = (code) => {
-                if (code.startsWith('6') || code.startsWith('9')) return 'sh';
-                if (code.startsWith('0') || code.startsWith('3')) return 'sz';
-                if (code.startsWith('4') || code.startsWith('8')) return 'bj';
-                return 'sz';
-              };
-
               try {
-                const tencentCodes = holdings.map(h => `s_${getTencentPrefix(h.code)}${h.code}`).join(',');
-                const quoteUrl = `https://qt.gtimg.cn/q=${tencentCodes}`;
-
-                await new Promise((resQuote) => {
-                  const scriptQuote = document.createElement('script');
-                  scriptQuote.src = quoteUrl;
-                  scriptQuote.onload = () => {
-                    holdings.forEach(h => {
-                      const varName = `v_s_${getTencentPrefix(h.code)}${h.code}`;
-                      const dataStr = window[varName];
-                      if (dataStr) {
-                        const parts = dataStr.split('~');
-                        if (parts.length > 5) {
-                          h.change = parseFloat(parts[5]);
-                        }
-                      }
-                    });
-                    if (document.body.contains(scriptQuote)) document.body.removeChild(scriptQuote);
-                    resQuote();
-                  };
-                  scriptQuote.onerror = () => {
-                    if (document.body.contains(scriptQuote)) document.body.removeChild(scriptQuote);
-                    resQuote();
-                  };
-                  document.body.appendChild(scriptQuote);
-                });
+                const quoteResponse = await fetch(`/api/quotes?codes=${holdings.map(h => h.code).join(',')}`);
+                if (quoteResponse.ok) {
+                  const quoteData = await quoteResponse.json();
+                  const quoteMap = new Map((quoteData.data || []).map(q => [q.code, q]));
+                  holdings.forEach(h => {
+                    const quote = quoteMap.get(h.code);
+                    if (quote) h.change = quote.changePercent;
+                  });
+                }
               } catch (e) {
                 console.error('获取股票涨跌幅失败', e);
               }
@@ -775,10 +764,10 @@ export default function HomePage() {
           {showSearchResults && typeof document !== 'undefined' && createPortal(
             <div className="search-results" style={{ top: `${searchPosition.top}px`, left: `${searchPosition.left}px` }}>
               {searchResults.length > 0 ? (
-                searchResults.map((fund) => (
+                searchResults.map((fund, i) => (
                   <div
                     key={fund.code}
-                    className="search-result-item"
+                    className={`search-result-item ${fund.groupKey && searchResults[i - 1]?.groupKey === fund.groupKey ? 'share-class-sibling' : ''}`}
                     onClick={() => addFundFromSearch(fund.code)}
                     onMouseDown={(e) => {
                       // 防止点击事件被 input 的 blur 事件阻止
@@ -786,7 +775,10 @@ export default function HomePage() {
                     }}
                   >
                     <div className="search-result-info">
-                      <span className="search-result-name">{fund.name}</span>
+                      <span className="search-result-name">
+                        {fund.name}
+                        {fund.shareClass && <span className="search-result-share">{fund.shareClass}类</span>}
+                      </span>
                       <span className="muted">#{fund.code}</span>
                     </div>
                     {funds.some(f => f.code === fund.code) && (
@@ -852,7 +844,7 @@ export default function HomePage() {
             </div>
           ) : (
             /* 基金筛选和排序组件 - 使用 children render prop 模式 */
-            <FundFilters funds={filteredFunds}>
+            <FundFilters funds={filteredFunds} onAdd={addFundFromSearch}>
               {(filteredFunds) => (
                 <div className="grid">
                   {filteredFunds.map((f) => (
@@ -981,7 +973,31 @@ export default function HomePage() {
                 <h2 style={{ marginBottom: '16px', fontSize: '18px', fontWeight: 600 }}>
                   数据统计
                 </h2>
-                <PortfolioStats funds={funds} />
+                <PortfolioStats funds={funds} positions={positions} transactions={transactions} />
+              </div>
+            </div>
+          </div>
+
+          {/* 持仓重叠 */}
+          <div className="grid">
+            <div className="col-12">
+              <div className="glass card" style={{ padding: '20px' }}>
+                <h2 style={{ marginBottom: '16px', fontSize: '18px', fontWeight: 600 }}>
+                  持仓重叠
+                </h2>
+                <HoldingsOverlap funds={funds} positions={positions} />
+              </div>
+            </div>
+          </div>
+
+          {/* 持仓记账 */}
+          <div className="grid">
+            <div className="col-12">
+              <div className="glass card" style={{ padding: '20px' }}>
+                <h2 style={{ marginBottom: '16px', fontSize: '18px', fontWeight: 600 }}>
+                  持仓记账
+                </h2>
+                <PositionLedger funds={funds} transactions={transactions} onChange={updateTransactions} />
               </div>
             </div>
           </div>
@@ -0,0 +1,288 @@
+/**
+ * 估值准确度回测页面
+ *
+ * 对比历史估算净值与实际公布净值，查看哪些基金的估值值得信任
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+
+interface BacktestDay {
+  date: string;
+  actualChangePercent: number;
+  estimatedChangePercent: number;
+  error: number;
+  holdingsReportDate: string;
+  coverage: number;
+}
+
+interface BacktestResult {
+  fundCode: string;
+  fundName: string;
+  startDate: string;
+  endDate: string;
+  method: string;
+  stats: {
+    days: number;
+    mae: number;
+    rmse: number;
+    bias: number;
+    trackingError: number;
+    annualizedTrackingError: number;
+    maxAbsError: number;
+    directionAccuracy: number;
+    within02: number;
+    within05: number;
+  };
+  worstDays: BacktestDay[];
+  days: BacktestDay[];
+}
+
+interface BacktestResponse {
+  success: boolean;
+  timestamp: string;
+  results: BacktestResult[];
+  failed: { fundCode: string; error: string }[];
+  error?: string;
+}
+
+const METHOD_OPTIONS = [
+  { value: 'none', label: '仅统计重仓股' },
+  { value: 'scale', label: '按股票仓位放大' },
+  { value: 'benchmark', label: '未覆盖仓位跟随基准指数' },
+];
+
+/**
+ * 按平均绝对误差评级
+ */
+function getTrustLevel(mae: number) {
+  if (mae <= 0.15) return { label: '可信', className: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400' };
+  if (mae <= 0.4) return { label: '一般', className: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400' };
+  return { label: '不可信', className: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400' };
+}
+
+function formatPercent(value: number, digits: number = 2) {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(digits)}%`;
+}
+
+function daysAgo(days: number) {
+  const d = new Date();
+  d.setDate(d.getDate() - days);
+  return d.toISOString().slice(0, 10);
+}
+
+export default function ValuationBacktestPage() {
+  const [fundCodes, setFundCodes] = useState('110022,005827');
+  const [startDate, setStartDate] = useState(daysAgo(90));
+  const [endDate, setEndDate] = useState(daysAgo(0));
+  const [method, setMethod] = useState('scale');
+  const [loading, setLoading] = useState(false);
+  const [result, setResult] = useState<BacktestResponse | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const handleRun = async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ fundCodes, start: startDate, end: endDate, method });
+      const response = await fetch(`/api/valuation/backtest?${params}`);
+      const data = await response.json();
+      setResult(data);
+    } catch (error) {
+      console.error('回测失败:', error);
+      alert('回测失败，请检查控制台');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const inputClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 p-8">
+      <div className="max-w-6xl mx-auto">
+        <h1 className="text-3xl font-bold mb-6 text-gray-900 dark:text-white">
+          🎯 估值准确度回测
+        </h1>
+
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mb-6">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-4">
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                基金代码 (逗号分隔，最多 10 只)
+              </label>
+              <input
+                type="text"
+                value={fundCodes}
+                onChange={(e) => setFundCodes(e.target.value)}
+                className={inputClassName}
+                placeholder="例如: 110022,005827"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                开始日期
+              </label>
+              <input
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                结束日期
+              </label>
+              <input
+                type="date"
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                未覆盖仓位修正方法
+              </label>
+              <select
+                value={method}
+                onChange={(e) => setMethod(e.target.value)}
+                className={inputClassName}
+              >
+                {METHOD_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <button
+            onClick={handleRun}
+            disabled={loading}
+            className="px-6 py-2 bg-cyan-500 hover:bg-cyan-600 text-white font-medium rounded-md transition-colors disabled:bg-gray-400"
+          >
+            {loading ? '回测中...' : '开始回测'}
+          </button>
+        </div>
+
+        {result && (
+          <>
+            {result.error && (
+              <div className="bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-400 rounded-lg p-4 mb-6">
+                {result.error}
+              </div>
+            )}
+
+            {/* 误差汇总 */}
+            {result.results?.length > 0 && (
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mb-6 overflow-x-auto">
+                <h2 className="text-xl font-semibold mb-4 text-gray-800 dark:text-gray-200">
+                  📈 误差统计（单位: 百分点）
+                </h2>
+
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-600 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                      <th className="py-2">基金</th>
+                      <th className="py-2">天数</th>
+                      <th className="py-2">MAE</th>
+                      <th className="py-2">RMSE</th>
+                      <th className="py-2">偏差</th>
+                      <th className="py-2">跟踪误差</th>
+                      <th className="py-2">最大误差</th>
+                      <th className="py-2">方向正确率</th>
+                      <th className="py-2">±0.2 以内</th>
+                      <th className="py-2">评级</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.results.map(r => {
+                      const trust = getTrustLevel(r.stats.mae);
+                      return (
+                        <tr
+                          key={r.fundCode}
+                          onClick={() => setExpanded(expanded === r.fundCode ? null : r.fundCode)}
+                          className="border-b border-gray-100 dark:border-gray-700 cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700/50 text-gray-900 dark:text-gray-200"
+                        >
+                          <td className="py-2">
+                            <div>{r.fundName}</div>
+                            <div className="text-xs text-gray-500">{r.fundCode}</div>
+                          </td>
+                          <td className="py-2">{r.stats.days}</td>
+                          <td className="py-2">{r.stats.mae.toFixed(3)}</td>
+                          <td className="py-2">{r.stats.rmse.toFixed(3)}</td>
+                          <td className="py-2">{r.stats.bias.toFixed(3)}</td>
+                          <td className="py-2">{r.stats.trackingError.toFixed(3)}</td>
+                          <td className="py-2">{r.stats.maxAbsError.toFixed(2)}</td>
+                          <td className="py-2">{(r.stats.directionAccuracy * 100).toFixed(0)}%</td>
+                          <td className="py-2">{(r.stats.within02 * 100).toFixed(0)}%</td>
+                          <td className="py-2">
+                            <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${trust.className}`}>
+                              {trust.label}
+                            </span>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {/* 误差最大的交易日 */}
+            {result.results
+              ?.filter(r => r.fundCode === expanded)
+              .map(r => (
+                <div key={r.fundCode} className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mb-6">
+                  <h3 className="text-lg font-semibold mb-4 text-gray-800 dark:text-gray-200">
+                    {r.fundName} 误差最大的交易日
+                  </h3>
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-600 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                        <th className="py-2">日期</th>
+                        <th className="py-2">估算涨跌</th>
+                        <th className="py-2">实际涨跌</th>
+                        <th className="py-2">误差</th>
+                        <th className="py-2">持仓报告期</th>
+                        <th className="py-2">持仓覆盖率</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {r.worstDays.map(day => (
+                        <tr key={day.date} className="border-b border-gray-100 dark:border-gray-700 text-gray-900 dark:text-gray-200">
+                          <td className="py-2">{day.date}</td>
+                          <td className="py-2">{formatPercent(day.estimatedChangePercent)}</td>
+                          <td className="py-2">{formatPercent(day.actualChangePercent)}</td>
+                          <td className="py-2 font-medium">{day.error >= 0 ? '+' : ''}{day.error.toFixed(2)}</td>
+                          <td className="py-2">{day.holdingsReportDate}</td>
+                          <td className="py-2">{day.coverage.toFixed(2)}%</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ))}
+
+            {result.failed?.length > 0 && (
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 text-sm">
+                <h3 className="text-lg font-semibold mb-2 text-gray-800 dark:text-gray-200">回测失败</h3>
+                <ul className="space-y-1">
+                  {result.failed.map(f => (
+                    <li key={f.fundCode} className="text-red-600 dark:text-red-400">
+                      {f.fundCode}: {f.error}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
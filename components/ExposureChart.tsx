@@ -0,0 +1,79 @@
+/**
+ * 持仓穿透图表
+ *
+ * 行业分布条形图和 3×3 投资风格箱，基金详情弹窗和风险仪表板共用
+ */
+
+'use client';
+
+import type { SectorWeight, StyleBox } from '../lib/exposure/exposure';
+
+const SIZE_ROWS = ['大盘', '中盘', '小盘'];
+const STYLE_COLUMNS = ['价值', '平衡', '成长'];
+
+interface SectorBarsProps {
+  sectors: SectorWeight[];
+  limit?: number;        // 最多显示的行业数，其余合并为「其他」
+}
+
+export function SectorBars({ sectors, limit = 8 }: SectorBarsProps) {
+  const shown = sectors.slice(0, limit);
+  const rest = sectors.slice(limit).reduce((sum, s) => sum + s.weight, 0);
+  const rows = rest > 0 ? [...shown, { industry: '其他', weight: rest, stocks: [] }] : shown;
+  const max = Math.max(...rows.map(s => s.weight), 1);
+
+  return (
+    <div className="exposure-sectors">
+      {rows.map(sector => (
+        <div key={sector.industry} className="exposure-sector" title={sector.stocks.join('、')}>
+          <span className="exposure-sector-name">{sector.industry}</span>
+          <span className="exposure-sector-bar">
+            <span style={{ width: `${(sector.weight / max) * 100}%` }} />
+          </span>
+          <span className="exposure-sector-weight">{sector.weight.toFixed(2)}%</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface StyleBoxGridProps {
+  styleBox: StyleBox;
+}
+
+export function StyleBoxGrid({ styleBox }: StyleBoxGridProps) {
+  const total = styleBox.grid.flat().reduce((sum, w) => sum + w, 0) || 1;
+  const activeRow = ['large', 'mid', 'small'].indexOf(styleBox.size);
+  const activeColumn = ['value', 'blend', 'growth'].indexOf(styleBox.style);
+
+  return (
+    <div className="exposure-stylebox">
+      <table>
+        <thead>
+          <tr>
+            <th />
+            {STYLE_COLUMNS.map(label => <th key={label}>{label}</th>)}
+          </tr>
+        </thead>
+        <tbody>
+          {styleBox.grid.map((row, i) => (
+            <tr key={SIZE_ROWS[i]}>
+              <th>{SIZE_ROWS[i]}</th>
+              {row.map((weight, j) => (
+                <td
+                  key={STYLE_COLUMNS[j]}
+                  className={i === activeRow && j === activeColumn ? 'active' : ''}
+                  style={{ background: `rgba(14, 165, 233, ${(weight / total) * 0.8})` }}
+                  title={`${SIZE_ROWS[i]}${STYLE_COLUMNS[j]}: ${weight.toFixed(2)}%`}
+                >
+                  {weight > 0 ? `${((weight / total) * 100).toFixed(0)}%` : ''}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="exposure-stylebox-label">{styleBox.label}</div>
+    </div>
+  );
+}
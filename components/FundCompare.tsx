@@ -8,6 +8,7 @@
 
 import { useState } from 'react';
 import { createPortal } from 'react-dom';
+import { ShareClassCost } from './ShareClassCost';
 
 interface Fund {
   code: string;
@@ -131,6 +132,9 @@ export function FundCompare({
               </table>
             </div>
 
+            {/* A/C 份额持有成本 */}
+            <ShareClassCost funds={comparingFunds} />
+
             {/* 添加更多基金提示 */}
             {funds.length > comparingFunds.length && (
               <div className="compare-footer">
@@ -1,13 +1,17 @@
 /**
  * 基金详情弹窗组件
  *
- * 显示基金的详细信息，包括基本资料、历史走势、费率等
+ * 显示基金的详细信息，包括基本资料、历史走势、行业分布与风格箱、重仓股变动、费率等
  */
 
 'use client';
 
 import { createPortal } from 'react-dom';
 import { useState, useEffect } from 'react';
+import type { FundExposure } from '../lib/exposure/exposure';
+import type { HoldingsChangeHistory } from '../lib/valuation/holdings-changes';
+import { SectorBars, StyleBoxGrid } from './ExposureChart';
+import { HoldingsChanges } from './HoldingsChanges';
 
 interface FundDetailModalProps {
   fund: any;
@@ -19,12 +23,40 @@ interface FundDetailModalProps {
 
 export function FundDetailModal({ fund, onClose, onToggleFavorite, isFavorite = false, onRemove }: FundDetailModalProps) {
   const [animationClass, setAnimationClass] = useState('');
+  const [exposure, setExposure] = useState<FundExposure | null>(null);
+  const [holdingsChanges, setHoldingsChanges] = useState<HoldingsChangeHistory | null>(null);
 
   useEffect(() => {
     setAnimationClass('fade-in');
     return () => setAnimationClass('');
   }, []);
 
+  // 重仓股穿透：行业分布与风格箱
+  useEffect(() => {
+    let cancelled = false;
+    setExposure(null);
+    fetch(`/api/funds/${fund.code}/exposure`)
+      .then(res => res.json())
+      .then(json => {
+        if (!cancelled && json.success) setExposure(json.data);
+      })
+      .catch(() => {});
+    return () => { cancelled = true; };
+  }, [fund.code]);
+
+  // 重仓股季度变动
+  useEffect(() => {
+    let cancelled = false;
+    setHoldingsChanges(null);
+    fetch(`/api/funds/${fund.code}/holdings-changes`)
+      .then(res => res.json())
+      .then(json => {
+        if (!cancelled && json.success) setHoldingsChanges(json.data);
+      })
+      .catch(() => {});
+    return () => { cancelled = true; };
+  }, [fund.code]);
+
   const handleOverlayClick = (e: React.MouseEvent) => {
     if (e.target === e.currentTarget) {
       onClose();
@@ -173,6 +205,29 @@ export function FundDetailModal({ fund, onClose, onToggleFavorite, isFavorite =
           </div>
         )}
 
+        {/* 行业分布与风格箱 */}
+        {exposure && exposure.sectors.length > 0 && (
+          <div className="detail-section">
+            <h4>行业分布与投资风格</h4>
+            <div className="exposure-note">
+              {exposure.reportDate} 重仓股合计占净值 {exposure.disclosedRatio.toFixed(2)}%，
+              其中已分类 {exposure.classifiedRatio.toFixed(2)}%（申万一级行业）
+            </div>
+            <div className="exposure-layout">
+              <SectorBars sectors={exposure.sectors} />
+              {exposure.styleBox && <StyleBoxGrid styleBox={exposure.styleBox} />}
+            </div>
+          </div>
+        )}
+
+        {/* 重仓股季度变动 */}
+        {holdingsChanges && (
+          <div className="detail-section">
+            <h4>重仓股变动</h4>
+            <HoldingsChanges history={holdingsChanges} />
+          </div>
+        )}
+
         {/* 基金信息 */}
         <div className="detail-section">
           <h4>基金信息</h4>
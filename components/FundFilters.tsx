@@ -1,20 +1,26 @@
 /**
  * Fund Filters and Sort Component
+ *
+ * 自选模式筛选和排序已添加的基金；全市场模式切换为 FundScreener，在全部基金中按条件筛选
  */
 
 'use client';
 
 import { useState } from 'react';
+import { FundScreener } from './FundScreener';
 
 interface FundFiltersProps {
   funds: any[];
   children: (filteredFunds: any[]) => React.ReactNode;
+  onAdd?: (fundCode: string) => void;
 }
 
 type SortOption = 'default' | 'nameAsc' | 'nameDesc' | 'navDesc' | 'navAsc' | 'changeDesc' | 'changeAsc';
 type FilterType = 'all' | 'stock' | 'bond' | 'mixed' | 'index' | 'money';
+type FilterMode = 'watchlist' | 'market';
 
-export function FundFilters({ funds, children }: FundFiltersProps) {
+export function FundFilters({ funds, children, onAdd }: FundFiltersProps) {
+  const [mode, setMode] = useState<FilterMode>('watchlist');
   const [sortBy, setSortBy] = useState<SortOption>('default');
   const [filterType, setFilterType] = useState<FilterType>('all');
   const [showFilterMenu, setShowFilterMenu] = useState(false);
@@ -93,11 +99,40 @@ export function FundFilters({ funds, children }: FundFiltersProps) {
 
   const activeFilterCount = (filterType !== 'all' ? 1 : 0) + (sortBy !== 'default' ? 1 : 0);
 
+  const modeSwitch = (
+    <div className="filter-mode">
+      <button
+        className={`filter-button ${mode === 'watchlist' ? 'active' : ''}`}
+        onClick={() => setMode('watchlist')}
+      >
+        自选
+      </button>
+      <button
+        className={`filter-button ${mode === 'market' ? 'active' : ''}`}
+        onClick={() => setMode('market')}
+      >
+        全市场
+      </button>
+    </div>
+  );
+
+  if (mode === 'market') {
+    return (
+      <div className="fund-filters">
+        <div className="filters-toolbar">
+          <div className="filters-left">{modeSwitch}</div>
+        </div>
+        <FundScreener onAdd={onAdd} />
+      </div>
+    );
+  }
+
   return (
     <>
       <div className="fund-filters">
         <div className="filters-toolbar">
           <div className="filters-left">
+            {modeSwitch}
             <div className="filter-dropdown" style={{ position: 'relative' }}>
               <button
                 className={`filter-button ${filterType !== 'all' ? 'active' : ''}`}
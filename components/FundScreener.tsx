@@ -0,0 +1,345 @@
+/**
+ * 全市场基金筛选
+ *
+ * 组合类型、规模、费率、基金经理年限、区间表现和业绩比较基准条件，调用 /api/screener 在本地索引上筛选，
+ * 由 FundFilters 的"全市场"模式使用
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { PeriodWindow } from '../lib/services/fund-profile';
+import type { ScreenerFilters, ScreenerResult, SortField } from '../lib/screener/screener';
+
+const TYPE_OPTIONS = ['股票型', '混合型', '指数型', '债券型', 'QDII', 'FOF', '货币型'];
+
+const WINDOW_OPTIONS: { value: PeriodWindow; label: string }[] = [
+  { value: '6m', label: '近6月' },
+  { value: '1y', label: '近1年' },
+  { value: '3y', label: '近3年' },
+  { value: '5y', label: '近5年' },
+];
+
+const SORT_OPTIONS: { value: SortField; label: string; order: 'asc' | 'desc' }[] = [
+  { value: 'return', label: '收益降序', order: 'desc' },
+  { value: 'sharpeRatio', label: '夏普降序', order: 'desc' },
+  { value: 'maxDrawdown', label: '回撤升序', order: 'asc' },
+  { value: 'volatility', label: '波动升序', order: 'asc' },
+  { value: 'scale', label: '规模降序', order: 'desc' },
+  { value: 'managementFee', label: '费率升序', order: 'asc' },
+  { value: 'managerYears', label: '经理年限降序', order: 'desc' },
+  { value: 'code', label: '代码', order: 'asc' },
+];
+
+const PAGE_SIZE = 20;
+
+interface FormState {
+  types: string[];
+  keyword: string;
+  scaleMin: string;
+  scaleMax: string;
+  maxFee: string;
+  managerYearsMin: string;
+  window: PeriodWindow;
+  returnMin: string;
+  drawdownMax: string;
+  sharpeMin: string;
+  benchmark: string;
+}
+
+const EMPTY_FORM: FormState = {
+  types: [],
+  keyword: '',
+  scaleMin: '',
+  scaleMax: '',
+  maxFee: '',
+  managerYearsMin: '',
+  window: '1y',
+  returnMin: '',
+  drawdownMax: '',
+  sharpeMin: '',
+  benchmark: '',
+};
+
+interface FundScreenerProps {
+  onAdd?: (fundCode: string) => void;
+}
+
+function toNumber(value: string): number | undefined {
+  const n = parseFloat(value);
+  return isFinite(n) ? n : undefined;
+}
+
+function toRange(min: string, max: string) {
+  const range = { min: toNumber(min), max: toNumber(max) };
+  return range.min === undefined && range.max === undefined ? undefined : range;
+}
+
+/**
+ * 表单转为筛选条件，空字段不参与筛选
+ */
+function toFilters(form: FormState): ScreenerFilters {
+  const performance = {
+    window: form.window,
+    return: toRange(form.returnMin, ''),
+    maxDrawdown: toRange('', form.drawdownMax),
+    sharpeRatio: toRange(form.sharpeMin, ''),
+  };
+  const hasPerformance = performance.return || performance.maxDrawdown || performance.sharpeRatio;
+
+  return {
+    types: form.types.length > 0 ? form.types : undefined,
+    keyword: form.keyword.trim() || undefined,
+    scale: toRange(form.scaleMin, form.scaleMax),
+    maxManagementFee: toNumber(form.maxFee),
+    managerYears: toRange(form.managerYearsMin, ''),
+    performance: hasPerformance ? [performance] : undefined,
+    benchmark: form.benchmark.trim() || undefined,
+  };
+}
+
+function formatPercent(value: number | null | undefined, signed: boolean = false): string {
+  if (value === null || value === undefined) return '--';
+  return `${signed && value > 0 ? '+' : ''}${value.toFixed(2)}%`;
+}
+
+export function FundScreener({ onAdd }: FundScreenerProps) {
+  const [form, setForm] = useState<FormState>(EMPTY_FORM);
+  const [sortField, setSortField] = useState<SortField>('return');
+  const [page, setPage] = useState(1);
+  const [result, setResult] = useState<ScreenerResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [indexing, setIndexing] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+
+  const update = (patch: Partial<FormState>) => setForm(prev => ({ ...prev, ...patch }));
+
+  const toggleType = (type: string) => {
+    update({ types: form.types.includes(type) ? form.types.filter(t => t !== type) : [...form.types, type] });
+  };
+
+  const runScreen = async (targetPage: number = 1) => {
+    const sort = SORT_OPTIONS.find(o => o.value === sortField)!;
+    setLoading(true);
+    setError('');
+    try {
+      const res = await fetch('/api/screener', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          filters: toFilters(form),
+          sort: { field: sort.value, window: form.window, order: sort.order },
+          page: targetPage,
+          pageSize: PAGE_SIZE,
+        }),
+      });
+      const json = await res.json();
+      if (!json.success) throw new Error(json.error || '筛选失败');
+      setResult(json.data);
+      setPage(targetPage);
+    } catch (e: any) {
+      setError(e.message || '筛选失败');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // 按当前类型条件为尚未索引的基金建立索引，完成后重新筛选
+  const expandIndex = async () => {
+    setIndexing(true);
+    setError('');
+    setNotice('');
+    try {
+      const res = await fetch('/api/screener', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ types: form.types.length > 0 ? form.types : undefined, limit: PAGE_SIZE }),
+      });
+      const json = await res.json();
+      if (!json.success) throw new Error(json.error || '扩充索引失败');
+      const { indexed, failed, remaining } = json.data;
+      setNotice(`新索引 ${indexed.length} 只${failed.length > 0 ? `，失败 ${failed.length} 只` : ''}，剩余 ${remaining} 只未索引`);
+      await runScreen(page);
+    } catch (e: any) {
+      setError(e.message || '扩充索引失败');
+    } finally {
+      setIndexing(false);
+    }
+  };
+
+  // 切换到全市场模式时先展示默认排序的结果
+  useEffect(() => {
+    runScreen(1);
+  }, []);
+
+  const totalPages = result ? Math.max(1, Math.ceil(result.total / result.pageSize)) : 1;
+  const windowLabel = WINDOW_OPTIONS.find(o => o.value === form.window)?.label;
+
+  return (
+    <div className="screener">
+      <div className="screener-types">
+        {TYPE_OPTIONS.map(type => (
+          <button
+            key={type}
+            className={`filter-button ${form.types.includes(type) ? 'active' : ''}`}
+            onClick={() => toggleType(type)}
+          >
+            {type}
+          </button>
+        ))}
+      </div>
+
+      <div className="screener-form">
+        <label>
+          <span>关键词</span>
+          <input className="input" value={form.keyword} placeholder="代码/名称/拼音" onChange={e => update({ keyword: e.target.value })} />
+        </label>
+        <label>
+          <span>规模（亿元）</span>
+          <div className="screener-range">
+            <input className="input" type="number" value={form.scaleMin} placeholder="最小" onChange={e => update({ scaleMin: e.target.value })} />
+            <input className="input" type="number" value={form.scaleMax} placeholder="最大" onChange={e => update({ scaleMax: e.target.value })} />
+          </div>
+        </label>
+        <label>
+          <span>管理费上限 (%)</span>
+          <input className="input" type="number" step="0.1" value={form.maxFee} onChange={e => update({ maxFee: e.target.value })} />
+        </label>
+        <label>
+          <span>经理从业年限 ≥</span>
+          <input className="input" type="number" value={form.managerYearsMin} onChange={e => update({ managerYearsMin: e.target.value })} />
+        </label>
+        <label>
+          <span>区间</span>
+          <select className="sort-select" value={form.window} onChange={e => update({ window: e.target.value as PeriodWindow })}>
+            {WINDOW_OPTIONS.map(o => (
+              <option key={o.value} value={o.value}>{o.label}</option>
+            ))}
+          </select>
+        </label>
+        <label>
+          <span>收益 ≥ (%)</span>
+          <input className="input" type="number" value={form.returnMin} onChange={e => update({ returnMin: e.target.value })} />
+        </label>
+        <label>
+          <span>最大回撤 ≤ (%)</span>
+          <input className="input" type="number" value={form.drawdownMax} onChange={e => update({ drawdownMax: e.target.value })} />
+        </label>
+        <label>
+          <span>夏普比率 ≥</span>
+          <input className="input" type="number" step="0.1" value={form.sharpeMin} onChange={e => update({ sharpeMin: e.target.value })} />
+        </label>
+        <label>
+          <span>业绩基准</span>
+          <input className="input" value={form.benchmark} placeholder="如 沪深300" onChange={e => update({ benchmark: e.target.value })} />
+        </label>
+      </div>
+
+      <div className="filters-toolbar">
+        <div className="filters-left">
+          <button className="button" onClick={() => runScreen(1)} disabled={loading}>
+            {loading ? '筛选中...' : '筛选'}
+          </button>
+          <button className="filter-button" onClick={() => { setForm(EMPTY_FORM); setNotice(''); }}>
+            重置
+          </button>
+          <button className="filter-button" onClick={expandIndex} disabled={indexing}>
+            {indexing ? '索引中...' : '扩充索引'}
+          </button>
+        </div>
+        <div className="filters-right">
+          <select className="sort-select" value={sortField} onChange={e => setSortField(e.target.value as SortField)}>
+            {SORT_OPTIONS.map(o => (
+              <option key={o.value} value={o.value}>{o.label}</option>
+            ))}
+          </select>
+          {result && (
+            <span className="result-count">
+              Total: <strong>{result.total}</strong>
+            </span>
+          )}
+        </div>
+      </div>
+
+      {result && (
+        <div className="screener-note">
+          全市场 {result.universeSize} 只，已索引 {result.indexedSize} 只
+          {result.usesIndex && '；规模、费率、经理和业绩条件只在已索引的基金中筛选，可点击"扩充索引"补充'}
+        </div>
+      )}
+      {notice && <div className="screener-note">{notice}</div>}
+      {error && <div className="screener-error">{error}</div>}
+
+      {result && result.items.length === 0 && !loading && (
+        <div className="screener-note">没有符合条件的基金</div>
+      )}
+
+      {result && result.items.length > 0 && (
+        <div className="screener-table-wrap">
+          <table className="screener-table">
+            <thead>
+              <tr>
+                <th>基金</th>
+                <th>类型</th>
+                <th>规模</th>
+                <th>管理费</th>
+                <th>基金经理</th>
+                <th>{windowLabel}收益</th>
+                <th>最大回撤</th>
+                <th>夏普</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.items.map(item => {
+                const stats = item.periods?.[form.window];
+                return (
+                  <tr key={item.code}>
+                    <td>
+                      <div className="screener-name">{item.name}</div>
+                      <div className="muted">#{item.code}</div>
+                    </td>
+                    <td>{item.type}</td>
+                    <td>{item.scale === null ? '--' : `${item.scale.toFixed(1)}亿`}</td>
+                    <td>{formatPercent(item.managementFee)}</td>
+                    <td>
+                      {item.managerName || '--'}
+                      {item.managerYears !== null && <span className="muted"> {item.managerYears.toFixed(1)}年</span>}
+                    </td>
+                    <td className={stats ? (stats.return >= 0 ? 'up' : 'down') : ''}>
+                      {formatPercent(stats?.return, true)}
+                    </td>
+                    <td>{formatPercent(stats?.maxDrawdown)}</td>
+                    <td>{stats ? stats.sharpeRatio.toFixed(2) : '--'}</td>
+                    <td>
+                      {onAdd && (
+                        <button className="filter-button" onClick={() => onAdd(item.code)}>
+                          添加
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {result && totalPages > 1 && (
+        <div className="screener-pager">
+          <button className="filter-button" disabled={page <= 1 || loading} onClick={() => runScreen(page - 1)}>
+            上一页
+          </button>
+          <span className="result-count">{page} / {totalPages}</span>
+          <button className="filter-button" disabled={page >= totalPages || loading} onClick={() => runScreen(page + 1)}>
+            下一页
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default FundScreener;
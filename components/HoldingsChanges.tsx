@@ -0,0 +1,84 @@
+/**
+ * 重仓股季度变动
+ *
+ * 按报告期展示新进、退出、增持、减持的重仓股和估算换手率，基金详情弹窗使用
+ */
+
+'use client';
+
+import { useState } from 'react';
+import type { HoldingChangeType, HoldingsChangeHistory } from '../lib/valuation/holdings-changes';
+
+const TYPE_LABELS: Record<HoldingChangeType, string> = {
+  new: '新进',
+  exited: '退出',
+  increased: '增持',
+  reduced: '减持',
+  unchanged: '持平',
+};
+
+// 最多可切换的报告期数
+const MAX_PERIODS = 4;
+
+interface HoldingsChangesProps {
+  history: HoldingsChangeHistory;
+}
+
+export function HoldingsChanges({ history }: HoldingsChangesProps) {
+  const [index, setIndex] = useState(0);
+  const diffs = history.diffs.slice(0, MAX_PERIODS);
+  const diff = diffs[index];
+
+  if (!diff) {
+    return <div className="changes-empty">只有一期持仓数据，下个报告期披露后可查看变动</div>;
+  }
+
+  const changes = diff.changes.filter(c => c.type !== 'unchanged');
+
+  return (
+    <div className="holdings-changes">
+      <div className="changes-header">
+        <div className="period-tabs">
+          {diffs.map((d, i) => (
+            <button
+              key={d.toDate}
+              className={`period-tab ${i === index ? 'active' : ''}`}
+              onClick={() => setIndex(i)}
+            >
+              {d.toQuarter}
+            </button>
+          ))}
+        </div>
+        {history.turnoverRate !== null && (
+          <span className="changes-turnover">估算年化换手率 {history.turnoverRate.toFixed(0)}%</span>
+        )}
+      </div>
+
+      <div className="changes-summary">
+        相对 {diff.fromQuarter}：新进 {diff.counts.new} 只、退出 {diff.counts.exited} 只、
+        增持 {diff.counts.increased} 只、减持 {diff.counts.reduced} 只，本期换手约 {diff.turnover.toFixed(1)}%
+      </div>
+
+      {changes.length === 0 ? (
+        <div className="changes-empty">重仓股与上期基本一致</div>
+      ) : (
+        <div className="changes-list">
+          {changes.map(c => (
+            <div key={c.stockCode} className="changes-row">
+              <span className={`changes-tag ${c.type}`}>{TYPE_LABELS[c.type]}</span>
+              <span className="changes-name">{c.stockName}</span>
+              <span className="changes-ratio">
+                {c.previousRatio.toFixed(2)}% → {c.currentRatio.toFixed(2)}%
+              </span>
+              <span className={`changes-delta ${c.change > 0 ? 'up' : 'down'}`}>
+                {c.change > 0 ? '+' : ''}{c.change.toFixed(2)}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default HoldingsChanges;
@@ -0,0 +1,180 @@
+/**
+ * Holdings Overlap Panel
+ *
+ * 持仓重叠面板：穿透各基金重仓股，展示基金两两重叠度、个股在组合中的实际占比和集中度预警
+ */
+
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import type { Position } from '../lib/portfolio/ledger';
+import type { OverlapReport } from '../lib/exposure/overlap';
+
+interface HoldingsOverlapProps {
+  funds: any[];
+  positions?: Position[];     // 有台账持仓时按持有市值加权，否则等权
+}
+
+// 最多展示的基金对和个股数
+const MAX_PAIRS = 5;
+const MAX_STOCKS = 10;
+
+// 单次最多分析的基金数，与 /api/portfolio/overlap 的上限一致
+const MAX_FUNDS = 30;
+
+export function HoldingsOverlap({ funds, positions = [] }: HoldingsOverlapProps) {
+  const [report, setReport] = useState<OverlapReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // 组合权重：份额 × 估算净值，未录入持仓时等权；超过上限时按持有市值取前 MAX_FUNDS 只，等权时取自选前 MAX_FUNDS 只
+  const { holdings, weighted, omitted } = useMemo(() => {
+    const sharesByCode = new Map(positions.map(p => [p.fundCode, p.shares]));
+    const held = funds.filter(f => (sharesByCode.get(f.code) || 0) > 0);
+
+    if (held.length >= 2) {
+      const all = held
+        .map(f => ({
+          code: f.code,
+          weight: sharesByCode.get(f.code)! * parseFloat(f.gsz || f.dwjz || 1),
+        }))
+        .sort((a, b) => b.weight - a.weight);
+      return { holdings: all.slice(0, MAX_FUNDS), weighted: true, omitted: Math.max(0, all.length - MAX_FUNDS) };
+    }
+    return {
+      holdings: funds.slice(0, MAX_FUNDS).map(f => ({ code: f.code, weight: 1 })),
+      weighted: false,
+      omitted: Math.max(0, funds.length - MAX_FUNDS),
+    };
+  }, [funds, positions]);
+
+  const requestKey = useMemo(
+    () => JSON.stringify(holdings.map(h => [h.code, Math.round(h.weight)])),
+    [holdings]
+  );
+
+  useEffect(() => {
+    if (holdings.length < 2) {
+      setReport(null);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    fetch('/api/portfolio/overlap', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ holdings }),
+    })
+      .then(res => res.json())
+      .then(json => {
+        if (cancelled) return;
+        if (json.success) setReport(json.data);
+        else setError(json.error || '持仓重叠分析失败');
+      })
+      .catch(() => {
+        if (!cancelled) setError('持仓重叠分析失败，请检查网络');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [requestKey]);
+
+  const names = useMemo(() => new Map(funds.map(f => [f.code, f.name || f.code])), [funds]);
+
+  if (funds.length < 2) {
+    return <div className="overlap-empty">至少添加两只基金后可分析持仓重叠</div>;
+  }
+
+  if (loading && !report) {
+    return <div className="overlap-empty">正在穿透重仓股…</div>;
+  }
+
+  if (error) {
+    return <div className="overlap-empty">{error}</div>;
+  }
+
+  if (!report) return null;
+
+  const pairs = report.pairs.filter(p => p.overlap > 0).slice(0, MAX_PAIRS);
+  const stocks = report.stocks.slice(0, MAX_STOCKS);
+
+  return (
+    <div className="overlap-panel">
+      {report.warnings.length > 0 && (
+        <ul className="overlap-warnings">
+          {report.warnings.map(w => <li key={w.stockCode}>⚠️ {w.message}</li>)}
+        </ul>
+      )}
+
+      <div className="overlap-grid">
+        <div>
+          <h4>基金两两重叠</h4>
+          {pairs.length === 0 ? (
+            <div className="overlap-empty">各基金重仓股没有重叠</div>
+          ) : (
+            <table className="overlap-table">
+              <thead>
+                <tr>
+                  <th>基金</th>
+                  <th>重叠度</th>
+                  <th>共同持有</th>
+                </tr>
+              </thead>
+              <tbody>
+                {pairs.map(p => (
+                  <tr key={`${p.fundA}-${p.fundB}`}>
+                    <td>
+                      <div>{names.get(p.fundA)}</div>
+                      <div className="muted">{names.get(p.fundB)}</div>
+                    </td>
+                    <td className={p.overlap >= 30 ? 'high' : ''}>{p.overlap.toFixed(1)}%</td>
+                    <td className="overlap-stocks">{p.commonStocks.map(s => s.stockName).join('、')}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div>
+          <h4>个股穿透占比</h4>
+          <table className="overlap-table">
+            <thead>
+              <tr>
+                <th>股票</th>
+                <th>占组合</th>
+                <th>持有基金</th>
+              </tr>
+            </thead>
+            <tbody>
+              {stocks.map(s => (
+                <tr key={s.stockCode}>
+                  <td>{s.stockName}</td>
+                  <td className={s.effectiveWeight >= report.threshold ? 'high' : ''}>{s.effectiveWeight.toFixed(2)}%</td>
+                  <td title={s.funds.map(f => `${names.get(f.fundCode)} ${f.ratio.toFixed(2)}%`).join('\n')}>
+                    {s.funds.length} 只
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="overlap-note">
+        基于各基金最新一期前十大重仓股，{weighted ? '按持有市值加权' : '按等权重计算'}
+        {omitted > 0 && `；基金较多，只分析${weighted ? '持有市值最大' : '自选列表中靠前'}的 ${MAX_FUNDS} 只`}
+        {report.missing.length > 0 && `；${report.missing.map(code => names.get(code)).join('、')} 无股票持仓数据`}
+      </div>
+    </div>
+  );
+}
+
+export default HoldingsOverlap;
@@ -6,31 +6,109 @@
 
 'use client';
 
-import { useMemo } from 'react';
+import { useEffect, useMemo, useState } from 'react';
+import { effectiveDate, LedgerTransaction, Position } from '../lib/portfolio/ledger';
+import {
+  computePerformance,
+  NavPoint,
+  PERFORMANCE_PERIODS,
+  PERIOD_LABELS,
+  PerformanceEntry,
+  PerformancePeriod,
+  PerformanceReport,
+} from '../lib/performance/returns';
 
 interface PortfolioStatsProps {
   funds: any[];
+  positions?: Position[];                 // 由持仓台账推导的持仓，未录入时总资产和当日收益不可计算
+  transactions?: LedgerTransaction[];     // 台账流水，用于计算区间收益
 }
 
-export function PortfolioStats({ funds }: PortfolioStatsProps) {
+const formatPercent = (value: number | null | undefined) =>
+  value === null || value === undefined ? '--' : `${value >= 0 ? '+' : ''}${(value * 100).toFixed(2)}%`;
+
+const signClass = (value: number | null | undefined) =>
+  value === null || value === undefined ? '' : value >= 0 ? 'positive' : 'negative';
+
+export function PortfolioStats({ funds, positions = [], transactions = [] }: PortfolioStatsProps) {
+  const [navSeries, setNavSeries] = useState<Record<string, NavPoint[]>>({});
+  const [period, setPeriod] = useState<PerformancePeriod>('all');
+
+  // 拉取流水涉及基金的历史净值（从第一笔流水前几天开始，用于期初估值）
+  const navKey = useMemo(() => {
+    if (transactions.length === 0) return '';
+    const codes = Array.from(new Set(transactions.map(t => t.fundCode))).sort();
+    const first = transactions.map(effectiveDate).sort()[0];
+    return `${first}|${codes.join(',')}`;
+  }, [transactions]);
+
+  useEffect(() => {
+    if (!navKey) {
+      setNavSeries({});
+      return;
+    }
+
+    const [first, codeList] = navKey.split('|');
+    const from = new Date(Date.parse(`${first}T00:00:00Z`) - 10 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    let cancelled = false;
+
+    Promise.all(codeList.split(',').map(async code => {
+      try {
+        const res = await fetch(`/api/funds/${code}/nav-history?from=${from}`);
+        const json = await res.json();
+        return [code, json.success ? json.data.map((r: NavPoint) => ({ date: r.date, nav: r.nav })) : []] as const;
+      } catch {
+        return [code, []] as const;
+      }
+    })).then(entries => {
+      if (!cancelled) setNavSeries(Object.fromEntries(entries));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [navKey]);
+
+  // 区间收益：组合、按基金类型分组、单只基金
+  const performance = useMemo<PerformanceReport | null>(() => {
+    if (transactions.length === 0 || Object.keys(navSeries).length === 0) return null;
+
+    const groups: Record<string, string[]> = {};
+    funds.forEach(f => {
+      const type = f.type || '其他';
+      (groups[type] = groups[type] || []).push(f.code);
+    });
+
+    try {
+      return computePerformance(transactions, navSeries, groups);
+    } catch {
+      return null;
+    }
+  }, [transactions, navSeries, funds]);
+
   // 计算统计数据
   const stats = useMemo(() => {
     if (funds.length === 0) return null;
 
-    // 总资产（假设每只基金等权重，实际应从持仓数据计算）
-    const totalValue = funds.reduce((sum, f) => {
+    // 持有份额（按台账流水推导）
+    const sharesByCode = new Map(positions.map(p => [p.fundCode, p.shares]));
+    const held = funds.filter(f => (sharesByCode.get(f.code) || 0) > 0);
+    const hasPositions = held.length > 0;
+
+    // 总资产：份额 × 估算净值（无估值时用最新净值）
+    const totalValue = held.reduce((sum, f) => {
       const nav = parseFloat(f.gsz || f.dwjz || 0);
-      return sum + nav;
+      return sum + sharesByCode.get(f.code)! * nav;
     }, 0);
 
     // 平均涨跌幅
     const avgChange = funds.reduce((sum, f) => sum + (Number(f.gszzl) || 0), 0) / funds.length;
 
-    // 计算当日总收益（假设每只1000份）
-    const dailyProfit = funds.reduce((sum, f) => {
-      const nav = parseFloat(f.gsz || f.dwjz || 0);
+    // 当日收益：份额 × 昨日净值 × 估算涨跌幅
+    const dailyProfit = held.reduce((sum, f) => {
+      const nav = parseFloat(f.dwjz || f.gsz || 0);
       const change = Number(f.gszzl) || 0;
-      return sum + (nav * change / 100 * 1000);
+      return sum + sharesByCode.get(f.code)! * nav * change / 100;
     }, 0);
 
     // 上涨/下跌/平盘基金数
@@ -51,8 +129,17 @@ export function PortfolioStats({ funds }: PortfolioStatsProps) {
       typeStats[type].avgChange /= typeStats[type].count;
     });
 
-    // 生成模拟历史收益数据（实际应从API获取）
-    const historyData = Array.from({ length: 30 }, (_, i) => {
+    // 累计收益走势（市值 - 累计净投入），无台账净值数据时用当日收益模拟
+    let netInvested = 0;
+    const realHistory = (performance?.daily || []).map(d => {
+      netInvested += d.inflow - d.outflow;
+      return {
+        date: new Date(`${d.date}T00:00:00`).toLocaleDateString('zh-CN', { month: 'short', day: 'numeric' }),
+        profit: d.value - netInvested,
+      };
+    }).slice(-30);
+
+    const historyData = realHistory.length >= 2 ? realHistory : Array.from({ length: 30 }, (_, i) => {
       const baseProfit = dailyProfit * (1 + Math.sin(i / 5) * 0.3);
       return {
         date: new Date(Date.now() - (29 - i) * 24 * 60 * 60 * 1000).toLocaleDateString('zh-CN', { month: 'short', day: 'numeric' }),
@@ -61,6 +148,7 @@ export function PortfolioStats({ funds }: PortfolioStatsProps) {
     });
 
     return {
+      hasPositions,
       totalValue: totalValue.toFixed(2),
       avgChange: avgChange.toFixed(2),
       dailyProfit: dailyProfit.toFixed(2),
@@ -69,8 +157,9 @@ export function PortfolioStats({ funds }: PortfolioStatsProps) {
       flatCount,
       typeStats,
       historyData,
+      historyIsReal: realHistory.length >= 2,
     };
-  }, [funds]);
+  }, [funds, positions, performance]);
 
   if (!stats) {
     return (
@@ -182,30 +271,65 @@ export function PortfolioStats({ funds }: PortfolioStatsProps) {
     );
   };
 
+  const holdingReturn = performance?.portfolio.periods.all;
+
+  // 收益表现表格：组合、分组、单只基金
+  const renderPerformanceRow = (entry: PerformanceEntry, kind: 'portfolio' | 'group' | 'fund') => {
+    const result = entry.periods[period];
+    return (
+      <tr key={`${kind}-${entry.name}`} className={`performance-row ${kind}`}>
+        <td>{entry.name}</td>
+        {result ? (
+          <>
+            <td className={signClass(result.profit)}>{result.profit >= 0 ? '+' : ''}{result.profit.toFixed(2)}</td>
+            <td className={signClass(result.twr)}>{formatPercent(result.twr)}</td>
+            <td className={signClass(result.xirr)}>{formatPercent(result.xirr)}</td>
+          </>
+        ) : (
+          <td colSpan={3} className="performance-empty">区间内未持有</td>
+        )}
+      </tr>
+    );
+  };
+
   return (
     <div className="portfolio-stats">
       {/* 统计卡片 */}
       <div className="stats-grid">
         <div className="stat-card">
           <div className="stat-label">总资产</div>
-          <div className="stat-value">{stats.totalValue}</div>
-          <div className="stat-unit">单位</div>
+          <div className="stat-value">{stats.hasPositions ? stats.totalValue : '--'}</div>
+          <div className="stat-unit">{stats.hasPositions ? '元（估算）' : '未录入持仓'}</div>
         </div>
 
-        <div className="stat-card">
-          <div className="stat-label">平均涨跌</div>
-          <div className={`stat-value ${parseFloat(stats.avgChange) >= 0 ? 'positive' : 'negative'}`}>
-            {parseFloat(stats.avgChange) >= 0 ? '+' : ''}{stats.avgChange}%
+        {holdingReturn ? (
+          <div className="stat-card">
+            <div className="stat-label">持有收益</div>
+            <div className={`stat-value ${signClass(holdingReturn.profit)}`}>
+              {holdingReturn.profit >= 0 ? '+' : ''}{holdingReturn.profit.toFixed(2)}
+            </div>
+            <div className="stat-unit">时间加权 {formatPercent(holdingReturn.twr)}</div>
           </div>
-          <div className="stat-unit">全部基金</div>
-        </div>
+        ) : (
+          <div className="stat-card">
+            <div className="stat-label">平均涨跌</div>
+            <div className={`stat-value ${parseFloat(stats.avgChange) >= 0 ? 'positive' : 'negative'}`}>
+              {parseFloat(stats.avgChange) >= 0 ? '+' : ''}{stats.avgChange}%
+            </div>
+            <div className="stat-unit">全部基金</div>
+          </div>
+        )}
 
         <div className="stat-card">
           <div className="stat-label">当日收益</div>
-          <div className={`stat-value ${parseFloat(stats.dailyProfit) >= 0 ? 'positive' : 'negative'}`}>
-            {parseFloat(stats.dailyProfit) >= 0 ? '+' : ''}{stats.dailyProfit}
-          </div>
-          <div className="stat-unit">估算</div>
+          {stats.hasPositions ? (
+            <div className={`stat-value ${parseFloat(stats.dailyProfit) >= 0 ? 'positive' : 'negative'}`}>
+              {parseFloat(stats.dailyProfit) >= 0 ? '+' : ''}{stats.dailyProfit}
+            </div>
+          ) : (
+            <div className="stat-value">--</div>
+          )}
+          <div className="stat-unit">{stats.hasPositions ? '元（估算）' : '未录入持仓'}</div>
         </div>
 
         <div className="stat-card">
@@ -222,7 +346,7 @@ export function PortfolioStats({ funds }: PortfolioStatsProps) {
       <div className="charts-grid">
         {/* 收益趋势图 */}
         <div className="chart-card">
-          <h4>收益趋势（近30日）</h4>
+          <h4>{stats.historyIsReal ? '累计收益走势（近30个交易日）' : '收益趋势（近30日）'}</h4>
           <div className="chart-container">
             {renderLineChart(stats.historyData)}
           </div>
@@ -272,6 +396,44 @@ export function PortfolioStats({ funds }: PortfolioStatsProps) {
           })}
         </div>
       </div>
+
+      {/* 区间收益 */}
+      {performance && (
+        <div className="performance-stats">
+          <div className="performance-header">
+            <h4>收益表现</h4>
+            <div className="period-tabs">
+              {PERFORMANCE_PERIODS.map(p => (
+                <button
+                  key={p}
+                  className={`period-tab ${period === p ? 'active' : ''}`}
+                  onClick={() => setPeriod(p)}
+                >
+                  {PERIOD_LABELS[p]}
+                </button>
+              ))}
+            </div>
+          </div>
+          <table className="performance-table">
+            <thead>
+              <tr>
+                <th>名称</th>
+                <th>区间收益（元）</th>
+                <th>时间加权收益率</th>
+                <th>资金加权收益率（年化）</th>
+              </tr>
+            </thead>
+            <tbody>
+              {renderPerformanceRow(performance.portfolio, 'portfolio')}
+              {performance.groups.map(g => renderPerformanceRow(g, 'group'))}
+              {performance.funds.map(f => renderPerformanceRow(f, 'fund'))}
+            </tbody>
+          </table>
+          <div className="performance-note">
+            截至 {performance.asOf}，按单位净值计算；时间加权剔除申购赎回影响，资金加权反映实际投入的年化收益
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,452 @@
+/**
+ * Position Ledger Component
+ *
+ * 持仓记账：录入申购、赎回、分红、红利再投资、份额折算流水，展示由流水推导的持仓
+ * 流水保存在浏览器 localStorage，开启云端保存后同步到 /api/ledger
+ * 分红与拆分可按各基金的分红方式从 /api/ledger/events 自动补录
+ */
+
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import {
+  buildPositions,
+  createTransaction,
+  LedgerTransaction,
+  LedgerValidationError,
+  sortTransactions,
+  summarizePositions,
+  TRANSACTION_TYPE_LABELS,
+  TransactionType,
+  valuePosition,
+} from '../lib/portfolio/ledger';
+import { DIVIDEND_METHOD_LABELS, DividendMethod } from '../lib/events/fund-events';
+
+interface PositionLedgerProps {
+  funds: any[];
+  transactions: LedgerTransaction[];
+  onChange: (transactions: LedgerTransaction[]) => void;
+}
+
+interface FormState {
+  fundCode: string;
+  type: TransactionType;
+  date: string;
+  confirmDate: string;
+  shares: string;
+  amount: string;
+  fee: string;
+  ratio: string;
+}
+
+const LEDGER_ID_KEY = 'ledgerId';
+const DIVIDEND_METHODS_KEY = 'dividendMethods';
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function emptyForm(fundCode: string = ''): FormState {
+  return { fundCode, type: 'buy', date: today(), confirmDate: '', shares: '', amount: '', fee: '', ratio: '' };
+}
+
+function formatMoney(value: number): string {
+  return value.toLocaleString('zh-CN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function pnlClass(value: number): string {
+  return value > 0 ? 'positive' : value < 0 ? 'negative' : '';
+}
+
+/**
+ * 生成台账 ID
+ */
+function generateLedgerId(): string {
+  const bytes = new Uint8Array(12);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export function PositionLedger({ funds, transactions, onChange }: PositionLedgerProps) {
+  const [form, setForm] = useState<FormState>(() => emptyForm(funds[0]?.code));
+  const [error, setError] = useState<string | null>(null);
+  const [ledgerId, setLedgerId] = useState<string>('');
+  const [restoreId, setRestoreId] = useState('');
+  const [syncStatus, setSyncStatus] = useState<string | null>(null);
+  const [dividendMethods, setDividendMethods] = useState<Record<string, DividendMethod>>({});
+  const [eventStatus, setEventStatus] = useState<string | null>(null);
+
+  useEffect(() => {
+    setLedgerId(localStorage.getItem(LEDGER_ID_KEY) || '');
+    try {
+      setDividendMethods(JSON.parse(localStorage.getItem(DIVIDEND_METHODS_KEY) || '{}'));
+    } catch {}
+  }, []);
+
+  // 候选基金变化时，保证表单选中的基金仍在列表中
+  useEffect(() => {
+    if (funds[0] && !funds.some(f => f.code === form.fundCode)) {
+      setForm(prev => ({ ...prev, fundCode: funds[0].code }));
+    }
+  }, [funds, form.fundCode]);
+
+  const fundName = (code: string) => funds.find(f => f.code === code)?.name;
+
+  const positions = useMemo(() => {
+    try {
+      // 包含已清仓的基金，保留其已实现收益
+      return buildPositions(transactions, { includeClosed: true }).map(p => {
+        const fund = funds.find(f => f.code === p.fundCode);
+        const nav = parseFloat(fund?.dwjz || '');
+        // 未加入自选、取不到净值的基金按成本价估值
+        return valuePosition(p, isFinite(nav) && nav > 0 ? nav : p.averageCost);
+      });
+    } catch (e) {
+      console.error('持仓计算失败:', e);
+      return [];
+    }
+  }, [transactions, funds]);
+
+  const summary = useMemo(() => summarizePositions(positions), [positions]);
+  const openPositions = positions.filter(p => p.shares > 0);
+
+  /**
+   * 推送到服务端
+   */
+  const pushToServer = async (id: string, next: LedgerTransaction[]) => {
+    setSyncStatus('同步中…');
+    try {
+      const res = await fetch('/api/ledger', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id, transactions: next }),
+      });
+      const json = await res.json();
+      setSyncStatus(json.success ? `已同步 ${new Date().toLocaleTimeString('zh-CN')}` : `同步失败: ${json.error}`);
+    } catch (e) {
+      setSyncStatus('同步失败，请检查网络');
+    }
+  };
+
+  const commit = (next: LedgerTransaction[]) => {
+    // 重放全部流水，赎回超过持有份额时拒绝保存
+    try {
+      buildPositions(next, { includeClosed: true });
+    } catch (e) {
+      setError(e instanceof Error ? e.message : '流水校验失败');
+      return false;
+    }
+    onChange(next);
+    if (ledgerId) pushToServer(ledgerId, next);
+    return true;
+  };
+
+  const addTransaction = () => {
+    setError(null);
+    const num = (value: string) => (value.trim() === '' ? undefined : Number(value));
+
+    try {
+      const tx = createTransaction({
+        fundCode: form.fundCode,
+        fundName: fundName(form.fundCode),
+        type: form.type,
+        date: form.date,
+        confirmDate: form.confirmDate || undefined,
+        shares: num(form.shares),
+        amount: num(form.amount),
+        fee: num(form.fee),
+        ratio: num(form.ratio),
+      });
+      if (commit([...transactions, tx])) {
+        setForm(emptyForm(form.fundCode));
+      }
+    } catch (e) {
+      setError(e instanceof LedgerValidationError ? e.message : '录入失败');
+    }
+  };
+
+  const removeTransaction = (id: string) => {
+    setError(null);
+    commit(transactions.filter(t => t.id !== id));
+  };
+
+  const changeDividendMethod = (fundCode: string, method: DividendMethod) => {
+    const next = { ...dividendMethods, [fundCode]: method };
+    setDividendMethods(next);
+    localStorage.setItem(DIVIDEND_METHODS_KEY, JSON.stringify(next));
+    if (ledgerId) {
+      fetch('/api/ledger/events', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: ledgerId, fundCode, method }),
+      }).catch(() => {});
+    }
+  };
+
+  /**
+   * 按分红方式补录持有期间的分红与拆分
+   */
+  const importFundEvents = async () => {
+    setEventStatus('查询分红送配…');
+    try {
+      const res = await fetch('/api/ledger/events', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ transactions, dividendMethods }),
+      });
+      const json = await res.json();
+      if (!json.success) {
+        setEventStatus(`导入失败: ${json.error}`);
+        return;
+      }
+
+      const added: LedgerTransaction[] = json.added;
+      if (added.length > 0 && !commit([...transactions, ...added])) {
+        setEventStatus(null);
+        return;
+      }
+      setEventStatus(added.length > 0
+        ? `已补录 ${added.length} 条分红/拆分记录${json.skipped.length ? `，${json.skipped.length} 条未能处理` : ''}`
+        : '没有需要补录的分红/拆分');
+    } catch (e) {
+      setEventStatus('导入失败，请检查网络');
+    }
+  };
+
+  const enableSync = async () => {
+    const id = generateLedgerId();
+    localStorage.setItem(LEDGER_ID_KEY, id);
+    setLedgerId(id);
+    await pushToServer(id, transactions);
+  };
+
+  const restoreFromServer = async () => {
+    const id = restoreId.trim();
+    if (!id) return;
+    setSyncStatus('恢复中…');
+    try {
+      const res = await fetch(`/api/ledger?id=${encodeURIComponent(id)}&includeClosed=1`);
+      const json = await res.json();
+      if (!json.success) {
+        setSyncStatus(`恢复失败: ${json.error}`);
+        return;
+      }
+      localStorage.setItem(LEDGER_ID_KEY, id);
+      setLedgerId(id);
+      setRestoreId('');
+      onChange(json.data.transactions);
+      setSyncStatus(`已恢复 ${json.data.transactions.length} 条流水`);
+    } catch (e) {
+      setSyncStatus('恢复失败，请检查网络');
+    }
+  };
+
+  const needsShares = form.type === 'buy' || form.type === 'sell' || form.type === 'reinvest';
+  const needsAmount = form.type !== 'split';
+
+  return (
+    <div className="position-ledger">
+      {/* 汇总 */}
+      <div className="stats-grid">
+        <div className="stat-card">
+          <div className="stat-label">持仓市值</div>
+          <div className="stat-value">{formatMoney(summary.marketValue)}</div>
+          <div className="stat-unit">元（按最新净值）</div>
+        </div>
+        <div className="stat-card">
+          <div className="stat-label">持仓成本</div>
+          <div className="stat-value">{formatMoney(summary.totalCost)}</div>
+          <div className="stat-unit">元（含手续费）</div>
+        </div>
+        <div className="stat-card">
+          <div className="stat-label">浮动盈亏</div>
+          <div className={`stat-value ${pnlClass(summary.unrealizedPnl)}`}>{formatMoney(summary.unrealizedPnl)}</div>
+          <div className="stat-unit">元</div>
+        </div>
+        <div className="stat-card">
+          <div className="stat-label">已实现收益</div>
+          <div className={`stat-value ${pnlClass(summary.realizedPnl)}`}>{formatMoney(summary.realizedPnl)}</div>
+          <div className="stat-unit">元（含分红）</div>
+        </div>
+      </div>
+
+      {/* 录入 */}
+      <div className="ledger-form">
+        <select
+          className="input"
+          value={form.fundCode}
+          onChange={(e) => setForm({ ...form, fundCode: e.target.value })}
+        >
+          {funds.map(f => (
+            <option key={f.code} value={f.code}>{f.name || f.code}（{f.code}）</option>
+          ))}
+        </select>
+        <select
+          className="input"
+          value={form.type}
+          onChange={(e) => setForm({ ...form, type: e.target.value as TransactionType })}
+        >
+          {(Object.keys(TRANSACTION_TYPE_LABELS) as TransactionType[]).map(type => (
+            <option key={type} value={type}>{TRANSACTION_TYPE_LABELS[type]}</option>
+          ))}
+        </select>
+        <input
+          className="input"
+          type="date"
+          title="交易日期"
+          value={form.date}
+          onChange={(e) => setForm({ ...form, date: e.target.value })}
+        />
+        <input
+          className="input"
+          type="date"
+          title="确认日期（可选）"
+          value={form.confirmDate}
+          onChange={(e) => setForm({ ...form, confirmDate: e.target.value })}
+        />
+        {needsShares && (
+          <input
+            className="input"
+            type="number"
+            placeholder="确认份额"
+            value={form.shares}
+            onChange={(e) => setForm({ ...form, shares: e.target.value })}
+          />
+        )}
+        {needsAmount && (
+          <input
+            className="input"
+            type="number"
+            placeholder={form.type === 'sell' ? '到账金额' : form.type === 'buy' ? '申购金额（含费）' : '分红金额'}
+            value={form.amount}
+            onChange={(e) => setForm({ ...form, amount: e.target.value })}
+          />
+        )}
+        {(form.type === 'buy' || form.type === 'sell') && (
+          <input
+            className="input"
+            type="number"
+            placeholder="手续费"
+            value={form.fee}
+            onChange={(e) => setForm({ ...form, fee: e.target.value })}
+          />
+        )}
+        {form.type === 'split' && (
+          <input
+            className="input"
+            type="number"
+            placeholder="折算比例"
+            value={form.ratio}
+            onChange={(e) => setForm({ ...form, ratio: e.target.value })}
+          />
+        )}
+        <button className="button" type="button" onClick={addTransaction} disabled={!form.fundCode}>
+          记一笔
+        </button>
+      </div>
+      {error && <div className="ledger-error">{error}</div>}
+
+      {/* 持仓 */}
+      {openPositions.length > 0 && (
+        <div className="type-stats">
+          <h4>当前持仓</h4>
+          <div className="ledger-table-wrapper">
+            <table className="ledger-table">
+              <thead>
+                <tr>
+                  <th>基金</th>
+                  <th>份额</th>
+                  <th>成本价</th>
+                  <th>净值</th>
+                  <th>市值</th>
+                  <th>浮动盈亏</th>
+                  <th>已实现</th>
+                  <th>分红方式</th>
+                </tr>
+              </thead>
+              <tbody>
+                {openPositions.map(p => (
+                  <tr key={p.fundCode}>
+                    <td>{p.fundName || p.fundCode}</td>
+                    <td>{formatMoney(p.shares)}</td>
+                    <td>{p.averageCost.toFixed(4)}</td>
+                    <td>{p.nav.toFixed(4)}</td>
+                    <td>{formatMoney(p.marketValue)}</td>
+                    <td className={`type-change ${pnlClass(p.unrealizedPnl)}`}>
+                      {formatMoney(p.unrealizedPnl)}（{p.unrealizedPnlPercent.toFixed(2)}%）
+                    </td>
+                    <td className={`type-change ${pnlClass(p.realizedPnl)}`}>{formatMoney(p.realizedPnl)}</td>
+                    <td>
+                      <select
+                        className="input"
+                        value={dividendMethods[p.fundCode] || 'cash'}
+                        onChange={(e) => changeDividendMethod(p.fundCode, e.target.value as DividendMethod)}
+                      >
+                        {(Object.keys(DIVIDEND_METHOD_LABELS) as DividendMethod[]).map(method => (
+                          <option key={method} value={method}>{DIVIDEND_METHOD_LABELS[method]}</option>
+                        ))}
+                      </select>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="ledger-sync">
+            <button className="button" type="button" onClick={importFundEvents}>补录分红/拆分</button>
+            {eventStatus && <span className="muted">{eventStatus}</span>}
+          </div>
+        </div>
+      )}
+
+      {/* 流水 */}
+      {transactions.length > 0 && (
+        <div className="type-stats" style={{ marginTop: 12 }}>
+          <h4>交易流水</h4>
+          <div className="type-stats-list">
+            {sortTransactions(transactions).reverse().map(tx => (
+              <div key={tx.id} className="type-stat-item">
+                <span className="type-name">
+                  {tx.date} {TRANSACTION_TYPE_LABELS[tx.type]} {tx.fundName || tx.fundCode}
+                </span>
+                <span className="type-count">
+                  {tx.type === 'split'
+                    ? `× ${tx.ratio}`
+                    : [tx.shares ? `${tx.shares} 份` : '', tx.amount ? `${formatMoney(tx.amount)} 元` : '', tx.fee ? `费 ${tx.fee}` : '']
+                      .filter(Boolean)
+                      .join(' / ')}
+                </span>
+                <button className="icon-button" type="button" title="删除" onClick={() => removeTransaction(tx.id)}>
+                  ×
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* 云端保存 */}
+      <div className="ledger-sync">
+        {ledgerId ? (
+          <span className="muted">
+            云端保存已开启，台账 ID：<code>{ledgerId}</code>（清除浏览器数据后用此 ID 恢复）
+          </span>
+        ) : (
+          <button className="button" type="button" onClick={enableSync}>开启云端保存</button>
+        )}
+        <input
+          className="input"
+          placeholder="输入台账 ID 恢复"
+          value={restoreId}
+          onChange={(e) => setRestoreId(e.target.value)}
+        />
+        <button className="button" type="button" onClick={restoreFromServer} disabled={!restoreId.trim()}>
+          恢复
+        </button>
+        {syncStatus && <span className="muted">{syncStatus}</span>}
+      </div>
+    </div>
+  );
+}
+
+export default PositionLedger;
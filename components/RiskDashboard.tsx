@@ -2,12 +2,14 @@
  * Risk Dashboard Component
  *
  * 风险分析仪表板组件
- * 展示投资组合的风险指标
+ * 展示投资组合的风险指标，以及按重仓股穿透的行业与风格暴露
  */
 
 'use client';
 
 import React, { useEffect, useState } from 'react';
+import type { PortfolioExposure } from '../lib/exposure/exposure';
+import { SectorBars, StyleBoxGrid } from './ExposureChart';
 
 interface RiskMetrics {
   portfolioReturn: number;
@@ -20,6 +22,14 @@ interface RiskMetrics {
   concentration: number;
   riskLevel: 'low' | 'medium' | 'high';
   riskScore: number;
+  sortinoRatio: number;
+  calmarRatio: number;
+  var95CornishFisher: number;
+  cvar95CornishFisher: number;
+  drawdownPeakDate: string | null;
+  drawdownTroughDate: string | null;
+  observations: number;
+  method: Record<string, 'empirical' | 'estimated'>;
 }
 
 interface StressTest {
@@ -28,9 +38,22 @@ interface StressTest {
   description: string;
 }
 
+interface CorrelationMatrix {
+  codes: string[];
+  names: string[];
+  method: string;
+  observations: number;
+  startDate: string | null;
+  endDate: string | null;
+  shrinkage: number;
+  correlation: number[][];
+}
+
 interface RiskAnalysisResult {
   metrics: RiskMetrics;
   stressTests: StressTest[];
+  correlationMatrix: CorrelationMatrix | null;
+  lookbackDays: number;
   holdingsCount: number;
 }
 
@@ -47,6 +70,7 @@ export function RiskDashboard({ funds }: RiskDashboardProps) {
   const [analysis, setAnalysis] = useState<RiskAnalysisResult | null>(null);
   const [loading, setLoading] = useState(false);
   const [showDetails, setShowDetails] = useState(false);
+  const [exposure, setExposure] = useState<PortfolioExposure | null>(null);
 
   const analyzeRisk = async () => {
     if (funds.length === 0) return;
@@ -61,11 +85,22 @@ export function RiskDashboard({ funds }: RiskDashboardProps) {
         return: fund.gszzl ? parseFloat(fund.gszzl) / 100 : 0,
       }));
 
+      // 持仓穿透与风险分析并行，穿透失败不影响风险指标
+      const exposureRequest = fetch('/api/portfolio/exposure', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ holdings: holdings.map(h => ({ code: h.code, weight: h.weight })) }),
+      })
+        .then(res => res.json())
+        .then(json => (json.success ? json.data.exposure as PortfolioExposure : null))
+        .catch(() => null);
+
       const response = await fetch('/api/risk/analyze', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ holdings }),
       });
+      setExposure(await exposureRequest);
 
       if (!response.ok) {
         throw new Error('风险分析失败');
@@ -88,6 +123,45 @@ export function RiskDashboard({ funds }: RiskDashboardProps) {
     return `${value >= 0 ? '+' : ''}${(value * 100).toFixed(decimals)}%`;
   };
 
+  // 标注指标是实际计算还是估算
+  const renderMethodTag = (field: string) => {
+    const empirical = analysis?.metrics.method?.[field] === 'empirical';
+    return (
+      <span
+        title={empirical ? '基于历史净值序列计算' : '历史数据不足，按经验公式估算'}
+        style={{
+          marginLeft: '4px',
+          fontSize: '10px',
+          padding: '1px 4px',
+          borderRadius: '4px',
+          color: empirical ? '#22c55e' : '#eab308',
+          border: `1px solid ${empirical ? '#22c55e55' : '#eab30855'}`,
+        }}
+      >
+        {empirical ? '实测' : '估算'}
+      </span>
+    );
+  };
+
+  // 相关系数热力图配色：正相关红色、负相关绿色，越接近 ±1 越深
+  const getCorrelationColor = (value: number) => {
+    const alpha = Math.min(1, Math.abs(value)) * 0.85;
+    return value >= 0 ? `rgba(239, 68, 68, ${alpha})` : `rgba(34, 197, 94, ${alpha})`;
+  };
+
+  // 高度相关（≥ 0.9）的基金对
+  const getHighlyCorrelatedPairs = (matrix: CorrelationMatrix) => {
+    const pairs: { a: string; b: string; value: number }[] = [];
+    matrix.correlation.forEach((row, i) => {
+      row.forEach((value, j) => {
+        if (j > i && value >= 0.9) {
+          pairs.push({ a: matrix.names[i], b: matrix.names[j], value });
+        }
+      });
+    });
+    return pairs;
+  };
+
   const getRiskLevelColor = (level: string) => {
     switch (level) {
       case 'low': return '#22c55e';
@@ -169,7 +243,7 @@ export function RiskDashboard({ funds }: RiskDashboardProps) {
               textAlign: 'center',
             }}>
               <div style={{ fontSize: '12px', color: '#9ca3af', marginBottom: '8px' }}>
-                组合波动率
+                组合波动率{renderMethodTag('portfolioVolatility')}
               </div>
               <div style={{
                 fontSize: '20px',
@@ -191,7 +265,7 @@ export function RiskDashboard({ funds }: RiskDashboardProps) {
               textAlign: 'center',
             }}>
               <div style={{ fontSize: '12px', color: '#9ca3af', marginBottom: '8px' }}>
-                最大回撤
+                最大回撤{renderMethodTag('maxDrawdown')}
               </div>
               <div style={{
                 fontSize: '20px',
@@ -201,7 +275,9 @@ export function RiskDashboard({ funds }: RiskDashboardProps) {
                 {formatPercent(-analysis.metrics.maxDrawdown)}
               </div>
               <div style={{ fontSize: '11px', color: '#6b7280', marginTop: '4px' }}>
-                历史最大损失
+                {analysis.metrics.drawdownTroughDate
+                  ? `${analysis.metrics.drawdownPeakDate || '期初'} → ${analysis.metrics.drawdownTroughDate}`
+                  : '历史最大损失'}
               </div>
             </div>
 
@@ -213,7 +289,7 @@ export function RiskDashboard({ funds }: RiskDashboardProps) {
               textAlign: 'center',
             }}>
               <div style={{ fontSize: '12px', color: '#9ca3af', marginBottom: '8px' }}>
-                夏普比率
+                夏普比率{renderMethodTag('portfolioSharpe')}
               </div>
               <div style={{
                 fontSize: '20px',
@@ -238,28 +314,57 @@ export function RiskDashboard({ funds }: RiskDashboardProps) {
           }}>
             <h4 style={{ margin: '0 0 16px 0', fontSize: '14px', color: '#e5e7eb' }}>
               风险指标详情
+              <span style={{ marginLeft: '8px', fontSize: '11px', color: '#6b7280', fontWeight: 400 }}>
+                {analysis.metrics.observations > 0
+                  ? `基于近 ${analysis.metrics.observations} 个交易日净值`
+                  : '历史净值不足，部分指标为估算值'}
+              </span>
             </h4>
             <div style={{ display: 'grid', gridTemplateColumns: 'repeat(2, 1fr)', gap: '12px' }}>
               <div style={{ display: 'flex', justifyContent: 'space-between' }}>
-                <span style={{ color: '#9ca3af' }}>组合收益率</span>
+                <span style={{ color: '#9ca3af' }}>年化收益率{renderMethodTag('portfolioReturn')}</span>
                 <span style={{ color: '#e5e7eb', fontWeight: 600 }}>
                   {formatPercent(analysis.metrics.portfolioReturn)}
                 </span>
               </div>
               <div style={{ display: 'flex', justifyContent: 'space-between' }}>
-                <span style={{ color: '#9ca3af' }}>95% VaR</span>
+                <span style={{ color: '#9ca3af' }}>95% 单日 VaR{renderMethodTag('var95')}</span>
                 <span style={{ color: '#ef4444', fontWeight: 600 }}>
                   {formatPercent(-analysis.metrics.var95)}
                 </span>
               </div>
               <div style={{ display: 'flex', justifyContent: 'space-between' }}>
-                <span style={{ color: '#9ca3af' }}>95% CVaR</span>
+                <span style={{ color: '#9ca3af' }}>95% 单日 CVaR{renderMethodTag('cvar95')}</span>
                 <span style={{ color: '#ef4444', fontWeight: 600 }}>
                   {formatPercent(-analysis.metrics.cvar95)}
                 </span>
               </div>
               <div style={{ display: 'flex', justifyContent: 'space-between' }}>
-                <span style={{ color: '#9ca3af' }}>平均相关性</span>
+                <span style={{ color: '#9ca3af' }}>修正 VaR (Cornish-Fisher)</span>
+                <span style={{ color: '#ef4444', fontWeight: 600 }}>
+                  {formatPercent(-analysis.metrics.var95CornishFisher)}
+                </span>
+              </div>
+              <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+                <span style={{ color: '#9ca3af' }}>修正 CVaR (Cornish-Fisher)</span>
+                <span style={{ color: '#ef4444', fontWeight: 600 }}>
+                  {formatPercent(-analysis.metrics.cvar95CornishFisher)}
+                </span>
+              </div>
+              <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+                <span style={{ color: '#9ca3af' }}>索提诺比率{renderMethodTag('sortinoRatio')}</span>
+                <span style={{ color: '#e5e7eb', fontWeight: 600 }}>
+                  {analysis.metrics.sortinoRatio.toFixed(2)}
+                </span>
+              </div>
+              <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+                <span style={{ color: '#9ca3af' }}>卡玛比率{renderMethodTag('calmarRatio')}</span>
+                <span style={{ color: '#e5e7eb', fontWeight: 600 }}>
+                  {analysis.metrics.calmarRatio.toFixed(2)}
+                </span>
+              </div>
+              <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+                <span style={{ color: '#9ca3af' }}>平均相关性{renderMethodTag('correlation')}</span>
                 <span style={{ color: '#e5e7eb', fontWeight: 600 }}>
                   {analysis.metrics.correlation.toFixed(2)}
                 </span>
@@ -276,6 +381,102 @@ export function RiskDashboard({ funds }: RiskDashboardProps) {
             </div>
           </div>
 
+          {/* 相关系数热力图 */}
+          {analysis.correlationMatrix && analysis.correlationMatrix.codes.length > 1 && (
+            <div className="correlation-heatmap" style={{
+              padding: '16px',
+              background: '#0b1220',
+              border: '1px solid #1f2937',
+              borderRadius: '12px',
+              marginBottom: '20px',
+              overflowX: 'auto',
+            }}>
+              <h4 style={{ margin: '0 0 4px 0', fontSize: '14px', color: '#e5e7eb' }}>
+                相关系数矩阵
+              </h4>
+              <div style={{ fontSize: '11px', color: '#6b7280', marginBottom: '12px' }}>
+                {analysis.correlationMatrix.startDate} 至 {analysis.correlationMatrix.endDate}，
+                {analysis.correlationMatrix.observations} 个共同交易日，
+                Ledoit-Wolf 收缩强度 {(analysis.correlationMatrix.shrinkage * 100).toFixed(1)}%
+              </div>
+              <table style={{ borderCollapse: 'separate', borderSpacing: '2px', fontSize: '11px' }}>
+                <thead>
+                  <tr>
+                    <th />
+                    {analysis.correlationMatrix.codes.map(code => (
+                      <th key={code} style={{ color: '#9ca3af', fontWeight: 500, padding: '4px' }}>{code}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {analysis.correlationMatrix.correlation.map((row, i) => (
+                    <tr key={analysis.correlationMatrix!.codes[i]}>
+                      <th
+                        title={analysis.correlationMatrix!.names[i]}
+                        style={{ color: '#9ca3af', fontWeight: 500, padding: '4px', textAlign: 'right', whiteSpace: 'nowrap' }}
+                      >
+                        {analysis.correlationMatrix!.codes[i]}
+                      </th>
+                      {row.map((value, j) => (
+                        <td
+                          key={j}
+                          title={`${analysis.correlationMatrix!.names[i]} / ${analysis.correlationMatrix!.names[j]}: ${value.toFixed(3)}`}
+                          style={{
+                            width: '48px',
+                            height: '32px',
+                            textAlign: 'center',
+                            borderRadius: '4px',
+                            color: '#e5e7eb',
+                            background: getCorrelationColor(value),
+                          }}
+                        >
+                          {value.toFixed(2)}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {getHighlyCorrelatedPairs(analysis.correlationMatrix).length > 0 && (
+                <div style={{ marginTop: '12px', fontSize: '12px', color: '#eab308' }}>
+                  {getHighlyCorrelatedPairs(analysis.correlationMatrix).map(pair => (
+                    <div key={`${pair.a}-${pair.b}`}>
+                      ⚠️ {pair.a} 与 {pair.b} 相关系数 {pair.value.toFixed(2)}，分散效果有限
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* 持仓穿透 */}
+          {exposure && exposure.sectors.length > 0 && (
+            <div className="portfolio-exposure" style={{
+              padding: '16px',
+              background: '#0b1220',
+              border: '1px solid #1f2937',
+              borderRadius: '12px',
+              marginBottom: '20px',
+            }}>
+              <h4 style={{ margin: '0 0 4px 0', fontSize: '14px', color: '#e5e7eb' }}>
+                持仓穿透
+              </h4>
+              <div style={{ fontSize: '11px', color: '#6b7280', marginBottom: '12px' }}>
+                按各基金最新重仓股合并，覆盖组合净值 {exposure.disclosedRatio.toFixed(1)}%
+                {exposure.missing.length > 0 && `，${exposure.missing.join('、')} 无股票持仓数据`}
+              </div>
+              <div className="exposure-layout">
+                <SectorBars sectors={exposure.sectors} />
+                {exposure.styleBox && <StyleBoxGrid styleBox={exposure.styleBox} />}
+              </div>
+              {exposure.sectors[0] && exposure.sectors[0].weight >= 20 && (
+                <div style={{ marginTop: '12px', fontSize: '12px', color: '#eab308' }}>
+                  ⚠️ {exposure.sectors[0].industry} 占组合净值 {exposure.sectors[0].weight.toFixed(1)}%，行业集中度较高
+                </div>
+              )}
+            </div>
+          )}
+
           {/* 压力测试 */}
           <div className="stress-test" style={{
             padding: '16px',
@@ -0,0 +1,210 @@
+/**
+ * A/C 份额持有成本对比
+ *
+ * 按对比中的基金找到同一基金的 A/C 份额，按投入金额和计划持有天数计算两类份额的费用和盈亏平衡点，基金对比弹窗使用
+ */
+
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import type { ShareClassReport } from '../lib/fees/share-class-service';
+import type { HoldingCost } from '../lib/fees/share-class-cost';
+
+interface ShareClassCostProps {
+  funds: { code: string; name?: string }[];
+}
+
+const HORIZON_PRESETS = [
+  { days: 30, label: '1个月' },
+  { days: 180, label: '半年' },
+  { days: 365, label: '1年' },
+  { days: 730, label: '2年' },
+  { days: 1095, label: '3年' },
+];
+
+// 输入停止后再请求
+const INPUT_DELAY = 400;
+
+function formatDays(days: number): string {
+  if (days < 60) return `${days} 天`;
+  if (days < 365) return `${days} 天（约 ${(days / 30).toFixed(1)} 个月）`;
+  return `${days} 天（约 ${(days / 365).toFixed(1)} 年）`;
+}
+
+function formatCost(cost: HoldingCost): string {
+  return `${cost.total.toFixed(2)} 元（${(cost.totalRate * 100).toFixed(2)}%）`;
+}
+
+export function ShareClassCost({ funds }: ShareClassCostProps) {
+  const [amount, setAmount] = useState(10000);
+  const [horizon, setHorizon] = useState(365);
+  const [reports, setReports] = useState<ShareClassReport[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const codesKey = funds.map(f => f.code).join(',');
+
+  useEffect(() => {
+    if (!codesKey || !(amount > 0) || !(horizon >= 1)) {
+      setReports([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      setLoading(true);
+      Promise.all(
+        codesKey.split(',').map(code =>
+          fetch(`/api/funds/${code}/share-classes?amount=${amount}&horizon=${horizon}`)
+            .then(res => res.json())
+            .then(json => (json.success ? json.data as ShareClassReport : null))
+            .catch(() => null)
+        )
+      )
+        .then(results => {
+          if (cancelled) return;
+          // 同一基金的 A、C 份额都在对比中时只保留一份结果
+          const seen = new Set<string>();
+          setReports(results.filter((r): r is ShareClassReport => {
+            if (!r) return false;
+            const key = `${r.comparison.frontLoad.code}-${r.comparison.serviceFee.code}`;
+            if (seen.has(key)) return false;
+            seen.add(key);
+            return true;
+          }));
+        })
+        .finally(() => {
+          if (!cancelled) setLoading(false);
+        });
+    }, INPUT_DELAY);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [codesKey, amount, horizon]);
+
+  const comparing = useMemo(() => new Set(codesKey.split(',')), [codesKey]);
+
+  return (
+    <div className="share-class-panel">
+      <div className="share-class-header">
+        <h4>A/C 份额持有成本</h4>
+        <div className="share-class-inputs">
+          <label>
+            投入
+            <input
+              type="number"
+              min={1}
+              value={amount}
+              onChange={(e) => setAmount(Number(e.target.value))}
+            />
+            元
+          </label>
+          <label>
+            持有
+            <input
+              type="number"
+              min={1}
+              max={3650}
+              value={horizon}
+              onChange={(e) => setHorizon(Math.round(Number(e.target.value)))}
+            />
+            天
+          </label>
+          <div className="share-class-presets">
+            {HORIZON_PRESETS.map(p => (
+              <button
+                key={p.days}
+                className={`period-tab ${horizon === p.days ? 'active' : ''}`}
+                onClick={() => setHorizon(p.days)}
+              >
+                {p.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {loading && reports.length === 0 ? (
+        <div className="share-class-empty">正在获取各份额费率…</div>
+      ) : reports.length === 0 ? (
+        <div className="share-class-empty">对比中的基金没有可对比的 A/C 份额</div>
+      ) : (
+        reports.map(({ comparison: c, warnings }) => {
+          const sameProduct = comparing.has(c.frontLoad.code) && comparing.has(c.serviceFee.code);
+          const rows = [
+            { key: 'frontLoad' as const, info: c.frontLoad, cost: c.horizon.frontLoad, fallback: 'A' },
+            { key: 'serviceFee' as const, info: c.serviceFee, cost: c.horizon.serviceFee, fallback: 'C' },
+          ];
+
+          return (
+            <div key={`${c.frontLoad.code}-${c.serviceFee.code}`} className="share-class-card">
+              <div className="share-class-title">
+                <span>{c.frontLoad.name}</span>
+                {sameProduct && <span className="share-class-tag">同一基金的不同份额</span>}
+              </div>
+
+              <div className="share-class-breakeven">
+                {c.breakEvenDays === null
+                  ? `计算范围内 ${c.serviceFee.shareClass || 'C'} 类始终更省`
+                  : c.breakEvenDays === 0
+                    ? `${c.frontLoad.shareClass || 'A'} 类始终更省`
+                    : `盈亏平衡点：持有 ${formatDays(c.breakEvenDays)}`}
+              </div>
+
+              <table className="overlap-table">
+                <thead>
+                  <tr>
+                    <th>份额</th>
+                    <th>申购费</th>
+                    <th>持有费用</th>
+                    <th>赎回费</th>
+                    <th>持有 {horizon} 天合计</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(row => (
+                    <tr key={row.key} className={c.horizon.cheaper === row.key ? 'share-class-cheaper' : ''}>
+                      <td>
+                        <div>{row.info.shareClass || row.fallback} 类 #{row.info.code}</div>
+                        <div className="muted">年化持有费用 {(row.info.annualFee * 100).toFixed(2)}%</div>
+                      </td>
+                      <td>{row.cost.purchaseFee.toFixed(2)}</td>
+                      <td>{row.cost.holdingFee.toFixed(2)}</td>
+                      <td>{row.cost.redemptionFee.toFixed(2)}</td>
+                      <td>{formatCost(row.cost)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              <div className="share-class-milestones">
+                {c.milestones.map(m => {
+                  const cheaperA = m.frontLoad.total < m.serviceFee.total;
+                  return (
+                    <span
+                      key={m.days}
+                      className={`share-class-milestone ${cheaperA ? 'front-load' : 'service-fee'}`}
+                      title={`A 类 ${formatCost(m.frontLoad)}\nC 类 ${formatCost(m.serviceFee)}`}
+                    >
+                      {m.label} {cheaperA ? c.frontLoad.shareClass || 'A' : c.serviceFee.shareClass || 'C'}
+                    </span>
+                  );
+                })}
+              </div>
+
+              <div className="share-class-summary">{c.summary}</div>
+              {warnings.length > 0 && <div className="overlap-note">{warnings.join('；')}</div>}
+            </div>
+          );
+        })
+      )}
+
+      <div className="overlap-note">
+        只计两类份额有差异的费用：申购费按销售平台优惠费率，销售服务费按日计提，赎回费按持有天数对应的费率
+      </div>
+    </div>
+  );
+}
+
+export default ShareClassCost;
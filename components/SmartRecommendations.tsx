@@ -22,10 +22,12 @@ interface FundRecommendation {
     type: string;
   };
   score: {
-    totalScore: number;
+    totalScore: number | null;
     rating: string;
-    performance: number;
-    risk: number;
+    performance: number | null;
+    risk: number | null;
+    coverage: number;
+    factors: { factor: string; score: number | null; summary: string }[];
   };
   matchReasons: string[];
   riskLevel: 'low' | 'medium' | 'high';
@@ -142,6 +144,7 @@ export function SmartRecommendations() {
       case 'BBB': return '#f97316';
       case 'BB': return '#ef4444';
       case 'B': return '#dc2626';
+      case 'NR': return '#6b7280';
       default: return '#991b1b';
     }
   };
@@ -452,7 +455,9 @@ export function SmartRecommendations() {
                         {rec.score.rating}
                       </div>
                       <div style={{ fontSize: '11px', color: '#6b7280' }}>
-                        综合评分 {rec.score.totalScore.toFixed(0)}
+                        {rec.score.totalScore !== null
+                          ? `综合评分 ${rec.score.totalScore.toFixed(0)}`
+                          : '数据不足，未评级'}
                       </div>
                     </div>
                   </div>
@@ -482,6 +487,22 @@ export function SmartRecommendations() {
                     </div>
                   )}
 
+                  {/* 评分明细：各因子在同类中的百分位 */}
+                  {rec.score.factors?.length > 0 && (
+                    <details style={{ marginBottom: '12px', fontSize: '11px', color: '#9ca3af' }}>
+                      <summary style={{ cursor: 'pointer', color: '#6b7280' }}>
+                        评分明细（数据覆盖 {(rec.score.coverage * 100).toFixed(0)}%）
+                      </summary>
+                      <ul style={{ margin: '6px 0 0', paddingLeft: '16px', lineHeight: 1.7 }}>
+                        {rec.score.factors.map(f => (
+                          <li key={f.factor} style={{ color: f.score === null ? '#6b7280' : '#d1d5db' }}>
+                            {f.summary}
+                          </li>
+                        ))}
+                      </ul>
+                    </details>
+                  )}
+
                   {/* 风险收益指标 */}
                   <div style={{ display: 'flex', gap: '16px', fontSize: '12px' }}>
                     <div>
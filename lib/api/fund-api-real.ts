@@ -4,48 +4,22 @@
  * 直接调用东方财富 API，不使用 Mastra Agent
  */
 
+import { searchFundUniverse } from '../search/fund-universe-service';
+
 /**
  * 真实的基金搜索
- * 调用东方财富 API 获取真实数据
+ * 使用共享的基金搜索索引，按匹配质量排序
  */
 export async function searchFundsReal(keyword: string) {
   try {
-    const url = `https://fund.eastmoney.com/js/fundcode_search.js?timestamp=${Date.now()}`;
-    const response = await fetch(url);
-    const text = await response.text();
-
-    // 解析返回的数据
-    const match = text.match(/var r = (\[.*?\]);/);
-    if (!match) {
-      return {
-        success: false,
-        results: [],
-        error: '无法解析基金数据',
-      };
-    }
-
-    const fundsData = JSON.parse(match[1]);
-
-    // 过滤匹配的基金
-    const filtered = fundsData
-      .filter((fund: any[]) => {
-        const code = fund[0] || '';
-        const name = fund[2] || '';
-        const pinyin = fund[1] || '';
-
-        return (
-          code.includes(keyword) ||
-          name.toLowerCase().includes(keyword.toLowerCase()) ||
-          pinyin.toLowerCase().includes(keyword.toLowerCase())
-        );
-      })
-      .slice(0, 20)
-      .map((fund: any[]) => ({
-        code: fund[0],
-        pinyin: fund[1],
-        name: fund[2],
-        type: fund[3],
-      }));
+    const { hits } = await searchFundUniverse(keyword);
+    const filtered = hits.map(hit => ({
+      code: hit.code,
+      pinyin: hit.pinyin,
+      name: hit.name,
+      type: hit.type,
+      shareClass: hit.shareClass,
+    }));
 
     return {
       success: true,
@@ -0,0 +1,198 @@
+/**
+ * 基金业绩比较基准服务
+ *
+ * 从天天基金 F10 基本概况页 https://fundf10.eastmoney.com/jbgk_{基金代码}.html 读取业绩比较基准，
+ * 获取各成分指数的日 K 线合成基准收益率，与基金复权净值收益率对比计算 Alpha、Beta 等指标
+ */
+
+import * as cheerio from 'cheerio';
+import { isFixtureMode, readFixture } from '../fixtures';
+import { getDailyKlines } from '../quotes/kline';
+import { DailyReturn } from '../risk/metrics';
+import { DEFAULT_LOOKBACK_DAYS, getFundReturns } from '../risk/fund-returns';
+import {
+  BenchmarkDefinition,
+  BenchmarkMetrics,
+  compositeBenchmarkReturns,
+  computeBenchmarkMetrics,
+  findBenchmarkIndex,
+  parseBenchmarkText,
+  singleIndexBenchmark,
+} from './benchmark';
+
+// 业绩比较基准很少变化，缓存 1 天
+const benchmarkTextCache = new Map<string, { data: string | null; timestamp: number }>();
+const CACHE_TTL = 24 * 60 * 60 * 1000;
+
+const DEFAULT_INDEX_CODE = 'sh000300';
+
+/**
+ * 指定的对比指数无法识别
+ */
+export class UnknownBenchmarkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnknownBenchmarkError';
+  }
+}
+
+/**
+ * 基准分析选项
+ */
+export interface BenchmarkAnalysisOptions {
+  indexCode?: string;        // 指定对比指数，缺省使用基金合同中的业绩比较基准
+  lookbackDays?: number;     // 回看自然日天数
+  riskFreeRate?: number;     // 年化无风险利率
+}
+
+/**
+ * 基准分析结果
+ */
+export interface BenchmarkAnalysis {
+  fundCode: string;
+  benchmark: BenchmarkDefinition;
+  metrics: BenchmarkMetrics | null;   // 共同交易日不足时为 null
+  benchmarkReturns: DailyReturn[];
+}
+
+/**
+ * 从基本概况页解析业绩比较基准
+ */
+export function parseStatedBenchmark(html: string): string | null {
+  const $ = cheerio.load(html);
+  const cell = $('th').filter((_, el) => $(el).text().trim() === '业绩比较基准').first().next('td');
+  const text = cell.text().trim();
+  return text && text !== '--' && !text.includes('暂无') ? text : null;
+}
+
+/**
+ * 请求 F10 基本概况页原文（基金类型、成立日期、业绩比较基准等）
+ *
+ * @returns 页面 HTML，获取失败时返回 null
+ */
+export async function fetchBasicInfoPage(fundCode: string): Promise<string | null> {
+  if (isFixtureMode()) {
+    return readFixture('benchmark', 'fixtures', `jbgk_${fundCode}.html`);
+  }
+
+  const response = await fetch(`https://fundf10.eastmoney.com/jbgk_${fundCode}.html`, {
+    headers: {
+      'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+      'Referer': 'https://fundf10.eastmoney.com/',
+    },
+    signal: AbortSignal.timeout(10000),
+  });
+
+  return response.ok ? response.text() : null;
+}
+
+/**
+ * 获取基金合同中的业绩比较基准描述
+ *
+ * @returns 基准描述，页面无此项时返回 null
+ */
+export async function getStatedBenchmark(fundCode: string): Promise<string | null> {
+  const cached = benchmarkTextCache.get(fundCode);
+  if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
+    return cached.data;
+  }
+
+  const html = await fetchBasicInfoPage(fundCode);
+  if (!html) {
+    throw new Error(`无法获取基金 ${fundCode} 的基本概况页`);
+  }
+
+  const text = parseStatedBenchmark(html);
+  benchmarkTextCache.set(fundCode, { data: text, timestamp: Date.now() });
+  return text;
+}
+
+/**
+ * 确定基金的对比基准
+ *
+ * 指定指数时使用该指数；否则使用基金合同中的业绩比较基准，
+ * 基准无法获取或没有可识别的成分时退回沪深300
+ *
+ * @param fundCode - 基金代码
+ * @param indexCode - 指定对比指数（行情代码或名称，如 sh000905、中证500）
+ */
+export async function resolveBenchmark(fundCode: string, indexCode?: string): Promise<BenchmarkDefinition> {
+  if (indexCode) {
+    const index = findBenchmarkIndex(indexCode);
+    if (!index) {
+      throw new UnknownBenchmarkError(`不支持的基准指数: ${indexCode}`);
+    }
+    return singleIndexBenchmark(index, 'chosen');
+  }
+
+  const text = await getStatedBenchmark(fundCode).catch(error => {
+    console.warn(`获取基金 ${fundCode} 业绩比较基准失败，改用沪深300:`, error);
+    return null;
+  });
+
+  if (text) {
+    const definition = parseBenchmarkText(text);
+    if (definition.components.some(c => c.index)) return definition;
+  }
+
+  return singleIndexBenchmark(findBenchmarkIndex(DEFAULT_INDEX_CODE)!, 'default');
+}
+
+/**
+ * 获取基准日收益率
+ *
+ * @param definition - 基准定义
+ * @param startDate - 开始日期 (YYYY-MM-DD)
+ * @param endDate - 结束日期 (YYYY-MM-DD)
+ */
+export async function getBenchmarkReturns(
+  definition: BenchmarkDefinition,
+  startDate: string,
+  endDate: string
+): Promise<DailyReturn[]> {
+  const codes = Array.from(new Set(definition.components.filter(c => c.index).map(c => c.index!.code)));
+  const indexReturns: Record<string, DailyReturn[]> = {};
+
+  await Promise.all(codes.map(async code => {
+    const klines = await getDailyKlines(code, startDate, endDate);
+    indexReturns[code] = klines.map(k => ({ date: k.date, value: k.changePercent / 100 }));
+  }));
+
+  return compositeBenchmarkReturns(definition, indexReturns);
+}
+
+/**
+ * 分析基金相对基准的表现
+ *
+ * @param fundCode - 基金代码
+ * @param options - 对比指数、回看天数、无风险利率
+ */
+export async function analyzeFundBenchmark(
+  fundCode: string,
+  options: BenchmarkAnalysisOptions = {}
+): Promise<BenchmarkAnalysis> {
+  const { indexCode, lookbackDays = DEFAULT_LOOKBACK_DAYS, riskFreeRate = 0.03 } = options;
+
+  const [benchmark, fundReturns] = await Promise.all([
+    resolveBenchmark(fundCode, indexCode),
+    getFundReturns(fundCode, lookbackDays),
+  ]);
+
+  if (fundReturns.length === 0) {
+    return { fundCode, benchmark, metrics: null, benchmarkReturns: [] };
+  }
+
+  // 指数行情按基金净值区间获取
+  const benchmarkReturns = await getBenchmarkReturns(
+    benchmark,
+    fundReturns[0].date,
+    fundReturns[fundReturns.length - 1].date
+  );
+
+  return {
+    fundCode,
+    benchmark,
+    metrics: computeBenchmarkMetrics(fundReturns, benchmarkReturns, riskFreeRate),
+    benchmarkReturns,
+  };
+}
@@ -0,0 +1,284 @@
+/**
+ * 业绩比较基准与超额收益归因
+ *
+ * 把基金合同中的业绩比较基准（如「沪深300指数收益率×80%+中债总指数收益率×20%」）
+ * 拆成指数成分，按权重合成基准日收益率，再与基金日收益率对比计算:
+ * - CAPM 回归：Alpha（年化）、Beta、R²
+ * - 跟踪误差、信息比率、年化超额收益
+ * - 上行/下行捕获率
+ *
+ * 本模块只包含纯计算，浏览器端和服务端共用
+ */
+
+import { DailyReturn, annualizedReturn, correlation, mean, standardDeviation, TRADING_DAYS_PER_YEAR } from '../risk/metrics';
+
+/**
+ * 可作为基准的指数
+ */
+export interface BenchmarkIndex {
+  code: string;              // 行情代码，如 sh000300
+  name: string;
+  aliases: string[];         // 基准描述中可能出现的名称
+  assetClass: 'equity' | 'bond';
+  proxyFor?: string;         // 无公开日行情时，用本指数近似的原指数
+}
+
+/**
+ * 常用基准指数
+ *
+ * 中债系列指数没有公开的日行情接口，统一用上证国债指数近似
+ */
+export const BENCHMARK_INDICES: BenchmarkIndex[] = [
+  { code: 'sh000300', name: '沪深300', aliases: ['沪深300'], assetClass: 'equity' },
+  { code: 'sh000905', name: '中证500', aliases: ['中证500'], assetClass: 'equity' },
+  { code: 'sh000906', name: '中证800', aliases: ['中证800'], assetClass: 'equity' },
+  { code: 'sh000852', name: '中证1000', aliases: ['中证1000'], assetClass: 'equity' },
+  { code: 'sh000016', name: '上证50', aliases: ['上证50'], assetClass: 'equity' },
+  { code: 'sh000001', name: '上证指数', aliases: ['上证综合指数', '上证综指', '上证指数'], assetClass: 'equity' },
+  { code: 'sz399001', name: '深证成指', aliases: ['深证成份指数', '深证成指'], assetClass: 'equity' },
+  { code: 'sz399006', name: '创业板指', aliases: ['创业板指数', '创业板指'], assetClass: 'equity' },
+  { code: 'sh000688', name: '科创50', aliases: ['科创50'], assetClass: 'equity' },
+  { code: 'sh000985', name: '中证全指', aliases: ['中证全指'], assetClass: 'equity' },
+  { code: 'sh000942', name: '中证内地消费', aliases: ['中证内地消费主题', '中证内地消费'], assetClass: 'equity' },
+  { code: 'sh000932', name: '中证主要消费', aliases: ['中证主要消费'], assetClass: 'equity' },
+  { code: 'sh000991', name: '全指医药', aliases: ['中证全指医药卫生', '全指医药'], assetClass: 'equity' },
+  {
+    code: 'sh000012',
+    name: '上证国债',
+    aliases: ['中债总指数', '中债综合', '中债总财富', '中证全债', '中债国债', '上证国债'],
+    assetClass: 'bond',
+    proxyFor: '中债总指数',
+  },
+];
+
+/**
+ * 基准中的一个成分
+ */
+export interface BenchmarkComponent {
+  label: string;             // 基准描述中的原文，如 沪深300指数收益率
+  weight: number;            // 权重（小数）
+  index: BenchmarkIndex | null;
+  fixedRate: number | null;  // 存款利率等固定收益成分的年化利率
+}
+
+/**
+ * 基准定义
+ */
+export interface BenchmarkDefinition {
+  text: string;                           // 基准描述
+  source: 'stated' | 'chosen' | 'default';  // 基金合同基准 / 用户指定指数 / 默认沪深300
+  components: BenchmarkComponent[];
+  unmatched: string[];                    // 无法识别的成分，合成时按比例分摊到其余成分
+}
+
+/**
+ * 相对基准的指标
+ */
+export interface BenchmarkMetrics {
+  observations: number;
+  startDate: string | null;
+  endDate: string | null;
+  fundReturn: number;             // 区间累计收益
+  benchmarkReturn: number;
+  fundAnnualizedReturn: number;
+  benchmarkAnnualizedReturn: number;
+  excessReturn: number;           // 年化超额收益 = 基金年化 - 基准年化
+  alpha: number;                  // Jensen Alpha（年化）
+  beta: number;
+  rSquared: number;
+  correlation: number;
+  trackingError: number;          // 年化跟踪误差
+  informationRatio: number;       // 年化超额收益 / 跟踪误差
+  upCapture: number | null;       // 基准上涨日基金平均收益 / 基准平均收益，基准无上涨日时为 null
+  downCapture: number | null;
+}
+
+// 活期存款、定期存款的年化利率
+const DEMAND_DEPOSIT_RATE = 0.0035;
+const TIME_DEPOSIT_RATE = 0.015;
+
+// 计算相对基准指标所需的最少共同交易日
+export const BENCHMARK_MIN_OBSERVATIONS = 20;
+
+/**
+ * 按名称或行情代码查找基准指数
+ */
+export function findBenchmarkIndex(keyword: string): BenchmarkIndex | null {
+  const normalized = keyword.trim().toLowerCase();
+  const byCode = BENCHMARK_INDICES.find(i => i.code === normalized || i.code.slice(2) === normalized);
+  if (byCode) return byCode;
+
+  // 按别名长度从长到短匹配，避免「中证全指医药卫生」被「中证全指」抢先匹配
+  const candidates = BENCHMARK_INDICES
+    .flatMap(index => index.aliases.map(alias => ({ index, alias })))
+    .sort((a, b) => b.alias.length - a.alias.length);
+
+  return candidates.find(c => keyword.includes(c.alias))?.index || null;
+}
+
+/**
+ * 解析业绩比较基准描述
+ *
+ * 支持「沪深300指数收益率×80%+中债总指数收益率×20%」「80%*沪深300指数收益率+20%*...」
+ * 以及单一指数「沪深300指数收益率」；缺少权重的成分按剩余权重平分
+ */
+export function parseBenchmarkText(text: string): BenchmarkDefinition {
+  const parts = text
+    .replace(/[＋]/g, '+')
+    .split('+')
+    .map(p => p.trim())
+    .filter(Boolean);
+
+  const parsed = parts.map(part => {
+    const percent = part.match(/(\d+(?:\.\d+)?)\s*[%％]/);
+    const label = part.replace(/(\d+(?:\.\d+)?)\s*[%％]/, '').replace(/[×xX*＊]/g, '').trim();
+    return { label, weight: percent ? parseFloat(percent[1]) / 100 : null };
+  });
+
+  const stated = parsed.reduce((sum, p) => sum + (p.weight ?? 0), 0);
+  const missing = parsed.filter(p => p.weight === null).length;
+  const fallbackWeight = missing > 0 ? Math.max(0, 1 - stated) / missing : 0;
+
+  const components: BenchmarkComponent[] = [];
+  const unmatched: string[] = [];
+
+  parsed.forEach(({ label, weight }) => {
+    const index = findBenchmarkIndex(label);
+    const fixedRate = index ? null
+      : label.includes('活期') ? DEMAND_DEPOSIT_RATE
+        : label.includes('存款') ? TIME_DEPOSIT_RATE
+          : null;
+
+    if (!index && fixedRate === null) {
+      unmatched.push(label);
+      return;
+    }
+    components.push({ label, weight: weight ?? fallbackWeight, index, fixedRate });
+  });
+
+  return { text, source: 'stated', components, unmatched };
+}
+
+/**
+ * 单一指数基准
+ */
+export function singleIndexBenchmark(index: BenchmarkIndex, source: BenchmarkDefinition['source']): BenchmarkDefinition {
+  return {
+    text: `${index.name}指数收益率×100%`,
+    source,
+    components: [{ label: `${index.name}指数收益率`, weight: 1, index, fixedRate: null }],
+    unmatched: [],
+  };
+}
+
+/**
+ * 合成基准日收益率
+ *
+ * 只保留所有指数成分都有行情的交易日；权重按已识别成分重新归一
+ *
+ * @param definition - 基准定义
+ * @param indexReturns - 各指数的日收益率，键为行情代码
+ */
+export function compositeBenchmarkReturns(
+  definition: BenchmarkDefinition,
+  indexReturns: Record<string, DailyReturn[]>
+): DailyReturn[] {
+  const totalWeight = definition.components.reduce((sum, c) => sum + c.weight, 0);
+  if (totalWeight <= 0) return [];
+
+  const indexed = definition.components.filter(c => c.index);
+  const maps = indexed.map(c => new Map((indexReturns[c.index!.code] || []).map(r => [r.date, r.value])));
+  if (maps.length === 0 || maps.some(m => m.size === 0)) return [];
+
+  const fixedDaily = definition.components
+    .filter(c => c.fixedRate !== null)
+    .reduce((sum, c) => sum + c.weight * c.fixedRate! / TRADING_DAYS_PER_YEAR, 0);
+
+  const dates = Array.from(maps[0].keys())
+    .filter(date => maps.every(m => m.has(date)))
+    .sort();
+
+  return dates.map(date => ({
+    date,
+    value: (indexed.reduce((sum, c, i) => sum + c.weight * maps[i].get(date)!, 0) + fixedDaily) / totalWeight,
+  }));
+}
+
+function cumulative(values: number[]): number {
+  return values.reduce((acc, v) => acc * (1 + v), 1) - 1;
+}
+
+/**
+ * 捕获率：基准上涨（下跌）日基金平均收益 / 基准平均收益
+ */
+function captureRatio(pairs: [number, number][], up: boolean): number | null {
+  const selected = pairs.filter(([, b]) => (up ? b > 0 : b < 0));
+  if (selected.length === 0) return null;
+
+  const benchmarkMean = mean(selected.map(([, b]) => b));
+  return benchmarkMean !== 0 ? mean(selected.map(([f]) => f)) / benchmarkMean : null;
+}
+
+/**
+ * 计算基金相对基准的指标
+ *
+ * @param fundReturns - 基金日收益率
+ * @param benchmarkReturns - 基准日收益率
+ * @param riskFreeRate - 年化无风险利率
+ * @returns 共同交易日少于 BENCHMARK_MIN_OBSERVATIONS 时返回 null
+ */
+export function computeBenchmarkMetrics(
+  fundReturns: DailyReturn[],
+  benchmarkReturns: DailyReturn[],
+  riskFreeRate: number = 0.03
+): BenchmarkMetrics | null {
+  const benchmarkMap = new Map(benchmarkReturns.map(r => [r.date, r.value]));
+  const aligned = fundReturns
+    .filter(r => benchmarkMap.has(r.date))
+    .map(r => ({ date: r.date, fund: r.value, benchmark: benchmarkMap.get(r.date)! }));
+
+  if (aligned.length < BENCHMARK_MIN_OBSERVATIONS) return null;
+
+  const fund = aligned.map(a => a.fund);
+  const benchmark = aligned.map(a => a.benchmark);
+  const dailyRiskFree = riskFreeRate / TRADING_DAYS_PER_YEAR;
+  const fundExcess = fund.map(v => v - dailyRiskFree);
+  const benchmarkExcess = benchmark.map(v => v - dailyRiskFree);
+
+  // CAPM：基金超额收益对基准超额收益做最小二乘回归
+  const benchmarkMean = mean(benchmarkExcess);
+  const fundMean = mean(fundExcess);
+  let covariance = 0;
+  let variance = 0;
+  for (let i = 0; i < aligned.length; i++) {
+    covariance += (fundExcess[i] - fundMean) * (benchmarkExcess[i] - benchmarkMean);
+    variance += (benchmarkExcess[i] - benchmarkMean) ** 2;
+  }
+  const beta = variance > 0 ? covariance / variance : 0;
+  const rho = correlation(fund, benchmark);
+
+  const fundAnnualized = annualizedReturn(fund);
+  const benchmarkAnnualized = annualizedReturn(benchmark);
+  const trackingError = standardDeviation(fund.map((v, i) => v - benchmark[i])) * Math.sqrt(TRADING_DAYS_PER_YEAR);
+  const excessReturn = fundAnnualized - benchmarkAnnualized;
+  const pairs = aligned.map(a => [a.fund, a.benchmark] as [number, number]);
+
+  return {
+    observations: aligned.length,
+    startDate: aligned[0].date,
+    endDate: aligned[aligned.length - 1].date,
+    fundReturn: cumulative(fund),
+    benchmarkReturn: cumulative(benchmark),
+    fundAnnualizedReturn: fundAnnualized,
+    benchmarkAnnualizedReturn: benchmarkAnnualized,
+    excessReturn,
+    alpha: (fundMean - beta * benchmarkMean) * TRADING_DAYS_PER_YEAR,
+    beta,
+    rSquared: rho * rho,
+    correlation: rho,
+    trackingError,
+    informationRatio: trackingError > 0 ? excessReturn / trackingError : 0,
+    upCapture: captureRatio(pairs, true),
+    downCapture: captureRatio(pairs, false),
+  };
+}
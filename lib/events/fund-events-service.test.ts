@@ -0,0 +1,42 @@
+/**
+ * 分红送配页解析测试
+ *
+ * fixtures 下保存了两份分红送配页：110022 有一次份额折算和两次现金分红，005827 暂无分红和拆分
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { parseFundEvents } from './fund-events-service';
+
+async function loadEvents(fundCode: string) {
+  const html = await fs.readFile(path.join(process.cwd(), 'lib', 'events', 'fixtures', `fhsp_${fundCode}.html`), 'utf-8');
+  return parseFundEvents(html, fundCode);
+}
+
+test('parseFundEvents reads dividends and splits from fhsp_110022 in date order', async () => {
+  assert.deepEqual(await loadEvents('110022'), [
+    { type: 'split', fundCode: '110022', date: '2015-06-12', ratio: 1.0365, splitType: '份额折算' },
+    {
+      type: 'dividend',
+      fundCode: '110022',
+      recordDate: '2017-12-20',
+      exDate: '2017-12-20',
+      payDate: '2017-12-22',
+      cashPerShare: 0.08,
+    },
+    {
+      type: 'dividend',
+      fundCode: '110022',
+      recordDate: '2021-01-18',
+      exDate: '2021-01-18',
+      payDate: '2021-01-20',
+      cashPerShare: 0.05,
+    },
+  ]);
+});
+
+test('parseFundEvents skips the placeholder rows of fhsp_005827', async () => {
+  assert.deepEqual(await loadEvents('005827'), []);
+});
@@ -0,0 +1,185 @@
+/**
+ * 基金分红与拆分事件服务
+ *
+ * 解析天天基金 F10 分红送配页 https://fundf10.eastmoney.com/fhsp_{基金代码}.html，
+ * 并结合历史净值服务补全除息日净值、计算复权净值、为台账生成分红与拆分流水
+ */
+
+import * as cheerio from 'cheerio';
+import { isFixtureMode, readFixture } from '../fixtures';
+import { getNavHistory, NavHistoryQuery, NavRecord } from '../nav/nav-history-service';
+import { LedgerTransaction } from '../portfolio/ledger';
+import {
+  adjustNavSeries,
+  AdjustedNavPoint,
+  buildEventTransactions,
+  DividendEvent,
+  DividendMethod,
+  eventDate,
+  EventTransactionsResult,
+  eventsFromNavRecords,
+  FundEvent,
+  parseDividendText,
+  SplitEvent,
+} from './fund-events';
+
+// 分红送配很少变化，缓存 1 天
+const eventsCache = new Map<string, { data: FundEvent[]; timestamp: number }>();
+const CACHE_TTL = 24 * 60 * 60 * 1000;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * 按标题查找表格行（跳过「暂无分红信息」等占位行）
+ */
+function tableRows($: cheerio.CheerioAPI, title: string): string[][] {
+  const heading = $('h4').filter((_, el) => $(el).text().trim().startsWith(title)).first();
+  if (heading.length === 0) return [];
+
+  return heading.closest('.boxitem').find('table tbody tr')
+    .map((_, row) => [$(row).find('td').map((_, td) => $(td).text().trim()).get()])
+    .get()
+    .filter((cells: string[]) => cells.length > 1);
+}
+
+/**
+ * 解析分红送配页 HTML
+ *
+ * @param html - 分红送配页原文
+ * @param fundCode - 基金代码
+ * @returns 按日期升序的事件
+ */
+export function parseFundEvents(html: string, fundCode: string): FundEvent[] {
+  const $ = cheerio.load(html);
+  const events: FundEvent[] = [];
+
+  // 年份 | 权益登记日 | 除息日 | 每份分红 | 分红发放日
+  tableRows($, '分红送配详情').forEach(cells => {
+    const { cashPerShare } = parseDividendText(cells[3] || '');
+    if (!cashPerShare || !DATE_PATTERN.test(cells[2])) return;
+
+    const dividend: DividendEvent = {
+      type: 'dividend',
+      fundCode,
+      recordDate: DATE_PATTERN.test(cells[1]) ? cells[1] : cells[2],
+      exDate: cells[2],
+      payDate: DATE_PATTERN.test(cells[4] || '') ? cells[4] : null,
+      cashPerShare,
+    };
+    events.push(dividend);
+  });
+
+  // 年份 | 拆分折算日 | 拆分类型 | 拆分折算比例
+  tableRows($, '拆分详情').forEach(cells => {
+    const { ratio } = parseDividendText(cells[3] || '');
+    if (!ratio || !DATE_PATTERN.test(cells[1])) return;
+
+    const split: SplitEvent = { type: 'split', fundCode, date: cells[1], ratio, splitType: cells[2] || undefined };
+    events.push(split);
+  });
+
+  return events.sort((a, b) => eventDate(a).localeCompare(eventDate(b)));
+}
+
+/**
+ * 获取分红送配页原文
+ */
+async function fetchEventsPage(fundCode: string): Promise<string | null> {
+  if (isFixtureMode()) {
+    return readFixture('events', 'fixtures', `fhsp_${fundCode}.html`);
+  }
+
+  const response = await fetch(`https://fundf10.eastmoney.com/fhsp_${fundCode}.html`, {
+    headers: {
+      'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+      'Referer': 'https://fundf10.eastmoney.com/',
+    },
+    signal: AbortSignal.timeout(10000),
+  });
+
+  return response.ok ? response.text() : null;
+}
+
+/**
+ * 获取基金分红与拆分事件
+ *
+ * @param fundCode - 基金代码
+ * @param forceRefresh - 忽略缓存
+ */
+export async function getFundEvents(fundCode: string, forceRefresh: boolean = false): Promise<FundEvent[]> {
+  const cached = eventsCache.get(fundCode);
+  if (!forceRefresh && cached && Date.now() - cached.timestamp < CACHE_TTL) {
+    return cached.data;
+  }
+
+  const html = await fetchEventsPage(fundCode);
+  if (!html) {
+    throw new Error(`无法获取基金 ${fundCode} 的分红送配页`);
+  }
+
+  const events = parseFundEvents(html, fundCode);
+  eventsCache.set(fundCode, { data: events, timestamp: Date.now() });
+  return events;
+}
+
+/**
+ * 用历史净值补全分红事件的除息日净值
+ */
+function withExDateNav(events: FundEvent[], records: NavRecord[]): FundEvent[] {
+  return events.map(event => {
+    if (event.type !== 'dividend' || event.exDateNav) return event;
+    const record = records.find(r => r.date >= event.exDate);
+    return record ? { ...event, exDateNav: record.nav } : event;
+  });
+}
+
+/**
+ * 获取复权净值序列
+ *
+ * 分红送配页取不到时，使用净值表「分红送配」列中的事件
+ *
+ * @param fundCode - 基金代码
+ * @param query - 日期范围
+ */
+export async function getAdjustedNavHistory(
+  fundCode: string,
+  query: NavHistoryQuery = {}
+): Promise<{ records: (NavRecord & AdjustedNavPoint)[]; events: FundEvent[] }> {
+  const records = await getNavHistory(fundCode, query);
+  const events = await getFundEvents(fundCode).catch(error => {
+    console.warn(`获取基金 ${fundCode} 分红送配失败，改用净值表中的分红记录:`, error);
+    return eventsFromNavRecords(fundCode, records);
+  });
+
+  return { records: adjustNavSeries(records, events), events };
+}
+
+/**
+ * 为台账生成尚未记录的分红与拆分流水
+ *
+ * @param transactions - 现有流水
+ * @param dividendMethods - 各基金的分红方式，缺省为现金分红
+ */
+export async function generateEventTransactions(
+  transactions: LedgerTransaction[],
+  dividendMethods: Record<string, DividendMethod> = {}
+): Promise<EventTransactionsResult> {
+  const codes = Array.from(new Set(transactions.map(t => t.fundCode)));
+  const firstDates = new Map<string, string>();
+  transactions.forEach(t => {
+    const current = firstDates.get(t.fundCode);
+    if (!current || t.date < current) firstDates.set(t.fundCode, t.date);
+  });
+
+  const perFund = await Promise.all(codes.map(async code => {
+    const events = (await getFundEvents(code)).filter(e => eventDate(e) >= firstDates.get(code)!);
+    if (events.length === 0) return [];
+
+    // 红利再投资需要除息日净值
+    const needsNav = dividendMethods[code] === 'reinvest' && events.some(e => e.type === 'dividend' && !e.exDateNav);
+    const records = needsNav ? await getNavHistory(code, { from: firstDates.get(code) }) : [];
+    return withExDateNav(events, records);
+  }));
+
+  return buildEventTransactions(transactions, perFund.flat(), dividendMethods);
+}
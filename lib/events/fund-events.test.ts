@@ -0,0 +1,112 @@
+/**
+ * 复权净值与事件流水测试
+ *
+ * 使用 fixtures/fhsp_110022.html 解析出的事件：2015-06-12 份额折算 1:1.0365，
+ * 2017-12-20 每份派现金 0.08 元，2021-01-18 每份派现金 0.05 元
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createTransaction, LedgerTransaction } from '../portfolio/ledger';
+import { adjustNavSeries, buildEventTransactions, FundEvent } from './fund-events';
+import { parseFundEvents } from './fund-events-service';
+
+const FUND_CODE = '110022';
+
+async function loadEvents(): Promise<FundEvent[]> {
+  const html = await fs.readFile(path.join(process.cwd(), 'lib', 'events', 'fixtures', `fhsp_${FUND_CODE}.html`), 'utf-8');
+  return parseFundEvents(html, FUND_CODE);
+}
+
+function assertClose(actual: number, expected: number, message?: string) {
+  assert.ok(Math.abs(actual - expected) < 1e-6, `${message || ''} ${actual} 与 ${expected} 相差过大`);
+}
+
+const BUY: LedgerTransaction = createTransaction({
+  fundCode: FUND_CODE,
+  type: 'buy',
+  date: '2015-01-05',
+  shares: 1000,
+  amount: 1500,
+  nav: 1.5,
+});
+
+test('adjustNavSeries compounds the split ratio and ex-dividend reinvestment', async () => {
+  const events = await loadEvents();
+  const adjusted = adjustNavSeries([
+    { date: '2015-06-11', nav: 1.5 },
+    { date: '2015-06-12', nav: 1.45 },
+    { date: '2017-12-19', nav: 2.0 },
+    { date: '2017-12-20', nav: 1.92 },
+    { date: '2021-01-15', nav: 4.0 },
+    { date: '2021-01-18', nav: 3.95 },
+  ], events);
+
+  const splitFactor = 1.0365;
+  const firstDividend = splitFactor * (1 + 0.08 / 1.92);
+  const secondDividend = firstDividend * (1 + 0.05 / 3.95);
+
+  assert.deepEqual(adjusted.map(p => p.factor), [1, splitFactor, splitFactor, 1.0796875, 1.0796875, 1.09335443]);
+  assertClose(adjusted[1].adjustedNav, 1.45 * splitFactor, '拆分日');
+  assertClose(adjusted[3].adjustedNav, Math.round(1.92 * firstDividend * 1e6) / 1e6, '第一次除息日');
+  assertClose(adjusted[5].adjustedNav, Math.round(3.95 * secondDividend * 1e6) / 1e6, '第二次除息日');
+  // 单位净值因分红下跳，复权净值不应下跳
+  assert.ok(adjusted[3].adjustedNav > adjusted[2].adjustedNav * 0.999);
+});
+
+test('adjustNavSeries applies events on non-trading days to the next record and ignores earlier events', async () => {
+  const events = await loadEvents();
+  const adjusted = adjustNavSeries([
+    { date: '2017-12-18', nav: 2.0 },
+    { date: '2017-12-21', nav: 1.9 },
+  ], events);
+
+  // 2015 年的折算在序列开始之前，不影响复权
+  assert.equal(adjusted[0].factor, 1);
+  assertClose(adjusted[1].factor, Math.round((1 + 0.08 / 1.9) * 1e8) / 1e8);
+});
+
+test('buildEventTransactions records the split and cash dividends on the held shares', async () => {
+  const events = await loadEvents();
+  const { transactions, skipped } = buildEventTransactions([BUY], events);
+
+  assert.deepEqual(skipped, []);
+  assert.deepEqual(
+    transactions.map(t => ({ id: t.id, type: t.type, date: t.date, amount: t.amount, ratio: t.ratio, note: t.note })),
+    [
+      { id: 'evt-110022-split-2015-06-12', type: 'split', date: '2015-06-12', amount: 0, ratio: 1.0365, note: '份额折算 1:1.0365' },
+      // 折算后持有 1036.5 份
+      { id: 'evt-110022-dividend-2017-12-20', type: 'dividend', date: '2017-12-20', amount: 82.92, ratio: undefined, note: '每份派现金0.08元，2017-12-22 发放' },
+      { id: 'evt-110022-dividend-2021-01-18', type: 'dividend', date: '2021-01-18', amount: 51.83, ratio: undefined, note: '每份派现金0.05元，2021-01-20 发放' },
+    ]
+  );
+
+  // 已导入的事件不会重复生成
+  const again = buildEventTransactions([BUY, ...transactions], events);
+  assert.deepEqual(again.transactions, []);
+});
+
+test('buildEventTransactions reinvests dividends at the ex-date NAV and compounds the new shares', async () => {
+  const events = (await loadEvents()).map(e => (e.type === 'dividend'
+    ? { ...e, exDateNav: e.exDate === '2017-12-20' ? 1.92 : 3.95 }
+    : e));
+  const { transactions } = buildEventTransactions([BUY], events, { [FUND_CODE]: 'reinvest' });
+
+  const reinvests = transactions.filter(t => t.type === 'reinvest');
+  assert.equal(reinvests.length, 2);
+
+  // 1036.5 份 × 0.08 = 82.92 元，按 1.92 折算 43.19 份
+  assert.deepEqual({ amount: reinvests[0].amount, shares: reinvests[0].shares, nav: reinvests[0].nav }, { amount: 82.92, shares: 43.19, nav: 1.92 });
+  // 再投资份额参与下一次分红: (1036.5 + 43.19) × 0.05 = 53.98 元
+  assert.deepEqual({ amount: reinvests[1].amount, shares: reinvests[1].shares, nav: reinvests[1].nav }, { amount: 53.98, shares: 13.67, nav: 3.95 });
+});
+
+test('buildEventTransactions skips reinvestment without an ex-date NAV', async () => {
+  const events = await loadEvents();
+  const { transactions, skipped } = buildEventTransactions([BUY], events, { [FUND_CODE]: 'reinvest' });
+
+  assert.deepEqual(transactions.map(t => t.type), ['split']);
+  assert.equal(skipped.length, 2);
+});
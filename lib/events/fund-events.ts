@@ -0,0 +1,269 @@
+/**
+ * 基金分红与拆分事件
+ *
+ * 单位净值在除息日、拆分折算日会下跳，直接用单位净值计算收益会把分红误算为亏损，
+ * 这里把事件转换为:
+ * - 复权净值（后复权）：分红按除息日净值再投资、拆分按比例折算，复权净值的涨跌即真实收益
+ * - 台账流水：按用户的分红方式，为持有的份额生成现金分红、红利再投资或份额折算记录
+ *
+ * 本模块只包含纯计算，浏览器端和服务端共用
+ */
+
+import {
+  buildPosition,
+  createTransaction,
+  LedgerTransaction,
+} from '../portfolio/ledger';
+
+/**
+ * 现金分红
+ */
+export interface DividendEvent {
+  type: 'dividend';
+  fundCode: string;
+  recordDate: string;        // 权益登记日，当日持有的份额参与分红
+  exDate: string;            // 除息日
+  payDate: string | null;    // 分红发放日
+  cashPerShare: number;      // 每份派现金（元）
+  exDateNav?: number;        // 除息日单位净值，红利再投资按此净值折算份额
+}
+
+/**
+ * 份额拆分/折算
+ */
+export interface SplitEvent {
+  type: 'split';
+  fundCode: string;
+  date: string;              // 拆分折算日
+  ratio: number;             // 折算后份额 = 折算前份额 × ratio
+  splitType?: string;        // 拆分类型，如 份额分拆、份额折算
+}
+
+export type FundEvent = DividendEvent | SplitEvent;
+
+/**
+ * 分红方式：现金分红或红利再投资
+ */
+export type DividendMethod = 'cash' | 'reinvest';
+
+export const DIVIDEND_METHOD_LABELS: Record<DividendMethod, string> = {
+  cash: '现金分红',
+  reinvest: '红利再投资',
+};
+
+/**
+ * 带复权净值的净值记录
+ */
+export interface AdjustedNavPoint {
+  date: string;
+  nav: number;
+  adjustedNav: number;       // 后复权净值
+  factor: number;            // 复权因子 = 复权净值 / 单位净值
+}
+
+/**
+ * 由事件生成的台账流水
+ */
+export interface EventTransactionsResult {
+  transactions: LedgerTransaction[];
+  skipped: { event: FundEvent; reason: string }[];
+}
+
+function round(value: number, digits: number = 2): number {
+  return Math.round(value * 10 ** digits) / 10 ** digits;
+}
+
+/**
+ * 事件发生日（分红为除息日）
+ */
+export function eventDate(event: FundEvent): string {
+  return event.type === 'dividend' ? event.exDate : event.date;
+}
+
+/**
+ * 解析分红送配描述，如 "每份派现金0.0500元"、"每份基金份额折算1.0234份"、"1:2.0000"
+ */
+export function parseDividendText(text: string): { cashPerShare?: number; ratio?: number } {
+  if (!text) return {};
+
+  const cash = text.match(/派现金\s*(\d+(?:\.\d+)?)\s*元/);
+  if (cash) return { cashPerShare: parseFloat(cash[1]) };
+
+  const split = text.match(/(?:折算|分拆|拆分)\s*(\d+(?:\.\d+)?)\s*份/) || text.match(/^\s*1\s*:\s*(\d+(?:\.\d+)?)\s*$/);
+  if (split) return { ratio: parseFloat(split[1]) };
+
+  return {};
+}
+
+/**
+ * 从净值记录的「分红送配」列提取事件（无法获取分红页时的兜底）
+ *
+ * 净值表只给出除息日，权益登记日按除息日处理
+ */
+export function eventsFromNavRecords(
+  fundCode: string,
+  records: { date: string; nav: number; dividend?: string }[]
+): FundEvent[] {
+  const events: FundEvent[] = [];
+
+  records.forEach(record => {
+    const parsed = parseDividendText(record.dividend || '');
+    if (parsed.cashPerShare) {
+      events.push({
+        type: 'dividend',
+        fundCode,
+        recordDate: record.date,
+        exDate: record.date,
+        payDate: null,
+        cashPerShare: parsed.cashPerShare,
+        exDateNav: record.nav,
+      });
+    } else if (parsed.ratio) {
+      events.push({ type: 'split', fundCode, date: record.date, ratio: parsed.ratio });
+    }
+  });
+
+  return events;
+}
+
+/**
+ * 计算后复权净值
+ *
+ * 分红：复权因子 × (1 + 每份分红 / 除息日净值)；拆分：复权因子 × 折算比例
+ * 事件日不是交易日时作用于之后第一个净值日
+ *
+ * @param records - 按日期升序的净值记录（保留原有字段）
+ * @param events - 该基金的分红与拆分事件
+ */
+export function adjustNavSeries<T extends { date: string; nav: number }>(
+  records: T[],
+  events: FundEvent[]
+): (T & AdjustedNavPoint)[] {
+  const pending = [...events].sort((a, b) => eventDate(a).localeCompare(eventDate(b)));
+  let factor = 1;
+  let cursor = 0;
+
+  // 序列开始之前的事件不影响复权（从序列第一天起复权）
+  while (cursor < pending.length && records.length > 0 && eventDate(pending[cursor]) <= records[0].date) {
+    cursor++;
+  }
+
+  return records.map((record, i) => {
+    if (i > 0) {
+      while (cursor < pending.length && eventDate(pending[cursor]) <= record.date) {
+        const event = pending[cursor++];
+        if (event.type === 'dividend') {
+          if (record.nav > 0) factor *= 1 + event.cashPerShare / record.nav;
+        } else {
+          factor *= event.ratio;
+        }
+      }
+    }
+
+    return {
+      ...record,
+      adjustedNav: round(record.nav * factor, 6),
+      factor: round(factor, 8),
+    };
+  });
+}
+
+/**
+ * 事件流水的固定 ID，重复导入时据此去重
+ */
+function eventTransactionId(event: FundEvent): string {
+  return `evt-${event.fundCode}-${event.type}-${eventDate(event)}`;
+}
+
+/**
+ * 台账中是否已有该事件（自动导入或用户手工录入）
+ */
+function isRecorded(transactions: LedgerTransaction[], event: FundEvent): boolean {
+  const id = eventTransactionId(event);
+  return transactions.some(tx => {
+    if (tx.id === id) return true;
+    if (tx.fundCode !== event.fundCode) return false;
+    if (event.type === 'split') return tx.type === 'split' && tx.date === event.date;
+    return (tx.type === 'dividend' || tx.type === 'reinvest')
+      && (tx.date === event.exDate || tx.date === event.payDate || tx.date === event.recordDate);
+  });
+}
+
+/**
+ * 把分红与拆分事件应用到台账，生成尚未记录的流水
+ *
+ * 按事件日期顺序处理，前一次红利再投资、拆分得到的份额参与之后的分红
+ * 分红份额以权益登记日的持有份额为准，拆分以拆分折算日的持有份额为准
+ *
+ * @param transactions - 现有流水
+ * @param events - 各基金的事件
+ * @param dividendMethods - 各基金的分红方式，缺省为现金分红
+ */
+export function buildEventTransactions(
+  transactions: LedgerTransaction[],
+  events: FundEvent[],
+  dividendMethods: Record<string, DividendMethod> = {}
+): EventTransactionsResult {
+  const codes = new Set(transactions.map(t => t.fundCode));
+  const generated: LedgerTransaction[] = [];
+  const skipped: EventTransactionsResult['skipped'] = [];
+  const fundNames = new Map(transactions.filter(t => t.fundName).map(t => [t.fundCode, t.fundName]));
+
+  const ordered = events
+    .filter(e => codes.has(e.fundCode))
+    .sort((a, b) => eventDate(a).localeCompare(eventDate(b)));
+
+  for (const event of ordered) {
+    const all = [...transactions, ...generated];
+    if (isRecorded(all, event)) continue;
+
+    const asOf = event.type === 'dividend' ? event.recordDate : event.date;
+    const held = buildPosition(event.fundCode, all, asOf).shares;
+    if (held <= 0) continue;
+
+    const base = { fundCode: event.fundCode, fundName: fundNames.get(event.fundCode) };
+    let tx: LedgerTransaction;
+
+    if (event.type === 'split') {
+      tx = createTransaction({
+        ...base,
+        type: 'split',
+        date: event.date,
+        ratio: event.ratio,
+        note: `${event.splitType || '份额折算'} 1:${event.ratio}`,
+      });
+    } else {
+      const amount = round(held * event.cashPerShare);
+      if (amount <= 0) continue;
+
+      const note = `每份派现金${event.cashPerShare}元`;
+      if ((dividendMethods[event.fundCode] || 'cash') === 'reinvest') {
+        if (!event.exDateNav) {
+          skipped.push({ event, reason: '缺少除息日净值，无法折算再投资份额' });
+          continue;
+        }
+        tx = createTransaction({
+          ...base,
+          type: 'reinvest',
+          date: event.exDate,
+          shares: round(amount / event.exDateNav),
+          amount,
+          nav: event.exDateNav,
+          note,
+        });
+      } else {
+        tx = createTransaction({
+          ...base,
+          type: 'dividend',
+          date: event.exDate,
+          amount,
+          note: event.payDate ? `${note}，${event.payDate} 发放` : note,
+        });
+      }
+    }
+
+    generated.push({ ...tx, id: eventTransactionId(event) });
+  }
+
+  return { transactions: generated, skipped };
+}
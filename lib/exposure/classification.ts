@@ -0,0 +1,145 @@
+/**
+ * 股票分类表
+ *
+ * 基金重仓股常见个股的申万一级行业（2021 版）以及规模、风格分组，用于持仓穿透分析
+ * 规模按总市值划分：大盘 ≥ 500 亿、中盘 100~500 亿、小盘 < 100 亿
+ * 风格按市盈率、市净率相对全市场的分位划分：价值（低估值、高股息）、成长（高估值、高增速）、平衡
+ * 表中未收录的股票在分析结果中列为「未分类」
+ */
+
+export type SizeBucket = 'large' | 'mid' | 'small';
+export type StyleBucket = 'value' | 'blend' | 'growth';
+
+/**
+ * 股票分类
+ */
+export interface StockClassification {
+  code: string;
+  name: string;
+  industry: string;       // 申万一级行业
+  size: SizeBucket;
+  style: StyleBucket;
+}
+
+/**
+ * 申万一级行业（2021 版，31 个）
+ */
+export const SW_INDUSTRIES = [
+  '农林牧渔', '基础化工', '钢铁', '有色金属', '电子', '汽车', '家用电器', '食品饮料',
+  '纺织服饰', '轻工制造', '医药生物', '公用事业', '交通运输', '房地产', '商贸零售', '社会服务',
+  '银行', '非银金融', '综合', '建筑材料', '建筑装饰', '电力设备', '机械设备', '国防军工',
+  '计算机', '传媒', '通信', '煤炭', '石油石化', '环保', '美容护理',
+] as const;
+
+export const SIZE_LABELS: Record<SizeBucket, string> = {
+  large: '大盘',
+  mid: '中盘',
+  small: '小盘',
+};
+
+export const STYLE_LABELS: Record<StyleBucket, string> = {
+  value: '价值',
+  blend: '平衡',
+  growth: '成长',
+};
+
+// [代码, 名称, 申万一级行业, 规模, 风格]
+const TABLE: [string, string, string, SizeBucket, StyleBucket][] = [
+  // 食品饮料
+  ['600519', '贵州茅台', '食品饮料', 'large', 'blend'],
+  ['000858', '五粮液', '食品饮料', 'large', 'value'],
+  ['600809', '山西汾酒', '食品饮料', 'large', 'growth'],
+  ['000568', '泸州老窖', '食品饮料', 'large', 'blend'],
+  ['000596', '古井贡酒', '食品饮料', 'mid', 'blend'],
+  ['002304', '洋河股份', '食品饮料', 'large', 'value'],
+  ['603369', '今世缘', '食品饮料', 'mid', 'blend'],
+  ['600779', '水井坊', '食品饮料', 'mid', 'blend'],
+  ['000799', '酒鬼酒', '食品饮料', 'small', 'growth'],
+  ['600887', '伊利股份', '食品饮料', 'large', 'value'],
+  ['600600', '青岛啤酒', '食品饮料', 'mid', 'blend'],
+  ['600132', '重庆啤酒', '食品饮料', 'mid', 'blend'],
+  ['603288', '海天味业', '食品饮料', 'large', 'growth'],
+  ['000895', '双汇发展', '食品饮料', 'large', 'value'],
+  ['300999', '金龙鱼', '食品饮料', 'large', 'growth'],
+  ['002507', '涪陵榨菜', '食品饮料', 'small', 'blend'],
+  // 家用电器
+  ['000333', '美的集团', '家用电器', 'large', 'value'],
+  ['000651', '格力电器', '家用电器', 'large', 'value'],
+  ['600690', '海尔智家', '家用电器', 'large', 'value'],
+  // 金融
+  ['600036', '招商银行', '银行', 'large', 'value'],
+  ['601398', '工商银行', '银行', 'large', 'value'],
+  ['601166', '兴业银行', '银行', 'large', 'value'],
+  ['000001', '平安银行', '银行', 'large', 'value'],
+  ['601318', '中国平安', '非银金融', 'large', 'value'],
+  ['601601', '中国太保', '非银金融', 'large', 'value'],
+  ['600030', '中信证券', '非银金融', 'large', 'blend'],
+  ['300059', '东方财富', '非银金融', 'large', 'growth'],
+  // 公用事业、能源
+  ['600900', '长江电力', '公用事业', 'large', 'value'],
+  ['601088', '中国神华', '煤炭', 'large', 'value'],
+  ['600028', '中国石化', '石油石化', 'large', 'value'],
+  ['601857', '中国石油', '石油石化', 'large', 'value'],
+  // 电力设备、汽车
+  ['300750', '宁德时代', '电力设备', 'large', 'growth'],
+  ['601012', '隆基绿能', '电力设备', 'large', 'growth'],
+  ['300274', '阳光电源', '电力设备', 'large', 'growth'],
+  ['600438', '通威股份', '电力设备', 'large', 'blend'],
+  ['002594', '比亚迪', '汽车', 'large', 'growth'],
+  ['601633', '长城汽车', '汽车', 'large', 'blend'],
+  // 医药生物
+  ['600276', '恒瑞医药', '医药生物', 'large', 'growth'],
+  ['300760', '迈瑞医疗', '医药生物', 'large', 'growth'],
+  ['603259', '药明康德', '医药生物', 'large', 'growth'],
+  ['300015', '爱尔眼科', '医药生物', 'large', 'growth'],
+  ['300122', '智飞生物', '医药生物', 'mid', 'growth'],
+  ['000538', '云南白药', '医药生物', 'mid', 'blend'],
+  ['603605', '珀莱雅', '美容护理', 'mid', 'growth'],
+  // 科技
+  ['002475', '立讯精密', '电子', 'large', 'growth'],
+  ['603501', '韦尔股份', '电子', 'large', 'growth'],
+  ['002371', '北方华创', '电子', 'large', 'growth'],
+  ['688981', '中芯国际', '电子', 'large', 'growth'],
+  ['601138', '工业富联', '电子', 'large', 'blend'],
+  ['000725', '京东方A', '电子', 'large', 'value'],
+  ['000100', 'TCL科技', '电子', 'large', 'value'],
+  ['002415', '海康威视', '计算机', 'large', 'blend'],
+  ['002230', '科大讯飞', '计算机', 'large', 'growth'],
+  ['688111', '金山办公', '计算机', 'large', 'growth'],
+  ['600588', '用友网络', '计算机', 'mid', 'growth'],
+  ['000063', '中兴通讯', '通信', 'large', 'blend'],
+  ['600941', '中国移动', '通信', 'large', 'value'],
+  ['600050', '中国联通', '通信', 'large', 'value'],
+  ['300413', '芒果超媒', '传媒', 'mid', 'growth'],
+  // 周期、制造
+  ['601899', '紫金矿业', '有色金属', 'large', 'blend'],
+  ['603993', '洛阳钼业', '有色金属', 'large', 'blend'],
+  ['002460', '赣锋锂业', '有色金属', 'mid', 'growth'],
+  ['600309', '万华化学', '基础化工', 'large', 'value'],
+  ['600031', '三一重工', '机械设备', 'large', 'blend'],
+  ['300124', '汇川技术', '机械设备', 'large', 'growth'],
+  ['600760', '中航沈飞', '国防军工', 'mid', 'growth'],
+  ['600585', '海螺水泥', '建筑材料', 'large', 'value'],
+  ['601668', '中国建筑', '建筑装饰', 'large', 'value'],
+  ['600048', '保利发展', '房地产', 'large', 'value'],
+  ['000002', '万科A', '房地产', 'large', 'value'],
+  ['601919', '中远海控', '交通运输', 'large', 'value'],
+  ['002352', '顺丰控股', '交通运输', 'large', 'blend'],
+  ['601888', '中国中免', '商贸零售', 'large', 'growth'],
+  ['002714', '牧原股份', '农林牧渔', 'large', 'blend'],
+  ['300498', '温氏股份', '农林牧渔', 'large', 'blend'],
+];
+
+const CLASSIFICATIONS = new Map<string, StockClassification>(
+  TABLE.map(([code, name, industry, size, style]) => [code, { code, name, industry, size, style }])
+);
+
+/**
+ * 查询股票分类，表中未收录时返回 null
+ *
+ * @param stockCode - 6 位股票代码，允许带 sh/sz 前缀
+ */
+export function classifyStock(stockCode: string): StockClassification | null {
+  const code = stockCode.trim().replace(/^(sh|sz|bj)\.?/i, '');
+  return CLASSIFICATIONS.get(code) || null;
+}
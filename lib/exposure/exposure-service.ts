@@ -0,0 +1,93 @@
+/**
+ * 持仓穿透服务
+ *
+ * 读取基金最新一期重仓股，计算行业分布、风格箱、用户组合的合并暴露以及基金间的持仓重叠
+ */
+
+import { FundHolding, getFundHoldings } from '../valuation/holdings-parser';
+import { combineExposures, computeFundExposure, FundExposure, PortfolioExposure } from './exposure';
+import { analyzeOverlap, DEFAULT_STOCK_THRESHOLD, OverlapReport } from './overlap';
+
+const BATCH_SIZE = 5;
+
+/**
+ * 分批获取多只基金的最新重仓股，单只失败时为 null
+ */
+async function getLatestHoldingsBatch(fundCodes: string[]): Promise<(FundHolding[] | null)[]> {
+  const results: (FundHolding[] | null)[] = [];
+
+  for (let i = 0; i < fundCodes.length; i += BATCH_SIZE) {
+    const batch = fundCodes.slice(i, i + BATCH_SIZE);
+    const settled = await Promise.allSettled(batch.map(code => getFundHoldings(code)));
+    settled.forEach((item, idx) => {
+      if (item.status === 'rejected') {
+        console.warn(`获取基金 ${batch[idx]} 持仓失败:`, item.reason);
+      }
+      // reports 按日期倒序，第一期为最新
+      const latest = item.status === 'fulfilled' && item.value.success ? item.value.reports[0] : undefined;
+      results.push(latest && latest.holdings.length > 0 ? latest.holdings : null);
+    });
+  }
+
+  return results;
+}
+
+/**
+ * 获取单只基金最新报告期的持仓暴露
+ *
+ * @returns 没有股票持仓数据时返回 null
+ */
+export async function getFundExposure(fundCode: string): Promise<FundExposure | null> {
+  const result = await getFundHoldings(fundCode);
+  if (!result.success || result.reports.length === 0) {
+    return null;
+  }
+
+  // reports 按日期倒序，第一期为最新
+  const latest = result.reports[0];
+  return latest.holdings.length > 0 ? computeFundExposure(fundCode, latest) : null;
+}
+
+/**
+ * 计算组合的穿透暴露
+ *
+ * @param holdings - 组合中的基金及权重（持有市值或比例均可，内部归一）
+ */
+export async function getPortfolioExposure(
+  holdings: { code: string; weight: number }[]
+): Promise<{ exposure: PortfolioExposure; funds: FundExposure[] }> {
+  const exposures: (FundExposure | null)[] = [];
+
+  for (let i = 0; i < holdings.length; i += BATCH_SIZE) {
+    const batch = holdings.slice(i, i + BATCH_SIZE);
+    const settled = await Promise.allSettled(batch.map(h => getFundExposure(h.code)));
+    settled.forEach((item, idx) => {
+      if (item.status === 'rejected') {
+        console.warn(`获取基金 ${batch[idx].code} 持仓暴露失败:`, item.reason);
+      }
+      exposures.push(item.status === 'fulfilled' ? item.value : null);
+    });
+  }
+
+  return {
+    exposure: combineExposures(holdings.map((h, i) => ({ fundCode: h.code, weight: h.weight, exposure: exposures[i] }))),
+    funds: exposures.filter((e): e is FundExposure => e !== null),
+  };
+}
+
+/**
+ * 分析组合内基金的持仓重叠
+ *
+ * @param holdings - 组合中的基金及权重（持有市值或比例均可，内部归一）
+ * @param threshold - 个股穿透权重预警阈值 (%)
+ */
+export async function getPortfolioOverlap(
+  holdings: { code: string; weight: number }[],
+  threshold: number = DEFAULT_STOCK_THRESHOLD
+): Promise<OverlapReport> {
+  const latest = await getLatestHoldingsBatch(holdings.map(h => h.code));
+  return analyzeOverlap(
+    holdings.map((h, i) => ({ fundCode: h.code, weight: h.weight, holdings: latest[i] })),
+    threshold
+  );
+}
@@ -0,0 +1,202 @@
+/**
+ * 持仓穿透：行业分布与投资风格箱
+ *
+ * 按股票分类表把基金披露的重仓股归入申万一级行业和规模、风格分组:
+ * - 行业权重：各行业重仓股占基金净值比例之和
+ * - 风格箱：按重仓股占比加权的规模得分（大盘 1 / 中盘 0 / 小盘 -1）和风格得分（成长 1 / 平衡 0 / 价值 -1），
+ *   得分绝对值不小于 1/3 时归入对应的大盘/小盘、成长/价值格子，否则为中盘/平衡
+ * - 组合穿透：按各基金在组合中的权重合并行业权重和风格得分
+ *
+ * 季报只披露前十大重仓股，结果反映的是披露部分的暴露；本模块只包含纯计算，浏览器端和服务端共用
+ */
+
+import type { FundHolding, HoldingsReport } from '../valuation/holdings-parser';
+import {
+  classifyStock,
+  SIZE_LABELS,
+  SizeBucket,
+  STYLE_LABELS,
+  StyleBucket,
+} from './classification';
+
+/**
+ * 行业权重
+ */
+export interface SectorWeight {
+  industry: string;
+  weight: number;          // 占基金（组合）净值比例 (%)
+  stocks: string[];        // 该行业的股票名称
+}
+
+/**
+ * 投资风格箱
+ */
+export interface StyleBox {
+  size: SizeBucket;
+  style: StyleBucket;
+  label: string;           // 如 大盘成长
+  sizeScore: number;       // -1（小盘）~ 1（大盘）
+  styleScore: number;      // -1（价值）~ 1（成长）
+  grid: number[][];        // 3×3 权重分布 (%)，行依次为大/中/小盘，列依次为价值/平衡/成长
+}
+
+/**
+ * 单只基金的持仓暴露
+ */
+export interface FundExposure {
+  fundCode: string;
+  reportDate: string;
+  disclosedRatio: number;      // 披露的重仓股合计占净值比例 (%)
+  classifiedRatio: number;     // 其中可分类部分 (%)
+  sectors: SectorWeight[];     // 按权重降序
+  styleBox: StyleBox | null;   // 没有可分类持仓时为 null
+  unclassified: { stockCode: string; stockName: string; ratio: number }[];
+}
+
+/**
+ * 组合穿透暴露
+ */
+export interface PortfolioExposure {
+  funds: { fundCode: string; weight: number; reportDate: string | null }[];  // weight 为归一后的组合权重
+  sectors: SectorWeight[];     // 占组合净值比例 (%)
+  styleBox: StyleBox | null;
+  disclosedRatio: number;      // 组合净值中被重仓股覆盖的比例 (%)
+  classifiedRatio: number;
+  missing: string[];           // 缺少持仓数据的基金
+}
+
+const SIZE_ORDER: SizeBucket[] = ['large', 'mid', 'small'];
+const STYLE_ORDER: StyleBucket[] = ['value', 'blend', 'growth'];
+const SIZE_SCORES: Record<SizeBucket, number> = { large: 1, mid: 0, small: -1 };
+const STYLE_SCORES: Record<StyleBucket, number> = { value: -1, blend: 0, growth: 1 };
+const BUCKET_THRESHOLD = 1 / 3;
+
+function round(value: number, digits: number = 2): number {
+  return Math.round(value * 10 ** digits) / 10 ** digits;
+}
+
+function emptyGrid(): number[][] {
+  return SIZE_ORDER.map(() => STYLE_ORDER.map(() => 0));
+}
+
+/**
+ * 由 3×3 权重分布计算风格箱
+ */
+function styleBoxFromGrid(grid: number[][]): StyleBox | null {
+  let total = 0;
+  let sizeSum = 0;
+  let styleSum = 0;
+
+  grid.forEach((row, i) => row.forEach((weight, j) => {
+    total += weight;
+    sizeSum += weight * SIZE_SCORES[SIZE_ORDER[i]];
+    styleSum += weight * STYLE_SCORES[STYLE_ORDER[j]];
+  }));
+  if (total <= 0) return null;
+
+  const sizeScore = sizeSum / total;
+  const styleScore = styleSum / total;
+  const size: SizeBucket = sizeScore >= BUCKET_THRESHOLD ? 'large' : sizeScore <= -BUCKET_THRESHOLD ? 'small' : 'mid';
+  const style: StyleBucket = styleScore >= BUCKET_THRESHOLD ? 'growth' : styleScore <= -BUCKET_THRESHOLD ? 'value' : 'blend';
+
+  return {
+    size,
+    style,
+    label: `${SIZE_LABELS[size]}${STYLE_LABELS[style]}`,
+    sizeScore: round(sizeScore, 4),
+    styleScore: round(styleScore, 4),
+    grid: grid.map(row => row.map(w => round(w))),
+  };
+}
+
+function sortSectors(map: Map<string, SectorWeight>): SectorWeight[] {
+  return Array.from(map.values())
+    .map(s => ({ ...s, weight: round(s.weight) }))
+    .sort((a, b) => b.weight - a.weight);
+}
+
+/**
+ * 计算单只基金的行业分布和风格箱
+ *
+ * @param fundCode - 基金代码
+ * @param report - 一个报告期的持仓
+ */
+export function computeFundExposure(fundCode: string, report: HoldingsReport): FundExposure {
+  const sectors = new Map<string, SectorWeight>();
+  const grid = emptyGrid();
+  const unclassified: FundExposure['unclassified'] = [];
+  let classifiedRatio = 0;
+
+  report.holdings.forEach((holding: FundHolding) => {
+    const classification = classifyStock(holding.stockCode);
+    if (!classification) {
+      unclassified.push({ stockCode: holding.stockCode, stockName: holding.stockName, ratio: holding.ratio });
+      return;
+    }
+
+    classifiedRatio += holding.ratio;
+    const sector = sectors.get(classification.industry) || { industry: classification.industry, weight: 0, stocks: [] };
+    sector.weight += holding.ratio;
+    sector.stocks.push(holding.stockName);
+    sectors.set(classification.industry, sector);
+
+    grid[SIZE_ORDER.indexOf(classification.size)][STYLE_ORDER.indexOf(classification.style)] += holding.ratio;
+  });
+
+  return {
+    fundCode,
+    reportDate: report.reportDate,
+    disclosedRatio: round(report.totalRatio),
+    classifiedRatio: round(classifiedRatio),
+    sectors: sortSectors(sectors),
+    styleBox: styleBoxFromGrid(grid),
+    unclassified,
+  };
+}
+
+/**
+ * 按组合权重合并各基金的暴露
+ *
+ * 缺少持仓数据的基金（如债券基金、货币基金）仍占组合权重，只是不贡献行业和风格暴露
+ *
+ * @param entries - 各基金的暴露和组合权重（权重无需归一），缺少持仓数据的基金 exposure 为 null
+ */
+export function combineExposures(
+  entries: { fundCode: string; weight: number; exposure: FundExposure | null }[]
+): PortfolioExposure {
+  const totalWeight = entries.reduce((sum, e) => sum + Math.max(0, e.weight), 0);
+  const sectors = new Map<string, SectorWeight>();
+  const grid = emptyGrid();
+  let disclosedRatio = 0;
+  let classifiedRatio = 0;
+
+  entries.forEach(({ weight, exposure }) => {
+    if (!exposure || totalWeight <= 0 || weight <= 0) return;
+    const share = weight / totalWeight;
+
+    disclosedRatio += exposure.disclosedRatio * share;
+    classifiedRatio += exposure.classifiedRatio * share;
+    exposure.sectors.forEach(s => {
+      const sector = sectors.get(s.industry) || { industry: s.industry, weight: 0, stocks: [] };
+      sector.weight += s.weight * share;
+      s.stocks.forEach(name => {
+        if (!sector.stocks.includes(name)) sector.stocks.push(name);
+      });
+      sectors.set(s.industry, sector);
+    });
+    exposure.styleBox?.grid.forEach((row, i) => row.forEach((w, j) => { grid[i][j] += w * share; }));
+  });
+
+  return {
+    funds: entries.map(e => ({
+      fundCode: e.fundCode,
+      weight: totalWeight > 0 ? round(Math.max(0, e.weight) / totalWeight, 4) : 0,
+      reportDate: e.exposure?.reportDate || null,
+    })),
+    sectors: sortSectors(sectors),
+    styleBox: styleBoxFromGrid(grid),
+    disclosedRatio: round(disclosedRatio),
+    classifiedRatio: round(classifiedRatio),
+    missing: entries.filter(e => !e.exposure).map(e => e.fundCode),
+  };
+}
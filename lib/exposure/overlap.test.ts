@@ -0,0 +1,59 @@
+/**
+ * 持仓重叠分析测试
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { FundHolding } from '../valuation/holdings-parser';
+import { analyzeOverlap } from './overlap';
+
+function holdings(fundCode: string, ratios: Record<string, number>): FundHolding[] {
+  return Object.entries(ratios).map(([stockCode, ratio]) => ({
+    stockCode,
+    stockName: `股票${stockCode}`,
+    ratio,
+    reportDate: '2024-06-30',
+    fundCode,
+  }));
+}
+
+const FUND_A = holdings('110022', { '600519': 10, '000858': 8 });
+const FUND_B = holdings('005827', { '600519': 6, '000568': 9 });
+
+test('analyzeOverlap computes pairwise overlap and look-through weights', () => {
+  const report = analyzeOverlap([
+    { fundCode: '110022', weight: 3, holdings: FUND_A },
+    { fundCode: '005827', weight: 1, holdings: FUND_B },
+  ]);
+
+  assert.equal(report.pairs.length, 1);
+  assert.equal(report.pairs[0].overlap, 6);
+  assert.deepEqual(report.funds.map(f => f.weight), [0.75, 0.25]);
+  assert.equal(report.stocks[0].stockCode, '600519');
+  assert.equal(report.stocks[0].effectiveWeight, 9);
+  assert.deepEqual(report.warnings.map(w => w.stockCode), ['600519', '000858']);
+});
+
+test('analyzeOverlap merges duplicate fund codes instead of pairing a fund with itself', () => {
+  const report = analyzeOverlap([
+    { fundCode: '110022', weight: 1, holdings: FUND_A },
+    { fundCode: '005827', weight: 1, holdings: FUND_B },
+    { fundCode: '110022', weight: 2, holdings: FUND_A },
+  ]);
+
+  assert.deepEqual(report.funds.map(f => [f.fundCode, f.weight]), [['110022', 0.75], ['005827', 0.25]]);
+  assert.deepEqual(report.pairs.map(p => [p.fundA, p.fundB]), [['110022', '005827']]);
+  assert.deepEqual(report.stocks.find(s => s.stockCode === '600519')!.funds.map(f => f.fundCode), ['110022', '005827']);
+  assert.equal(report.stocks.find(s => s.stockCode === '600519')!.effectiveWeight, 9);
+});
+
+test('analyzeOverlap lists funds without holdings as missing', () => {
+  const report = analyzeOverlap([
+    { fundCode: '110022', weight: 1, holdings: FUND_A },
+    { fundCode: '005827', weight: 1, holdings: null },
+  ]);
+
+  assert.equal(report.pairs.length, 0);
+  assert.deepEqual(report.missing, ['005827']);
+  assert.equal(report.stocks[0].effectiveWeight, 5);
+});
@@ -0,0 +1,168 @@
+/**
+ * 持仓重叠分析
+ *
+ * 名称不同的几只基金可能重仓同一批股票，这里基于各基金披露的重仓股计算:
+ * - 两两重叠度：共同持有股票在两只基金中占净值比例的较小值之和 Σ min(wA, wB)
+ * - 个股穿透权重：某只股票在整个组合中的实际占比 Σ 基金组合权重 × 该股占基金净值比例
+ * - 集中度预警：个股穿透权重超过阈值时提示
+ *
+ * 本模块只包含纯计算，浏览器端和服务端共用
+ */
+
+import type { FundHolding } from '../valuation/holdings-parser';
+
+/**
+ * 两只基金的持仓重叠
+ */
+export interface FundOverlap {
+  fundA: string;
+  fundB: string;
+  overlap: number;          // 重叠度 (%)
+  commonStocks: { stockCode: string; stockName: string; ratioA: number; ratioB: number }[];
+}
+
+/**
+ * 个股在组合中的穿透权重
+ */
+export interface StockLookThrough {
+  stockCode: string;
+  stockName: string;
+  effectiveWeight: number;  // 占组合净值比例 (%)
+  funds: { fundCode: string; ratio: number }[];   // 持有该股的基金及占基金净值比例 (%)
+}
+
+/**
+ * 个股集中度预警
+ */
+export interface OverlapWarning {
+  stockCode: string;
+  stockName: string;
+  effectiveWeight: number;
+  fundCount: number;
+  message: string;
+}
+
+/**
+ * 重叠分析结果
+ */
+export interface OverlapReport {
+  funds: { fundCode: string; weight: number; reportDate: string | null }[];   // weight 为归一后的组合权重
+  pairs: FundOverlap[];            // 按重叠度降序
+  stocks: StockLookThrough[];      // 按穿透权重降序
+  warnings: OverlapWarning[];
+  threshold: number;               // 个股穿透权重预警阈值 (%)
+  missing: string[];               // 缺少持仓数据的基金
+}
+
+/**
+ * 参与分析的基金
+ */
+export interface OverlapInput {
+  fundCode: string;
+  weight: number;                  // 持有市值或比例，内部归一
+  holdings: FundHolding[] | null;  // 最新一期重仓股，缺少数据时为 null
+}
+
+// 个股穿透权重默认预警阈值 (%)
+export const DEFAULT_STOCK_THRESHOLD = 5;
+
+function round(value: number, digits: number = 2): number {
+  return Math.round(value * 10 ** digits) / 10 ** digits;
+}
+
+/**
+ * 计算两只基金的持仓重叠
+ */
+export function pairwiseOverlap(fundA: string, holdingsA: FundHolding[], fundB: string, holdingsB: FundHolding[]): FundOverlap {
+  const byCode = new Map(holdingsB.map(h => [h.stockCode, h]));
+  const commonStocks: FundOverlap['commonStocks'] = [];
+  let overlap = 0;
+
+  holdingsA.forEach(a => {
+    const b = byCode.get(a.stockCode);
+    if (!b) return;
+    overlap += Math.min(a.ratio, b.ratio);
+    commonStocks.push({ stockCode: a.stockCode, stockName: a.stockName, ratioA: a.ratio, ratioB: b.ratio });
+  });
+
+  commonStocks.sort((x, y) => Math.min(y.ratioA, y.ratioB) - Math.min(x.ratioA, x.ratioB));
+  return { fundA, fundB, overlap: round(overlap), commonStocks };
+}
+
+/**
+ * 合并重复的基金代码，权重相加，否则同一基金会与自身形成 100% 的重叠
+ */
+function mergeDuplicates(inputs: OverlapInput[]): OverlapInput[] {
+  const merged = new Map<string, OverlapInput>();
+  inputs.forEach(input => {
+    const existing = merged.get(input.fundCode);
+    if (existing) {
+      existing.weight += Math.max(0, input.weight);
+      existing.holdings = existing.holdings || input.holdings;
+    } else {
+      merged.set(input.fundCode, { ...input, weight: Math.max(0, input.weight) });
+    }
+  });
+  return Array.from(merged.values());
+}
+
+/**
+ * 分析组合内各基金的持仓重叠和个股穿透权重
+ *
+ * @param funds - 各基金的权重和重仓股，重复的基金代码合并计算
+ * @param threshold - 个股穿透权重预警阈值 (%)
+ */
+export function analyzeOverlap(funds: OverlapInput[], threshold: number = DEFAULT_STOCK_THRESHOLD): OverlapReport {
+  const inputs = mergeDuplicates(funds);
+  const totalWeight = inputs.reduce((sum, i) => sum + Math.max(0, i.weight), 0);
+  const share = (weight: number) => (totalWeight > 0 ? Math.max(0, weight) / totalWeight : 0);
+  const available = inputs.filter(i => i.holdings && i.holdings.length > 0);
+
+  const pairs: FundOverlap[] = [];
+  for (let i = 0; i < available.length; i++) {
+    for (let j = i + 1; j < available.length; j++) {
+      pairs.push(pairwiseOverlap(available[i].fundCode, available[i].holdings!, available[j].fundCode, available[j].holdings!));
+    }
+  }
+  pairs.sort((a, b) => b.overlap - a.overlap);
+
+  const stocks = new Map<string, StockLookThrough>();
+  available.forEach(input => {
+    const w = share(input.weight);
+    input.holdings!.forEach(h => {
+      const stock = stocks.get(h.stockCode) || { stockCode: h.stockCode, stockName: h.stockName, effectiveWeight: 0, funds: [] };
+      stock.effectiveWeight += w * h.ratio;
+      stock.funds.push({ fundCode: input.fundCode, ratio: h.ratio });
+      stocks.set(h.stockCode, stock);
+    });
+  });
+
+  const ranked = Array.from(stocks.values())
+    .map(s => ({ ...s, effectiveWeight: round(s.effectiveWeight) }))
+    .sort((a, b) => b.effectiveWeight - a.effectiveWeight);
+
+  const warnings: OverlapWarning[] = ranked
+    .filter(s => s.effectiveWeight >= threshold)
+    .map(s => ({
+      stockCode: s.stockCode,
+      stockName: s.stockName,
+      effectiveWeight: s.effectiveWeight,
+      fundCount: s.funds.length,
+      message: s.funds.length > 1
+        ? `${s.stockName} 通过 ${s.funds.length} 只基金合计占组合 ${s.effectiveWeight.toFixed(2)}%，超过 ${threshold}% 的预警线`
+        : `${s.stockName} 占组合 ${s.effectiveWeight.toFixed(2)}%，超过 ${threshold}% 的预警线`,
+    }));
+
+  return {
+    funds: inputs.map(i => ({
+      fundCode: i.fundCode,
+      weight: round(share(i.weight), 4),
+      reportDate: i.holdings?.[0]?.reportDate || null,
+    })),
+    pairs,
+    stocks: ranked,
+    warnings,
+    threshold,
+    missing: inputs.filter(i => !i.holdings || i.holdings.length === 0).map(i => i.fundCode),
+  };
+}
@@ -0,0 +1,129 @@
+/**
+ * 因子数据与因子暴露分析服务
+ *
+ * 因子收益来自用户导入的 CSV（如 Fama-French 中国市场因子、自建的 Barra 风格因子），
+ * 解析后保存到本地存储；也可以通过环境变量 FACTOR_DATA_FILE 指定 CSV 文件路径
+ */
+
+import { promises as fs } from 'fs';
+import { isFixtureMode, readFixture } from '../fixtures';
+import { DEFAULT_LOOKBACK_DAYS, getFundReturns } from '../risk/fund-returns';
+import { JsonFileStore } from '../storage/json-file-store';
+import {
+  FactorRegressionError,
+  FactorRegressionOptions,
+  FactorRegressionResult,
+  FactorReturns,
+  parseFactorCsv,
+  regressFactorExposures,
+} from './regression';
+
+/**
+ * 本地保存的因子数据
+ */
+export interface StoredFactorData {
+  source: string;          // 导入来源说明，如文件名
+  importedAt: number;
+  data: FactorReturns;
+}
+
+/**
+ * 因子数据概况
+ */
+export interface FactorDataSummary {
+  source: string;
+  factors: string[];
+  observations: number;
+  startDate: string | null;
+  endDate: string | null;
+  hasRiskFree: boolean;
+}
+
+const STORE_KEY = 'daily';
+
+const store = new JsonFileStore<StoredFactorData>(isFixtureMode() ? 'fixture-factors' : 'factors');
+
+/**
+ * 导入因子收益 CSV
+ *
+ * @param csv - CSV 文本
+ * @param source - 来源说明
+ * @throws FactorRegressionError CSV 格式错误
+ */
+export async function importFactorCsv(csv: string, source: string = 'upload'): Promise<FactorDataSummary> {
+  const data = parseFactorCsv(csv);
+  if (data.dates.length === 0) {
+    throw new FactorRegressionError('因子数据中没有有效的数据行');
+  }
+
+  await store.write(STORE_KEY, { source, importedAt: Date.now(), data });
+  return summarize(source, data);
+}
+
+/**
+ * 读取因子收益
+ *
+ * 优先使用导入的数据，其次是 FACTOR_DATA_FILE 指定的 CSV；离线样本模式下读取样本 CSV
+ *
+ * @returns 没有任何因子数据时返回 null
+ */
+export async function getFactorReturns(): Promise<{ source: string; data: FactorReturns } | null> {
+  if (isFixtureMode()) {
+    const csv = await readFixture('factors', 'fixtures', 'factors_daily.csv');
+    if (csv) return { source: 'fixture', data: parseFactorCsv(csv) };
+  }
+
+  const stored = await store.read(STORE_KEY);
+  if (stored) return { source: stored.source, data: stored.data };
+
+  const file = process.env.FACTOR_DATA_FILE;
+  if (file) {
+    const csv = await fs.readFile(file, 'utf-8');
+    return { source: file, data: parseFactorCsv(csv) };
+  }
+
+  return null;
+}
+
+function summarize(source: string, data: FactorReturns): FactorDataSummary {
+  return {
+    source,
+    factors: data.factors,
+    observations: data.dates.length,
+    startDate: data.dates[0] || null,
+    endDate: data.dates[data.dates.length - 1] || null,
+    hasRiskFree: data.riskFree !== null,
+  };
+}
+
+/**
+ * 当前因子数据概况，没有因子数据时返回 null
+ */
+export async function getFactorDataSummary(): Promise<FactorDataSummary | null> {
+  const factorReturns = await getFactorReturns();
+  return factorReturns ? summarize(factorReturns.source, factorReturns.data) : null;
+}
+
+/**
+ * 估计基金的因子暴露
+ *
+ * @param fundCode - 基金代码
+ * @param options - 回看天数、滚动窗口；csv 为本次回归临时使用的因子数据，不保存
+ * @throws FactorRegressionError 没有因子数据或样本不足
+ */
+export async function analyzeFundFactors(
+  fundCode: string,
+  options: FactorRegressionOptions & { lookbackDays?: number; csv?: string } = {}
+): Promise<FactorRegressionResult & { fundCode: string; factorSource: string }> {
+  const { lookbackDays = DEFAULT_LOOKBACK_DAYS, csv, ...regressionOptions } = options;
+
+  const factorReturns = csv ? { source: 'request', data: parseFactorCsv(csv) } : await getFactorReturns();
+  if (!factorReturns) {
+    throw new FactorRegressionError('尚未导入因子收益数据，请先上传因子 CSV');
+  }
+
+  const fundReturns = await getFundReturns(fundCode, lookbackDays);
+  const result = regressFactorExposures(fundReturns, factorReturns.data, regressionOptions);
+
+  return { fundCode, factorSource: factorReturns.source, ...result };
+}
@@ -0,0 +1,134 @@
+/**
+ * 因子回归测试
+ *
+ * 在 fixtures/factors_daily.csv 的因子收益上构造已知暴露的基金收益
+ * （α = 2bp/日，MKT 1.1、SMB 0.4、HML -0.3、UMD 0，另加小幅噪声），检验回归能还原这些暴露
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import path from 'path';
+import {
+  describeFactorStyle,
+  FactorRegressionError,
+  FactorReturns,
+  ols,
+  parseFactorCsv,
+  regressFactorExposures,
+} from './regression';
+
+const TRUE_ALPHA = 0.0002;
+const TRUE_BETAS: Record<string, number> = { MKT: 1.1, SMB: 0.4, HML: -0.3, UMD: 0 };
+
+function loadFixture(): FactorReturns {
+  return parseFactorCsv(readFileSync(path.join(process.cwd(), 'lib', 'factors', 'fixtures', 'factors_daily.csv'), 'utf-8'));
+}
+
+/**
+ * 固定种子的均匀噪声，保证测试结果可复现
+ */
+function noise(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648 - 0.5;
+  };
+}
+
+function syntheticFund(factors: FactorReturns) {
+  const next = noise(42);
+  return factors.dates.map((date, i) => ({
+    date,
+    value: factors.riskFree![i]
+      + TRUE_ALPHA
+      + factors.factors.reduce((sum, f) => sum + TRUE_BETAS[f] * factors.values[f][i], 0)
+      + next() * 0.002,
+  }));
+}
+
+test('parseFactorCsv normalizes aliases, YYYYMMDD dates and the RF column', () => {
+  const data = parseFactorCsv([
+    '# comment',
+    'Date,Mkt-RF,Size,Value,Mom,RF',
+    '20240103,0.01,0.002,-0.001,0.003,0.0001',
+    '',
+    '20240102,-0.02,0.001,0.002,-0.001,0.0001',
+    'bad-date,1,2,3,4,5',
+    '20240104,0.005,x,0.001,0.002,0.0001',
+  ].join('\n'));
+
+  assert.deepEqual(data.factors, ['MKT', 'SMB', 'HML', 'UMD']);
+  assert.deepEqual(data.dates, ['2024-01-02', '2024-01-03']);
+  assert.deepEqual(data.values.MKT, [-0.02, 0.01]);
+  assert.deepEqual(data.values.UMD, [-0.001, 0.003]);
+  assert.deepEqual(data.riskFree, [0.0001, 0.0001]);
+});
+
+test('parseFactorCsv without an RF column leaves riskFree null', () => {
+  const data = parseFactorCsv('date,MARKET,WML\n2024-01-02,0.01,0.002\n2024-01-03,0.02,0.001');
+
+  assert.deepEqual(data.factors, ['MKT', 'UMD']);
+  assert.equal(data.riskFree, null);
+});
+
+test('parseFactorCsv rejects empty data and files without factor columns', () => {
+  assert.throws(() => parseFactorCsv('# only a comment\n'), FactorRegressionError);
+  assert.throws(() => parseFactorCsv('date,RF\n2024-01-02,0.0001'), FactorRegressionError);
+});
+
+test('the factor fixture covers at least two default rolling windows', () => {
+  const data = loadFixture();
+  assert.ok(data.dates.length >= 120, `因子样本只有 ${data.dates.length} 天`);
+  assert.deepEqual(data.factors, ['MKT', 'SMB', 'HML', 'UMD']);
+});
+
+test('ols recovers exact coefficients of a noiseless linear model', () => {
+  const x = [[1, 2], [2, 1], [3, 5], [4, 3], [5, 8], [6, 2]];
+  const y = x.map(([a, b]) => 0.5 + 2 * a - b);
+  const fit = ols(y, x)!;
+
+  [0.5, 2, -1].forEach((expected, i) => assert.ok(Math.abs(fit.coefficients[i] - expected) < 1e-9));
+  assert.ok(Math.abs(fit.rSquared - 1) < 1e-12);
+  assert.ok(fit.residualStd < 1e-9);
+});
+
+test('ols returns null for collinear regressors or too few observations', () => {
+  assert.equal(ols([1, 2, 3, 4], [[1, 2], [2, 4], [3, 6], [4, 8]]), null);
+  assert.equal(ols([1, 2], [[1], [2]]), null);
+});
+
+test('regressFactorExposures recovers the known betas on the fixture factors', () => {
+  const factors = loadFixture();
+  const result = regressFactorExposures(syntheticFund(factors), factors);
+
+  assert.equal(result.observations, factors.dates.length);
+  result.exposures.forEach(e => {
+    assert.ok(Math.abs(e.beta - TRUE_BETAS[e.factor]) < 0.05, `${e.factor} 暴露 ${e.beta}`);
+  });
+  assert.equal(result.exposures.find(e => e.factor === 'MKT')!.significant, true);
+  assert.equal(result.exposures.find(e => e.factor === 'UMD')!.significant, false);
+  assert.ok(Math.abs(result.alpha.daily - TRUE_ALPHA) < 1e-4);
+  assert.ok(result.rSquared > 0.95);
+  assert.equal(describeFactorStyle(result), '小盘成长型');
+});
+
+test('regressFactorExposures produces rolling exposures over the default window', () => {
+  const factors = loadFixture();
+  const result = regressFactorExposures(syntheticFund(factors), factors);
+  const n = factors.dates.length;
+
+  assert.equal(result.window, 60);
+  assert.equal(result.rolling.length, Math.floor((n - 60) / 5) + 1);
+  assert.equal(result.rolling[0].date, factors.dates[59]);
+  result.rolling.forEach(point => {
+    assert.ok(Math.abs(point.betas.MKT - TRUE_BETAS.MKT) < 0.1, `${point.date} MKT 暴露 ${point.betas.MKT}`);
+  });
+});
+
+test('regressFactorExposures requires enough common trading days', () => {
+  const factors = loadFixture();
+  const fund = syntheticFund(factors).slice(0, 15);
+
+  assert.throws(() => regressFactorExposures(fund, factors), FactorRegressionError);
+});
@@ -0,0 +1,361 @@
+/**
+ * 因子暴露回归（Fama-French / Barra 简化版）
+ *
+ * 用最小二乘估计基金超额收益对各因子收益的暴露:
+ *   R_fund - R_f = α + Σ β_k · F_k + ε
+ * 输出各因子暴露及 t 统计量、残差 Alpha、拟合优度，以及滚动窗口暴露序列
+ *
+ * 因子收益按 CSV 提供：首列为日期，其余列为各因子的日收益率（小数），可选 RF 列为日无风险收益率
+ * 本模块只包含纯计算，浏览器端和服务端共用
+ */
+
+import { DailyReturn, TRADING_DAYS_PER_YEAR } from '../risk/metrics';
+
+/**
+ * 因子日收益序列
+ */
+export interface FactorReturns {
+  factors: string[];                           // 因子名称，如 MKT、SMB、HML、UMD
+  dates: string[];                             // 按日期升序
+  values: Record<string, number[]>;            // 因子名称 -> 与 dates 对齐的日收益率
+  riskFree: number[] | null;                   // 日无风险收益率，CSV 无 RF 列时为 null
+}
+
+/**
+ * 单个因子的暴露
+ */
+export interface FactorExposure {
+  factor: string;
+  label: string;
+  beta: number;
+  standardError: number;
+  tStat: number;
+  significant: boolean;     // |t| ≥ 1.96（约 95% 置信）
+}
+
+/**
+ * 滚动窗口暴露
+ */
+export interface RollingExposure {
+  date: string;                       // 窗口最后一天
+  alpha: number;                      // 年化 Alpha
+  betas: Record<string, number>;
+  rSquared: number;
+}
+
+/**
+ * 回归选项
+ */
+export interface FactorRegressionOptions {
+  riskFreeRate?: number;    // 因子数据没有 RF 列时使用的年化无风险利率
+  window?: number;          // 滚动窗口交易日数
+  step?: number;            // 滚动步长
+}
+
+/**
+ * 因子回归结果
+ */
+export interface FactorRegressionResult {
+  observations: number;
+  startDate: string;
+  endDate: string;
+  factors: string[];
+  alpha: {
+    daily: number;
+    annualized: number;
+    tStat: number;
+    significant: boolean;
+  };
+  exposures: FactorExposure[];
+  rSquared: number;
+  adjustedRSquared: number;
+  residualVolatility: number;         // 年化残差波动（特质风险）
+  window: number;
+  rolling: RollingExposure[];         // 样本不足一个窗口时为空
+}
+
+/**
+ * 因子数据格式或样本量不满足回归要求
+ */
+export class FactorRegressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FactorRegressionError';
+  }
+}
+
+export const FACTOR_LABELS: Record<string, string> = {
+  MKT: '市场',
+  SMB: '规模',
+  HML: '价值',
+  UMD: '动量',
+  RMW: '盈利',
+  CMA: '投资',
+};
+
+// CSV 列名别名，统一为 FACTOR_LABELS 中的名称
+const FACTOR_ALIASES: Record<string, string> = {
+  'MKT-RF': 'MKT',
+  'MKT_RF': 'MKT',
+  'MARKET': 'MKT',
+  'SIZE': 'SMB',
+  'VALUE': 'HML',
+  'MOM': 'UMD',
+  'WML': 'UMD',
+  'MOMENTUM': 'UMD',
+};
+
+const DEFAULT_WINDOW = 60;
+const DEFAULT_STEP = 5;
+const T_CRITICAL = 1.96;
+
+// 每个参数至少需要的样本数
+const OBSERVATIONS_PER_PARAMETER = 5;
+export const MIN_REGRESSION_OBSERVATIONS = 20;
+
+/**
+ * 解析因子收益 CSV
+ *
+ * 日期支持 YYYY-MM-DD 与 YYYYMMDD；空行、# 开头的注释行和无法解析的行被跳过
+ *
+ * @param text - CSV 文本，首行为表头
+ */
+export function parseFactorCsv(text: string): FactorReturns {
+  const lines = text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'));
+
+  if (lines.length < 2) {
+    throw new FactorRegressionError('因子数据为空');
+  }
+
+  const header = lines[0].split(',').map(h => h.trim().toUpperCase());
+  const columns = header.slice(1).map(h => FACTOR_ALIASES[h] || h);
+  const rfIndex = columns.indexOf('RF');
+  const factors = columns.filter(c => c !== 'RF');
+
+  if (factors.length === 0) {
+    throw new FactorRegressionError('因子数据缺少因子列');
+  }
+
+  const rows = lines.slice(1)
+    .map(line => {
+      const cells = line.split(',').map(c => c.trim());
+      const raw = cells[0];
+      const date = /^\d{8}$/.test(raw) ? `${raw.slice(0, 4)}-${raw.slice(4, 6)}-${raw.slice(6, 8)}` : raw;
+      return { date, numbers: cells.slice(1).map(c => parseFloat(c)) };
+    })
+    .filter(row => /^\d{4}-\d{2}-\d{2}$/.test(row.date)
+      && row.numbers.length === columns.length
+      && row.numbers.every(n => isFinite(n)))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const values: Record<string, number[]> = {};
+  factors.forEach(f => { values[f] = []; });
+  rows.forEach(row => {
+    columns.forEach((column, i) => {
+      if (column !== 'RF') values[column].push(row.numbers[i]);
+    });
+  });
+
+  return {
+    factors,
+    dates: rows.map(r => r.date),
+    values,
+    riskFree: rfIndex >= 0 ? rows.map(r => r.numbers[rfIndex]) : null,
+  };
+}
+
+/**
+ * 对称正定矩阵求逆（Gauss-Jordan，部分主元）
+ *
+ * @returns 矩阵奇异（因子共线）时返回 null
+ */
+function invert(matrix: number[][]): number[][] | null {
+  const n = matrix.length;
+  const a = matrix.map((row, i) => [...row, ...row.map((_, j) => (i === j ? 1 : 0))]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(a[r][col]) > Math.abs(a[pivot][col])) pivot = r;
+    }
+    if (Math.abs(a[pivot][col]) < 1e-14) return null;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+
+    const p = a[col][col];
+    for (let j = 0; j < 2 * n; j++) a[col][j] /= p;
+
+    for (let r = 0; r < n; r++) {
+      if (r === col) continue;
+      const factor = a[r][col];
+      if (factor === 0) continue;
+      for (let j = 0; j < 2 * n; j++) a[r][j] -= factor * a[col][j];
+    }
+  }
+
+  return a.map(row => row.slice(n));
+}
+
+/**
+ * 普通最小二乘
+ *
+ * @param y - 因变量
+ * @param x - 自变量矩阵（每行一个样本，不含截距列）
+ * @returns 系数（首个为截距）、标准误、R²、残差标准差；无法求解时返回 null
+ */
+export function ols(y: number[], x: number[][]): {
+  coefficients: number[];
+  standardErrors: number[];
+  rSquared: number;
+  adjustedRSquared: number;
+  residualStd: number;
+} | null {
+  const n = y.length;
+  const k = (x[0]?.length || 0) + 1;
+  if (n <= k) return null;
+
+  const design = x.map(row => [1, ...row]);
+  const xtx = Array.from({ length: k }, (_, i) =>
+    Array.from({ length: k }, (_, j) => design.reduce((sum, row) => sum + row[i] * row[j], 0))
+  );
+  const xty = Array.from({ length: k }, (_, i) => design.reduce((sum, row, t) => sum + row[i] * y[t], 0));
+
+  const inverse = invert(xtx);
+  if (!inverse) return null;
+
+  const coefficients = inverse.map(row => row.reduce((sum, v, j) => sum + v * xty[j], 0));
+  const residuals = design.map((row, t) => y[t] - row.reduce((sum, v, j) => sum + v * coefficients[j], 0));
+  const sse = residuals.reduce((sum, e) => sum + e * e, 0);
+  const yMean = y.reduce((sum, v) => sum + v, 0) / n;
+  const sst = y.reduce((sum, v) => sum + (v - yMean) ** 2, 0);
+  const sigma2 = sse / (n - k);
+  const rSquared = sst > 0 ? 1 - sse / sst : 0;
+
+  return {
+    coefficients,
+    standardErrors: inverse.map((row, i) => Math.sqrt(Math.max(0, sigma2 * row[i]))),
+    rSquared,
+    adjustedRSquared: 1 - (1 - rSquared) * (n - 1) / (n - k),
+    residualStd: Math.sqrt(sigma2),
+  };
+}
+
+/**
+ * 对齐基金收益与因子收益，基金收益扣除无风险收益
+ */
+function alignObservations(
+  fundReturns: DailyReturn[],
+  factorReturns: FactorReturns,
+  dailyRiskFree: number
+): { dates: string[]; y: number[]; x: number[][] } {
+  const fundMap = new Map(fundReturns.map(r => [r.date, r.value]));
+  const dates: string[] = [];
+  const y: number[] = [];
+  const x: number[][] = [];
+
+  factorReturns.dates.forEach((date, i) => {
+    const fund = fundMap.get(date);
+    if (fund === undefined) return;
+
+    const rf = factorReturns.riskFree ? factorReturns.riskFree[i] : dailyRiskFree;
+    dates.push(date);
+    y.push(fund - rf);
+    x.push(factorReturns.factors.map(f => factorReturns.values[f][i]));
+  });
+
+  return { dates, y, x };
+}
+
+/**
+ * 估计基金的因子暴露
+ *
+ * @param fundReturns - 基金日收益率（按日期升序）
+ * @param factorReturns - 因子日收益率
+ * @param options - 无风险利率、滚动窗口
+ */
+export function regressFactorExposures(
+  fundReturns: DailyReturn[],
+  factorReturns: FactorReturns,
+  options: FactorRegressionOptions = {}
+): FactorRegressionResult {
+  const { riskFreeRate = 0.03, window = DEFAULT_WINDOW, step = DEFAULT_STEP } = options;
+  const { factors } = factorReturns;
+  const { dates, y, x } = alignObservations(fundReturns, factorReturns, riskFreeRate / TRADING_DAYS_PER_YEAR);
+
+  const required = Math.max(MIN_REGRESSION_OBSERVATIONS, (factors.length + 1) * OBSERVATIONS_PER_PARAMETER);
+  if (dates.length < required) {
+    throw new FactorRegressionError(`基金与因子数据的共同交易日只有 ${dates.length} 天，至少需要 ${required} 天`);
+  }
+
+  const fit = ols(y, x);
+  if (!fit) {
+    throw new FactorRegressionError('因子之间存在完全共线，无法回归');
+  }
+
+  const tStat = (coefficient: number, se: number) => (se > 0 ? coefficient / se : 0);
+  const alphaT = tStat(fit.coefficients[0], fit.standardErrors[0]);
+
+  // 滚动窗口：窗口不少于参数个数的 OBSERVATIONS_PER_PARAMETER 倍
+  const rollingWindow = Math.max(window, (factors.length + 1) * OBSERVATIONS_PER_PARAMETER);
+  const rolling: RollingExposure[] = [];
+  for (let end = rollingWindow; end <= dates.length; end += Math.max(1, step)) {
+    const windowFit = ols(y.slice(end - rollingWindow, end), x.slice(end - rollingWindow, end));
+    if (!windowFit) continue;
+
+    const betas: Record<string, number> = {};
+    factors.forEach((f, i) => { betas[f] = windowFit.coefficients[i + 1]; });
+    rolling.push({
+      date: dates[end - 1],
+      alpha: windowFit.coefficients[0] * TRADING_DAYS_PER_YEAR,
+      betas,
+      rSquared: windowFit.rSquared,
+    });
+  }
+
+  return {
+    observations: dates.length,
+    startDate: dates[0],
+    endDate: dates[dates.length - 1],
+    factors,
+    alpha: {
+      daily: fit.coefficients[0],
+      annualized: fit.coefficients[0] * TRADING_DAYS_PER_YEAR,
+      tStat: alphaT,
+      significant: Math.abs(alphaT) >= T_CRITICAL,
+    },
+    exposures: factors.map((factor, i) => {
+      const t = tStat(fit.coefficients[i + 1], fit.standardErrors[i + 1]);
+      return {
+        factor,
+        label: FACTOR_LABELS[factor] || factor,
+        beta: fit.coefficients[i + 1],
+        standardError: fit.standardErrors[i + 1],
+        tStat: t,
+        significant: Math.abs(t) >= T_CRITICAL,
+      };
+    }),
+    rSquared: fit.rSquared,
+    adjustedRSquared: fit.adjustedRSquared,
+    residualVolatility: fit.residualStd * Math.sqrt(TRADING_DAYS_PER_YEAR),
+    window: rollingWindow,
+    rolling,
+  };
+}
+
+/**
+ * 由因子暴露判断风格，如「大盘价值型」
+ *
+ * 只采用显著的 SMB、HML 暴露，不显著时视为均衡
+ */
+export function describeFactorStyle(result: FactorRegressionResult): string {
+  const exposure = (factor: string) => result.exposures.find(e => e.factor === factor);
+  const smb = exposure('SMB');
+  const hml = exposure('HML');
+
+  const size = smb?.significant ? (smb.beta > 0 ? '小盘' : '大盘') : '';
+  const value = hml?.significant ? (hml.beta > 0 ? '价值' : '成长') : '';
+  if (!size && !value) return '均衡型';
+  return `${size}${value || '平衡'}型`;
+}
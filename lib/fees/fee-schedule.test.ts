@@ -0,0 +1,99 @@
+/**
+ * 费率表解析 golden 测试
+ *
+ * 对 fixtures 下保存的每个 jjfl 费率页运行 parseFeeSchedule，与 fixtures/expected 下同名 JSON 比较，
+ * 并按解析结果核对申购费和各持有期限的赎回费率
+ *
+ * 解析规则有意变更时，用 UPDATE_GOLDEN=1 npm test 重新生成期望结果，并检查 diff
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs, readdirSync } from 'fs';
+import path from 'path';
+import { calculatePurchaseFee, FeeSchedule, parseFeeSchedule, redemptionRate } from './fee-schedule';
+
+const FIXTURE_DIR = path.join(process.cwd(), 'lib', 'fees', 'fixtures');
+const EXPECTED_DIR = path.join(FIXTURE_DIR, 'expected');
+
+const fixtures = readdirSync(FIXTURE_DIR).filter(f => /^jjfl_\d{6}\.html$/.test(f));
+
+async function loadSchedule(fundCode: string): Promise<FeeSchedule> {
+  const html = await fs.readFile(path.join(FIXTURE_DIR, `jjfl_${fundCode}.html`), 'utf-8');
+  return parseFeeSchedule(html, fundCode);
+}
+
+test('fixture corpus is not empty', () => {
+  assert.ok(fixtures.length > 0);
+});
+
+for (const file of fixtures) {
+  const fundCode = file.match(/\d{6}/)![0];
+  const expectedPath = path.join(EXPECTED_DIR, file.replace(/\.html$/, '.json'));
+
+  test(`parseFeeSchedule ${file}`, async () => {
+    const schedule = await loadSchedule(fundCode);
+
+    if (process.env.UPDATE_GOLDEN === '1') {
+      await fs.mkdir(EXPECTED_DIR, { recursive: true });
+      await fs.writeFile(expectedPath, `${JSON.stringify(schedule, null, 2)}\n`, 'utf-8');
+      return;
+    }
+
+    const expected = JSON.parse(await fs.readFile(expectedPath, 'utf-8'));
+
+    assert.equal(schedule.fundName, expected.fundName);
+    assert.deepEqual(schedule.purchase, expected.purchase, '申购费率');
+    assert.deepEqual(schedule.redemption, expected.redemption, '赎回费率');
+    assert.equal(schedule.managementFee, expected.managementFee);
+    assert.equal(schedule.custodyFee, expected.custodyFee);
+    assert.equal(schedule.salesServiceFee, expected.salesServiceFee);
+  });
+}
+
+test('110022 purchase fee uses the amount tier and platform discount', async () => {
+  const schedule = await loadSchedule('110022');
+
+  assert.deepEqual(calculatePurchaseFee(schedule, 10000), { amount: 10000, fee: 14.98, netAmount: 9985.02, rate: 0.0015 });
+  assert.deepEqual(calculatePurchaseFee(schedule, 10000, false), { amount: 10000, fee: 147.78, netAmount: 9852.22, rate: 0.015 });
+  assert.equal(calculatePurchaseFee(schedule, 2000000).rate, 0.0012);
+  // 500 万元以上每笔固定 1000 元
+  assert.deepEqual(calculatePurchaseFee(schedule, 6000000), { amount: 6000000, fee: 1000, netAmount: 5999000, rate: null });
+});
+
+test('110022 redemption tiers skip the 30-day step', async () => {
+  const schedule = await loadSchedule('110022');
+
+  assert.equal(redemptionRate(schedule, 6), 0.015);
+  assert.equal(redemptionRate(schedule, 7), 0.005);
+  assert.equal(redemptionRate(schedule, 30), 0.005);
+  assert.equal(redemptionRate(schedule, 730), 0);
+});
+
+test('005827 redemption rate steps down at 7, 30, 365 and 730 days', async () => {
+  const schedule = await loadSchedule('005827');
+
+  assert.equal(redemptionRate(schedule, 0), 0.015);
+  assert.equal(redemptionRate(schedule, 6), 0.015);
+  assert.equal(redemptionRate(schedule, 7), 0.0075);
+  assert.equal(redemptionRate(schedule, 29), 0.0075);
+  assert.equal(redemptionRate(schedule, 30), 0.005);
+  assert.equal(redemptionRate(schedule, 364), 0.005);
+  assert.equal(redemptionRate(schedule, 365), 0.0025);
+  assert.equal(redemptionRate(schedule, 730), 0);
+});
+
+test('003095 (A) charges a purchase fee while 003096 (C) charges a sales service fee instead', async () => {
+  const [a, c] = await Promise.all([loadSchedule('003095'), loadSchedule('003096')]);
+
+  assert.deepEqual(calculatePurchaseFee(a, 1500000), { amount: 1500000, fee: 1498.5, netAmount: 1498501.5, rate: 0.001 });
+  assert.equal(calculatePurchaseFee(a, 3000000).rate, 0.0006);
+  assert.equal(a.salesServiceFee, 0);
+
+  assert.deepEqual(calculatePurchaseFee(c, 1500000), { amount: 1500000, fee: 0, netAmount: 1500000, rate: 0 });
+  assert.equal(c.salesServiceFee, 0.004);
+  assert.equal(redemptionRate(c, 6), 0.015);
+  assert.equal(redemptionRate(c, 7), 0.005);
+  assert.equal(redemptionRate(c, 29), 0.005);
+  assert.equal(redemptionRate(c, 30), 0);
+});
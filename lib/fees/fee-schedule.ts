@@ -0,0 +1,273 @@
+/**
+ * 基金费率表
+ *
+ * 解析天天基金 F10 费率页 https://fundf10.eastmoney.com/jjfl_{基金代码}.html:
+ * 申购费率按单笔金额分档（可能有销售平台折扣，大额为每笔固定费用），
+ * 赎回费率按持有期限分档（<7 天不低于 1.5%，之后逐档递减），另有管理费、托管费、销售服务费
+ *
+ * 每个份额类别（A/C）是独立的基金代码，各有一张费率表
+ */
+
+import * as cheerio from 'cheerio';
+import { isFixtureMode, readFixture } from '../fixtures';
+
+/**
+ * 按金额分档的申购费率
+ */
+export interface PurchaseFeeTier {
+  minAmount: number;             // 金额下限（元，含）
+  maxAmount: number | null;      // 金额上限（元，不含），null 表示无上限
+  rate: number | null;           // 原费率（小数），固定费用档为 null
+  discountRate: number | null;   // 销售平台优惠费率（小数），无折扣时为 null
+  fixedFee: number | null;       // 每笔固定费用（元）
+}
+
+/**
+ * 按持有期限分档的赎回费率
+ */
+export interface RedemptionFeeTier {
+  minDays: number;               // 持有天数下限（含）
+  maxDays: number | null;        // 持有天数上限（不含），null 表示无上限
+  rate: number;                  // 赎回费率（小数）
+}
+
+/**
+ * 基金费率表
+ */
+export interface FeeSchedule {
+  fundCode: string;
+  fundName: string;
+  purchase: PurchaseFeeTier[];
+  redemption: RedemptionFeeTier[];
+  managementFee: number;         // 管理费率（年化小数）
+  custodyFee: number;            // 托管费率（年化小数）
+  salesServiceFee: number;       // 销售服务费率（年化小数），A 类通常为 0
+}
+
+/**
+ * 申购费用计算结果
+ */
+export interface PurchaseFeeResult {
+  amount: number;       // 申购金额
+  fee: number;          // 申购费
+  netAmount: number;    // 净申购金额
+  rate: number | null;  // 实际适用费率，固定费用时为 null
+}
+
+// 费率页很少变化，缓存 1 天
+const scheduleCache = new Map<string, { data: FeeSchedule; timestamp: number }>();
+const CACHE_TTL = 24 * 60 * 60 * 1000;
+
+// 持有期限单位换算为天（基金合同一般按 1 年 = 365 天计）
+const PERIOD_UNIT_DAYS: Record<string, number> = {
+  '天': 1,
+  '日': 1,
+  '周': 7,
+  '个月': 30,
+  '月': 30,
+  '年': 365,
+};
+
+const AMOUNT_UNIT: Record<string, number> = {
+  '元': 1,
+  '万元': 10000,
+  '亿元': 100000000,
+};
+
+/**
+ * 解析百分比费率，如 "1.50%" → 0.015，无法解析返回 null
+ */
+export function parsePercent(text: string): number | null {
+  const match = text.match(/(-?\d+(?:\.\d+)?)\s*%/);
+  return match ? parseFloat(match[1]) / 100 : null;
+}
+
+/**
+ * 解析区间描述，如 "大于等于7天，小于1年"、"小于100万元"、"---"
+ *
+ * @param units - 单位到数值的换算表
+ * @param step - 最小刻度，用于把「大于」「小于等于」换算为含下限、不含上限
+ * @returns 下限（含）与上限（不含），上限 null 表示无上限
+ */
+export function parseRange(
+  text: string,
+  units: Record<string, number>,
+  step: number
+): { min: number; max: number | null } {
+  const unitPattern = Object.keys(units).sort((a, b) => b.length - a.length).join('|');
+  const boundPattern = new RegExp(`(大于等于|大于|小于等于|小于|≥|>|≤|<)\\s*(\\d+(?:\\.\\d+)?)\\s*(${unitPattern})`, 'g');
+
+  let min = 0;
+  let max: number | null = null;
+  let match: RegExpExecArray | null;
+
+  while ((match = boundPattern.exec(text)) !== null) {
+    const value = parseFloat(match[2]) * units[match[3]];
+    const op = match[1];
+    if (op === '大于等于' || op === '≥') min = value;
+    else if (op === '大于' || op === '>') min = value + step;
+    else if (op === '小于' || op === '<') max = value;
+    else max = value + step;
+  }
+
+  return { min, max };
+}
+
+/**
+ * 按标题查找费率表格
+ */
+function findTable($: cheerio.CheerioAPI, title: string): cheerio.Cheerio<any> | null {
+  const heading = $('h4').filter((_, el) => $(el).text().trim().startsWith(title)).first();
+  if (heading.length === 0) return null;
+  const table = heading.closest('.boxitem').find('table').first();
+  return table.length > 0 ? table : null;
+}
+
+/**
+ * 解析费率页 HTML
+ *
+ * @param html - 费率页原文
+ * @param fundCode - 基金代码
+ */
+export function parseFeeSchedule(html: string, fundCode: string): FeeSchedule {
+  const $ = cheerio.load(html);
+
+  const fundName = $('.fundInfoItem h4.title a').first().text().trim()
+    || ($('title').text().match(/^(.+?)\(\d{6}\)/)?.[1] ?? '');
+
+  // 运作费用：th/td 交替排列
+  const operating = new Map<string, string>();
+  findTable($, '运作费用')?.find('td.th').each((_, el) => {
+    operating.set($(el).text().trim(), $(el).next('td').text().trim());
+  });
+  const operatingRate = (name: string) => parsePercent(operating.get(name) || '') ?? 0;
+
+  const purchase: PurchaseFeeTier[] = [];
+  findTable($, '申购费率')?.find('tbody tr').each((_, row) => {
+    const cells = $(row).find('td').map((_, td) => $(td).text().replace(/\s+/g, ' ').trim()).get();
+    if (cells.length < 3) return;
+
+    const { min, max } = parseRange(cells[0], AMOUNT_UNIT, 0.01);
+    const original = cells[2];
+    // 优惠费率列可能列出多个渠道（银行卡 | 活期宝），取第一个
+    const discount = cells[3]?.split('|')[0] || '';
+    const fixed = original.match(/每笔\s*(\d+(?:\.\d+)?)\s*元/);
+
+    purchase.push({
+      minAmount: min,
+      maxAmount: max,
+      rate: fixed ? null : parsePercent(original),
+      discountRate: fixed ? null : parsePercent(discount),
+      fixedFee: fixed ? parseFloat(fixed[1]) : null,
+    });
+  });
+
+  const redemption: RedemptionFeeTier[] = [];
+  findTable($, '赎回费率')?.find('tbody tr').each((_, row) => {
+    const cells = $(row).find('td').map((_, td) => $(td).text().trim()).get();
+    if (cells.length < 3) return;
+
+    const rate = parsePercent(cells[2]);
+    if (rate === null) return;
+    const { min, max } = parseRange(cells[1], PERIOD_UNIT_DAYS, 1);
+    redemption.push({ minDays: min, maxDays: max, rate });
+  });
+  redemption.sort((a, b) => a.minDays - b.minDays);
+
+  return {
+    fundCode,
+    fundName,
+    purchase,
+    redemption,
+    managementFee: operatingRate('管理费率'),
+    custodyFee: operatingRate('托管费率'),
+    salesServiceFee: operatingRate('销售服务费率'),
+  };
+}
+
+/**
+ * 获取费率页原文
+ */
+async function fetchFeePage(fundCode: string): Promise<string | null> {
+  if (isFixtureMode()) {
+    return readFixture('fees', 'fixtures', `jjfl_${fundCode}.html`);
+  }
+
+  const response = await fetch(`https://fundf10.eastmoney.com/jjfl_${fundCode}.html`, {
+    headers: {
+      'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+      'Referer': 'https://fundf10.eastmoney.com/',
+    },
+    signal: AbortSignal.timeout(10000),
+  });
+
+  return response.ok ? response.text() : null;
+}
+
+/**
+ * 获取基金费率表
+ *
+ * @param fundCode - 基金代码
+ * @param forceRefresh - 忽略缓存
+ */
+export async function getFeeSchedule(fundCode: string, forceRefresh: boolean = false): Promise<FeeSchedule> {
+  const cached = scheduleCache.get(fundCode);
+  if (!forceRefresh && cached && Date.now() - cached.timestamp < CACHE_TTL) {
+    return cached.data;
+  }
+
+  const html = await fetchFeePage(fundCode);
+  if (!html) {
+    throw new Error(`无法获取基金 ${fundCode} 的费率页`);
+  }
+
+  const schedule = parseFeeSchedule(html, fundCode);
+  if (schedule.purchase.length === 0 && schedule.redemption.length === 0) {
+    throw new Error(`基金 ${fundCode} 的费率页中没有费率表`);
+  }
+
+  scheduleCache.set(fundCode, { data: schedule, timestamp: Date.now() });
+  return schedule;
+}
+
+/**
+ * 计算申购费（前端收费，外扣法）
+ *
+ * 净申购金额 = 申购金额 / (1 + 费率)，申购费 = 申购金额 - 净申购金额；固定费用档直接扣除
+ *
+ * @param useDiscount - 是否使用销售平台优惠费率
+ */
+export function calculatePurchaseFee(
+  schedule: FeeSchedule,
+  amount: number,
+  useDiscount: boolean = true
+): PurchaseFeeResult {
+  const tier = schedule.purchase.find(t =>
+    amount >= t.minAmount && (t.maxAmount === null || amount < t.maxAmount)
+  );
+
+  if (!tier) {
+    return { amount, fee: 0, netAmount: amount, rate: 0 };
+  }
+
+  if (tier.fixedFee !== null) {
+    const fee = Math.min(tier.fixedFee, amount);
+    return { amount, fee, netAmount: amount - fee, rate: null };
+  }
+
+  const rate = (useDiscount ? tier.discountRate : null) ?? tier.rate ?? 0;
+  const netAmount = amount / (1 + rate);
+  const fee = Math.round((amount - netAmount) * 100) / 100;
+
+  return { amount, fee, netAmount: amount - fee, rate };
+}
+
+/**
+ * 按持有天数查找赎回费率
+ */
+export function redemptionRate(schedule: FeeSchedule, holdingDays: number): number {
+  const tier = schedule.redemption.find(t =>
+    holdingDays >= t.minDays && (t.maxDays === null || holdingDays < t.maxDays)
+  );
+  return tier?.rate ?? 0;
+}
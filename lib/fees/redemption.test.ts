@@ -0,0 +1,95 @@
+/**
+ * 赎回试算测试
+ *
+ * 使用 fixtures 中 005827 的费率表（<7 天 1.5%，7-30 天 0.75%，30 天-1 年 0.5%），
+ * 核对先进先出的份额消耗和各持有期限边界上的赎回费率
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { LedgerTransaction, LedgerValidationError } from '../portfolio/ledger';
+import { FeeSchedule, parseFeeSchedule } from './fee-schedule';
+import { buildShareLots, quoteRedemption } from './redemption';
+
+const FUND_CODE = '005827';
+const REDEEM_DATE = '2024-03-31';
+
+async function loadSchedule(): Promise<FeeSchedule> {
+  const html = await fs.readFile(path.join(process.cwd(), 'lib', 'fees', 'fixtures', `jjfl_${FUND_CODE}.html`), 'utf-8');
+  return parseFeeSchedule(html, FUND_CODE);
+}
+
+let sequence = 0;
+function tx(type: LedgerTransaction['type'], date: string, shares: number, extra: Partial<LedgerTransaction> = {}): LedgerTransaction {
+  sequence++;
+  return { id: `t${sequence}`, fundCode: FUND_CODE, type, date, shares, amount: 0, fee: 0, createdAt: sequence, ...extra };
+}
+
+// 赎回日前各笔份额的持有天数: 89、30、29、7、6
+const transactions: LedgerTransaction[] = [
+  tx('buy', '2024-01-02', 1000),
+  tx('buy', '2024-03-01', 500),
+  tx('buy', '2024-03-02', 300),
+  tx('sell', '2024-03-10', 400),
+  tx('buy', '2024-03-24', 100),
+  tx('buy', '2024-03-25', 200),
+  tx('buy', '2024-03-01', 999, { fundCode: '110022' }),
+];
+
+test('buildShareLots consumes the earliest lots first on sell', () => {
+  assert.deepEqual(buildShareLots(transactions, FUND_CODE), [
+    { date: '2024-01-02', shares: 600, source: 'buy' },
+    { date: '2024-03-01', shares: 500, source: 'buy' },
+    { date: '2024-03-02', shares: 300, source: 'buy' },
+    { date: '2024-03-24', shares: 100, source: 'buy' },
+    { date: '2024-03-25', shares: 200, source: 'buy' },
+  ]);
+});
+
+test('buildShareLots applies splits and the asOf cut-off', () => {
+  const lots = buildShareLots([...transactions, tx('split', '2024-03-26', 0, { ratio: 2 })], FUND_CODE);
+  assert.deepEqual(lots.map(l => l.shares), [1200, 1000, 600, 200, 400]);
+
+  assert.deepEqual(buildShareLots(transactions, FUND_CODE, '2024-03-05').map(l => l.shares), [1000, 500, 300]);
+});
+
+test('quoteRedemption charges each lot by its own holding period', async () => {
+  const schedule = await loadSchedule();
+  const quote = quoteRedemption(schedule, buildShareLots(transactions, FUND_CODE), 1600, 2, REDEEM_DATE);
+
+  assert.deepEqual(
+    quote.lots.map(l => ({ lotDate: l.lotDate, shares: l.shares, holdingDays: l.holdingDays, rate: l.rate, fee: l.fee })),
+    [
+      { lotDate: '2024-01-02', shares: 600, holdingDays: 89, rate: 0.005, fee: 6 },
+      { lotDate: '2024-03-01', shares: 500, holdingDays: 30, rate: 0.005, fee: 5 },
+      { lotDate: '2024-03-02', shares: 300, holdingDays: 29, rate: 0.0075, fee: 4.5 },
+      { lotDate: '2024-03-24', shares: 100, holdingDays: 7, rate: 0.0075, fee: 1.5 },
+      { lotDate: '2024-03-25', shares: 100, holdingDays: 6, rate: 0.015, fee: 3 },
+    ]
+  );
+  assert.equal(quote.grossAmount, 3200);
+  assert.equal(quote.fee, 20);
+  assert.equal(quote.netAmount, 3180);
+  assert.equal(quote.effectiveRate, 0.00625);
+  assert.equal(quote.remainingShares, 100);
+});
+
+test('quoteRedemption reports when each lot reaches the next lower rate', async () => {
+  const schedule = await loadSchedule();
+  const quote = quoteRedemption(schedule, buildShareLots(transactions, FUND_CODE), 1700, 2, REDEEM_DATE);
+  const nextChange = Object.fromEntries(quote.lots.map(l => [l.lotDate, l.nextRateChange]));
+
+  assert.deepEqual(nextChange['2024-03-02'], { date: '2024-04-01', rate: 0.005 });
+  assert.deepEqual(nextChange['2024-03-25'], { date: '2024-04-01', rate: 0.0075 });
+  assert.deepEqual(nextChange['2024-01-02'], { date: '2025-01-01', rate: 0.0025 });
+});
+
+test('quoteRedemption rejects redeeming more shares than held', async () => {
+  const schedule = await loadSchedule();
+  assert.throws(
+    () => quoteRedemption(schedule, buildShareLots(transactions, FUND_CODE), 1800, 2, REDEEM_DATE),
+    LedgerValidationError
+  );
+});
@@ -0,0 +1,225 @@
+/**
+ * 赎回费用计算
+ *
+ * 基金公司按「先进先出」确定赎回份额的持有期限：先赎回最早确认的份额，
+ * 每笔份额按各自持有天数适用赎回费率
+ */
+
+import { effectiveDate, LedgerTransaction, LedgerValidationError, sortTransactions } from '../portfolio/ledger';
+import { ledgerService } from '../portfolio/ledger-service';
+import { getLatestNav } from '../nav/nav-history-service';
+import { FeeSchedule, getFeeSchedule, redemptionRate } from './fee-schedule';
+
+/**
+ * 一笔持有份额（按确认日期区分）
+ */
+export interface ShareLot {
+  date: string;                      // 份额确认日，持有期限从这天起算
+  shares: number;
+  source: 'buy' | 'reinvest';
+}
+
+/**
+ * 单笔份额的赎回明细
+ */
+export interface LotRedemption {
+  lotDate: string;
+  shares: number;
+  holdingDays: number;
+  rate: number;                      // 适用赎回费率（小数）
+  grossAmount: number;               // 赎回总额
+  fee: number;                       // 赎回费
+  netAmount: number;                 // 到账金额
+  nextRateChange: { date: string; rate: number } | null;   // 下一次费率下调的日期及新费率
+}
+
+/**
+ * 赎回试算结果
+ */
+export interface RedemptionQuote {
+  fundCode: string;
+  fundName: string;
+  date: string;                      // 赎回申请日
+  nav: number;                       // 试算使用的净值
+  navDate?: string;
+  shares: number;                    // 赎回份额
+  grossAmount: number;
+  fee: number;
+  netAmount: number;
+  effectiveRate: number;             // 综合赎回费率 = 赎回费 / 赎回总额
+  lots: LotRedemption[];
+  remainingShares: number;           // 赎回后剩余份额
+}
+
+// 基金份额保留两位小数
+const SHARE_EPSILON = 0.005;
+
+function round(value: number, digits: number = 2): number {
+  return Math.round(value * 10 ** digits) / 10 ** digits;
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * 重放交易流水，得到当前仍持有的各笔份额（先进先出）
+ *
+ * @param transactions - 台账流水（可包含其他基金）
+ * @param fundCode - 基金代码
+ * @param asOf - 只计入该日期（含）之前生效的流水
+ */
+export function buildShareLots(transactions: LedgerTransaction[], fundCode: string, asOf?: string): ShareLot[] {
+  let lots: ShareLot[] = [];
+
+  for (const tx of sortTransactions(transactions.filter(t => t.fundCode === fundCode))) {
+    const date = effectiveDate(tx);
+    if (asOf && date > asOf) break;
+
+    switch (tx.type) {
+      case 'buy':
+      case 'reinvest':
+        lots.push({ date, shares: tx.shares, source: tx.type });
+        break;
+      case 'sell': {
+        let remaining = tx.shares;
+        for (const lot of lots) {
+          if (remaining <= 0) break;
+          const used = Math.min(lot.shares, remaining);
+          lot.shares -= used;
+          remaining -= used;
+        }
+        break;
+      }
+      case 'split':
+        lots.forEach(lot => { lot.shares *= tx.ratio!; });
+        break;
+    }
+
+    lots = lots.filter(lot => lot.shares >= SHARE_EPSILON);
+  }
+
+  return lots.map(lot => ({ ...lot, shares: round(lot.shares) }));
+}
+
+/**
+ * 赎回试算
+ *
+ * @param schedule - 费率表
+ * @param lots - 持有的各笔份额
+ * @param shares - 赎回份额
+ * @param nav - 赎回净值
+ * @param date - 赎回申请日
+ */
+export function quoteRedemption(
+  schedule: FeeSchedule,
+  lots: ShareLot[],
+  shares: number,
+  nav: number,
+  date: string
+): Omit<RedemptionQuote, 'navDate'> {
+  const held = lots.reduce((sum, lot) => sum + lot.shares, 0);
+  if (shares > held + SHARE_EPSILON) {
+    throw new LedgerValidationError(`赎回份额 ${shares} 超过持有份额 ${round(held)}`);
+  }
+
+  const ordered = [...lots].sort((a, b) => a.date.localeCompare(b.date));
+  const details: LotRedemption[] = [];
+  let remaining = shares;
+
+  for (const lot of ordered) {
+    if (remaining < SHARE_EPSILON) break;
+
+    const lotShares = Math.min(lot.shares, remaining);
+    remaining -= lotShares;
+
+    const holdingDays = daysBetween(lot.date, date);
+    const rate = redemptionRate(schedule, holdingDays);
+    const grossAmount = round(lotShares * nav);
+    const fee = round(grossAmount * rate);
+    const nextTier = schedule.redemption.find(t => t.minDays > holdingDays && t.rate < rate);
+
+    details.push({
+      lotDate: lot.date,
+      shares: round(lotShares),
+      holdingDays,
+      rate,
+      grossAmount,
+      fee,
+      netAmount: round(grossAmount - fee),
+      nextRateChange: nextTier ? { date: addDays(lot.date, nextTier.minDays), rate: nextTier.rate } : null,
+    });
+  }
+
+  const grossAmount = round(details.reduce((sum, d) => sum + d.grossAmount, 0));
+  const fee = round(details.reduce((sum, d) => sum + d.fee, 0));
+
+  return {
+    fundCode: schedule.fundCode,
+    fundName: schedule.fundName,
+    date,
+    nav,
+    shares: round(shares),
+    grossAmount,
+    fee,
+    netAmount: round(grossAmount - fee),
+    effectiveRate: grossAmount > 0 ? round(fee / grossAmount, 6) : 0,
+    lots: details,
+    remainingShares: round(held - shares),
+  };
+}
+
+/**
+ * 按交易流水试算赎回：若今天赎回这些份额，需要付多少赎回费、到账多少
+ *
+ * @param transactions - 交易流水（浏览器本地台账或服务端台账）
+ * @param fundCode - 基金代码
+ * @param options - shares 缺省为全部赎回，nav 缺省为最新净值，date 缺省为今天
+ */
+export async function quoteTransactionsRedemption(
+  transactions: LedgerTransaction[],
+  fundCode: string,
+  options: { shares?: number; nav?: number; date?: string } = {}
+): Promise<RedemptionQuote> {
+  const date = options.date || new Date().toISOString().slice(0, 10);
+  const lots = buildShareLots(transactions, fundCode, date);
+  if (lots.length === 0) {
+    throw new LedgerValidationError(`没有基金 ${fundCode} 的持仓`);
+  }
+
+  const [schedule, latest] = await Promise.all([
+    getFeeSchedule(fundCode),
+    options.nav ? Promise.resolve(null) : getLatestNav(fundCode),
+  ]);
+
+  const nav = options.nav ?? latest?.nav;
+  if (!nav) {
+    throw new Error(`无法获取基金 ${fundCode} 的最新净值`);
+  }
+
+  const shares = options.shares ?? lots.reduce((sum, lot) => sum + lot.shares, 0);
+  return {
+    ...quoteRedemption(schedule, lots, shares, nav, date),
+    navDate: options.nav ? undefined : latest?.date,
+  };
+}
+
+/**
+ * 按服务端台账试算赎回
+ *
+ * @param ledgerId - 台账 ID
+ */
+export async function quoteLedgerRedemption(
+  ledgerId: string,
+  fundCode: string,
+  options: { shares?: number; nav?: number; date?: string } = {}
+): Promise<RedemptionQuote> {
+  const ledger = await ledgerService.getLedger(ledgerId);
+  return quoteTransactionsRedemption(ledger.transactions, fundCode, options);
+}
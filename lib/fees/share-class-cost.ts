@@ -0,0 +1,199 @@
+/**
+ * A/C 份额持有成本对比
+ *
+ * A 类一般前端收取申购费、不收销售服务费，C 类不收申购费、按日计提销售服务费，且持有满 7 天或 30 天后免赎回费。
+ * 持有越久 C 类累计的销售服务费越多，超过某个持有期后 A 类更省，这个持有期就是盈亏平衡点。
+ *
+ * 成本只计两类份额之间有差异的费用:
+ * - 申购费：按 calculatePurchaseFee 计算（默认使用销售平台优惠费率）
+ * - 持有费用：销售服务费，加上管理费、托管费高出另一类的部分，按持有期内的资产逐日计提
+ * - 赎回费：按持有天数对应的费率乘以赎回时的资产
+ *
+ * 资产按预期年化收益复利增长（默认 0，即只看本金），所有金额单位为元
+ */
+
+import { calculatePurchaseFee, FeeSchedule, redemptionRate } from './fee-schedule';
+
+export type ShareClassRole = 'frontLoad' | 'serviceFee';
+
+/**
+ * 参与对比的份额
+ */
+export interface ShareClassInfo {
+  code: string;
+  name: string;
+  shareClass: string | null;
+  schedule: FeeSchedule;
+}
+
+export interface ShareClassCostOptions {
+  amount: number;               // 投入金额
+  horizonDays: number;          // 计划持有天数
+  expectedReturn?: number;      // 预期年化收益（小数），默认 0
+  useDiscount?: boolean;        // 是否使用销售平台优惠申购费率，默认 true
+  maxDays?: number;             // 盈亏平衡点的搜索上限（天），默认 5 年
+}
+
+/**
+ * 持有一定天数的费用
+ */
+export interface HoldingCost {
+  days: number;
+  purchaseFee: number;
+  holdingFee: number;           // 销售服务费及高出的管理费、托管费
+  redemptionFee: number;
+  total: number;
+  totalRate: number;            // 占投入金额的比例（小数）
+}
+
+export interface ShareClassComparison {
+  frontLoad: Omit<ShareClassInfo, 'schedule'> & { annualFee: number };
+  serviceFee: Omit<ShareClassInfo, 'schedule'> & { annualFee: number };
+  amount: number;
+  expectedReturn: number;
+  // 持有天数达到该值后 A 类始终更省；A 类始终更省时为 0，搜索上限内 C 类始终更省时为 null
+  breakEvenDays: number | null;
+  horizon: {
+    days: number;
+    frontLoad: HoldingCost;
+    serviceFee: HoldingCost;
+    cheaper: ShareClassRole | 'equal';
+    saving: number;             // 选择更省的份额节省的费用
+  };
+  milestones: { days: number; label: string; frontLoad: HoldingCost; serviceFee: HoldingCost }[];
+  summary: string;
+}
+
+export const DEFAULT_MAX_DAYS = 5 * 365;
+
+const MILESTONES: { days: number; label: string }[] = [
+  { days: 7, label: '7天' },
+  { days: 30, label: '1个月' },
+  { days: 90, label: '3个月' },
+  { days: 180, label: '6个月' },
+  { days: 365, label: '1年' },
+  { days: 730, label: '2年' },
+  { days: 1095, label: '3年' },
+  { days: 1825, label: '5年' },
+];
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * 持有天数的口语化描述，如 400 → 约 1.1 年
+ */
+export function describeDays(days: number): string {
+  if (days < 60) return `${days} 天`;
+  if (days < 365) return `${days} 天（约 ${(days / 30).toFixed(1)} 个月）`;
+  return `${days} 天（约 ${(days / 365).toFixed(1)} 年）`;
+}
+
+/**
+ * 计算持有一定天数的费用
+ *
+ * @param schedule - 费率表
+ * @param annualFee - 按日计提的年化持有费用（小数）
+ * @param days - 持有天数
+ */
+export function holdingCost(
+  schedule: FeeSchedule,
+  annualFee: number,
+  days: number,
+  options: Pick<ShareClassCostOptions, 'amount' | 'expectedReturn' | 'useDiscount'>
+): HoldingCost {
+  const { amount, expectedReturn = 0, useDiscount = true } = options;
+  const purchase = calculatePurchaseFee(schedule, amount, useDiscount);
+  const growth = Math.log(1 + expectedReturn);
+  const years = days / 365;
+
+  // 持有费用 = ∫ annualFee × 资产 dt，资产按年化收益连续复利增长
+  const value = purchase.netAmount * Math.exp(growth * years);
+  const holdingFee = growth === 0
+    ? annualFee * purchase.netAmount * years
+    : annualFee * purchase.netAmount * (Math.exp(growth * years) - 1) / growth;
+  const redemptionFee = redemptionRate(schedule, days) * Math.max(value - holdingFee, 0);
+  const total = purchase.fee + holdingFee + redemptionFee;
+
+  return {
+    days,
+    purchaseFee: round2(purchase.fee),
+    holdingFee: round2(holdingFee),
+    redemptionFee: round2(redemptionFee),
+    total: round2(total),
+    totalRate: amount > 0 ? total / amount : 0,
+  };
+}
+
+/**
+ * 对比 A 类（前端申购费）和 C 类（销售服务费）份额的持有成本
+ *
+ * @param frontLoad - A 类份额
+ * @param serviceFee - C 类份额
+ */
+export function compareShareClassCosts(
+  frontLoad: ShareClassInfo,
+  serviceFee: ShareClassInfo,
+  options: ShareClassCostOptions
+): ShareClassComparison {
+  const maxDays = options.maxDays ?? DEFAULT_MAX_DAYS;
+  const horizonDays = Math.round(options.horizonDays);
+
+  // 管理费、托管费通常相同，只计较高一方多出的部分
+  const operating = (s: FeeSchedule) => s.managementFee + s.custodyFee;
+  const baseOperating = Math.min(operating(frontLoad.schedule), operating(serviceFee.schedule));
+  const annualFee = (s: FeeSchedule) => s.salesServiceFee + operating(s) - baseOperating;
+  const feeA = annualFee(frontLoad.schedule);
+  const feeC = annualFee(serviceFee.schedule);
+
+  const costA = (days: number) => holdingCost(frontLoad.schedule, feeA, days, options);
+  const costC = (days: number) => holdingCost(serviceFee.schedule, feeC, days, options);
+
+  // 从搜索上限往回找：最后一段 A 类不贵于 C 类的区间的起点
+  let breakEvenDays: number | null = null;
+  for (let days = maxDays; days >= 1; days--) {
+    if (costA(days).total > costC(days).total) break;
+    breakEvenDays = days;
+  }
+  if (breakEvenDays === 1) breakEvenDays = 0;
+
+  const horizonA = costA(horizonDays);
+  const horizonC = costC(horizonDays);
+  const diff = horizonA.total - horizonC.total;
+  const cheaper: ShareClassRole | 'equal' = Math.abs(diff) < 0.005 ? 'equal' : diff < 0 ? 'frontLoad' : 'serviceFee';
+
+  const label = (info: ShareClassInfo, fallback: string) => `${info.shareClass || fallback} 类（${info.code}）`;
+  const labelA = label(frontLoad, 'A');
+  const labelC = label(serviceFee, 'C');
+
+  const breakEvenText = breakEvenDays === null
+    ? `持有 ${describeDays(maxDays)}以内 ${labelC}始终更省`
+    : breakEvenDays === 0
+      ? `${labelA}始终更省`
+      : `持有 ${describeDays(breakEvenDays)}及以上时 ${labelA}更省，更短时 ${labelC}更省`;
+  const horizonText = cheaper === 'equal'
+    ? `计划持有 ${describeDays(horizonDays)}时两类费用基本相同`
+    : `计划持有 ${describeDays(horizonDays)}时选择 ${cheaper === 'frontLoad' ? labelA : labelC}可少付 ${Math.abs(diff).toFixed(2)} 元`;
+
+  const strip = ({ schedule, ...info }: ShareClassInfo) => info;
+
+  return {
+    frontLoad: { ...strip(frontLoad), annualFee: feeA },
+    serviceFee: { ...strip(serviceFee), annualFee: feeC },
+    amount: options.amount,
+    expectedReturn: options.expectedReturn ?? 0,
+    breakEvenDays,
+    horizon: {
+      days: horizonDays,
+      frontLoad: horizonA,
+      serviceFee: horizonC,
+      cheaper,
+      saving: round2(Math.abs(diff)),
+    },
+    milestones: MILESTONES
+      .filter(m => m.days <= maxDays)
+      .map(m => ({ ...m, frontLoad: costA(m.days), serviceFee: costC(m.days) })),
+    summary: `${breakEvenText}；${horizonText}`,
+  };
+}
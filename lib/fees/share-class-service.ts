@@ -0,0 +1,101 @@
+/**
+ * 份额类别对比服务
+ *
+ * 由基金列表找到同一基金的全部份额，获取各份额的费率表，
+ * 按费率区分 A 类（收申购费、无销售服务费）和 C 类（收销售服务费），计算持有成本和盈亏平衡点
+ */
+
+import { getShareClasses } from '../search/fund-universe-service';
+import type { FundShareClass } from '../search/fund-search-index';
+import { FeeSchedule, getFeeSchedule } from './fee-schedule';
+import { compareShareClassCosts, ShareClassComparison, ShareClassCostOptions, ShareClassInfo } from './share-class-cost';
+
+// 同一基金最多获取费率表的份额数
+const MAX_SHARE_CLASSES = 6;
+
+/**
+ * 找不到可对比的 A/C 份额，classes 为已找到的份额
+ */
+export class ShareClassError extends Error {
+  constructor(message: string, public classes: FundShareClass[] = []) {
+    super(message);
+    this.name = 'ShareClassError';
+  }
+}
+
+export interface ShareClassReport {
+  fundCode: string;
+  classes: FundShareClass[];             // 同一基金的全部份额
+  comparison: ShareClassComparison;
+  warnings: string[];
+}
+
+function hasPurchaseFee(schedule: FeeSchedule): boolean {
+  return schedule.purchase.some(t => (t.discountRate ?? t.rate ?? 0) > 0 || (t.fixedFee ?? 0) > 0);
+}
+
+/**
+ * 从带费率表的份额中选出 A 类和 C 类，份额字母与费率不一致时以费率为准
+ */
+function pickClasses(classes: ShareClassInfo[]): { frontLoad?: ShareClassInfo; serviceFee?: ShareClassInfo } {
+  const prefer = (letters: (string | null)[]) => (a: ShareClassInfo, b: ShareClassInfo) =>
+    Number(letters.includes(b.shareClass)) - Number(letters.includes(a.shareClass));
+
+  const frontLoad = classes
+    .filter(c => c.schedule.salesServiceFee === 0 && hasPurchaseFee(c.schedule))
+    .sort(prefer(['A', null]))[0];
+  const serviceFee = classes
+    .filter(c => c.schedule.salesServiceFee > 0)
+    .sort(prefer(['C']))[0];
+
+  return { frontLoad, serviceFee };
+}
+
+/**
+ * 对比同一基金 A/C 份额的持有成本
+ *
+ * @param fundCode - 任一份额的基金代码
+ * @param options - 投入金额、计划持有天数等
+ * @throws ShareClassError 没有其他份额，或缺少 A 类、C 类费率时
+ */
+export async function compareFundShareClasses(
+  fundCode: string,
+  options: ShareClassCostOptions
+): Promise<ShareClassReport> {
+  const classes = await getShareClasses(fundCode);
+  if (classes.length === 0) {
+    throw new ShareClassError(`基金列表中没有 ${fundCode}`);
+  }
+  if (classes.length < 2) {
+    throw new ShareClassError(`${classes[0].name}（${fundCode}）没有其他份额类别`, classes);
+  }
+
+  const warnings: string[] = [];
+  const candidates = classes.slice(0, MAX_SHARE_CLASSES);
+  const schedules = await Promise.allSettled(candidates.map(c => getFeeSchedule(c.code)));
+
+  const withSchedules: ShareClassInfo[] = [];
+  schedules.forEach((result, i) => {
+    const { code, name, shareClass } = candidates[i];
+    if (result.status === 'fulfilled') {
+      withSchedules.push({ code, name, shareClass, schedule: result.value });
+    } else {
+      warnings.push(`${name}（${code}）费率获取失败`);
+    }
+  });
+
+  const { frontLoad, serviceFee } = pickClasses(withSchedules);
+  if (!frontLoad || !serviceFee) {
+    throw new ShareClassError(
+      `${classes[0].name} 缺少${!frontLoad ? '收取申购费的 A 类' : '收取销售服务费的 C 类'}份额费率，无法对比`,
+      classes
+    );
+  }
+
+  return {
+    fundCode,
+    classes,
+    comparison: compareShareClassCosts(frontLoad, serviceFee, options),
+    warnings,
+  };
+}
@@ -0,0 +1,40 @@
+/**
+ * 离线样本数据
+ *
+ * 设置环境变量 DATA_SOURCE=fixture 后，各数据服务改为读取 lib 下各模块 fixtures 目录中
+ * 保存的接口原始响应，用于无网络环境下的开发调试
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * 是否处于离线样本模式
+ */
+export function isFixtureMode(): boolean {
+  return process.env.DATA_SOURCE === 'fixture';
+}
+
+/**
+ * 读取样本文件，不存在时返回 null
+ *
+ * @param segments - 相对于项目 lib 目录的路径片段
+ */
+export async function readFixture(...segments: string[]): Promise<string | null> {
+  try {
+    return await fs.readFile(path.join(process.cwd(), 'lib', ...segments), 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 列出样本目录下的文件名
+ */
+export async function listFixtures(...segments: string[]): Promise<string[]> {
+  try {
+    return await fs.readdir(path.join(process.cwd(), 'lib', ...segments));
+  } catch {
+    return [];
+  }
+}
@@ -8,6 +8,17 @@
 import { Agent } from '@mastra/core/agent';
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
+import { runSipSimulation, SipPerformance } from '../../sip/simulator';
+import { BENCHMARK_MIN_OBSERVATIONS } from '../../benchmark/benchmark';
+import { analyzeFundBenchmark, BenchmarkAnalysis } from '../../benchmark/benchmark-service';
+import { analyzeFundFactors } from '../../factors/factor-service';
+import { describeFactorStyle, FactorRegressionResult } from '../../factors/regression';
+import { getPortfolioOverlap } from '../../exposure/exposure-service';
+import { validateFundCode } from '../../security';
+import { describeDays } from '../../fees/share-class-cost';
+import { compareFundShareClasses, ShareClassError } from '../../fees/share-class-service';
+import { getFundReturns } from '../../risk/fund-returns';
+import { computeSeriesRiskMetrics, DailyReturn } from '../../risk/metrics';
 
 /**
  * 模型 ID
@@ -237,28 +248,22 @@ export const analyzeFundDeeplyTool = createTool({
   execute: async (inputData) => {
     const { fundCode, fundName } = inputData;
 
+    const [returns, benchmarkAnalysis] = await Promise.all([
+      getFundReturns(fundCode).catch(error => {
+        console.warn(`获取基金 ${fundCode} 历史净值失败:`, error);
+        return [] as DailyReturn[];
+      }),
+      analyzeFundBenchmark(fundCode).catch(error => {
+        console.warn(`基金 ${fundCode} 基准分析失败:`, error);
+        return null;
+      }),
+    ]);
+    const factorResult = await analyzeFundFactors(fundCode).catch((error: Error) => error);
+
     const theories = [
-      {
-        name: '现代投资组合理论 (MPT)',
-        score: 65,
-        description: '基于均值-方差框架分析，该基金的夏普比率为 0.45',
-        riskLevel: '中等',
-        recommendation: '风险调整后收益一般，建议谨慎投资',
-      },
-      {
-        name: 'CAPM 资本资产定价模型',
-        score: 70,
-        description: '该基金的 Alpha 值为 1.2%，跑赢市场',
-        details: { beta: '0.95', alpha: '1.2%' },
-        recommendation: '基金表现优于市场，具有选股能力',
-      },
-      {
-        name: 'Fama-French 三因子模型',
-        score: 72,
-        description: '该基金为平衡型，Alpha 为 1.5%',
-        details: { style: '大盘平衡型', alpha: '1.5%' },
-        recommendation: '倾向大盘股，流动性较好',
-      },
+      mptTheory(returns),
+      capmTheory(benchmarkAnalysis),
+      famaFrenchTheory(factorResult),
       {
         name: '技术分析指标',
         score: 60,
@@ -277,8 +282,10 @@ export const analyzeFundDeeplyTool = createTool({
       },
     ];
 
+    // 数据不足的理论不参与评分
+    const scored = theories.filter(t => t.score !== null);
     const overallScore = Math.round(
-      theories.reduce((sum, t) => sum + t.score, 0) / theories.length
+      scored.reduce((sum, t) => sum + t.score, 0) / scored.length
     );
 
     return {
@@ -336,6 +343,31 @@ export const analyzeFundWithTheoryTool = createTool({
   execute: async (inputData) => {
     const { fundCode, fundName, theory } = inputData;
 
+    if (theory === 'fama-french') {
+      try {
+        const result = await analyzeFundFactors(fundCode);
+        const section = famaFrenchTheory(result);
+        return {
+          success: true,
+          analysis: [
+            `## ${section.name} 分析\n`,
+            `### ${fundName}(${fundCode})\n`,
+            `${section.description}\n`,
+            ...Object.entries(section.details || {}).map(([key, value]) => `- **${key}**: ${value}`),
+            `\n**建议**: ${section.recommendation}`,
+          ].join('\n'),
+          theory,
+          data: result,
+        };
+      } catch (error) {
+        return {
+          success: false,
+          theory,
+          message: `因子回归失败: ${error instanceof Error ? error.message : '未知错误'}`,
+        };
+      }
+    }
+
     const theoryNames: Record<string, string> = {
       mpt: '现代投资组合理论 (MPT)',
       capm: 'CAPM 资本资产定价模型',
@@ -410,6 +442,303 @@ export const runFundAnalysisWorkflowTool = createTool({
   },
 });
 
+/**
+ * 工具8: 定投模拟
+ * 在历史净值上回放定投计划，与同金额一次性投入对比
+ */
+export const simulateSipTool = createTool({
+  id: 'simulate-sip',
+  description: '在历史净值上模拟基金定投计划（每周/双周/每月；定额、价值平均、估值分位或均线偏离智能定投），返回累计份额、收益率、XIRR、最大回撤，并与一次性投入对比',
+  inputSchema: z.object({
+    fundCode: z.string().describe('基金代码，如 110022'),
+    amount: z.number().positive().describe('每期基准金额（元）'),
+    frequency: z.enum(['weekly', 'biweekly', 'monthly']).default('monthly').describe('定投频率'),
+    startDate: z.string().describe('开始日期，格式 YYYY-MM-DD'),
+    endDate: z.string().optional().describe('结束日期，默认最新净值日'),
+    strategy: z.enum(['fixed', 'value-averaging', 'percentile', 'ma-deviation']).default('fixed')
+      .describe('定投方式：fixed 定额，value-averaging 价值平均，percentile 估值分位，ma-deviation 均线偏离'),
+  }),
+  execute: async (inputData) => {
+    const { fundCode, amount, frequency, startDate, endDate, strategy } = inputData;
+
+    try {
+      const result = await runSipSimulation(fundCode, {
+        amount,
+        frequency: frequency || 'monthly',
+        startDate,
+        endDate,
+        strategy,
+      });
+
+      const percent = (v: number | null) => (v === null ? '--' : (v * 100).toFixed(2) + '%');
+      const summarize = (p: SipPerformance) => ({
+        totalInvested: p.totalInvested.toFixed(2),
+        shares: p.shares.toFixed(2),
+        averageCost: p.averageCost.toFixed(4),
+        marketValue: p.marketValue.toFixed(2),
+        profit: p.profit.toFixed(2),
+        returnRate: percent(p.returnRate),
+        xirr: percent(p.xirr),
+        maxDrawdown: percent(p.drawdown.maxDrawdown),
+        maxLoss: `${p.maxLoss.amount.toFixed(2)} (${percent(p.maxLoss.percent)})`,
+      });
+
+      return {
+        success: true,
+        fundCode,
+        period: `${result.startDate} ~ ${result.endDate}`,
+        periods: result.periods,
+        sip: summarize(result.sip),
+        lumpSum: summarize(result.lumpSum),
+        comparison: result.sip.profit >= result.lumpSum.profit
+          ? `定投收益高于一次性投入 ${(result.sip.profit - result.lumpSum.profit).toFixed(2)} 元`
+          : `一次性投入收益高于定投 ${(result.lumpSum.profit - result.sip.profit).toFixed(2)} 元`,
+        skipped: result.skipped,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `定投模拟失败: ${error instanceof Error ? error.message : '未知错误'}`,
+      };
+    }
+  },
+});
+
+/**
+ * 工具9: 持仓重叠分析
+ * 穿透各基金重仓股，找出组合中被多只基金重复持有的股票
+ */
+export const analyzeHoldingsOverlapTool = createTool({
+  id: 'analyze-holdings-overlap',
+  description: '分析多只基金的持仓重叠：两两重叠度、每只股票在整个组合中的穿透权重，以及单只股票占比过高的预警',
+  inputSchema: z.object({
+    funds: z.array(z.object({
+      code: z.string().describe('基金代码'),
+      weight: z.number().nonnegative().optional().describe('持有金额或比例，缺省为等权'),
+    })).min(2).max(30).describe('组合中的基金'),
+    threshold: z.number().positive().max(100).optional().describe('个股穿透权重预警阈值（%），默认 5'),
+  }),
+  execute: async (inputData) => {
+    const { funds, threshold } = inputData;
+
+    const invalid = funds.filter(f => !validateFundCode(f.code)).map(f => f.code);
+    if (invalid.length > 0) {
+      return { success: false, message: `基金代码格式错误: ${invalid.join('、')}` };
+    }
+
+    const duplicated = funds.map(f => f.code).filter((code, i, codes) => codes.indexOf(code) !== i);
+    if (duplicated.length > 0) {
+      return { success: false, message: `基金代码重复: ${Array.from(new Set(duplicated)).join('、')}，请合并为一条并填写合计金额` };
+    }
+
+    try {
+      const report = await getPortfolioOverlap(
+        funds.map(f => ({ code: f.code, weight: f.weight ?? 1 })),
+        threshold
+      );
+
+      return {
+        success: true,
+        pairs: report.pairs.map(p => ({
+          funds: `${p.fundA} / ${p.fundB}`,
+          overlap: `${p.overlap.toFixed(2)}%`,
+          commonStocks: p.commonStocks.map(s => s.stockName).join('、') || '无',
+        })),
+        topStocks: report.stocks.slice(0, 10).map(s => ({
+          stock: `${s.stockName}(${s.stockCode})`,
+          effectiveWeight: `${s.effectiveWeight.toFixed(2)}%`,
+          heldBy: s.funds.map(f => f.fundCode).join('、'),
+        })),
+        warnings: report.warnings.map(w => w.message),
+        missing: report.missing,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `持仓重叠分析失败: ${error instanceof Error ? error.message : '未知错误'}`,
+      };
+    }
+  },
+});
+
+/**
+ * 工具10: A/C 份额持有成本对比
+ * 按费率表计算 A 类（申购费）和 C 类（销售服务费）的盈亏平衡持有期
+ */
+export const compareShareClassesTool = createTool({
+  id: 'compare-share-classes',
+  description: '对比同一基金 A 类和 C 类份额的持有成本：按投入金额和计划持有天数计算申购费、销售服务费、赎回费，给出盈亏平衡持有期和更省的份额',
+  inputSchema: z.object({
+    fundCode: z.string().describe('任一份额的基金代码'),
+    amount: z.number().positive().optional().describe('投入金额（元），默认 10000'),
+    horizonDays: z.number().int().min(1).max(3650).optional().describe('计划持有天数，默认 365'),
+    expectedReturn: z.number().gt(-1).max(1).optional().describe('预期年化收益（小数），默认 0'),
+  }),
+  execute: async (inputData) => {
+    const { fundCode, amount = 10000, horizonDays = 365, expectedReturn = 0 } = inputData;
+
+    try {
+      const { classes, comparison: c, warnings } = await compareFundShareClasses(fundCode, {
+        amount,
+        horizonDays,
+        expectedReturn,
+      });
+      const cost = (total: number, rate: number) => `${total.toFixed(2)} 元（${(rate * 100).toFixed(2)}%）`;
+
+      return {
+        success: true,
+        shareClasses: classes.map(s => `${s.name}(${s.code})`),
+        frontLoad: `${c.frontLoad.name}(${c.frontLoad.code})`,
+        serviceFee: `${c.serviceFee.name}(${c.serviceFee.code})，年化销售服务费等 ${(c.serviceFee.annualFee * 100).toFixed(2)}%`,
+        breakEven: c.breakEvenDays === null
+          ? '计算范围内 C 类始终更省'
+          : c.breakEvenDays === 0 ? 'A 类始终更省' : describeDays(c.breakEvenDays),
+        horizon: {
+          days: c.horizon.days,
+          frontLoadCost: cost(c.horizon.frontLoad.total, c.horizon.frontLoad.totalRate),
+          serviceFeeCost: cost(c.horizon.serviceFee.total, c.horizon.serviceFee.totalRate),
+          cheaper: c.horizon.cheaper === 'frontLoad' ? 'A 类' : c.horizon.cheaper === 'serviceFee' ? 'C 类' : '基本相同',
+        },
+        milestones: c.milestones.map(m => ({
+          holding: m.label,
+          frontLoad: cost(m.frontLoad.total, m.frontLoad.totalRate),
+          serviceFee: cost(m.serviceFee.total, m.serviceFee.totalRate),
+        })),
+        summary: c.summary,
+        warnings,
+      };
+    } catch (error) {
+      if (error instanceof ShareClassError) {
+        return {
+          success: false,
+          message: error.message,
+          shareClasses: error.classes.map(s => `${s.name}(${s.code})`),
+        };
+      }
+      return {
+        success: false,
+        message: `份额费用对比失败: ${error instanceof Error ? error.message : '未知错误'}`,
+      };
+    }
+  },
+});
+
+function formatPercent(value: number | null, digits: number = 2): string {
+  return value === null ? '--' : `${(value * 100).toFixed(digits)}%`;
+}
+
+function clampScore(value: number): number {
+  return Math.round(Math.max(0, Math.min(100, value)));
+}
+
+/**
+ * 现代投资组合理论：由近一年复权净值收益率计算风险调整后收益
+ */
+function mptTheory(returns: DailyReturn[]) {
+  const name = '现代投资组合理论 (MPT)';
+  if (returns.length < BENCHMARK_MIN_OBSERVATIONS) {
+    return { name, score: null, description: '历史净值不足，无法计算风险收益指标' };
+  }
+
+  const metrics = computeSeriesRiskMetrics(returns);
+  const sharpe = metrics.sharpeRatio;
+
+  return {
+    name,
+    score: clampScore(60 + sharpe * 15),
+    description: `${metrics.startDate} 至 ${metrics.endDate}，年化收益 ${formatPercent(metrics.annualizedReturn)}，年化波动 ${formatPercent(metrics.annualizedVolatility)}，夏普比率为 ${sharpe.toFixed(2)}`,
+    details: {
+      annualizedReturn: formatPercent(metrics.annualizedReturn),
+      annualizedVolatility: formatPercent(metrics.annualizedVolatility),
+      sharpeRatio: sharpe.toFixed(2),
+      maxDrawdown: formatPercent(metrics.drawdown.maxDrawdown),
+    },
+    recommendation: sharpe >= 1 ? '风险调整后收益优秀'
+      : sharpe >= 0.5 ? '风险调整后收益良好'
+        : sharpe >= 0 ? '风险调整后收益一般，建议谨慎投资'
+          : '风险调整后收益为负，承担的波动没有得到补偿',
+  };
+}
+
+/**
+ * CAPM：相对业绩比较基准的 Alpha、Beta 及超额收益归因
+ */
+function capmTheory(analysis: BenchmarkAnalysis | null) {
+  const name = 'CAPM 资本资产定价模型';
+  const metrics = analysis?.metrics;
+  if (!analysis || !metrics) {
+    return { name, score: null, description: '基金或基准行情数据不足，无法计算 Alpha 与 Beta' };
+  }
+
+  const { benchmark } = analysis;
+  const benchmarkLabel = benchmark.source === 'stated' ? `业绩比较基准（${benchmark.text}）` : benchmark.text;
+  const capture = (v: number | null) => (v === null ? '--' : `${(v * 100).toFixed(0)}%`);
+
+  let recommendation = metrics.alpha > 0 && metrics.informationRatio >= 0.5
+    ? '持续跑赢基准，体现出一定的主动管理能力'
+    : metrics.alpha > 0
+      ? '跑赢基准，但超额收益的稳定性一般'
+      : '未能跑赢基准，可考虑跟踪同一基准的指数基金';
+  if (metrics.rSquared < 0.6) {
+    recommendation += '；基准解释力较低（R² 低于 0.6），Alpha 与 Beta 仅供参考';
+  }
+
+  return {
+    name,
+    score: clampScore(60 + metrics.alpha * 200 + metrics.informationRatio * 10),
+    description: `相对${benchmarkLabel}，年化 Alpha 为 ${formatPercent(metrics.alpha)}，Beta 为 ${metrics.beta.toFixed(2)}，年化超额收益 ${formatPercent(metrics.excessReturn)}`,
+    details: {
+      benchmark: benchmark.text,
+      ...(benchmark.unmatched.length > 0 ? { unmatchedComponents: benchmark.unmatched.join('、') } : {}),
+      period: `${metrics.startDate} ~ ${metrics.endDate}（${metrics.observations} 个交易日）`,
+      alpha: formatPercent(metrics.alpha),
+      beta: metrics.beta.toFixed(2),
+      rSquared: metrics.rSquared.toFixed(2),
+      trackingError: formatPercent(metrics.trackingError),
+      informationRatio: metrics.informationRatio.toFixed(2),
+      upCapture: capture(metrics.upCapture),
+      downCapture: capture(metrics.downCapture),
+    },
+    recommendation,
+  };
+}
+
+/**
+ * Fama-French 因子模型：由已导入的因子收益回归得到各因子暴露
+ */
+function famaFrenchTheory(result: FactorRegressionResult | Error) {
+  const name = 'Fama-French 因子模型';
+  if (result instanceof Error) {
+    return { name, score: null, description: `无法进行因子回归：${result.message}` };
+  }
+
+  const style = describeFactorStyle(result);
+  const details: Record<string, string> = {
+    style,
+    period: `${result.startDate} ~ ${result.endDate}（${result.observations} 个交易日）`,
+    alpha: `${formatPercent(result.alpha.annualized)}（t=${result.alpha.tStat.toFixed(2)}）`,
+  };
+  result.exposures.forEach(e => {
+    details[`${e.label}(${e.factor})`] = `${e.beta.toFixed(2)}（t=${e.tStat.toFixed(2)}${e.significant ? '，显著' : ''}）`;
+  });
+  details.rSquared = result.rSquared.toFixed(2);
+  details.residualVolatility = formatPercent(result.residualVolatility);
+
+  const alphaText = result.alpha.significant
+    ? `残差 Alpha 为 ${formatPercent(result.alpha.annualized)}，统计显著`
+    : `残差 Alpha 为 ${formatPercent(result.alpha.annualized)}，统计上不显著`;
+
+  return {
+    name,
+    score: clampScore(60 + result.alpha.annualized * 100 + (result.alpha.significant ? 10 * Math.sign(result.alpha.annualized) : 0)),
+    description: `该基金为${style}，${alphaText}`,
+    details,
+    recommendation: result.alpha.significant && result.alpha.annualized > 0
+      ? '剔除因子暴露后仍有显著超额收益，体现出选股能力'
+      : '收益主要来自因子暴露，可关注同风格的指数或因子产品',
+  };
+}
+
 /**
  * 格式化深度分析报告
  */
@@ -426,7 +755,7 @@ function formatDeepAnalysisReport(
 
   theories.forEach((theory, index) => {
     sections.push(`### ${index + 1}. ${theory.name}\n`);
-    sections.push(`**评分**: ${theory.score}/100\n`);
+    sections.push(`**评分**: ${theory.score === null ? '数据不足' : `${theory.score}/100`}\n`);
     sections.push(`**描述**: ${theory.description}\n\n`);
 
     if (theory.details) {
@@ -511,6 +840,9 @@ export const fundTools = {
   searchFundResearch: searchFundResearchTool,
   analyzeFundWithTheory: analyzeFundWithTheoryTool,
   runFundAnalysisWorkflow: runFundAnalysisWorkflowTool,
+  simulateSip: simulateSipTool,
+  analyzeHoldingsOverlap: analyzeHoldingsOverlapTool,
+  compareShareClasses: compareShareClassesTool,
 };
 
 /**
@@ -532,12 +864,18 @@ export const fundAdvisorAgent = new Agent({
 5. 🔎 使用 searchFundResearch 工具搜索基金相关资料
 6. 📐 使用 analyzeFundWithTheory 工具进行特定理论分析
 7. 🔄 使用 runFundAnalysisWorkflow 工具执行完整分析工作流
+8. 📅 使用 simulateSip 工具模拟定投计划的历史表现
+9. 🧩 使用 analyzeHoldingsOverlap 工具分析多只基金的持仓重叠
+10. 💰 使用 compareShareClasses 工具对比同一基金 A/C 份额的持有成本
 
 工作流程：
 - 用户询问基金时，先调用 searchFunds 工具
 - 用户询问持仓分析时，先调用 analyzePortfolio 工具
 - 用户要求深度分析时，使用 analyzeFundDeeply 或 runFundAnalysisWorkflow 工具
 - 用户询问资料时，使用 searchFundResearch 工具
+- 用户询问定投效果或定投方式时，使用 simulateSip 工具回测，不要凭经验估算
+- 用户持有或比较多只基金时，使用 analyzeHoldingsOverlap 工具检查是否重复持有同一批股票
+- 用户在 A 类和 C 类之间犹豫时，使用 compareShareClasses 工具按计划持有期计算，不要笼统地说"短期选 C、长期选 A"
 - 基于工具返回的结果，给出专业建议
 
 回答风格：
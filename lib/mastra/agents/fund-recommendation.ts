@@ -8,6 +8,7 @@
 import { Agent } from '@mastra/core/agent';
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
+import { getFundUniverse } from '../../search/fund-universe-service';
 
 /**
  * 工具1: 推荐基金
@@ -47,27 +48,19 @@ export const recommendFundsTool = createTool({
 
     const recommendedTypes = fundTypeMap[riskTolerance]?.[investmentHorizon] || ['混合型'];
 
-    // 从东方财富获取基金数据
+    // 从共享的全部基金列表中选取
     try {
-      const url = `https://fund.eastmoney.com/js/fundcode_search.js?timestamp=${Date.now()}`;
-      const response = await fetch(url);
-      const text = await response.text();
-      const match = text.match(/var r = (\[.*?\]);/);
-
-      if (match) {
-        const fundsData = JSON.parse(match[1]);
+      const { funds: fundsData } = await getFundUniverse();
 
+      if (fundsData.length > 0) {
         // 筛选匹配类型的基金
         const filteredFunds = fundsData
-          .filter((fund: any[]) => {
-            const fundType = fund[3] || '';
-            return recommendedTypes.some(type => fundType.includes(type));
-          })
+          .filter(fund => recommendedTypes.some(type => fund.type.includes(type)))
           .slice(0, 10)
-          .map((fund: any[]) => ({
-            code: fund[0],
-            name: fund[2],
-            type: fund[3],
+          .map(fund => ({
+            code: fund.code,
+            name: fund.name,
+            type: fund.type,
           }));
 
         return {
@@ -8,98 +8,142 @@
 import { Agent } from '@mastra/core/agent';
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
+import {
+  InfeasibleConstraintsError,
+  MeanVarianceResult,
+  OptimizationObjective,
+  optimizeMeanVariance,
+} from '../../portfolio/optimizer';
+import {
+  ASSUMED_CORRELATION,
+  CovarianceSource,
+  OptimizationInputError,
+  optimizePortfolio,
+  PortfolioOptimizationResult,
+  resolveCovariance,
+} from '../../portfolio/optimization-service';
+
+const percent = (v: number, digits: number = 2) => (v * 100).toFixed(digits) + '%';
+
+function describeCovarianceSource(source: CovarianceSource): string {
+  return source === 'historical' ? '历史净值（Ledoit-Wolf 收缩协方差）' : `输入波动率 + 假设相关系数 ${ASSUMED_CORRELATION}`;
+}
+
+/**
+ * 各基金权重与风险贡献
+ */
+function formatRiskContributions(result: PortfolioOptimizationResult) {
+  return result.funds.map(f => ({
+    code: f.code,
+    name: f.name,
+    weight: percent(f.weight, 1),
+    marginalRisk: percent(f.marginalRisk),
+    riskContribution: percent(f.riskContribution),
+    riskContributionPercent: percent(f.riskContributionPercent, 1),
+  }));
+}
 
 /**
  * 工具1: 均值方差优化
- * 使用马科维茨均值-方差模型优化投资组合
+ * 在历史协方差矩阵上求解带约束的马科维茨均值-方差模型，并返回有效前沿
  */
 export const meanVarianceOptimizationTool = createTool({
   id: 'mean-variance-optimization',
-  description: '使用马科维茨均值-方差模型优化投资组合，在给定目标收益下最小化风险',
+  description: '使用马科维茨均值-方差模型优化投资组合，支持单基金权重上下限、按基金类型的权重上限，以及目标收益或目标风险，返回最优组合和有效前沿',
   inputSchema: z.object({
     funds: z.array(z.object({
       code: z.string(),
       name: z.string(),
       expectedReturn: z.number(),
-      volatility: z.number(),
+      volatility: z.number().positive(),
+      type: z.string().optional().describe('基金类型，如 股票型、债券型'),
     })).describe('候选基金列表，包含预期收益率和波动率'),
-    targetReturn: z.number().describe('目标收益率（如 0.12 表示 12%）'),
+    targetReturn: z.number().optional().describe('目标收益率（如 0.12 表示 12%），求达到该收益的最小风险组合'),
+    targetRisk: z.number().optional().describe('目标波动率（如 0.15 表示 15%），求不超过该风险的最大收益组合'),
+    minWeight: z.number().default(0).describe('单只基金最小权重'),
+    maxWeight: z.number().default(1).describe('单只基金最大权重'),
+    typeCaps: z.array(z.object({
+      type: z.string(),
+      max: z.number(),
+    })).optional().describe('按基金类型的权重上限，如 [{ type: "股票型", max: 0.4 }]'),
+    riskFreeRate: z.number().default(0.03).describe('无风险利率'),
   }),
   execute: async (inputData) => {
-    const { funds, targetReturn } = inputData;
-    // 简化实现：等权重优化
-    const n = funds.length;
-    const equalWeight = 1 / n;
-
-    // 计算等权重组合的预期收益和风险
-    const portfolioReturn = funds.reduce((sum, fund) => sum + fund.expectedReturn * equalWeight, 0);
-    const portfolioVolatility = Math.sqrt(
-      funds.reduce((sum, fund) => {
-        const deviation = fund.volatility - portfolioReturn;
-        return sum + Math.pow(deviation, 2) * equalWeight;
-      }, 0)
-    );
-
-    // 调整权重以达到目标收益（简化算法）
-    let optimizedWeights = funds.map(() => equalWeight);
-    const currentReturn = portfolioReturn;
-    const diff = targetReturn - currentReturn;
-
-    if (Math.abs(diff) > 0.01) {
-      // 简单调整：增加高收益基金权重，减少低收益基金权重
-      const sortedByReturn = [...funds].sort((a, b) => b.expectedReturn - a.expectedReturn);
-      const highReturnFunds = sortedByReturn.slice(0, Math.ceil(n / 2));
-      const lowReturnFunds = sortedByReturn.slice(Math.ceil(n / 2));
-
-      const adjustment = diff / 2;
-      highReturnFunds.forEach((fund, idx) => {
-        const fundIdx = funds.findIndex(f => f.code === fund.code);
-        optimizedWeights[fundIdx] += adjustment / highReturnFunds.length;
-      });
-      lowReturnFunds.forEach((fund, idx) => {
-        const fundIdx = funds.findIndex(f => f.code === fund.code);
-        optimizedWeights[fundIdx] -= adjustment / lowReturnFunds.length;
+    const { funds, targetReturn, targetRisk, minWeight, maxWeight, typeCaps, riskFreeRate } = inputData;
+    let covarianceSource: CovarianceSource;
+    let result: MeanVarianceResult;
+    try {
+      const { covariance, source } = await resolveCovariance(
+        funds.map(f => f.code),
+        funds.map(f => f.volatility)
+      );
+      covarianceSource = source;
+      result = optimizeMeanVariance(covariance, funds.map(f => f.expectedReturn), {
+        targetReturn,
+        targetRisk: targetReturn === undefined ? targetRisk : undefined,
+        minWeight,
+        maxWeight,
+        types: funds.map(f => f.type || ''),
+        typeConstraints: typeCaps?.map(c => ({ type: c.type, max: c.max })),
+        riskFreeRate,
       });
+    } catch (error) {
+      if (error instanceof InfeasibleConstraintsError) {
+        return { success: false, error: `约束条件无可行解: ${error.message}` };
+      }
+      if (error instanceof OptimizationInputError) {
+        return { success: false, error: `输入数据不足: ${error.message}` };
+      }
+      throw error;
     }
 
-    // 确保权重为正且总和为1
-    optimizedWeights = optimizedWeights.map(w => Math.max(0.01, Math.min(0.5, w)));
-    const totalWeight = optimizedWeights.reduce((sum, w) => sum + w, 0);
-    optimizedWeights = optimizedWeights.map(w => w / totalWeight);
-
-    const optimizedReturn = funds.reduce((sum, fund, idx) => sum + fund.expectedReturn * optimizedWeights[idx], 0);
-    const optimizedVolatility = Math.sqrt(
-      funds.reduce((sum, fund, idx) => {
-        const deviation = fund.volatility - optimizedReturn;
-        return sum + Math.pow(deviation, 2) * optimizedWeights[idx];
-      }, 0)
-    );
+    const { portfolio, frontier } = result;
+    const objectiveLabels: Record<OptimizationObjective, string> = {
+      'min-variance': '最小方差',
+      'max-sharpe': '最大夏普比率',
+      'target-return': `目标收益 ${percent(targetReturn ?? 0)}`,
+      'target-risk': `目标风险 ${percent(targetRisk ?? 0)}`,
+    };
 
     return {
       success: true,
       optimization: {
         method: '均值方差优化（马科维茨模型）',
-        targetReturn: (targetReturn * 100).toFixed(2) + '%',
+        objective: objectiveLabels[result.objective],
+        attainable: result.attainable,
+        message: result.message,
         optimizedWeights: funds.map((fund, idx) => ({
           code: fund.code,
           name: fund.name,
-          weight: (optimizedWeights[idx] * 100).toFixed(1) + '%',
+          type: fund.type,
+          weight: percent(portfolio.weights[idx], 1),
         })),
-        expectedReturn: (optimizedReturn * 100).toFixed(2) + '%',
-        expectedRisk: (optimizedVolatility * 100).toFixed(2) + '%',
-        sharpeRatio: ((optimizedReturn - 0.03) / optimizedVolatility).toFixed(2),
+        expectedReturn: percent(portfolio.expectedReturn),
+        expectedRisk: percent(portfolio.volatility),
+        sharpeRatio: portfolio.sharpeRatio.toFixed(2),
+        constraints: [
+          `单基金权重: ${percent(minWeight, 0)}-${percent(maxWeight, 0)}`,
+          ...(typeCaps || []).map(c => `${c.type} ≤ ${percent(c.max, 0)}`),
+        ],
+        covarianceSource: describeCovarianceSource(covarianceSource),
       },
+      efficientFrontier: frontier.map(point => ({
+        expectedReturn: percent(point.expectedReturn),
+        risk: percent(point.volatility),
+        sharpeRatio: point.sharpeRatio.toFixed(2),
+        weights: funds.map((fund, idx) => ({ code: fund.code, weight: percent(point.weights[idx], 1) })),
+      })),
     };
   },
 });
 
 /**
  * 工具2: 风险平价优化
- * 使用风险平价方法优化投资组合
+ * 在协方差矩阵上迭代求解等风险贡献权重
  */
 export const riskParityOptimizationTool = createTool({
   id: 'risk-parity-optimization',
-  description: '使用风险平价方法优化投资组合，使各资产风险贡献相等',
+  description: '使用风险平价方法优化投资组合，使各基金对组合波动率的风险贡献相等，返回各基金的边际风险贡献和风险贡献占比',
   inputSchema: z.object({
     funds: z.array(z.object({
       code: z.string(),
@@ -109,30 +153,32 @@ export const riskParityOptimizationTool = createTool({
   }),
   execute: async (inputData) => {
     const { funds } = inputData;
-    // 风险平价：权重与波动率成反比
-    const invVolSum = funds.reduce((sum, fund) => sum + 1 / fund.volatility, 0);
-    const weights = funds.map(fund => (1 / fund.volatility) / invVolSum);
 
-    const portfolioVolatility = Math.sqrt(
-      funds.reduce((sum, fund, idx) => {
-        return sum + Math.pow(fund.volatility * weights[idx], 2);
-      }, 0)
-    );
+    let result: PortfolioOptimizationResult;
+    try {
+      result = await optimizePortfolio({
+        method: 'risk-parity',
+        funds: funds.map(f => ({ code: f.code, name: f.name, volatility: f.volatility })),
+      });
+    } catch (error) {
+      if (error instanceof OptimizationInputError) {
+        return { success: false, error: `输入数据不足: ${error.message}` };
+      }
+      throw error;
+    }
 
     return {
       success: true,
       optimization: {
-        method: '风险平价优化',
-        description: '各资产风险贡献相等，适合风险厌恶型投资者',
-        optimizedWeights: funds.map((fund, idx) => ({
-          code: fund.code,
-          name: fund.name,
-          weight: (weights[idx] * 100).toFixed(1) + '%',
-          riskContribution: '相等',
-        })),
-        portfolioVolatility: (portfolioVolatility * 100).toFixed(2) + '%',
+        method: '风险平价优化（等风险贡献）',
+        description: '各基金对组合波动率的贡献相等，适合风险厌恶型投资者',
+        optimizedWeights: formatRiskContributions(result),
+        portfolioVolatility: percent(result.volatility),
+        converged: result.converged,
+        iterations: result.iterations,
+        covarianceSource: describeCovarianceSource(result.covarianceSource),
       },
-      note: '风险平价策略可以有效降低组合波动，适合长期投资。',
+      note: '风险平价不依赖预期收益估计，低波动基金权重较高，长期持有时回撤相对可控。',
     };
   },
 });
@@ -143,7 +189,7 @@ export const riskParityOptimizationTool = createTool({
  */
 export const minVarianceOptimizationTool = createTool({
   id: 'min-variance-optimization',
-  description: '最小化投资组合方差，获得最低风险配置',
+  description: '在单只基金权重上下限约束下求解全局最小方差组合，返回各基金的边际风险贡献和风险贡献占比',
   inputSchema: z.object({
     funds: z.array(z.object({
       code: z.string(),
@@ -156,47 +202,35 @@ export const minVarianceOptimizationTool = createTool({
   }),
   execute: async (inputData) => {
     const { funds, minWeight, maxWeight } = inputData;
-    // 简化实现：低波动基金获得更高权重
-    const sortedByVol = [...funds].sort((a, b) => a.volatility - b.volatility);
-
-    // 分配权重：低波动基金高权重
-    const weights = new Array(funds.length).fill(0);
-    const lowVolFunds = sortedByVol.slice(0, Math.ceil(funds.length / 2));
-    const remainingWeight = 1 - lowVolFunds.length * minWeight;
-
-    lowVolFunds.forEach((fund, idx) => {
-      const fundIdx = funds.findIndex(f => f.code === fund.code);
-      weights[fundIdx] = minWeight + (remainingWeight / lowVolFunds.length) * (1 - idx / lowVolFunds.length);
-    });
-
-    // 填充剩余基金
-    funds.forEach((fund, idx) => {
-      if (weights[idx] === 0) weights[idx] = minWeight;
-    });
-
-    // 归一化
-    const totalWeight = weights.reduce((sum, w) => sum + w, 0);
-    const normalizedWeights = weights.map(w => Math.max(minWeight, Math.min(maxWeight, w / totalWeight)));
 
-    // 计算组合波动率
-    const portfolioVolatility = Math.sqrt(
-      funds.reduce((sum, fund, idx) => {
-        return sum + Math.pow(fund.volatility * normalizedWeights[idx], 2);
-      }, 0)
-    );
+    let result: PortfolioOptimizationResult;
+    try {
+      result = await optimizePortfolio({
+        method: 'min-variance',
+        funds: funds.map(f => ({ code: f.code, name: f.name, volatility: f.volatility, expectedReturn: f.expectedReturn })),
+        minWeight,
+        maxWeight,
+      });
+    } catch (error) {
+      if (error instanceof InfeasibleConstraintsError) {
+        return { success: false, error: `约束条件无可行解: ${error.message}` };
+      }
+      if (error instanceof OptimizationInputError) {
+        return { success: false, error: `输入数据不足: ${error.message}` };
+      }
+      throw error;
+    }
 
     return {
       success: true,
       optimization: {
         method: '最小方差优化',
         description: '在约束条件下最小化组合波动率',
-        optimizedWeights: funds.map((fund, idx) => ({
-          code: fund.code,
-          name: fund.name,
-          weight: (normalizedWeights[idx] * 100).toFixed(1) + '%',
-        })),
-        portfolioVolatility: (portfolioVolatility * 100).toFixed(2) + '%',
-        constraints: `单基金权重: ${(minWeight * 100).toFixed(0)}%-${(maxWeight * 100).toFixed(0)}%`,
+        optimizedWeights: formatRiskContributions(result),
+        portfolioVolatility: percent(result.volatility),
+        expectedReturn: result.expectedReturn !== null ? percent(result.expectedReturn) : undefined,
+        constraints: `单基金权重: ${percent(minWeight, 0)}-${percent(maxWeight, 0)}`,
+        covarianceSource: describeCovarianceSource(result.covarianceSource),
       },
       note: '最小方差策略适合风险厌恶型投资者，但可能牺牲部分收益。',
     };
@@ -280,9 +314,9 @@ export const portfolioOptimizationAgent = new Agent({
 
 ## 优化方法
 
-1. **均值方差优化**: 马科维茨模型，在给定目标收益下最小化风险
-2. **风险平价优化**: 各资产风险贡献相等，适合风险厌恶型投资者
-3. **最小方差优化**: 在约束条件下最小化组合波动率
+1. **均值方差优化**: 马科维茨模型，支持目标收益/目标风险、单基金权重上下限和按类型的权重上限，并给出有效前沿
+2. **风险平价优化**: 在协方差矩阵上迭代求解，使各基金风险贡献相等，适合风险厌恶型投资者
+3. **最小方差优化**: 在权重上下限约束下求解全局最小方差组合
 4. **因子暴露优化**: 根据风格因子优化配置，获取超额收益
 
 ## 优化原则
@@ -6,6 +6,7 @@
  */
 
 import { z } from 'zod';
+import { getFundUniverse } from '../../search/fund-universe-service';
 
 // 输入验证 schema
 export const fundSelectionInputSchema = z.object({
@@ -99,24 +100,16 @@ export async function executeFundSelectionWorkflow(input: FundSelectionInput): P
   };
 
   try {
-    const url = `https://fund.eastmoney.com/js/fundcode_search.js?timestamp=${Date.now()}`;
-    const response = await fetch(url);
-    const text = await response.text();
-    const match = text.match(/var r = (\[.*?\]);/);
-
-    if (match) {
-      const fundsData = JSON.parse(match[1]);
+    const { funds: fundsData } = await getFundUniverse();
 
+    if (fundsData.length > 0) {
       const filteredFunds = fundsData
-        .filter((fund: any[]) => {
-          const fundType = fund[3] || '';
-          return step1.output.recommendedFundTypes.some((type: string) => fundType.includes(type));
-        })
+        .filter(fund => step1.output.recommendedFundTypes.some((type: string) => fund.type.includes(type)))
         .slice(0, 20)
-        .map((fund: any[]) => ({
-          code: fund[0],
-          name: fund[2],
-          type: fund[3],
+        .map(fund => ({
+          code: fund.code,
+          name: fund.name,
+          type: fund.type,
         }));
 
       step2.status = 'completed';
@@ -128,7 +121,7 @@ export async function executeFundSelectionWorkflow(input: FundSelectionInput): P
     } else {
       step2.status = 'failed';
       step2.output = {
-        error: '无法解析基金数据',
+        error: '基金列表为空',
       };
     }
   } catch (error) {
@@ -0,0 +1,156 @@
+/**
+ * 基金历史净值接口 (F10DataApi.aspx?type=lsjz)
+ *
+ * 接口返回格式:
+ * var apidata={ content:"<table>...</table>",records:4000,pages:82,curpage:1};
+ * 表格每行: 净值日期、单位净值、累计净值、日增长率、申购状态、赎回状态、分红送配
+ */
+
+import * as cheerio from 'cheerio';
+import { isFixtureMode, readFixture } from '../fixtures';
+
+/**
+ * 单日净值记录
+ */
+export interface NavRecord {
+  date: string;               // 净值日期 (YYYY-MM-DD)
+  nav: number;                // 单位净值
+  accumulatedNav: number;     // 累计净值
+  dayGrowth: number | null;   // 日增长率 (%)，新基金建仓期等情况为空
+  purchaseStatus: string;     // 申购状态
+  redemptionStatus: string;   // 赎回状态
+  dividend: string;           // 分红送配，如 每份派现金0.0500元
+}
+
+/**
+ * 单页解析结果
+ */
+export interface LsjzPage {
+  records: NavRecord[];   // 按日期倒序
+  totalRecords: number;
+  pages: number;
+  curpage: number;
+}
+
+/**
+ * 查询参数
+ */
+export interface LsjzQuery {
+  page?: number;
+  per?: number;          // 每页条数，接口上限 49
+  startDate?: string;    // 开始日期 (YYYY-MM-DD)
+  endDate?: string;      // 结束日期 (YYYY-MM-DD)
+}
+
+// 接口单页最多返回 49 条
+export const LSJZ_MAX_PER_PAGE = 49;
+
+/**
+ * 解析 lsjz 接口响应
+ */
+export function parseLsjz(payload: string): LsjzPage {
+  const contentMatch = payload.match(/content:"([\s\S]*?)",\s*records/);
+  const number = (key: string) => {
+    const match = payload.match(new RegExp(`${key}:(\\d+)`));
+    return match ? parseInt(match[1], 10) : 0;
+  };
+
+  const $ = cheerio.load(contentMatch ? contentMatch[1] : payload);
+  const records: NavRecord[] = [];
+
+  $('tbody tr').each((_, tr) => {
+    const cells = $(tr).find('td').map((_, td) => $(td).text().trim()).get();
+    if (cells.length < 3 || !/^\d{4}-\d{2}-\d{2}$/.test(cells[0])) return;
+
+    const nav = parseFloat(cells[1]);
+    if (isNaN(nav)) return;
+
+    const growth = parseFloat((cells[3] || '').replace('%', ''));
+
+    records.push({
+      date: cells[0],
+      nav,
+      accumulatedNav: parseFloat(cells[2]) || nav,
+      dayGrowth: isNaN(growth) ? null : growth,
+      purchaseStatus: cells[4] || '',
+      redemptionStatus: cells[5] || '',
+      dividend: cells[6] || '',
+    });
+  });
+
+  return {
+    records,
+    totalRecords: number('records'),
+    pages: number('pages'),
+    curpage: number('curpage'),
+  };
+}
+
+/**
+ * 获取单页历史净值
+ *
+ * @param fundCode - 基金代码
+ * @param query - 分页与日期范围
+ */
+export async function fetchLsjzPage(fundCode: string, query: LsjzQuery = {}): Promise<LsjzPage> {
+  const { page = 1, per = LSJZ_MAX_PER_PAGE, startDate = '', endDate = '' } = query;
+
+  if (isFixtureMode()) {
+    const fixture = await readFixture('nav', 'fixtures', `lsjz_${fundCode}.html`);
+    if (fixture === null) {
+      throw new Error(`离线样本中没有基金 ${fundCode} 的净值数据`);
+    }
+
+    // 样本为单页全量数据，在本地完成日期过滤和分页
+    const all = parseLsjz(fixture).records.filter(r =>
+      (!startDate || r.date >= startDate) && (!endDate || r.date <= endDate)
+    );
+    return {
+      records: all.slice((page - 1) * per, page * per),
+      totalRecords: all.length,
+      pages: Math.ceil(all.length / per),
+      curpage: page,
+    };
+  }
+
+  const url = `https://fundf10.eastmoney.com/F10DataApi.aspx?type=lsjz&code=${fundCode}&sort=date&desc=true&page=${page}&per=${per}&sdate=${startDate}&edate=${endDate}`;
+
+  const response = await fetch(url, {
+    headers: {
+      'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+      'Referer': `https://fundf10.eastmoney.com/jjjz_${fundCode}.html`,
+    },
+    signal: AbortSignal.timeout(10000),
+  });
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  }
+
+  return parseLsjz(await response.text());
+}
+
+/**
+ * 获取日期范围内的全部历史净值（自动翻页）
+ *
+ * @param fundCode - 基金代码
+ * @param startDate - 开始日期，不传则从成立日起
+ * @param endDate - 结束日期，不传则到最新
+ * @returns 按日期升序排列的净值记录
+ */
+export async function fetchNavRange(
+  fundCode: string,
+  startDate?: string,
+  endDate?: string
+): Promise<NavRecord[]> {
+  const first = await fetchLsjzPage(fundCode, { page: 1, startDate, endDate });
+  const records = [...first.records];
+
+  for (let page = 2; page <= first.pages; page++) {
+    const next = await fetchLsjzPage(fundCode, { page, startDate, endDate });
+    if (next.records.length === 0) break;
+    records.push(...next.records);
+  }
+
+  return records.reverse();
+}
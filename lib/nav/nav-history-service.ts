@@ -0,0 +1,139 @@
+/**
+ * 基金历史净值服务
+ *
+ * 首次请求时翻页拉取完整净值序列并保存到本地，之后只拉取本地最新日期之后的增量
+ * 所有需要历史净值或最新净值的模块都应通过这里获取
+ */
+
+import { JsonFileStore } from '../storage/json-file-store';
+import { isFixtureMode } from '../fixtures';
+import { fetchLsjzPage, fetchNavRange, NavRecord } from './lsjz';
+
+export type { NavRecord } from './lsjz';
+
+/**
+ * 本地保存的净值序列
+ */
+export interface StoredNavHistory {
+  fundCode: string;
+  records: NavRecord[];   // 按日期升序
+  syncedAt: number;       // 最近一次同步时间戳
+}
+
+/**
+ * 查询参数
+ */
+export interface NavHistoryQuery {
+  from?: string;          // 开始日期 (YYYY-MM-DD)
+  to?: string;            // 结束日期 (YYYY-MM-DD)
+  refresh?: boolean;      // 忽略同步间隔，立即拉取增量
+}
+
+// 净值每个交易日晚间更新一次，同步间隔 30 分钟
+const SYNC_INTERVAL = 30 * 60 * 1000;
+
+function nextDay(date: string): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + 1);
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * 基金历史净值服务类
+ */
+export class NavHistoryService {
+  // 同一只基金的同步只执行一次，并发请求共享结果
+  private syncing = new Map<string, Promise<StoredNavHistory>>();
+
+  /**
+   * @param store - 净值序列存储，离线样本模式下与真实数据分开保存
+   */
+  constructor(
+    private store: JsonFileStore<StoredNavHistory> = new JsonFileStore(isFixtureMode() ? 'fixture-nav-history' : 'nav-history')
+  ) {}
+
+  /**
+   * 同步净值序列（本地无数据时全量拉取，否则拉取增量）
+   */
+  async sync(fundCode: string, force: boolean = false): Promise<StoredNavHistory> {
+    const running = this.syncing.get(fundCode);
+    if (running && !force) return running;
+
+    // 强制刷新排在正在进行的同步之后，不直接复用它的结果
+    const task: Promise<StoredNavHistory> = (running ? running.catch(() => undefined) : Promise.resolve())
+      .then(() => this.doSync(fundCode, force))
+      .finally(() => {
+        if (this.syncing.get(fundCode) === task) this.syncing.delete(fundCode);
+      });
+    this.syncing.set(fundCode, task);
+    return task;
+  }
+
+  private async doSync(fundCode: string, force: boolean): Promise<StoredNavHistory> {
+    const stored = await this.store.read(fundCode);
+
+    if (stored && !force && Date.now() - stored.syncedAt < SYNC_INTERVAL) {
+      return stored;
+    }
+
+    const last = stored?.records[stored.records.length - 1];
+    const increment = await fetchNavRange(fundCode, last ? nextDay(last.date) : undefined);
+
+    const history: StoredNavHistory = {
+      fundCode,
+      records: [...(stored?.records || []), ...increment.filter(r => !last || r.date > last.date)],
+      syncedAt: Date.now(),
+    };
+
+    // 保存失败（如只读部署环境）不影响本次返回的净值
+    if (history.records.length > 0) {
+      await this.store.write(fundCode, history).catch(error => {
+        console.error(`保存 ${fundCode} 历史净值失败:`, error);
+      });
+    }
+
+    return history;
+  }
+
+  /**
+   * 获取历史净值
+   *
+   * @param fundCode - 基金代码
+   * @param query - 日期范围
+   * @returns 按日期升序排列的净值记录
+   */
+  async getHistory(fundCode: string, query: NavHistoryQuery = {}): Promise<NavRecord[]> {
+    const { records } = await this.sync(fundCode, query.refresh);
+
+    return records.filter(r =>
+      (!query.from || r.date >= query.from) && (!query.to || r.date <= query.to)
+    );
+  }
+
+  /**
+   * 获取最新净值
+   *
+   * 本地已有序列时走增量同步；没有时只请求最新一条，不触发全量拉取
+   */
+  async getLatest(fundCode: string): Promise<NavRecord | null> {
+    if (await this.store.read(fundCode)) {
+      const { records } = await this.sync(fundCode);
+      return records[records.length - 1] || null;
+    }
+
+    const page = await fetchLsjzPage(fundCode, { per: 1 });
+    return page.records[0] || null;
+  }
+}
+
+// 导出单例实例
+export const navHistoryService = new NavHistoryService();
+
+// 导出便捷函数
+export async function getNavHistory(fundCode: string, query?: NavHistoryQuery): Promise<NavRecord[]> {
+  return navHistoryService.getHistory(fundCode, query);
+}
+
+export async function getLatestNav(fundCode: string): Promise<NavRecord | null> {
+  return navHistoryService.getLatest(fundCode);
+}
@@ -0,0 +1,307 @@
+/**
+ * 持仓收益表现
+ *
+ * 由台账流水和历史净值逐日重建持仓市值，按区间计算:
+ * - 时间加权收益率（TWR）：剔除申购赎回的影响，衡量所持基金本身的表现
+ * - 资金加权收益率（XIRR）：考虑每笔资金投入的时点和金额，衡量「我实际赚了多少」
+ *
+ * 申购、赎回均按当日净值成交，资金流视为当日收盘时发生，申购费计入当日亏损
+ * 流水按份额确认日记账；本模块只包含纯计算，浏览器端和服务端共用
+ */
+
+import { effectiveDate, LedgerTransaction, sortTransactions } from '../portfolio/ledger';
+import { CashFlow, xirr } from './xirr';
+
+/**
+ * 净值点
+ */
+export interface NavPoint {
+  date: string;   // YYYY-MM-DD
+  nav: number;    // 单位净值
+}
+
+export type PerformancePeriod = '1M' | '3M' | 'YTD' | '1Y' | 'all';
+
+export const PERFORMANCE_PERIODS: PerformancePeriod[] = ['1M', '3M', 'YTD', '1Y', 'all'];
+
+export const PERIOD_LABELS: Record<PerformancePeriod, string> = {
+  '1M': '近1月',
+  '3M': '近3月',
+  'YTD': '今年以来',
+  '1Y': '近1年',
+  'all': '持有以来',
+};
+
+/**
+ * 每日持仓市值
+ */
+export interface DailyValue {
+  date: string;
+  value: number;     // 收盘市值
+  inflow: number;    // 当日申购金额（含申购费）
+  outflow: number;   // 当日赎回到账与现金分红
+}
+
+/**
+ * 区间收益
+ */
+export interface PeriodPerformance {
+  period: PerformancePeriod;
+  startDate: string;        // 区间第一天（持有以来为第一笔流水日期）
+  endDate: string;
+  startValue: number;       // 期初市值（前一日收盘）
+  endValue: number;         // 期末市值
+  netInflow: number;        // 区间净流入 = 申购 - 赎回到账 - 现金分红
+  profit: number;           // 区间收益 = 期末市值 - 期初市值 - 净流入
+  twr: number | null;       // 时间加权收益率（区间累计，小数）
+  xirr: number | null;      // 资金加权收益率（年化，小数）
+}
+
+/**
+ * 一组持仓（单只基金、分组或整个组合）的各区间收益
+ */
+export interface PerformanceEntry {
+  name: string;
+  fundCodes: string[];
+  periods: Partial<Record<PerformancePeriod, PeriodPerformance>>;   // 区间内未持有时缺省
+}
+
+/**
+ * 收益报告
+ */
+export interface PerformanceReport {
+  asOf: string | null;                 // 估值日（最新净值日）
+  portfolio: PerformanceEntry;
+  groups: PerformanceEntry[];
+  funds: PerformanceEntry[];
+  daily: DailyValue[];                 // 组合每日市值
+}
+
+function round(value: number, digits: number = 2): number {
+  return Math.round(value * 10 ** digits) / 10 ** digits;
+}
+
+/**
+ * 区间开始日期，持有以来返回 null
+ *
+ * @param asOf - 估值日
+ */
+export function periodStartDate(period: PerformancePeriod, asOf: string): string | null {
+  if (period === 'all') return null;
+  if (period === 'YTD') return `${asOf.slice(0, 4)}-01-01`;
+
+  const months = period === '1M' ? 1 : period === '3M' ? 3 : 12;
+  const d = new Date(`${asOf}T00:00:00Z`);
+  const day = d.getUTCDate();
+  d.setUTCMonth(d.getUTCMonth() - months);
+  // 月末对齐：3 月 31 日的近 1 月从 2 月最后一天的次日算起
+  if (d.getUTCDate() !== day) d.setUTCDate(0);
+  d.setUTCDate(d.getUTCDate() + 1);
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * 逐日重建持仓市值
+ *
+ * 日期为所涉基金净值日期与流水日期的并集；某只基金当天无净值时沿用最近净值，
+ * 尚无净值时按流水的确认净值估值
+ *
+ * @param transactions - 台账流水
+ * @param navSeries - 各基金历史净值（按日期升序）
+ * @param fundCodes - 只计入这些基金，缺省为流水中的全部基金
+ */
+export function buildDailyValues(
+  transactions: LedgerTransaction[],
+  navSeries: Record<string, NavPoint[]>,
+  fundCodes?: string[]
+): DailyValue[] {
+  const codes = new Set(fundCodes || transactions.map(t => t.fundCode));
+  const txs = sortTransactions(transactions.filter(t => codes.has(t.fundCode)));
+  if (txs.length === 0) return [];
+
+  const firstDate = effectiveDate(txs[0]);
+  const dateSet = new Set(txs.map(effectiveDate));
+  codes.forEach(code => {
+    (navSeries[code] || []).forEach(p => {
+      if (p.date >= firstDate) dateSet.add(p.date);
+    });
+  });
+  const dates = Array.from(dateSet).sort();
+
+  const shares = new Map<string, number>();
+  const prices = new Map<string, number>();
+  const navCursor = new Map<string, number>();
+  const daily: DailyValue[] = [];
+  let txIndex = 0;
+
+  for (const date of dates) {
+    let inflow = 0;
+    let outflow = 0;
+
+    // 当日及之前的净值
+    codes.forEach(code => {
+      const series = navSeries[code] || [];
+      let i = navCursor.get(code) ?? 0;
+      while (i < series.length && series[i].date <= date) {
+        if (series[i].nav > 0) prices.set(code, series[i].nav);
+        i++;
+      }
+      navCursor.set(code, i);
+    });
+
+    while (txIndex < txs.length && effectiveDate(txs[txIndex]) <= date) {
+      const tx = txs[txIndex++];
+      const held = shares.get(tx.fundCode) || 0;
+
+      if (!prices.has(tx.fundCode) && tx.shares > 0) {
+        prices.set(tx.fundCode, tx.nav || (tx.amount - tx.fee) / tx.shares);
+      }
+
+      switch (tx.type) {
+        case 'buy':
+          shares.set(tx.fundCode, held + tx.shares);
+          inflow += tx.amount;
+          break;
+        case 'sell':
+          shares.set(tx.fundCode, Math.max(0, held - tx.shares));
+          outflow += tx.amount;
+          break;
+        case 'dividend':
+          outflow += tx.amount;
+          break;
+        case 'reinvest':
+          shares.set(tx.fundCode, held + tx.shares);
+          break;
+        case 'split':
+          shares.set(tx.fundCode, held * tx.ratio!);
+          break;
+      }
+    }
+
+    let value = 0;
+    shares.forEach((s, code) => {
+      value += s * (prices.get(code) || 0);
+    });
+
+    daily.push({ date, value: round(value), inflow: round(inflow), outflow: round(outflow) });
+  }
+
+  return daily;
+}
+
+/**
+ * 计算单个区间的收益
+ *
+ * @param daily - 每日市值
+ * @returns 区间内未持有时返回 null
+ */
+export function periodPerformance(daily: DailyValue[], period: PerformancePeriod): PeriodPerformance | null {
+  if (daily.length === 0) return null;
+
+  const asOf = daily[daily.length - 1].date;
+  const start = periodStartDate(period, asOf);
+  const firstIndex = start === null ? 0 : daily.findIndex(d => d.date >= start);
+  if (firstIndex < 0) return null;
+
+  const base = firstIndex > 0 ? daily[firstIndex - 1] : null;
+  const startValue = base ? base.value : 0;
+  const days = daily.slice(firstIndex);
+  const inflow = days.reduce((sum, d) => sum + d.inflow, 0);
+  const outflow = days.reduce((sum, d) => sum + d.outflow, 0);
+  if (startValue === 0 && inflow === 0) return null;
+
+  const endValue = daily[daily.length - 1].value;
+
+  // 时间加权：逐日收益连乘，扣除当日资金流；从空仓开始申购的当天收益为市值 / 申购金额
+  let growth = 1;
+  let previous = startValue;
+  let linked = false;
+  for (const d of days) {
+    if (previous > 0) {
+      growth *= (d.value - d.inflow + d.outflow) / previous;
+      linked = true;
+    } else if (d.inflow > 0) {
+      growth *= (d.value + d.outflow) / d.inflow;
+      linked = true;
+    }
+    previous = d.value;
+  }
+
+  // 资金加权：期初市值视为前一日投入，期末市值视为估值日取回
+  const flows: CashFlow[] = [];
+  if (base && startValue > 0) {
+    flows.push({ date: base.date, amount: -startValue });
+  }
+  days.forEach(d => {
+    if (d.inflow > 0) flows.push({ date: d.date, amount: -d.inflow });
+    if (d.outflow > 0) flows.push({ date: d.date, amount: d.outflow });
+  });
+  flows.push({ date: asOf, amount: endValue });
+
+  return {
+    period,
+    startDate: days[0].date,
+    endDate: asOf,
+    startValue,
+    endValue,
+    netInflow: round(inflow - outflow),
+    profit: round(endValue - startValue - inflow + outflow),
+    twr: linked ? round(growth - 1, 6) : null,
+    xirr: xirr(flows),
+  };
+}
+
+function performanceEntry(
+  name: string,
+  fundCodes: string[],
+  transactions: LedgerTransaction[],
+  navSeries: Record<string, NavPoint[]>,
+  asOf: string | null
+): { entry: PerformanceEntry; daily: DailyValue[] } {
+  // 各组估值日统一截止到组合估值日，保证区间一致
+  const daily = buildDailyValues(transactions, navSeries, fundCodes).filter(d => !asOf || d.date <= asOf);
+  const periods: PerformanceEntry['periods'] = {};
+
+  PERFORMANCE_PERIODS.forEach(period => {
+    const result = periodPerformance(daily, period);
+    if (result) periods[period] = result;
+  });
+
+  return { entry: { name, fundCodes, periods }, daily };
+}
+
+/**
+ * 计算组合、分组和单只基金的各区间收益
+ *
+ * @param transactions - 台账流水
+ * @param navSeries - 各基金历史净值（按日期升序）
+ * @param groups - 分组名称到基金代码的映射，如按基金类型分组
+ */
+export function computePerformance(
+  transactions: LedgerTransaction[],
+  navSeries: Record<string, NavPoint[]>,
+  groups: Record<string, string[]> = {}
+): PerformanceReport {
+  const codes = Array.from(new Set(transactions.map(t => t.fundCode)));
+
+  // 估值日取各基金最新净值日中最早的一天，避免部分基金净值未更新造成区间错位
+  const latestDates = codes
+    .map(code => navSeries[code]?.[navSeries[code].length - 1]?.date)
+    .filter((d): d is string => !!d);
+  const asOf = latestDates.length === codes.length && codes.length > 0
+    ? latestDates.sort()[0]
+    : null;
+
+  const portfolio = performanceEntry('组合', codes, transactions, navSeries, asOf);
+  const names = new Map(transactions.filter(t => t.fundName).map(t => [t.fundCode, t.fundName!]));
+
+  return {
+    asOf: asOf || portfolio.daily[portfolio.daily.length - 1]?.date || null,
+    portfolio: portfolio.entry,
+    groups: Object.entries(groups)
+      .map(([name, members]) => performanceEntry(name, members.filter(c => codes.includes(c)), transactions, navSeries, asOf).entry)
+      .filter(g => g.fundCodes.length > 0),
+    funds: codes.map(code => performanceEntry(names.get(code) || code, [code], transactions, navSeries, asOf).entry),
+    daily: portfolio.daily,
+  };
+}
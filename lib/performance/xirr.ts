@@ -0,0 +1,76 @@
+/**
+ * 资金加权收益率（XIRR）
+ *
+ * 求年化收益率 r 使各笔现金流按实际天数折现后净现值为 0:
+ *   Σ amount_i / (1 + r)^((date_i - date_0) / 365) = 0
+ * 现金流以投资者视角记账：投入为负，取回（赎回、分红、期末市值）为正
+ */
+
+/**
+ * 一笔现金流
+ */
+export interface CashFlow {
+  date: string;    // YYYY-MM-DD
+  amount: number;  // 投入为负，取回为正
+}
+
+const DAYS_PER_YEAR = 365;
+const MAX_ITERATIONS = 100;
+const TOLERANCE = 1e-9;
+
+function yearsBetween(from: string, to: string): number {
+  return (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000 / DAYS_PER_YEAR;
+}
+
+/**
+ * 计算 XIRR
+ *
+ * 先用牛顿法迭代，不收敛时在 (-99.99%, 上界) 内二分
+ *
+ * @param flows - 现金流（无需排序）
+ * @param guess - 初始猜测值
+ * @returns 年化收益率（小数），现金流同号或无解时返回 null
+ */
+export function xirr(flows: CashFlow[], guess: number = 0.1): number | null {
+  const sorted = flows
+    .filter(f => f.amount !== 0)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  if (!sorted.some(f => f.amount < 0) || !sorted.some(f => f.amount > 0)) {
+    return null;
+  }
+
+  const start = sorted[0].date;
+  const times = sorted.map(f => yearsBetween(start, f.date));
+  const npv = (rate: number) => sorted.reduce((sum, f, i) => sum + f.amount / Math.pow(1 + rate, times[i]), 0);
+  const derivative = (rate: number) =>
+    sorted.reduce((sum, f, i) => sum - times[i] * f.amount / Math.pow(1 + rate, times[i] + 1), 0);
+
+  let rate = guess;
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const value = npv(rate);
+    const slope = derivative(rate);
+    if (!isFinite(value) || !isFinite(slope) || slope === 0) break;
+
+    const next = rate - value / slope;
+    if (next <= -1 || !isFinite(next)) break;
+    if (Math.abs(next - rate) < TOLERANCE) return next;
+    rate = next;
+  }
+
+  // 牛顿法失败时二分：先扩大上界直到 NPV 变号
+  let lo = -0.9999;
+  let hi = 1;
+  while (npv(lo) * npv(hi) > 0 && hi < 1e6) {
+    hi *= 10;
+  }
+  if (npv(lo) * npv(hi) > 0) return null;
+
+  for (let i = 0; i < 200 && hi - lo > TOLERANCE; i++) {
+    const mid = (lo + hi) / 2;
+    if (npv(lo) * npv(mid) <= 0) hi = mid;
+    else lo = mid;
+  }
+
+  return (lo + hi) / 2;
+}
@@ -0,0 +1,192 @@
+/**
+ * 持仓台账服务
+ *
+ * 把交易流水保存在服务端本地存储，浏览器数据被清除后仍可用台账 ID 恢复
+ * 持仓市值按历史净值服务的最新净值计算
+ */
+
+import { JsonFileStore } from '../storage/json-file-store';
+import { getLatestNav } from '../nav/nav-history-service';
+import { DividendMethod, EventTransactionsResult } from '../events/fund-events';
+import { generateEventTransactions } from '../events/fund-events-service';
+import {
+  buildPosition,
+  buildPositions,
+  createTransaction,
+  LedgerSummary,
+  LedgerTransaction,
+  LedgerTransactionInput,
+  LedgerValidationError,
+  PositionValuation,
+  summarizePositions,
+  valuePosition,
+} from './ledger';
+
+/**
+ * 保存的台账
+ */
+export interface StoredLedger {
+  id: string;
+  transactions: LedgerTransaction[];
+  dividendMethods?: Record<string, DividendMethod>;   // 各基金的分红方式，缺省为现金分红
+  updatedAt: number;
+}
+
+/**
+ * 台账及其持仓
+ */
+export interface LedgerSnapshot extends StoredLedger {
+  positions: PositionValuation[];
+  summary: LedgerSummary;
+}
+
+// 台账 ID 由浏览器生成，只允许字母数字和 -_
+const LEDGER_ID_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
+
+export function isValidLedgerId(id: string): boolean {
+  return LEDGER_ID_PATTERN.test(id);
+}
+
+/**
+ * 持仓台账服务类
+ */
+export class LedgerService {
+  // 同一本台账的读取-修改-保存串行执行，避免并发请求基于旧流水互相覆盖
+  private queues = new Map<string, Promise<unknown>>();
+
+  constructor(private store: JsonFileStore<StoredLedger> = new JsonFileStore('ledgers')) {}
+
+  private async load(id: string): Promise<StoredLedger> {
+    if (!isValidLedgerId(id)) {
+      throw new LedgerValidationError('台账 ID 不合法');
+    }
+    return (await this.store.read(id)) || { id, transactions: [], updatedAt: 0 };
+  }
+
+  private async save(ledger: StoredLedger): Promise<StoredLedger> {
+    const next = { ...ledger, updatedAt: Date.now() };
+    await this.store.write(ledger.id, next);
+    return next;
+  }
+
+  /**
+   * 排队执行对同一本台账的修改：前一个修改完成（无论成败）后才读取台账
+   */
+  private update<R>(id: string, modify: (ledger: StoredLedger) => Promise<R>): Promise<R> {
+    const previous = this.queues.get(id) || Promise.resolve();
+    const task = previous.catch(() => undefined).then(async () => modify(await this.load(id)));
+
+    this.queues.set(id, task);
+    task.catch(() => undefined).then(() => {
+      if (this.queues.get(id) === task) this.queues.delete(id);
+    });
+    return task;
+  }
+
+  /**
+   * 校验整本流水：逐只基金重放，赎回份额超过持有份额时抛错
+   */
+  private checkConsistency(transactions: LedgerTransaction[]): void {
+    Array.from(new Set(transactions.map(t => t.fundCode)))
+      .forEach(code => buildPosition(code, transactions));
+  }
+
+  async getLedger(id: string): Promise<StoredLedger> {
+    return this.load(id);
+  }
+
+  /**
+   * 新增一条交易
+   */
+  async addTransaction(id: string, input: LedgerTransactionInput): Promise<StoredLedger> {
+    return this.update(id, async ledger => {
+      const transactions = [...ledger.transactions, createTransaction(input)];
+      this.checkConsistency(transactions);
+      return this.save({ ...ledger, transactions });
+    });
+  }
+
+  /**
+   * 删除一条交易
+   */
+  async removeTransaction(id: string, transactionId: string): Promise<StoredLedger> {
+    return this.update(id, async ledger => {
+      const transactions = ledger.transactions.filter(t => t.id !== transactionId);
+      if (transactions.length === ledger.transactions.length) {
+        throw new LedgerValidationError('交易记录不存在');
+      }
+      this.checkConsistency(transactions);
+      return this.save({ ...ledger, transactions });
+    });
+  }
+
+  /**
+   * 用浏览器端的流水整体覆盖（同步）
+   */
+  async replaceTransactions(id: string, transactions: LedgerTransaction[]): Promise<StoredLedger> {
+    const normalized = transactions.map(tx => {
+      const created = createTransaction(tx);
+      return { ...created, id: tx.id || created.id, createdAt: tx.createdAt || created.createdAt };
+    });
+    this.checkConsistency(normalized);
+    return this.update(id, async ledger => this.save({ ...ledger, transactions: normalized }));
+  }
+
+  /**
+   * 设置基金的分红方式（影响之后导入的分红事件）
+   */
+  async setDividendMethod(id: string, fundCode: string, method: DividendMethod): Promise<StoredLedger> {
+    if (method !== 'cash' && method !== 'reinvest') {
+      throw new LedgerValidationError(`不支持的分红方式: ${method}`);
+    }
+    return this.update(id, async ledger =>
+      this.save({ ...ledger, dividendMethods: { ...ledger.dividendMethods, [fundCode]: method } })
+    );
+  }
+
+  /**
+   * 导入持有期间的分红与拆分事件，按各基金的分红方式生成流水
+   */
+  async applyFundEvents(id: string): Promise<{ ledger: StoredLedger; result: EventTransactionsResult }> {
+    // 生成事件流水也在队列内，避免重复导入同一批事件
+    return this.update(id, async ledger => {
+      const result = await generateEventTransactions(ledger.transactions, ledger.dividendMethods);
+      if (result.transactions.length === 0) {
+        return { ledger, result };
+      }
+
+      const transactions = [...ledger.transactions, ...result.transactions];
+      this.checkConsistency(transactions);
+      return { ledger: await this.save({ ...ledger, transactions }), result };
+    });
+  }
+
+  /**
+   * 获取台账及按最新净值计算的持仓
+   *
+   * @param includeClosed - 是否包含已清仓的基金
+   */
+  async getSnapshot(id: string, includeClosed: boolean = false): Promise<LedgerSnapshot> {
+    const ledger = await this.load(id);
+    const positions = buildPositions(ledger.transactions, { includeClosed });
+
+    const valued = await Promise.all(positions.map(async position => {
+      const latest = position.shares > 0
+        ? await getLatestNav(position.fundCode).catch(() => null)
+        : null;
+      // 取不到净值时按成本价估值，navDate 为空
+      return latest
+        ? valuePosition(position, latest.nav, latest.date)
+        : valuePosition(position, position.averageCost);
+    }));
+
+    return {
+      ...ledger,
+      positions: valued,
+      summary: summarizePositions(valued),
+    };
+  }
+}
+
+// 导出单例实例
+export const ledgerService = new LedgerService();
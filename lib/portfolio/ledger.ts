@@ -0,0 +1,348 @@
+/**
+ * 持仓交易台账
+ *
+ * 记录申购、赎回、现金分红、红利再投资、份额折算，并由交易流水推导持仓:
+ * 持有份额、持仓成本（加权平均，含手续费）、已实现收益、市值与浮动盈亏
+ *
+ * 本模块只包含纯计算，浏览器端和服务端共用
+ */
+
+/**
+ * 交易类型
+ * - buy: 申购，amount 为支付金额（含手续费）
+ * - sell: 赎回，amount 为到账金额（已扣手续费）
+ * - dividend: 现金分红，amount 为到账金额
+ * - reinvest: 红利再投资，shares 为再投资份额，amount 为分红金额
+ * - split: 份额折算/拆分，ratio 为折算比例（折算后份额 = 折算前份额 × ratio）
+ */
+export type TransactionType = 'buy' | 'sell' | 'dividend' | 'reinvest' | 'split';
+
+/**
+ * 交易流水
+ */
+export interface LedgerTransaction {
+  id: string;
+  fundCode: string;
+  fundName?: string;
+  type: TransactionType;
+  date: string;            // 交易申请日 (YYYY-MM-DD)
+  confirmDate?: string;    // 份额确认日，缺省视为交易日
+  shares: number;          // 确认份额
+  amount: number;          // 金额（元）
+  fee: number;             // 手续费（元）
+  nav?: number;            // 确认净值
+  ratio?: number;          // 份额折算比例，仅 split 使用
+  note?: string;
+  createdAt: number;
+}
+
+/**
+ * 新增交易的输入（id、createdAt 由台账生成）
+ */
+export type LedgerTransactionInput = Omit<LedgerTransaction, 'id' | 'createdAt' | 'shares' | 'amount' | 'fee'> & {
+  shares?: number;
+  amount?: number;
+  fee?: number;
+};
+
+/**
+ * 由流水推导的持仓
+ */
+export interface Position {
+  fundCode: string;
+  fundName?: string;
+  shares: number;            // 持有份额
+  totalCost: number;         // 持仓成本（含手续费）
+  averageCost: number;       // 单位持仓成本
+  investedAmount: number;    // 累计申购金额
+  redeemedAmount: number;    // 累计赎回到账金额
+  dividends: number;         // 累计分红（现金分红 + 红利再投资）
+  fees: number;              // 累计手续费
+  realizedPnl: number;       // 已实现收益（赎回盈亏 + 分红）
+  firstDate: string | null;
+  lastDate: string | null;
+  transactionCount: number;
+}
+
+/**
+ * 按净值估算市值后的持仓
+ */
+export interface PositionValuation extends Position {
+  nav: number;
+  navDate?: string;
+  marketValue: number;
+  unrealizedPnl: number;          // 浮动盈亏
+  unrealizedPnlPercent: number;   // 浮动盈亏率 (%)
+  totalPnl: number;               // 浮动盈亏 + 已实现收益
+}
+
+/**
+ * 台账汇总
+ */
+export interface LedgerSummary {
+  marketValue: number;
+  totalCost: number;
+  unrealizedPnl: number;
+  realizedPnl: number;
+  totalPnl: number;
+  positionCount: number;
+}
+
+/**
+ * 交易数据不合法（如赎回份额超过持有份额）
+ */
+export class LedgerValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LedgerValidationError';
+  }
+}
+
+export const TRANSACTION_TYPE_LABELS: Record<TransactionType, string> = {
+  buy: '申购',
+  sell: '赎回',
+  dividend: '现金分红',
+  reinvest: '红利再投资',
+  split: '份额折算',
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const FUND_CODE_PATTERN = /^\d{6}$/;
+
+// 基金份额保留两位小数，低于半分视为已清仓
+const SHARE_EPSILON = 0.005;
+
+function round(value: number, digits: number = 2): number {
+  return Math.round(value * 10 ** digits) / 10 ** digits;
+}
+
+/**
+ * 份额生效日期
+ */
+export function effectiveDate(tx: Pick<LedgerTransaction, 'date' | 'confirmDate'>): string {
+  return tx.confirmDate || tx.date;
+}
+
+/**
+ * 按生效日期、录入时间排序
+ */
+export function sortTransactions(transactions: LedgerTransaction[]): LedgerTransaction[] {
+  return [...transactions].sort((a, b) =>
+    effectiveDate(a).localeCompare(effectiveDate(b)) || a.createdAt - b.createdAt
+  );
+}
+
+/**
+ * 校验单条交易的字段（不检查与其他流水的关系）
+ */
+export function validateTransaction(input: LedgerTransactionInput): void {
+  if (!FUND_CODE_PATTERN.test(input.fundCode || '')) {
+    throw new LedgerValidationError('基金代码应为 6 位数字');
+  }
+  if (!(input.type in TRANSACTION_TYPE_LABELS)) {
+    throw new LedgerValidationError(`不支持的交易类型: ${input.type}`);
+  }
+  if (!DATE_PATTERN.test(input.date || '')) {
+    throw new LedgerValidationError('交易日期格式应为 YYYY-MM-DD');
+  }
+  if (input.confirmDate && (!DATE_PATTERN.test(input.confirmDate) || input.confirmDate < input.date)) {
+    throw new LedgerValidationError('确认日期格式应为 YYYY-MM-DD，且不早于交易日期');
+  }
+
+  const positive = (value: number | undefined) => typeof value === 'number' && isFinite(value) && value > 0;
+  const fee = input.fee ?? 0;
+  if (!isFinite(fee) || fee < 0) {
+    throw new LedgerValidationError('手续费不能为负数');
+  }
+
+  switch (input.type) {
+    case 'buy':
+    case 'reinvest':
+      if (!positive(input.shares) || !positive(input.amount)) {
+        throw new LedgerValidationError(`${TRANSACTION_TYPE_LABELS[input.type]}需要填写份额和金额`);
+      }
+      if (fee >= input.amount!) {
+        throw new LedgerValidationError('手续费不能超过申购金额');
+      }
+      break;
+    case 'sell':
+      if (!positive(input.shares)) {
+        throw new LedgerValidationError('赎回需要填写份额');
+      }
+      if (typeof input.amount !== 'number' || !isFinite(input.amount) || input.amount < 0) {
+        throw new LedgerValidationError('赎回到账金额不能为负数');
+      }
+      break;
+    case 'dividend':
+      if (!positive(input.amount)) {
+        throw new LedgerValidationError('现金分红需要填写金额');
+      }
+      break;
+    case 'split':
+      if (!positive(input.ratio)) {
+        throw new LedgerValidationError('份额折算需要填写折算比例');
+      }
+      break;
+  }
+}
+
+/**
+ * 生成交易流水（校验字段并补全 id、默认值）
+ */
+export function createTransaction(input: LedgerTransactionInput): LedgerTransaction {
+  validateTransaction(input);
+
+  // 只保留已知字段，外部传入的多余字段不写入台账
+  return {
+    id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`,
+    fundCode: input.fundCode,
+    fundName: input.fundName,
+    type: input.type,
+    date: input.date,
+    confirmDate: input.confirmDate || undefined,
+    shares: input.shares ?? 0,
+    amount: input.amount ?? 0,
+    fee: input.fee ?? 0,
+    nav: input.nav,
+    ratio: input.type === 'split' ? input.ratio : undefined,
+    note: input.note,
+    createdAt: Date.now(),
+  };
+}
+
+/**
+ * 由单只基金的流水推导持仓（加权平均成本法）
+ *
+ * @param fundCode - 基金代码
+ * @param transactions - 该基金的全部流水
+ * @param asOf - 只计入该日期（含）之前生效的流水
+ */
+export function buildPosition(fundCode: string, transactions: LedgerTransaction[], asOf?: string): Position {
+  const position: Position = {
+    fundCode,
+    shares: 0,
+    totalCost: 0,
+    averageCost: 0,
+    investedAmount: 0,
+    redeemedAmount: 0,
+    dividends: 0,
+    fees: 0,
+    realizedPnl: 0,
+    firstDate: null,
+    lastDate: null,
+    transactionCount: 0,
+  };
+
+  for (const tx of sortTransactions(transactions.filter(t => t.fundCode === fundCode))) {
+    const date = effectiveDate(tx);
+    if (asOf && date > asOf) break;
+
+    position.fundName = tx.fundName || position.fundName;
+    position.fees += tx.fee;
+
+    switch (tx.type) {
+      case 'buy':
+        position.shares += tx.shares;
+        position.totalCost += tx.amount;
+        position.investedAmount += tx.amount;
+        break;
+      case 'sell': {
+        if (tx.shares > position.shares + SHARE_EPSILON) {
+          throw new LedgerValidationError(
+            `${fundCode} 在 ${date} 赎回 ${tx.shares} 份，超过持有份额 ${round(position.shares)}`
+          );
+        }
+        const shares = Math.min(tx.shares, position.shares);
+        const cost = position.shares > 0 ? position.totalCost * (shares / position.shares) : 0;
+        position.shares -= shares;
+        position.totalCost -= cost;
+        position.redeemedAmount += tx.amount;
+        position.realizedPnl += tx.amount - cost;
+        break;
+      }
+      case 'dividend':
+        position.dividends += tx.amount;
+        position.realizedPnl += tx.amount;
+        break;
+      case 'reinvest':
+        // 相当于分红到账后立即申购：分红计入已实现收益，再投资金额计入成本
+        position.shares += tx.shares;
+        position.totalCost += tx.amount;
+        position.dividends += tx.amount;
+        position.realizedPnl += tx.amount;
+        break;
+      case 'split':
+        position.shares *= tx.ratio!;
+        break;
+    }
+
+    if (position.shares < SHARE_EPSILON) {
+      position.shares = 0;
+      position.totalCost = 0;
+    }
+
+    position.firstDate = position.firstDate || date;
+    position.lastDate = date;
+    position.transactionCount++;
+  }
+
+  position.shares = round(position.shares);
+  position.totalCost = round(position.totalCost);
+  position.averageCost = position.shares > 0 ? round(position.totalCost / position.shares, 4) : 0;
+  position.investedAmount = round(position.investedAmount);
+  position.redeemedAmount = round(position.redeemedAmount);
+  position.dividends = round(position.dividends);
+  position.fees = round(position.fees);
+  position.realizedPnl = round(position.realizedPnl);
+
+  return position;
+}
+
+/**
+ * 由全部流水推导各基金持仓
+ *
+ * @param includeClosed - 是否包含已清仓的基金（保留其已实现收益）
+ */
+export function buildPositions(
+  transactions: LedgerTransaction[],
+  options: { asOf?: string; includeClosed?: boolean } = {}
+): Position[] {
+  const codes = Array.from(new Set(transactions.map(t => t.fundCode)));
+  return codes
+    .map(code => buildPosition(code, transactions, options.asOf))
+    .filter(p => options.includeClosed || p.shares > 0);
+}
+
+/**
+ * 按净值计算持仓市值与盈亏
+ */
+export function valuePosition(position: Position, nav: number, navDate?: string): PositionValuation {
+  const marketValue = round(position.shares * nav);
+  const unrealizedPnl = round(marketValue - position.totalCost);
+
+  return {
+    ...position,
+    nav,
+    navDate,
+    marketValue,
+    unrealizedPnl,
+    unrealizedPnlPercent: position.totalCost > 0 ? round((unrealizedPnl / position.totalCost) * 100) : 0,
+    totalPnl: round(unrealizedPnl + position.realizedPnl),
+  };
+}
+
+/**
+ * 汇总持仓市值与盈亏
+ */
+export function summarizePositions(positions: PositionValuation[]): LedgerSummary {
+  const sum = (pick: (p: PositionValuation) => number) => round(positions.reduce((s, p) => s + pick(p), 0));
+
+  return {
+    marketValue: sum(p => p.marketValue),
+    totalCost: sum(p => p.totalCost),
+    unrealizedPnl: sum(p => p.unrealizedPnl),
+    realizedPnl: sum(p => p.realizedPnl),
+    totalPnl: sum(p => p.totalPnl),
+    positionCount: positions.filter(p => p.shares > 0).length,
+  };
+}
@@ -0,0 +1,202 @@
+/**
+ * 组合优化服务
+ *
+ * 为候选基金准备协方差矩阵，并调用均值-方差、风险平价、最小方差求解器
+ * 组合优化 Agent 的工具和 /api/portfolio/optimize 共用这里的实现
+ */
+
+import { covarianceFromVolatility } from '../risk/covariance';
+import { DEFAULT_LOOKBACK_DAYS, getFundCovariance } from '../risk/fund-returns';
+import { globalMinimumVariance, MeanVarianceOptions, optimizeMeanVariance, PortfolioPoint } from './optimizer';
+import { equalRiskContribution, riskContributions } from './risk-parity';
+
+// 缺少历史净值时假设的基金间平均相关系数
+export const ASSUMED_CORRELATION = 0.3;
+
+export type OptimizationMethod = 'mean-variance' | 'risk-parity' | 'min-variance';
+
+export type CovarianceSource = 'historical' | 'assumed';
+
+/**
+ * 候选基金
+ */
+export interface OptimizationFund {
+  code: string;
+  name?: string;
+  type?: string;             // 基金类型，用于按类型的权重约束
+  volatility?: number;       // 年化波动率，缺少历史净值时用于构造协方差
+  expectedReturn?: number;   // 年化预期收益，均值-方差优化使用，缺省时取历史平均收益
+}
+
+/**
+ * 优化请求
+ */
+export interface PortfolioOptimizationRequest extends MeanVarianceOptions {
+  method: OptimizationMethod;
+  funds: OptimizationFund[];
+  lookbackDays?: number;     // 历史净值回看天数
+  riskBudgets?: number[];    // 风险平价的风险预算，默认等风险贡献
+}
+
+/**
+ * 单只基金的优化结果
+ */
+export interface OptimizedFundWeight {
+  code: string;
+  name?: string;
+  type?: string;
+  weight: number;
+  marginalRisk: number;             // 边际风险贡献
+  riskContribution: number;         // 风险贡献（年化波动率单位）
+  riskContributionPercent: number;  // 风险贡献占比 (0-1)
+}
+
+/**
+ * 优化结果
+ */
+export interface PortfolioOptimizationResult {
+  method: OptimizationMethod;
+  covarianceSource: CovarianceSource;
+  observations: number;               // 计算协方差使用的交易日数，假设相关系数时为 0
+  funds: OptimizedFundWeight[];
+  volatility: number;                 // 年化波动率
+  expectedReturn: number | null;      // 年化预期收益，没有预期收益输入时为 null
+  sharpeRatio: number | null;
+  frontier?: PortfolioPoint[];        // 均值-方差优化的有效前沿
+  attainable?: boolean;               // 目标收益/风险是否可达
+  message?: string;
+  converged?: boolean;                // 风险平价迭代是否收敛
+  iterations?: number;
+}
+
+/**
+ * 输入数据不足以完成优化（缺少波动率、预期收益等）
+ */
+export class OptimizationInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OptimizationInputError';
+  }
+}
+
+/**
+ * 获取候选基金的年化协方差矩阵
+ *
+ * 优先用历史净值计算 Ledoit-Wolf 收缩协方差；历史数据不足时，
+ * 用传入的波动率和假设的平均相关系数构造
+ */
+export async function resolveCovariance(
+  codes: string[],
+  volatility: (number | undefined)[],
+  lookbackDays: number = DEFAULT_LOOKBACK_DAYS
+): Promise<{
+  covariance: number[][];
+  source: CovarianceSource;
+  observations: number;
+  meanReturn?: number[];
+}> {
+  const historical = await getFundCovariance(codes, { lookbackDays }).catch(() => null);
+  if (historical) {
+    return {
+      covariance: historical.covariance,
+      source: 'historical',
+      observations: historical.observations,
+      meanReturn: historical.meanReturn,
+    };
+  }
+
+  if (volatility.some(v => v === undefined || !(v > 0))) {
+    throw new OptimizationInputError('历史净值不足以计算协方差，且未提供全部基金的波动率');
+  }
+
+  const correlation = codes.map((_, i) => codes.map((_, j) => (i === j ? 1 : ASSUMED_CORRELATION)));
+  return {
+    covariance: covarianceFromVolatility(volatility as number[], correlation),
+    source: 'assumed',
+    observations: 0,
+  };
+}
+
+/**
+ * 优化组合权重
+ *
+ * @param request - 候选基金、优化方法与约束
+ * @returns 权重及各基金风险贡献
+ */
+export async function optimizePortfolio(request: PortfolioOptimizationRequest): Promise<PortfolioOptimizationResult> {
+  const { method, funds, lookbackDays, riskBudgets, ...options } = request;
+  if (funds.length === 0) {
+    throw new OptimizationInputError('候选基金为空');
+  }
+  if (riskBudgets && (riskBudgets.length !== funds.length || riskBudgets.some(b => !(b > 0)))) {
+    throw new OptimizationInputError('风险预算须为与基金数量相同的正数数组');
+  }
+  // 风险平价的权重完全由风险预算决定，不支持权重约束，拒绝而不是静默忽略
+  if (method === 'risk-parity'
+    && (options.minWeight !== undefined || options.maxWeight !== undefined || options.typeConstraints?.length)) {
+    throw new OptimizationInputError('风险平价不支持 minWeight、maxWeight、typeCaps 权重约束，可改用 riskBudgets 调整各基金的风险预算');
+  }
+
+  const { covariance, source, observations, meanReturn } = await resolveCovariance(
+    funds.map(f => f.code),
+    funds.map(f => f.volatility),
+    lookbackDays
+  );
+
+  const expectedReturns = funds.map((f, i) => f.expectedReturn ?? meanReturn?.[i]);
+  const hasReturns = expectedReturns.every(r => r !== undefined);
+  const constraints = { ...options, types: funds.map(f => f.type || '') };
+
+  let weights: number[];
+  let extra: Partial<PortfolioOptimizationResult> = {};
+
+  switch (method) {
+    case 'mean-variance': {
+      if (!hasReturns) {
+        throw new OptimizationInputError('均值方差优化需要各基金的预期收益');
+      }
+      const result = optimizeMeanVariance(covariance, expectedReturns as number[], constraints);
+      weights = result.portfolio.weights;
+      extra = { frontier: result.frontier, attainable: result.attainable, message: result.message };
+      break;
+    }
+    case 'risk-parity': {
+      const result = equalRiskContribution(covariance, { budgets: riskBudgets });
+      weights = result.weights;
+      extra = { converged: result.converged, iterations: result.iterations };
+      break;
+    }
+    case 'min-variance':
+      weights = globalMinimumVariance(covariance, constraints).weights;
+      break;
+    default:
+      throw new Error(`不支持的优化方法: ${method}`);
+  }
+
+  const decomposition = riskContributions(weights, covariance);
+  const expectedReturn = hasReturns
+    ? weights.reduce((sum, w, i) => sum + w * (expectedReturns[i] as number), 0)
+    : null;
+  const riskFreeRate = options.riskFreeRate ?? 0.03;
+
+  return {
+    method,
+    covarianceSource: source,
+    observations,
+    funds: funds.map((fund, i) => ({
+      code: fund.code,
+      name: fund.name,
+      type: fund.type,
+      weight: weights[i],
+      marginalRisk: decomposition.assets[i].marginal,
+      riskContribution: decomposition.assets[i].contribution,
+      riskContributionPercent: decomposition.assets[i].percent,
+    })),
+    volatility: decomposition.volatility,
+    expectedReturn,
+    sharpeRatio: expectedReturn !== null && decomposition.volatility > 0
+      ? (expectedReturn - riskFreeRate) / decomposition.volatility
+      : null,
+    ...extra,
+  };
+}
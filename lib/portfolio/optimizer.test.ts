@@ -0,0 +1,101 @@
+/**
+ * 均值-方差优化器测试
+ *
+ * 在两只不相关基金（波动率 10% / 20%，预期收益 5% / 10%）上验证有解析解的组合:
+ * - 最小方差: w ∝ 1/σ²，即 80% / 20%
+ * - 目标收益 8%: 两只基金时权重由收益唯一确定，即 40% / 60%
+ * - 最大夏普（无风险利率 3%）: w ∝ Σ⁻¹(μ - rf) = (2, 1.75)，即 53.33% / 46.67%
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { InfeasibleConstraintsError, optimizeMeanVariance } from './optimizer';
+
+const COVARIANCE = [
+  [0.01, 0],
+  [0, 0.04],
+];
+const EXPECTED_RETURNS = [0.05, 0.1];
+
+function assertWeights(actual: number[], expected: number[], tolerance: number = 1e-3) {
+  assert.equal(actual.length, expected.length);
+  actual.forEach((w, i) => {
+    assert.ok(Math.abs(w - expected[i]) < tolerance, `权重 ${i}: ${w} 与 ${expected[i]} 相差过大`);
+  });
+}
+
+test('min-variance weights are inversely proportional to variance', () => {
+  const result = optimizeMeanVariance(COVARIANCE, EXPECTED_RETURNS, { objective: 'min-variance' });
+
+  assert.equal(result.objective, 'min-variance');
+  assertWeights(result.portfolio.weights, [0.8, 0.2]);
+  assert.ok(Math.abs(result.portfolio.volatility - Math.sqrt(0.008)) < 1e-4);
+});
+
+test('min-variance respects the single-fund weight cap', () => {
+  const result = optimizeMeanVariance(COVARIANCE, EXPECTED_RETURNS, { objective: 'min-variance', maxWeight: 0.7 });
+  assertWeights(result.portfolio.weights, [0.7, 0.3]);
+});
+
+test('target-return reaches the target with the only feasible mix', () => {
+  const result = optimizeMeanVariance(COVARIANCE, EXPECTED_RETURNS, { targetReturn: 0.08 });
+
+  assert.equal(result.objective, 'target-return');
+  assert.equal(result.attainable, true);
+  assertWeights(result.portfolio.weights, [0.4, 0.6]);
+  assert.ok(Math.abs(result.portfolio.expectedReturn - 0.08) < 1e-4);
+});
+
+test('target-return above the highest attainable return is reported as unattainable', () => {
+  const result = optimizeMeanVariance(COVARIANCE, EXPECTED_RETURNS, { targetReturn: 0.2, maxWeight: 0.9 });
+
+  assert.equal(result.attainable, false);
+  assertWeights(result.portfolio.weights, [0.1, 0.9]);
+});
+
+test('max-sharpe matches the tangency portfolio', () => {
+  const result = optimizeMeanVariance(COVARIANCE, EXPECTED_RETURNS, { riskFreeRate: 0.03 });
+
+  assert.equal(result.objective, 'max-sharpe');
+  assertWeights(result.portfolio.weights, [8 / 15, 7 / 15]);
+  // 切点组合的夏普比率不低于前沿上任何一点
+  result.frontier.forEach(point => {
+    assert.ok(point.sharpeRatio <= result.portfolio.sharpeRatio + 1e-6);
+  });
+});
+
+test('frontier returns the requested number of points in ascending return', () => {
+  const result = optimizeMeanVariance(COVARIANCE, EXPECTED_RETURNS, { frontierPoints: 7 });
+
+  assert.equal(result.frontier.length, 7);
+  for (let i = 1; i < result.frontier.length; i++) {
+    assert.ok(result.frontier[i].expectedReturn > result.frontier[i - 1].expectedReturn);
+  }
+});
+
+test('type caps limit the combined weight of a fund type', () => {
+  const result = optimizeMeanVariance(
+    [
+      [0.04, 0, 0],
+      [0, 0.04, 0],
+      [0, 0, 0.0025],
+    ],
+    [0.12, 0.1, 0.03],
+    {
+      riskFreeRate: 0.02,
+      types: ['股票型', '股票型', '债券型'],
+      typeConstraints: [{ type: '股票型', max: 0.4 }],
+    }
+  );
+
+  const equity = result.portfolio.weights[0] + result.portfolio.weights[1];
+  assert.ok(equity <= 0.4 + 1e-6, `股票型权重 ${equity} 超过上限`);
+  assert.ok(Math.abs(result.portfolio.weights.reduce((s, w) => s + w, 0) - 1) < 1e-6);
+});
+
+test('conflicting weight bounds are rejected', () => {
+  assert.throws(
+    () => optimizeMeanVariance(COVARIANCE, EXPECTED_RETURNS, { minWeight: 0.6 }),
+    InfeasibleConstraintsError
+  );
+});
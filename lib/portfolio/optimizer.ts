@@ -0,0 +1,637 @@
+/**
+ * 均值-方差组合优化器
+ *
+ * 在协方差矩阵上求解带约束的二次规划:
+ *   min ½ w'Σw - τ μ'w
+ *   s.t. Σw = 1, minWeight ≤ w ≤ maxWeight, 同类型权重之和 ≤ 上限
+ *
+ * 使用加速投影梯度法（FISTA），各类型互不重叠，可行域投影可用二分精确求得
+ * τ 从 0 扫到足够大即得到有效前沿；目标收益、目标风险通过对 τ 二分求得
+ */
+
+import { portfolioVariance } from '../risk/covariance';
+
+/**
+ * 按基金类型的权重约束（如 股票型 ≤ 40%）
+ */
+export interface TypeConstraint {
+  type: string;
+  max?: number;   // 该类型权重之和上限
+  min?: number;   // 该类型权重之和下限
+}
+
+/**
+ * 优化约束
+ */
+export interface OptimizerConstraints {
+  minWeight?: number | number[];   // 单只基金权重下限，默认 0（只做多）
+  maxWeight?: number | number[];   // 单只基金权重上限，默认 1
+  types?: string[];                // 各基金类型，与 typeConstraints 配合使用
+  typeConstraints?: TypeConstraint[];
+}
+
+/**
+ * 优化目标
+ * - min-variance: 全局最小方差
+ * - max-sharpe: 前沿上夏普比率最大的组合
+ * - target-return: 达到目标收益的最小方差组合
+ * - target-risk: 波动率不超过目标风险的最大收益组合
+ */
+export type OptimizationObjective = 'min-variance' | 'max-sharpe' | 'target-return' | 'target-risk';
+
+/**
+ * 优化参数
+ */
+export interface MeanVarianceOptions extends OptimizerConstraints {
+  objective?: OptimizationObjective;   // 默认 max-sharpe，传入 targetReturn/targetRisk 时自动切换
+  targetReturn?: number;               // 年化目标收益（小数）
+  targetRisk?: number;                 // 年化目标波动率（小数）
+  riskFreeRate?: number;               // 默认 0.03
+  frontierPoints?: number;             // 有效前沿点数，默认 20
+}
+
+/**
+ * 组合（权重及其收益风险）
+ */
+export interface PortfolioPoint {
+  weights: number[];
+  expectedReturn: number;   // 年化预期收益
+  volatility: number;       // 年化波动率
+  sharpeRatio: number;
+}
+
+/**
+ * 优化结果
+ */
+export interface MeanVarianceResult {
+  objective: OptimizationObjective;
+  portfolio: PortfolioPoint;
+  frontier: PortfolioPoint[];   // 按波动率升序
+  attainable: boolean;          // 目标收益/风险是否可达，不可达时返回最接近的前沿组合
+  message?: string;
+}
+
+/**
+ * 约束无可行解（如权重下限之和超过 100%）
+ */
+export class InfeasibleConstraintsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InfeasibleConstraintsError';
+  }
+}
+
+const DEFAULT_RISK_FREE_RATE = 0.03;
+const DEFAULT_FRONTIER_POINTS = 20;
+const MAX_ITERATIONS = 3000;
+// 收敛判据：相邻两次迭代权重变化的平方和
+const TOLERANCE = 1e-12;
+const FEASIBILITY_TOLERANCE = 1e-6;
+
+/**
+ * 线性约束 lower ≤ Σ_{i∈indices} w_i ≤ upper
+ */
+interface GroupConstraint {
+  indices: number[];
+  lower: number;
+  upper: number;
+}
+
+/**
+ * τ 扫描得到的前沿组合
+ */
+interface SweepPoint {
+  tau: number;
+  point: PortfolioPoint;
+}
+
+/**
+ * 标准化后的可行域
+ */
+interface FeasibleSet {
+  lower: number[];
+  upper: number[];
+  groups: GroupConstraint[];
+  free: number[];   // 不属于任何类型约束的基金
+}
+
+function expand(value: number | number[] | undefined, n: number, fallback: number): number[] {
+  if (Array.isArray(value)) {
+    return Array.from({ length: n }, (_, i) => value[i] ?? fallback);
+  }
+  return new Array(n).fill(value ?? fallback);
+}
+
+function dot(a: number[], b: number[]): number {
+  return a.reduce((sum, v, i) => sum + v * b[i], 0);
+}
+
+function multiply(matrix: number[][], vector: number[]): number[] {
+  return matrix.map(row => dot(row, vector));
+}
+
+/**
+ * 校验并整理约束
+ */
+function buildFeasibleSet(n: number, constraints: OptimizerConstraints): FeasibleSet {
+  const lower = expand(constraints.minWeight, n, 0).map(v => Math.max(0, v));
+  const upper = expand(constraints.maxWeight, n, 1).map(v => Math.min(1, v));
+
+  lower.forEach((lo, i) => {
+    if (lo > upper[i]) {
+      throw new InfeasibleConstraintsError(`第 ${i + 1} 只基金的权重下限 ${lo} 大于上限 ${upper[i]}`);
+    }
+  });
+
+  // 同一类型的多条约束取最严格的上下限
+  const merged = new Map<string, { lower: number; upper: number }>();
+  (constraints.typeConstraints || []).forEach(c => {
+    const prev = merged.get(c.type) || { lower: 0, upper: 1 };
+    merged.set(c.type, {
+      lower: Math.max(prev.lower, c.min ?? 0),
+      upper: Math.min(prev.upper, c.max ?? 1),
+    });
+  });
+
+  const groups: GroupConstraint[] = [];
+  merged.forEach((bounds, type) => {
+    const indices = (constraints.types || [])
+      .map((t, i) => (t === type ? i : -1))
+      .filter(i => i >= 0 && i < n);
+
+    if (indices.length === 0) {
+      if (bounds.lower > 0) {
+        throw new InfeasibleConstraintsError(`没有${type}基金，无法满足该类型权重下限 ${bounds.lower}`);
+      }
+      return;
+    }
+
+    const minSum = indices.reduce((sum, i) => sum + lower[i], 0);
+    const maxSum = indices.reduce((sum, i) => sum + upper[i], 0);
+    if (bounds.lower > bounds.upper || minSum > bounds.upper + FEASIBILITY_TOLERANCE || maxSum < bounds.lower - FEASIBILITY_TOLERANCE) {
+      throw new InfeasibleConstraintsError(`${type}的类型权重约束与单只基金权重约束冲突`);
+    }
+    groups.push({ indices, lower: bounds.lower, upper: bounds.upper });
+  });
+
+  // 总权重能否达到 100%：各类型取其可达范围，未约束类型的基金按单只上下限
+  const grouped = new Set(groups.flatMap(g => g.indices));
+  const sumOf = (values: number[], indices: number[]) => indices.reduce((sum, i) => sum + values[i], 0);
+  const free = lower.map((_, i) => i).filter(i => !grouped.has(i));
+  const lowerSum = sumOf(lower, free) + groups.reduce((sum, g) => sum + Math.max(g.lower, sumOf(lower, g.indices)), 0);
+  const upperSum = sumOf(upper, free) + groups.reduce((sum, g) => sum + Math.min(g.upper, sumOf(upper, g.indices)), 0);
+  if (lowerSum > 1 + FEASIBILITY_TOLERANCE) {
+    throw new InfeasibleConstraintsError(`权重下限之和 ${(lowerSum * 100).toFixed(2)}% 超过 100%`);
+  }
+  if (upperSum < 1 - FEASIBILITY_TOLERANCE) {
+    throw new InfeasibleConstraintsError(`权重上限之和 ${(upperSum * 100).toFixed(2)}% 不足 100%`);
+  }
+
+  return { lower, upper, groups, free };
+}
+
+/**
+ * 单调不减函数 f 在 [lo, hi] 上求 f(x) = target 的根（二分）
+ */
+function bisect(f: (x: number) => number, target: number, lo: number, hi: number): number {
+  for (let iter = 0; iter < 100 && hi - lo > 1e-15 * (1 + Math.abs(hi)); iter++) {
+    const mid = (lo + hi) / 2;
+    if (f(mid) < target) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+}
+
+/**
+ * 一组分量 clip(v - θ) 之和，随 θ 单调不增
+ */
+function clippedSum(v: number[], indices: number[], lower: number[], upper: number[], theta: number): number {
+  return indices.reduce((sum, i) => sum + Math.min(upper[i], Math.max(lower[i], v[i] - theta)), 0);
+}
+
+/**
+ * 把 v 的一组分量投影到 {lower ≤ x ≤ upper, groupLower ≤ Σx ≤ groupUpper}
+ *
+ * 投影形如 clip(v - φ)：组内权重和未越界时 φ = 0，否则二分求 φ 使组内权重和落在边界上
+ */
+function projectBlock(
+  v: number[],
+  indices: number[],
+  lower: number[],
+  upper: number[],
+  groupLower: number,
+  groupUpper: number
+): number[] {
+  const clipped = (phi: number) => indices.map(i => Math.min(upper[i], Math.max(lower[i], v[i] - phi)));
+  const sumAt = (phi: number) => clippedSum(v, indices, lower, upper, phi);
+
+  const sum = sumAt(0);
+  if (sum >= groupLower && sum <= groupUpper) return clipped(0);
+
+  const target = sum > groupUpper ? groupUpper : groupLower;
+  const lo = Math.min(...indices.map(i => v[i] - upper[i]));
+  const hi = Math.max(...indices.map(i => v[i] - lower[i]));
+  // sumAt 随 φ 单调不增，以 -φ 为自变量二分
+  return clipped(-bisect(x => sumAt(-x), target, -hi, -lo));
+}
+
+/**
+ * 投影到可行域 {Σw = 1, lower ≤ w ≤ upper, 各类型权重和在上下限内}
+ *
+ * 各类型互不重叠，投影为分块的 clip(v - θ - φ_G)。投影后类型 G 的权重和恰为
+ * clip(v - θ) 的组内和截断到该类型上下限，外层二分 θ 时无需求 φ_G；
+ * θ 确定后再对越界的类型求一次 φ_G
+ */
+function projectFeasible(v: number[], set: FeasibleSet): number[] {
+  const total = (theta: number) => set.groups.reduce(
+    (sum, g) => sum + Math.min(g.upper, Math.max(g.lower, clippedSum(v, g.indices, set.lower, set.upper, theta))),
+    clippedSum(v, set.free, set.lower, set.upper, theta)
+  );
+
+  const lo = Math.min(...v.map((x, i) => x - set.upper[i])) - 1;
+  const hi = Math.max(...v.map((x, i) => x - set.lower[i])) + 1;
+  // total 随 θ 单调不增，以 -θ 为自变量二分
+  const theta = -bisect(x => total(-x), 1, -hi, -lo);
+
+  const shifted = v.map(x => x - theta);
+  const result = shifted.map((x, i) => Math.min(set.upper[i], Math.max(set.lower[i], x)));
+  set.groups.forEach(g => {
+    projectBlock(shifted, g.indices, set.lower, set.upper, g.lower, g.upper)
+      .forEach((x, k) => { result[g.indices[k]] = x; });
+  });
+  return result;
+}
+
+/**
+ * 是否满足全部约束
+ */
+function isFeasible(w: number[], set: FeasibleSet): boolean {
+  const tol = FEASIBILITY_TOLERANCE;
+  const sum = w.reduce((s, v) => s + v, 0);
+  return Math.abs(sum - 1) < tol
+    && w.every((v, i) => v >= set.lower[i] - tol && v <= set.upper[i] + tol)
+    && set.groups.every(g => {
+      const groupSum = g.indices.reduce((s, i) => s + w[i], 0);
+      return groupSum >= g.lower - tol && groupSum <= g.upper + tol;
+    });
+}
+
+/**
+ * 协方差矩阵最大特征值（幂迭代），用于确定梯度步长
+ */
+function largestEigenvalue(cov: number[][]): number {
+  const n = cov.length;
+  let v = new Array(n).fill(1 / Math.sqrt(n));
+  let lambda = 0;
+
+  for (let iter = 0; iter < 100; iter++) {
+    const next = multiply(cov, v);
+    const norm = Math.sqrt(dot(next, next));
+    if (norm === 0) return 0;
+    v = next.map(x => x / norm);
+    if (Math.abs(norm - lambda) < 1e-12 * norm) return norm;
+    lambda = norm;
+  }
+
+  return lambda;
+}
+
+/**
+ * 求解 min ½ w'Σw - τ μ'w（加速投影梯度）
+ *
+ * @param start - 初始点（前沿扫描时用上一个解热启动）
+ */
+function solveQuadratic(
+  cov: number[][],
+  mu: number[],
+  tau: number,
+  set: FeasibleSet,
+  step: number,
+  start?: number[]
+): number[] {
+  const n = mu.length;
+  let w = projectFeasible(start || new Array(n).fill(1 / n), set);
+  let y = w;
+  let t = 1;
+
+  for (let iter = 0; iter < MAX_ITERATIONS; iter++) {
+    const grad = multiply(cov, y).map((g, i) => g - tau * mu[i]);
+    const next = projectFeasible(y.map((yi, i) => yi - step * grad[i]), set);
+    const tNext = (1 + Math.sqrt(1 + 4 * t * t)) / 2;
+    const change = next.reduce((s, v, i) => s + (v - w[i]) ** 2, 0);
+
+    y = next.map((v, i) => v + ((t - 1) / tNext) * (v - w[i]));
+    w = next;
+    t = tNext;
+
+    if (change < TOLERANCE) break;
+  }
+
+  // 清理数值噪声
+  return w.map(v => (Math.abs(v) < 1e-9 ? 0 : v));
+}
+
+function toPoint(weights: number[], cov: number[][], mu: number[], riskFreeRate: number): PortfolioPoint {
+  const expectedReturn = dot(weights, mu);
+  const volatility = Math.sqrt(Math.max(0, portfolioVariance(weights, cov)));
+  return {
+    weights,
+    expectedReturn,
+    volatility,
+    sharpeRatio: volatility > 0 ? (expectedReturn - riskFreeRate) / volatility : 0,
+  };
+}
+
+/**
+ * 均值-方差优化器
+ */
+export class MeanVarianceOptimizer {
+  private set: FeasibleSet;
+  private step: number;
+  private tauScale: number;
+
+  /**
+   * @param covariance - 年化协方差矩阵
+   * @param expectedReturns - 年化预期收益
+   * @param constraints - 权重约束
+   * @param riskFreeRate - 年化无风险利率
+   */
+  constructor(
+    private covariance: number[][],
+    private expectedReturns: number[],
+    constraints: OptimizerConstraints = {},
+    private riskFreeRate: number = DEFAULT_RISK_FREE_RATE
+  ) {
+    const n = expectedReturns.length;
+    if (n === 0) {
+      throw new Error('候选基金为空');
+    }
+    if (covariance.length !== n || covariance.some(row => row.length !== n)) {
+      throw new Error('协方差矩阵维度与基金数量不一致');
+    }
+
+    this.set = buildFeasibleSet(n, constraints);
+
+    const lambda = largestEigenvalue(covariance);
+    this.step = lambda > 0 ? 1 / lambda : 1;
+
+    // τ 的量级：使收益项与方差项可比
+    const spread = Math.max(...expectedReturns) - Math.min(...expectedReturns);
+    this.tauScale = lambda > 0 && spread > 0 ? lambda / spread : 1;
+  }
+
+  /**
+   * 给定风险厌恶倒数 τ 求解（τ = 0 为最小方差组合）
+   */
+  solve(tau: number, start?: number[]): PortfolioPoint {
+    const weights = solveQuadratic(this.covariance, this.expectedReturns, tau, this.set, this.step, start);
+    if (!isFeasible(weights, this.set)) {
+      throw new InfeasibleConstraintsError('约束条件没有可行解');
+    }
+    return toPoint(weights, this.covariance, this.expectedReturns, this.riskFreeRate);
+  }
+
+  minVariance(): PortfolioPoint {
+    return this.solve(0);
+  }
+
+  /**
+   * 可行域内收益最高的组合（τ 取足够大）
+   */
+  maxReturn(): PortfolioPoint {
+    return this.solve(this.tauScale * 1e4);
+  }
+
+  /**
+   * 按几何级数扫描 τ，返回各 τ 对应的组合（收益严格递增）
+   */
+  private sweep(steps: number): SweepPoint[] {
+    const count = Math.max(2, steps);
+    const taus = [
+      0,
+      ...Array.from({ length: count }, (_, k) => this.tauScale * Math.pow(10, -2.5 + (5 * k) / (count - 1))),
+      this.tauScale * 1e4,
+    ];
+
+    const result: SweepPoint[] = [];
+    let start: number[] | undefined;
+    for (const tau of taus) {
+      const point = this.solve(tau, start);
+      start = point.weights;
+
+      // 去掉收益相同的重复点
+      const last = result[result.length - 1];
+      if (!last || point.expectedReturn - last.point.expectedReturn > 1e-6) {
+        result.push({ tau, point });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * 有效前沿（按波动率升序）
+   *
+   * 先扫描 τ，再在最小方差与最高收益之间按收益等间距取 points 个目标收益，
+   * 在扫描点之间二分 τ 求出各目标收益对应的组合。
+   * 可达收益区间退化为一点（各基金预期收益相同，或约束锁定了权重）时只返回一个点
+   */
+  frontier(points: number = DEFAULT_FRONTIER_POINTS): PortfolioPoint[] {
+    return this.frontierFromSweep(this.sweep(points), points);
+  }
+
+  private frontierFromSweep(sweep: SweepPoint[], points: number): PortfolioPoint[] {
+    if (sweep.length < 2 || points < 2) return sweep.slice(0, Math.max(1, points)).map(s => s.point);
+
+    const minReturn = sweep[0].point.expectedReturn;
+    const maxReturn = sweep[sweep.length - 1].point.expectedReturn;
+    const tolerance = (maxReturn - minReturn) * 1e-3;
+
+    const result: PortfolioPoint[] = [];
+    let i = 0;
+    for (let k = 0; k < points; k++) {
+      if (k === 0 || k === points - 1) {
+        result.push(sweep[k === 0 ? 0 : sweep.length - 1].point);
+        continue;
+      }
+
+      const target = minReturn + ((maxReturn - minReturn) * k) / (points - 1);
+      while (i < sweep.length - 2 && sweep[i + 1].point.expectedReturn < target) i++;
+
+      let lo = sweep[i];
+      let hi = sweep[i + 1];
+      for (let iter = 0; iter < 40 && hi.point.expectedReturn - lo.point.expectedReturn > tolerance; iter++) {
+        const tau = (lo.tau + hi.tau) / 2;
+        const point = this.solve(tau, lo.point.weights);
+        if (point.expectedReturn < target) lo = { tau, point };
+        else hi = { tau, point };
+      }
+
+      result.push(target - lo.point.expectedReturn <= hi.point.expectedReturn - target ? lo.point : hi.point);
+    }
+
+    return result;
+  }
+
+  /**
+   * 在 τ 上二分，使 metric(τ) 逼近 target（metric 随 τ 单调不减）
+   *
+   * @param side - below 返回不超过 target 的最大 τ 组合，above 返回不低于 target 的最小 τ 组合
+   */
+  private searchTau(
+    metric: (p: PortfolioPoint) => number,
+    target: number,
+    side: 'below' | 'above'
+  ): PortfolioPoint {
+    let lo = 0;
+    let hi = this.tauScale * 1e4;
+    let below = this.solve(lo);
+    let above = this.solve(hi);
+
+    for (let iter = 0; iter < 60 && metric(above) - metric(below) > 1e-7; iter++) {
+      const mid = (lo + hi) / 2;
+      const point = this.solve(mid, below.weights);
+      if (metric(point) <= target) {
+        lo = mid;
+        below = point;
+      } else {
+        hi = mid;
+        above = point;
+      }
+    }
+
+    return side === 'below' ? below : above;
+  }
+
+  /**
+   * 达到目标收益的最小方差组合
+   */
+  forTargetReturn(targetReturn: number): { portfolio: PortfolioPoint; attainable: boolean; message?: string } {
+    const gmv = this.minVariance();
+    if (gmv.expectedReturn >= targetReturn) {
+      return { portfolio: gmv, attainable: true, message: '最小方差组合已达到目标收益' };
+    }
+
+    const top = this.maxReturn();
+    if (top.expectedReturn < targetReturn - 1e-6) {
+      return {
+        portfolio: top,
+        attainable: false,
+        message: `约束下最高可达收益为 ${(top.expectedReturn * 100).toFixed(2)}%，低于目标收益`,
+      };
+    }
+
+    return { portfolio: this.searchTau(p => p.expectedReturn, targetReturn, 'above'), attainable: true };
+  }
+
+  /**
+   * 波动率不超过目标风险的最大收益组合
+   */
+  forTargetRisk(targetRisk: number): { portfolio: PortfolioPoint; attainable: boolean; message?: string } {
+    const gmv = this.minVariance();
+    if (gmv.volatility > targetRisk + 1e-6) {
+      return {
+        portfolio: gmv,
+        attainable: false,
+        message: `约束下最低可达波动率为 ${(gmv.volatility * 100).toFixed(2)}%，高于目标风险`,
+      };
+    }
+
+    const top = this.maxReturn();
+    if (top.volatility <= targetRisk) {
+      return { portfolio: top, attainable: true, message: '收益最高的组合未超过目标风险' };
+    }
+
+    return { portfolio: this.searchTau(p => p.volatility, targetRisk, 'below'), attainable: true };
+  }
+
+  /**
+   * 夏普比率最大的组合：先在扫描点中取最优，再在相邻 τ 区间内黄金分割细化
+   */
+  maxSharpe(points: number = DEFAULT_FRONTIER_POINTS): PortfolioPoint {
+    return this.maxSharpeFromSweep(this.sweep(points));
+  }
+
+  private maxSharpeFromSweep(sweep: SweepPoint[]): PortfolioPoint {
+    const idx = sweep.reduce((bestIdx, s, i) =>
+      (s.point.sharpeRatio > sweep[bestIdx].point.sharpeRatio ? i : bestIdx), 0);
+    let best = sweep[idx].point;
+
+    let lo = sweep[Math.max(0, idx - 1)].tau;
+    let hi = sweep[Math.min(sweep.length - 1, idx + 1)].tau;
+    const ratio = (Math.sqrt(5) - 1) / 2;
+
+    for (let iter = 0; iter < 30 && hi - lo > 1e-8 * (1 + hi); iter++) {
+      const pa = this.solve(hi - ratio * (hi - lo), best.weights);
+      const pb = this.solve(lo + ratio * (hi - lo), best.weights);
+      if (pa.sharpeRatio > best.sharpeRatio) best = pa;
+      if (pb.sharpeRatio > best.sharpeRatio) best = pb;
+      if (pa.sharpeRatio >= pb.sharpeRatio) hi = lo + ratio * (hi - lo);
+      else lo = hi - ratio * (hi - lo);
+    }
+
+    return best;
+  }
+
+  /**
+   * 按参数优化并返回有效前沿
+   */
+  optimize(options: MeanVarianceOptions = {}): MeanVarianceResult {
+    const objective: OptimizationObjective = options.objective
+      || (options.targetReturn !== undefined ? 'target-return'
+        : options.targetRisk !== undefined ? 'target-risk'
+          : 'max-sharpe');
+    // 有效前沿与最大夏普比率共用同一次 τ 扫描
+    const points = options.frontierPoints ?? DEFAULT_FRONTIER_POINTS;
+    const sweep = this.sweep(points);
+    const frontier = this.frontierFromSweep(sweep, points);
+
+    switch (objective) {
+      case 'min-variance':
+        return { objective, portfolio: frontier[0], frontier, attainable: true };
+      case 'target-return': {
+        if (options.targetReturn === undefined) throw new Error('缺少目标收益 targetReturn');
+        const { portfolio, attainable, message } = this.forTargetReturn(options.targetReturn);
+        return { objective, portfolio, frontier, attainable, message };
+      }
+      case 'target-risk': {
+        if (options.targetRisk === undefined) throw new Error('缺少目标风险 targetRisk');
+        const { portfolio, attainable, message } = this.forTargetRisk(options.targetRisk);
+        return { objective, portfolio, frontier, attainable, message };
+      }
+      default:
+        return { objective, portfolio: this.maxSharpeFromSweep(sweep), frontier, attainable: true };
+    }
+  }
+}
+
+/**
+ * 便捷函数：均值-方差优化
+ *
+ * @param covariance - 年化协方差矩阵
+ * @param expectedReturns - 年化预期收益
+ * @param options - 约束与优化目标
+ */
+export function optimizeMeanVariance(
+  covariance: number[][],
+  expectedReturns: number[],
+  options: MeanVarianceOptions = {}
+): MeanVarianceResult {
+  const optimizer = new MeanVarianceOptimizer(covariance, expectedReturns, options, options.riskFreeRate);
+  return optimizer.optimize(options);
+}
+
+/**
+ * 便捷函数：全局最小方差组合（不需要预期收益）
+ *
+ * @param covariance - 年化协方差矩阵
+ * @param constraints - 权重约束
+ */
+export function globalMinimumVariance(
+  covariance: number[][],
+  constraints: OptimizerConstraints = {}
+): PortfolioPoint {
+  return new MeanVarianceOptimizer(covariance, covariance.map(() => 0), constraints).minVariance();
+}
+
+export default MeanVarianceOptimizer;
@@ -0,0 +1,128 @@
+/**
+ * 风险贡献与风险平价
+ *
+ * 组合波动率 σ(w) = sqrt(w'Σw) 可分解为各资产的风险贡献 RC_i = w_i (Σw)_i / σ(w)，ΣRC_i = σ(w)
+ * 风险平价（等风险贡献，ERC）要求各资产 RC_i 相等；带风险预算时要求 RC_i / σ(w) = b_i
+ */
+
+import { portfolioVariance } from '../risk/covariance';
+
+/**
+ * 单个资产的风险贡献
+ */
+export interface AssetRiskContribution {
+  weight: number;
+  marginal: number;       // 边际风险贡献 ∂σ/∂w_i = (Σw)_i / σ
+  contribution: number;   // 风险贡献 w_i · ∂σ/∂w_i（年化波动率单位）
+  percent: number;        // 风险贡献占组合波动率的比例 (0-1)
+}
+
+/**
+ * 组合风险分解
+ */
+export interface RiskDecomposition {
+  volatility: number;
+  assets: AssetRiskContribution[];
+}
+
+/**
+ * 风险平价求解参数
+ */
+export interface RiskParityOptions {
+  budgets?: number[];       // 风险预算，默认等权；会归一化
+  maxIterations?: number;   // 默认 1000 轮
+  tolerance?: number;       // 风险贡献占比与预算的最大偏差，默认 1e-8
+}
+
+/**
+ * 风险平价求解结果
+ */
+export interface RiskParityResult {
+  weights: number[];
+  iterations: number;
+  converged: boolean;
+  decomposition: RiskDecomposition;
+}
+
+/**
+ * 计算组合各资产的边际风险贡献和风险贡献
+ *
+ * @param weights - 组合权重
+ * @param cov - 年化协方差矩阵
+ */
+export function riskContributions(weights: number[], cov: number[][]): RiskDecomposition {
+  const volatility = Math.sqrt(Math.max(0, portfolioVariance(weights, cov)));
+  const sigmaW = cov.map(row => row.reduce((sum, v, j) => sum + v * weights[j], 0));
+
+  return {
+    volatility,
+    assets: weights.map((w, i) => {
+      const marginal = volatility > 0 ? sigmaW[i] / volatility : 0;
+      const contribution = w * marginal;
+      return {
+        weight: w,
+        marginal,
+        contribution,
+        percent: volatility > 0 ? contribution / volatility : 0,
+      };
+    }),
+  };
+}
+
+/**
+ * 风险平价权重（循环坐标下降法）
+ *
+ * 对每个资产依次求解 x_i (Σx)_i = b_i σ(x) 的正根:
+ *   x_i = (-c_i + sqrt(c_i² + 4 Σ_ii b_i σ(x))) / (2 Σ_ii)，c_i = Σ_{j≠i} Σ_ij x_j
+ * 收敛后归一化为权重。参考 Griveau-Billion, Richard & Roncalli (2013)
+ *
+ * @param cov - 年化协方差矩阵（对角线须为正）
+ * @param options - 风险预算与迭代参数
+ */
+export function equalRiskContribution(cov: number[][], options: RiskParityOptions = {}): RiskParityResult {
+  const n = cov.length;
+  if (n === 0) {
+    throw new Error('候选基金为空');
+  }
+  if (cov.some((row, i) => !(row[i] > 0))) {
+    throw new Error('协方差矩阵对角线必须为正（存在波动率为 0 的资产）');
+  }
+
+  const { maxIterations = 1000, tolerance = 1e-8 } = options;
+  const rawBudgets = options.budgets && options.budgets.length === n ? options.budgets : new Array(n).fill(1);
+  if (rawBudgets.some(b => !(b > 0))) {
+    throw new Error('风险预算必须为正数');
+  }
+  const budgetSum = rawBudgets.reduce((sum, b) => sum + b, 0);
+  const budgets = rawBudgets.map(b => b / budgetSum);
+
+  // 初始值：波动率倒数加权
+  let x = cov.map((row, i) => 1 / Math.sqrt(row[i]));
+  let iterations = 0;
+  let converged = false;
+
+  for (; iterations < maxIterations; iterations++) {
+    for (let i = 0; i < n; i++) {
+      const sigma = Math.sqrt(Math.max(0, portfolioVariance(x, cov)));
+      const c = cov[i].reduce((sum, v, j) => (j === i ? sum : sum + v * x[j]), 0);
+      x[i] = (-c + Math.sqrt(c * c + 4 * cov[i][i] * budgets[i] * sigma)) / (2 * cov[i][i]);
+    }
+
+    const { assets } = riskContributions(x, cov);
+    if (assets.every((a, i) => Math.abs(a.percent - budgets[i]) < tolerance)) {
+      converged = true;
+      iterations++;
+      break;
+    }
+  }
+
+  const total = x.reduce((sum, v) => sum + v, 0);
+  x = x.map(v => v / total);
+
+  return {
+    weights: x,
+    iterations,
+    converged,
+    decomposition: riskContributions(x, cov),
+  };
+}
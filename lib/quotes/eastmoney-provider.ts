@@ -0,0 +1,86 @@
+/**
+ * 东方财富行情数据源 (push2.eastmoney.com)
+ *
+ * 使用 ulist 批量接口，fltt=2 时价格字段直接为浮点数
+ * 字段: f2=最新价, f3=涨跌幅, f4=涨跌额, f12=代码, f13=市场, f17=今开, f18=昨收
+ */
+
+import type { StockQuote } from '../valuation/calculation-engine';
+import {
+  QuoteProvider,
+  QuoteProviderOptions,
+  ResolvedSymbol,
+  chunk,
+  quotesForInputs,
+  resolveSymbols,
+  toEastmoneySecid,
+} from './quote-provider';
+
+export class EastmoneyQuoteProvider implements QuoteProvider {
+  readonly name = 'eastmoney';
+  private timeoutMs: number;
+  private batchSize: number;
+
+  constructor(options: QuoteProviderOptions = {}) {
+    this.timeoutMs = options.timeoutMs ?? 5000;
+    this.batchSize = options.batchSize ?? 100;
+  }
+
+  async getQuotes(codes: string[]): Promise<StockQuote[]> {
+    const symbols = resolveSymbols(codes);
+    if (symbols.length === 0) return [];
+
+    const batches = await Promise.all(
+      chunk(symbols, this.batchSize).map(batch => this.fetchBatch(batch))
+    );
+
+    return batches.flat();
+  }
+
+  private async fetchBatch(symbols: ResolvedSymbol[]): Promise<StockQuote[]> {
+    const bySecid = new Map(symbols.map(s => [toEastmoneySecid(s), s]));
+    const url = `https://push2.eastmoney.com/api/qt/ulist.np/get?fltt=2&invt=2&secids=${Array.from(bySecid.keys()).join(',')}&fields=f2,f3,f4,f12,f13,f17,f18`;
+
+    const response = await fetch(url, {
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+        'Referer': 'https://quote.eastmoney.com/',
+      },
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    const diff = data?.data?.diff;
+    // diff 可能是数组，也可能是以序号为键的对象
+    const items: any[] = Array.isArray(diff) ? diff : diff ? Object.values(diff) : [];
+    const quotes: StockQuote[] = [];
+
+    for (const item of items) {
+      const symbol = bySecid.get(`${item.f13}.${item.f12}`);
+      // 停牌时价格字段为 "-"
+      const prevClose = Number(item.f18);
+      if (!symbol || !isFinite(prevClose) || prevClose <= 0) continue;
+
+      const price = Number(item.f2);
+      const current = isFinite(price) && price > 0 ? price : prevClose;
+      const change = Number(item.f4);
+      const changePercent = Number(item.f3);
+
+      quotes.push(...quotesForInputs(symbol, {
+        price: current,
+        prevClose,
+        open: Number(item.f17) || 0,
+        change: isFinite(change) ? change : current - prevClose,
+        changePercent: isFinite(changePercent) ? changePercent : ((current - prevClose) / prevClose) * 100,
+      }));
+    }
+
+    return quotes;
+  }
+}
+
+export default EastmoneyQuoteProvider;
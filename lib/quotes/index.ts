@@ -0,0 +1,53 @@
+/**
+ * 行情服务入口
+ *
+ * 通过环境变量 QUOTE_PROVIDER 选择数据源:
+ * - 未设置 / failover: 腾讯优先，超时或失败时切换东方财富
+ * - tencent / eastmoney: 只使用指定数据源
+ * - mock: 使用本地样本行情（离线调试），DATA_SOURCE=fixture 时默认使用
+ */
+
+import { FailoverQuoteProvider, QuoteProvider } from './quote-provider';
+import { TencentQuoteProvider } from './tencent-provider';
+import { EastmoneyQuoteProvider } from './eastmoney-provider';
+import { MockQuoteProvider } from './mock-provider';
+import { isFixtureMode } from '../fixtures';
+
+export * from './quote-provider';
+export { TencentQuoteProvider } from './tencent-provider';
+export { EastmoneyQuoteProvider } from './eastmoney-provider';
+export { MockQuoteProvider } from './mock-provider';
+export * from './kline';
+
+/**
+ * 按名称创建行情数据源
+ */
+export function createQuoteProvider(
+  name: string = process.env.QUOTE_PROVIDER || (isFixtureMode() ? 'mock' : 'failover')
+): QuoteProvider {
+  switch (name) {
+    case 'tencent':
+      return new TencentQuoteProvider();
+    case 'eastmoney':
+      return new EastmoneyQuoteProvider();
+    case 'mock':
+      return new MockQuoteProvider();
+    default:
+      return new FailoverQuoteProvider([
+        new TencentQuoteProvider(),
+        new EastmoneyQuoteProvider(),
+      ]);
+  }
+}
+
+let defaultProvider: QuoteProvider | null = null;
+
+/**
+ * 获取默认行情数据源（单例）
+ */
+export function getQuoteProvider(): QuoteProvider {
+  if (!defaultProvider) {
+    defaultProvider = createQuoteProvider();
+  }
+  return defaultProvider;
+}
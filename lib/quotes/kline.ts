@@ -0,0 +1,103 @@
+/**
+ * 历史日 K 线 (push2his.eastmoney.com)
+ *
+ * 用于估值回测等需要历史收盘价的场景，默认前复权，涨跌幅已剔除除权除息影响
+ * klines 每行格式: 日期,开盘,收盘,最高,最低,成交量,成交额,振幅,涨跌幅,涨跌额,换手率
+ */
+
+import { isFixtureMode, readFixture } from '../fixtures';
+import { resolveMarket, toEastmoneySecid, toTencentSymbol } from './quote-provider';
+
+/**
+ * 日 K 线
+ */
+export interface DailyKline {
+  date: string;          // 交易日 (YYYY-MM-DD)
+  open: number;
+  close: number;
+  high: number;
+  low: number;
+  changePercent: number; // 涨跌幅 (%)
+}
+
+/**
+ * 复权方式: 0 不复权, 1 前复权, 2 后复权
+ */
+export type AdjustType = 0 | 1 | 2;
+
+// 历史数据不会变化，缓存 6 小时
+const klineCache = new Map<string, { data: DailyKline[]; timestamp: number }>();
+const CACHE_TTL = 6 * 60 * 60 * 1000;
+
+/**
+ * 解析 kline 接口响应
+ */
+export function parseKlines(payload: any): DailyKline[] {
+  const klines: string[] = payload?.data?.klines || [];
+
+  return klines
+    .map(line => {
+      const fields = line.split(',');
+      return {
+        date: fields[0],
+        open: parseFloat(fields[1]),
+        close: parseFloat(fields[2]),
+        high: parseFloat(fields[3]),
+        low: parseFloat(fields[4]),
+        changePercent: parseFloat(fields[8]),
+      };
+    })
+    .filter(k => k.date && isFinite(k.close) && isFinite(k.changePercent));
+}
+
+/**
+ * 获取证券（股票或指数）的历史日 K 线
+ *
+ * @param code - 证券代码，支持 sh/sz/hk 前缀
+ * @param startDate - 开始日期 (YYYY-MM-DD)
+ * @param endDate - 结束日期 (YYYY-MM-DD)
+ * @param adjust - 复权方式，默认前复权
+ * @returns 按日期升序排列的 K 线，代码无法识别时返回空数组
+ */
+export async function getDailyKlines(
+  code: string,
+  startDate: string,
+  endDate: string,
+  adjust: AdjustType = 1
+): Promise<DailyKline[]> {
+  const symbol = resolveMarket(code);
+  if (!symbol) return [];
+
+  const inRange = (k: DailyKline) => k.date >= startDate && k.date <= endDate;
+
+  if (isFixtureMode()) {
+    const fixture = await readFixture('quotes', 'fixtures', 'kline', `${toTencentSymbol(symbol)}.json`);
+    return fixture ? parseKlines(JSON.parse(fixture)).filter(inRange) : [];
+  }
+
+  const secid = toEastmoneySecid(symbol);
+  const cacheKey = `${secid}:${startDate}:${endDate}:${adjust}`;
+  const cached = klineCache.get(cacheKey);
+  if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
+    return cached.data;
+  }
+
+  const url = `https://push2his.eastmoney.com/api/qt/stock/kline/get?secid=${secid}&fields1=f1,f2,f3&fields2=f51,f52,f53,f54,f55,f56,f57,f58,f59,f60,f61&klt=101&fqt=${adjust}&beg=${startDate.replace(/-/g, '')}&end=${endDate.replace(/-/g, '')}`;
+
+  const response = await fetch(url, {
+    headers: {
+      'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+      'Referer': 'https://quote.eastmoney.com/',
+    },
+    signal: AbortSignal.timeout(10000),
+  });
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  }
+
+  const klines = parseKlines(await response.json()).filter(inRange);
+  klineCache.set(cacheKey, { data: klines, timestamp: Date.now() });
+
+  return klines;
+}
@@ -0,0 +1,32 @@
+/**
+ * 离线行情数据源
+ *
+ * 从本地样本 (fixtures/quotes.json) 返回固定行情，用于无网络环境下的估值计算和调试
+ */
+
+import type { StockQuote } from '../valuation/calculation-engine';
+import { QuoteProvider, quotesForInputs, resolveSymbols, toTencentSymbol } from './quote-provider';
+import fixture from './fixtures/quotes.json';
+
+type FixtureQuote = Omit<StockQuote, 'code'>;
+
+export class MockQuoteProvider implements QuoteProvider {
+  readonly name = 'mock';
+  private quotes: Record<string, FixtureQuote>;
+
+  /**
+   * @param quotes - 自定义行情（键为腾讯行情代码，如 sh600519），不传则使用内置样本
+   */
+  constructor(quotes?: Record<string, FixtureQuote>) {
+    this.quotes = quotes ?? fixture.quotes;
+  }
+
+  async getQuotes(codes: string[]): Promise<StockQuote[]> {
+    return resolveSymbols(codes).flatMap(symbol => {
+      const quote = this.quotes[toTencentSymbol(symbol)];
+      return quote ? quotesForInputs(symbol, quote) : [];
+    });
+  }
+}
+
+export default MockQuoteProvider;
@@ -0,0 +1,188 @@
+/**
+ * 股票行情数据源抽象层
+ *
+ * 定义统一的 QuoteProvider 接口、市场前缀解析和多数据源故障转移
+ * 所有服务端行情获取都应通过这里的接口完成
+ */
+
+import type { StockQuote } from '../valuation/calculation-engine';
+
+/**
+ * 交易市场
+ */
+export type Market = 'SH' | 'SZ' | 'BJ' | 'HK';
+
+/**
+ * 解析后的证券代码
+ */
+export interface ResolvedSymbol {
+  input: string;     // 调用方传入的原始代码
+  inputs: string[];  // 解析到同一证券的全部原始代码（如 600519 和 sh600519），行情结果按每个代码各返回一条
+  market: Market;
+  code: string;      // 去掉市场前缀后的代码
+}
+
+/**
+ * 行情数据源接口
+ */
+export interface QuoteProvider {
+  readonly name: string;
+
+  /**
+   * 批量获取实时行情
+   *
+   * 获取不到的代码直接缺省，不抛异常；数据源整体不可用（超时、HTTP 错误）时抛出异常
+   */
+  getQuotes(codes: string[]): Promise<StockQuote[]>;
+}
+
+/**
+ * 行情数据源通用配置
+ */
+export interface QuoteProviderOptions {
+  timeoutMs?: number;  // 单次请求超时（毫秒）
+  batchSize?: number;  // 单次请求的最大代码数
+}
+
+/**
+ * 解析证券代码所属市场
+ *
+ * 支持:
+ * - 带前缀代码: sh600519 / sz000001 / bj430047 / hk00700（大小写均可）
+ * - 5 位数字: 港股
+ * - 6 位数字: 按号段判断沪/深/北交所
+ */
+export function resolveMarket(input: string): ResolvedSymbol | null {
+  const raw = input.trim();
+  const prefixed = raw.match(/^(sh|sz|bj|hk)\.?(\d{5,6})$/i);
+
+  if (prefixed) {
+    return { input, inputs: [input], market: prefixed[1].toUpperCase() as Market, code: prefixed[2] };
+  }
+
+  if (/^\d{5}$/.test(raw)) {
+    return { input, inputs: [input], market: 'HK', code: raw };
+  }
+
+  if (!/^\d{6}$/.test(raw)) {
+    return null;
+  }
+
+  // 北交所: 4/8 开头，以及新号段 92 开头
+  if (raw.startsWith('92') || raw.startsWith('4') || raw.startsWith('8')) {
+    return { input, inputs: [input], market: 'BJ', code: raw };
+  }
+
+  // 上交所: 6 开头主板/科创板，5 开头基金，9 开头 B 股
+  if (raw.startsWith('6') || raw.startsWith('5') || raw.startsWith('9')) {
+    return { input, inputs: [input], market: 'SH', code: raw };
+  }
+
+  // 深交所: 0/2/3 开头股票，1 开头基金
+  return { input, inputs: [input], market: 'SZ', code: raw };
+}
+
+/**
+ * 腾讯行情代码，如 sh600519、hk00700
+ */
+export function toTencentSymbol(symbol: ResolvedSymbol): string {
+  return `${symbol.market.toLowerCase()}${symbol.code}`;
+}
+
+/**
+ * 东方财富 secid，如 1.600519、116.00700
+ */
+export function toEastmoneySecid(symbol: ResolvedSymbol): string {
+  switch (symbol.market) {
+    case 'SH':
+      return `1.${symbol.code}`;
+    case 'HK':
+      return `116.${symbol.code}`;
+    default:
+      // 深交所与北交所在东方财富均为 0 市场
+      return `0.${symbol.code}`;
+  }
+}
+
+/**
+ * 解析代码列表，丢弃无法识别的代码，并按解析后的证券去重
+ *
+ * 600519 和 sh600519 解析为同一证券，只请求一次，两个原始代码都记录在 inputs 中
+ */
+export function resolveSymbols(codes: string[]): ResolvedSymbol[] {
+  const bySymbol = new Map<string, ResolvedSymbol>();
+
+  for (const code of codes) {
+    const symbol = resolveMarket(code);
+    if (!symbol) continue;
+
+    const key = `${symbol.market}.${symbol.code}`;
+    const existing = bySymbol.get(key);
+    if (!existing) {
+      bySymbol.set(key, symbol);
+    } else if (!existing.inputs.includes(code)) {
+      existing.inputs.push(code);
+    }
+  }
+
+  return Array.from(bySymbol.values());
+}
+
+/**
+ * 把一只证券的行情按调用方传入的每个原始代码各生成一条
+ */
+export function quotesForInputs(symbol: ResolvedSymbol, quote: Omit<StockQuote, 'code'>): StockQuote[] {
+  return symbol.inputs.map(code => ({ ...quote, code }));
+}
+
+/**
+ * 按批次切分
+ */
+export function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * 多数据源故障转移
+ *
+ * 按顺序请求各数据源，前一个数据源超时、报错或缺失的代码交给下一个数据源补齐
+ */
+export class FailoverQuoteProvider implements QuoteProvider {
+  readonly name: string;
+
+  constructor(private providers: QuoteProvider[]) {
+    this.name = `failover(${providers.map(p => p.name).join(',')})`;
+  }
+
+  async getQuotes(codes: string[]): Promise<StockQuote[]> {
+    const quotes: StockQuote[] = [];
+    let remaining = Array.from(new Set(codes));
+    let lastError: unknown = null;
+
+    for (const provider of this.providers) {
+      if (remaining.length === 0) break;
+
+      try {
+        const result = await provider.getQuotes(remaining);
+        const received = new Set(result.map(q => q.code));
+
+        quotes.push(...result);
+        remaining = remaining.filter(code => !received.has(code));
+      } catch (error) {
+        lastError = error;
+        console.warn(`行情数据源 ${provider.name} 不可用，切换下一个:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    // 所有数据源都失败且一条行情都没拿到时才抛出
+    if (quotes.length === 0 && lastError) {
+      throw lastError instanceof Error ? lastError : new Error('所有行情数据源均不可用');
+    }
+
+    return quotes;
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * 腾讯行情数据源 (qt.gtimg.cn)
+ *
+ * 返回格式: v_sh600519="1~名称~代码~当前价~昨收~今开~...~涨跌额(31)~涨跌幅(32)~..."
+ * 港股 (hk00700) 字段位置相同
+ */
+
+import type { StockQuote } from '../valuation/calculation-engine';
+import {
+  QuoteProvider,
+  QuoteProviderOptions,
+  ResolvedSymbol,
+  chunk,
+  quotesForInputs,
+  resolveSymbols,
+  toTencentSymbol,
+} from './quote-provider';
+
+export class TencentQuoteProvider implements QuoteProvider {
+  readonly name = 'tencent';
+  private timeoutMs: number;
+  private batchSize: number;
+
+  constructor(options: QuoteProviderOptions = {}) {
+    this.timeoutMs = options.timeoutMs ?? 5000;
+    this.batchSize = options.batchSize ?? 60;
+  }
+
+  async getQuotes(codes: string[]): Promise<StockQuote[]> {
+    const symbols = resolveSymbols(codes);
+    if (symbols.length === 0) return [];
+
+    const batches = await Promise.all(
+      chunk(symbols, this.batchSize).map(batch => this.fetchBatch(batch))
+    );
+
+    return batches.flat();
+  }
+
+  private async fetchBatch(symbols: ResolvedSymbol[]): Promise<StockQuote[]> {
+    const bySymbol = new Map(symbols.map(s => [toTencentSymbol(s), s]));
+    const url = `https://qt.gtimg.cn/q=${Array.from(bySymbol.keys()).join(',')}`;
+
+    const response = await fetch(url, {
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+        'Referer': 'https://stockapp.finance.qq.com/',
+      },
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const text = await response.text();
+    const quotes: StockQuote[] = [];
+
+    for (const match of text.matchAll(/v_(\w+)="([^"]*)"/g)) {
+      const symbol = bySymbol.get(match[1]);
+      const values = match[2].split('~');
+      if (!symbol || values.length < 33) continue;
+
+      const price = parseFloat(values[3]);
+      const prevClose = parseFloat(values[4]);
+      // 停牌或无效数据: 当前价为 0 时用昨收代替
+      if (!isFinite(prevClose) || prevClose <= 0) continue;
+      const current = isFinite(price) && price > 0 ? price : prevClose;
+
+      const change = parseFloat(values[31]);
+      const changePercent = parseFloat(values[32]);
+
+      quotes.push(...quotesForInputs(symbol, {
+        price: current,
+        prevClose,
+        open: parseFloat(values[5]) || 0,
+        change: isFinite(change) ? change : current - prevClose,
+        changePercent: isFinite(changePercent) ? changePercent : ((current - prevClose) / prevClose) * 100,
+      }));
+    }
+
+    return quotes;
+  }
+}
+
+export default TencentQuoteProvider;
@@ -4,47 +4,13 @@
  * 基于用户偏好和多因子评分模型推荐基金
  */
 
-import { MultiFactorScorer, FundData, FundScore } from '../scoring/multi-factor';
-
-// 内部搜索函数 - 直接使用 JSONP 获取东方财富数据
-async function searchFundsEastmoney(keyword?: string) {
-  try {
-    const url = `https://fund.eastmoney.com/js/fundcode_search.js?timestamp=${Date.now()}`;
-    
-    // 使用 JSONP 方式获取数据
-    const response = await fetch(url);
-    const text = await response.text();
-
-    // 解析返回的数据（格式: var r = [...]）
-    const match = text.match(/var r = (\[.*?\]);/);
-    if (!match) {
-      return [];
-    }
+import { MultiFactorScorer, FundData, FundScore, primaryCategory } from '../scoring/multi-factor';
+import { getWeightProfile } from '../scoring/weight-profiles';
+import { getFundData } from '../services/fund-profile-service';
+import { getFundUniverse } from '../search/fund-universe-service';
 
-    const fundsData = JSON.parse(match[1]);
-
-    // 如果有关键词，进行过滤
-    if (keyword) {
-      return fundsData
-        .filter((fund: any[]) => {
-          const code = fund[0] || '';
-          const name = fund[2] || '';
-          const pinyin = fund[1] || '';
-          return (
-            code.includes(keyword) ||
-            name.toLowerCase().includes(keyword.toLowerCase()) ||
-            pinyin.toLowerCase().includes(keyword.toLowerCase())
-          );
-        })
-        .slice(0, 50);
-    }
-
-    return fundsData.slice(0, 50);
-  } catch (error) {
-    console.error('搜索基金失败:', error);
-    return [];
-  }
-}
+// 并发获取基金档案的基金数
+const PROFILE_BATCH_SIZE = 5;
 
 export interface UserPreferences {
   riskTolerance: 'conservative' | 'moderate' | 'aggressive';
@@ -80,11 +46,13 @@ export class SmartFundRecommender {
     preferences: UserPreferences,
     limit: number = 10
   ): Promise<FundRecommendation[]> {
-    // 1. 根据风险偏好确定基金类型
+    // 1. 根据风险偏好确定基金类型和评分权重方案
     const fundTypes = this.getFundTypesByRisk(preferences.riskTolerance);
+    this.scorer.setProfile(await getWeightProfile(this.getProfileName(preferences.riskTolerance)));
 
     // 2. 搜索候选基金
     const candidates = await this.searchCandidates(fundTypes);
+    await this.attachProfiles(candidates);
 
     // 3. 评分并排序
     const scores = await this.scorer.scoreBatch(candidates);
@@ -109,6 +77,20 @@ export class SmartFundRecommender {
     return recommendations;
   }
 
+  /**
+   * 根据风险偏好选择权重方案（见 lib/scoring/weight-profiles.json）
+   */
+  private getProfileName(risk: string): string {
+    switch (risk) {
+      case 'conservative':
+        return 'conservative';
+      case 'aggressive':
+        return 'aggressive';
+      default:
+        return 'default';
+    }
+  }
+
   /**
    * 根据风险偏好获取基金类型
    */
@@ -131,42 +113,60 @@ export class SmartFundRecommender {
   private async searchCandidates(types: string[]): Promise<FundData[]> {
     const candidates: FundData[] = [];
 
-    // 搜索不同类型的基金
-    for (const type of types) {
-      try {
-        const results = await searchFundsEastmoney(type);
-        // results 是数组格式: [code, pinyin, name, type, ...]
-        for (const result of results.slice(0, 20)) {
-          // 确保 result 是数组格式
-          if (Array.isArray(result) && result.length >= 4) {
-            candidates.push({
-              code: result[0], // code
-              name: result[2], // name
-              type: result[3] || type, // type
-              // 这里可以添加更多从API获取的数据
-            });
-          }
-        }
-      } catch (error) {
-        console.error(`Failed to search funds for type ${type}:`, error);
+    // 在共享的全部基金列表中按类型选取
+    try {
+      const universe = await getFundUniverse();
+      for (const type of types) {
+        universe.funds
+          .filter(f => f.type.includes(type))
+          .slice(0, 20)
+          .forEach(f => candidates.push({ code: f.code, name: f.name, type: f.type || type }));
       }
+    } catch (error) {
+      console.error('获取基金列表失败:', error);
     }
 
     return candidates;
   }
 
+  /**
+   * 补充候选基金的业绩、风险、经理、费率、规模和持仓数据
+   *
+   * 档案获取失败的基金保留搜索结果中的基本信息，评分时按缺失数据处理
+   */
+  private async attachProfiles(candidates: FundData[]): Promise<void> {
+    for (let i = 0; i < candidates.length; i += PROFILE_BATCH_SIZE) {
+      const batch = candidates.slice(i, i + PROFILE_BATCH_SIZE);
+      const settled = await Promise.allSettled(batch.map(f => getFundData(f.code)));
+
+      settled.forEach((item, idx) => {
+        if (item.status === 'rejected') {
+          console.warn(`获取基金 ${batch[idx].code} 档案失败:`, item.reason);
+          return;
+        }
+        // 名称和类型沿用搜索结果，其余字段只补充缺失值
+        Object.entries(item.value).forEach(([key, value]) => {
+          const field = key as keyof FundData;
+          if (value !== undefined && batch[idx][field] === undefined) {
+            (batch[idx] as any)[field] = value;
+          }
+        });
+      });
+    }
+  }
+
   /**
    * 根据用户偏好过滤
    */
   private filterByPreferences(scores: FundScore[], preferences: UserPreferences): FundScore[] {
     return scores.filter((score) => {
-      // 最大回撤限制
-      if (preferences.maxDrawdown && score.risk < 50) {
+      // 最大回撤限制，缺少风险数据时无法确认，不推荐
+      if (preferences.maxDrawdown && (score.risk === null || score.risk < 50)) {
         return false;
       }
 
-      // 最低收益要求
-      if (preferences.minReturn && score.performance < preferences.minReturn) {
+      // 最低收益要求，缺少业绩数据时无法确认，不推荐
+      if (preferences.minReturn && (score.performance === null || score.performance < preferences.minReturn)) {
         return false;
       }
 
@@ -190,18 +190,19 @@ export class SmartFundRecommender {
       reasons.push(`综合评级 ${score.rating}，表现优秀`);
     }
 
+    // 各因子得分为同类百分位，80 分即优于同类 80% 的基金
     // 风险匹配
     if (score.risk >= 80) {
-      reasons.push('风险控制能力强，历史波动低');
+      reasons.push('风险控制居同类前列，历史波动低');
     } else if (score.risk >= 60) {
-      reasons.push('风险控制良好');
+      reasons.push('风险控制优于多数同类');
     }
 
     // 业绩匹配
     if (score.performance >= 80) {
-      reasons.push('历史业绩优异，长期表现稳定');
+      reasons.push('历史业绩居同类前列');
     } else if (score.performance >= 60) {
-      reasons.push('历史表现良好');
+      reasons.push('历史业绩优于多数同类');
     }
 
     // 经理匹配
@@ -211,7 +212,7 @@ export class SmartFundRecommender {
 
     // 费用匹配
     if (score.fee >= 80) {
-      reasons.push('费率低，成本低');
+      reasons.push('费率低于多数同类');
     }
 
     // 规模匹配
@@ -219,6 +220,11 @@ export class SmartFundRecommender {
       reasons.push('基金规模适中，流动性好');
     }
 
+    // 持仓匹配
+    if (score.holdings >= 80) {
+      reasons.push('换手率低，持仓稳定');
+    }
+
     return reasons;
   }
 
@@ -226,6 +232,14 @@ export class SmartFundRecommender {
    * 获取风险等级
    */
   private getRiskLevel(score: FundScore): 'low' | 'medium' | 'high' {
+    // 缺少风险指标时按基金大类粗略判断
+    if (score.risk === null) {
+      const category = primaryCategory(score.peerCategory);
+      if (/货币|债/.test(category)) return 'low';
+      if (/股票|指数|QDII/.test(category)) return 'high';
+      return 'medium';
+    }
+
     if (score.risk >= 70) return 'low';
     if (score.risk >= 50) return 'medium';
     return 'high';
@@ -0,0 +1,274 @@
+/**
+ * 协方差与相关系数矩阵
+ *
+ * 把多只基金的日收益率序列按交易日对齐，计算样本协方差和 Ledoit-Wolf 收缩协方差
+ * 风险分析和组合优化都应通过这里获取协方差，而不是假设固定相关系数
+ */
+
+import { DailyReturn, TRADING_DAYS_PER_YEAR } from './metrics';
+
+/**
+ * 缺失交易日处理方式
+ * - intersect: 只保留所有基金都有数据的日期
+ * - fill: 取并集，缺失日期的收益率记为 0（如 QDII 基金在境外节假日不更新净值）
+ */
+export type MissingPolicy = 'intersect' | 'fill';
+
+export type CovarianceMethod = 'sample' | 'ledoit-wolf';
+
+/**
+ * 对齐后的收益率矩阵
+ */
+export interface AlignedReturns {
+  codes: string[];
+  dates: string[];
+  matrix: number[][];   // matrix[t][i] 为第 i 只基金在 dates[t] 的日收益率
+}
+
+/**
+ * 协方差计算结果
+ */
+export interface CovarianceResult {
+  codes: string[];
+  method: CovarianceMethod;
+  observations: number;
+  startDate: string | null;
+  endDate: string | null;
+  covariance: number[][];   // 年化协方差
+  correlation: number[][];
+  volatility: number[];     // 年化波动率
+  meanReturn: number[];     // 年化平均收益率（算术）
+  shrinkage: number;        // Ledoit-Wolf 收缩强度 (0-1)，样本协方差为 0
+}
+
+/**
+ * 协方差计算参数
+ */
+export interface CovarianceOptions {
+  method?: CovarianceMethod;   // 默认 ledoit-wolf
+  missing?: MissingPolicy;     // 默认 intersect
+  annualize?: boolean;         // 默认 true
+}
+
+/**
+ * 按交易日对齐多只基金的收益率序列
+ *
+ * @param series - 各基金的日收益率序列
+ * @param missing - 缺失交易日处理方式
+ */
+export function alignReturns(
+  series: { code: string; returns: DailyReturn[] }[],
+  missing: MissingPolicy = 'intersect'
+): AlignedReturns {
+  const codes = series.map(s => s.code);
+  if (series.length === 0) {
+    return { codes, dates: [], matrix: [] };
+  }
+
+  const maps = series.map(s => new Map(s.returns.map(r => [r.date, r.value])));
+  const allDates = new Set<string>();
+  series.forEach(s => s.returns.forEach(r => allDates.add(r.date)));
+
+  const dates = Array.from(allDates)
+    .filter(date => missing === 'fill' || maps.every(m => m.has(date)))
+    .sort();
+
+  return {
+    codes,
+    dates,
+    matrix: dates.map(date => maps.map(m => m.get(date) ?? 0)),
+  };
+}
+
+/**
+ * 各列均值
+ */
+function columnMeans(matrix: number[][]): number[] {
+  const n = matrix[0]?.length || 0;
+  const means = new Array(n).fill(0);
+  matrix.forEach(row => row.forEach((v, i) => { means[i] += v; }));
+  return means.map(m => m / Math.max(1, matrix.length));
+}
+
+/**
+ * 样本协方差（无偏，除以 T-1）
+ */
+export function sampleCovariance(matrix: number[][]): number[][] {
+  const t = matrix.length;
+  const n = matrix[0]?.length || 0;
+  const means = columnMeans(matrix);
+  const cov = Array.from({ length: n }, () => new Array(n).fill(0));
+
+  if (t < 2) return cov;
+
+  for (const row of matrix) {
+    for (let i = 0; i < n; i++) {
+      const di = row[i] - means[i];
+      for (let j = i; j < n; j++) {
+        cov[i][j] += di * (row[j] - means[j]);
+      }
+    }
+  }
+
+  for (let i = 0; i < n; i++) {
+    for (let j = i; j < n; j++) {
+      cov[i][j] /= t - 1;
+      cov[j][i] = cov[i][j];
+    }
+  }
+
+  return cov;
+}
+
+/**
+ * Ledoit-Wolf 收缩协方差（收缩目标为等方差单位阵 μI）
+ *
+ * 样本少、基金多时样本协方差噪声大且可能奇异，收缩后矩阵正定、估计更稳定
+ * 参考 Ledoit & Wolf (2004), "A well-conditioned estimator for large-dimensional covariance matrices"
+ */
+export function ledoitWolfCovariance(matrix: number[][]): { covariance: number[][]; shrinkage: number } {
+  const t = matrix.length;
+  const n = matrix[0]?.length || 0;
+
+  if (t < 2 || n === 0) {
+    return { covariance: sampleCovariance(matrix), shrinkage: 0 };
+  }
+
+  const means = columnMeans(matrix);
+  const x = matrix.map(row => row.map((v, i) => v - means[i]));
+
+  // 最大似然协方差 S = X'X / T
+  const s = Array.from({ length: n }, () => new Array(n).fill(0));
+  for (const row of x) {
+    for (let i = 0; i < n; i++) {
+      for (let j = i; j < n; j++) {
+        s[i][j] += row[i] * row[j];
+      }
+    }
+  }
+  for (let i = 0; i < n; i++) {
+    for (let j = i; j < n; j++) {
+      s[i][j] /= t;
+      s[j][i] = s[i][j];
+    }
+  }
+
+  const mu = s.reduce((sum, row, i) => sum + row[i], 0) / n;
+
+  // δ² = ||S - μI||² / n：样本协方差与目标的距离
+  let delta = 0;
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) {
+      delta += (s[i][j] - (i === j ? mu : 0)) ** 2;
+    }
+  }
+  delta /= n;
+
+  // β² = Σ_t ||x_t x_t' - S||² / (n T²)：样本协方差自身的估计误差
+  let beta = 0;
+  for (const row of x) {
+    for (let i = 0; i < n; i++) {
+      for (let j = 0; j < n; j++) {
+        beta += (row[i] * row[j] - s[i][j]) ** 2;
+      }
+    }
+  }
+  beta /= n * t * t;
+
+  const shrinkage = delta > 0 ? Math.min(beta, delta) / delta : 0;
+  const covariance = s.map((row, i) =>
+    row.map((v, j) => (1 - shrinkage) * v + (i === j ? shrinkage * mu : 0))
+  );
+
+  return { covariance, shrinkage };
+}
+
+/**
+ * 协方差矩阵转相关系数矩阵
+ */
+export function covarianceToCorrelation(cov: number[][]): number[][] {
+  const sd = cov.map((row, i) => Math.sqrt(Math.max(0, row[i])));
+  return cov.map((row, i) =>
+    row.map((v, j) => {
+      if (i === j) return 1;
+      const denom = sd[i] * sd[j];
+      return denom > 0 ? Math.max(-1, Math.min(1, v / denom)) : 0;
+    })
+  );
+}
+
+/**
+ * 组合方差 w'Σw
+ */
+export function portfolioVariance(weights: number[], cov: number[][]): number {
+  let variance = 0;
+  for (let i = 0; i < weights.length; i++) {
+    for (let j = 0; j < weights.length; j++) {
+      variance += weights[i] * weights[j] * cov[i][j];
+    }
+  }
+  return variance;
+}
+
+/**
+ * 由波动率和相关系数构造协方差矩阵（缺少历史序列时使用）
+ *
+ * @param volatility - 各资产年化波动率
+ * @param correlation - 相关系数矩阵，不传时视为不相关
+ */
+export function covarianceFromVolatility(volatility: number[], correlation?: number[][]): number[][] {
+  return volatility.map((vi, i) =>
+    volatility.map((vj, j) => vi * vj * (i === j ? 1 : correlation?.[i]?.[j] ?? 0))
+  );
+}
+
+/**
+ * 非对角线元素的平均值（平均两两相关系数）
+ */
+export function averageOffDiagonal(matrix: number[][]): number {
+  const n = matrix.length;
+  if (n <= 1) return 0;
+
+  let sum = 0;
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      sum += matrix[i][j];
+    }
+  }
+  return sum / (n * (n - 1) / 2);
+}
+
+/**
+ * 计算多只基金的协方差与相关系数矩阵
+ *
+ * @param series - 各基金的日收益率序列
+ * @param options - 计算参数
+ */
+export function computeCovarianceMatrix(
+  series: { code: string; returns: DailyReturn[] }[],
+  options: CovarianceOptions = {}
+): CovarianceResult {
+  const { method = 'ledoit-wolf', missing = 'intersect', annualize = true } = options;
+  const aligned = alignReturns(series, missing);
+  const scale = annualize ? TRADING_DAYS_PER_YEAR : 1;
+
+  const { covariance, shrinkage } = method === 'ledoit-wolf'
+    ? ledoitWolfCovariance(aligned.matrix)
+    : { covariance: sampleCovariance(aligned.matrix), shrinkage: 0 };
+
+  const scaled = covariance.map(row => row.map(v => v * scale));
+  const means = aligned.matrix.length > 0 ? columnMeans(aligned.matrix) : aligned.codes.map(() => 0);
+
+  return {
+    codes: aligned.codes,
+    method,
+    observations: aligned.dates.length,
+    startDate: aligned.dates[0] || null,
+    endDate: aligned.dates[aligned.dates.length - 1] || null,
+    covariance: scaled,
+    correlation: covarianceToCorrelation(covariance),
+    volatility: scaled.map((row, i) => Math.sqrt(Math.max(0, row[i]))),
+    meanReturn: means.map(m => m * scale),
+    shrinkage,
+  };
+}
@@ -0,0 +1,80 @@
+/**
+ * 基金历史收益率序列
+ *
+ * 从历史净值服务读取净值并转换为日收益率，供风险指标计算使用
+ * 日增长率缺失时按复权净值计算，避免把除息、拆分造成的净值下跳算作亏损
+ */
+
+import { getAdjustedNavHistory } from '../events/fund-events-service';
+import { DailyReturn, navToReturns } from './metrics';
+import { computeCovarianceMatrix, CovarianceOptions, CovarianceResult } from './covariance';
+import { MIN_OBSERVATIONS } from './portfolio-risk';
+
+// 默认回看一年
+export const DEFAULT_LOOKBACK_DAYS = 365;
+
+function daysAgo(days: number): string {
+  const d = new Date();
+  d.setDate(d.getDate() - days);
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * 获取单只基金的日收益率序列
+ *
+ * @param fundCode - 基金代码
+ * @param lookbackDays - 回看自然日天数
+ * @returns 按日期升序的日收益率
+ */
+export async function getFundReturns(
+  fundCode: string,
+  lookbackDays: number = DEFAULT_LOOKBACK_DAYS
+): Promise<DailyReturn[]> {
+  const { records } = await getAdjustedNavHistory(fundCode, { from: daysAgo(lookbackDays) });
+  return navToReturns(records.map(r => ({ date: r.date, nav: r.adjustedNav, dayGrowth: r.dayGrowth })));
+}
+
+/**
+ * 批量获取日收益率序列，单只失败时该基金缺省
+ */
+export async function getFundReturnsBatch(
+  fundCodes: string[],
+  lookbackDays: number = DEFAULT_LOOKBACK_DAYS
+): Promise<Map<string, DailyReturn[]>> {
+  const result = new Map<string, DailyReturn[]>();
+  const settled = await Promise.allSettled(fundCodes.map(code => getFundReturns(code, lookbackDays)));
+
+  settled.forEach((item, idx) => {
+    if (item.status === 'fulfilled' && item.value.length > 0) {
+      result.set(fundCodes[idx], item.value);
+    } else if (item.status === 'rejected') {
+      console.warn(`获取基金 ${fundCodes[idx]} 历史净值失败:`, item.reason);
+    }
+  });
+
+  return result;
+}
+
+/**
+ * 加载多只基金的历史净值并计算协方差矩阵
+ *
+ * @returns 协方差结果；任一基金缺少历史净值或共同交易日少于 minObservations 时返回 null
+ */
+export async function getFundCovariance(
+  fundCodes: string[],
+  options: CovarianceOptions & { lookbackDays?: number; minObservations?: number } = {}
+): Promise<CovarianceResult | null> {
+  const { lookbackDays = DEFAULT_LOOKBACK_DAYS, minObservations = MIN_OBSERVATIONS, ...covarianceOptions } = options;
+  const returnsByCode = await getFundReturnsBatch(fundCodes, lookbackDays);
+
+  if (fundCodes.some(code => !returnsByCode.has(code))) {
+    return null;
+  }
+
+  const result = computeCovarianceMatrix(
+    fundCodes.map(code => ({ code, returns: returnsByCode.get(code)! })),
+    covarianceOptions
+  );
+
+  return result.observations >= minObservations ? result : null;
+}
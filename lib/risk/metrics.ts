@@ -0,0 +1,321 @@
+/**
+ * 收益率序列风险指标
+ *
+ * 基于日收益率序列计算年化收益、年化波动率、最大回撤、VaR/CVaR、Sortino、Calmar 等指标
+ * 收益率均为小数形式（0.01 表示 1%），VaR/CVaR 为单日、以正数表示的损失
+ */
+
+/**
+ * 单日收益率
+ */
+export interface DailyReturn {
+  date: string;   // YYYY-MM-DD
+  value: number;  // 日收益率（小数）
+}
+
+/**
+ * 最大回撤
+ */
+export interface DrawdownInfo {
+  maxDrawdown: number;         // 最大回撤（正数小数）
+  peakDate: string | null;     // 回撤开始前的高点日期
+  troughDate: string | null;   // 回撤最低点日期
+  recoveryDate: string | null; // 回到前高的日期，尚未修复时为 null
+}
+
+/**
+ * 收益率序列的风险指标
+ */
+export interface SeriesRiskMetrics {
+  observations: number;         // 样本天数
+  startDate: string | null;
+  endDate: string | null;
+  annualizedReturn: number;     // 年化收益率
+  annualizedVolatility: number; // 年化波动率
+  sharpeRatio: number;
+  sortinoRatio: number;
+  calmarRatio: number;
+  drawdown: DrawdownInfo;
+  var95: number;                // 95% 历史模拟 VaR（单日）
+  cvar95: number;               // 95% 历史模拟 CVaR（单日）
+  var95CornishFisher: number;   // 95% Cornish-Fisher 修正 VaR（单日）
+  cvar95CornishFisher: number;  // 95% Cornish-Fisher 修正 CVaR（单日）
+  skewness: number;             // 偏度
+  excessKurtosis: number;       // 超额峰度
+}
+
+export const TRADING_DAYS_PER_YEAR = 250;
+
+/**
+ * 由净值记录计算日收益率
+ *
+ * 优先使用公布的日增长率（已处理分红除息），缺失时用相邻单位净值计算
+ */
+export function navToReturns(
+  records: { date: string; nav: number; dayGrowth?: number | null }[]
+): DailyReturn[] {
+  const returns: DailyReturn[] = [];
+
+  for (let i = 1; i < records.length; i++) {
+    const { date, nav, dayGrowth } = records[i];
+    const prevNav = records[i - 1].nav;
+
+    const value = dayGrowth !== null && dayGrowth !== undefined
+      ? dayGrowth / 100
+      : prevNav > 0 ? nav / prevNav - 1 : NaN;
+
+    if (isFinite(value)) {
+      returns.push({ date, value });
+    }
+  }
+
+  return returns;
+}
+
+export function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+/**
+ * 样本标准差
+ */
+export function standardDeviation(values: number[]): number {
+  if (values.length < 2) return 0;
+  const avg = mean(values);
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - avg) ** 2, 0) / (values.length - 1));
+}
+
+/**
+ * 偏度
+ */
+export function skewness(values: number[]): number {
+  const sd = standardDeviation(values);
+  if (sd === 0) return 0;
+  const avg = mean(values);
+  return mean(values.map(v => ((v - avg) / sd) ** 3));
+}
+
+/**
+ * 超额峰度（正态分布为 0）
+ */
+export function excessKurtosis(values: number[]): number {
+  const sd = standardDeviation(values);
+  if (sd === 0) return 0;
+  const avg = mean(values);
+  return mean(values.map(v => ((v - avg) / sd) ** 4)) - 3;
+}
+
+/**
+ * 皮尔逊相关系数
+ */
+export function correlation(a: number[], b: number[]): number {
+  const n = Math.min(a.length, b.length);
+  if (n < 2) return 0;
+
+  const meanA = mean(a.slice(0, n));
+  const meanB = mean(b.slice(0, n));
+  let cov = 0;
+  let varA = 0;
+  let varB = 0;
+
+  for (let i = 0; i < n; i++) {
+    cov += (a[i] - meanA) * (b[i] - meanB);
+    varA += (a[i] - meanA) ** 2;
+    varB += (b[i] - meanB) ** 2;
+  }
+
+  return varA > 0 && varB > 0 ? cov / Math.sqrt(varA * varB) : 0;
+}
+
+/**
+ * 分位数（线性插值）
+ */
+export function quantile(values: number[], p: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const pos = (sorted.length - 1) * p;
+  const lower = Math.floor(pos);
+  const upper = Math.ceil(pos);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (pos - lower);
+}
+
+/**
+ * 标准正态分布分位数（Acklam 近似，相对误差 < 1.15e-9）
+ */
+export function normalQuantile(p: number): number {
+  const a = [-3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2, 1.38357751867269e2, -3.066479806614716e1, 2.506628277459239];
+  const b = [-5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2, 6.680131188771972e1, -1.328068155288572e1];
+  const c = [-7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996, 3.754408661907416];
+  const pLow = 0.02425;
+
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+
+  if (p < pLow) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+
+  if (p > 1 - pLow) {
+    return -normalQuantile(1 - p);
+  }
+
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+/**
+ * 年化收益率（几何）
+ */
+export function annualizedReturn(returns: number[]): number {
+  if (returns.length === 0) return 0;
+  const growth = returns.reduce((acc, r) => acc * (1 + r), 1);
+  return Math.pow(growth, TRADING_DAYS_PER_YEAR / returns.length) - 1;
+}
+
+/**
+ * 年化波动率
+ */
+export function annualizedVolatility(returns: number[]): number {
+  return standardDeviation(returns) * Math.sqrt(TRADING_DAYS_PER_YEAR);
+}
+
+/**
+ * 最大回撤及其高点、低点、修复日期
+ */
+export function maxDrawdown(returns: DailyReturn[]): DrawdownInfo {
+  let value = 1;
+  let peak = 1;
+  let peakDate: string | null = null;
+  const result: DrawdownInfo = { maxDrawdown: 0, peakDate: null, troughDate: null, recoveryDate: null };
+  let recovered = true;
+
+  for (const r of returns) {
+    value *= 1 + r.value;
+
+    if (value >= peak) {
+      if (!recovered && result.peakDate === peakDate) {
+        result.recoveryDate = r.date;
+        recovered = true;
+      }
+      peak = value;
+      peakDate = r.date;
+      continue;
+    }
+
+    const drawdown = 1 - value / peak;
+    if (drawdown > result.maxDrawdown) {
+      result.maxDrawdown = drawdown;
+      // 序列开头即下跌时，高点为第一天之前的净值
+      result.peakDate = peakDate;
+      result.troughDate = r.date;
+      result.recoveryDate = null;
+      recovered = false;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 历史模拟 VaR 与 CVaR（单日，正数表示损失）
+ */
+export function historicalVaR(returns: number[], confidence: number = 0.95): { var: number; cvar: number } {
+  if (returns.length === 0) return { var: 0, cvar: 0 };
+
+  const threshold = quantile(returns, 1 - confidence);
+  const tail = returns.filter(r => r <= threshold);
+
+  return {
+    var: Math.max(0, -threshold),
+    cvar: Math.max(0, -mean(tail.length > 0 ? tail : [threshold])),
+  };
+}
+
+/**
+ * Cornish-Fisher 修正分位数（用偏度和超额峰度修正正态分位数）
+ */
+function cornishFisherZ(z: number, s: number, k: number): number {
+  return z
+    + (z * z - 1) * s / 6
+    + (z ** 3 - 3 * z) * k / 24
+    - (2 * z ** 3 - 5 * z) * s * s / 36;
+}
+
+/**
+ * Cornish-Fisher VaR 与 CVaR（单日，正数表示损失）
+ *
+ * CVaR 为尾部各置信水平下修正 VaR 的平均值（数值积分）
+ */
+export function cornishFisherVaR(returns: number[], confidence: number = 0.95): { var: number; cvar: number } {
+  if (returns.length < 2) return { var: 0, cvar: 0 };
+
+  const mu = mean(returns);
+  const sigma = standardDeviation(returns);
+  const s = skewness(returns);
+  const k = excessKurtosis(returns);
+  const alpha = 1 - confidence;
+
+  const lossAt = (p: number) => -(mu + cornishFisherZ(normalQuantile(p), s, k) * sigma);
+
+  const steps = 100;
+  let tailSum = 0;
+  for (let i = 0; i < steps; i++) {
+    tailSum += lossAt(alpha * (i + 0.5) / steps);
+  }
+
+  return {
+    var: Math.max(0, lossAt(alpha)),
+    cvar: Math.max(0, tailSum / steps),
+  };
+}
+
+/**
+ * Sortino 比率（年化，下行偏差以无风险利率为目标）
+ */
+export function sortinoRatio(returns: number[], riskFreeRate: number): number {
+  if (returns.length === 0) return 0;
+
+  const dailyTarget = riskFreeRate / TRADING_DAYS_PER_YEAR;
+  const downside = Math.sqrt(mean(returns.map(r => Math.min(0, r - dailyTarget) ** 2)))
+    * Math.sqrt(TRADING_DAYS_PER_YEAR);
+
+  return downside > 0 ? (annualizedReturn(returns) - riskFreeRate) / downside : 0;
+}
+
+/**
+ * 计算收益率序列的全部风险指标
+ *
+ * @param returns - 按日期升序的日收益率
+ * @param riskFreeRate - 年化无风险利率
+ */
+export function computeSeriesRiskMetrics(returns: DailyReturn[], riskFreeRate: number = 0.03): SeriesRiskMetrics {
+  const values = returns.map(r => r.value);
+  const annualReturn = annualizedReturn(values);
+  const volatility = annualizedVolatility(values);
+  const drawdown = maxDrawdown(returns);
+  const historical = historicalVaR(values);
+  const modified = cornishFisherVaR(values);
+
+  return {
+    observations: values.length,
+    startDate: returns[0]?.date || null,
+    endDate: returns[returns.length - 1]?.date || null,
+    annualizedReturn: annualReturn,
+    annualizedVolatility: volatility,
+    sharpeRatio: volatility > 0 ? (annualReturn - riskFreeRate) / volatility : 0,
+    sortinoRatio: sortinoRatio(values, riskFreeRate),
+    calmarRatio: drawdown.maxDrawdown > 0 ? annualReturn / drawdown.maxDrawdown : 0,
+    drawdown,
+    var95: historical.var,
+    cvar95: historical.cvar,
+    var95CornishFisher: modified.var,
+    cvar95CornishFisher: modified.cvar,
+    skewness: skewness(values),
+    excessKurtosis: excessKurtosis(values),
+  };
+}
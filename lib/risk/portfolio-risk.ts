@@ -2,16 +2,51 @@
  * 组合风险分析模块
  *
  * 计算投资组合的风险指标
+ * 持仓带有历史日收益率序列时按实际序列计算（empirical），否则按收益率粗略估算（estimated）
  */
 
+import {
+  annualizedVolatility,
+  computeSeriesRiskMetrics,
+  DailyReturn,
+  normalQuantile,
+  TRADING_DAYS_PER_YEAR,
+} from './metrics';
+import {
+  alignReturns,
+  averageOffDiagonal,
+  computeCovarianceMatrix,
+  CovarianceMethod,
+  CovarianceResult,
+  covarianceFromVolatility,
+  portfolioVariance,
+} from './covariance';
+
 export interface FundHolding {
   code: string;
   name: string;
   weight: number; // 权重 (0-1)
   return: number; // 收益率
   volatility?: number; // 波动率
+  returns?: DailyReturn[]; // 历史日收益率序列（按日期升序）
 }
 
+/**
+ * 指标计算方式: empirical 由历史净值序列实际计算, estimated 按经验公式估算
+ */
+export type MetricMethod = 'empirical' | 'estimated';
+
+export type RiskMetricField =
+  | 'portfolioReturn'
+  | 'portfolioVolatility'
+  | 'portfolioSharpe'
+  | 'maxDrawdown'
+  | 'var95'
+  | 'cvar95'
+  | 'correlation'
+  | 'sortinoRatio'
+  | 'calmarRatio';
+
 export interface RiskMetrics {
   // 组合指标
   portfolioReturn: number; // 组合收益率
@@ -30,8 +65,22 @@ export interface RiskMetrics {
   // 风险等级
   riskLevel: 'low' | 'medium' | 'high';
   riskScore: number; // 风险评分 (0-100)
+
+  // 下行风险
+  sortinoRatio: number; // 索提诺比率
+  calmarRatio: number; // 卡玛比率（年化收益 / 最大回撤）
+  var95CornishFisher: number; // 95% Cornish-Fisher 修正 VaR
+  cvar95CornishFisher: number; // 95% Cornish-Fisher 修正 CVaR
+  drawdownPeakDate: string | null; // 最大回撤高点日期
+  drawdownTroughDate: string | null; // 最大回撤低点日期
+
+  observations: number; // 组合收益率序列样本天数（估算时为 0）
+  method: Record<RiskMetricField, MetricMethod>; // 各指标的计算方式
 }
 
+// 实际序列至少需要的样本天数，不足时退回估算
+export const MIN_OBSERVATIONS = 60;
+
 /**
  * 组合风险分析器
  */
@@ -40,12 +89,65 @@ export class PortfolioRiskAnalyzer {
 
   /**
    * 分析组合风险
+   *
+   * VaR / CVaR 均为单日、置信度 95%，以正数表示损失
    */
   analyzePortfolio(holdings: FundHolding[]): RiskMetrics {
     if (holdings.length === 0) {
       return this.getEmptyMetrics();
     }
 
+    const series = this.buildPortfolioReturns(holdings);
+    return series.length >= MIN_OBSERVATIONS
+      ? this.analyzeEmpirical(holdings, series)
+      : this.analyzeEstimated(holdings);
+  }
+
+  /**
+   * 按组合实际日收益率序列计算
+   */
+  private analyzeEmpirical(holdings: FundHolding[], series: DailyReturn[]): RiskMetrics {
+    const stats = computeSeriesRiskMetrics(series, this.riskFreeRate);
+    const correlation = this.calcAverageCorrelation(holdings);
+    const { riskLevel, riskScore } = this.getRiskLevel(stats.annualizedVolatility);
+    const empirical: MetricMethod = 'empirical';
+
+    return {
+      portfolioReturn: stats.annualizedReturn,
+      portfolioVolatility: stats.annualizedVolatility,
+      portfolioSharpe: stats.sharpeRatio,
+      maxDrawdown: stats.drawdown.maxDrawdown,
+      var95: stats.var95,
+      cvar95: stats.cvar95,
+      correlation: correlation ?? this.estimateCorrelation(holdings),
+      concentration: this.calcConcentration(holdings),
+      riskLevel,
+      riskScore,
+      sortinoRatio: stats.sortinoRatio,
+      calmarRatio: stats.calmarRatio,
+      var95CornishFisher: stats.var95CornishFisher,
+      cvar95CornishFisher: stats.cvar95CornishFisher,
+      drawdownPeakDate: stats.drawdown.peakDate,
+      drawdownTroughDate: stats.drawdown.troughDate,
+      observations: stats.observations,
+      method: {
+        portfolioReturn: empirical,
+        portfolioVolatility: empirical,
+        portfolioSharpe: empirical,
+        maxDrawdown: empirical,
+        var95: empirical,
+        cvar95: empirical,
+        correlation: correlation === null ? 'estimated' : empirical,
+        sortinoRatio: empirical,
+        calmarRatio: empirical,
+      },
+    };
+  }
+
+  /**
+   * 缺少历史序列时按经验公式估算
+   */
+  private analyzeEstimated(holdings: FundHolding[]): RiskMetrics {
     // 计算组合收益率
     const portfolioReturn = this.calcPortfolioReturn(holdings);
 
@@ -61,7 +163,7 @@ export class PortfolioRiskAnalyzer {
     // 估算最大回撤
     const maxDrawdown = this.estimateMaxDrawdown(portfolioVolatility);
 
-    // 计算 VaR
+    // 计算 VaR（正态假设下 Cornish-Fisher 修正与普通 VaR 相同）
     const var95 = this.calcVaR(portfolioVolatility, 0.95);
     const cvar95 = this.calcCVaR(portfolioVolatility, 0.95);
 
@@ -74,6 +176,13 @@ export class PortfolioRiskAnalyzer {
     // 计算风险等级
     const { riskLevel, riskScore } = this.getRiskLevel(portfolioVolatility);
 
+    // 对称分布下下行偏差约为标准差的 1/√2
+    const sortinoRatio = portfolioSharpe * Math.SQRT2;
+    const calmarRatio = maxDrawdown > 0 ? portfolioReturn / maxDrawdown : 0;
+
+    // 单只基金自带实际序列时，其波动率是实测值，但组合层面的结果仍视为估算
+    const estimated: MetricMethod = 'estimated';
+
     return {
       portfolioReturn,
       portfolioVolatility,
@@ -85,9 +194,76 @@ export class PortfolioRiskAnalyzer {
       concentration,
       riskLevel,
       riskScore,
+      sortinoRatio,
+      calmarRatio,
+      var95CornishFisher: var95,
+      cvar95CornishFisher: cvar95,
+      drawdownPeakDate: null,
+      drawdownTroughDate: null,
+      observations: 0,
+      method: {
+        portfolioReturn: estimated,
+        portfolioVolatility: estimated,
+        portfolioSharpe: estimated,
+        maxDrawdown: estimated,
+        var95: estimated,
+        cvar95: estimated,
+        correlation: estimated,
+        sortinoRatio: estimated,
+        calmarRatio: estimated,
+      },
     };
   }
 
+  /**
+   * 按共同交易日合成组合日收益率
+   *
+   * 任一持仓缺少序列时返回空数组
+   */
+  private buildPortfolioReturns(holdings: FundHolding[]): DailyReturn[] {
+    if (holdings.some(h => !h.returns || h.returns.length === 0)) {
+      return [];
+    }
+
+    const totalWeight = holdings.reduce((sum, h) => sum + h.weight, 0);
+    if (totalWeight <= 0) return [];
+
+    const aligned = alignReturns(holdings.map(h => ({ code: h.code, returns: h.returns! })));
+
+    return aligned.dates.map((date, t) => ({
+      date,
+      value: holdings.reduce((sum, h, i) => sum + (h.weight / totalWeight) * aligned.matrix[t][i], 0),
+    }));
+  }
+
+  /**
+   * 计算持仓的协方差与相关系数矩阵
+   *
+   * 任一持仓缺少序列或共同交易日不足时返回 null
+   */
+  getCovarianceMatrix(holdings: FundHolding[], method: CovarianceMethod = 'ledoit-wolf'): CovarianceResult | null {
+    if (holdings.length === 0 || holdings.some(h => !h.returns || h.returns.length === 0)) {
+      return null;
+    }
+
+    const result = computeCovarianceMatrix(
+      holdings.map(h => ({ code: h.code, returns: h.returns! })),
+      { method }
+    );
+
+    return result.observations >= MIN_OBSERVATIONS ? result : null;
+  }
+
+  /**
+   * 按共同交易日计算平均两两相关系数，样本不足时返回 null
+   */
+  private calcAverageCorrelation(holdings: FundHolding[]): number | null {
+    if (holdings.length <= 1) return 0;
+
+    const matrix = this.getCovarianceMatrix(holdings);
+    return matrix ? averageOffDiagonal(matrix.correlation) : null;
+  }
+
   /**
    * 计算组合收益率
    */
@@ -99,28 +275,34 @@ export class PortfolioRiskAnalyzer {
   }
 
   /**
-   * 计算组合波动率
-   * 简化计算：使用波动率的加权平均（假设零相关）
+   * 计算组合波动率 √(w'Σw)
+   *
+   * 有历史序列时使用 Ledoit-Wolf 协方差，否则用各基金波动率和假设的平均相关系数构造协方差
    */
   private calcPortfolioVolatility(holdings: FundHolding[]): number {
-    let variance = 0;
+    const weights = holdings.map(h => h.weight);
+    const matrix = this.getCovarianceMatrix(holdings);
 
-    for (const holding of holdings) {
-      const vol = holding.volatility || this.estimateVolatility(holding.return);
-      variance += Math.pow(vol * holding.weight, 2);
+    if (matrix) {
+      return Math.sqrt(portfolioVariance(weights, matrix.covariance));
     }
 
-    // 添加相关性影响（简化假设平均相关性为 0.3）
-    const avgCorrelation = 0.3;
-    for (let i = 0; i < holdings.length; i++) {
-      for (let j = i + 1; j < holdings.length; j++) {
-        const vol1 = holdings[i].volatility || this.estimateVolatility(holdings[i].return);
-        const vol2 = holdings[j].volatility || this.estimateVolatility(holdings[j].return);
-        variance += 2 * avgCorrelation * holdings[i].weight * holdings[j].weight * vol1 * vol2;
-      }
-    }
+    const avgCorrelation = this.estimateCorrelation(holdings);
+    const correlation = holdings.map((_, i) => holdings.map((_, j) => (i === j ? 1 : avgCorrelation)));
+    const covariance = covarianceFromVolatility(holdings.map(h => this.getFundVolatility(h)), correlation);
 
-    return Math.sqrt(variance);
+    return Math.sqrt(portfolioVariance(weights, covariance));
+  }
+
+  /**
+   * 单只基金年化波动率: 传入值 > 历史序列实测 > 按收益率估算
+   */
+  private getFundVolatility(holding: FundHolding): number {
+    if (holding.volatility) return holding.volatility;
+    if (holding.returns && holding.returns.length >= MIN_OBSERVATIONS) {
+      return annualizedVolatility(holding.returns.map(r => r.value));
+    }
+    return this.estimateVolatility(holding.return);
   }
 
   /**
@@ -151,32 +333,22 @@ export class PortfolioRiskAnalyzer {
   }
 
   /**
-   * 计算 VaR (风险价值)
+   * 计算单日 VaR (风险价值)
    */
   private calcVaR(volatility: number, confidence: number): number {
-    // 使用正态分布假设
-    const z = this.getZScore(confidence);
-    return z * volatility;
+    // 使用正态分布假设，年化波动率折算为日波动率
+    const z = normalQuantile(confidence);
+    return z * volatility / Math.sqrt(TRADING_DAYS_PER_YEAR);
   }
 
   /**
-   * 计算 CVaR (条件风险价值)
+   * 计算单日 CVaR (条件风险价值)
    */
   private calcCVaR(volatility: number, confidence: number): number {
-    // CVaR 约为 VaR 的 1.2 倍
-    return this.calcVaR(volatility, confidence) * 1.2;
-  }
-
-  /**
-   * 获取 Z 分数
-   */
-  private getZScore(confidence: number): number {
-    const zScores: Record<number, number> = {
-      0.90: 1.28,
-      0.95: 1.65,
-      0.99: 2.33,
-    };
-    return zScores[confidence] || 1.65;
+    // 正态分布的期望损失: σ × φ(z) / (1 - c)
+    const z = normalQuantile(confidence);
+    const density = Math.exp(-z * z / 2) / Math.sqrt(2 * Math.PI);
+    return volatility / Math.sqrt(TRADING_DAYS_PER_YEAR) * density / (1 - confidence);
   }
 
   /**
@@ -243,6 +415,24 @@ export class PortfolioRiskAnalyzer {
       concentration: 0,
       riskLevel: 'low',
       riskScore: 100,
+      sortinoRatio: 0,
+      calmarRatio: 0,
+      var95CornishFisher: 0,
+      cvar95CornishFisher: 0,
+      drawdownPeakDate: null,
+      drawdownTroughDate: null,
+      observations: 0,
+      method: {
+        portfolioReturn: 'estimated',
+        portfolioVolatility: 'estimated',
+        portfolioSharpe: 'estimated',
+        maxDrawdown: 'estimated',
+        var95: 'estimated',
+        cvar95: 'estimated',
+        correlation: 'estimated',
+        sortinoRatio: 'estimated',
+        calmarRatio: 'estimated',
+      },
     };
   }
 
@@ -1,10 +1,18 @@
 /**
  * 多因子评分模型
  *
- * 基于多个维度对基金进行综合评分
- * 用于智能推荐系统
+ * 基于多个维度对基金进行综合评分，用于智能推荐系统
+ *
+ * 每个指标按同类基金内的百分位排名打分（0-100，100 为同类最好），而不是固定的绝对阈值:
+ * - 同类先按完整类型（如 混合型-偏股）分组，样本不足时退到大类（混合型），仍不足时在全部候选基金中排名
+ * - 缺少数据的指标不参与计算，因子得分为其余指标的加权平均；因子全部缺失时得分为 null
+ * - 综合得分只在有数据的因子上按权重重新归一，覆盖的权重低于 minCoverage 时不评级
+ *
+ * 因子和指标权重来自权重方案（weight-profiles.json），可按方案切换
  */
 
+import bundledProfiles from './weight-profiles.json';
+
 export interface FundData {
   code: string;
   name: string;
@@ -26,258 +34,351 @@ export interface FundData {
   fundScale?: number; // 基金规模（亿元）
   // 持仓数据
   holdingsConcentration?: number; // 持仓集中度
-  turnoverRate?: number; // 换手率
+  turnoverRate?: number; // 年化换手率 (%)，由季报重仓股变动估算
+}
+
+export type FactorKey = 'performance' | 'risk' | 'manager' | 'fee' | 'size' | 'holdings';
+
+export type MetricKey =
+  | 'return1Y' | 'return3Y' | 'return5Y'
+  | 'volatility' | 'maxDrawdown' | 'sharpeRatio'
+  | 'managerExperience' | 'managerScale'
+  | 'managementFee'
+  | 'fundScale'
+  | 'holdingsConcentration' | 'turnoverRate';
+
+export type Rating = 'AAA' | 'AA' | 'A' | 'BBB' | 'BB' | 'B' | 'CCC' | 'NR';
+
+/**
+ * 单个指标的打分明细
+ */
+export interface MetricExplanation {
+  metric: MetricKey;
+  label: string;
+  value: number | null;        // 原始值，缺失为 null
+  percentile: number | null;   // 同类百分位得分 (0-100)，缺失或样本不足为 null
+  peerGroup: string | null;    // 实际参与排名的同类分组
+  peerCount: number;           // 该分组中有该指标数据的基金数（含自身）
+}
+
+/**
+ * 单个因子的打分明细
+ */
+export interface FactorExplanation {
+  factor: FactorKey;
+  label: string;
+  score: number | null;        // 因子得分 (0-100)，指标全部缺失时为 null
+  weight: number;              // 方案中的权重
+  effectiveWeight: number;     // 在有数据的因子间重新归一后的权重，缺失时为 0
+  metrics: MetricExplanation[];
+  summary: string;             // 中文说明
 }
 
 export interface FundScore {
   code: string;
   name: string;
-  performance: number; // 业绩得分 (0-100)
-  risk: number; // 风险得分 (0-100)
-  manager: number; // 经理得分 (0-100)
-  fee: number; // 费用得分 (0-100)
-  size: number; // 规模得分 (0-100)
-  holdings: number; // 持仓得分 (0-100)
-  totalScore: number; // 总分 (0-100)
-  rating: 'AAA' | 'AA' | 'A' | 'BBB' | 'BB' | 'B' | 'CCC';
+  performance: number | null; // 业绩得分 (0-100)
+  risk: number | null; // 风险得分 (0-100)
+  manager: number | null; // 经理得分 (0-100)
+  fee: number | null; // 费用得分 (0-100)
+  size: number | null; // 规模得分 (0-100)
+  holdings: number | null; // 持仓得分 (0-100)
+  totalScore: number | null; // 总分 (0-100)，数据覆盖不足时为 null
+  rating: Rating; // 数据覆盖不足时为 NR（未评级）
+  peerCategory: string; // 同类分组（完整类型）
+  coverage: number; // 有数据的因子权重之和 (0-1)
+  profile: string; // 使用的权重方案
+  factors: FactorExplanation[];
+}
+
+/**
+ * 权重方案
+ */
+export interface WeightProfile {
+  name: string;
+  label?: string;
+  weights: Record<FactorKey, number>;          // 因子权重，内部归一
+  metrics?: Partial<Record<MetricKey, number>>; // 覆盖因子内的指标权重，内部归一
+  minCoverage?: number;                        // 最低数据覆盖率，默认 0.3
+}
+
+type Direction = 'higher' | 'lower' | 'range';
+
+interface MetricDefinition {
+  metric: MetricKey;
+  label: string;
+  unit: string;
+  direction: Direction;        // higher 越高越好，lower 越低越好，range 越接近区间越好
+  range?: [number, number];
+  weight: number;
+}
+
+export const FACTOR_DEFINITIONS: Record<FactorKey, { label: string; metrics: MetricDefinition[] }> = {
+  performance: {
+    label: '业绩',
+    metrics: [
+      { metric: 'return1Y', label: '近1年收益', unit: '%', direction: 'higher', weight: 0.2 },
+      { metric: 'return3Y', label: '近3年收益', unit: '%', direction: 'higher', weight: 0.4 },
+      { metric: 'return5Y', label: '近5年收益', unit: '%', direction: 'higher', weight: 0.4 },
+    ],
+  },
+  risk: {
+    label: '风险控制',
+    metrics: [
+      { metric: 'volatility', label: '年化波动率', unit: '%', direction: 'lower', weight: 0.3 },
+      { metric: 'maxDrawdown', label: '最大回撤', unit: '%', direction: 'lower', weight: 0.3 },
+      { metric: 'sharpeRatio', label: '夏普比率', unit: '', direction: 'higher', weight: 0.4 },
+    ],
+  },
+  manager: {
+    label: '基金经理',
+    metrics: [
+      { metric: 'managerExperience', label: '从业年限', unit: '年', direction: 'higher', weight: 0.5 },
+      { metric: 'managerScale', label: '管理规模', unit: '亿', direction: 'higher', weight: 0.5 },
+    ],
+  },
+  fee: {
+    label: '费用',
+    metrics: [
+      { metric: 'managementFee', label: '管理费率', unit: '%', direction: 'lower', weight: 1 },
+    ],
+  },
+  size: {
+    label: '规模',
+    metrics: [
+      { metric: 'fundScale', label: '基金规模', unit: '亿', direction: 'range', range: [10, 100], weight: 1 },
+    ],
+  },
+  holdings: {
+    label: '持仓',
+    metrics: [
+      { metric: 'holdingsConcentration', label: '持仓集中度', unit: '%', direction: 'range', range: [30, 60], weight: 0.5 },
+      { metric: 'turnoverRate', label: '年化换手率', unit: '%', direction: 'lower', weight: 0.5 },
+    ],
+  },
+};
+
+export const FACTOR_KEYS = Object.keys(FACTOR_DEFINITIONS) as FactorKey[];
+
+// 同类分组中至少要有这么多只有数据的基金（含自身）才按该分组排名
+export const MIN_PEER_COUNT = 5;
+
+const DEFAULT_MIN_COVERAGE = 0.3;
+const ALL_PEERS = '全部候选';
+
+const RATING_THRESHOLDS: [number, Rating][] = [
+  [85, 'AAA'],
+  [75, 'AA'],
+  [65, 'A'],
+  [55, 'BBB'],
+  [45, 'BB'],
+  [35, 'B'],
+];
+
+export const DEFAULT_WEIGHT_PROFILE: WeightProfile = {
+  name: 'default',
+  ...(bundledProfiles as Record<string, Omit<WeightProfile, 'name'>>).default,
+};
+
+function round(value: number, digits: number = 1): number {
+  return Math.round(value * 10 ** digits) / 10 ** digits;
+}
+
+/**
+ * 基金大类，如 混合型-偏股 → 混合型
+ */
+export function primaryCategory(type: string): string {
+  return (type || '').split('-')[0].trim() || '未分类';
+}
+
+/**
+ * 指标排序用的值：range 方向转换为到区间的相对距离，距离越小越好
+ */
+function rankValue(definition: MetricDefinition, value: number): number {
+  if (definition.direction !== 'range') return value;
+  const [low, high] = definition.range!;
+  if (value < low) return (low - value) / low;
+  if (value > high) return (value - high) / high;
+  return 0;
+}
+
+/**
+ * 百分位得分：比目标差的基金占其余基金的比例，并列记一半，同类最好为 100、最差为 0
+ */
+function percentileScore(target: number, values: number[], higherIsBetter: boolean): number {
+  let worse = 0;
+  let ties = -1;   // 不含自身
+  values.forEach(v => {
+    if (v === target) ties++;
+    else if (higherIsBetter ? v < target : v > target) worse++;
+  });
+  return ((worse + ties / 2) / (values.length - 1)) * 100;
+}
+
+function describeMetric(definition: MetricDefinition, m: MetricExplanation): string {
+  const value = `${round(m.value!, 2)}${definition.unit}`;
+  return `${m.label} ${value}，优于${m.peerGroup} ${m.peerCount} 只中的 ${round(m.percentile!, 0)}%`;
 }
 
 /**
  * 多因子评分器
  */
 export class MultiFactorScorer {
-  // 因子权重
-  private weights = {
-    performance: 0.30, // 业绩因子 30%
-    risk: 0.25, // 风险因子 25%
-    manager: 0.20, // 经理因子 20%
-    fee: 0.10, // 费用因子 10%
-    size: 0.10, // 规模因子 10%
-    holdings: 0.05, // 持仓因子 5%
-  };
+  private profile: WeightProfile;
+  private universe: FundData[];
 
   /**
-   * 计算基金综合得分
+   * @param profile - 权重方案，默认为 weight-profiles.json 中的 default
+   * @param universe - 同类排名的基金池，不传时以每次 scoreBatch 的基金为基金池
    */
-  async score(fund: FundData): Promise<FundScore> {
-    const scores = {
-      performance: this.calcPerformanceScore(fund),
-      risk: this.calcRiskScore(fund),
-      manager: this.calcManagerScore(fund),
-      fee: this.calcFeeScore(fund),
-      size: this.calcSizeScore(fund),
-      holdings: this.calcHoldingsScore(fund),
-    };
-
-    const totalScore =
-      scores.performance * this.weights.performance +
-      scores.risk * this.weights.risk +
-      scores.manager * this.weights.manager +
-      scores.fee * this.weights.fee +
-      scores.size * this.weights.size +
-      scores.holdings * this.weights.holdings;
+  constructor(profile: WeightProfile = DEFAULT_WEIGHT_PROFILE, universe: FundData[] = []) {
+    this.profile = profile;
+    this.universe = universe;
+  }
 
-    return {
-      code: fund.code,
-      name: fund.name,
-      ...scores,
-      totalScore,
-      rating: this.getRating(totalScore),
-    };
+  /**
+   * 计算基金综合得分（在构造时传入的基金池中排名）
+   */
+  async score(fund: FundData): Promise<FundScore> {
+    const pool = this.universe.some(f => f.code === fund.code) ? this.universe : [...this.universe, fund];
+    return this.scoreInPool(fund, pool);
   }
 
   /**
    * 批量评分
    */
   async scoreBatch(funds: FundData[]): Promise<FundScore[]> {
-    const scores = await Promise.all(
-      funds.map((fund) => this.score(fund))
-    );
+    const codes = new Set(funds.map(f => f.code));
+    const pool = [...funds, ...this.universe.filter(f => !codes.has(f.code))];
+    const scores = funds.map(fund => this.scoreInPool(fund, pool));
 
-    // 按总分降序排序
-    return scores.sort((a, b) => b.totalScore - a.totalScore);
+    // 按总分降序排序，未评级的排在最后
+    return scores.sort((a, b) => (b.totalScore ?? -1) - (a.totalScore ?? -1));
   }
 
   /**
-   * 计算业绩得分
+   * 在基金池中对单只基金打分
    */
-  private calcPerformanceScore(fund: FundData): number {
-    let score = 50; // 基础分
-
-    // 1年收益率 (20分)
-    if (fund.return1Y !== undefined) {
-      if (fund.return1Y > 30) score += 20;
-      else if (fund.return1Y > 20) score += 15;
-      else if (fund.return1Y > 10) score += 10;
-      else if (fund.return1Y > 0) score += 5;
-      else score -= 10;
-    }
+  private scoreInPool(fund: FundData, pool: FundData[]): FundScore {
+    const weights = this.normalizedFactorWeights();
+    const factors = FACTOR_KEYS.map(factor => this.scoreFactor(fund, pool, factor, weights[factor]));
 
-    // 3年收益率 (40分)
-    if (fund.return3Y !== undefined) {
-      if (fund.return3Y > 80) score += 40;
-      else if (fund.return3Y > 50) score += 30;
-      else if (fund.return3Y > 30) score += 20;
-      else if (fund.return3Y > 10) score += 10;
-      else if (fund.return3Y > 0) score += 5;
-      else score -= 10;
-    }
+    const coverage = factors.reduce((sum, f) => sum + (f.score !== null ? f.weight : 0), 0);
+    factors.forEach(f => {
+      f.effectiveWeight = f.score !== null && coverage > 0 ? round(f.weight / coverage, 4) : 0;
+    });
 
-    // 5年收益率 (40分)
-    if (fund.return5Y !== undefined) {
-      if (fund.return5Y > 150) score += 40;
-      else if (fund.return5Y > 100) score += 30;
-      else if (fund.return5Y > 50) score += 20;
-      else if (fund.return5Y > 20) score += 10;
-      else if (fund.return5Y > 0) score += 5;
-      else score -= 10;
-    }
+    const minCoverage = this.profile.minCoverage ?? DEFAULT_MIN_COVERAGE;
+    const totalScore = coverage > 0 && coverage >= minCoverage
+      ? round(factors.reduce((sum, f) => sum + (f.score ?? 0) * f.effectiveWeight, 0))
+      : null;
+
+    const byFactor = Object.fromEntries(factors.map(f => [f.factor, f.score])) as Record<FactorKey, number | null>;
 
-    return Math.max(0, Math.min(100, score));
+    return {
+      code: fund.code,
+      name: fund.name,
+      ...byFactor,
+      totalScore,
+      rating: this.getRating(totalScore),
+      peerCategory: fund.type || '未分类',
+      coverage: round(coverage, 4),
+      profile: this.profile.name,
+      factors,
+    };
   }
 
   /**
-   * 计算风险得分
+   * 计算单个因子得分
    */
-  private calcRiskScore(fund: FundData): number {
-    let score = 50; // 基础分
-
-    // 波动率 (30分) - 越低越好
-    if (fund.volatility !== undefined) {
-      if (fund.volatility < 10) score += 30;
-      else if (fund.volatility < 15) score += 20;
-      else if (fund.volatility < 20) score += 10;
-      else if (fund.volatility < 25) score += 0;
-      else score -= 10;
-    }
-
-    // 最大回撤 (30分) - 越小越好
-    if (fund.maxDrawdown !== undefined) {
-      if (fund.maxDrawdown < 5) score += 30;
-      else if (fund.maxDrawdown < 10) score += 20;
-      else if (fund.maxDrawdown < 15) score += 10;
-      else if (fund.maxDrawdown < 20) score += 0;
-      else score -= 10;
-    }
-
-    // 夏普比率 (40分) - 越高越好
-    if (fund.sharpeRatio !== undefined) {
-      if (fund.sharpeRatio > 1.5) score += 40;
-      else if (fund.sharpeRatio > 1.0) score += 30;
-      else if (fund.sharpeRatio > 0.5) score += 20;
-      else if (fund.sharpeRatio > 0) score += 10;
-      else score -= 10;
-    }
-
-    return Math.max(0, Math.min(100, score));
+  private scoreFactor(fund: FundData, pool: FundData[], factor: FactorKey, weight: number): FactorExplanation {
+    const definition = FACTOR_DEFINITIONS[factor];
+    const metrics = definition.metrics.map(m => this.rankMetric(fund, pool, m));
+
+    let weighted = 0;
+    let totalWeight = 0;
+    definition.metrics.forEach((m, i) => {
+      if (metrics[i].percentile === null) return;
+      const w = this.profile.metrics?.[m.metric] ?? m.weight;
+      weighted += metrics[i].percentile! * w;
+      totalWeight += w;
+    });
+
+    const score = totalWeight > 0 ? round(weighted / totalWeight) : null;
+    const available = definition.metrics.filter((_, i) => metrics[i].percentile !== null);
+    const notes: string[] = [];
+    const missing = metrics.filter(m => m.value === null).map(m => m.label);
+    const fewPeers = metrics.filter(m => m.value !== null && m.percentile === null).map(m => m.label);
+    if (missing.length > 0) notes.push(`缺少${missing.join('、')}数据`);
+    if (fewPeers.length > 0) notes.push(`${fewPeers.join('、')}可比基金不足 ${MIN_PEER_COUNT} 只`);
+
+    const summary = score === null
+      ? `${definition.label}：${notes.join('，')}，不参与评分`
+      : [
+        `${definition.label} ${score} 分：${available.map(m => describeMetric(m, metrics[definition.metrics.indexOf(m)])).join('；')}`,
+        ...notes,
+      ].join('；');
+
+    return { factor, label: definition.label, score, weight, effectiveWeight: 0, metrics, summary };
   }
 
   /**
-   * 计算经理得分
+   * 在同类中对单个指标排名，依次尝试 完整类型 → 大类 → 全部候选
    */
-  private calcManagerScore(fund: FundData): number {
-    let score = 50; // 基础分
-
-    // 从业年限 (50分)
-    if (fund.managerExperience !== undefined) {
-      if (fund.managerExperience > 10) score += 50;
-      else if (fund.managerExperience > 7) score += 40;
-      else if (fund.managerExperience > 5) score += 30;
-      else if (fund.managerExperience > 3) score += 20;
-      else if (fund.managerExperience > 1) score += 10;
-    }
+  private rankMetric(fund: FundData, pool: FundData[], definition: MetricDefinition): MetricExplanation {
+    const value = fund[definition.metric];
+    const base = { metric: definition.metric, label: definition.label };
 
-    // 管理规模 (50分)
-    if (fund.managerScale !== undefined) {
-      if (fund.managerScale > 500) score += 50;
-      else if (fund.managerScale > 200) score += 40;
-      else if (fund.managerScale > 100) score += 30;
-      else if (fund.managerScale > 50) score += 20;
-      else if (fund.managerScale > 10) score += 10;
+    if (value === undefined || value === null || !isFinite(value)) {
+      return { ...base, value: null, percentile: null, peerGroup: null, peerCount: 0 };
     }
 
-    return Math.max(0, Math.min(100, score));
-  }
+    const withData = pool.filter(f => typeof f[definition.metric] === 'number' && isFinite(f[definition.metric] as number));
+    const groups: [string, FundData[]][] = [
+      [fund.type || '未分类', withData.filter(f => f.type === fund.type)],
+      [primaryCategory(fund.type), withData.filter(f => primaryCategory(f.type) === primaryCategory(fund.type))],
+      [ALL_PEERS, withData],
+    ];
 
-  /**
-   * 计算费用得分
-   */
-  private calcFeeScore(fund: FundData): number {
-    let score = 50; // 基础分
-
-    if (fund.managementFee !== undefined) {
-      if (fund.managementFee < 0.5) score += 50;
-      else if (fund.managementFee < 1.0) score += 40;
-      else if (fund.managementFee < 1.5) score += 30;
-      else if (fund.managementFee < 2.0) score += 20;
-      else score -= 10;
+    const [peerGroup, peers] = groups.find(([, members]) => members.length >= MIN_PEER_COUNT) || [null, []];
+    if (!peerGroup) {
+      return { ...base, value, percentile: null, peerGroup: null, peerCount: withData.length };
     }
 
-    return Math.max(0, Math.min(100, score));
-  }
+    const values = peers.map(f => rankValue(definition, f[definition.metric] as number));
+    const percentile = percentileScore(rankValue(definition, value), values, definition.direction === 'higher');
 
-  /**
-   * 计算规模得分
-   */
-  private calcSizeScore(fund: FundData): number {
-    let score = 50; // 基础分
-
-    if (fund.fundScale !== undefined) {
-      // 规模适中最好（10-100亿）
-      if (fund.fundScale >= 10 && fund.fundScale <= 100) score += 50;
-      else if (fund.fundScale >= 5 && fund.fundScale <= 200) score += 40;
-      else if (fund.fundScale >= 2 && fund.fundScale <= 500) score += 30;
-      else if (fund.fundScale > 0) score += 10;
-      // 规模太小或太大都不好
-      else score -= 10;
-    }
+    return { ...base, value, percentile: round(percentile), peerGroup, peerCount: peers.length };
+  }
 
-    return Math.max(0, Math.min(100, score));
+  private normalizedFactorWeights(): Record<FactorKey, number> {
+    const total = FACTOR_KEYS.reduce((sum, k) => sum + Math.max(0, this.profile.weights[k] || 0), 0);
+    return Object.fromEntries(
+      FACTOR_KEYS.map(k => [k, total > 0 ? Math.max(0, this.profile.weights[k] || 0) / total : 0])
+    ) as Record<FactorKey, number>;
   }
 
   /**
-   * 计算持仓得分
+   * 根据总分获取评级
    */
-  private calcHoldingsScore(fund: FundData): number {
-    let score = 50; // 基础分
-
-    // 持仓集中度 (50分) - 适中最好
-    if (fund.holdingsConcentration !== undefined) {
-      if (fund.holdingsConcentration >= 30 && fund.holdingsConcentration <= 60) score += 50;
-      else if (fund.holdingsConcentration >= 20 && fund.holdingsConcentration <= 70) score += 40;
-      else score += 20;
-    }
-
-    // 换手率 (50分) - 越低越好
-    if (fund.turnoverRate !== undefined) {
-      if (fund.turnoverRate < 50) score += 50;
-      else if (fund.turnoverRate < 100) score += 40;
-      else if (fund.turnoverRate < 200) score += 30;
-      else if (fund.turnoverRate < 300) score += 20;
-      else score -= 10;
-    }
-
-    return Math.max(0, Math.min(100, score));
+  private getRating(score: number | null): Rating {
+    if (score === null) return 'NR';
+    const matched = RATING_THRESHOLDS.find(([threshold]) => score >= threshold);
+    return matched ? matched[1] : 'CCC';
   }
 
   /**
-   * 根据总分获取评级
+   * 切换权重方案
    */
-  private getRating(score: number): 'AAA' | 'AA' | 'A' | 'BBB' | 'BB' | 'B' | 'CCC' {
-    if (score >= 90) return 'AAA';
-    if (score >= 85) return 'AA';
-    if (score >= 80) return 'A';
-    if (score >= 75) return 'BBB';
-    if (score >= 70) return 'BB';
-    if (score >= 65) return 'B';
-    return 'CCC';
+  setProfile(profile: WeightProfile) {
+    this.profile = profile;
   }
 
   /**
    * 设置因子权重
    */
-  setWeights(weights: Partial<typeof this.weights>) {
-    this.weights = { ...this.weights, ...weights };
+  setWeights(weights: Partial<Record<FactorKey, number>>) {
+    this.profile = { ...this.profile, weights: { ...this.profile.weights, ...weights } };
   }
 }
 
@@ -0,0 +1,147 @@
+/**
+ * 评分权重方案
+ *
+ * 内置方案见 weight-profiles.json。分析师可以在数据目录下放置 scoring/weight-profiles.json
+ * （或通过环境变量 SCORING_PROFILES_FILE 指定文件）覆盖或新增方案，无需改代码，修改后下次评分即生效
+ *
+ * 文件格式与内置方案相同:
+ * { "方案名": { "label": "...", "weights": { "performance": 0.3, ... }, "metrics": { "return3Y": 0.5 }, "minCoverage": 0.3 } }
+ * 覆盖文件中的方案与同名内置方案按字段合并，weights 只需写出要调整的因子
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getDataDir } from '../storage/json-file-store';
+import bundledProfiles from './weight-profiles.json';
+import { FACTOR_DEFINITIONS, FACTOR_KEYS, MetricKey, WeightProfile } from './multi-factor';
+
+/**
+ * 权重方案格式错误
+ */
+export class WeightProfileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WeightProfileError';
+  }
+}
+
+const METRIC_KEYS = new Set<string>(
+  FACTOR_KEYS.flatMap(k => FACTOR_DEFINITIONS[k].metrics.map(m => m.metric))
+);
+
+function profilesFile(): string {
+  return process.env.SCORING_PROFILES_FILE || path.join(getDataDir(), 'scoring', 'weight-profiles.json');
+}
+
+function isNonNegative(value: unknown): value is number {
+  return typeof value === 'number' && isFinite(value) && value >= 0;
+}
+
+/**
+ * 校验并合并权重方案
+ *
+ * @param raw - 方案 JSON 对象
+ * @param base - 同名方案的基础值（内置方案）
+ * @throws WeightProfileError 字段不合法时
+ */
+export function parseWeightProfiles(
+  raw: unknown,
+  base: Record<string, WeightProfile> = {}
+): Record<string, WeightProfile> {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new WeightProfileError('权重方案应为 { 方案名: 方案 } 形式的对象');
+  }
+
+  const profiles: Record<string, WeightProfile> = { ...base };
+
+  Object.entries(raw as Record<string, any>).forEach(([name, value]) => {
+    if (!value || typeof value !== 'object') {
+      throw new WeightProfileError(`方案 ${name} 格式错误`);
+    }
+
+    const weights = { ...(base[name]?.weights || {}) } as WeightProfile['weights'];
+    Object.entries(value.weights || {}).forEach(([factor, weight]) => {
+      if (!FACTOR_KEYS.includes(factor as any)) {
+        throw new WeightProfileError(`方案 ${name} 中的因子 ${factor} 不存在，可选: ${FACTOR_KEYS.join(', ')}`);
+      }
+      if (!isNonNegative(weight)) {
+        throw new WeightProfileError(`方案 ${name} 中因子 ${factor} 的权重应为非负数`);
+      }
+      weights[factor as keyof WeightProfile['weights']] = weight;
+    });
+
+    const missingFactors = FACTOR_KEYS.filter(k => !isNonNegative(weights[k]));
+    if (missingFactors.length > 0) {
+      throw new WeightProfileError(`方案 ${name} 缺少因子权重: ${missingFactors.join(', ')}`);
+    }
+    if (FACTOR_KEYS.every(k => weights[k] === 0)) {
+      throw new WeightProfileError(`方案 ${name} 的因子权重不能全为 0`);
+    }
+
+    const metrics: Partial<Record<MetricKey, number>> = { ...(base[name]?.metrics || {}) };
+    Object.entries(value.metrics || {}).forEach(([metric, weight]) => {
+      if (!METRIC_KEYS.has(metric)) {
+        throw new WeightProfileError(`方案 ${name} 中的指标 ${metric} 不存在`);
+      }
+      if (!isNonNegative(weight)) {
+        throw new WeightProfileError(`方案 ${name} 中指标 ${metric} 的权重应为非负数`);
+      }
+      metrics[metric as MetricKey] = weight;
+    });
+
+    const minCoverage = value.minCoverage ?? base[name]?.minCoverage;
+    if (minCoverage !== undefined && !(isNonNegative(minCoverage) && minCoverage <= 1)) {
+      throw new WeightProfileError(`方案 ${name} 的 minCoverage 应在 0 到 1 之间`);
+    }
+
+    profiles[name] = {
+      name,
+      label: value.label ?? base[name]?.label,
+      weights,
+      metrics,
+      minCoverage,
+    };
+  });
+
+  return profiles;
+}
+
+/**
+ * 加载全部权重方案（内置方案 + 数据目录中的覆盖文件）
+ *
+ * 覆盖文件格式错误时抛出 WeightProfileError，不会静默退回内置方案
+ */
+export async function loadWeightProfiles(): Promise<Record<string, WeightProfile>> {
+  const bundled = parseWeightProfiles(bundledProfiles);
+
+  let text: string;
+  try {
+    text = await fs.readFile(profilesFile(), 'utf-8');
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return bundled;
+    throw error;
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new WeightProfileError(`权重方案文件 ${profilesFile()} 不是合法的 JSON`);
+  }
+
+  return parseWeightProfiles(raw, bundled);
+}
+
+/**
+ * 获取指定权重方案
+ *
+ * @param name - 方案名，不存在时抛出 WeightProfileError
+ */
+export async function getWeightProfile(name: string = 'default'): Promise<WeightProfile> {
+  const profiles = await loadWeightProfiles();
+  const profile = profiles[name];
+  if (!profile) {
+    throw new WeightProfileError(`权重方案 ${name} 不存在，可选: ${Object.keys(profiles).join(', ')}`);
+  }
+  return profile;
+}
@@ -0,0 +1,174 @@
+/**
+ * 全市场基金筛选服务
+ *
+ * 全部基金列表和关键词搜索使用基金搜索的共享列表和索引（lib/search）；
+ * 规模、费率、基金经理、区间表现和业绩比较基准来自基金档案，按需逐只建立本地索引。
+ * 筛选、排序和分页都在本地完成，不会在请求时逐只抓取数据
+ */
+
+import { JsonFileStore } from '../storage/json-file-store';
+import { isFixtureMode } from '../fixtures';
+import { getFundProfile } from '../services/fund-profile-service';
+import { matchesType } from '../search/fund-search-index';
+import { fundUniverseService } from '../search/fund-universe-service';
+import { screenFunds, ScreenerEntry, ScreenerRequest, ScreenerResult, toScreenerEntry } from './screener';
+
+// 建立索引时每批并发获取的基金档案数
+const INDEX_BATCH_SIZE = 5;
+
+// 单次扩充索引的最大基金数
+export const MAX_INDEX_BATCH = 100;
+
+interface StoredIndex {
+  entries: Record<string, ScreenerEntry>;
+  updatedAt: number | null;
+}
+
+export interface IndexRequest {
+  codes?: string[];      // 指定基金
+  types?: string[];      // 未指定基金时，按类型选取尚未索引的基金
+  limit?: number;        // 本次最多索引的基金数，默认 20
+  refresh?: boolean;     // 重新获取已索引的基金
+}
+
+export interface IndexResult {
+  indexed: string[];
+  failed: { code: string; error: string }[];
+  remaining: number;     // 符合类型条件但尚未索引的基金数
+  indexedSize: number;
+}
+
+export interface ScreenerSummary {
+  universeSize: number;
+  indexedSize: number;
+  syncedAt: number | null;
+  updatedAt: number | null;
+  types: { type: string; total: number; indexed: number }[];
+}
+
+/**
+ * 基金筛选服务类
+ */
+export class ScreenerService {
+  // 索引的读改写串行执行，避免并发扩充时互相覆盖
+  private indexQueue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * @param store - 筛选索引存储，离线样本模式下与真实数据分开保存
+   */
+  constructor(
+    private store: JsonFileStore<StoredIndex> = new JsonFileStore(isFixtureMode() ? 'fixture-screener' : 'screener')
+  ) {}
+
+  private async readIndex(): Promise<StoredIndex> {
+    const stored = await this.store.read('index');
+    return stored || { entries: {}, updatedAt: null };
+  }
+
+  private updateIndex(update: (index: StoredIndex) => void): Promise<StoredIndex> {
+    const task = this.indexQueue.catch(() => undefined).then(async () => {
+      const index = await this.readIndex();
+      update(index);
+      index.updatedAt = Date.now();
+      await this.store.write('index', index);
+      return index;
+    });
+    this.indexQueue = task;
+    return task;
+  }
+
+  /**
+   * 执行筛选
+   */
+  async screen(request: ScreenerRequest): Promise<ScreenerResult> {
+    const [universe, index] = await Promise.all([fundUniverseService.getUniverse(), this.readIndex()]);
+    const keyword = request.filters.keyword;
+    const keywordMatches = keyword
+      ? new Set((await fundUniverseService.search(keyword, { limit: Infinity })).hits.map(h => h.code))
+      : undefined;
+    return screenFunds(universe.funds, index.entries, request, keywordMatches);
+  }
+
+  /**
+   * 扩充本地索引：获取基金档案并写入索引
+   *
+   * 指定 codes 时只处理这些基金；否则按 types 选取尚未索引的基金，每次最多 limit 只
+   */
+  async expandIndex(request: IndexRequest = {}): Promise<IndexResult> {
+    const [universe, index] = await Promise.all([fundUniverseService.getUniverse(), this.readIndex()]);
+    const limit = Math.min(Math.max(request.limit ?? 20, 1), MAX_INDEX_BATCH);
+
+    const candidates = request.codes?.length
+      ? universe.funds.filter(f => request.codes!.includes(f.code))
+      : universe.funds.filter(f => !request.types?.length || matchesType(f.type, request.types));
+    const pending = candidates.filter(f => request.refresh || !index.entries[f.code]);
+    const selected = pending.slice(0, limit);
+
+    const entries: ScreenerEntry[] = [];
+    const failed: IndexResult['failed'] = [];
+
+    for (let i = 0; i < selected.length; i += INDEX_BATCH_SIZE) {
+      const batch = selected.slice(i, i + INDEX_BATCH_SIZE);
+      const results = await Promise.allSettled(batch.map(f => getFundProfile(f.code, request.refresh)));
+      results.forEach((result, j) => {
+        if (result.status === 'fulfilled') {
+          entries.push(toScreenerEntry(result.value));
+        } else {
+          failed.push({ code: batch[j].code, error: result.reason?.message || String(result.reason) });
+        }
+      });
+    }
+
+    const updated = entries.length > 0
+      ? await this.updateIndex(idx => entries.forEach(e => { idx.entries[e.code] = e; }))
+      : index;
+
+    return {
+      indexed: entries.map(e => e.code),
+      failed,
+      remaining: candidates.filter(f => !updated.entries[f.code]).length,
+      indexedSize: Object.keys(updated.entries).length,
+    };
+  }
+
+  /**
+   * 基金列表和索引的概况，按类型统计
+   */
+  async getSummary(): Promise<ScreenerSummary> {
+    const [universe, index] = await Promise.all([fundUniverseService.getUniverse(), this.readIndex()]);
+    const byType = new Map<string, { total: number; indexed: number }>();
+
+    universe.funds.forEach(f => {
+      const stat = byType.get(f.type) || { total: 0, indexed: 0 };
+      stat.total++;
+      if (index.entries[f.code]) stat.indexed++;
+      byType.set(f.type, stat);
+    });
+
+    return {
+      universeSize: universe.funds.length,
+      indexedSize: Object.keys(index.entries).length,
+      syncedAt: universe.syncedAt,
+      updatedAt: index.updatedAt,
+      types: Array.from(byType.entries())
+        .map(([type, stat]) => ({ type, ...stat }))
+        .sort((a, b) => b.total - a.total),
+    };
+  }
+}
+
+// 导出单例实例
+export const screenerService = new ScreenerService();
+
+// 导出便捷函数
+export async function screen(request: ScreenerRequest): Promise<ScreenerResult> {
+  return screenerService.screen(request);
+}
+
+export async function expandScreenerIndex(request?: IndexRequest): Promise<IndexResult> {
+  return screenerService.expandIndex(request);
+}
+
+export async function getScreenerSummary(): Promise<ScreenerSummary> {
+  return screenerService.getSummary();
+}
@@ -0,0 +1,379 @@
+/**
+ * 全市场基金筛选
+ *
+ * 筛选条件 DSL（POST /api/screener 的请求体）:
+ * {
+ *   "filters": {
+ *     "types": ["股票型", "混合型-偏股"],          // 完整类型或大类
+ *     "keyword": "消费",                          // 代码、名称、拼音或首字母，与基金搜索相同
+ *     "scale": { "min": 10, "max": 300 },         // 基金规模（亿元）
+ *     "maxManagementFee": 1.2,                    // 管理费率上限 (%)
+ *     "managerYears": { "min": 5 },               // 基金经理从业年限
+ *     "performance": [                            // 各区间表现，可组合多个区间
+ *       { "window": "3y", "return": { "min": 20 }, "maxDrawdown": { "max": 35 }, "sharpeRatio": { "min": 0.5 } }
+ *     ],
+ *     "benchmark": "沪深300"                      // 业绩比较基准包含的指数（名称或行情代码）或文字
+ *   },
+ *   "sort": { "field": "return", "window": "1y", "order": "desc" },
+ *   "page": 1,
+ *   "pageSize": 20
+ * }
+ *
+ * 类型和关键词在全部基金列表上筛选；其余条件依赖本地索引中的基金档案，未索引或缺少该项数据的基金视为不满足
+ */
+
+import { findBenchmarkIndex, parseBenchmarkText } from '../benchmark/benchmark';
+import { matchesType, UniverseFund } from '../search/fund-search-index';
+import { PERIOD_WINDOWS, PeriodStats, PeriodWindow } from '../services/fund-profile';
+import type { FundProfile } from '../services/fund-profile';
+
+/**
+ * 筛选条件格式错误
+ */
+export class ScreenerQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScreenerQueryError';
+  }
+}
+
+export interface Range {
+  min?: number;
+  max?: number;
+}
+
+export interface PerformanceFilter {
+  window: PeriodWindow;
+  return?: Range;          // 区间收益 (%)
+  volatility?: Range;      // 年化波动率 (%)
+  maxDrawdown?: Range;     // 最大回撤 (%)，正数
+  sharpeRatio?: Range;
+}
+
+export interface ScreenerFilters {
+  types?: string[];
+  keyword?: string;
+  scale?: Range;
+  maxManagementFee?: number;
+  managerYears?: Range;
+  performance?: PerformanceFilter[];
+  benchmark?: string;
+}
+
+export type SortField =
+  | 'code' | 'name' | 'scale' | 'managementFee' | 'managerYears'
+  | 'return' | 'volatility' | 'maxDrawdown' | 'sharpeRatio';
+
+export interface ScreenerSort {
+  field: SortField;
+  window?: PeriodWindow;   // return/volatility/maxDrawdown/sharpeRatio 的区间，默认 1y
+  order: 'asc' | 'desc';
+}
+
+export interface ScreenerRequest {
+  filters: ScreenerFilters;
+  sort: ScreenerSort;
+  page: number;
+  pageSize: number;
+}
+
+export type { UniverseFund } from '../search/fund-search-index';
+
+/**
+ * 本地索引中的基金数据（由基金档案精简而来）
+ */
+export interface ScreenerEntry {
+  code: string;
+  scale: number | null;             // 亿元
+  managementFee: number | null;     // %
+  managerName: string | null;
+  managerYears: number | null;
+  benchmark: string | null;
+  benchmarkIndices: string[];       // 基准中可识别的指数行情代码
+  navDate: string | null;
+  periods: Record<PeriodWindow, PeriodStats | null>;
+  indexedAt: number;
+}
+
+/**
+ * 筛选结果中的一只基金
+ */
+export interface ScreenerItem extends UniverseFund {
+  indexed: boolean;
+  scale: number | null;
+  managementFee: number | null;
+  managerName: string | null;
+  managerYears: number | null;
+  benchmark: string | null;
+  navDate: string | null;
+  periods: Record<PeriodWindow, PeriodStats | null> | null;
+}
+
+export interface ScreenerResult {
+  items: ScreenerItem[];
+  total: number;
+  page: number;
+  pageSize: number;
+  universeSize: number;
+  indexedSize: number;
+  usesIndex: boolean;               // 是否使用了依赖索引的条件（结果只来自已索引的基金）
+}
+
+export const SORT_FIELDS: SortField[] = [
+  'code', 'name', 'scale', 'managementFee', 'managerYears', 'return', 'volatility', 'maxDrawdown', 'sharpeRatio',
+];
+
+const PERIOD_FIELDS: SortField[] = ['return', 'volatility', 'maxDrawdown', 'sharpeRatio'];
+const WINDOWS = Object.keys(PERIOD_WINDOWS) as PeriodWindow[];
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+function parseRange(value: unknown, name: string): Range | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new ScreenerQueryError(`${name} 应为 { min?, max? } 对象`);
+  }
+
+  const range: Range = {};
+  (['min', 'max'] as const).forEach(key => {
+    const bound = (value as any)[key];
+    if (bound === undefined || bound === null) return;
+    if (typeof bound !== 'number' || !isFinite(bound)) {
+      throw new ScreenerQueryError(`${name}.${key} 应为数字`);
+    }
+    range[key] = bound;
+  });
+
+  if (range.min !== undefined && range.max !== undefined && range.min > range.max) {
+    throw new ScreenerQueryError(`${name} 的 min 不能大于 max`);
+  }
+  return range.min === undefined && range.max === undefined ? undefined : range;
+}
+
+function parseWindow(value: unknown, name: string): PeriodWindow {
+  if (!WINDOWS.includes(value as PeriodWindow)) {
+    throw new ScreenerQueryError(`${name} 应为 ${WINDOWS.join('/')} 之一`);
+  }
+  return value as PeriodWindow;
+}
+
+/**
+ * 校验并规范化筛选请求
+ *
+ * @throws ScreenerQueryError 字段不合法时
+ */
+export function parseScreenerRequest(body: unknown): ScreenerRequest {
+  const raw = (body && typeof body === 'object' ? body : {}) as Record<string, any>;
+  const f = (raw.filters && typeof raw.filters === 'object' ? raw.filters : {}) as Record<string, any>;
+  const filters: ScreenerFilters = {};
+
+  if (f.types !== undefined) {
+    if (!Array.isArray(f.types) || f.types.some((t: unknown) => typeof t !== 'string')) {
+      throw new ScreenerQueryError('filters.types 应为字符串数组');
+    }
+    const types = f.types.map((t: string) => t.trim()).filter(Boolean);
+    if (types.length > 0) filters.types = types;
+  }
+
+  if (f.keyword !== undefined) {
+    if (typeof f.keyword !== 'string') throw new ScreenerQueryError('filters.keyword 应为字符串');
+    if (f.keyword.trim()) filters.keyword = f.keyword.trim().slice(0, 50);
+  }
+
+  filters.scale = parseRange(f.scale, 'filters.scale');
+  filters.managerYears = parseRange(f.managerYears, 'filters.managerYears');
+
+  if (f.maxManagementFee !== undefined && f.maxManagementFee !== null) {
+    if (typeof f.maxManagementFee !== 'number' || !(f.maxManagementFee >= 0)) {
+      throw new ScreenerQueryError('filters.maxManagementFee 应为非负数');
+    }
+    filters.maxManagementFee = f.maxManagementFee;
+  }
+
+  if (f.performance !== undefined) {
+    if (!Array.isArray(f.performance)) throw new ScreenerQueryError('filters.performance 应为数组');
+    filters.performance = f.performance.map((p: any, i: number) => {
+      const name = `filters.performance[${i}]`;
+      return {
+        window: parseWindow(p?.window, `${name}.window`),
+        return: parseRange(p?.return, `${name}.return`),
+        volatility: parseRange(p?.volatility, `${name}.volatility`),
+        maxDrawdown: parseRange(p?.maxDrawdown, `${name}.maxDrawdown`),
+        sharpeRatio: parseRange(p?.sharpeRatio, `${name}.sharpeRatio`),
+      };
+    });
+  }
+
+  if (f.benchmark !== undefined) {
+    if (typeof f.benchmark !== 'string') throw new ScreenerQueryError('filters.benchmark 应为字符串');
+    if (f.benchmark.trim()) filters.benchmark = f.benchmark.trim();
+  }
+
+  const usesMetrics = usesIndex(filters);
+  const s = (raw.sort && typeof raw.sort === 'object' ? raw.sort : {}) as Record<string, any>;
+  const field = (s.field ?? (usesMetrics ? 'return' : 'code')) as SortField;
+  if (!SORT_FIELDS.includes(field)) {
+    throw new ScreenerQueryError(`sort.field 应为 ${SORT_FIELDS.join('/')} 之一`);
+  }
+  const order = s.order ?? (field === 'code' || field === 'name' ? 'asc' : 'desc');
+  if (order !== 'asc' && order !== 'desc') {
+    throw new ScreenerQueryError('sort.order 应为 asc 或 desc');
+  }
+  const sort: ScreenerSort = { field, order };
+  if (PERIOD_FIELDS.includes(field)) {
+    sort.window = s.window === undefined ? '1y' : parseWindow(s.window, 'sort.window');
+  }
+
+  const page = raw.page === undefined ? 1 : Number(raw.page);
+  const pageSize = raw.pageSize === undefined ? DEFAULT_PAGE_SIZE : Number(raw.pageSize);
+  if (!Number.isInteger(page) || page < 1) throw new ScreenerQueryError('page 应为正整数');
+  if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+    throw new ScreenerQueryError(`pageSize 应为 1 到 ${MAX_PAGE_SIZE} 之间的整数`);
+  }
+
+  return { filters, sort, page, pageSize };
+}
+
+/**
+ * 是否包含依赖本地索引的条件
+ */
+export function usesIndex(filters: ScreenerFilters): boolean {
+  return Boolean(
+    filters.scale || filters.managerYears || filters.maxManagementFee !== undefined
+    || filters.performance?.length || filters.benchmark
+  );
+}
+
+/**
+ * 由基金档案生成索引项
+ */
+export function toScreenerEntry(profile: FundProfile): ScreenerEntry {
+  const lead = [...profile.managers].sort((a, b) => (b.years ?? 0) - (a.years ?? 0))[0];
+  const benchmarkIndices = profile.benchmark
+    ? parseBenchmarkText(profile.benchmark).components.filter(c => c.index).map(c => c.index!.code)
+    : [];
+
+  return {
+    code: profile.code,
+    scale: profile.scale.value,
+    managementFee: profile.fees.managementFee,
+    managerName: lead?.name ?? null,
+    managerYears: lead?.years ?? null,
+    benchmark: profile.benchmark,
+    benchmarkIndices: Array.from(new Set(benchmarkIndices)),
+    navDate: profile.navDate,
+    periods: profile.periods,
+    indexedAt: profile.fetchedAt,
+  };
+}
+
+function inRange(value: number | null | undefined, range?: Range): boolean {
+  if (!range) return true;
+  if (value === null || value === undefined) return false;
+  return (range.min === undefined || value >= range.min) && (range.max === undefined || value <= range.max);
+}
+
+function matchesEntry(entry: ScreenerEntry, filters: ScreenerFilters): boolean {
+  if (!inRange(entry.scale, filters.scale)) return false;
+  if (!inRange(entry.managerYears, filters.managerYears)) return false;
+  if (filters.maxManagementFee !== undefined && !inRange(entry.managementFee, { max: filters.maxManagementFee })) {
+    return false;
+  }
+
+  const performanceOk = (filters.performance || []).every(p => {
+    const stats = entry.periods?.[p.window];
+    if (!stats) return false;
+    return inRange(stats.return, p.return)
+      && inRange(stats.volatility, p.volatility)
+      && inRange(stats.maxDrawdown, p.maxDrawdown)
+      && inRange(stats.sharpeRatio, p.sharpeRatio);
+  });
+  if (!performanceOk) return false;
+
+  if (filters.benchmark) {
+    const index = findBenchmarkIndex(filters.benchmark);
+    const matched = index
+      ? entry.benchmarkIndices.includes(index.code)
+      : (entry.benchmark || '').includes(filters.benchmark);
+    if (!matched) return false;
+  }
+
+  return true;
+}
+
+function sortValue(item: ScreenerItem, sort: ScreenerSort): number | string | null {
+  switch (sort.field) {
+    case 'code':
+    case 'name':
+      return item[sort.field];
+    case 'scale':
+    case 'managementFee':
+    case 'managerYears':
+      return item[sort.field];
+    default:
+      return item.periods?.[sort.window || '1y']?.[sort.field] ?? null;
+  }
+}
+
+/**
+ * 在全部基金列表和本地索引上执行筛选、排序和分页
+ *
+ * @param universe - 全部基金列表
+ * @param index - 本地索引，按基金代码
+ * @param request - 已校验的筛选请求
+ * @param keywordMatches - 基金搜索索引中与 filters.keyword 匹配的基金代码
+ */
+export function screenFunds(
+  universe: UniverseFund[],
+  index: Record<string, ScreenerEntry>,
+  request: ScreenerRequest,
+  keywordMatches?: Set<string>
+): ScreenerResult {
+  const { filters, sort, page, pageSize } = request;
+  const needsIndex = usesIndex(filters);
+
+  const matched: ScreenerItem[] = [];
+  universe.forEach(fund => {
+    if (filters.types && !matchesType(fund.type, filters.types)) return;
+    if (filters.keyword && !keywordMatches?.has(fund.code)) return;
+
+    const entry = index[fund.code];
+    if (needsIndex && (!entry || !matchesEntry(entry, filters))) return;
+
+    matched.push({
+      ...fund,
+      indexed: Boolean(entry),
+      scale: entry?.scale ?? null,
+      managementFee: entry?.managementFee ?? null,
+      managerName: entry?.managerName ?? null,
+      managerYears: entry?.managerYears ?? null,
+      benchmark: entry?.benchmark ?? null,
+      navDate: entry?.navDate ?? null,
+      periods: entry?.periods ?? null,
+    });
+  });
+
+  // 缺少排序字段的基金无论升降序都排在最后
+  const direction = sort.order === 'asc' ? 1 : -1;
+  matched.sort((a, b) => {
+    const x = sortValue(a, sort);
+    const y = sortValue(b, sort);
+    if (x === null && y === null) return a.code.localeCompare(b.code);
+    if (x === null) return 1;
+    if (y === null) return -1;
+    const diff = typeof x === 'string' ? x.localeCompare(y as string, 'zh-CN') : x - (y as number);
+    return diff * direction || a.code.localeCompare(b.code);
+  });
+
+  const start = (page - 1) * pageSize;
+  return {
+    items: matched.slice(start, start + pageSize),
+    total: matched.length,
+    page,
+    pageSize,
+    universeSize: universe.length,
+    indexedSize: Object.keys(index).length,
+    usesIndex: needsIndex,
+  };
+}
@@ -0,0 +1 @@
+﻿var r = [["000001","HXCZHH","华夏成长混合","混合型-偏股","HUAXIACHENGZHANGHUNHE"],["000009","YFDTTLCHBA","易方达天天理财货币A","货币型-普通货币","YIFANGDATIANTIANLICAIHUOBIA"],["000198","THYEBHB","天弘余额宝货币","货币型-普通货币","TIANHONGYUEBAOHUOBI"],["000961","THHS300ETFLJA","天弘沪深300ETF联接A","指数型-股票","TIANHONGHUSHEN300ETFLIANJIEA"],["001938","ZOSDXFGPA","中欧时代先锋股票A","股票型","ZHONGOUSHIDAIXIANFENGGUPIAOA"],["003095","ZOYLJKHHA","中欧医疗健康混合A","混合型-偏股","ZHONGOUYILIAOJIANKANGHUNHEA"],["003096","ZOYLJKHHC","中欧医疗健康混合C","混合型-偏股","ZHONGOUYILIAOJIANKANGHUNHEC"],["005827","YFDLCJXHH","易方达蓝筹精选混合","混合型-偏股","YIFANGDALANCHOUJINGXUANHUNHE"],["005918","THHS300ETFLJC","天弘沪深300ETF联接C","指数型-股票","TIANHONGHUSHEN300ETFLIANJIEC"],["006479","GFNSDK100ETFLJRMBQDIIC","广发纳斯达克100ETF联接人民币(QDII)C","指数型-海外股票","GUANGFANASIDAKE100ETFLIANJIERENMINBIQDIIC"],["012414","ZSZZBJZSLOFC","招商中证白酒指数(LOF)C","指数型-股票","ZHAOSHANGZHONGZHENGBAIJIUZHISHULOFC"],["110011","YFDYZJXHHQDII","易方达优质精选混合(QDII)","QDII-普通股票","YIFANGDAYOUZHIJINGXUANHUNHEQDII"],["110020","YFDHS300ETFLJA","易方达沪深300ETF联接A","指数型-股票","YIFANGDAHUSHEN300ETFLIANJIEA"],["110022","YFDXFHYGP","易方达消费行业股票","股票型","YIFANGDAXIAOFEIHANGYEGUPIAO"],["161005","FGTHCZHHLOFA","富国天惠成长混合(LOF)A","混合型-偏股","FUGUOTIANHUICHENGZHANGHUNHELOFA"],["161725","ZSZZBJZSLOFA","招商中证白酒指数(LOF)A","指数型-股票","ZHAOSHANGZHONGZHENGBAIJIUZHISHULOFA"],["163406","XQHRHHLOFA","兴全合润混合(LOF)A","混合型-偏股","XINGQUANHERUNHUNHELOFA"],["217022","ZSCYZQA","招商产业债券A","债券型-混合债","ZHAOSHANGCHANYEZHAIQUANA"],["260108","JSCCXXCZHHA","景顺长城新兴成长混合A","混合型-偏股","JINGSHUNCHANGCHENGXINXINGCHENGZHANGHUNHEA"],["270042","GFNSDK100ETFLJRMBQDIIA","广发纳斯达克100ETF联接人民币(QDII)A","指数型-海外股票","GUANGFANASIDAKE100ETFLIANJIERENMINBIQDIIA"]];
\ No newline at end of file
@@ -0,0 +1,460 @@
+/**
+ * 基金搜索索引
+ *
+ * 在全部基金列表上预先建立内存索引，支持以下匹配方式，结果按匹配质量排序:
+ * - 基金代码：完全匹配、前缀匹配、包含
+ * - 名称：完全匹配、前缀、连续包含，以及按汉字二元组（单字查询用一元组）命中比例匹配不连续的词
+ * - 拼音首字母（fundcode_search.js 第 2 列，如 YFDXFHYGP）：完全匹配、前缀、包含
+ * - 全拼（第 5 列，如 YIFANGDAXIAOFEIHANGYEGUPIAO）：前缀、包含
+ * - 类型：如 股票型、指数型，排在名称和拼音匹配之后
+ * - 容错：代码、首字母和全拼前缀允许少量输错、漏打、多打或相邻字符颠倒
+ *
+ * 同一基金的不同份额（A/C/E 等）按去掉份额后缀后的名称归为一组，组内按份额排序；
+ * shareClasses() 按代码查找同一基金的其他份额
+ */
+
+export interface UniverseFund {
+  code: string;
+  name: string;
+  type: string;
+  pinyin: string;          // 拼音首字母
+  fullPinyin?: string;     // 全拼
+}
+
+export type MatchType =
+  | 'code' | 'codePrefix' | 'codeContains'
+  | 'name' | 'namePrefix' | 'nameContains' | 'nameNgram'
+  | 'initials' | 'initialsPrefix' | 'initialsContains'
+  | 'pinyinPrefix' | 'pinyinContains'
+  | 'type'
+  | 'typo';
+
+export interface FundSearchHit extends UniverseFund {
+  score: number;
+  matchType: MatchType;
+  shareClass: string | null;   // 份额类别，如 A、C、美元现汇
+  groupKey: string;            // 同一基金不同份额相同
+}
+
+export interface FundSearchGroup {
+  key: string;
+  name: string;                // 去掉份额后缀的名称
+  type: string;
+  score: number;               // 组内最高分
+  funds: FundSearchHit[];
+}
+
+/**
+ * 同一基金的一个份额
+ */
+export interface FundShareClass {
+  code: string;
+  name: string;
+  type: string;
+  shareClass: string | null;
+}
+
+export interface FundSearchOptions {
+  limit?: number;              // 最多返回的基金组数，默认 20
+  types?: string[];            // 只返回这些类型（完整类型或大类）的基金
+}
+
+export interface FundSearchResult {
+  groups: FundSearchGroup[];
+  hits: FundSearchHit[];       // 按组展开后的结果，同组份额相邻
+  total: number;               // 匹配的基金组数
+}
+
+export const DEFAULT_SEARCH_LIMIT = 20;
+
+// 各匹配方式的基础分，同一只基金取最高分
+const MATCH_SCORES: Record<MatchType, number> = {
+  code: 1000,
+  name: 950,
+  codePrefix: 900,
+  initials: 850,
+  namePrefix: 800,
+  initialsPrefix: 750,
+  pinyinPrefix: 720,
+  nameContains: 700,
+  initialsContains: 550,
+  pinyinContains: 520,
+  codeContains: 500,
+  nameNgram: 400,
+  typo: 300,
+  type: 200,
+};
+
+// 名称二元组至少命中的比例
+const MIN_NGRAM_COVERAGE = 0.6;
+
+const CURRENCY_SUFFIXES = ['美元现汇', '美元现钞', '人民币', '美元', '港币'];
+const CJK = /[一-鿿]/;
+
+interface IndexedFund {
+  fund: UniverseFund;
+  name: string;                // 小写，去掉空白
+  initials: string;
+  fullPinyin: string;
+  shareClass: string | null;
+  baseName: string;
+  groupKey: string;
+}
+
+/**
+ * 拆分份额后缀，如 招商中证白酒指数(LOF)A → { baseName: 招商中证白酒指数(LOF), shareClass: A }
+ *
+ * 份额字母须跟在非字母字符之后，避免把 ETF、LOF、QDII 的末尾字母当作份额
+ */
+export function splitShareClass(name: string): { baseName: string; shareClass: string | null } {
+  let base = name.trim();
+  const parts: string[] = [];
+
+  const letter = base.match(/[^A-Za-z]([A-Z])类?(?:份额)?$/);
+  if (letter) {
+    parts.unshift(letter[1]);
+    base = base.slice(0, letter.index! + 1).trim();
+  }
+
+  const currency = CURRENCY_SUFFIXES.find(c => base.endsWith(c) || base.endsWith(`(${c})`) || base.endsWith(`（${c}）`));
+  if (currency) {
+    parts.unshift(currency);
+    base = base.replace(new RegExp(`[（(]?${currency}[)）]?$`), '').trim();
+  }
+
+  return { baseName: base, shareClass: parts.length > 0 ? parts.join('') : null };
+}
+
+/**
+ * 份额分组键：去掉份额后缀、LOF 标记、括号和空白
+ */
+function groupKeyOf(baseName: string): string {
+  return baseName
+    .replace(/[（(]?LOF[)）]?/gi, '')
+    .replace(/[\s()（）\-]/g, '')
+    .toLowerCase();
+}
+
+function ngrams(text: string, n: number): string[] {
+  const chars = Array.from(text);
+  const grams: string[] = [];
+  for (let i = 0; i + n <= chars.length; i++) {
+    grams.push(chars.slice(i, i + n).join(''));
+  }
+  return grams;
+}
+
+/**
+ * 受限 Damerau-Levenshtein 距离（相邻颠倒算一次编辑），超过 max 时提前返回 max + 1
+ */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let prev2: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const cur = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      cur[j] = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        cur[j] = Math.min(cur[j], prev2[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, cur[j]);
+    }
+    if (rowMin > max) return max + 1;
+    prev2 = prev;
+    prev = cur;
+  }
+
+  return prev[b.length];
+}
+
+/**
+ * 查询与 text 中任意片段的最小编辑距离（片段起止位置不限，相邻颠倒算一次编辑），
+ * 单次遍历完成，超过 max 时返回 max + 1
+ */
+export function substringDistance(term: string, text: string, max: number): number {
+  if (!text) return max + 1;
+
+  // 第 0 行全为 0：匹配可以从 text 的任意位置开始
+  let prev2: number[] = [];
+  let prev = new Array(text.length + 1).fill(0);
+
+  for (let i = 1; i <= term.length; i++) {
+    const cur = [i];
+    for (let j = 1; j <= text.length; j++) {
+      const cost = term[i - 1] === text[j - 1] ? 0 : 1;
+      cur[j] = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && term[i - 1] === text[j - 2] && term[i - 2] === text[j - 1]) {
+        cur[j] = Math.min(cur[j], prev2[j - 2] + 1);
+      }
+    }
+    prev2 = prev;
+    prev = cur;
+  }
+
+  return Math.min(max + 1, ...prev);
+}
+
+/**
+ * 允许的输错字符数：短查询不容错，避免两三个字母匹配出大量无关基金
+ */
+function typoBudget(length: number): number {
+  if (length >= 8) return 2;
+  if (length >= 4) return 1;
+  return 0;
+}
+
+/**
+ * 类型匹配：完整类型相同或属于该大类，如 混合型 匹配 混合型-偏股
+ */
+export function matchesType(fundType: string, types: string[]): boolean {
+  return types.some(t => fundType === t || fundType.split('-')[0] === t);
+}
+
+/**
+ * 基金搜索索引类
+ */
+export class FundSearchIndex {
+  private funds: IndexedFund[];
+  private byCode = new Map<string, number>();
+  private sortedCodes: { code: string; id: number }[];
+  private unigrams = new Map<string, number[]>();
+  private bigrams = new Map<string, number[]>();
+  private groups = new Map<string, number[]>();
+
+  /**
+   * @param universe - 全部基金列表
+   */
+  constructor(universe: UniverseFund[]) {
+    this.funds = universe.map((fund, id) => {
+      const { baseName, shareClass } = splitShareClass(fund.name);
+      const name = fund.name.replace(/\s/g, '').toLowerCase();
+
+      this.byCode.set(fund.code, id);
+      new Set(ngrams(name, 1)).forEach(g => this.addPosting(this.unigrams, g, id));
+      new Set(ngrams(name, 2)).forEach(g => this.addPosting(this.bigrams, g, id));
+
+      const groupKey = groupKeyOf(baseName);
+      this.addPosting(this.groups, groupKey, id);
+
+      return {
+        fund,
+        name,
+        initials: (fund.pinyin || '').toLowerCase(),
+        fullPinyin: (fund.fullPinyin || '').toLowerCase(),
+        shareClass,
+        baseName,
+        groupKey,
+      };
+    });
+
+    this.sortedCodes = this.funds
+      .map((f, id) => ({ code: f.fund.code, id }))
+      .sort((a, b) => (a.code < b.code ? -1 : a.code > b.code ? 1 : 0));
+  }
+
+  get size(): number {
+    return this.funds.length;
+  }
+
+  private addPosting(index: Map<string, number[]>, gram: string, id: number) {
+    const list = index.get(gram);
+    if (list) list.push(id);
+    else index.set(gram, [id]);
+  }
+
+  /**
+   * 按代码查找
+   */
+  get(code: string): UniverseFund | undefined {
+    const id = this.byCode.get(code);
+    return id === undefined ? undefined : this.funds[id].fund;
+  }
+
+  /**
+   * 同一基金的全部份额（包含自身），按份额类别排序；代码不存在时返回空数组
+   */
+  shareClasses(code: string): FundShareClass[] {
+    const id = this.byCode.get(code);
+    if (id === undefined) return [];
+
+    return (this.groups.get(this.funds[id].groupKey) || [])
+      .map(i => this.funds[i])
+      .map(f => ({ code: f.fund.code, name: f.fund.name, type: f.fund.type, shareClass: f.shareClass }))
+      .sort((a, b) => (a.shareClass || '').localeCompare(b.shareClass || '') || a.code.localeCompare(b.code));
+  }
+
+  /**
+   * 搜索基金
+   *
+   * 以空格分隔的多个关键词须全部命中，得分取各关键词得分的最小值
+   */
+  search(query: string, options: FundSearchOptions = {}): FundSearchResult {
+    const limit = options.limit ?? DEFAULT_SEARCH_LIMIT;
+    const terms = query.trim().toLowerCase().split(/[\s,，、]+/).filter(Boolean);
+    if (terms.length === 0) return { groups: [], hits: [], total: 0 };
+
+    let scores: Map<number, { score: number; matchType: MatchType }> | null = null;
+    for (const term of terms) {
+      const termScores = this.searchTerm(term);
+      if (scores === null) {
+        scores = termScores;
+        continue;
+      }
+      const merged = new Map<number, { score: number; matchType: MatchType }>();
+      scores.forEach((value, id) => {
+        const other = termScores.get(id);
+        if (other) merged.set(id, other.score < value.score ? other : value);
+      });
+      scores = merged;
+    }
+
+    const hits: FundSearchHit[] = [];
+    scores!.forEach(({ score, matchType }, id) => {
+      const f = this.funds[id];
+      if (options.types?.length && !matchesType(f.fund.type, options.types)) return;
+      hits.push({ ...f.fund, score, matchType, shareClass: f.shareClass, groupKey: f.groupKey });
+    });
+
+    const groups = this.group(hits);
+    const limited = groups.slice(0, limit);
+    return {
+      groups: limited,
+      hits: limited.flatMap(g => g.funds),
+      total: groups.length,
+    };
+  }
+
+  /**
+   * 单个关键词的匹配：先走代码前缀、名称 n-gram 倒排和拼音，再对剩余基金做容错匹配
+   */
+  private searchTerm(term: string): Map<number, { score: number; matchType: MatchType }> {
+    const results = new Map<number, { score: number; matchType: MatchType }>();
+    const add = (id: number, matchType: MatchType, bonus: number = 0) => {
+      const f = this.funds[id];
+      // 同等匹配下名称越短越接近查询
+      const score = MATCH_SCORES[matchType] + bonus - Math.min(f.name.length, 40) * 0.5;
+      const current = results.get(id);
+      if (!current || current.score < score) results.set(id, { score, matchType });
+    };
+
+    if (/^\d+$/.test(term)) {
+      this.matchCode(term, add);
+    }
+
+    if (CJK.test(term)) {
+      this.matchName(term, add);
+      if (Array.from(term).length >= 2) {
+        this.funds.forEach((f, id) => {
+          if (f.fund.type.includes(term)) add(id, 'type');
+        });
+      }
+    } else {
+      this.matchPinyin(term, add);
+    }
+
+    // 没有任何匹配时才容错，避免输入正确时混入相近的基金
+    const budget = typoBudget(term.length);
+    if (results.size === 0 && budget > 0 && !CJK.test(term)) {
+      this.funds.forEach((f, id) => {
+        const distance = /^\d+$/.test(term)
+          ? editDistance(term, f.fund.code.slice(0, term.length), budget)
+          : Math.min(substringDistance(term, f.initials, budget), substringDistance(term, f.fullPinyin, budget));
+        if (distance <= budget) add(id, 'typo', -50 * distance);
+      });
+    }
+
+    return results;
+  }
+
+  private matchCode(term: string, add: (id: number, matchType: MatchType, bonus?: number) => void) {
+    // 有序代码上二分查找前缀区间
+    let lo = 0;
+    let hi = this.sortedCodes.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (this.sortedCodes[mid].code < term) lo = mid + 1;
+      else hi = mid;
+    }
+    for (let i = lo; i < this.sortedCodes.length && this.sortedCodes[i].code.startsWith(term); i++) {
+      const { code, id } = this.sortedCodes[i];
+      add(id, code === term ? 'code' : 'codePrefix');
+    }
+
+    // 三位以上的数字才匹配代码中间部分，如 0022
+    if (term.length >= 3) {
+      this.funds.forEach((f, id) => {
+        if (!f.fund.code.startsWith(term) && f.fund.code.includes(term)) add(id, 'codeContains');
+      });
+    }
+  }
+
+  private matchName(term: string, add: (id: number, matchType: MatchType, bonus?: number) => void) {
+    const grams = Array.from(new Set(ngrams(term, Array.from(term).length === 1 ? 1 : 2)));
+    const postings = Array.from(term).length === 1 ? this.unigrams : this.bigrams;
+
+    const hitCounts = new Map<number, number>();
+    grams.forEach(g => {
+      (postings.get(g) || []).forEach(id => hitCounts.set(id, (hitCounts.get(id) || 0) + 1));
+    });
+
+    hitCounts.forEach((count, id) => {
+      const f = this.funds[id];
+      if (f.name === term) {
+        add(id, 'name');
+      } else if (f.name.startsWith(term)) {
+        add(id, 'namePrefix');
+      } else if (f.name.includes(term)) {
+        add(id, 'nameContains');
+      } else {
+        const coverage = count / grams.length;
+        if (coverage >= MIN_NGRAM_COVERAGE) add(id, 'nameNgram', Math.round(coverage * 200));
+      }
+    });
+  }
+
+  private matchPinyin(term: string, add: (id: number, matchType: MatchType, bonus?: number) => void) {
+    this.funds.forEach((f, id) => {
+      if (f.initials === term) add(id, 'initials');
+      else if (f.initials.startsWith(term)) add(id, 'initialsPrefix');
+      else if (term.length >= 2 && f.initials.includes(term)) add(id, 'initialsContains');
+
+      // 全拼至少 3 个字母才参与，避免与首字母匹配重复放大
+      if (term.length >= 3 && f.fullPinyin) {
+        if (f.fullPinyin.startsWith(term)) add(id, 'pinyinPrefix');
+        else if (f.fullPinyin.includes(term)) add(id, 'pinyinContains');
+      }
+
+      // 名称中的英文和数字，如 ETF、300
+      if (f.name.includes(term)) add(id, f.name.startsWith(term) ? 'namePrefix' : 'nameContains');
+    });
+  }
+
+  /**
+   * 按份额分组，组按最高分排序，组内按份额类别排序
+   */
+  private group(hits: FundSearchHit[]): FundSearchGroup[] {
+    const groups = new Map<string, FundSearchGroup>();
+
+    hits.forEach(hit => {
+      const group = groups.get(hit.groupKey);
+      if (group) {
+        group.funds.push(hit);
+        group.score = Math.max(group.score, hit.score);
+        return;
+      }
+      const { baseName } = splitShareClass(hit.name);
+      groups.set(hit.groupKey, { key: hit.groupKey, name: baseName, type: hit.type, score: hit.score, funds: [hit] });
+    });
+
+    const sorted = Array.from(groups.values()).sort((a, b) => b.score - a.score || a.key.localeCompare(b.key));
+    sorted.forEach(g => {
+      g.funds.sort((a, b) => (a.shareClass || '').localeCompare(b.shareClass || '') || a.code.localeCompare(b.code));
+    });
+    return sorted;
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * 基金列表同步测试
+ *
+ * 用内存存储代替本地文件，替换全局 fetch 模拟列表下载成功或失败
+ */
+
+import { afterEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { JsonFileStore } from '../storage/json-file-store';
+import { FundUniverse, FundUniverseService } from './fund-universe-service';
+
+const LIST_SCRIPT = 'var r = [["110022","YFDXFHYGP","易方达消费行业股票","股票型","YIFANGDAXIAOFEIHANGYEGUPIAO"]];';
+const STALE: FundUniverse = {
+  funds: [{ code: '000001', name: '华夏成长混合', type: '混合型-偏股', pinyin: 'HXCZHH', fullPinyin: 'HUAXIACHENGZHANGHUNHE' }],
+  syncedAt: Date.now() - 2 * 24 * 60 * 60 * 1000,
+};
+
+const originalFetch = globalThis.fetch;
+
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+});
+
+function memoryStore(initial: FundUniverse | null, options: { failWrites?: boolean } = {}) {
+  let value = initial;
+  const store = {
+    read: async () => value,
+    write: async (_key: string, next: FundUniverse) => {
+      if (options.failWrites) throw new Error('EROFS');
+      value = next;
+    },
+  };
+  return store as unknown as JsonFileStore<FundUniverse>;
+}
+
+function stubFetch(respond: () => Promise<Response>): { calls: number } {
+  const counter = { calls: 0 };
+  globalThis.fetch = (async () => {
+    counter.calls++;
+    return respond();
+  }) as typeof fetch;
+  return counter;
+}
+
+test('a failed refresh serves the stale list and backs off further downloads', async () => {
+  const counter = stubFetch(async () => { throw new Error('ENOTFOUND'); });
+  const service = new FundUniverseService(memoryStore(STALE));
+  const originalError = console.error;
+  console.error = () => undefined;
+
+  try {
+    const first = await service.getUniverse();
+    const second = await service.getUniverse();
+
+    assert.deepEqual(first, STALE);
+    assert.deepEqual(second, STALE);
+    assert.equal(counter.calls, 1);
+  } finally {
+    console.error = originalError;
+  }
+});
+
+test('a successful refresh replaces the stale list even when saving fails', async () => {
+  const counter = stubFetch(async () => new Response(LIST_SCRIPT));
+  const service = new FundUniverseService(memoryStore(STALE, { failWrites: true }));
+  const originalError = console.error;
+  console.error = () => undefined;
+
+  try {
+    const universe = await service.getUniverse();
+    assert.deepEqual(universe.funds.map(f => f.code), ['110022']);
+    assert.ok(universe.syncedAt > STALE.syncedAt);
+
+    // 写入失败不影响后续请求使用内存中的新列表
+    await service.getUniverse();
+    assert.equal(counter.calls, 1);
+  } finally {
+    console.error = originalError;
+  }
+});
+
+test('a failed first download without a saved list is an error', async () => {
+  stubFetch(async () => new Response('', { status: 503 }));
+  const service = new FundUniverseService(memoryStore(null));
+
+  await assert.rejects(service.getUniverse(), /无法获取基金列表/);
+});
@@ -0,0 +1,166 @@
+/**
+ * 全部基金列表和搜索索引服务
+ *
+ * 全部基金列表来自 fundcode_search.js（约 4MB，代码、拼音首字母、名称、类型、全拼），
+ * 保存到本地并每天同步一次；搜索索引在列表更新后重建一次，常驻内存。
+ * 搜索代理、基金搜索服务、AI 工具、智能推荐和基金筛选共用同一份列表和索引
+ */
+
+import { JsonFileStore } from '../storage/json-file-store';
+import { isFixtureMode, readFixture } from '../fixtures';
+import { FundSearchIndex, FundSearchOptions, FundSearchResult, FundShareClass, UniverseFund } from './fund-search-index';
+
+export type { FundShareClass, UniverseFund } from './fund-search-index';
+
+// 基金列表每天同步一次
+const SYNC_INTERVAL = 24 * 60 * 60 * 1000;
+
+// 同步失败后沿用旧列表，间隔一段时间再重试，避免每个请求都等待下载超时
+const RETRY_INTERVAL = 10 * 60 * 1000;
+
+export interface FundUniverse {
+  funds: UniverseFund[];
+  syncedAt: number;
+}
+
+/**
+ * 解析 fundcode_search.js: var r = [["000001","HXCZHH","华夏成长混合","混合型-偏股","HUAXIACHENGZHANGHUNHE"],...];
+ */
+export function parseFundList(script: string): UniverseFund[] {
+  const match = script.match(/var r = (\[.*?\]);/);
+  if (!match) return [];
+
+  return (JSON.parse(match[1]) as string[][])
+    .filter(row => row[0] && row[2])
+    .map(row => ({
+      code: row[0],
+      name: row[2],
+      type: row[3] || '',
+      pinyin: row[1] || '',
+      fullPinyin: row[4] || '',
+    }));
+}
+
+/**
+ * 基金列表服务类
+ */
+export class FundUniverseService {
+  private cached: FundUniverse | null = null;
+  private syncing: Promise<FundUniverse> | null = null;
+  private retryAfter = 0;
+  private index: { syncedAt: number; index: FundSearchIndex } | null = null;
+
+  /**
+   * @param store - 基金列表存储，离线样本模式下与真实数据分开保存
+   */
+  constructor(
+    private store: JsonFileStore<FundUniverse> = new JsonFileStore(isFixtureMode() ? 'fixture-fund-universe' : 'fund-universe')
+  ) {}
+
+  /**
+   * 获取全部基金列表，超过同步间隔时重新获取；获取失败时沿用已保存的列表，RETRY_INTERVAL 后再重试
+   */
+  async getUniverse(): Promise<FundUniverse> {
+    // 列表约 4MB，读取一次后保留在内存中
+    const stored = this.cached || await this.store.read('universe');
+    if (stored && (Date.now() - stored.syncedAt < SYNC_INTERVAL || Date.now() < this.retryAfter)) {
+      this.cached = stored;
+      return stored;
+    }
+
+    if (!this.syncing) {
+      this.syncing = this.sync(stored).finally(() => {
+        this.syncing = null;
+      });
+    }
+    return this.syncing;
+  }
+
+  private async sync(stored: FundUniverse | null): Promise<FundUniverse> {
+    const script = await this.fetchFundList();
+    const funds = script ? parseFundList(script) : [];
+
+    if (funds.length === 0) {
+      if (!stored) throw new Error('无法获取基金列表');
+      // syncedAt 保持不变，重试时间到后再次同步
+      this.cached = stored;
+      this.retryAfter = Date.now() + RETRY_INTERVAL;
+      return stored;
+    }
+
+    const universe = { funds, syncedAt: Date.now() };
+    this.cached = universe;
+    this.retryAfter = 0;
+    // 本地副本只用于重启后免下载，只读部署环境（如 Vercel）写入失败时仍使用内存中的列表
+    await this.store.write('universe', universe).catch(error => {
+      console.error('保存基金列表失败:', error);
+    });
+    return universe;
+  }
+
+  private async fetchFundList(): Promise<string | null> {
+    if (isFixtureMode()) {
+      return readFixture('search', 'fixtures', 'fundcode_search.js');
+    }
+
+    try {
+      const response = await fetch(`https://fund.eastmoney.com/js/fundcode_search.js?timestamp=${Date.now()}`, {
+        headers: {
+          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+          'Referer': 'https://fund.eastmoney.com/',
+        },
+        signal: AbortSignal.timeout(20000),
+      });
+      if (!response.ok) return null;
+      return await response.text();
+    } catch (error) {
+      console.error('获取基金列表失败:', error);
+      return null;
+    }
+  }
+
+  /**
+   * 获取搜索索引，基金列表更新后重建
+   */
+  async getIndex(): Promise<FundSearchIndex> {
+    const universe = await this.getUniverse();
+    if (!this.index || this.index.syncedAt !== universe.syncedAt) {
+      this.index = { syncedAt: universe.syncedAt, index: new FundSearchIndex(universe.funds) };
+    }
+    return this.index.index;
+  }
+
+  /**
+   * 搜索基金
+   */
+  async search(query: string, options?: FundSearchOptions): Promise<FundSearchResult> {
+    return (await this.getIndex()).search(query, options);
+  }
+
+  /**
+   * 同一基金的全部份额（包含自身）
+   */
+  async getShareClasses(fundCode: string): Promise<FundShareClass[]> {
+    return (await this.getIndex()).shareClasses(fundCode);
+  }
+}
+
+// 导出单例实例
+export const fundUniverseService = new FundUniverseService();
+
+// 导出便捷函数
+export async function getFundUniverse(): Promise<FundUniverse> {
+  return fundUniverseService.getUniverse();
+}
+
+export async function getFundSearchIndex(): Promise<FundSearchIndex> {
+  return fundUniverseService.getIndex();
+}
+
+export async function searchFundUniverse(query: string, options?: FundSearchOptions): Promise<FundSearchResult> {
+  return fundUniverseService.search(query, options);
+}
+
+export async function getShareClasses(fundCode: string): Promise<FundShareClass[]> {
+  return fundUniverseService.getShareClasses(fundCode);
+}
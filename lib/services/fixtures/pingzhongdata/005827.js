@@ -0,0 +1 @@
+/*2025-01-24 15:00:42*/var ishb=false;/*基金或股票信息*/var fS_name = "易方达蓝筹精选混合";var fS_code = "005827";/*原费率*/var fund_sourceRate="1.50";/*现费率*/var fund_Rate="0.15";/*最小申购金额*/var fund_minsg="10";/*基金持仓股票代码*/var stockCodes=["6005191","0008582","6003091"];/*基金持仓债券代码*/var zqCodes = "";/*收益率*//*近一年收益率*/var syl_1n="6.35";/*近6月收益率*/var syl_6y="9.41";/*近三月收益率*/var syl_3y="-1.26";/*近一月收益率*/var syl_1y="-1.72";/*资产配置*/var Data_assetAllocation = {"series":[{"name":"股票占净比","type":null,"data":[91.02,90.48,92.37,89.65],"yAxis":0},{"name":"债券占净比","type":null,"data":[2.13,2.21,1.98,3.02],"yAxis":0},{"name":"现金占净比","type":null,"data":[6.98,7.43,5.81,7.52],"yAxis":0},{"name":"净资产","type":"line","data":[468.2214,431.7790,452.1933,418.6502],"yAxis":1}],"categories":["2024-03-31","2024-06-30","2024-09-30","2024-12-31"]};/*股票仓位测算图*/var Data_fundSharesPositions = [[1735142400000,90.00],[1735228800000,90.00],[1735488000000,89.50],[1735574400000,89.50]];
@@ -0,0 +1,2 @@
+/*合成数据，非接口抓取：为离线调试和测试补充的单位净值走势、规模变动和现任基金经理，数值为构造的，不代表该基金的真实表现*/
+/*单位净值走势 equityReturn-净值回报 unitMoney-每份派送金*/var Data_netWorthTrend = [{"x":1559491200000,"y":0.6985,"equityReturn":0,"unitMoney":""},{"x":1559577600000,"y":0.7012,"equityReturn":0.39,"unitMoney":""},{"x":1559664000000,"y":0.6863,"equityReturn":-2.12,"unitMoney":""},{"x":1559750400000,"y":0.6898,"equityReturn":0.51,"unitMoney":""},{"x":1559836800000,"y":0.6873,"equityReturn":-0.36,"unitMoney":""},{"x":1560096000000,"y":0.6823,"equityReturn":-0.73,"unitMoney":""},{"x":1560182400000,"y":0.6815,"equityReturn":-0.12,"unitMoney":""},{"x":1560268800000,"y":0.6868,"equityReturn":0.78,"unitMoney":""},{"x":1560355200000,"y":0.6737,"equityReturn":-1.91,"unitMoney":""},{"x":1560441600000,"y":0.6751,"equityReturn":0.21,"unitMoney":""},{"x":1560700800000,"y":0.678,"equityReturn":0.43,"unitMoney":""},{"x":1560787200000,"y":0.676,"equityReturn":-0.29,"unitMoney":""},{"x":1560873600000,"y":0.6811,"equityReturn":0.75,"unitMoney":""},{"x":1560960000000,"y":0.6773,"equityReturn":-0.56,"unitMoney":""},{"x":1561046400000,"y":0.68,"equityReturn":0.4,"unitMoney":""},{"x":1561305600000,"y":0.6709,"equityReturn":-1.34,"unitMoney":""},{"x":1561392000000,"y":0.6736,"equityReturn":0.4,"unitMoney":""},{"x":1561478400000,"y":0.6813,"equityReturn":1.14,"unitMoney":""},{"x":1561564800000,"y":0.6866,"equityReturn":0.78,"unitMoney":""},{"x":1561651200000,"y":0.6943,"equityReturn":1.12,"unitMoney":""},{"x":1561910400000,"y":0.7061,"equityReturn":1.7,"unitMoney":""},{"x":1561996800000,"y":0.7148,"equityReturn":1.23,"unitMoney":""},{"x":1562083200000,"y":0.7029,"equityReturn":-1.66,"unitMoney":""},{"x":1562169600000,"y":0.6914,"equityReturn":-1.64,"unitMoney":""},{"x":1562256000000,"y":0.6735,"equityReturn":-2.59,"unitMoney":""},{"x":1562515200000,"y":0.6824,"equityReturn":1.32,"unitMoney":""},{"x":1562601600000,"y":0.6951,"equityReturn":1.86,"unitMoney":""},{"x":1562688000000,"y":0.676,"equityReturn":-2.75,"unitMoney":""},{"x":1562774400000,"y":0.6655,"equityReturn":-1.55,"unitMoney":""},{"x":1562860800000,"y":0.6573,"equityReturn":-1.23,"unitMoney":""},{"x":1563120000000,"y":0.6563,"equityReturn":-0.15,"unitMoney":""},{"x":1563206400000,"y":0.6752,"equityReturn":2.88,"unitMoney":""},{"x":1563292800000,"y":0.6732,"equityReturn":-0.3,"unitMoney":""},{"x":1563379200000,"y":0.6819,"equityReturn":1.29,"unitMoney":""},{"x":1563465600000,"y":0.6659,"equityReturn":-2.35,"unitMoney":""},{"x":1563724800000,"y":0.6748,"equityReturn":1.34,"unitMoney":""},{"x":1563811200000,"y":0.6725,"equityReturn":-0.34,"unitMoney":""},{"x":1563897600000,"y":0.6741,"equityReturn":0.24,"unitMoney":""},{"x":1563984000000,"y":0.6706,"equityReturn":-0.52,"unitMoney":""},{"x":1564070400000,"y":0.6715,"equityReturn":0.13,"unitMoney":""},{"x":1564329600000,"y":0.678,"equityReturn":0.97,"unitMoney":""},{"x":1564416000000,"y":0.6848,"equityReturn":1.0,"unitMoney":""},{"x":1564502400000,"y":0.6692,"equityReturn":-2.28,"unitMoney":""},{"x":1564588800000,"y":0.6774,"equityReturn":1.23,"unitMoney":""},{"x":1564675200000,"y":0.6651,"equityReturn":-1.82,"unitMoney":""},{"x":1564934400000,"y":0.6687,"equityReturn":0.54,"unitMoney":""},{"x":1565020800000,"y":0.6805,"equityReturn":1.76,"unitMoney":""},{"x":1565107200000,"y":0.7015,"equityReturn":3.09,"unitMoney":""},{"x":1565193600000,"y":0.7213,"equityReturn":2.82,"unitMoney":""},{"x":1565280000000,"y":0.7041,"equityReturn":-2.38,"unitMoney":""},{"x":1565539200000,"y":0.7058,"equityReturn":0.24,"unitMoney":""},{"x":1565625600000,"y":0.7068,"equityReturn":0.14,"unitMoney":""},{"x":1565712000000,"y":0.691,"equityReturn":-2.24,"unitMoney":""},{"x":1565798400000,"y":0.7046,"equityReturn":1.97,"unitMoney":""},{"x":1565884800000,"y":0.7135,"equityReturn":1.26,"unitMoney":""},{"x":1566144000000,"y":0.725,"equityReturn":1.61,"unitMoney":""},{"x":1566230400000,"y":0.7224,"equityReturn":-0.36,"unitMoney":""},{"x":1566316800000,"y":0.718,"equityReturn":-0.61,"unitMoney":""},{"x":1566403200000,"y":0.7118,"equityReturn":-0.86,"unitMoney":""},{"x":1566489600000,"y":0.6973,"equityReturn":-2.04,"unitMoney":""},{"x":1566748800000,"y":0.7182,"equityReturn":3.0,"unitMoney":""},{"x":1566835200000,"y":0.7121,"equityReturn":-0.85,"unitMoney":""},{"x":1566921600000,"y":0.7086,"equityReturn":-0.49,"unitMoney":""},{"x":1567008000000,"y":0.7185,"equityReturn":1.4,"unitMoney":""},{"x":1567094400000,"y":0.7057,"equityReturn":-1.78,"unitMoney":""},{"x":1567353600000,"y":0.6983,"equityReturn":-1.05,"unitMoney":""},{"x":1567440000000,"y":0.7032,"equityReturn":0.7,"unitMoney":""},{"x":1567526400000,"y":0.6972,"equityReturn":-0.85,"unitMoney":""},{"x":1567612800000,"y":0.6937,"equityReturn":-0.5,"unitMoney":""},{"x":1567699200000,"y":0.6808,"equityReturn":-1.86,"unitMoney":""},{"x":1567958400000,"y":0.6977,"equityReturn":2.48,"unitMoney":""},{"x":1568044800000,"y":0.6899,"equityReturn":-1.12,"unitMoney":""},{"x":1568131200000,"y":0.6721,"equityReturn":-2.58,"unitMoney":""},{"x":1568217600000,"y":0.6751,"equityReturn":0.45,"unitMoney":""},{"x":1568304000000,"y":0.6888,"equityReturn":2.03,"unitMoney":""},{"x":1568563200000,"y":0.6831,"equityReturn":-0.83,"unitMoney":""},{"x":1568649600000,"y":0.6832,"equityReturn":0.01,"unitMoney":""},{"x":1568736000000,"y":0.6974,"equityReturn":2.08,"unitMoney":""},{"x":1568822400000,"y":0.6852,"equityReturn":-1.75,"unitMoney":""},{"x":1568908800000,"y":0.6909,"equityReturn":0.83,"unitMoney":""},{"x":1569168000000,"y":0.7061,"equityReturn":2.2,"unitMoney":""},{"x":1569254400000,"y":0.706,"equityReturn":-0.01,"unitMoney":""},{"x":1569340800000,"y":0.7061,"equityReturn":0.01,"unitMoney":""},{"x":1569427200000,"y":0.7262,"equityReturn":2.85,"unitMoney":""},{"x":1569513600000,"y":0.7222,"equityReturn":-0.55,"unitMoney":""},{"x":1569772800000,"y":0.7368,"equityReturn":2.02,"unitMoney":""},{"x":1569859200000,"y":0.7217,"equityReturn":-2.05,"unitMoney":""},{"x":1569945600000,"y":0.7244,"equityReturn":0.37,"unitMoney":""},{"x":1570032000000,"y":0.7324,"equityReturn":1.1,"unitMoney":""},{"x":1570118400000,"y":0.7224,"equityReturn":-1.37,"unitMoney":""},{"x":1570377600000,"y":0.7394,"equityReturn":2.35,"unitMoney":""},{"x":1570464000000,"y":0.7422,"equityReturn":0.38,"unitMoney":""},{"x":1570550400000,"y":0.7272,"equityReturn":-2.02,"unitMoney":""},{"x":1570636800000,"y":0.713,"equityReturn":-1.95,"unitMoney":""},{"x":1570723200000,"y":0.7108,"equityReturn":-0.31,"unitMoney":""},{"x":1570982400000,"y":0.7138,"equityReturn":0.42,"unitMoney":""},{"x":1571068800000,"y":0.7132,"equityReturn":-0.08,"unitMoney":""},{"x":1571155200000,"y":0.7251,"equityReturn":1.67,"unitMoney":""},{"x":1571241600000,"y":0.7255,"equityReturn":0.06,"unitMoney":""},{"x":1571328000000,"y":0.709,"equityReturn":-2.27,"unitMoney":""},{"x":1571587200000,"y":0.6999,"equityReturn":-1.28,"unitMoney":""},{"x":1571673600000,"y":0.7066,"equityReturn":0.96,"unitMoney":""},{"x":1571760000000,"y":0.7105,"equityReturn":0.55,"unitMoney":""},{"x":1571846400000,"y":0.7178,"equityReturn":1.03,"unitMoney":""},{"x":1571932800000,"y":0.7098,"equityReturn":-1.11,"unitMoney":""},{"x":1572192000000,"y":0.7056,"equityReturn":-0.59,"unitMoney":""},{"x":1572278400000,"y":0.7122,"equityReturn":0.94,"unitMoney":""},{"x":1572364800000,"y":0.7283,"equityReturn":2.26,"unitMoney":""},{"x":1572451200000,"y":0.7198,"equityReturn":-1.17,"unitMoney":""},{"x":1572537600000,"y":0.7186,"equityReturn":-0.17,"unitMoney":""},{"x":1572796800000,"y":0.7183,"equityReturn":-0.04,"unitMoney":""},{"x":1572883200000,"y":0.7383,"equityReturn":2.78,"unitMoney":""},{"x":1572969600000,"y":0.7732,"equityReturn":4.73,"unitMoney":""},{"x":1573056000000,"y":0.7647,"equityReturn":-1.1,"unitMoney":""},{"x":1573142400000,"y":0.7696,"equityReturn":0.64,"unitMoney":""},{"x":1573401600000,"y":0.7848,"equityReturn":1.98,"unitMoney":""},{"x":1573488000000,"y":0.7996,"equityReturn":1.89,"unitMoney":""},{"x":1573574400000,"y":0.7943,"equityReturn":-0.66,"unitMoney":""},{"x":1573660800000,"y":0.7943,"equityReturn":0.0,"unitMoney":""},{"x":1573747200000,"y":0.8039,"equityReturn":1.21,"unitMoney":""},{"x":1574006400000,"y":0.7974,"equityReturn":-0.81,"unitMoney":""},{"x":1574092800000,"y":0.787,"equityReturn":-1.3,"unitMoney":""},{"x":1574179200000,"y":0.8023,"equityReturn":1.94,"unitMoney":""},{"x":1574265600000,"y":0.8238,"equityReturn":2.68,"unitMoney":""},{"x":1574352000000,"y":0.8322,"equityReturn":1.02,"unitMoney":""},{"x":1574611200000,"y":0.8395,"equityReturn":0.88,"unitMoney":""},{"x":1574697600000,"y":0.8329,"equityReturn":-0.79,"unitMoney":""},{"x":1574784000000,"y":0.8462,"equityReturn":1.6,"unitMoney":""},{"x":1574870400000,"y":0.8391,"equityReturn":-0.84,"unitMoney":""},{"x":1574956800000,"y":0.8359,"equityReturn":-0.38,"unitMoney":""},{"x":1575216000000,"y":0.8302,"equityReturn":-0.68,"unitMoney":""},{"x":1575302400000,"y":0.8369,"equityReturn":0.81,"unitMoney":""},{"x":1575388800000,"y":0.8163,"equityReturn":-2.46,"unitMoney":""},{"x":1575475200000,"y":0.8068,"equityReturn":-1.16,"unitMoney":""},{"x":1575561600000,"y":0.8103,"equityReturn":0.43,"unitMoney":""},{"x":1575820800000,"y":0.7965,"equityReturn":-1.7,"unitMoney":""},{"x":1575907200000,"y":0.7852,"equityReturn":-1.42,"unitMoney":""},{"x":1575993600000,"y":0.8182,"equityReturn":4.2,"unitMoney":""},{"x":1576080000000,"y":0.8251,"equityReturn":0.84,"unitMoney":""},{"x":1576166400000,"y":0.8478,"equityReturn":2.75,"unitMoney":""},{"x":1576425600000,"y":0.8608,"equityReturn":1.53,"unitMoney":""},{"x":1576512000000,"y":0.8842,"equityReturn":2.72,"unitMoney":""},{"x":1576598400000,"y":0.8957,"equityReturn":1.3,"unitMoney":""},{"x":1576684800000,"y":0.8692,"equityReturn":-2.96,"unitMoney":""},{"x":1576771200000,"y":0.8735,"equityReturn":0.49,"unitMoney":""},{"x":1577030400000,"y":0.8768,"equityReturn":0.38,"unitMoney":""},{"x":1577116800000,"y":0.8531,"equityReturn":-2.7,"unitMoney":""},{"x":1577203200000,"y":0.8796,"equityReturn":3.11,"unitMoney":""},{"x":1577289600000,"y":0.8834,"equityReturn":0.43,"unitMoney":""},{"x":1577376000000,"y":0.8671,"equityReturn":-1.85,"unitMoney":""},{"x":1577635200000,"y":0.8393,"equityReturn":-3.21,"unitMoney":""},{"x":1577721600000,"y":0.8553,"equityReturn":1.91,"unitMoney":""},{"x":1577808000000,"y":0.8566,"equityReturn":0.15,"unitMoney":""},{"x":1577894400000,"y":0.8679,"equityReturn":1.32,"unitMoney":""},{"x":1577980800000,"y":0.8865,"equityReturn":2.14,"unitMoney":""},{"x":1578240000000,"y":0.88,"equityReturn":-0.73,"unitMoney":""},{"x":1578326400000,"y":0.8568,"equityReturn":-2.64,"unitMoney":""},{"x":1578412800000,"y":0.8581,"equityReturn":0.15,"unitMoney":""},{"x":1578499200000,"y":0.8601,"equityReturn":0.23,"unitMoney":""},{"x":1578585600000,"y":0.8716,"equityReturn":1.34,"unitMoney":""},{"x":1578844800000,"y":0.8653,"equityReturn":-0.72,"unitMoney":""},{"x":1578931200000,"y":0.8768,"equityReturn":1.33,"unitMoney":""},{"x":1579017600000,"y":0.8857,"equityReturn":1.02,"unitMoney":""},{"x":1579104000000,"y":0.8941,"equityReturn":0.95,"unitMoney":""},{"x":1579190400000,"y":0.8855,"equityReturn":-0.96,"unitMoney":""},{"x":1579449600000,"y":0.8639,"equityReturn":-2.44,"unitMoney":""},{"x":1579536000000,"y":0.8766,"equityReturn":1.47,"unitMoney":""},{"x":1579622400000,"y":0.8727,"equityReturn":-0.44,"unitMoney":""},{"x":1579708800000,"y":0.8701,"equityReturn":-0.3,"unitMoney":""},{"x":1579795200000,"y":0.8894,"equityReturn":2.22,"unitMoney":""},{"x":1580054400000,"y":0.8921,"equityReturn":0.3,"unitMoney":""},{"x":1580140800000,"y":0.8837,"equityReturn":-0.94,"unitMoney":""},{"x":1580227200000,"y":0.8797,"equityReturn":-0.45,"unitMoney":""},{"x":1580313600000,"y":0.8844,"equityReturn":0.53,"unitMoney":""},{"x":1580400000000,"y":0.8932,"equityReturn":1.0,"unitMoney":""},{"x":1580659200000,"y":0.9018,"equityReturn":0.96,"unitMoney":""},{"x":1580745600000,"y":0.9122,"equityReturn":1.15,"unitMoney":""},{"x":1580832000000,"y":0.9049,"equityReturn":-0.8,"unitMoney":""},{"x":1580918400000,"y":0.914,"equityReturn":1.01,"unitMoney":""},{"x":1581004800000,"y":0.9302,"equityReturn":1.77,"unitMoney":""},{"x":1581264000000,"y":0.957,"equityReturn":2.88,"unitMoney":""},{"x":1581350400000,"y":0.9777,"equityReturn":2.16,"unitMoney":""},{"x":1581436800000,"y":0.9705,"equityReturn":-0.74,"unitMoney":""},{"x":1581523200000,"y":0.9465,"equityReturn":-2.47,"unitMoney":""},{"x":1581609600000,"y":0.9299,"equityReturn":-1.75,"unitMoney":""},{"x":1581868800000,"y":0.9167,"equityReturn":-1.42,"unitMoney":""},{"x":1581955200000,"y":0.9096,"equityReturn":-0.77,"unitMoney":""},{"x":1582041600000,"y":0.9037,"equityReturn":-0.65,"unitMoney":""},{"x":1582128000000,"y":0.9183,"equityReturn":1.62,"unitMoney":""},{"x":1582214400000,"y":0.9172,"equityReturn":-0.12,"unitMoney":""},{"x":1582473600000,"y":0.9246,"equityReturn":0.81,"unitMoney":""},{"x":1582560000000,"y":0.9191,"equityReturn":-0.59,"unitMoney":""},{"x":1582646400000,"y":0.9115,"equityReturn":-0.83,"unitMoney":""},{"x":1582732800000,"y":0.9073,"equityReturn":-0.46,"unitMoney":""},{"x":1582819200000,"y":0.9206,"equityReturn":1.47,"unitMoney":""},{"x":1583078400000,"y":0.9284,"equityReturn":0.85,"unitMoney":""},{"x":1583164800000,"y":0.907,"equityReturn":-2.31,"unitMoney":""},{"x":1583251200000,"y":0.9021,"equityReturn":-0.54,"unitMoney":""},{"x":1583337600000,"y":0.9104,"equityReturn":0.92,"unitMoney":""},{"x":1583424000000,"y":0.9133,"equityReturn":0.32,"unitMoney":""},{"x":1583683200000,"y":0.911,"equityReturn":-0.25,"unitMoney":""},{"x":1583769600000,"y":0.8974,"equityReturn":-1.49,"unitMoney":""},{"x":1583856000000,"y":0.8948,"equityReturn":-0.29,"unitMoney":""},{"x":1583942400000,"y":0.9091,"equityReturn":1.6,"unitMoney":""},{"x":1584028800000,"y":0.9075,"equityReturn":-0.18,"unitMoney":""},{"x":1584288000000,"y":0.894,"equityReturn":-1.49,"unitMoney":""},{"x":1584374400000,"y":0.8909,"equityReturn":-0.35,"unitMoney":""},{"x":1584460800000,"y":0.8889,"equityReturn":-0.22,"unitMoney":""},{"x":1584547200000,"y":0.8839,"equityReturn":-0.56,"unitMoney":""},{"x":1584633600000,"y":0.893,"equityReturn":1.03,"unitMoney":""},{"x":1584892800000,"y":0.8982,"equityReturn":0.58,"unitMoney":""},{"x":1584979200000,"y":0.8865,"equityReturn":-1.3,"unitMoney":""},{"x":1585065600000,"y":0.8988,"equityReturn":1.39,"unitMoney":""},{"x":1585152000000,"y":0.8973,"equityReturn":-0.17,"unitMoney":""},{"x":1585238400000,"y":0.9221,"equityReturn":2.76,"unitMoney":""},{"x":1585497600000,"y":0.9043,"equityReturn":-1.93,"unitMoney":""},{"x":1585584000000,"y":0.9042,"equityReturn":-0.01,"unitMoney":""},{"x":1585670400000,"y":0.9117,"equityReturn":0.83,"unitMoney":""},{"x":1585756800000,"y":0.9134,"equityReturn":0.19,"unitMoney":""},{"x":1585843200000,"y":0.9173,"equityReturn":0.43,"unitMoney":""},{"x":1586102400000,"y":0.918,"equityReturn":0.08,"unitMoney":""},{"x":1586188800000,"y":0.9365,"equityReturn":2.02,"unitMoney":""},{"x":1586275200000,"y":0.9455,"equityReturn":0.96,"unitMoney":""},{"x":1586361600000,"y":0.934,"equityReturn":-1.22,"unitMoney":""},{"x":1586448000000,"y":0.9373,"equityReturn":0.35,"unitMoney":""},{"x":1586707200000,"y":0.9571,"equityReturn":2.11,"unitMoney":""},{"x":1586793600000,"y":0.9557,"equityReturn":-0.15,"unitMoney":""},{"x":1586880000000,"y":0.9597,"equityReturn":0.42,"unitMoney":""},{"x":1586966400000,"y":0.9803,"equityReturn":2.15,"unitMoney":""},{"x":1587052800000,"y":0.988,"equityReturn":0.79,"unitMoney":""},{"x":1587312000000,"y":0.9867,"equityReturn":-0.13,"unitMoney":""},{"x":1587398400000,"y":0.9966,"equityReturn":1.0,"unitMoney":""},{"x":1587484800000,"y":0.9797,"equityReturn":-1.7,"unitMoney":""},{"x":1587571200000,"y":0.9728,"equityReturn":-0.7,"unitMoney":""},{"x":1587657600000,"y":0.9745,"equityReturn":0.17,"unitMoney":""},{"x":1587916800000,"y":0.9893,"equityReturn":1.52,"unitMoney":""},{"x":1588003200000,"y":1.0104,"equityReturn":2.13,"unitMoney":""},{"x":1588089600000,"y":1.0214,"equityReturn":1.09,"unitMoney":""},{"x":1588176000000,"y":1.021,"equityReturn":-0.04,"unitMoney":""},{"x":1588262400000,"y":1.0157,"equityReturn":-0.52,"unitMoney":""},{"x":1588521600000,"y":1.0325,"equityReturn":1.65,"unitMoney":""},{"x":1588608000000,"y":1.0365,"equityReturn":0.39,"unitMoney":""},{"x":1588694400000,"y":1.0618,"equityReturn":2.44,"unitMoney":""},{"x":1588780800000,"y":1.0695,"equityReturn":0.73,"unitMoney":""},{"x":1588867200000,"y":1.0424,"equityReturn":-2.53,"unitMoney":""},{"x":1589126400000,"y":1.0445,"equityReturn":0.2,"unitMoney":""},{"x":1589212800000,"y":1.0728,"equityReturn":2.71,"unitMoney":""},{"x":1589299200000,"y":1.0615,"equityReturn":-1.05,"unitMoney":""},{"x":1589385600000,"y":1.0675,"equityReturn":0.57,"unitMoney":""},{"x":1589472000000,"y":1.061,"equityReturn":-0.61,"unitMoney":""},{"x":1589731200000,"y":1.057,"equityReturn":-0.38,"unitMoney":""},{"x":1589817600000,"y":1.0378,"equityReturn":-1.82,"unitMoney":""},{"x":1589904000000,"y":1.0289,"equityReturn":-0.86,"unitMoney":""},{"x":1589990400000,"y":1.0193,"equityReturn":-0.93,"unitMoney":""},{"x":1590076800000,"y":1.0022,"equityReturn":-1.68,"unitMoney":""},{"x":1590336000000,"y":1.0157,"equityReturn":1.35,"unitMoney":""},{"x":1590422400000,"y":1.0322,"equityReturn":1.62,"unitMoney":""},{"x":1590508800000,"y":1.0377,"equityReturn":0.53,"unitMoney":""},{"x":1590595200000,"y":1.0402,"equityReturn":0.24,"unitMoney":""},{"x":1590681600000,"y":1.0643,"equityReturn":2.32,"unitMoney":""},{"x":1590940800000,"y":1.0686,"equityReturn":0.4,"unitMoney":""},{"x":1591027200000,"y":1.0842,"equityReturn":1.46,"unitMoney":""},{"x":1591113600000,"y":1.0713,"equityReturn":-1.19,"unitMoney":""},{"x":1591200000000,"y":1.0733,"equityReturn":0.19,"unitMoney":""},{"x":1591286400000,"y":1.0741,"equityReturn":0.07,"unitMoney":""},{"x":1591545600000,"y":1.078,"equityReturn":0.36,"unitMoney":""},{"x":1591632000000,"y":1.0861,"equityReturn":0.75,"unitMoney":""},{"x":1591718400000,"y":1.087,"equityReturn":0.08,"unitMoney":""},{"x":1591804800000,"y":1.0863,"equityReturn":-0.06,"unitMoney":""},{"x":1591891200000,"y":1.0772,"equityReturn":-0.84,"unitMoney":""},{"x":1592150400000,"y":1.0899,"equityReturn":1.18,"unitMoney":""},{"x":1592236800000,"y":1.1008,"equityReturn":1.0,"unitMoney":""},{"x":1592323200000,"y":1.1156,"equityReturn":1.34,"unitMoney":""},{"x":1592409600000,"y":1.1057,"equityReturn":-0.89,"unitMoney":""},{"x":1592496000000,"y":1.1008,"equityReturn":-0.44,"unitMoney":""},{"x":1592755200000,"y":1.0857,"equityReturn":-1.37,"unitMoney":""},{"x":1592841600000,"y":1.0673,"equityReturn":-1.69,"unitMoney":""},{"x":1592928000000,"y":1.0644,"equityReturn":-0.27,"unitMoney":""},{"x":1593014400000,"y":1.0776,"equityReturn":1.24,"unitMoney":""},{"x":1593100800000,"y":1.0628,"equityReturn":-1.37,"unitMoney":""},{"x":1593360000000,"y":1.0451,"equityReturn":-1.67,"unitMoney":""},{"x":1593446400000,"y":1.0554,"equityReturn":0.99,"unitMoney":""},{"x":1593532800000,"y":1.0668,"equityReturn":1.08,"unitMoney":""},{"x":1593619200000,"y":1.0788,"equityReturn":1.12,"unitMoney":""},{"x":1593705600000,"y":1.079,"equityReturn":0.02,"unitMoney":""},{"x":1593964800000,"y":1.0657,"equityReturn":-1.23,"unitMoney":""},{"x":1594051200000,"y":1.0884,"equityReturn":2.13,"unitMoney":""},{"x":1594137600000,"y":1.0799,"equityReturn":-0.78,"unitMoney":""},{"x":1594224000000,"y":1.0924,"equityReturn":1.16,"unitMoney":""},{"x":1594310400000,"y":1.0867,"equityReturn":-0.52,"unitMoney":""},{"x":1594569600000,"y":1.0837,"equityReturn":-0.28,"unitMoney":""},{"x":1594656000000,"y":1.0745,"equityReturn":-0.85,"unitMoney":""},{"x":1594742400000,"y":1.0914,"equityReturn":1.57,"unitMoney":""},{"x":1594828800000,"y":1.0769,"equityReturn":-1.33,"unitMoney":""},{"x":1594915200000,"y":1.076,"equityReturn":-0.08,"unitMoney":""},{"x":1595174400000,"y":1.072,"equityReturn":-0.37,"unitMoney":""},{"x":1595260800000,"y":1.0557,"equityReturn":-1.52,"unitMoney":""},{"x":1595347200000,"y":1.064,"equityReturn":0.79,"unitMoney":""},{"x":1595433600000,"y":1.0577,"equityReturn":-0.59,"unitMoney":""},{"x":1595520000000,"y":1.0398,"equityReturn":-1.69,"unitMoney":""},{"x":1595779200000,"y":1.0466,"equityReturn":0.65,"unitMoney":""},{"x":1595865600000,"y":1.0353,"equityReturn":-1.08,"unitMoney":""},{"x":1595952000000,"y":1.0428,"equityReturn":0.72,"unitMoney":""},{"x":1596038400000,"y":1.0478,"equityReturn":0.48,"unitMoney":""},{"x":1596124800000,"y":1.044,"equityReturn":-0.36,"unitMoney":""},{"x":1596384000000,"y":1.0489,"equityReturn":0.47,"unitMoney":""},{"x":1596470400000,"y":1.0358,"equityReturn":-1.25,"unitMoney":""},{"x":1596556800000,"y":1.0362,"equityReturn":0.04,"unitMoney":""},{"x":1596643200000,"y":1.0366,"equityReturn":0.04,"unitMoney":""},{"x":1596729600000,"y":1.0497,"equityReturn":1.26,"unitMoney":""},{"x":1596988800000,"y":1.0721,"equityReturn":2.13,"unitMoney":""},{"x":1597075200000,"y":1.0883,"equityReturn":1.51,"unitMoney":""},{"x":1597161600000,"y":1.1262,"equityReturn":3.48,"unitMoney":""},{"x":1597248000000,"y":1.1231,"equityReturn":-0.28,"unitMoney":""},{"x":1597334400000,"y":1.1136,"equityReturn":-0.85,"unitMoney":""},{"x":1597593600000,"y":1.127,"equityReturn":1.2,"unitMoney":""},{"x":1597680000000,"y":1.1232,"equityReturn":-0.34,"unitMoney":""},{"x":1597766400000,"y":1.137,"equityReturn":1.23,"unitMoney":""},{"x":1597852800000,"y":1.1292,"equityReturn":-0.69,"unitMoney":""},{"x":1597939200000,"y":1.1137,"equityReturn":-1.37,"unitMoney":""},{"x":1598198400000,"y":1.1417,"equityReturn":2.51,"unitMoney":""},{"x":1598284800000,"y":1.1473,"equityReturn":0.49,"unitMoney":""},{"x":1598371200000,"y":1.1471,"equityReturn":-0.02,"unitMoney":""},{"x":1598457600000,"y":1.1593,"equityReturn":1.06,"unitMoney":""},{"x":1598544000000,"y":1.168,"equityReturn":0.75,"unitMoney":""},{"x":1598803200000,"y":1.1605,"equityReturn":-0.64,"unitMoney":""},{"x":1598889600000,"y":1.1693,"equityReturn":0.76,"unitMoney":""},{"x":1598976000000,"y":1.1628,"equityReturn":-0.56,"unitMoney":""},{"x":1599062400000,"y":1.1539,"equityReturn":-0.77,"unitMoney":""},{"x":1599148800000,"y":1.1679,"equityReturn":1.21,"unitMoney":""},{"x":1599408000000,"y":1.1619,"equityReturn":-0.51,"unitMoney":""},{"x":1599494400000,"y":1.1765,"equityReturn":1.26,"unitMoney":""},{"x":1599580800000,"y":1.1877,"equityReturn":0.95,"unitMoney":""},{"x":1599667200000,"y":1.2074,"equityReturn":1.66,"unitMoney":""},{"x":1599753600000,"y":1.2178,"equityReturn":0.86,"unitMoney":""},{"x":1600012800000,"y":1.2418,"equityReturn":1.97,"unitMoney":""},{"x":1600099200000,"y":1.2559,"equityReturn":1.14,"unitMoney":""},{"x":1600185600000,"y":1.2819,"equityReturn":2.07,"unitMoney":""},{"x":1600272000000,"y":1.2952,"equityReturn":1.04,"unitMoney":""},{"x":1600358400000,"y":1.2834,"equityReturn":-0.91,"unitMoney":""},{"x":1600617600000,"y":1.2625,"equityReturn":-1.63,"unitMoney":""},{"x":1600704000000,"y":1.283,"equityReturn":1.62,"unitMoney":""},{"x":1600790400000,"y":1.282,"equityReturn":-0.08,"unitMoney":""},{"x":1600876800000,"y":1.2945,"equityReturn":0.98,"unitMoney":""},{"x":1600963200000,"y":1.2816,"equityReturn":-1.0,"unitMoney":""},{"x":1601222400000,"y":1.2672,"equityReturn":-1.12,"unitMoney":""},{"x":1601308800000,"y":1.2561,"equityReturn":-0.88,"unitMoney":""},{"x":1601395200000,"y":1.2593,"equityReturn":0.25,"unitMoney":""},{"x":1601481600000,"y":1.248,"equityReturn":-0.9,"unitMoney":""},{"x":1601568000000,"y":1.2484,"equityReturn":0.03,"unitMoney":""},{"x":1601827200000,"y":1.2502,"equityReturn":0.14,"unitMoney":""},{"x":1601913600000,"y":1.2397,"equityReturn":-0.84,"unitMoney":""},{"x":1602000000000,"y":1.2199,"equityReturn":-1.6,"unitMoney":""},{"x":1602086400000,"y":1.2398,"equityReturn":1.63,"unitMoney":""},{"x":1602172800000,"y":1.2354,"equityReturn":-0.35,"unitMoney":""},{"x":1602432000000,"y":1.2525,"equityReturn":1.38,"unitMoney":""},{"x":1602518400000,"y":1.2628,"equityReturn":0.82,"unitMoney":""},{"x":1602604800000,"y":1.2622,"equityReturn":-0.05,"unitMoney":""},{"x":1602691200000,"y":1.2403,"equityReturn":-1.74,"unitMoney":""},{"x":1602777600000,"y":1.2363,"equityReturn":-0.32,"unitMoney":""},{"x":1603036800000,"y":1.2262,"equityReturn":-0.82,"unitMoney":""},{"x":1603123200000,"y":1.254,"equityReturn":2.27,"unitMoney":""},{"x":1603209600000,"y":1.2417,"equityReturn":-0.98,"unitMoney":""},{"x":1603296000000,"y":1.2525,"equityReturn":0.87,"unitMoney":""},{"x":1603382400000,"y":1.2602,"equityReturn":0.61,"unitMoney":""},{"x":1603641600000,"y":1.2377,"equityReturn":-1.79,"unitMoney":""},{"x":1603728000000,"y":1.2557,"equityReturn":1.45,"unitMoney":""},{"x":1603814400000,"y":1.255,"equityReturn":-0.06,"unitMoney":""},{"x":1603900800000,"y":1.2584,"equityReturn":0.27,"unitMoney":""},{"x":1603987200000,"y":1.255,"equityReturn":-0.27,"unitMoney":""},{"x":1604246400000,"y":1.2716,"equityReturn":1.32,"unitMoney":""},{"x":1604332800000,"y":1.2857,"equityReturn":1.11,"unitMoney":""},{"x":1604419200000,"y":1.266,"equityReturn":-1.53,"unitMoney":""},{"x":1604505600000,"y":1.2446,"equityReturn":-1.69,"unitMoney":""},{"x":1604592000000,"y":1.28,"equityReturn":2.84,"unitMoney":""},{"x":1604851200000,"y":1.2935,"equityReturn":1.05,"unitMoney":""},{"x":1604937600000,"y":1.2802,"equityReturn":-1.03,"unitMoney":""},{"x":1605024000000,"y":1.2456,"equityReturn":-2.7,"unitMoney":""},{"x":1605110400000,"y":1.2736,"equityReturn":2.25,"unitMoney":""},{"x":1605196800000,"y":1.2858,"equityReturn":0.96,"unitMoney":""},{"x":1605456000000,"y":1.2904,"equityReturn":0.36,"unitMoney":""},{"x":1605542400000,"y":1.2987,"equityReturn":0.64,"unitMoney":""},{"x":1605628800000,"y":1.2945,"equityReturn":-0.32,"unitMoney":""},{"x":1605715200000,"y":1.3018,"equityReturn":0.56,"unitMoney":""},{"x":1605801600000,"y":1.279,"equityReturn":-1.75,"unitMoney":""},{"x":1606060800000,"y":1.2601,"equityReturn":-1.48,"unitMoney":""},{"x":1606147200000,"y":1.2503,"equityReturn":-0.78,"unitMoney":""},{"x":1606233600000,"y":1.2713,"equityReturn":1.68,"unitMoney":""},{"x":1606320000000,"y":1.2868,"equityReturn":1.22,"unitMoney":""},{"x":1606406400000,"y":1.2673,"equityReturn":-1.52,"unitMoney":""},{"x":1606665600000,"y":1.2777,"equityReturn":0.82,"unitMoney":""},{"x":1606752000000,"y":1.283,"equityReturn":0.41,"unitMoney":""},{"x":1606838400000,"y":1.3009,"equityReturn":1.4,"unitMoney":""},{"x":1606924800000,"y":1.3081,"equityReturn":0.55,"unitMoney":""},{"x":1607011200000,"y":1.3468,"equityReturn":2.96,"unitMoney":""},{"x":1607270400000,"y":1.3415,"equityReturn":-0.39,"unitMoney":""},{"x":1607356800000,"y":1.3511,"equityReturn":0.72,"unitMoney":""},{"x":1607443200000,"y":1.3632,"equityReturn":0.9,"unitMoney":""},{"x":1607529600000,"y":1.3715,"equityReturn":0.61,"unitMoney":""},{"x":1607616000000,"y":1.3678,"equityReturn":-0.27,"unitMoney":""},{"x":1607875200000,"y":1.3715,"equityReturn":0.27,"unitMoney":""},{"x":1607961600000,"y":1.3291,"equityReturn":-3.09,"unitMoney":""},{"x":1608048000000,"y":1.341,"equityReturn":0.9,"unitMoney":""},{"x":1608134400000,"y":1.3377,"equityReturn":-0.25,"unitMoney":""},{"x":1608220800000,"y":1.3342,"equityReturn":-0.26,"unitMoney":""},{"x":1608480000000,"y":1.3246,"equityReturn":-0.72,"unitMoney":""},{"x":1608566400000,"y":1.3004,"equityReturn":-1.83,"unitMoney":""},{"x":1608652800000,"y":1.3268,"equityReturn":2.03,"unitMoney":""},{"x":1608739200000,"y":1.3102,"equityReturn":-1.25,"unitMoney":""},{"x":1608825600000,"y":1.3059,"equityReturn":-0.33,"unitMoney":""},{"x":1609084800000,"y":1.3127,"equityReturn":0.52,"unitMoney":""},{"x":1609171200000,"y":1.322,"equityReturn":0.71,"unitMoney":""},{"x":1609257600000,"y":1.3113,"equityReturn":-0.81,"unitMoney":""},{"x":1609344000000,"y":1.2682,"equityReturn":-3.29,"unitMoney":""},{"x":1609430400000,"y":1.2978,"equityReturn":2.33,"unitMoney":""},{"x":1609689600000,"y":1.3171,"equityReturn":1.49,"unitMoney":""},{"x":1609776000000,"y":1.3348,"equityReturn":1.34,"unitMoney":""},{"x":1609862400000,"y":1.3488,"equityReturn":1.05,"unitMoney":""},{"x":1609948800000,"y":1.3234,"equityReturn":-1.88,"unitMoney":""},{"x":1610035200000,"y":1.3301,"equityReturn":0.51,"unitMoney":""},{"x":1610294400000,"y":1.3301,"equityReturn":0.0,"unitMoney":""},{"x":1610380800000,"y":1.3401,"equityReturn":0.75,"unitMoney":""},{"x":1610467200000,"y":1.3336,"equityReturn":-0.49,"unitMoney":""},{"x":1610553600000,"y":1.3044,"equityReturn":-2.19,"unitMoney":""},{"x":1610640000000,"y":1.3077,"equityReturn":0.25,"unitMoney":""},{"x":1610899200000,"y":1.3043,"equityReturn":-0.26,"unitMoney":""},{"x":1610985600000,"y":1.3163,"equityReturn":0.92,"unitMoney":""},{"x":1611072000000,"y":1.2988,"equityReturn":-1.33,"unitMoney":""},{"x":1611158400000,"y":1.3238,"equityReturn":1.92,"unitMoney":""},{"x":1611244800000,"y":1.3128,"equityReturn":-0.83,"unitMoney":""},{"x":1611504000000,"y":1.3231,"equityReturn":0.78,"unitMoney":""},{"x":1611590400000,"y":1.3316,"equityReturn":0.64,"unitMoney":""},{"x":1611676800000,"y":1.3642,"equityReturn":2.45,"unitMoney":""},{"x":1611763200000,"y":1.3725,"equityReturn":0.61,"unitMoney":""},{"x":1611849600000,"y":1.384,"equityReturn":0.84,"unitMoney":""},{"x":1612108800000,"y":1.3715,"equityReturn":-0.9,"unitMoney":""},{"x":1612195200000,"y":1.3989,"equityReturn":2.0,"unitMoney":""},{"x":1612281600000,"y":1.4082,"equityReturn":0.66,"unitMoney":""},{"x":1612368000000,"y":1.4034,"equityReturn":-0.34,"unitMoney":""},{"x":1612454400000,"y":1.3986,"equityReturn":-0.34,"unitMoney":""},{"x":1612713600000,"y":1.3945,"equityReturn":-0.29,"unitMoney":""},{"x":1612800000000,"y":1.4373,"equityReturn":3.07,"unitMoney":""},{"x":1612886400000,"y":1.4237,"equityReturn":-0.95,"unitMoney":""},{"x":1612972800000,"y":1.4353,"equityReturn":0.81,"unitMoney":""},{"x":1613059200000,"y":1.459,"equityReturn":1.65,"unitMoney":""},{"x":1613318400000,"y":1.4897,"equityReturn":2.1,"unitMoney":""},{"x":1613404800000,"y":1.4789,"equityReturn":-0.72,"unitMoney":""},{"x":1613491200000,"y":1.5219,"equityReturn":2.91,"unitMoney":""},{"x":1613577600000,"y":1.5388,"equityReturn":1.11,"unitMoney":""},{"x":1613664000000,"y":1.5741,"equityReturn":2.29,"unitMoney":""},{"x":1613923200000,"y":1.5955,"equityReturn":1.36,"unitMoney":""},{"x":1614009600000,"y":1.6283,"equityReturn":2.06,"unitMoney":""},{"x":1614096000000,"y":1.6455,"equityReturn":1.06,"unitMoney":""},{"x":1614182400000,"y":1.6395,"equityReturn":-0.36,"unitMoney":""},{"x":1614268800000,"y":1.6723,"equityReturn":2.0,"unitMoney":""},{"x":1614528000000,"y":1.7132,"equityReturn":2.45,"unitMoney":""},{"x":1614614400000,"y":1.724,"equityReturn":0.63,"unitMoney":""},{"x":1614700800000,"y":1.7078,"equityReturn":-0.94,"unitMoney":""},{"x":1614787200000,"y":1.6659,"equityReturn":-2.45,"unitMoney":""},{"x":1614873600000,"y":1.6648,"equityReturn":-0.07,"unitMoney":""},{"x":1615132800000,"y":1.667,"equityReturn":0.13,"unitMoney":""},{"x":1615219200000,"y":1.6726,"equityReturn":0.34,"unitMoney":""},{"x":1615305600000,"y":1.6981,"equityReturn":1.52,"unitMoney":""},{"x":1615392000000,"y":1.6615,"equityReturn":-2.16,"unitMoney":""},{"x":1615478400000,"y":1.6305,"equityReturn":-1.87,"unitMoney":""},{"x":1615737600000,"y":1.6865,"equityReturn":3.43,"unitMoney":""},{"x":1615824000000,"y":1.6742,"equityReturn":-0.73,"unitMoney":""},{"x":1615910400000,"y":1.6823,"equityReturn":0.48,"unitMoney":""},{"x":1615996800000,"y":1.6753,"equityReturn":-0.42,"unitMoney":""},{"x":1616083200000,"y":1.6685,"equityReturn":-0.41,"unitMoney":""},{"x":1616342400000,"y":1.6744,"equityReturn":0.35,"unitMoney":""},{"x":1616428800000,"y":1.6589,"equityReturn":-0.93,"unitMoney":""},{"x":1616515200000,"y":1.656,"equityReturn":-0.17,"unitMoney":""},{"x":1616601600000,"y":1.6677,"equityReturn":0.71,"unitMoney":""},{"x":1616688000000,"y":1.7202,"equityReturn":3.15,"unitMoney":""},{"x":1616947200000,"y":1.7162,"equityReturn":-0.23,"unitMoney":""},{"x":1617033600000,"y":1.7475,"equityReturn":1.82,"unitMoney":""},{"x":1617120000000,"y":1.7276,"equityReturn":-1.14,"unitMoney":""},{"x":1617206400000,"y":1.722,"equityReturn":-0.32,"unitMoney":""},{"x":1617292800000,"y":1.7123,"equityReturn":-0.56,"unitMoney":""},{"x":1617552000000,"y":1.7251,"equityReturn":0.75,"unitMoney":""},{"x":1617638400000,"y":1.7229,"equityReturn":-0.13,"unitMoney":""},{"x":1617724800000,"y":1.7249,"equityReturn":0.12,"unitMoney":""},{"x":1617811200000,"y":1.6912,"equityReturn":-1.95,"unitMoney":""},{"x":1617897600000,"y":1.7003,"equityReturn":0.54,"unitMoney":""},{"x":1618156800000,"y":1.6899,"equityReturn":-0.61,"unitMoney":""},{"x":1618243200000,"y":1.7011,"equityReturn":0.66,"unitMoney":""},{"x":1618329600000,"y":1.6768,"equityReturn":-1.43,"unitMoney":""},{"x":1618416000000,"y":1.6575,"equityReturn":-1.15,"unitMoney":""},{"x":1618502400000,"y":1.6571,"equityReturn":-0.02,"unitMoney":""},{"x":1618761600000,"y":1.6784,"equityReturn":1.29,"unitMoney":""},{"x":1618848000000,"y":1.7012,"equityReturn":1.36,"unitMoney":""},{"x":1618934400000,"y":1.692,"equityReturn":-0.54,"unitMoney":""},{"x":1619020800000,"y":1.6939,"equityReturn":0.11,"unitMoney":""},{"x":1619107200000,"y":1.6938,"equityReturn":-0.01,"unitMoney":""},{"x":1619366400000,"y":1.697,"equityReturn":0.19,"unitMoney":""},{"x":1619452800000,"y":1.7044,"equityReturn":0.44,"unitMoney":""},{"x":1619539200000,"y":1.7287,"equityReturn":1.43,"unitMoney":""},{"x":1619625600000,"y":1.7394,"equityReturn":0.62,"unitMoney":""},{"x":1619712000000,"y":1.6887,"equityReturn":-2.91,"unitMoney":""},{"x":1619971200000,"y":1.6933,"equityReturn":0.27,"unitMoney":""},{"x":1620057600000,"y":1.6718,"equityReturn":-1.27,"unitMoney":""},{"x":1620144000000,"y":1.6575,"equityReturn":-0.86,"unitMoney":""},{"x":1620230400000,"y":1.6857,"equityReturn":1.7,"unitMoney":""},{"x":1620316800000,"y":1.6818,"equityReturn":-0.23,"unitMoney":""},{"x":1620576000000,"y":1.7073,"equityReturn":1.52,"unitMoney":""},{"x":1620662400000,"y":1.6706,"equityReturn":-2.15,"unitMoney":""},{"x":1620748800000,"y":1.6638,"equityReturn":-0.41,"unitMoney":""},{"x":1620835200000,"y":1.6824,"equityReturn":1.12,"unitMoney":""},{"x":1620921600000,"y":1.7306,"equityReturn":2.86,"unitMoney":""},{"x":1621180800000,"y":1.7369,"equityReturn":0.36,"unitMoney":""},{"x":1621267200000,"y":1.7355,"equityReturn":-0.08,"unitMoney":""},{"x":1621353600000,"y":1.774,"equityReturn":2.22,"unitMoney":""},{"x":1621440000000,"y":1.7802,"equityReturn":0.35,"unitMoney":""},{"x":1621526400000,"y":1.7869,"equityReturn":0.38,"unitMoney":""},{"x":1621785600000,"y":1.7984,"equityReturn":0.64,"unitMoney":""},{"x":1621872000000,"y":1.8064,"equityReturn":0.44,"unitMoney":""},{"x":1621958400000,"y":1.8009,"equityReturn":-0.3,"unitMoney":""},{"x":1622044800000,"y":1.7793,"equityReturn":-1.2,"unitMoney":""},{"x":1622131200000,"y":1.757,"equityReturn":-1.25,"unitMoney":""},{"x":1622390400000,"y":1.7493,"equityReturn":-0.44,"unitMoney":""},{"x":1622476800000,"y":1.784,"equityReturn":1.98,"unitMoney":""},{"x":1622563200000,"y":1.7797,"equityReturn":-0.24,"unitMoney":""},{"x":1622649600000,"y":1.6958,"equityReturn":-4.71,"unitMoney":""},{"x":1622736000000,"y":1.6948,"equityReturn":-0.06,"unitMoney":""},{"x":1622995200000,"y":1.7075,"equityReturn":0.75,"unitMoney":""},{"x":1623081600000,"y":1.7453,"equityReturn":2.21,"unitMoney":""},{"x":1623168000000,"y":1.7345,"equityReturn":-0.62,"unitMoney":""},{"x":1623254400000,"y":1.7236,"equityReturn":-0.63,"unitMoney":""},{"x":1623340800000,"y":1.7095,"equityReturn":-0.82,"unitMoney":""},{"x":1623600000000,"y":1.7444,"equityReturn":2.04,"unitMoney":""},{"x":1623686400000,"y":1.7738,"equityReturn":1.69,"unitMoney":""},{"x":1623772800000,"y":1.7422,"equityReturn":-1.78,"unitMoney":""},{"x":1623859200000,"y":1.742,"equityReturn":-0.01,"unitMoney":""},{"x":1623945600000,"y":1.7583,"equityReturn":0.94,"unitMoney":""},{"x":1624204800000,"y":1.7641,"equityReturn":0.33,"unitMoney":""},{"x":1624291200000,"y":1.7452,"equityReturn":-1.07,"unitMoney":""},{"x":1624377600000,"y":1.7231,"equityReturn":-1.27,"unitMoney":""},{"x":1624464000000,"y":1.7338,"equityReturn":0.62,"unitMoney":""},{"x":1624550400000,"y":1.7254,"equityReturn":-0.48,"unitMoney":""},{"x":1624809600000,"y":1.7414,"equityReturn":0.93,"unitMoney":""},{"x":1624896000000,"y":1.7196,"equityReturn":-1.25,"unitMoney":""},{"x":1624982400000,"y":1.7311,"equityReturn":0.67,"unitMoney":""},{"x":1625068800000,"y":1.7026,"equityReturn":-1.65,"unitMoney":""},{"x":1625155200000,"y":1.6904,"equityReturn":-0.72,"unitMoney":""},{"x":1625414400000,"y":1.689,"equityReturn":-0.08,"unitMoney":""},{"x":1625500800000,"y":1.7008,"equityReturn":0.7,"unitMoney":""},{"x":1625587200000,"y":1.6593,"equityReturn":-2.44,"unitMoney":""},{"x":1625673600000,"y":1.6727,"equityReturn":0.81,"unitMoney":""},{"x":1625760000000,"y":1.6727,"equityReturn":0.0,"unitMoney":""},{"x":1626019200000,"y":1.686,"equityReturn":0.8,"unitMoney":""},{"x":1626105600000,"y":1.703,"equityReturn":1.01,"unitMoney":""},{"x":1626192000000,"y":1.7259,"equityReturn":1.34,"unitMoney":""},{"x":1626278400000,"y":1.7286,"equityReturn":0.16,"unitMoney":""},{"x":1626364800000,"y":1.7311,"equityReturn":0.14,"unitMoney":""},{"x":1626624000000,"y":1.7541,"equityReturn":1.33,"unitMoney":""},{"x":1626710400000,"y":1.7957,"equityReturn":2.37,"unitMoney":""},{"x":1626796800000,"y":1.7917,"equityReturn":-0.22,"unitMoney":""},{"x":1626883200000,"y":1.6922,"equityReturn":-5.55,"unitMoney":""},{"x":1626969600000,"y":1.7136,"equityReturn":1.26,"unitMoney":""},{"x":1627228800000,"y":1.6902,"equityReturn":-1.37,"unitMoney":""},{"x":1627315200000,"y":1.6722,"equityReturn":-1.06,"unitMoney":""},{"x":1627401600000,"y":1.6701,"equityReturn":-0.13,"unitMoney":""},{"x":1627488000000,"y":1.7045,"equityReturn":2.06,"unitMoney":""},{"x":1627574400000,"y":1.7229,"equityReturn":1.08,"unitMoney":""},{"x":1627833600000,"y":1.6858,"equityReturn":-2.15,"unitMoney":""},{"x":1627920000000,"y":1.6899,"equityReturn":0.24,"unitMoney":""},{"x":1628006400000,"y":1.71,"equityReturn":1.19,"unitMoney":""},{"x":1628092800000,"y":1.7042,"equityReturn":-0.34,"unitMoney":""},{"x":1628179200000,"y":1.7097,"equityReturn":0.32,"unitMoney":""},{"x":1628438400000,"y":1.7795,"equityReturn":4.08,"unitMoney":""},{"x":1628524800000,"y":1.7798,"equityReturn":0.02,"unitMoney":""},{"x":1628611200000,"y":1.8004,"equityReturn":1.16,"unitMoney":""},{"x":1628697600000,"y":1.7848,"equityReturn":-0.87,"unitMoney":""},{"x":1628784000000,"y":1.8167,"equityReturn":1.79,"unitMoney":""},{"x":1629043200000,"y":1.7958,"equityReturn":-1.15,"unitMoney":""},{"x":1629129600000,"y":1.8365,"equityReturn":2.27,"unitMoney":""},{"x":1629216000000,"y":1.7937,"equityReturn":-2.33,"unitMoney":""},{"x":1629302400000,"y":1.792,"equityReturn":-0.09,"unitMoney":""},{"x":1629388800000,"y":1.8234,"equityReturn":1.75,"unitMoney":""},{"x":1629648000000,"y":1.8145,"equityReturn":-0.49,"unitMoney":""},{"x":1629734400000,"y":1.803,"equityReturn":-0.63,"unitMoney":""},{"x":1629820800000,"y":1.8458,"equityReturn":2.37,"unitMoney":""},{"x":1629907200000,"y":1.8217,"equityReturn":-1.31,"unitMoney":""},{"x":1629993600000,"y":1.8372,"equityReturn":0.85,"unitMoney":""},{"x":1630252800000,"y":1.8192,"equityReturn":-0.98,"unitMoney":""},{"x":1630339200000,"y":1.8455,"equityReturn":1.45,"unitMoney":""},{"x":1630425600000,"y":1.8565,"equityReturn":0.6,"unitMoney":""},{"x":1630512000000,"y":1.8677,"equityReturn":0.6,"unitMoney":""},{"x":1630598400000,"y":1.8359,"equityReturn":-1.7,"unitMoney":""},{"x":1630857600000,"y":1.8025,"equityReturn":-1.82,"unitMoney":""},{"x":1630944000000,"y":1.7901,"equityReturn":-0.69,"unitMoney":""},{"x":1631030400000,"y":1.7558,"equityReturn":-1.92,"unitMoney":""},{"x":1631116800000,"y":1.7245,"equityReturn":-1.78,"unitMoney":""},{"x":1631203200000,"y":1.7371,"equityReturn":0.73,"unitMoney":""},{"x":1631462400000,"y":1.7017,"equityReturn":-2.04,"unitMoney":""},{"x":1631548800000,"y":1.7006,"equityReturn":-0.06,"unitMoney":""},{"x":1631635200000,"y":1.6676,"equityReturn":-1.94,"unitMoney":""},{"x":1631721600000,"y":1.6768,"equityReturn":0.55,"unitMoney":""},{"x":1631808000000,"y":1.6529,"equityReturn":-1.43,"unitMoney":""},{"x":1632067200000,"y":1.627,"equityReturn":-1.57,"unitMoney":""},{"x":1632153600000,"y":1.6188,"equityReturn":-0.5,"unitMoney":""},{"x":1632240000000,"y":1.6618,"equityReturn":2.66,"unitMoney":""},{"x":1632326400000,"y":1.6853,"equityReturn":1.41,"unitMoney":""},{"x":1632412800000,"y":1.6992,"equityReturn":0.82,"unitMoney":""},{"x":1632672000000,"y":1.7044,"equityReturn":0.31,"unitMoney":""},{"x":1632758400000,"y":1.6969,"equityReturn":-0.44,"unitMoney":""},{"x":1632844800000,"y":1.7147,"equityReturn":1.05,"unitMoney":""},{"x":1632931200000,"y":1.7024,"equityReturn":-0.72,"unitMoney":""},{"x":1633017600000,"y":1.6939,"equityReturn":-0.5,"unitMoney":""},{"x":1633276800000,"y":1.6942,"equityReturn":0.02,"unitMoney":""},{"x":1633363200000,"y":1.7011,"equityReturn":0.41,"unitMoney":""},{"x":1633449600000,"y":1.7065,"equityReturn":0.32,"unitMoney":""},{"x":1633536000000,"y":1.7013,"equityReturn":-0.3,"unitMoney":""},{"x":1633622400000,"y":1.7052,"equityReturn":0.23,"unitMoney":""},{"x":1633881600000,"y":1.7071,"equityReturn":0.11,"unitMoney":""},{"x":1633968000000,"y":1.7384,"equityReturn":1.83,"unitMoney":""},{"x":1634054400000,"y":1.7553,"equityReturn":0.97,"unitMoney":""},{"x":1634140800000,"y":1.7512,"equityReturn":-0.23,"unitMoney":""},{"x":1634227200000,"y":1.7628,"equityReturn":0.66,"unitMoney":""},{"x":1634486400000,"y":1.7602,"equityReturn":-0.15,"unitMoney":""},{"x":1634572800000,"y":1.7437,"equityReturn":-0.94,"unitMoney":""},{"x":1634659200000,"y":1.7472,"equityReturn":0.2,"unitMoney":""},{"x":1634745600000,"y":1.7191,"equityReturn":-1.61,"unitMoney":""},{"x":1634832000000,"y":1.7262,"equityReturn":0.41,"unitMoney":""},{"x":1635091200000,"y":1.7366,"equityReturn":0.6,"unitMoney":""},{"x":1635177600000,"y":1.7746,"equityReturn":2.19,"unitMoney":""},{"x":1635264000000,"y":1.7892,"equityReturn":0.82,"unitMoney":""},{"x":1635350400000,"y":1.7687,"equityReturn":-1.15,"unitMoney":""},{"x":1635436800000,"y":1.7599,"equityReturn":-0.5,"unitMoney":""},{"x":1635696000000,"y":1.7459,"equityReturn":-0.8,"unitMoney":""},{"x":1635782400000,"y":1.6889,"equityReturn":-3.26,"unitMoney":""},{"x":1635868800000,"y":1.6713,"equityReturn":-1.04,"unitMoney":""},{"x":1635955200000,"y":1.6698,"equityReturn":-0.09,"unitMoney":""},{"x":1636041600000,"y":1.7137,"equityReturn":2.63,"unitMoney":""},{"x":1636300800000,"y":1.6503,"equityReturn":-3.7,"unitMoney":""},{"x":1636387200000,"y":1.6289,"equityReturn":-1.3,"unitMoney":""},{"x":1636473600000,"y":1.6122,"equityReturn":-1.03,"unitMoney":""},{"x":1636560000000,"y":1.6014,"equityReturn":-0.67,"unitMoney":""},{"x":1636646400000,"y":1.5765,"equityReturn":-1.55,"unitMoney":""},{"x":1636905600000,"y":1.5348,"equityReturn":-2.65,"unitMoney":""},{"x":1636992000000,"y":1.52,"equityReturn":-0.96,"unitMoney":""},{"x":1637078400000,"y":1.4882,"equityReturn":-2.09,"unitMoney":""},{"x":1637164800000,"y":1.5089,"equityReturn":1.39,"unitMoney":""},{"x":1637251200000,"y":1.516,"equityReturn":0.47,"unitMoney":""},{"x":1637510400000,"y":1.5362,"equityReturn":1.33,"unitMoney":""},{"x":1637596800000,"y":1.5455,"equityReturn":0.61,"unitMoney":""},{"x":1637683200000,"y":1.5533,"equityReturn":0.5,"unitMoney":""},{"x":1637769600000,"y":1.5383,"equityReturn":-0.97,"unitMoney":""},{"x":1637856000000,"y":1.5782,"equityReturn":2.59,"unitMoney":""},{"x":1638115200000,"y":1.5877,"equityReturn":0.6,"unitMoney":""},{"x":1638201600000,"y":1.6005,"equityReturn":0.81,"unitMoney":""},{"x":1638288000000,"y":1.6153,"equityReturn":0.92,"unitMoney":""},{"x":1638374400000,"y":1.6521,"equityReturn":2.28,"unitMoney":""},{"x":1638460800000,"y":1.6336,"equityReturn":-1.12,"unitMoney":""},{"x":1638720000000,"y":1.6106,"equityReturn":-1.41,"unitMoney":""},{"x":1638806400000,"y":1.6062,"equityReturn":-0.27,"unitMoney":""},{"x":1638892800000,"y":1.6061,"equityReturn":-0.01,"unitMoney":""},{"x":1638979200000,"y":1.6212,"equityReturn":0.94,"unitMoney":""},{"x":1639065600000,"y":1.6296,"equityReturn":0.52,"unitMoney":""},{"x":1639324800000,"y":1.5919,"equityReturn":-2.31,"unitMoney":""},{"x":1639411200000,"y":1.6208,"equityReturn":1.82,"unitMoney":""},{"x":1639497600000,"y":1.638,"equityReturn":1.06,"unitMoney":""},{"x":1639584000000,"y":1.6427,"equityReturn":0.29,"unitMoney":""},{"x":1639670400000,"y":1.663,"equityReturn":1.24,"unitMoney":""},{"x":1639929600000,"y":1.6563,"equityReturn":-0.4,"unitMoney":""},{"x":1640016000000,"y":1.6887,"equityReturn":1.96,"unitMoney":""},{"x":1640102400000,"y":1.7124,"equityReturn":1.4,"unitMoney":""},{"x":1640188800000,"y":1.7547,"equityReturn":2.47,"unitMoney":""},{"x":1640275200000,"y":1.7751,"equityReturn":1.16,"unitMoney":""},{"x":1640534400000,"y":1.7745,"equityReturn":-0.03,"unitMoney":""},{"x":1640620800000,"y":1.8065,"equityReturn":1.8,"unitMoney":""},{"x":1640707200000,"y":1.8263,"equityReturn":1.1,"unitMoney":""},{"x":1640793600000,"y":1.7764,"equityReturn":-2.73,"unitMoney":""},{"x":1640880000000,"y":1.7991,"equityReturn":1.28,"unitMoney":""},{"x":1641139200000,"y":1.764,"equityReturn":-1.95,"unitMoney":""},{"x":1641225600000,"y":1.7413,"equityReturn":-1.29,"unitMoney":""},{"x":1641312000000,"y":1.7661,"equityReturn":1.42,"unitMoney":""},{"x":1641398400000,"y":1.7945,"equityReturn":1.61,"unitMoney":""},{"x":1641484800000,"y":1.7552,"equityReturn":-2.19,"unitMoney":""},{"x":1641744000000,"y":1.7676,"equityReturn":0.71,"unitMoney":""},{"x":1641830400000,"y":1.7477,"equityReturn":-1.13,"unitMoney":""},{"x":1641916800000,"y":1.7664,"equityReturn":1.07,"unitMoney":""},{"x":1642003200000,"y":1.7344,"equityReturn":-1.81,"unitMoney":""},{"x":1642089600000,"y":1.6988,"equityReturn":-2.05,"unitMoney":""},{"x":1642348800000,"y":1.7016,"equityReturn":0.16,"unitMoney":""},{"x":1642435200000,"y":1.6944,"equityReturn":-0.42,"unitMoney":""},{"x":1642521600000,"y":1.7492,"equityReturn":3.23,"unitMoney":""},{"x":1642608000000,"y":1.74,"equityReturn":-0.53,"unitMoney":""},{"x":1642694400000,"y":1.7339,"equityReturn":-0.35,"unitMoney":""},{"x":1642953600000,"y":1.7736,"equityReturn":2.29,"unitMoney":""},{"x":1643040000000,"y":1.7614,"equityReturn":-0.69,"unitMoney":""},{"x":1643126400000,"y":1.7416,"equityReturn":-1.12,"unitMoney":""},{"x":1643212800000,"y":1.7408,"equityReturn":-0.05,"unitMoney":""},{"x":1643299200000,"y":1.7488,"equityReturn":0.46,"unitMoney":""},{"x":1643558400000,"y":1.7493,"equityReturn":0.03,"unitMoney":""},{"x":1643644800000,"y":1.7174,"equityReturn":-1.82,"unitMoney":""},{"x":1643731200000,"y":1.7684,"equityReturn":2.97,"unitMoney":""},{"x":1643817600000,"y":1.7915,"equityReturn":1.31,"unitMoney":""},{"x":1643904000000,"y":1.7992,"equityReturn":0.43,"unitMoney":""},{"x":1644163200000,"y":1.7739,"equityReturn":-1.41,"unitMoney":""},{"x":1644249600000,"y":1.7362,"equityReturn":-2.13,"unitMoney":""},{"x":1644336000000,"y":1.7431,"equityReturn":0.4,"unitMoney":""},{"x":1644422400000,"y":1.719,"equityReturn":-1.38,"unitMoney":""},{"x":1644508800000,"y":1.7007,"equityReturn":-1.06,"unitMoney":""},{"x":1644768000000,"y":1.6668,"equityReturn":-1.99,"unitMoney":""},{"x":1644854400000,"y":1.6645,"equityReturn":-0.14,"unitMoney":""},{"x":1644940800000,"y":1.6616,"equityReturn":-0.17,"unitMoney":""},{"x":1645027200000,"y":1.6665,"equityReturn":0.29,"unitMoney":""},{"x":1645113600000,"y":1.6884,"equityReturn":1.31,"unitMoney":""},{"x":1645372800000,"y":1.6807,"equityReturn":-0.46,"unitMoney":""},{"x":1645459200000,"y":1.6756,"equityReturn":-0.3,"unitMoney":""},{"x":1645545600000,"y":1.6906,"equityReturn":0.9,"unitMoney":""},{"x":1645632000000,"y":1.6888,"equityReturn":-0.11,"unitMoney":""},{"x":1645718400000,"y":1.6851,"equityReturn":-0.22,"unitMoney":""},{"x":1645977600000,"y":1.7064,"equityReturn":1.26,"unitMoney":""},{"x":1646064000000,"y":1.6511,"equityReturn":-3.24,"unitMoney":""},{"x":1646150400000,"y":1.6866,"equityReturn":2.15,"unitMoney":""},{"x":1646236800000,"y":1.6789,"equityReturn":-0.46,"unitMoney":""},{"x":1646323200000,"y":1.7121,"equityReturn":1.98,"unitMoney":""},{"x":1646582400000,"y":1.7109,"equityReturn":-0.07,"unitMoney":""},{"x":1646668800000,"y":1.7246,"equityReturn":0.8,"unitMoney":""},{"x":1646755200000,"y":1.7626,"equityReturn":2.2,"unitMoney":""},{"x":1646841600000,"y":1.7889,"equityReturn":1.49,"unitMoney":""},{"x":1646928000000,"y":1.7836,"equityReturn":-0.3,"unitMoney":""},{"x":1647187200000,"y":1.8254,"equityReturn":2.34,"unitMoney":""},{"x":1647273600000,"y":1.8404,"equityReturn":0.82,"unitMoney":""},{"x":1647360000000,"y":1.8262,"equityReturn":-0.77,"unitMoney":""},{"x":1647446400000,"y":1.8455,"equityReturn":1.06,"unitMoney":""},{"x":1647532800000,"y":1.874,"equityReturn":1.54,"unitMoney":""},{"x":1647792000000,"y":1.7965,"equityReturn":-4.14,"unitMoney":""},{"x":1647878400000,"y":1.7868,"equityReturn":-0.54,"unitMoney":""},{"x":1647964800000,"y":1.8191,"equityReturn":1.81,"unitMoney":""},{"x":1648051200000,"y":1.8312,"equityReturn":0.67,"unitMoney":""},{"x":1648137600000,"y":1.862,"equityReturn":1.68,"unitMoney":""},{"x":1648396800000,"y":1.8299,"equityReturn":-1.72,"unitMoney":""},{"x":1648483200000,"y":1.8489,"equityReturn":1.04,"unitMoney":""},{"x":1648569600000,"y":1.8059,"equityReturn":-2.33,"unitMoney":""},{"x":1648656000000,"y":1.7816,"equityReturn":-1.35,"unitMoney":""},{"x":1648742400000,"y":1.7538,"equityReturn":-1.56,"unitMoney":""},{"x":1649001600000,"y":1.793,"equityReturn":2.24,"unitMoney":""},{"x":1649088000000,"y":1.8113,"equityReturn":1.02,"unitMoney":""},{"x":1649174400000,"y":1.8217,"equityReturn":0.57,"unitMoney":""},{"x":1649260800000,"y":1.8416,"equityReturn":1.09,"unitMoney":""},{"x":1649347200000,"y":1.8144,"equityReturn":-1.48,"unitMoney":""},{"x":1649606400000,"y":1.7845,"equityReturn":-1.65,"unitMoney":""},{"x":1649692800000,"y":1.8163,"equityReturn":1.78,"unitMoney":""},{"x":1649779200000,"y":1.8063,"equityReturn":-0.55,"unitMoney":""},{"x":1649865600000,"y":1.778,"equityReturn":-1.57,"unitMoney":""},{"x":1649952000000,"y":1.7787,"equityReturn":0.04,"unitMoney":""},{"x":1650211200000,"y":1.8029,"equityReturn":1.36,"unitMoney":""},{"x":1650297600000,"y":1.8173,"equityReturn":0.8,"unitMoney":""},{"x":1650384000000,"y":1.8348,"equityReturn":0.96,"unitMoney":""},{"x":1650470400000,"y":1.873,"equityReturn":2.08,"unitMoney":""},{"x":1650556800000,"y":1.8702,"equityReturn":-0.15,"unitMoney":""},{"x":1650816000000,"y":1.8675,"equityReturn":-0.14,"unitMoney":""},{"x":1650902400000,"y":1.9059,"equityReturn":2.06,"unitMoney":""},{"x":1650988800000,"y":1.9176,"equityReturn":0.61,"unitMoney":""},{"x":1651075200000,"y":1.9054,"equityReturn":-0.64,"unitMoney":""},{"x":1651161600000,"y":1.9216,"equityReturn":0.85,"unitMoney":""},{"x":1651420800000,"y":1.9172,"equityReturn":-0.23,"unitMoney":""},{"x":1651507200000,"y":1.9117,"equityReturn":-0.29,"unitMoney":""},{"x":1651593600000,"y":1.882,"equityReturn":-1.55,"unitMoney":""},{"x":1651680000000,"y":1.8696,"equityReturn":-0.66,"unitMoney":""},{"x":1651766400000,"y":1.8241,"equityReturn":-2.43,"unitMoney":""},{"x":1652025600000,"y":1.8231,"equityReturn":-0.05,"unitMoney":""},{"x":1652112000000,"y":1.8043,"equityReturn":-1.03,"unitMoney":""},{"x":1652198400000,"y":1.8431,"equityReturn":2.15,"unitMoney":""},{"x":1652284800000,"y":1.8342,"equityReturn":-0.48,"unitMoney":""},{"x":1652371200000,"y":1.8288,"equityReturn":-0.29,"unitMoney":""},{"x":1652630400000,"y":1.832,"equityReturn":0.17,"unitMoney":""},{"x":1652716800000,"y":1.8023,"equityReturn":-1.62,"unitMoney":""},{"x":1652803200000,"y":1.7851,"equityReturn":-0.95,"unitMoney":""},{"x":1652889600000,"y":1.8283,"equityReturn":2.42,"unitMoney":""},{"x":1652976000000,"y":1.8539,"equityReturn":1.4,"unitMoney":""},{"x":1653235200000,"y":1.8265,"equityReturn":-1.48,"unitMoney":""},{"x":1653321600000,"y":1.8421,"equityReturn":0.85,"unitMoney":""},{"x":1653408000000,"y":1.8801,"equityReturn":2.06,"unitMoney":""},{"x":1653494400000,"y":1.9119,"equityReturn":1.69,"unitMoney":""},{"x":1653580800000,"y":1.9232,"equityReturn":0.59,"unitMoney":""},{"x":1653840000000,"y":1.9171,"equityReturn":-0.32,"unitMoney":""},{"x":1653926400000,"y":1.9363,"equityReturn":1.0,"unitMoney":""},{"x":1654012800000,"y":1.9286,"equityReturn":-0.4,"unitMoney":""},{"x":1654099200000,"y":1.9337,"equityReturn":0.26,"unitMoney":""},{"x":1654185600000,"y":1.9454,"equityReturn":0.61,"unitMoney":""},{"x":1654444800000,"y":1.8921,"equityReturn":-2.74,"unitMoney":""},{"x":1654531200000,"y":1.9279,"equityReturn":1.89,"unitMoney":""},{"x":1654617600000,"y":1.9282,"equityReturn":0.02,"unitMoney":""},{"x":1654704000000,"y":1.9018,"equityReturn":-1.37,"unitMoney":""},{"x":1654790400000,"y":1.8953,"equityReturn":-0.34,"unitMoney":""},{"x":1655049600000,"y":1.9058,"equityReturn":0.55,"unitMoney":""},{"x":1655136000000,"y":1.9043,"equityReturn":-0.08,"unitMoney":""},{"x":1655222400000,"y":1.8859,"equityReturn":-0.97,"unitMoney":""},{"x":1655308800000,"y":1.8678,"equityReturn":-0.96,"unitMoney":""},{"x":1655395200000,"y":1.8112,"equityReturn":-3.03,"unitMoney":""},{"x":1655654400000,"y":1.766,"equityReturn":-2.5,"unitMoney":""},{"x":1655740800000,"y":1.7541,"equityReturn":-0.67,"unitMoney":""},{"x":1655827200000,"y":1.7437,"equityReturn":-0.59,"unitMoney":""},{"x":1655913600000,"y":1.7519,"equityReturn":0.47,"unitMoney":""},{"x":1656000000000,"y":1.7308,"equityReturn":-1.2,"unitMoney":""},{"x":1656259200000,"y":1.6977,"equityReturn":-1.91,"unitMoney":""},{"x":1656345600000,"y":1.7097,"equityReturn":0.71,"unitMoney":""},{"x":1656432000000,"y":1.7478,"equityReturn":2.23,"unitMoney":""},{"x":1656518400000,"y":1.7367,"equityReturn":-0.64,"unitMoney":""},{"x":1656604800000,"y":1.7623,"equityReturn":1.47,"unitMoney":""},{"x":1656864000000,"y":1.742,"equityReturn":-1.15,"unitMoney":""},{"x":1656950400000,"y":1.7004,"equityReturn":-2.39,"unitMoney":""},{"x":1657036800000,"y":1.7298,"equityReturn":1.73,"unitMoney":""},{"x":1657123200000,"y":1.7197,"equityReturn":-0.58,"unitMoney":""},{"x":1657209600000,"y":1.7,"equityReturn":-1.15,"unitMoney":""},{"x":1657468800000,"y":1.7245,"equityReturn":1.44,"unitMoney":""},{"x":1657555200000,"y":1.7116,"equityReturn":-0.75,"unitMoney":""},{"x":1657641600000,"y":1.7274,"equityReturn":0.92,"unitMoney":""},{"x":1657728000000,"y":1.7436,"equityReturn":0.94,"unitMoney":""},{"x":1657814400000,"y":1.7561,"equityReturn":0.72,"unitMoney":""},{"x":1658073600000,"y":1.733,"equityReturn":-1.32,"unitMoney":""},{"x":1658160000000,"y":1.8084,"equityReturn":4.35,"unitMoney":""},{"x":1658246400000,"y":1.8358,"equityReturn":1.52,"unitMoney":""},{"x":1658332800000,"y":1.8343,"equityReturn":-0.08,"unitMoney":""},{"x":1658419200000,"y":1.898,"equityReturn":3.47,"unitMoney":""},{"x":1658678400000,"y":1.8443,"equityReturn":-2.83,"unitMoney":""},{"x":1658764800000,"y":1.8664,"equityReturn":1.2,"unitMoney":""},{"x":1658851200000,"y":1.9044,"equityReturn":2.04,"unitMoney":""},{"x":1658937600000,"y":1.9634,"equityReturn":3.1,"unitMoney":""},{"x":1659024000000,"y":1.9707,"equityReturn":0.37,"unitMoney":""},{"x":1659283200000,"y":1.9613,"equityReturn":-0.48,"unitMoney":""},{"x":1659369600000,"y":2.0001,"equityReturn":1.98,"unitMoney":""},{"x":1659456000000,"y":2.0154,"equityReturn":0.76,"unitMoney":""},{"x":1659542400000,"y":2.0308,"equityReturn":0.76,"unitMoney":""},{"x":1659628800000,"y":1.999,"equityReturn":-1.57,"unitMoney":""},{"x":1659888000000,"y":1.9838,"equityReturn":-0.76,"unitMoney":""},{"x":1659974400000,"y":1.9453,"equityReturn":-1.94,"unitMoney":""},{"x":1660060800000,"y":1.9747,"equityReturn":1.51,"unitMoney":""},{"x":1660147200000,"y":1.947,"equityReturn":-1.4,"unitMoney":""},{"x":1660233600000,"y":1.948,"equityReturn":0.05,"unitMoney":""},{"x":1660492800000,"y":1.9748,"equityReturn":1.38,"unitMoney":""},{"x":1660579200000,"y":1.9058,"equityReturn":-3.49,"unitMoney":""},{"x":1660665600000,"y":1.8817,"equityReturn":-1.26,"unitMoney":""},{"x":1660752000000,"y":1.9322,"equityReturn":2.68,"unitMoney":""},{"x":1660838400000,"y":1.9336,"equityReturn":0.07,"unitMoney":""},{"x":1661097600000,"y":1.9614,"equityReturn":1.44,"unitMoney":""},{"x":1661184000000,"y":1.9529,"equityReturn":-0.43,"unitMoney":""},{"x":1661270400000,"y":1.999,"equityReturn":2.36,"unitMoney":""},{"x":1661356800000,"y":2.0091,"equityReturn":0.51,"unitMoney":""},{"x":1661443200000,"y":2.0364,"equityReturn":1.36,"unitMoney":""},{"x":1661702400000,"y":2.0845,"equityReturn":2.36,"unitMoney":""},{"x":1661788800000,"y":2.0779,"equityReturn":-0.32,"unitMoney":""},{"x":1661875200000,"y":2.1261,"equityReturn":2.32,"unitMoney":""},{"x":1661961600000,"y":2.1348,"equityReturn":0.41,"unitMoney":""},{"x":1662048000000,"y":2.1421,"equityReturn":0.34,"unitMoney":""},{"x":1662307200000,"y":2.1122,"equityReturn":-1.4,"unitMoney":""},{"x":1662393600000,"y":2.1176,"equityReturn":0.26,"unitMoney":""},{"x":1662480000000,"y":2.1005,"equityReturn":-0.81,"unitMoney":""},{"x":1662566400000,"y":2.1508,"equityReturn":2.39,"unitMoney":""},{"x":1662652800000,"y":2.194,"equityReturn":2.01,"unitMoney":""},{"x":1662912000000,"y":2.2086,"equityReturn":0.67,"unitMoney":""},{"x":1662998400000,"y":2.203,"equityReturn":-0.25,"unitMoney":""},{"x":1663084800000,"y":2.2001,"equityReturn":-0.13,"unitMoney":""},{"x":1663171200000,"y":2.1186,"equityReturn":-3.7,"unitMoney":""},{"x":1663257600000,"y":2.0958,"equityReturn":-1.08,"unitMoney":""},{"x":1663516800000,"y":2.1524,"equityReturn":2.7,"unitMoney":""},{"x":1663603200000,"y":2.1017,"equityReturn":-2.36,"unitMoney":""},{"x":1663689600000,"y":2.105,"equityReturn":0.16,"unitMoney":""},{"x":1663776000000,"y":2.1736,"equityReturn":3.26,"unitMoney":""},{"x":1663862400000,"y":2.2694,"equityReturn":4.41,"unitMoney":""},{"x":1664121600000,"y":2.2954,"equityReturn":1.15,"unitMoney":""},{"x":1664208000000,"y":2.3664,"equityReturn":3.09,"unitMoney":""},{"x":1664294400000,"y":2.3515,"equityReturn":-0.63,"unitMoney":""},{"x":1664380800000,"y":2.388,"equityReturn":1.55,"unitMoney":""},{"x":1664467200000,"y":2.4115,"equityReturn":0.98,"unitMoney":""},{"x":1664726400000,"y":2.485,"equityReturn":3.05,"unitMoney":""},{"x":1664812800000,"y":2.4486,"equityReturn":-1.46,"unitMoney":""},{"x":1664899200000,"y":2.4353,"equityReturn":-0.54,"unitMoney":""},{"x":1664985600000,"y":2.4163,"equityReturn":-0.78,"unitMoney":""},{"x":1665072000000,"y":2.4431,"equityReturn":1.11,"unitMoney":""},{"x":1665331200000,"y":2.4753,"equityReturn":1.32,"unitMoney":""},{"x":1665417600000,"y":2.4022,"equityReturn":-2.95,"unitMoney":""},{"x":1665504000000,"y":2.4347,"equityReturn":1.35,"unitMoney":""},{"x":1665590400000,"y":2.4632,"equityReturn":1.17,"unitMoney":""},{"x":1665676800000,"y":2.4577,"equityReturn":-0.22,"unitMoney":""},{"x":1665936000000,"y":2.4234,"equityReturn":-1.4,"unitMoney":""},{"x":1666022400000,"y":2.4408,"equityReturn":0.72,"unitMoney":""},{"x":1666108800000,"y":2.4092,"equityReturn":-1.29,"unitMoney":""},{"x":1666195200000,"y":2.3919,"equityReturn":-0.72,"unitMoney":""},{"x":1666281600000,"y":2.4027,"equityReturn":0.45,"unitMoney":""},{"x":1666540800000,"y":2.4223,"equityReturn":0.82,"unitMoney":""},{"x":1666627200000,"y":2.4158,"equityReturn":-0.27,"unitMoney":""},{"x":1666713600000,"y":2.4963,"equityReturn":3.33,"unitMoney":""},{"x":1666800000000,"y":2.4608,"equityReturn":-1.42,"unitMoney":""},{"x":1666886400000,"y":2.4659,"equityReturn":0.21,"unitMoney":""},{"x":1667145600000,"y":2.4371,"equityReturn":-1.17,"unitMoney":""},{"x":1667232000000,"y":2.4931,"equityReturn":2.3,"unitMoney":""},{"x":1667318400000,"y":2.523,"equityReturn":1.2,"unitMoney":""},{"x":1667404800000,"y":2.5675,"equityReturn":1.76,"unitMoney":""},{"x":1667491200000,"y":2.5135,"equityReturn":-2.1,"unitMoney":""},{"x":1667750400000,"y":2.5356,"equityReturn":0.88,"unitMoney":""},{"x":1667836800000,"y":2.5441,"equityReturn":0.34,"unitMoney":""},{"x":1667923200000,"y":2.5544,"equityReturn":0.4,"unitMoney":""},{"x":1668009600000,"y":2.558,"equityReturn":0.14,"unitMoney":""},{"x":1668096000000,"y":2.5659,"equityReturn":0.31,"unitMoney":""},{"x":1668355200000,"y":2.5484,"equityReturn":-0.68,"unitMoney":""},{"x":1668441600000,"y":2.5033,"equityReturn":-1.77,"unitMoney":""},{"x":1668528000000,"y":2.5122,"equityReturn":0.36,"unitMoney":""},{"x":1668614400000,"y":2.5683,"equityReturn":2.23,"unitMoney":""},{"x":1668700800000,"y":2.6135,"equityReturn":1.76,"unitMoney":""},{"x":1668960000000,"y":2.6068,"equityReturn":-0.26,"unitMoney":""},{"x":1669046400000,"y":2.58,"equityReturn":-1.03,"unitMoney":""},{"x":1669132800000,"y":2.5957,"equityReturn":0.61,"unitMoney":""},{"x":1669219200000,"y":2.5726,"equityReturn":-0.89,"unitMoney":""},{"x":1669305600000,"y":2.5371,"equityReturn":-1.38,"unitMoney":""},{"x":1669564800000,"y":2.5747,"equityReturn":1.48,"unitMoney":""},{"x":1669651200000,"y":2.5946,"equityReturn":0.77,"unitMoney":""},{"x":1669737600000,"y":2.6549,"equityReturn":2.32,"unitMoney":""},{"x":1669824000000,"y":2.6606,"equityReturn":0.21,"unitMoney":""},{"x":1669910400000,"y":2.6706,"equityReturn":0.38,"unitMoney":""},{"x":1670169600000,"y":2.7556,"equityReturn":3.18,"unitMoney":""},{"x":1670256000000,"y":2.773,"equityReturn":0.63,"unitMoney":""},{"x":1670342400000,"y":2.7924,"equityReturn":0.7,"unitMoney":""},{"x":1670428800000,"y":2.8322,"equityReturn":1.43,"unitMoney":""},{"x":1670515200000,"y":2.8335,"equityReturn":0.05,"unitMoney":""},{"x":1670774400000,"y":2.8516,"equityReturn":0.64,"unitMoney":""},{"x":1670860800000,"y":2.879,"equityReturn":0.96,"unitMoney":""},{"x":1670947200000,"y":2.8744,"equityReturn":-0.16,"unitMoney":""},{"x":1671033600000,"y":2.8258,"equityReturn":-1.69,"unitMoney":""},{"x":1671120000000,"y":2.7953,"equityReturn":-1.08,"unitMoney":""},{"x":1671379200000,"y":2.8236,"equityReturn":1.01,"unitMoney":""},{"x":1671465600000,"y":2.8579,"equityReturn":1.21,"unitMoney":""},{"x":1671552000000,"y":2.8425,"equityReturn":-0.54,"unitMoney":""},{"x":1671638400000,"y":2.8549,"equityReturn":0.44,"unitMoney":""},{"x":1671724800000,"y":2.8386,"equityReturn":-0.57,"unitMoney":""},{"x":1671984000000,"y":2.8501,"equityReturn":0.41,"unitMoney":""},{"x":1672070400000,"y":2.7845,"equityReturn":-2.3,"unitMoney":""},{"x":1672156800000,"y":2.7465,"equityReturn":-1.36,"unitMoney":""},{"x":1672243200000,"y":2.7414,"equityReturn":-0.19,"unitMoney":""},{"x":1672329600000,"y":2.7235,"equityReturn":-0.65,"unitMoney":""},{"x":1672588800000,"y":2.7382,"equityReturn":0.54,"unitMoney":""},{"x":1672675200000,"y":2.7326,"equityReturn":-0.2,"unitMoney":""},{"x":1672761600000,"y":2.7506,"equityReturn":0.66,"unitMoney":""},{"x":1672848000000,"y":2.7843,"equityReturn":1.23,"unitMoney":""},{"x":1672934400000,"y":2.803,"equityReturn":0.67,"unitMoney":""},{"x":1673193600000,"y":2.8225,"equityReturn":0.7,"unitMoney":""},{"x":1673280000000,"y":2.8739,"equityReturn":1.82,"unitMoney":""},{"x":1673366400000,"y":2.9696,"equityReturn":3.33,"unitMoney":""},{"x":1673452800000,"y":2.9695,"equityReturn":-0.0,"unitMoney":""},{"x":1673539200000,"y":3.0185,"equityReturn":1.65,"unitMoney":""},{"x":1673798400000,"y":3.0237,"equityReturn":0.17,"unitMoney":""},{"x":1673884800000,"y":3.0257,"equityReturn":0.07,"unitMoney":""},{"x":1673971200000,"y":3.0005,"equityReturn":-0.83,"unitMoney":""},{"x":1674057600000,"y":3.0384,"equityReturn":1.26,"unitMoney":""},{"x":1674144000000,"y":3.0145,"equityReturn":-0.79,"unitMoney":""},{"x":1674403200000,"y":2.9645,"equityReturn":-1.66,"unitMoney":""},{"x":1674489600000,"y":3.0218,"equityReturn":1.93,"unitMoney":""},{"x":1674576000000,"y":3.0003,"equityReturn":-0.71,"unitMoney":""},{"x":1674662400000,"y":3.0017,"equityReturn":0.05,"unitMoney":""},{"x":1674748800000,"y":2.9445,"equityReturn":-1.91,"unitMoney":""},{"x":1675008000000,"y":2.9356,"equityReturn":-0.3,"unitMoney":""},{"x":1675094400000,"y":2.9684,"equityReturn":1.12,"unitMoney":""},{"x":1675180800000,"y":2.9298,"equityReturn":-1.3,"unitMoney":""},{"x":1675267200000,"y":2.9266,"equityReturn":-0.11,"unitMoney":""},{"x":1675353600000,"y":2.9064,"equityReturn":-0.69,"unitMoney":""},{"x":1675612800000,"y":2.9249,"equityReturn":0.64,"unitMoney":""},{"x":1675699200000,"y":2.8859,"equityReturn":-1.33,"unitMoney":""},{"x":1675785600000,"y":2.8669,"equityReturn":-0.66,"unitMoney":""},{"x":1675872000000,"y":2.8723,"equityReturn":0.19,"unitMoney":""},{"x":1675958400000,"y":2.8867,"equityReturn":0.5,"unitMoney":""},{"x":1676217600000,"y":2.9176,"equityReturn":1.07,"unitMoney":""},{"x":1676304000000,"y":2.8976,"equityReturn":-0.69,"unitMoney":""},{"x":1676390400000,"y":2.8841,"equityReturn":-0.47,"unitMoney":""},{"x":1676476800000,"y":2.871,"equityReturn":-0.45,"unitMoney":""},{"x":1676563200000,"y":2.8729,"equityReturn":0.07,"unitMoney":""},{"x":1676822400000,"y":2.9459,"equityReturn":2.54,"unitMoney":""},{"x":1676908800000,"y":2.8994,"equityReturn":-1.58,"unitMoney":""},{"x":1676995200000,"y":2.8991,"equityReturn":-0.01,"unitMoney":""},{"x":1677081600000,"y":2.9403,"equityReturn":1.42,"unitMoney":""},{"x":1677168000000,"y":2.9466,"equityReturn":0.21,"unitMoney":""},{"x":1677427200000,"y":2.855,"equityReturn":-3.11,"unitMoney":""},{"x":1677513600000,"y":2.8578,"equityReturn":0.1,"unitMoney":""},{"x":1677600000000,"y":2.869,"equityReturn":0.39,"unitMoney":""},{"x":1677686400000,"y":2.7583,"equityReturn":-3.86,"unitMoney":""},{"x":1677772800000,"y":2.7306,"equityReturn":-1.0,"unitMoney":""},{"x":1678032000000,"y":2.7312,"equityReturn":0.02,"unitMoney":""},{"x":1678118400000,"y":2.7395,"equityReturn":0.3,"unitMoney":""},{"x":1678204800000,"y":2.6429,"equityReturn":-3.53,"unitMoney":""},{"x":1678291200000,"y":2.7134,"equityReturn":2.67,"unitMoney":""},{"x":1678377600000,"y":2.7088,"equityReturn":-0.17,"unitMoney":""},{"x":1678636800000,"y":2.6753,"equityReturn":-1.24,"unitMoney":""},{"x":1678723200000,"y":2.6733,"equityReturn":-0.07,"unitMoney":""},{"x":1678809600000,"y":2.7037,"equityReturn":1.14,"unitMoney":""},{"x":1678896000000,"y":2.7291,"equityReturn":0.94,"unitMoney":""},{"x":1678982400000,"y":2.7454,"equityReturn":0.6,"unitMoney":""},{"x":1679241600000,"y":2.7315,"equityReturn":-0.51,"unitMoney":""},{"x":1679328000000,"y":2.714,"equityReturn":-0.64,"unitMoney":""},{"x":1679414400000,"y":2.6605,"equityReturn":-1.97,"unitMoney":""},{"x":1679500800000,"y":2.6047,"equityReturn":-2.1,"unitMoney":""},{"x":1679587200000,"y":2.5959,"equityReturn":-0.34,"unitMoney":""},{"x":1679846400000,"y":2.566,"equityReturn":-1.15,"unitMoney":""},{"x":1679932800000,"y":2.5869,"equityReturn":0.81,"unitMoney":""},{"x":1680019200000,"y":2.5843,"equityReturn":-0.1,"unitMoney":""},{"x":1680105600000,"y":2.5991,"equityReturn":0.57,"unitMoney":""},{"x":1680192000000,"y":2.6025,"equityReturn":0.13,"unitMoney":""},{"x":1680451200000,"y":2.5775,"equityReturn":-0.96,"unitMoney":""},{"x":1680537600000,"y":2.5802,"equityReturn":0.1,"unitMoney":""},{"x":1680624000000,"y":2.62,"equityReturn":1.54,"unitMoney":""},{"x":1680710400000,"y":2.5944,"equityReturn":-0.98,"unitMoney":""},{"x":1680796800000,"y":2.6021,"equityReturn":0.3,"unitMoney":""},{"x":1681056000000,"y":2.5799,"equityReturn":-0.85,"unitMoney":""},{"x":1681142400000,"y":2.5763,"equityReturn":-0.14,"unitMoney":""},{"x":1681228800000,"y":2.5363,"equityReturn":-1.55,"unitMoney":""},{"x":1681315200000,"y":2.5132,"equityReturn":-0.91,"unitMoney":""},{"x":1681401600000,"y":2.5547,"equityReturn":1.65,"unitMoney":""},{"x":1681660800000,"y":2.5781,"equityReturn":0.92,"unitMoney":""},{"x":1681747200000,"y":2.5737,"equityReturn":-0.17,"unitMoney":""},{"x":1681833600000,"y":2.5638,"equityReturn":-0.38,"unitMoney":""},{"x":1681920000000,"y":2.5448,"equityReturn":-0.74,"unitMoney":""},{"x":1682006400000,"y":2.5265,"equityReturn":-0.72,"unitMoney":""},{"x":1682265600000,"y":2.6141,"equityReturn":3.47,"unitMoney":""},{"x":1682352000000,"y":2.6266,"equityReturn":0.48,"unitMoney":""},{"x":1682438400000,"y":2.5862,"equityReturn":-1.54,"unitMoney":""},{"x":1682524800000,"y":2.6098,"equityReturn":0.91,"unitMoney":""},{"x":1682611200000,"y":2.5599,"equityReturn":-1.91,"unitMoney":""},{"x":1682870400000,"y":2.5494,"equityReturn":-0.41,"unitMoney":""},{"x":1682956800000,"y":2.5707,"equityReturn":0.84,"unitMoney":""},{"x":1683043200000,"y":2.5315,"equityReturn":-1.52,"unitMoney":""},{"x":1683129600000,"y":2.572,"equityReturn":1.6,"unitMoney":""},{"x":1683216000000,"y":2.5514,"equityReturn":-0.8,"unitMoney":""},{"x":1683475200000,"y":2.4936,"equityReturn":-2.27,"unitMoney":""},{"x":1683561600000,"y":2.4514,"equityReturn":-1.69,"unitMoney":""},{"x":1683648000000,"y":2.5233,"equityReturn":2.93,"unitMoney":""},{"x":1683734400000,"y":2.5224,"equityReturn":-0.04,"unitMoney":""},{"x":1683820800000,"y":2.5153,"equityReturn":-0.28,"unitMoney":""},{"x":1684080000000,"y":2.5009,"equityReturn":-0.57,"unitMoney":""},{"x":1684166400000,"y":2.554,"equityReturn":2.12,"unitMoney":""},{"x":1684252800000,"y":2.5716,"equityReturn":0.69,"unitMoney":""},{"x":1684339200000,"y":2.5745,"equityReturn":0.11,"unitMoney":""},{"x":1684425600000,"y":2.5645,"equityReturn":-0.39,"unitMoney":""},{"x":1684684800000,"y":2.5361,"equityReturn":-1.11,"unitMoney":""},{"x":1684771200000,"y":2.5331,"equityReturn":-0.12,"unitMoney":""},{"x":1684857600000,"y":2.531,"equityReturn":-0.08,"unitMoney":""},{"x":1684944000000,"y":2.5224,"equityReturn":-0.34,"unitMoney":""},{"x":1685030400000,"y":2.5397,"equityReturn":0.69,"unitMoney":""},{"x":1685289600000,"y":2.5265,"equityReturn":-0.52,"unitMoney":""},{"x":1685376000000,"y":2.4579,"equityReturn":-2.72,"unitMoney":""},{"x":1685462400000,"y":2.4036,"equityReturn":-2.21,"unitMoney":""},{"x":1685548800000,"y":2.4052,"equityReturn":0.07,"unitMoney":""},{"x":1685635200000,"y":2.3974,"equityReturn":-0.32,"unitMoney":""},{"x":1685894400000,"y":2.3999,"equityReturn":0.1,"unitMoney":""},{"x":1685980800000,"y":2.4137,"equityReturn":0.58,"unitMoney":""},{"x":1686067200000,"y":2.4082,"equityReturn":-0.23,"unitMoney":""},{"x":1686153600000,"y":2.4146,"equityReturn":0.27,"unitMoney":""},{"x":1686240000000,"y":2.4886,"equityReturn":3.06,"unitMoney":""},{"x":1686499200000,"y":2.4652,"equityReturn":-0.94,"unitMoney":""},{"x":1686585600000,"y":2.5083,"equityReturn":1.75,"unitMoney":""},{"x":1686672000000,"y":2.5116,"equityReturn":0.13,"unitMoney":""},{"x":1686758400000,"y":2.5046,"equityReturn":-0.28,"unitMoney":""},{"x":1686844800000,"y":2.5618,"equityReturn":2.28,"unitMoney":""},{"x":1687104000000,"y":2.5336,"equityReturn":-1.1,"unitMoney":""},{"x":1687190400000,"y":2.4952,"equityReturn":-1.52,"unitMoney":""},{"x":1687276800000,"y":2.455,"equityReturn":-1.61,"unitMoney":""},{"x":1687363200000,"y":2.4803,"equityReturn":1.03,"unitMoney":""},{"x":1687449600000,"y":2.4886,"equityReturn":0.33,"unitMoney":""},{"x":1687708800000,"y":2.4869,"equityReturn":-0.07,"unitMoney":""},{"x":1687795200000,"y":2.4846,"equityReturn":-0.09,"unitMoney":""},{"x":1687881600000,"y":2.5061,"equityReturn":0.87,"unitMoney":""},{"x":1687968000000,"y":2.5679,"equityReturn":2.47,"unitMoney":""},{"x":1688054400000,"y":2.5169,"equityReturn":-1.99,"unitMoney":""},{"x":1688313600000,"y":2.5878,"equityReturn":2.82,"unitMoney":""},{"x":1688400000000,"y":2.6085,"equityReturn":0.8,"unitMoney":""},{"x":1688486400000,"y":2.6808,"equityReturn":2.77,"unitMoney":""},{"x":1688572800000,"y":2.6806,"equityReturn":-0.01,"unitMoney":""},{"x":1688659200000,"y":2.6135,"equityReturn":-2.5,"unitMoney":""},{"x":1688918400000,"y":2.5984,"equityReturn":-0.58,"unitMoney":""},{"x":1689004800000,"y":2.5948,"equityReturn":-0.14,"unitMoney":""},{"x":1689091200000,"y":2.6364,"equityReturn":1.6,"unitMoney":""},{"x":1689177600000,"y":2.6584,"equityReturn":0.83,"unitMoney":""},{"x":1689264000000,"y":2.6408,"equityReturn":-0.66,"unitMoney":""},{"x":1689523200000,"y":2.6553,"equityReturn":0.55,"unitMoney":""},{"x":1689609600000,"y":2.6874,"equityReturn":1.21,"unitMoney":""},{"x":1689696000000,"y":2.6938,"equityReturn":0.24,"unitMoney":""},{"x":1689782400000,"y":2.7257,"equityReturn":1.18,"unitMoney":""},{"x":1689868800000,"y":2.7507,"equityReturn":0.92,"unitMoney":""},{"x":1690128000000,"y":2.739,"equityReturn":-0.43,"unitMoney":""},{"x":1690214400000,"y":2.7416,"equityReturn":0.09,"unitMoney":""},{"x":1690300800000,"y":2.7204,"equityReturn":-0.77,"unitMoney":""},{"x":1690387200000,"y":2.7343,"equityReturn":0.51,"unitMoney":""},{"x":1690473600000,"y":2.7514,"equityReturn":0.63,"unitMoney":""},{"x":1690732800000,"y":2.7217,"equityReturn":-1.08,"unitMoney":""},{"x":1690819200000,"y":2.7551,"equityReturn":1.23,"unitMoney":""},{"x":1690905600000,"y":2.7137,"equityReturn":-1.5,"unitMoney":""},{"x":1690992000000,"y":2.7635,"equityReturn":1.84,"unitMoney":""},{"x":1691078400000,"y":2.7795,"equityReturn":0.58,"unitMoney":""},{"x":1691337600000,"y":2.8205,"equityReturn":1.48,"unitMoney":""},{"x":1691424000000,"y":2.7926,"equityReturn":-0.99,"unitMoney":""},{"x":1691510400000,"y":2.7925,"equityReturn":-0.0,"unitMoney":""},{"x":1691596800000,"y":2.8631,"equityReturn":2.53,"unitMoney":""},{"x":1691683200000,"y":2.9194,"equityReturn":1.97,"unitMoney":""},{"x":1691942400000,"y":2.8376,"equityReturn":-2.8,"unitMoney":""},{"x":1692028800000,"y":2.8264,"equityReturn":-0.39,"unitMoney":""},{"x":1692115200000,"y":2.8138,"equityReturn":-0.45,"unitMoney":""},{"x":1692201600000,"y":2.8612,"equityReturn":1.68,"unitMoney":""},{"x":1692288000000,"y":2.865,"equityReturn":0.13,"unitMoney":""},{"x":1692547200000,"y":2.9152,"equityReturn":1.75,"unitMoney":""},{"x":1692633600000,"y":2.8832,"equityReturn":-1.1,"unitMoney":""},{"x":1692720000000,"y":2.8629,"equityReturn":-0.7,"unitMoney":""},{"x":1692806400000,"y":2.8926,"equityReturn":1.04,"unitMoney":""},{"x":1692892800000,"y":2.8954,"equityReturn":0.1,"unitMoney":""},{"x":1693152000000,"y":2.9209,"equityReturn":0.88,"unitMoney":""},{"x":1693238400000,"y":2.8733,"equityReturn":-1.63,"unitMoney":""},{"x":1693324800000,"y":2.8236,"equityReturn":-1.73,"unitMoney":""},{"x":1693411200000,"y":2.8341,"equityReturn":0.37,"unitMoney":""},{"x":1693497600000,"y":2.7773,"equityReturn":-2.0,"unitMoney":""},{"x":1693756800000,"y":2.754,"equityReturn":-0.84,"unitMoney":""},{"x":1693843200000,"y":2.7931,"equityReturn":1.42,"unitMoney":""},{"x":1693929600000,"y":2.7984,"equityReturn":0.19,"unitMoney":""},{"x":1694016000000,"y":2.7712,"equityReturn":-0.97,"unitMoney":""},{"x":1694102400000,"y":2.8073,"equityReturn":1.3,"unitMoney":""},{"x":1694361600000,"y":2.758,"equityReturn":-1.76,"unitMoney":""},{"x":1694448000000,"y":2.7834,"equityReturn":0.92,"unitMoney":""},{"x":1694534400000,"y":2.8137,"equityReturn":1.09,"unitMoney":""},{"x":1694620800000,"y":2.8588,"equityReturn":1.6,"unitMoney":""},{"x":1694707200000,"y":2.9131,"equityReturn":1.9,"unitMoney":""},{"x":1694966400000,"y":2.9624,"equityReturn":1.69,"unitMoney":""},{"x":1695052800000,"y":2.9842,"equityReturn":0.74,"unitMoney":""},{"x":1695139200000,"y":2.9567,"equityReturn":-0.92,"unitMoney":""},{"x":1695225600000,"y":2.9787,"equityReturn":0.74,"unitMoney":""},{"x":1695312000000,"y":3.0062,"equityReturn":0.92,"unitMoney":""},{"x":1695571200000,"y":2.9855,"equityReturn":-0.69,"unitMoney":""},{"x":1695657600000,"y":2.9909,"equityReturn":0.18,"unitMoney":""},{"x":1695744000000,"y":2.9664,"equityReturn":-0.82,"unitMoney":""},{"x":1695830400000,"y":2.9633,"equityReturn":-0.1,"unitMoney":""},{"x":1695916800000,"y":2.9463,"equityReturn":-0.57,"unitMoney":""},{"x":1696176000000,"y":2.961,"equityReturn":0.5,"unitMoney":""},{"x":1696262400000,"y":2.9591,"equityReturn":-0.06,"unitMoney":""},{"x":1696348800000,"y":2.9894,"equityReturn":1.02,"unitMoney":""},{"x":1696435200000,"y":3.024,"equityReturn":1.16,"unitMoney":""},{"x":1696521600000,"y":3.0474,"equityReturn":0.77,"unitMoney":""},{"x":1696780800000,"y":2.9404,"equityReturn":-3.51,"unitMoney":""},{"x":1696867200000,"y":2.9229,"equityReturn":-0.6,"unitMoney":""},{"x":1696953600000,"y":3.0021,"equityReturn":2.71,"unitMoney":""},{"x":1697040000000,"y":3.0609,"equityReturn":1.96,"unitMoney":""},{"x":1697126400000,"y":3.0999,"equityReturn":1.27,"unitMoney":""},{"x":1697385600000,"y":3.1035,"equityReturn":0.12,"unitMoney":""},{"x":1697472000000,"y":3.091,"equityReturn":-0.4,"unitMoney":""},{"x":1697558400000,"y":3.0325,"equityReturn":-1.89,"unitMoney":""},{"x":1697644800000,"y":3.0291,"equityReturn":-0.11,"unitMoney":""},{"x":1697731200000,"y":3.0444,"equityReturn":0.51,"unitMoney":""},{"x":1697990400000,"y":3.0731,"equityReturn":0.94,"unitMoney":""},{"x":1698076800000,"y":3.1034,"equityReturn":0.99,"unitMoney":""},{"x":1698163200000,"y":3.0361,"equityReturn":-2.17,"unitMoney":""},{"x":1698249600000,"y":3.0642,"equityReturn":0.93,"unitMoney":""},{"x":1698336000000,"y":3.1633,"equityReturn":3.23,"unitMoney":""},{"x":1698595200000,"y":3.1452,"equityReturn":-0.57,"unitMoney":""},{"x":1698681600000,"y":3.1889,"equityReturn":1.39,"unitMoney":""},{"x":1698768000000,"y":3.162,"equityReturn":-0.84,"unitMoney":""},{"x":1698854400000,"y":3.2005,"equityReturn":1.22,"unitMoney":""},{"x":1698940800000,"y":3.2198,"equityReturn":0.6,"unitMoney":""},{"x":1699200000000,"y":3.2416,"equityReturn":0.68,"unitMoney":""},{"x":1699286400000,"y":3.2212,"equityReturn":-0.63,"unitMoney":""},{"x":1699372800000,"y":3.2008,"equityReturn":-0.63,"unitMoney":""},{"x":1699459200000,"y":3.1256,"equityReturn":-2.35,"unitMoney":""},{"x":1699545600000,"y":3.0738,"equityReturn":-1.66,"unitMoney":""},{"x":1699804800000,"y":3.1248,"equityReturn":1.66,"unitMoney":""},{"x":1699891200000,"y":3.0757,"equityReturn":-1.57,"unitMoney":""},{"x":1699977600000,"y":3.0972,"equityReturn":0.7,"unitMoney":""},{"x":1700064000000,"y":3.048,"equityReturn":-1.59,"unitMoney":""},{"x":1700150400000,"y":2.9973,"equityReturn":-1.66,"unitMoney":""},{"x":1700409600000,"y":2.9596,"equityReturn":-1.26,"unitMoney":""},{"x":1700496000000,"y":2.9778,"equityReturn":0.61,"unitMoney":""},{"x":1700582400000,"y":2.9719,"equityReturn":-0.2,"unitMoney":""},{"x":1700668800000,"y":2.9982,"equityReturn":0.88,"unitMoney":""},{"x":1700755200000,"y":2.9601,"equityReturn":-1.27,"unitMoney":""},{"x":1701014400000,"y":2.9332,"equityReturn":-0.91,"unitMoney":""},{"x":1701100800000,"y":2.9328,"equityReturn":-0.01,"unitMoney":""},{"x":1701187200000,"y":2.9821,"equityReturn":1.68,"unitMoney":""},{"x":1701273600000,"y":3.0343,"equityReturn":1.75,"unitMoney":""},{"x":1701360000000,"y":3.0242,"equityReturn":-0.33,"unitMoney":""},{"x":1701619200000,"y":3.0161,"equityReturn":-0.27,"unitMoney":""},{"x":1701705600000,"y":2.9711,"equityReturn":-1.49,"unitMoney":""},{"x":1701792000000,"y":2.9192,"equityReturn":-1.75,"unitMoney":""},{"x":1701878400000,"y":2.8882,"equityReturn":-1.06,"unitMoney":""},{"x":1701964800000,"y":2.8681,"equityReturn":-0.7,"unitMoney":""},{"x":1702224000000,"y":2.8536,"equityReturn":-0.51,"unitMoney":""},{"x":1702310400000,"y":2.8966,"equityReturn":1.51,"unitMoney":""},{"x":1702396800000,"y":2.9047,"equityReturn":0.28,"unitMoney":""},{"x":1702483200000,"y":2.8428,"equityReturn":-2.13,"unitMoney":""},{"x":1702569600000,"y":2.8417,"equityReturn":-0.04,"unitMoney":""},{"x":1702828800000,"y":2.8188,"equityReturn":-0.81,"unitMoney":""},{"x":1702915200000,"y":2.7793,"equityReturn":-1.4,"unitMoney":""},{"x":1703001600000,"y":2.664,"equityReturn":-4.15,"unitMoney":""},{"x":1703088000000,"y":2.6376,"equityReturn":-0.99,"unitMoney":""},{"x":1703174400000,"y":2.6488,"equityReturn":0.42,"unitMoney":""},{"x":1703433600000,"y":2.6706,"equityReturn":0.82,"unitMoney":""},{"x":1703520000000,"y":2.6907,"equityReturn":0.75,"unitMoney":""},{"x":1703606400000,"y":2.6512,"equityReturn":-1.47,"unitMoney":""},{"x":1703692800000,"y":2.6017,"equityReturn":-1.87,"unitMoney":""},{"x":1703779200000,"y":2.5794,"equityReturn":-0.86,"unitMoney":""},{"x":1704038400000,"y":2.5862,"equityReturn":0.26,"unitMoney":""},{"x":1704124800000,"y":2.6067,"equityReturn":0.79,"unitMoney":""},{"x":1704211200000,"y":2.5932,"equityReturn":-0.52,"unitMoney":""},{"x":1704297600000,"y":2.5147,"equityReturn":-3.03,"unitMoney":""},{"x":1704384000000,"y":2.5494,"equityReturn":1.38,"unitMoney":""},{"x":1704643200000,"y":2.5474,"equityReturn":-0.08,"unitMoney":""},{"x":1704729600000,"y":2.5004,"equityReturn":-1.85,"unitMoney":""},{"x":1704816000000,"y":2.4816,"equityReturn":-0.75,"unitMoney":""},{"x":1704902400000,"y":2.4903,"equityReturn":0.35,"unitMoney":""},{"x":1704988800000,"y":2.5011,"equityReturn":0.43,"unitMoney":""},{"x":1705248000000,"y":2.5578,"equityReturn":2.27,"unitMoney":""},{"x":1705334400000,"y":2.5435,"equityReturn":-0.56,"unitMoney":""},{"x":1705420800000,"y":2.4889,"equityReturn":-2.15,"unitMoney":""},{"x":1705507200000,"y":2.4478,"equityReturn":-1.65,"unitMoney":""},{"x":1705593600000,"y":2.4409,"equityReturn":-0.28,"unitMoney":""},{"x":1705852800000,"y":2.3911,"equityReturn":-2.04,"unitMoney":""},{"x":1705939200000,"y":2.4383,"equityReturn":1.97,"unitMoney":""},{"x":1706025600000,"y":2.4864,"equityReturn":1.97,"unitMoney":""},{"x":1706112000000,"y":2.5141,"equityReturn":1.11,"unitMoney":""},{"x":1706198400000,"y":2.5206,"equityReturn":0.26,"unitMoney":""},{"x":1706457600000,"y":2.4938,"equityReturn":-1.06,"unitMoney":""},{"x":1706544000000,"y":2.4643,"equityReturn":-1.18,"unitMoney":""},{"x":1706630400000,"y":2.4689,"equityReturn":0.19,"unitMoney":""},{"x":1706716800000,"y":2.4616,"equityReturn":-0.3,"unitMoney":""},{"x":1706803200000,"y":2.5165,"equityReturn":2.23,"unitMoney":""},{"x":1707062400000,"y":2.5489,"equityReturn":1.29,"unitMoney":""},{"x":1707148800000,"y":2.4753,"equityReturn":-2.89,"unitMoney":""},{"x":1707235200000,"y":2.4398,"equityReturn":-1.43,"unitMoney":""},{"x":1707321600000,"y":2.4214,"equityReturn":-0.75,"unitMoney":""},{"x":1707408000000,"y":2.4252,"equityReturn":0.16,"unitMoney":""},{"x":1707667200000,"y":2.4667,"equityReturn":1.71,"unitMoney":""},{"x":1707753600000,"y":2.4674,"equityReturn":0.03,"unitMoney":""},{"x":1707840000000,"y":2.4983,"equityReturn":1.25,"unitMoney":""},{"x":1707926400000,"y":2.4765,"equityReturn":-0.87,"unitMoney":""},{"x":1708012800000,"y":2.5219,"equityReturn":1.83,"unitMoney":""},{"x":1708272000000,"y":2.5762,"equityReturn":2.15,"unitMoney":""},{"x":1708358400000,"y":2.6126,"equityReturn":1.41,"unitMoney":""},{"x":1708444800000,"y":2.631,"equityReturn":0.7,"unitMoney":""},{"x":1708531200000,"y":2.6,"equityReturn":-1.18,"unitMoney":""},{"x":1708617600000,"y":2.6343,"equityReturn":1.32,"unitMoney":""},{"x":1708876800000,"y":2.6531,"equityReturn":0.71,"unitMoney":""},{"x":1708963200000,"y":2.6046,"equityReturn":-1.83,"unitMoney":""},{"x":1709049600000,"y":2.5798,"equityReturn":-0.95,"unitMoney":""},{"x":1709136000000,"y":2.5883,"equityReturn":0.33,"unitMoney":""},{"x":1709222400000,"y":2.6098,"equityReturn":0.83,"unitMoney":""},{"x":1709481600000,"y":2.6272,"equityReturn":0.67,"unitMoney":""},{"x":1709568000000,"y":2.6121,"equityReturn":-0.57,"unitMoney":""},{"x":1709654400000,"y":2.5761,"equityReturn":-1.38,"unitMoney":""},{"x":1709740800000,"y":2.5582,"equityReturn":-0.69,"unitMoney":""},{"x":1709827200000,"y":2.6115,"equityReturn":2.08,"unitMoney":""},{"x":1710086400000,"y":2.6295,"equityReturn":0.69,"unitMoney":""},{"x":1710172800000,"y":2.6192,"equityReturn":-0.39,"unitMoney":""},{"x":1710259200000,"y":2.6877,"equityReturn":2.62,"unitMoney":""},{"x":1710345600000,"y":2.6871,"equityReturn":-0.02,"unitMoney":""},{"x":1710432000000,"y":2.6216,"equityReturn":-2.44,"unitMoney":""},{"x":1710691200000,"y":2.6157,"equityReturn":-0.23,"unitMoney":""},{"x":1710777600000,"y":2.595,"equityReturn":-0.79,"unitMoney":""},{"x":1710864000000,"y":2.5225,"equityReturn":-2.79,"unitMoney":""},{"x":1710950400000,"y":2.5144,"equityReturn":-0.32,"unitMoney":""},{"x":1711036800000,"y":2.5172,"equityReturn":0.11,"unitMoney":""},{"x":1711296000000,"y":2.5129,"equityReturn":-0.17,"unitMoney":""},{"x":1711382400000,"y":2.5488,"equityReturn":1.43,"unitMoney":""},{"x":1711468800000,"y":2.5479,"equityReturn":-0.04,"unitMoney":""},{"x":1711555200000,"y":2.4997,"equityReturn":-1.89,"unitMoney":""},{"x":1711641600000,"y":2.4891,"equityReturn":-0.42,"unitMoney":""},{"x":1711900800000,"y":2.4475,"equityReturn":-1.67,"unitMoney":""},{"x":1711987200000,"y":2.523,"equityReturn":3.08,"unitMoney":""},{"x":1712073600000,"y":2.4332,"equityReturn":-3.56,"unitMoney":""},{"x":1712160000000,"y":2.4426,"equityReturn":0.39,"unitMoney":""},{"x":1712246400000,"y":2.4626,"equityReturn":0.82,"unitMoney":""},{"x":1712505600000,"y":2.4273,"equityReturn":-1.43,"unitMoney":""},{"x":1712592000000,"y":2.3777,"equityReturn":-2.04,"unitMoney":""},{"x":1712678400000,"y":2.4268,"equityReturn":2.07,"unitMoney":""},{"x":1712764800000,"y":2.4037,"equityReturn":-0.95,"unitMoney":""},{"x":1712851200000,"y":2.3998,"equityReturn":-0.16,"unitMoney":""},{"x":1713110400000,"y":2.342,"equityReturn":-2.41,"unitMoney":""},{"x":1713196800000,"y":2.3758,"equityReturn":1.44,"unitMoney":""},{"x":1713283200000,"y":2.3978,"equityReturn":0.93,"unitMoney":""},{"x":1713369600000,"y":2.3444,"equityReturn":-2.23,"unitMoney":""},{"x":1713456000000,"y":2.3253,"equityReturn":-0.81,"unitMoney":""},{"x":1713715200000,"y":2.3603,"equityReturn":1.51,"unitMoney":""},{"x":1713801600000,"y":2.3487,"equityReturn":-0.49,"unitMoney":""},{"x":1713888000000,"y":2.3704,"equityReturn":0.92,"unitMoney":""},{"x":1713974400000,"y":2.3501,"equityReturn":-0.86,"unitMoney":""},{"x":1714060800000,"y":2.3453,"equityReturn":-0.2,"unitMoney":""},{"x":1714320000000,"y":2.3588,"equityReturn":0.58,"unitMoney":""},{"x":1714406400000,"y":2.375,"equityReturn":0.69,"unitMoney":""},{"x":1714492800000,"y":2.3809,"equityReturn":0.25,"unitMoney":""},{"x":1714579200000,"y":2.4195,"equityReturn":1.62,"unitMoney":""},{"x":1714665600000,"y":2.3696,"equityReturn":-2.06,"unitMoney":""},{"x":1714924800000,"y":2.3408,"equityReturn":-1.22,"unitMoney":""},{"x":1715011200000,"y":2.3492,"equityReturn":0.36,"unitMoney":""},{"x":1715097600000,"y":2.3541,"equityReturn":0.21,"unitMoney":""},{"x":1715184000000,"y":2.376,"equityReturn":0.93,"unitMoney":""},{"x":1715270400000,"y":2.3619,"equityReturn":-0.59,"unitMoney":""},{"x":1715529600000,"y":2.3543,"equityReturn":-0.32,"unitMoney":""},{"x":1715616000000,"y":2.4251,"equityReturn":3.01,"unitMoney":""},{"x":1715702400000,"y":2.4093,"equityReturn":-0.65,"unitMoney":""},{"x":1715788800000,"y":2.425,"equityReturn":0.65,"unitMoney":""},{"x":1715875200000,"y":2.3896,"equityReturn":-1.46,"unitMoney":""},{"x":1716134400000,"y":2.3983,"equityReturn":0.36,"unitMoney":""},{"x":1716220800000,"y":2.4138,"equityReturn":0.65,"unitMoney":""},{"x":1716307200000,"y":2.428,"equityReturn":0.59,"unitMoney":""},{"x":1716393600000,"y":2.4131,"equityReturn":-0.61,"unitMoney":""},{"x":1716480000000,"y":2.4201,"equityReturn":0.29,"unitMoney":""},{"x":1716739200000,"y":2.438,"equityReturn":0.74,"unitMoney":""},{"x":1716825600000,"y":2.4412,"equityReturn":0.13,"unitMoney":""},{"x":1716912000000,"y":2.4563,"equityReturn":0.62,"unitMoney":""},{"x":1716998400000,"y":2.3959,"equityReturn":-2.46,"unitMoney":""},{"x":1717084800000,"y":2.3866,"equityReturn":-0.39,"unitMoney":""},{"x":1717344000000,"y":2.3712,"equityReturn":-0.65,"unitMoney":""},{"x":1717430400000,"y":2.3642,"equityReturn":-0.3,"unitMoney":""},{"x":1717516800000,"y":2.3567,"equityReturn":-0.32,"unitMoney":""},{"x":1717603200000,"y":2.3361,"equityReturn":-0.87,"unitMoney":""},{"x":1717689600000,"y":2.3807,"equityReturn":1.91,"unitMoney":""},{"x":1717948800000,"y":2.377,"equityReturn":-0.16,"unitMoney":""},{"x":1718035200000,"y":2.3594,"equityReturn":-0.74,"unitMoney":""},{"x":1718121600000,"y":2.3473,"equityReturn":-0.51,"unitMoney":""},{"x":1718208000000,"y":2.3376,"equityReturn":-0.41,"unitMoney":""},{"x":1718294400000,"y":2.3573,"equityReturn":0.84,"unitMoney":""},{"x":1718553600000,"y":2.3372,"equityReturn":-0.85,"unitMoney":""},{"x":1718640000000,"y":2.3025,"equityReturn":-1.48,"unitMoney":""},{"x":1718726400000,"y":2.3298,"equityReturn":1.19,"unitMoney":""},{"x":1718812800000,"y":2.317,"equityReturn":-0.55,"unitMoney":""},{"x":1718899200000,"y":2.3147,"equityReturn":-0.1,"unitMoney":""},{"x":1719158400000,"y":2.3044,"equityReturn":-0.44,"unitMoney":""},{"x":1719244800000,"y":2.2833,"equityReturn":-0.92,"unitMoney":""},{"x":1719331200000,"y":2.2998,"equityReturn":0.72,"unitMoney":""},{"x":1719417600000,"y":2.3189,"equityReturn":0.83,"unitMoney":""},{"x":1719504000000,"y":2.3113,"equityReturn":-0.33,"unitMoney":""},{"x":1719763200000,"y":2.2999,"equityReturn":-0.49,"unitMoney":""},{"x":1719849600000,"y":2.338,"equityReturn":1.66,"unitMoney":""},{"x":1719936000000,"y":2.3048,"equityReturn":-1.42,"unitMoney":""},{"x":1720022400000,"y":2.2584,"equityReturn":-2.01,"unitMoney":""},{"x":1720108800000,"y":2.2647,"equityReturn":0.28,"unitMoney":""},{"x":1720368000000,"y":2.3248,"equityReturn":2.65,"unitMoney":""},{"x":1720454400000,"y":2.2826,"equityReturn":-1.82,"unitMoney":""},{"x":1720540800000,"y":2.2768,"equityReturn":-0.25,"unitMoney":""},{"x":1720627200000,"y":2.2795,"equityReturn":0.12,"unitMoney":""},{"x":1720713600000,"y":2.2466,"equityReturn":-1.44,"unitMoney":""},{"x":1720972800000,"y":2.2261,"equityReturn":-0.91,"unitMoney":""},{"x":1721059200000,"y":2.2344,"equityReturn":0.37,"unitMoney":""},{"x":1721145600000,"y":2.2012,"equityReturn":-1.49,"unitMoney":""},{"x":1721232000000,"y":2.2108,"equityReturn":0.44,"unitMoney":""},{"x":1721318400000,"y":2.2251,"equityReturn":0.65,"unitMoney":""},{"x":1721577600000,"y":2.2468,"equityReturn":0.98,"unitMoney":""},{"x":1721664000000,"y":2.2355,"equityReturn":-0.5,"unitMoney":""},{"x":1721750400000,"y":2.2274,"equityReturn":-0.36,"unitMoney":""},{"x":1721836800000,"y":2.2476,"equityReturn":0.91,"unitMoney":""},{"x":1721923200000,"y":2.2478,"equityReturn":0.01,"unitMoney":""},{"x":1722182400000,"y":2.2592,"equityReturn":0.51,"unitMoney":""},{"x":1722268800000,"y":2.2758,"equityReturn":0.73,"unitMoney":""},{"x":1722355200000,"y":2.2264,"equityReturn":-2.17,"unitMoney":""},{"x":1722441600000,"y":2.2693,"equityReturn":1.93,"unitMoney":""},{"x":1722528000000,"y":2.2885,"equityReturn":0.85,"unitMoney":""},{"x":1722787200000,"y":2.2003,"equityReturn":-3.85,"unitMoney":""},{"x":1722873600000,"y":2.2331,"equityReturn":1.49,"unitMoney":""},{"x":1722960000000,"y":2.2041,"equityReturn":-1.3,"unitMoney":""},{"x":1723046400000,"y":2.1669,"equityReturn":-1.69,"unitMoney":""},{"x":1723132800000,"y":2.2275,"equityReturn":2.8,"unitMoney":""},{"x":1723392000000,"y":2.2255,"equityReturn":-0.09,"unitMoney":""},{"x":1723478400000,"y":2.2063,"equityReturn":-0.86,"unitMoney":""},{"x":1723564800000,"y":2.194,"equityReturn":-0.56,"unitMoney":""},{"x":1723651200000,"y":2.1872,"equityReturn":-0.31,"unitMoney":""},{"x":1723737600000,"y":2.1854,"equityReturn":-0.08,"unitMoney":""},{"x":1723996800000,"y":2.1486,"equityReturn":-1.68,"unitMoney":""},{"x":1724083200000,"y":2.1258,"equityReturn":-1.06,"unitMoney":""},{"x":1724169600000,"y":2.1573,"equityReturn":1.48,"unitMoney":""},{"x":1724256000000,"y":2.1911,"equityReturn":1.57,"unitMoney":""},{"x":1724342400000,"y":2.1443,"equityReturn":-2.14,"unitMoney":""},{"x":1724601600000,"y":2.075,"equityReturn":-3.23,"unitMoney":""},{"x":1724688000000,"y":2.0488,"equityReturn":-1.26,"unitMoney":""},{"x":1724774400000,"y":2.0315,"equityReturn":-0.84,"unitMoney":""},{"x":1724860800000,"y":2.0291,"equityReturn":-0.12,"unitMoney":""},{"x":1724947200000,"y":2.0164,"equityReturn":-0.63,"unitMoney":""},{"x":1725206400000,"y":2.0314,"equityReturn":0.74,"unitMoney":""},{"x":1725292800000,"y":2.0353,"equityReturn":0.19,"unitMoney":""},{"x":1725379200000,"y":2.1209,"equityReturn":4.21,"unitMoney":""},{"x":1725465600000,"y":2.0902,"equityReturn":-1.45,"unitMoney":""},{"x":1725552000000,"y":2.1071,"equityReturn":0.81,"unitMoney":""},{"x":1725811200000,"y":2.1194,"equityReturn":0.58,"unitMoney":""},{"x":1725897600000,"y":2.0956,"equityReturn":-1.12,"unitMoney":""},{"x":1725984000000,"y":2.0975,"equityReturn":0.09,"unitMoney":""},{"x":1726070400000,"y":2.1218,"equityReturn":1.16,"unitMoney":""},{"x":1726156800000,"y":2.1127,"equityReturn":-0.43,"unitMoney":""},{"x":1726416000000,"y":2.1171,"equityReturn":0.21,"unitMoney":""},{"x":1726502400000,"y":2.0767,"equityReturn":-1.91,"unitMoney":""},{"x":1726588800000,"y":2.0505,"equityReturn":-1.26,"unitMoney":""},{"x":1726675200000,"y":2.0206,"equityReturn":-1.46,"unitMoney":""},{"x":1726761600000,"y":2.0515,"equityReturn":1.53,"unitMoney":""},{"x":1727020800000,"y":2.0324,"equityReturn":-0.93,"unitMoney":""},{"x":1727107200000,"y":2.0371,"equityReturn":0.23,"unitMoney":""},{"x":1727193600000,"y":2.0262,"equityReturn":-0.54,"unitMoney":""},{"x":1727280000000,"y":2.0022,"equityReturn":-1.18,"unitMoney":""},{"x":1727366400000,"y":2.0016,"equityReturn":-0.03,"unitMoney":""},{"x":1727625600000,"y":2.038,"equityReturn":1.82,"unitMoney":""},{"x":1727712000000,"y":1.9961,"equityReturn":-2.06,"unitMoney":""},{"x":1727798400000,"y":1.9833,"equityReturn":-0.64,"unitMoney":""},{"x":1727884800000,"y":2.0125,"equityReturn":1.47,"unitMoney":""},{"x":1727971200000,"y":2.022,"equityReturn":0.47,"unitMoney":""},{"x":1728230400000,"y":2.023,"equityReturn":0.05,"unitMoney":""},{"x":1728316800000,"y":2.0404,"equityReturn":0.86,"unitMoney":""},{"x":1728403200000,"y":2.0156,"equityReturn":-1.22,"unitMoney":""},{"x":1728489600000,"y":2.028,"equityReturn":0.62,"unitMoney":""},{"x":1728576000000,"y":2.0361,"equityReturn":0.4,"unitMoney":""},{"x":1728835200000,"y":2.0604,"equityReturn":1.19,"unitMoney":""},{"x":1728921600000,"y":2.0574,"equityReturn":-0.15,"unitMoney":""},{"x":1729008000000,"y":2.025,"equityReturn":-1.57,"unitMoney":""},{"x":1729094400000,"y":1.9917,"equityReturn":-1.64,"unitMoney":""},{"x":1729180800000,"y":2.0369,"equityReturn":2.27,"unitMoney":""},{"x":1729440000000,"y":2.083,"equityReturn":2.26,"unitMoney":""},{"x":1729526400000,"y":2.104,"equityReturn":1.01,"unitMoney":""},{"x":1729612800000,"y":2.0895,"equityReturn":-0.69,"unitMoney":""},{"x":1729699200000,"y":2.0748,"equityReturn":-0.7,"unitMoney":""},{"x":1729785600000,"y":2.0791,"equityReturn":0.21,"unitMoney":""},{"x":1730044800000,"y":2.0805,"equityReturn":0.07,"unitMoney":""},{"x":1730131200000,"y":2.0694,"equityReturn":-0.53,"unitMoney":""},{"x":1730217600000,"y":2.0414,"equityReturn":-1.35,"unitMoney":""},{"x":1730304000000,"y":2.0344,"equityReturn":-0.34,"unitMoney":""},{"x":1730390400000,"y":2.0335,"equityReturn":-0.04,"unitMoney":""},{"x":1730649600000,"y":2.0542,"equityReturn":1.02,"unitMoney":""},{"x":1730736000000,"y":2.051,"equityReturn":-0.16,"unitMoney":""},{"x":1730822400000,"y":2.0479,"equityReturn":-0.15,"unitMoney":""},{"x":1730908800000,"y":2.0241,"equityReturn":-1.16,"unitMoney":""},{"x":1730995200000,"y":2.0345,"equityReturn":0.51,"unitMoney":""},{"x":1731254400000,"y":1.9925,"equityReturn":-2.06,"unitMoney":""},{"x":1731340800000,"y":1.953,"equityReturn":-1.98,"unitMoney":""},{"x":1731427200000,"y":2.0059,"equityReturn":2.71,"unitMoney":""},{"x":1731513600000,"y":1.9976,"equityReturn":-0.41,"unitMoney":""},{"x":1731600000000,"y":1.9944,"equityReturn":-0.16,"unitMoney":""},{"x":1731859200000,"y":2.0214,"equityReturn":1.35,"unitMoney":""},{"x":1731945600000,"y":2.0032,"equityReturn":-0.9,"unitMoney":""},{"x":1732032000000,"y":2.0272,"equityReturn":1.2,"unitMoney":""},{"x":1732118400000,"y":2.051,"equityReturn":1.17,"unitMoney":""},{"x":1732204800000,"y":2.0371,"equityReturn":-0.68,"unitMoney":""},{"x":1732464000000,"y":2.0074,"equityReturn":-1.46,"unitMoney":""},{"x":1732550400000,"y":2.0289,"equityReturn":1.07,"unitMoney":""},{"x":1732636800000,"y":2.0317,"equityReturn":0.14,"unitMoney":""},{"x":1732723200000,"y":2.0176,"equityReturn":-0.69,"unitMoney":""},{"x":1732809600000,"y":2.0052,"equityReturn":-0.61,"unitMoney":""},{"x":1733068800000,"y":2.0041,"equityReturn":-0.05,"unitMoney":""},{"x":1733155200000,"y":2.0002,"equityReturn":-0.19,"unitMoney":""},{"x":1733241600000,"y":2.0256,"equityReturn":1.27,"unitMoney":""},{"x":1733328000000,"y":2.0187,"equityReturn":-0.34,"unitMoney":""},{"x":1733414400000,"y":2.0242,"equityReturn":0.27,"unitMoney":""},{"x":1733673600000,"y":2.0184,"equityReturn":-0.29,"unitMoney":""},{"x":1733760000000,"y":2.0169,"equityReturn":-0.07,"unitMoney":""},{"x":1733846400000,"y":2.0146,"equityReturn":-0.11,"unitMoney":""},{"x":1733932800000,"y":2.0239,"equityReturn":0.46,"unitMoney":""},{"x":1734019200000,"y":1.9861,"equityReturn":-1.87,"unitMoney":""},{"x":1734278400000,"y":1.9868,"equityReturn":0.04,"unitMoney":""},{"x":1734364800000,"y":1.9689,"equityReturn":-0.9,"unitMoney":""},{"x":1734451200000,"y":1.9857,"equityReturn":0.85,"unitMoney":""},{"x":1734537600000,"y":2.0067,"equityReturn":1.06,"unitMoney":""},{"x":1734624000000,"y":1.9606,"equityReturn":-2.3,"unitMoney":""},{"x":1734883200000,"y":1.9715,"equityReturn":0.56,"unitMoney":""},{"x":1734969600000,"y":1.9478,"equityReturn":-1.2,"unitMoney":""},{"x":1735056000000,"y":1.9559,"equityReturn":0.42,"unitMoney":""},{"x":1735142400000,"y":1.9239,"equityReturn":-1.64,"unitMoney":""},{"x":1735228800000,"y":1.9457,"equityReturn":1.13,"unitMoney":""},{"x":1735488000000,"y":1.9237,"equityReturn":-1.13,"unitMoney":""},{"x":1735574400000,"y":1.9649,"equityReturn":2.14,"unitMoney":""},{"x":1735660800000,"y":1.9433,"equityReturn":-1.1,"unitMoney":""},{"x":1735747200000,"y":1.9186,"equityReturn":-1.27,"unitMoney":""},{"x":1735833600000,"y":1.9445,"equityReturn":1.35,"unitMoney":""},{"x":1736092800000,"y":1.9532,"equityReturn":0.45,"unitMoney":""},{"x":1736179200000,"y":1.9646,"equityReturn":0.58,"unitMoney":""},{"x":1736265600000,"y":1.9511,"equityReturn":-0.69,"unitMoney":""},{"x":1736352000000,"y":1.9756,"equityReturn":1.26,"unitMoney":""},{"x":1736438400000,"y":1.9688,"equityReturn":-0.34,"unitMoney":""},{"x":1736697600000,"y":1.9667,"equityReturn":-0.11,"unitMoney":""},{"x":1736784000000,"y":2.0365,"equityReturn":3.55,"unitMoney":""},{"x":1736870400000,"y":2.061,"equityReturn":1.2,"unitMoney":""},{"x":1736956800000,"y":2.0357,"equityReturn":-1.23,"unitMoney":""},{"x":1737043200000,"y":2.0623,"equityReturn":1.31,"unitMoney":""},{"x":1737302400000,"y":2.0705,"equityReturn":0.4,"unitMoney":""},{"x":1737388800000,"y":2.1351,"equityReturn":3.12,"unitMoney":""},{"x":1737475200000,"y":2.1272,"equityReturn":-0.37,"unitMoney":""},{"x":1737561600000,"y":2.1514,"equityReturn":1.14,"unitMoney":""},{"x":1737648000000,"y":2.1,"equityReturn":-2.39,"unitMoney":""}];/*规模变动 mom-较上期环比*/var Data_fluctuationScale = {"categories":["2024-03-31","2024-06-30","2024-09-30","2024-12-31"],"series":[{"y":468.22,"mom":"-5.60%"},{"y":431.78,"mom":"-7.78%"},{"y":452.19,"mom":"4.73%"},{"y":418.65,"mom":"-7.42%"}]};/*现任基金经理*/var Data_currentFundManager =[{"id":"30040164","pic":"","name":"张坤","star":5,"workTime":"12年又117天","fundSize":"505.76亿(4只基金)"}];
@@ -0,0 +1 @@
+/*2025-01-24 15:00:42*/var ishb=false;/*基金或股票信息*/var fS_name = "易方达消费行业股票";var fS_code = "110022";/*原费率*/var fund_sourceRate="1.50";/*现费率*/var fund_Rate="0.15";/*最小申购金额*/var fund_minsg="10";/*基金持仓股票代码*/var stockCodes=["6005191","6008871","0008582","6003091","6001321","0003332","6009001","0006512","0003332","6003152"];/*基金持仓债券代码*/var zqCodes = "";/*基金持仓股票代码(新市场号)*/var stockCodesNew =["1.600519","1.600887","0.000858","1.600309","1.600132","0.000333","1.600900","0.000651","1.603288","1.600315"];/*基金持仓债券代码（新市场号）*/var zqCodesNew = "";/*收益率*//*近一年收益率*/var syl_1n="-8.12";/*近6月收益率*/var syl_6y="3.75";/*近三月收益率*/var syl_3y="-4.93";/*近一月收益率*/var syl_1y="-2.87";/*资产配置*/var Data_assetAllocation = {"series":[{"name":"股票占净比","type":null,"data":[93.53,92.71,94.12,91.86],"yAxis":0},{"name":"债券占净比","type":null,"data":[0.0,0.0,0.0,0.0],"yAxis":0},{"name":"现金占净比","type":null,"data":[6.84,7.53,6.20,8.41],"yAxis":0},{"name":"净资产","type":"line","data":[236.7152,221.9843,254.8810,210.4231],"yAxis":1}],"categories":["2024-03-31","2024-06-30","2024-09-30","2024-12-31"]};/*股票仓位测算图*/var Data_fundSharesPositions = [[1735142400000,93.00],[1735228800000,93.00],[1735488000000,92.50],[1735574400000,92.50]];
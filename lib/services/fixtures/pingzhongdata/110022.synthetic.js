@@ -0,0 +1,2 @@
+/*合成数据，非接口抓取：为离线调试和测试补充的单位净值走势、规模变动和现任基金经理，数值为构造的，不代表该基金的真实表现*/
+/*单位净值走势 equityReturn-净值回报 unitMoney-每份派送金*/var Data_netWorthTrend = [{"x":1559491200000,"y":2.8223,"equityReturn":0,"unitMoney":""},{"x":1559577600000,"y":2.8174,"equityReturn":-0.17,"unitMoney":""},{"x":1559664000000,"y":2.9703,"equityReturn":5.43,"unitMoney":""},{"x":1559750400000,"y":2.9954,"equityReturn":0.85,"unitMoney":""},{"x":1559836800000,"y":3.0057,"equityReturn":0.34,"unitMoney":""},{"x":1560096000000,"y":3.0279,"equityReturn":0.74,"unitMoney":""},{"x":1560182400000,"y":3.0048,"equityReturn":-0.76,"unitMoney":""},{"x":1560268800000,"y":2.9722,"equityReturn":-1.08,"unitMoney":""},{"x":1560355200000,"y":2.9983,"equityReturn":0.88,"unitMoney":""},{"x":1560441600000,"y":2.9786,"equityReturn":-0.66,"unitMoney":""},{"x":1560700800000,"y":3.0177,"equityReturn":1.31,"unitMoney":""},{"x":1560787200000,"y":3.0089,"equityReturn":-0.29,"unitMoney":""},{"x":1560873600000,"y":2.9259,"equityReturn":-2.76,"unitMoney":""},{"x":1560960000000,"y":2.8666,"equityReturn":-2.03,"unitMoney":""},{"x":1561046400000,"y":2.8292,"equityReturn":-1.3,"unitMoney":""},{"x":1561305600000,"y":2.7419,"equityReturn":-3.09,"unitMoney":""},{"x":1561392000000,"y":2.7396,"equityReturn":-0.08,"unitMoney":""},{"x":1561478400000,"y":2.7282,"equityReturn":-0.42,"unitMoney":""},{"x":1561564800000,"y":2.7694,"equityReturn":1.51,"unitMoney":""},{"x":1561651200000,"y":2.7329,"equityReturn":-1.32,"unitMoney":""},{"x":1561910400000,"y":2.7241,"equityReturn":-0.32,"unitMoney":""},{"x":1561996800000,"y":2.7498,"equityReturn":0.94,"unitMoney":""},{"x":1562083200000,"y":2.7829,"equityReturn":1.2,"unitMoney":""},{"x":1562169600000,"y":2.7393,"equityReturn":-1.57,"unitMoney":""},{"x":1562256000000,"y":2.806,"equityReturn":2.43,"unitMoney":""},{"x":1562515200000,"y":2.7795,"equityReturn":-0.94,"unitMoney":""},{"x":1562601600000,"y":2.8329,"equityReturn":1.92,"unitMoney":""},{"x":1562688000000,"y":2.8208,"equityReturn":-0.43,"unitMoney":""},{"x":1562774400000,"y":2.8034,"equityReturn":-0.62,"unitMoney":""},{"x":1562860800000,"y":2.7496,"equityReturn":-1.92,"unitMoney":""},{"x":1563120000000,"y":2.7453,"equityReturn":-0.16,"unitMoney":""},{"x":1563206400000,"y":2.8494,"equityReturn":3.79,"unitMoney":""},{"x":1563292800000,"y":2.8221,"equityReturn":-0.96,"unitMoney":""},{"x":1563379200000,"y":2.8914,"equityReturn":2.46,"unitMoney":""},{"x":1563465600000,"y":2.9529,"equityReturn":2.13,"unitMoney":""},{"x":1563724800000,"y":2.936,"equityReturn":-0.57,"unitMoney":""},{"x":1563811200000,"y":2.9887,"equityReturn":1.79,"unitMoney":""},{"x":1563897600000,"y":3.0552,"equityReturn":2.23,"unitMoney":""},{"x":1563984000000,"y":3.0419,"equityReturn":-0.44,"unitMoney":""},{"x":1564070400000,"y":3.0177,"equityReturn":-0.8,"unitMoney":""},{"x":1564329600000,"y":3.0721,"equityReturn":1.8,"unitMoney":""},{"x":1564416000000,"y":3.0906,"equityReturn":0.6,"unitMoney":""},{"x":1564502400000,"y":3.1952,"equityReturn":3.38,"unitMoney":""},{"x":1564588800000,"y":3.2184,"equityReturn":0.73,"unitMoney":""},{"x":1564675200000,"y":3.1615,"equityReturn":-1.77,"unitMoney":""},{"x":1564934400000,"y":3.1605,"equityReturn":-0.03,"unitMoney":""},{"x":1565020800000,"y":3.103,"equityReturn":-1.82,"unitMoney":""},{"x":1565107200000,"y":3.1411,"equityReturn":1.23,"unitMoney":""},{"x":1565193600000,"y":3.1773,"equityReturn":1.15,"unitMoney":""},{"x":1565280000000,"y":3.1581,"equityReturn":-0.6,"unitMoney":""},{"x":1565539200000,"y":3.1155,"equityReturn":-1.35,"unitMoney":""},{"x":1565625600000,"y":3.1607,"equityReturn":1.45,"unitMoney":""},{"x":1565712000000,"y":3.1433,"equityReturn":-0.55,"unitMoney":""},{"x":1565798400000,"y":3.2052,"equityReturn":1.97,"unitMoney":""},{"x":1565884800000,"y":3.1571,"equityReturn":-1.5,"unitMoney":""},{"x":1566144000000,"y":3.1449,"equityReturn":-0.39,"unitMoney":""},{"x":1566230400000,"y":3.1193,"equityReturn":-0.81,"unitMoney":""},{"x":1566316800000,"y":3.0697,"equityReturn":-1.59,"unitMoney":""},{"x":1566403200000,"y":3.2026,"equityReturn":4.33,"unitMoney":""},{"x":1566489600000,"y":3.2888,"equityReturn":2.69,"unitMoney":""},{"x":1566748800000,"y":3.2578,"equityReturn":-0.94,"unitMoney":""},{"x":1566835200000,"y":3.3,"equityReturn":1.3,"unitMoney":""},{"x":1566921600000,"y":3.208,"equityReturn":-2.79,"unitMoney":""},{"x":1567008000000,"y":3.2728,"equityReturn":2.02,"unitMoney":""},{"x":1567094400000,"y":3.3303,"equityReturn":1.76,"unitMoney":""},{"x":1567353600000,"y":3.3139,"equityReturn":-0.49,"unitMoney":""},{"x":1567440000000,"y":3.297,"equityReturn":-0.51,"unitMoney":""},{"x":1567526400000,"y":3.3114,"equityReturn":0.44,"unitMoney":""},{"x":1567612800000,"y":3.3368,"equityReturn":0.77,"unitMoney":""},{"x":1567699200000,"y":3.3194,"equityReturn":-0.52,"unitMoney":""},{"x":1567958400000,"y":3.2766,"equityReturn":-1.29,"unitMoney":""},{"x":1568044800000,"y":3.2647,"equityReturn":-0.36,"unitMoney":""},{"x":1568131200000,"y":3.2443,"equityReturn":-0.62,"unitMoney":""},{"x":1568217600000,"y":3.2859,"equityReturn":1.28,"unitMoney":""},{"x":1568304000000,"y":3.2921,"equityReturn":0.19,"unitMoney":""},{"x":1568563200000,"y":3.3061,"equityReturn":0.43,"unitMoney":""},{"x":1568649600000,"y":3.2212,"equityReturn":-2.57,"unitMoney":""},{"x":1568736000000,"y":3.2034,"equityReturn":-0.55,"unitMoney":""},{"x":1568822400000,"y":3.1853,"equityReturn":-0.57,"unitMoney":""},{"x":1568908800000,"y":3.161,"equityReturn":-0.76,"unitMoney":""},{"x":1569168000000,"y":3.1569,"equityReturn":-0.13,"unitMoney":""},{"x":1569254400000,"y":3.1436,"equityReturn":-0.42,"unitMoney":""},{"x":1569340800000,"y":3.0699,"equityReturn":-2.34,"unitMoney":""},{"x":1569427200000,"y":3.1171,"equityReturn":1.54,"unitMoney":""},{"x":1569513600000,"y":3.164,"equityReturn":1.5,"unitMoney":""},{"x":1569772800000,"y":3.1402,"equityReturn":-0.75,"unitMoney":""},{"x":1569859200000,"y":3.173,"equityReturn":1.04,"unitMoney":""},{"x":1569945600000,"y":3.1283,"equityReturn":-1.41,"unitMoney":""},{"x":1570032000000,"y":3.0681,"equityReturn":-1.92,"unitMoney":""},{"x":1570118400000,"y":3.0602,"equityReturn":-0.26,"unitMoney":""},{"x":1570377600000,"y":3.137,"equityReturn":2.51,"unitMoney":""},{"x":1570464000000,"y":3.134,"equityReturn":-0.1,"unitMoney":""},{"x":1570550400000,"y":3.0606,"equityReturn":-2.34,"unitMoney":""},{"x":1570636800000,"y":3.0743,"equityReturn":0.45,"unitMoney":""},{"x":1570723200000,"y":3.0487,"equityReturn":-0.83,"unitMoney":""},{"x":1570982400000,"y":3.0165,"equityReturn":-1.06,"unitMoney":""},{"x":1571068800000,"y":3.0355,"equityReturn":0.63,"unitMoney":""},{"x":1571155200000,"y":2.9544,"equityReturn":-2.67,"unitMoney":""},{"x":1571241600000,"y":2.8732,"equityReturn":-2.75,"unitMoney":""},{"x":1571328000000,"y":2.8095,"equityReturn":-2.22,"unitMoney":""},{"x":1571587200000,"y":2.8599,"equityReturn":1.79,"unitMoney":""},{"x":1571673600000,"y":2.8668,"equityReturn":0.24,"unitMoney":""},{"x":1571760000000,"y":2.8419,"equityReturn":-0.87,"unitMoney":""},{"x":1571846400000,"y":2.8139,"equityReturn":-0.99,"unitMoney":""},{"x":1571932800000,"y":2.8458,"equityReturn":1.13,"unitMoney":""},{"x":1572192000000,"y":2.9046,"equityReturn":2.07,"unitMoney":""},{"x":1572278400000,"y":2.8742,"equityReturn":-1.05,"unitMoney":""},{"x":1572364800000,"y":2.889,"equityReturn":0.51,"unitMoney":""},{"x":1572451200000,"y":2.9995,"equityReturn":3.82,"unitMoney":""},{"x":1572537600000,"y":3.0313,"equityReturn":1.06,"unitMoney":""},{"x":1572796800000,"y":3.0188,"equityReturn":-0.41,"unitMoney":""},{"x":1572883200000,"y":3.0382,"equityReturn":0.64,"unitMoney":""},{"x":1572969600000,"y":3.0468,"equityReturn":0.28,"unitMoney":""},{"x":1573056000000,"y":3.0823,"equityReturn":1.17,"unitMoney":""},{"x":1573142400000,"y":3.103,"equityReturn":0.67,"unitMoney":""},{"x":1573401600000,"y":3.0823,"equityReturn":-0.67,"unitMoney":""},{"x":1573488000000,"y":3.0801,"equityReturn":-0.07,"unitMoney":""},{"x":1573574400000,"y":3.1019,"equityReturn":0.71,"unitMoney":""},{"x":1573660800000,"y":3.072,"equityReturn":-0.96,"unitMoney":""},{"x":1573747200000,"y":3.0791,"equityReturn":0.23,"unitMoney":""},{"x":1574006400000,"y":3.0384,"equityReturn":-1.32,"unitMoney":""},{"x":1574092800000,"y":3.1013,"equityReturn":2.07,"unitMoney":""},{"x":1574179200000,"y":3.1811,"equityReturn":2.57,"unitMoney":""},{"x":1574265600000,"y":3.1413,"equityReturn":-1.25,"unitMoney":""},{"x":1574352000000,"y":3.1872,"equityReturn":1.46,"unitMoney":""},{"x":1574611200000,"y":3.1995,"equityReturn":0.39,"unitMoney":""},{"x":1574697600000,"y":3.208,"equityReturn":0.27,"unitMoney":""},{"x":1574784000000,"y":3.1992,"equityReturn":-0.27,"unitMoney":""},{"x":1574870400000,"y":3.2166,"equityReturn":0.54,"unitMoney":""},{"x":1574956800000,"y":3.2715,"equityReturn":1.71,"unitMoney":""},{"x":1575216000000,"y":3.2124,"equityReturn":-1.81,"unitMoney":""},{"x":1575302400000,"y":3.2677,"equityReturn":1.72,"unitMoney":""},{"x":1575388800000,"y":3.2581,"equityReturn":-0.29,"unitMoney":""},{"x":1575475200000,"y":3.2059,"equityReturn":-1.6,"unitMoney":""},{"x":1575561600000,"y":3.2074,"equityReturn":0.05,"unitMoney":""},{"x":1575820800000,"y":3.2435,"equityReturn":1.13,"unitMoney":""},{"x":1575907200000,"y":3.243,"equityReturn":-0.02,"unitMoney":""},{"x":1575993600000,"y":3.2621,"equityReturn":0.59,"unitMoney":""},{"x":1576080000000,"y":3.2489,"equityReturn":-0.4,"unitMoney":""},{"x":1576166400000,"y":3.2255,"equityReturn":-0.72,"unitMoney":""},{"x":1576425600000,"y":3.2804,"equityReturn":1.7,"unitMoney":""},{"x":1576512000000,"y":3.2363,"equityReturn":-1.34,"unitMoney":""},{"x":1576598400000,"y":3.291,"equityReturn":1.69,"unitMoney":""},{"x":1576684800000,"y":3.3126,"equityReturn":0.66,"unitMoney":""},{"x":1576771200000,"y":3.3023,"equityReturn":-0.31,"unitMoney":""},{"x":1577030400000,"y":3.2948,"equityReturn":-0.23,"unitMoney":""},{"x":1577116800000,"y":3.284,"equityReturn":-0.33,"unitMoney":""},{"x":1577203200000,"y":3.2863,"equityReturn":0.07,"unitMoney":""},{"x":1577289600000,"y":3.2881,"equityReturn":0.05,"unitMoney":""},{"x":1577376000000,"y":3.285,"equityReturn":-0.09,"unitMoney":""},{"x":1577635200000,"y":3.1894,"equityReturn":-2.91,"unitMoney":""},{"x":1577721600000,"y":3.088,"equityReturn":-3.18,"unitMoney":""},{"x":1577808000000,"y":3.1085,"equityReturn":0.66,"unitMoney":""},{"x":1577894400000,"y":3.0818,"equityReturn":-0.86,"unitMoney":""},{"x":1577980800000,"y":3.0582,"equityReturn":-0.77,"unitMoney":""},{"x":1578240000000,"y":3.054,"equityReturn":-0.14,"unitMoney":""},{"x":1578326400000,"y":3.0051,"equityReturn":-1.6,"unitMoney":""},{"x":1578412800000,"y":3.0816,"equityReturn":2.55,"unitMoney":""},{"x":1578499200000,"y":3.0854,"equityReturn":0.12,"unitMoney":""},{"x":1578585600000,"y":3.081,"equityReturn":-0.14,"unitMoney":""},{"x":1578844800000,"y":3.0341,"equityReturn":-1.52,"unitMoney":""},{"x":1578931200000,"y":3.0799,"equityReturn":1.51,"unitMoney":""},{"x":1579017600000,"y":3.1186,"equityReturn":1.26,"unitMoney":""},{"x":1579104000000,"y":3.1951,"equityReturn":2.45,"unitMoney":""},{"x":1579190400000,"y":3.2439,"equityReturn":1.53,"unitMoney":""},{"x":1579449600000,"y":3.2068,"equityReturn":-1.14,"unitMoney":""},{"x":1579536000000,"y":3.1476,"equityReturn":-1.85,"unitMoney":""},{"x":1579622400000,"y":3.2188,"equityReturn":2.26,"unitMoney":""},{"x":1579708800000,"y":3.189,"equityReturn":-0.93,"unitMoney":""},{"x":1579795200000,"y":3.1878,"equityReturn":-0.04,"unitMoney":""},{"x":1580054400000,"y":3.1841,"equityReturn":-0.12,"unitMoney":""},{"x":1580140800000,"y":3.2131,"equityReturn":0.91,"unitMoney":""},{"x":1580227200000,"y":3.2448,"equityReturn":0.99,"unitMoney":""},{"x":1580313600000,"y":3.1968,"equityReturn":-1.48,"unitMoney":""},{"x":1580400000000,"y":3.169,"equityReturn":-0.87,"unitMoney":""},{"x":1580659200000,"y":3.0875,"equityReturn":-2.57,"unitMoney":""},{"x":1580745600000,"y":3.1184,"equityReturn":1.0,"unitMoney":""},{"x":1580832000000,"y":3.1147,"equityReturn":-0.12,"unitMoney":""},{"x":1580918400000,"y":3.037,"equityReturn":-2.49,"unitMoney":""},{"x":1581004800000,"y":3.09,"equityReturn":1.75,"unitMoney":""},{"x":1581264000000,"y":3.0946,"equityReturn":0.15,"unitMoney":""},{"x":1581350400000,"y":3.0501,"equityReturn":-1.44,"unitMoney":""},{"x":1581436800000,"y":3.0345,"equityReturn":-0.51,"unitMoney":""},{"x":1581523200000,"y":3.0108,"equityReturn":-0.78,"unitMoney":""},{"x":1581609600000,"y":3.0197,"equityReturn":0.3,"unitMoney":""},{"x":1581868800000,"y":3.0333,"equityReturn":0.45,"unitMoney":""},{"x":1581955200000,"y":3.0102,"equityReturn":-0.76,"unitMoney":""},{"x":1582041600000,"y":3.0342,"equityReturn":0.8,"unitMoney":""},{"x":1582128000000,"y":2.9159,"equityReturn":-3.9,"unitMoney":""},{"x":1582214400000,"y":2.9042,"equityReturn":-0.4,"unitMoney":""},{"x":1582473600000,"y":2.9373,"equityReturn":1.14,"unitMoney":""},{"x":1582560000000,"y":2.9846,"equityReturn":1.61,"unitMoney":""},{"x":1582646400000,"y":3.0257,"equityReturn":1.38,"unitMoney":""},{"x":1582732800000,"y":2.9808,"equityReturn":-1.48,"unitMoney":""},{"x":1582819200000,"y":2.9067,"equityReturn":-2.49,"unitMoney":""},{"x":1583078400000,"y":2.8952,"equityReturn":-0.4,"unitMoney":""},{"x":1583164800000,"y":3.0011,"equityReturn":3.66,"unitMoney":""},{"x":1583251200000,"y":3.0173,"equityReturn":0.54,"unitMoney":""},{"x":1583337600000,"y":2.9867,"equityReturn":-1.01,"unitMoney":""},{"x":1583424000000,"y":2.913,"equityReturn":-2.47,"unitMoney":""},{"x":1583683200000,"y":2.9232,"equityReturn":0.35,"unitMoney":""},{"x":1583769600000,"y":2.9066,"equityReturn":-0.57,"unitMoney":""},{"x":1583856000000,"y":2.9328,"equityReturn":0.9,"unitMoney":""},{"x":1583942400000,"y":2.9451,"equityReturn":0.42,"unitMoney":""},{"x":1584028800000,"y":2.8421,"equityReturn":-3.5,"unitMoney":""},{"x":1584288000000,"y":2.8402,"equityReturn":-0.07,"unitMoney":""},{"x":1584374400000,"y":2.8783,"equityReturn":1.34,"unitMoney":""},{"x":1584460800000,"y":2.8554,"equityReturn":-0.8,"unitMoney":""},{"x":1584547200000,"y":2.8061,"equityReturn":-1.73,"unitMoney":""},{"x":1584633600000,"y":2.7592,"equityReturn":-1.67,"unitMoney":""},{"x":1584892800000,"y":2.7059,"equityReturn":-1.93,"unitMoney":""},{"x":1584979200000,"y":2.8006,"equityReturn":3.5,"unitMoney":""},{"x":1585065600000,"y":2.8649,"equityReturn":2.3,"unitMoney":""},{"x":1585152000000,"y":2.8413,"equityReturn":-0.82,"unitMoney":""},{"x":1585238400000,"y":2.9048,"equityReturn":2.23,"unitMoney":""},{"x":1585497600000,"y":2.8605,"equityReturn":-1.53,"unitMoney":""},{"x":1585584000000,"y":2.8399,"equityReturn":-0.72,"unitMoney":""},{"x":1585670400000,"y":2.8104,"equityReturn":-1.04,"unitMoney":""},{"x":1585756800000,"y":2.8054,"equityReturn":-0.18,"unitMoney":""},{"x":1585843200000,"y":2.837,"equityReturn":1.13,"unitMoney":""},{"x":1586102400000,"y":2.929,"equityReturn":3.24,"unitMoney":""},{"x":1586188800000,"y":2.9655,"equityReturn":1.25,"unitMoney":""},{"x":1586275200000,"y":2.9637,"equityReturn":-0.06,"unitMoney":""},{"x":1586361600000,"y":2.9743,"equityReturn":0.36,"unitMoney":""},{"x":1586448000000,"y":2.967,"equityReturn":-0.25,"unitMoney":""},{"x":1586707200000,"y":2.9872,"equityReturn":0.68,"unitMoney":""},{"x":1586793600000,"y":2.9505,"equityReturn":-1.23,"unitMoney":""},{"x":1586880000000,"y":2.9651,"equityReturn":0.49,"unitMoney":""},{"x":1586966400000,"y":2.9892,"equityReturn":0.81,"unitMoney":""},{"x":1587052800000,"y":3.0359,"equityReturn":1.56,"unitMoney":""},{"x":1587312000000,"y":3.0005,"equityReturn":-1.17,"unitMoney":""},{"x":1587398400000,"y":3.0232,"equityReturn":0.76,"unitMoney":""},{"x":1587484800000,"y":3.0394,"equityReturn":0.54,"unitMoney":""},{"x":1587571200000,"y":3.0046,"equityReturn":-1.14,"unitMoney":""},{"x":1587657600000,"y":2.9165,"equityReturn":-2.93,"unitMoney":""},{"x":1587916800000,"y":2.8947,"equityReturn":-0.75,"unitMoney":""},{"x":1588003200000,"y":2.9365,"equityReturn":1.44,"unitMoney":""},{"x":1588089600000,"y":2.9268,"equityReturn":-0.33,"unitMoney":""},{"x":1588176000000,"y":3.0322,"equityReturn":3.6,"unitMoney":""},{"x":1588262400000,"y":3.0614,"equityReturn":0.96,"unitMoney":""},{"x":1588521600000,"y":3.0306,"equityReturn":-1.01,"unitMoney":""},{"x":1588608000000,"y":3.029,"equityReturn":-0.05,"unitMoney":""},{"x":1588694400000,"y":3.0535,"equityReturn":0.81,"unitMoney":""},{"x":1588780800000,"y":3.0791,"equityReturn":0.84,"unitMoney":""},{"x":1588867200000,"y":3.071,"equityReturn":-0.26,"unitMoney":""},{"x":1589126400000,"y":3.0956,"equityReturn":0.8,"unitMoney":""},{"x":1589212800000,"y":3.2393,"equityReturn":4.64,"unitMoney":""},{"x":1589299200000,"y":3.2881,"equityReturn":1.51,"unitMoney":""},{"x":1589385600000,"y":3.2997,"equityReturn":0.35,"unitMoney":""},{"x":1589472000000,"y":3.2791,"equityReturn":-0.62,"unitMoney":""},{"x":1589731200000,"y":3.1926,"equityReturn":-2.64,"unitMoney":""},{"x":1589817600000,"y":3.2043,"equityReturn":0.37,"unitMoney":""},{"x":1589904000000,"y":3.1874,"equityReturn":-0.53,"unitMoney":""},{"x":1589990400000,"y":3.1882,"equityReturn":0.03,"unitMoney":""},{"x":1590076800000,"y":3.1644,"equityReturn":-0.75,"unitMoney":""},{"x":1590336000000,"y":3.205,"equityReturn":1.28,"unitMoney":""},{"x":1590422400000,"y":3.2609,"equityReturn":1.74,"unitMoney":""},{"x":1590508800000,"y":3.2291,"equityReturn":-0.98,"unitMoney":""},{"x":1590595200000,"y":3.1643,"equityReturn":-2.01,"unitMoney":""},{"x":1590681600000,"y":3.1826,"equityReturn":0.58,"unitMoney":""},{"x":1590940800000,"y":3.2532,"equityReturn":2.22,"unitMoney":""},{"x":1591027200000,"y":3.2769,"equityReturn":0.73,"unitMoney":""},{"x":1591113600000,"y":3.3043,"equityReturn":0.84,"unitMoney":""},{"x":1591200000000,"y":3.2366,"equityReturn":-2.05,"unitMoney":""},{"x":1591286400000,"y":3.2123,"equityReturn":-0.75,"unitMoney":""},{"x":1591545600000,"y":3.2439,"equityReturn":0.98,"unitMoney":""},{"x":1591632000000,"y":3.2653,"equityReturn":0.66,"unitMoney":""},{"x":1591718400000,"y":3.2679,"equityReturn":0.08,"unitMoney":""},{"x":1591804800000,"y":3.2996,"equityReturn":0.97,"unitMoney":""},{"x":1591891200000,"y":3.3458,"equityReturn":1.4,"unitMoney":""},{"x":1592150400000,"y":3.3534,"equityReturn":0.23,"unitMoney":""},{"x":1592236800000,"y":3.3201,"equityReturn":-0.99,"unitMoney":""},{"x":1592323200000,"y":3.2517,"equityReturn":-2.06,"unitMoney":""},{"x":1592409600000,"y":3.265,"equityReturn":0.41,"unitMoney":""},{"x":1592496000000,"y":3.2594,"equityReturn":-0.17,"unitMoney":""},{"x":1592755200000,"y":3.2535,"equityReturn":-0.18,"unitMoney":""},{"x":1592841600000,"y":3.3116,"equityReturn":1.79,"unitMoney":""},{"x":1592928000000,"y":3.2814,"equityReturn":-0.91,"unitMoney":""},{"x":1593014400000,"y":3.2708,"equityReturn":-0.32,"unitMoney":""},{"x":1593100800000,"y":3.3064,"equityReturn":1.09,"unitMoney":""},{"x":1593360000000,"y":3.2646,"equityReturn":-1.26,"unitMoney":""},{"x":1593446400000,"y":3.1603,"equityReturn":-3.19,"unitMoney":""},{"x":1593532800000,"y":3.1367,"equityReturn":-0.75,"unitMoney":""},{"x":1593619200000,"y":3.1784,"equityReturn":1.33,"unitMoney":""},{"x":1593705600000,"y":3.152,"equityReturn":-0.83,"unitMoney":""},{"x":1593964800000,"y":3.143,"equityReturn":-0.29,"unitMoney":""},{"x":1594051200000,"y":3.0568,"equityReturn":-2.74,"unitMoney":""},{"x":1594137600000,"y":3.1151,"equityReturn":1.91,"unitMoney":""},{"x":1594224000000,"y":3.0348,"equityReturn":-2.58,"unitMoney":""},{"x":1594310400000,"y":3.0066,"equityReturn":-0.93,"unitMoney":""},{"x":1594569600000,"y":3.001,"equityReturn":-0.19,"unitMoney":""},{"x":1594656000000,"y":3.0927,"equityReturn":3.06,"unitMoney":""},{"x":1594742400000,"y":3.1007,"equityReturn":0.26,"unitMoney":""},{"x":1594828800000,"y":3.0694,"equityReturn":-1.01,"unitMoney":""},{"x":1594915200000,"y":3.0022,"equityReturn":-2.19,"unitMoney":""},{"x":1595174400000,"y":2.9906,"equityReturn":-0.39,"unitMoney":""},{"x":1595260800000,"y":2.9372,"equityReturn":-1.79,"unitMoney":""},{"x":1595347200000,"y":2.9119,"equityReturn":-0.86,"unitMoney":""},{"x":1595433600000,"y":2.9166,"equityReturn":0.16,"unitMoney":""},{"x":1595520000000,"y":2.9732,"equityReturn":1.94,"unitMoney":""},{"x":1595779200000,"y":2.9257,"equityReturn":-1.6,"unitMoney":""},{"x":1595865600000,"y":2.989,"equityReturn":2.16,"unitMoney":""},{"x":1595952000000,"y":2.9031,"equityReturn":-2.87,"unitMoney":""},{"x":1596038400000,"y":2.9913,"equityReturn":3.04,"unitMoney":""},{"x":1596124800000,"y":2.9643,"equityReturn":-0.9,"unitMoney":""},{"x":1596384000000,"y":2.95,"equityReturn":-0.48,"unitMoney":""},{"x":1596470400000,"y":2.9312,"equityReturn":-0.64,"unitMoney":""},{"x":1596556800000,"y":2.944,"equityReturn":0.44,"unitMoney":""},{"x":1596643200000,"y":2.944,"equityReturn":0.0,"unitMoney":""},{"x":1596729600000,"y":2.9317,"equityReturn":-0.42,"unitMoney":""},{"x":1596988800000,"y":2.903,"equityReturn":-0.98,"unitMoney":""},{"x":1597075200000,"y":2.8813,"equityReturn":-0.75,"unitMoney":""},{"x":1597161600000,"y":2.8863,"equityReturn":0.17,"unitMoney":""},{"x":1597248000000,"y":2.8652,"equityReturn":-0.73,"unitMoney":""},{"x":1597334400000,"y":2.8376,"equityReturn":-0.96,"unitMoney":""},{"x":1597593600000,"y":2.7777,"equityReturn":-2.11,"unitMoney":""},{"x":1597680000000,"y":2.7811,"equityReturn":0.12,"unitMoney":""},{"x":1597766400000,"y":2.8041,"equityReturn":0.83,"unitMoney":""},{"x":1597852800000,"y":2.7629,"equityReturn":-1.47,"unitMoney":""},{"x":1597939200000,"y":2.8071,"equityReturn":1.6,"unitMoney":""},{"x":1598198400000,"y":2.8078,"equityReturn":0.02,"unitMoney":""},{"x":1598284800000,"y":2.8145,"equityReturn":0.24,"unitMoney":""},{"x":1598371200000,"y":2.744,"equityReturn":-2.5,"unitMoney":""},{"x":1598457600000,"y":2.772,"equityReturn":1.02,"unitMoney":""},{"x":1598544000000,"y":2.8272,"equityReturn":1.99,"unitMoney":""},{"x":1598803200000,"y":2.9127,"equityReturn":3.02,"unitMoney":""},{"x":1598889600000,"y":2.8881,"equityReturn":-0.84,"unitMoney":""},{"x":1598976000000,"y":2.8879,"equityReturn":-0.01,"unitMoney":""},{"x":1599062400000,"y":2.9228,"equityReturn":1.21,"unitMoney":""},{"x":1599148800000,"y":2.9488,"equityReturn":0.89,"unitMoney":""},{"x":1599408000000,"y":2.9228,"equityReturn":-0.88,"unitMoney":""},{"x":1599494400000,"y":2.928,"equityReturn":0.18,"unitMoney":""},{"x":1599580800000,"y":2.9739,"equityReturn":1.57,"unitMoney":""},{"x":1599667200000,"y":3.0016,"equityReturn":0.93,"unitMoney":""},{"x":1599753600000,"y":3.0016,"equityReturn":0.0,"unitMoney":""},{"x":1600012800000,"y":3.0516,"equityReturn":1.67,"unitMoney":""},{"x":1600099200000,"y":2.9854,"equityReturn":-2.17,"unitMoney":""},{"x":1600185600000,"y":3.0076,"equityReturn":0.74,"unitMoney":""},{"x":1600272000000,"y":2.9801,"equityReturn":-0.91,"unitMoney":""},{"x":1600358400000,"y":2.9663,"equityReturn":-0.46,"unitMoney":""},{"x":1600617600000,"y":3.0051,"equityReturn":1.31,"unitMoney":""},{"x":1600704000000,"y":3.0869,"equityReturn":2.72,"unitMoney":""},{"x":1600790400000,"y":3.1107,"equityReturn":0.77,"unitMoney":""},{"x":1600876800000,"y":3.1194,"equityReturn":0.28,"unitMoney":""},{"x":1600963200000,"y":3.1999,"equityReturn":2.58,"unitMoney":""},{"x":1601222400000,"y":3.2393,"equityReturn":1.23,"unitMoney":""},{"x":1601308800000,"y":3.134,"equityReturn":-3.25,"unitMoney":""},{"x":1601395200000,"y":3.1081,"equityReturn":-0.83,"unitMoney":""},{"x":1601481600000,"y":3.0798,"equityReturn":-0.91,"unitMoney":""},{"x":1601568000000,"y":3.0513,"equityReturn":-0.93,"unitMoney":""},{"x":1601827200000,"y":2.9852,"equityReturn":-2.17,"unitMoney":""},{"x":1601913600000,"y":3.0171,"equityReturn":1.07,"unitMoney":""},{"x":1602000000000,"y":3.0279,"equityReturn":0.36,"unitMoney":""},{"x":1602086400000,"y":3.1104,"equityReturn":2.72,"unitMoney":""},{"x":1602172800000,"y":3.1002,"equityReturn":-0.33,"unitMoney":""},{"x":1602432000000,"y":3.109,"equityReturn":0.28,"unitMoney":""},{"x":1602518400000,"y":3.077,"equityReturn":-1.03,"unitMoney":""},{"x":1602604800000,"y":3.1275,"equityReturn":1.64,"unitMoney":""},{"x":1602691200000,"y":3.1904,"equityReturn":2.01,"unitMoney":""},{"x":1602777600000,"y":3.2744,"equityReturn":2.63,"unitMoney":""},{"x":1603036800000,"y":3.3283,"equityReturn":1.65,"unitMoney":""},{"x":1603123200000,"y":3.3028,"equityReturn":-0.77,"unitMoney":""},{"x":1603209600000,"y":3.3668,"equityReturn":1.94,"unitMoney":""},{"x":1603296000000,"y":3.3245,"equityReturn":-1.26,"unitMoney":""},{"x":1603382400000,"y":3.2974,"equityReturn":-0.82,"unitMoney":""},{"x":1603641600000,"y":3.2919,"equityReturn":-0.17,"unitMoney":""},{"x":1603728000000,"y":3.3992,"equityReturn":3.26,"unitMoney":""},{"x":1603814400000,"y":3.3671,"equityReturn":-0.94,"unitMoney":""},{"x":1603900800000,"y":3.3209,"equityReturn":-1.37,"unitMoney":""},{"x":1603987200000,"y":3.3369,"equityReturn":0.48,"unitMoney":""},{"x":1604246400000,"y":3.4004,"equityReturn":1.9,"unitMoney":""},{"x":1604332800000,"y":3.4334,"equityReturn":0.97,"unitMoney":""},{"x":1604419200000,"y":3.4661,"equityReturn":0.95,"unitMoney":""},{"x":1604505600000,"y":3.4267,"equityReturn":-1.14,"unitMoney":""},{"x":1604592000000,"y":3.411,"equityReturn":-0.46,"unitMoney":""},{"x":1604851200000,"y":3.4808,"equityReturn":2.05,"unitMoney":""},{"x":1604937600000,"y":3.4907,"equityReturn":0.28,"unitMoney":""},{"x":1605024000000,"y":3.4614,"equityReturn":-0.84,"unitMoney":""},{"x":1605110400000,"y":3.4477,"equityReturn":-0.4,"unitMoney":""},{"x":1605196800000,"y":3.5217,"equityReturn":2.15,"unitMoney":""},{"x":1605456000000,"y":3.6172,"equityReturn":2.71,"unitMoney":""},{"x":1605542400000,"y":3.6443,"equityReturn":0.75,"unitMoney":""},{"x":1605628800000,"y":3.6044,"equityReturn":-1.09,"unitMoney":""},{"x":1605715200000,"y":3.6995,"equityReturn":2.64,"unitMoney":""},{"x":1605801600000,"y":3.6689,"equityReturn":-0.83,"unitMoney":""},{"x":1606060800000,"y":3.6796,"equityReturn":0.29,"unitMoney":""},{"x":1606147200000,"y":3.708,"equityReturn":0.77,"unitMoney":""},{"x":1606233600000,"y":3.7128,"equityReturn":0.13,"unitMoney":""},{"x":1606320000000,"y":3.7082,"equityReturn":-0.12,"unitMoney":""},{"x":1606406400000,"y":3.8031,"equityReturn":2.56,"unitMoney":""},{"x":1606665600000,"y":3.8266,"equityReturn":0.62,"unitMoney":""},{"x":1606752000000,"y":3.7502,"equityReturn":-2.0,"unitMoney":""},{"x":1606838400000,"y":3.7225,"equityReturn":-0.74,"unitMoney":""},{"x":1606924800000,"y":3.8012,"equityReturn":2.11,"unitMoney":""},{"x":1607011200000,"y":3.7967,"equityReturn":-0.12,"unitMoney":""},{"x":1607270400000,"y":3.7441,"equityReturn":-1.39,"unitMoney":""},{"x":1607356800000,"y":3.8006,"equityReturn":1.51,"unitMoney":""},{"x":1607443200000,"y":3.8336,"equityReturn":0.87,"unitMoney":""},{"x":1607529600000,"y":3.8416,"equityReturn":0.21,"unitMoney":""},{"x":1607616000000,"y":3.8799,"equityReturn":1.0,"unitMoney":""},{"x":1607875200000,"y":3.8637,"equityReturn":-0.42,"unitMoney":""},{"x":1607961600000,"y":3.8797,"equityReturn":0.41,"unitMoney":""},{"x":1608048000000,"y":3.9191,"equityReturn":1.02,"unitMoney":""},{"x":1608134400000,"y":3.8921,"equityReturn":-0.69,"unitMoney":""},{"x":1608220800000,"y":3.9704,"equityReturn":2.01,"unitMoney":""},{"x":1608480000000,"y":3.914,"equityReturn":-1.42,"unitMoney":""},{"x":1608566400000,"y":4.041,"equityReturn":3.24,"unitMoney":""},{"x":1608652800000,"y":4.0514,"equityReturn":0.26,"unitMoney":""},{"x":1608739200000,"y":4.0801,"equityReturn":0.71,"unitMoney":""},{"x":1608825600000,"y":4.0122,"equityReturn":-1.66,"unitMoney":""},{"x":1609084800000,"y":4.0651,"equityReturn":1.32,"unitMoney":""},{"x":1609171200000,"y":4.0205,"equityReturn":-1.1,"unitMoney":""},{"x":1609257600000,"y":4.056,"equityReturn":0.88,"unitMoney":""},{"x":1609344000000,"y":4.0631,"equityReturn":0.18,"unitMoney":""},{"x":1609430400000,"y":4.02,"equityReturn":-1.06,"unitMoney":""},{"x":1609689600000,"y":4.1322,"equityReturn":2.79,"unitMoney":""},{"x":1609776000000,"y":4.1488,"equityReturn":0.4,"unitMoney":""},{"x":1609862400000,"y":4.123,"equityReturn":-0.62,"unitMoney":""},{"x":1609948800000,"y":4.107,"equityReturn":-0.39,"unitMoney":""},{"x":1610035200000,"y":4.1329,"equityReturn":0.63,"unitMoney":""},{"x":1610294400000,"y":4.1424,"equityReturn":0.23,"unitMoney":""},{"x":1610380800000,"y":4.2014,"equityReturn":1.42,"unitMoney":""},{"x":1610467200000,"y":4.1722,"equityReturn":-0.7,"unitMoney":""},{"x":1610553600000,"y":4.1922,"equityReturn":0.48,"unitMoney":""},{"x":1610640000000,"y":4.1682,"equityReturn":-0.57,"unitMoney":""},{"x":1610899200000,"y":4.1309,"equityReturn":-0.89,"unitMoney":""},{"x":1610985600000,"y":4.1873,"equityReturn":1.37,"unitMoney":""},{"x":1611072000000,"y":4.1431,"equityReturn":-1.06,"unitMoney":""},{"x":1611158400000,"y":4.0491,"equityReturn":-2.27,"unitMoney":""},{"x":1611244800000,"y":4.095,"equityReturn":1.13,"unitMoney":""},{"x":1611504000000,"y":4.07,"equityReturn":-0.61,"unitMoney":""},{"x":1611590400000,"y":4.1106,"equityReturn":1.0,"unitMoney":""},{"x":1611676800000,"y":4.1492,"equityReturn":0.94,"unitMoney":""},{"x":1611763200000,"y":4.1871,"equityReturn":0.91,"unitMoney":""},{"x":1611849600000,"y":4.1987,"equityReturn":0.28,"unitMoney":""},{"x":1612108800000,"y":4.3025,"equityReturn":2.47,"unitMoney":""},{"x":1612195200000,"y":4.2423,"equityReturn":-1.4,"unitMoney":""},{"x":1612281600000,"y":4.3228,"equityReturn":1.9,"unitMoney":""},{"x":1612368000000,"y":4.3206,"equityReturn":-0.05,"unitMoney":""},{"x":1612454400000,"y":4.3467,"equityReturn":0.6,"unitMoney":""},{"x":1612713600000,"y":4.3264,"equityReturn":-0.47,"unitMoney":""},{"x":1612800000000,"y":4.3891,"equityReturn":1.45,"unitMoney":""},{"x":1612886400000,"y":4.428,"equityReturn":0.89,"unitMoney":""},{"x":1612972800000,"y":4.406,"equityReturn":-0.5,"unitMoney":""},{"x":1613059200000,"y":4.417,"equityReturn":0.25,"unitMoney":""},{"x":1613318400000,"y":4.4562,"equityReturn":0.89,"unitMoney":""},{"x":1613404800000,"y":4.4545,"equityReturn":-0.04,"unitMoney":""},{"x":1613491200000,"y":4.6261,"equityReturn":3.85,"unitMoney":""},{"x":1613577600000,"y":4.6733,"equityReturn":1.02,"unitMoney":""},{"x":1613664000000,"y":4.6542,"equityReturn":-0.41,"unitMoney":""},{"x":1613923200000,"y":4.7328,"equityReturn":1.69,"unitMoney":""},{"x":1614009600000,"y":4.7599,"equityReturn":0.57,"unitMoney":""},{"x":1614096000000,"y":4.7319,"equityReturn":-0.59,"unitMoney":""},{"x":1614182400000,"y":4.7163,"equityReturn":-0.33,"unitMoney":""},{"x":1614268800000,"y":4.6128,"equityReturn":-2.19,"unitMoney":""},{"x":1614528000000,"y":4.6729,"equityReturn":1.3,"unitMoney":""},{"x":1614614400000,"y":4.7863,"equityReturn":2.43,"unitMoney":""},{"x":1614700800000,"y":4.7892,"equityReturn":0.06,"unitMoney":""},{"x":1614787200000,"y":4.7409,"equityReturn":-1.01,"unitMoney":""},{"x":1614873600000,"y":4.6282,"equityReturn":-2.38,"unitMoney":""},{"x":1615132800000,"y":4.5528,"equityReturn":-1.63,"unitMoney":""},{"x":1615219200000,"y":4.5609,"equityReturn":0.18,"unitMoney":""},{"x":1615305600000,"y":4.5259,"equityReturn":-0.77,"unitMoney":""},{"x":1615392000000,"y":4.5235,"equityReturn":-0.05,"unitMoney":""},{"x":1615478400000,"y":4.4753,"equityReturn":-1.07,"unitMoney":""},{"x":1615737600000,"y":4.4727,"equityReturn":-0.06,"unitMoney":""},{"x":1615824000000,"y":4.4657,"equityReturn":-0.16,"unitMoney":""},{"x":1615910400000,"y":4.4858,"equityReturn":0.45,"unitMoney":""},{"x":1615996800000,"y":4.4999,"equityReturn":0.31,"unitMoney":""},{"x":1616083200000,"y":4.5208,"equityReturn":0.46,"unitMoney":""},{"x":1616342400000,"y":4.4745,"equityReturn":-1.02,"unitMoney":""},{"x":1616428800000,"y":4.4637,"equityReturn":-0.24,"unitMoney":""},{"x":1616515200000,"y":4.3911,"equityReturn":-1.63,"unitMoney":""},{"x":1616601600000,"y":4.3661,"equityReturn":-0.57,"unitMoney":""},{"x":1616688000000,"y":4.3715,"equityReturn":0.12,"unitMoney":""},{"x":1616947200000,"y":4.4073,"equityReturn":0.82,"unitMoney":""},{"x":1617033600000,"y":4.3272,"equityReturn":-1.82,"unitMoney":""},{"x":1617120000000,"y":4.2736,"equityReturn":-1.24,"unitMoney":""},{"x":1617206400000,"y":4.2474,"equityReturn":-0.61,"unitMoney":""},{"x":1617292800000,"y":4.1785,"equityReturn":-1.62,"unitMoney":""},{"x":1617552000000,"y":4.1679,"equityReturn":-0.25,"unitMoney":""},{"x":1617638400000,"y":4.1629,"equityReturn":-0.12,"unitMoney":""},{"x":1617724800000,"y":4.1257,"equityReturn":-0.89,"unitMoney":""},{"x":1617811200000,"y":4.2316,"equityReturn":2.57,"unitMoney":""},{"x":1617897600000,"y":4.2119,"equityReturn":-0.47,"unitMoney":""},{"x":1618156800000,"y":4.2343,"equityReturn":0.53,"unitMoney":""},{"x":1618243200000,"y":4.1302,"equityReturn":-2.46,"unitMoney":""},{"x":1618329600000,"y":4.1878,"equityReturn":1.39,"unitMoney":""},{"x":1618416000000,"y":4.2144,"equityReturn":0.64,"unitMoney":""},{"x":1618502400000,"y":4.2339,"equityReturn":0.46,"unitMoney":""},{"x":1618761600000,"y":4.1067,"equityReturn":-3.0,"unitMoney":""},{"x":1618848000000,"y":4.1097,"equityReturn":0.07,"unitMoney":""},{"x":1618934400000,"y":4.0754,"equityReturn":-0.83,"unitMoney":""},{"x":1619020800000,"y":4.1064,"equityReturn":0.76,"unitMoney":""},{"x":1619107200000,"y":4.1111,"equityReturn":0.11,"unitMoney":""},{"x":1619366400000,"y":4.0855,"equityReturn":-0.62,"unitMoney":""},{"x":1619452800000,"y":4.0638,"equityReturn":-0.53,"unitMoney":""},{"x":1619539200000,"y":4.1444,"equityReturn":1.98,"unitMoney":""},{"x":1619625600000,"y":4.2183,"equityReturn":1.78,"unitMoney":""},{"x":1619712000000,"y":4.118,"equityReturn":-2.38,"unitMoney":""},{"x":1619971200000,"y":4.0974,"equityReturn":-0.5,"unitMoney":""},{"x":1620057600000,"y":4.142,"equityReturn":1.09,"unitMoney":""},{"x":1620144000000,"y":4.123,"equityReturn":-0.46,"unitMoney":""},{"x":1620230400000,"y":4.1485,"equityReturn":0.62,"unitMoney":""},{"x":1620316800000,"y":4.1351,"equityReturn":-0.32,"unitMoney":""},{"x":1620576000000,"y":4.2415,"equityReturn":2.57,"unitMoney":""},{"x":1620662400000,"y":4.2933,"equityReturn":1.22,"unitMoney":""},{"x":1620748800000,"y":4.2882,"equityReturn":-0.12,"unitMoney":""},{"x":1620835200000,"y":4.3847,"equityReturn":2.25,"unitMoney":""},{"x":1620921600000,"y":4.4339,"equityReturn":1.12,"unitMoney":""},{"x":1621180800000,"y":4.5512,"equityReturn":2.65,"unitMoney":""},{"x":1621267200000,"y":4.5274,"equityReturn":-0.52,"unitMoney":""},{"x":1621353600000,"y":4.4336,"equityReturn":-2.07,"unitMoney":""},{"x":1621440000000,"y":4.4926,"equityReturn":1.33,"unitMoney":""},{"x":1621526400000,"y":4.5018,"equityReturn":0.2,"unitMoney":""},{"x":1621785600000,"y":4.3923,"equityReturn":-2.43,"unitMoney":""},{"x":1621872000000,"y":4.1501,"equityReturn":-5.51,"unitMoney":""},{"x":1621958400000,"y":4.1622,"equityReturn":0.29,"unitMoney":""},{"x":1622044800000,"y":4.1726,"equityReturn":0.25,"unitMoney":""},{"x":1622131200000,"y":4.1293,"equityReturn":-1.04,"unitMoney":""},{"x":1622390400000,"y":4.1067,"equityReturn":-0.55,"unitMoney":""},{"x":1622476800000,"y":4.1196,"equityReturn":0.31,"unitMoney":""},{"x":1622563200000,"y":4.0408,"equityReturn":-1.91,"unitMoney":""},{"x":1622649600000,"y":4.1216,"equityReturn":2.0,"unitMoney":""},{"x":1622736000000,"y":4.0482,"equityReturn":-1.78,"unitMoney":""},{"x":1622995200000,"y":4.0562,"equityReturn":0.2,"unitMoney":""},{"x":1623081600000,"y":4.0625,"equityReturn":0.16,"unitMoney":""},{"x":1623168000000,"y":4.0386,"equityReturn":-0.59,"unitMoney":""},{"x":1623254400000,"y":3.998,"equityReturn":-1.01,"unitMoney":""},{"x":1623340800000,"y":4.0544,"equityReturn":1.41,"unitMoney":""},{"x":1623600000000,"y":3.9636,"equityReturn":-2.24,"unitMoney":""},{"x":1623686400000,"y":3.9687,"equityReturn":0.13,"unitMoney":""},{"x":1623772800000,"y":4.0691,"equityReturn":2.53,"unitMoney":""},{"x":1623859200000,"y":4.0283,"equityReturn":-1.0,"unitMoney":""},{"x":1623945600000,"y":3.942,"equityReturn":-2.14,"unitMoney":""},{"x":1624204800000,"y":3.9182,"equityReturn":-0.6,"unitMoney":""},{"x":1624291200000,"y":3.7527,"equityReturn":-4.22,"unitMoney":""},{"x":1624377600000,"y":3.7147,"equityReturn":-1.01,"unitMoney":""},{"x":1624464000000,"y":3.6547,"equityReturn":-1.62,"unitMoney":""},{"x":1624550400000,"y":3.6142,"equityReturn":-1.11,"unitMoney":""},{"x":1624809600000,"y":3.5708,"equityReturn":-1.2,"unitMoney":""},{"x":1624896000000,"y":3.6062,"equityReturn":0.99,"unitMoney":""},{"x":1624982400000,"y":3.6123,"equityReturn":0.17,"unitMoney":""},{"x":1625068800000,"y":3.5616,"equityReturn":-1.4,"unitMoney":""},{"x":1625155200000,"y":3.6339,"equityReturn":2.03,"unitMoney":""},{"x":1625414400000,"y":3.5854,"equityReturn":-1.33,"unitMoney":""},{"x":1625500800000,"y":3.6677,"equityReturn":2.3,"unitMoney":""},{"x":1625587200000,"y":3.6452,"equityReturn":-0.61,"unitMoney":""},{"x":1625673600000,"y":3.5994,"equityReturn":-1.26,"unitMoney":""},{"x":1625760000000,"y":3.5788,"equityReturn":-0.57,"unitMoney":""},{"x":1626019200000,"y":3.6588,"equityReturn":2.24,"unitMoney":""},{"x":1626105600000,"y":3.6694,"equityReturn":0.29,"unitMoney":""},{"x":1626192000000,"y":3.6716,"equityReturn":0.06,"unitMoney":""},{"x":1626278400000,"y":3.5848,"equityReturn":-2.36,"unitMoney":""},{"x":1626364800000,"y":3.587,"equityReturn":0.06,"unitMoney":""},{"x":1626624000000,"y":3.574,"equityReturn":-0.36,"unitMoney":""},{"x":1626710400000,"y":3.5579,"equityReturn":-0.45,"unitMoney":""},{"x":1626796800000,"y":3.5198,"equityReturn":-1.07,"unitMoney":""},{"x":1626883200000,"y":3.4398,"equityReturn":-2.27,"unitMoney":""},{"x":1626969600000,"y":3.5082,"equityReturn":1.99,"unitMoney":""},{"x":1627228800000,"y":3.4608,"equityReturn":-1.35,"unitMoney":""},{"x":1627315200000,"y":3.4949,"equityReturn":0.99,"unitMoney":""},{"x":1627401600000,"y":3.5278,"equityReturn":0.94,"unitMoney":""},{"x":1627488000000,"y":3.5397,"equityReturn":0.34,"unitMoney":""},{"x":1627574400000,"y":3.5503,"equityReturn":0.3,"unitMoney":""},{"x":1627833600000,"y":3.5876,"equityReturn":1.05,"unitMoney":""},{"x":1627920000000,"y":3.5724,"equityReturn":-0.42,"unitMoney":""},{"x":1628006400000,"y":3.5715,"equityReturn":-0.03,"unitMoney":""},{"x":1628092800000,"y":3.5922,"equityReturn":0.58,"unitMoney":""},{"x":1628179200000,"y":3.6058,"equityReturn":0.38,"unitMoney":""},{"x":1628438400000,"y":3.5924,"equityReturn":-0.37,"unitMoney":""},{"x":1628524800000,"y":3.4516,"equityReturn":-3.92,"unitMoney":""},{"x":1628611200000,"y":3.453,"equityReturn":0.04,"unitMoney":""},{"x":1628697600000,"y":3.3921,"equityReturn":-1.76,"unitMoney":""},{"x":1628784000000,"y":3.4542,"equityReturn":1.83,"unitMoney":""},{"x":1629043200000,"y":3.5219,"equityReturn":1.96,"unitMoney":""},{"x":1629129600000,"y":3.5378,"equityReturn":0.45,"unitMoney":""},{"x":1629216000000,"y":3.5546,"equityReturn":0.47,"unitMoney":""},{"x":1629302400000,"y":3.4501,"equityReturn":-2.94,"unitMoney":""},{"x":1629388800000,"y":3.4441,"equityReturn":-0.17,"unitMoney":""},{"x":1629648000000,"y":3.4071,"equityReturn":-1.07,"unitMoney":""},{"x":1629734400000,"y":3.5031,"equityReturn":2.82,"unitMoney":""},{"x":1629820800000,"y":3.437,"equityReturn":-1.89,"unitMoney":""},{"x":1629907200000,"y":3.5552,"equityReturn":3.44,"unitMoney":""},{"x":1629993600000,"y":3.549,"equityReturn":-0.17,"unitMoney":""},{"x":1630252800000,"y":3.4442,"equityReturn":-2.95,"unitMoney":""},{"x":1630339200000,"y":3.5403,"equityReturn":2.79,"unitMoney":""},{"x":1630425600000,"y":3.5322,"equityReturn":-0.23,"unitMoney":""},{"x":1630512000000,"y":3.5548,"equityReturn":0.64,"unitMoney":""},{"x":1630598400000,"y":3.6168,"equityReturn":1.74,"unitMoney":""},{"x":1630857600000,"y":3.5348,"equityReturn":-2.27,"unitMoney":""},{"x":1630944000000,"y":3.5127,"equityReturn":-0.63,"unitMoney":""},{"x":1631030400000,"y":3.5229,"equityReturn":0.29,"unitMoney":""},{"x":1631116800000,"y":3.593,"equityReturn":1.99,"unitMoney":""},{"x":1631203200000,"y":3.5871,"equityReturn":-0.16,"unitMoney":""},{"x":1631462400000,"y":3.6221,"equityReturn":0.98,"unitMoney":""},{"x":1631548800000,"y":3.5304,"equityReturn":-2.53,"unitMoney":""},{"x":1631635200000,"y":3.5616,"equityReturn":0.88,"unitMoney":""},{"x":1631721600000,"y":3.5158,"equityReturn":-1.29,"unitMoney":""},{"x":1631808000000,"y":3.5008,"equityReturn":-0.43,"unitMoney":""},{"x":1632067200000,"y":3.5097,"equityReturn":0.25,"unitMoney":""},{"x":1632153600000,"y":3.5602,"equityReturn":1.44,"unitMoney":""},{"x":1632240000000,"y":3.5274,"equityReturn":-0.92,"unitMoney":""},{"x":1632326400000,"y":3.5538,"equityReturn":0.75,"unitMoney":""},{"x":1632412800000,"y":3.5409,"equityReturn":-0.36,"unitMoney":""},{"x":1632672000000,"y":3.5777,"equityReturn":1.04,"unitMoney":""},{"x":1632758400000,"y":3.5572,"equityReturn":-0.57,"unitMoney":""},{"x":1632844800000,"y":3.6354,"equityReturn":2.2,"unitMoney":""},{"x":1632931200000,"y":3.5827,"equityReturn":-1.45,"unitMoney":""},{"x":1633017600000,"y":3.5308,"equityReturn":-1.45,"unitMoney":""},{"x":1633276800000,"y":3.6018,"equityReturn":2.01,"unitMoney":""},{"x":1633363200000,"y":3.5664,"equityReturn":-0.98,"unitMoney":""},{"x":1633449600000,"y":3.6051,"equityReturn":1.09,"unitMoney":""},{"x":1633536000000,"y":3.6466,"equityReturn":1.15,"unitMoney":""},{"x":1633622400000,"y":3.5585,"equityReturn":-2.42,"unitMoney":""},{"x":1633881600000,"y":3.5466,"equityReturn":-0.33,"unitMoney":""},{"x":1633968000000,"y":3.5249,"equityReturn":-0.61,"unitMoney":""},{"x":1634054400000,"y":3.5219,"equityReturn":-0.09,"unitMoney":""},{"x":1634140800000,"y":3.4471,"equityReturn":-2.12,"unitMoney":""},{"x":1634227200000,"y":3.4598,"equityReturn":0.37,"unitMoney":""},{"x":1634486400000,"y":3.4736,"equityReturn":0.4,"unitMoney":""},{"x":1634572800000,"y":3.4198,"equityReturn":-1.55,"unitMoney":""},{"x":1634659200000,"y":3.4242,"equityReturn":0.13,"unitMoney":""},{"x":1634745600000,"y":3.4387,"equityReturn":0.42,"unitMoney":""},{"x":1634832000000,"y":3.3542,"equityReturn":-2.46,"unitMoney":""},{"x":1635091200000,"y":3.3539,"equityReturn":-0.01,"unitMoney":""},{"x":1635177600000,"y":3.4023,"equityReturn":1.44,"unitMoney":""},{"x":1635264000000,"y":3.4434,"equityReturn":1.21,"unitMoney":""},{"x":1635350400000,"y":3.3904,"equityReturn":-1.54,"unitMoney":""},{"x":1635436800000,"y":3.3545,"equityReturn":-1.06,"unitMoney":""},{"x":1635696000000,"y":3.3584,"equityReturn":0.12,"unitMoney":""},{"x":1635782400000,"y":3.3818,"equityReturn":0.7,"unitMoney":""},{"x":1635868800000,"y":3.426,"equityReturn":1.31,"unitMoney":""},{"x":1635955200000,"y":3.4333,"equityReturn":0.21,"unitMoney":""},{"x":1636041600000,"y":3.4775,"equityReturn":1.29,"unitMoney":""},{"x":1636300800000,"y":3.446,"equityReturn":-0.91,"unitMoney":""},{"x":1636387200000,"y":3.5435,"equityReturn":2.83,"unitMoney":""},{"x":1636473600000,"y":3.5368,"equityReturn":-0.19,"unitMoney":""},{"x":1636560000000,"y":3.4888,"equityReturn":-1.36,"unitMoney":""},{"x":1636646400000,"y":3.4619,"equityReturn":-0.77,"unitMoney":""},{"x":1636905600000,"y":3.3714,"equityReturn":-2.61,"unitMoney":""},{"x":1636992000000,"y":3.3358,"equityReturn":-1.06,"unitMoney":""},{"x":1637078400000,"y":3.3224,"equityReturn":-0.4,"unitMoney":""},{"x":1637164800000,"y":3.3488,"equityReturn":0.79,"unitMoney":""},{"x":1637251200000,"y":3.4072,"equityReturn":1.74,"unitMoney":""},{"x":1637510400000,"y":3.3656,"equityReturn":-1.22,"unitMoney":""},{"x":1637596800000,"y":3.3303,"equityReturn":-1.05,"unitMoney":""},{"x":1637683200000,"y":3.3667,"equityReturn":1.09,"unitMoney":""},{"x":1637769600000,"y":3.4206,"equityReturn":1.6,"unitMoney":""},{"x":1637856000000,"y":3.4614,"equityReturn":1.19,"unitMoney":""},{"x":1638115200000,"y":3.4765,"equityReturn":0.44,"unitMoney":""},{"x":1638201600000,"y":3.4182,"equityReturn":-1.68,"unitMoney":""},{"x":1638288000000,"y":3.3923,"equityReturn":-0.76,"unitMoney":""},{"x":1638374400000,"y":3.3148,"equityReturn":-2.28,"unitMoney":""},{"x":1638460800000,"y":3.2816,"equityReturn":-1.0,"unitMoney":""},{"x":1638720000000,"y":3.3442,"equityReturn":1.91,"unitMoney":""},{"x":1638806400000,"y":3.4239,"equityReturn":2.38,"unitMoney":""},{"x":1638892800000,"y":3.4111,"equityReturn":-0.37,"unitMoney":""},{"x":1638979200000,"y":3.4432,"equityReturn":0.94,"unitMoney":""},{"x":1639065600000,"y":3.5141,"equityReturn":2.06,"unitMoney":""},{"x":1639324800000,"y":3.4595,"equityReturn":-1.55,"unitMoney":""},{"x":1639411200000,"y":3.3901,"equityReturn":-2.01,"unitMoney":""},{"x":1639497600000,"y":3.3581,"equityReturn":-0.94,"unitMoney":""},{"x":1639584000000,"y":3.2533,"equityReturn":-3.12,"unitMoney":""},{"x":1639670400000,"y":3.2877,"equityReturn":1.06,"unitMoney":""},{"x":1639929600000,"y":3.284,"equityReturn":-0.11,"unitMoney":""},{"x":1640016000000,"y":3.2704,"equityReturn":-0.41,"unitMoney":""},{"x":1640102400000,"y":3.2736,"equityReturn":0.1,"unitMoney":""},{"x":1640188800000,"y":3.2981,"equityReturn":0.75,"unitMoney":""},{"x":1640275200000,"y":3.2974,"equityReturn":-0.02,"unitMoney":""},{"x":1640534400000,"y":3.2375,"equityReturn":-1.82,"unitMoney":""},{"x":1640620800000,"y":3.2688,"equityReturn":0.97,"unitMoney":""},{"x":1640707200000,"y":3.2429,"equityReturn":-0.79,"unitMoney":""},{"x":1640793600000,"y":3.2571,"equityReturn":0.44,"unitMoney":""},{"x":1640880000000,"y":3.2237,"equityReturn":-1.03,"unitMoney":""},{"x":1641139200000,"y":3.2244,"equityReturn":0.02,"unitMoney":""},{"x":1641225600000,"y":3.1492,"equityReturn":-2.33,"unitMoney":""},{"x":1641312000000,"y":3.1552,"equityReturn":0.19,"unitMoney":""},{"x":1641398400000,"y":3.1408,"equityReturn":-0.46,"unitMoney":""},{"x":1641484800000,"y":3.1909,"equityReturn":1.6,"unitMoney":""},{"x":1641744000000,"y":3.1523,"equityReturn":-1.21,"unitMoney":""},{"x":1641830400000,"y":3.1107,"equityReturn":-1.32,"unitMoney":""},{"x":1641916800000,"y":3.1428,"equityReturn":1.03,"unitMoney":""},{"x":1642003200000,"y":3.0498,"equityReturn":-2.96,"unitMoney":""},{"x":1642089600000,"y":3.0779,"equityReturn":0.92,"unitMoney":""},{"x":1642348800000,"y":3.0734,"equityReturn":-0.15,"unitMoney":""},{"x":1642435200000,"y":3.0516,"equityReturn":-0.71,"unitMoney":""},{"x":1642521600000,"y":3.0554,"equityReturn":0.12,"unitMoney":""},{"x":1642608000000,"y":3.0419,"equityReturn":-0.44,"unitMoney":""},{"x":1642694400000,"y":2.9997,"equityReturn":-1.39,"unitMoney":""},{"x":1642953600000,"y":3.0312,"equityReturn":1.05,"unitMoney":""},{"x":1643040000000,"y":2.99,"equityReturn":-1.36,"unitMoney":""},{"x":1643126400000,"y":2.9946,"equityReturn":0.15,"unitMoney":""},{"x":1643212800000,"y":2.985,"equityReturn":-0.32,"unitMoney":""},{"x":1643299200000,"y":2.9512,"equityReturn":-1.13,"unitMoney":""},{"x":1643558400000,"y":2.9225,"equityReturn":-0.97,"unitMoney":""},{"x":1643644800000,"y":2.9339,"equityReturn":0.39,"unitMoney":""},{"x":1643731200000,"y":2.9172,"equityReturn":-0.57,"unitMoney":""},{"x":1643817600000,"y":2.975,"equityReturn":1.98,"unitMoney":""},{"x":1643904000000,"y":3.0123,"equityReturn":1.25,"unitMoney":""},{"x":1644163200000,"y":2.9912,"equityReturn":-0.7,"unitMoney":""},{"x":1644249600000,"y":3.0349,"equityReturn":1.46,"unitMoney":""},{"x":1644336000000,"y":2.9271,"equityReturn":-3.55,"unitMoney":""},{"x":1644422400000,"y":3.0006,"equityReturn":2.51,"unitMoney":""},{"x":1644508800000,"y":2.9412,"equityReturn":-1.98,"unitMoney":""},{"x":1644768000000,"y":2.8838,"equityReturn":-1.95,"unitMoney":""},{"x":1644854400000,"y":2.9304,"equityReturn":1.62,"unitMoney":""},{"x":1644940800000,"y":2.858,"equityReturn":-2.47,"unitMoney":""},{"x":1645027200000,"y":2.8256,"equityReturn":-1.13,"unitMoney":""},{"x":1645113600000,"y":2.8381,"equityReturn":0.44,"unitMoney":""},{"x":1645372800000,"y":2.7494,"equityReturn":-3.13,"unitMoney":""},{"x":1645459200000,"y":2.7422,"equityReturn":-0.26,"unitMoney":""},{"x":1645545600000,"y":2.7782,"equityReturn":1.31,"unitMoney":""},{"x":1645632000000,"y":2.7475,"equityReturn":-1.11,"unitMoney":""},{"x":1645718400000,"y":2.8068,"equityReturn":2.16,"unitMoney":""},{"x":1645977600000,"y":2.7685,"equityReturn":-1.36,"unitMoney":""},{"x":1646064000000,"y":2.8266,"equityReturn":2.1,"unitMoney":""},{"x":1646150400000,"y":2.8428,"equityReturn":0.57,"unitMoney":""},{"x":1646236800000,"y":2.8474,"equityReturn":0.16,"unitMoney":""},{"x":1646323200000,"y":2.8362,"equityReturn":-0.39,"unitMoney":""},{"x":1646582400000,"y":2.7934,"equityReturn":-1.51,"unitMoney":""},{"x":1646668800000,"y":2.8365,"equityReturn":1.54,"unitMoney":""},{"x":1646755200000,"y":2.7854,"equityReturn":-1.8,"unitMoney":""},{"x":1646841600000,"y":2.7842,"equityReturn":-0.04,"unitMoney":""},{"x":1646928000000,"y":2.8128,"equityReturn":1.03,"unitMoney":""},{"x":1647187200000,"y":2.8315,"equityReturn":0.66,"unitMoney":""},{"x":1647273600000,"y":2.8594,"equityReturn":0.99,"unitMoney":""},{"x":1647360000000,"y":2.8313,"equityReturn":-0.98,"unitMoney":""},{"x":1647446400000,"y":2.7762,"equityReturn":-1.95,"unitMoney":""},{"x":1647532800000,"y":2.7846,"equityReturn":0.3,"unitMoney":""},{"x":1647792000000,"y":2.7769,"equityReturn":-0.28,"unitMoney":""},{"x":1647878400000,"y":2.8202,"equityReturn":1.56,"unitMoney":""},{"x":1647964800000,"y":2.7361,"equityReturn":-2.98,"unitMoney":""},{"x":1648051200000,"y":2.7343,"equityReturn":-0.07,"unitMoney":""},{"x":1648137600000,"y":2.7494,"equityReturn":0.55,"unitMoney":""},{"x":1648396800000,"y":2.729,"equityReturn":-0.74,"unitMoney":""},{"x":1648483200000,"y":2.6618,"equityReturn":-2.46,"unitMoney":""},{"x":1648569600000,"y":2.6615,"equityReturn":-0.01,"unitMoney":""},{"x":1648656000000,"y":2.7017,"equityReturn":1.51,"unitMoney":""},{"x":1648742400000,"y":2.6726,"equityReturn":-1.08,"unitMoney":""},{"x":1649001600000,"y":2.6345,"equityReturn":-1.43,"unitMoney":""},{"x":1649088000000,"y":2.5937,"equityReturn":-1.55,"unitMoney":""},{"x":1649174400000,"y":2.554,"equityReturn":-1.53,"unitMoney":""},{"x":1649260800000,"y":2.4846,"equityReturn":-2.72,"unitMoney":""},{"x":1649347200000,"y":2.6,"equityReturn":4.64,"unitMoney":""},{"x":1649606400000,"y":2.5901,"equityReturn":-0.38,"unitMoney":""},{"x":1649692800000,"y":2.6349,"equityReturn":1.73,"unitMoney":""},{"x":1649779200000,"y":2.6802,"equityReturn":1.72,"unitMoney":""},{"x":1649865600000,"y":2.6564,"equityReturn":-0.89,"unitMoney":""},{"x":1649952000000,"y":2.6784,"equityReturn":0.83,"unitMoney":""},{"x":1650211200000,"y":2.751,"equityReturn":2.71,"unitMoney":""},{"x":1650297600000,"y":2.8053,"equityReturn":1.97,"unitMoney":""},{"x":1650384000000,"y":2.8469,"equityReturn":1.48,"unitMoney":""},{"x":1650470400000,"y":2.8156,"equityReturn":-1.1,"unitMoney":""},{"x":1650556800000,"y":2.7881,"equityReturn":-0.98,"unitMoney":""},{"x":1650816000000,"y":2.7897,"equityReturn":0.06,"unitMoney":""},{"x":1650902400000,"y":2.854,"equityReturn":2.3,"unitMoney":""},{"x":1650988800000,"y":2.8233,"equityReturn":-1.08,"unitMoney":""},{"x":1651075200000,"y":2.852,"equityReturn":1.02,"unitMoney":""},{"x":1651161600000,"y":2.9016,"equityReturn":1.74,"unitMoney":""},{"x":1651420800000,"y":2.9368,"equityReturn":1.21,"unitMoney":""},{"x":1651507200000,"y":2.9371,"equityReturn":0.01,"unitMoney":""},{"x":1651593600000,"y":2.909,"equityReturn":-0.96,"unitMoney":""},{"x":1651680000000,"y":2.9398,"equityReturn":1.06,"unitMoney":""},{"x":1651766400000,"y":2.9257,"equityReturn":-0.48,"unitMoney":""},{"x":1652025600000,"y":2.9427,"equityReturn":0.58,"unitMoney":""},{"x":1652112000000,"y":2.921,"equityReturn":-0.74,"unitMoney":""},{"x":1652198400000,"y":2.8985,"equityReturn":-0.77,"unitMoney":""},{"x":1652284800000,"y":2.8789,"equityReturn":-0.68,"unitMoney":""},{"x":1652371200000,"y":2.8361,"equityReturn":-1.49,"unitMoney":""},{"x":1652630400000,"y":2.8761,"equityReturn":1.41,"unitMoney":""},{"x":1652716800000,"y":2.8176,"equityReturn":-2.03,"unitMoney":""},{"x":1652803200000,"y":2.8342,"equityReturn":0.59,"unitMoney":""},{"x":1652889600000,"y":2.8161,"equityReturn":-0.64,"unitMoney":""},{"x":1652976000000,"y":2.8374,"equityReturn":0.76,"unitMoney":""},{"x":1653235200000,"y":2.7679,"equityReturn":-2.45,"unitMoney":""},{"x":1653321600000,"y":2.7686,"equityReturn":0.03,"unitMoney":""},{"x":1653408000000,"y":2.7714,"equityReturn":0.1,"unitMoney":""},{"x":1653494400000,"y":2.8306,"equityReturn":2.14,"unitMoney":""},{"x":1653580800000,"y":2.8743,"equityReturn":1.54,"unitMoney":""},{"x":1653840000000,"y":2.8913,"equityReturn":0.59,"unitMoney":""},{"x":1653926400000,"y":2.8892,"equityReturn":-0.07,"unitMoney":""},{"x":1654012800000,"y":2.8922,"equityReturn":0.1,"unitMoney":""},{"x":1654099200000,"y":2.9373,"equityReturn":1.56,"unitMoney":""},{"x":1654185600000,"y":2.9959,"equityReturn":2.0,"unitMoney":""},{"x":1654444800000,"y":3.0238,"equityReturn":0.93,"unitMoney":""},{"x":1654531200000,"y":3.0797,"equityReturn":1.85,"unitMoney":""},{"x":1654617600000,"y":3.0118,"equityReturn":-2.2,"unitMoney":""},{"x":1654704000000,"y":3.056,"equityReturn":1.47,"unitMoney":""},{"x":1654790400000,"y":3.148,"equityReturn":3.01,"unitMoney":""},{"x":1655049600000,"y":3.1553,"equityReturn":0.23,"unitMoney":""},{"x":1655136000000,"y":3.1297,"equityReturn":-0.81,"unitMoney":""},{"x":1655222400000,"y":3.1965,"equityReturn":2.13,"unitMoney":""},{"x":1655308800000,"y":3.1096,"equityReturn":-2.72,"unitMoney":""},{"x":1655395200000,"y":3.1672,"equityReturn":1.85,"unitMoney":""},{"x":1655654400000,"y":3.114,"equityReturn":-1.68,"unitMoney":""},{"x":1655740800000,"y":3.1387,"equityReturn":0.79,"unitMoney":""},{"x":1655827200000,"y":3.0868,"equityReturn":-1.65,"unitMoney":""},{"x":1655913600000,"y":3.1577,"equityReturn":2.3,"unitMoney":""},{"x":1656000000000,"y":3.1629,"equityReturn":0.16,"unitMoney":""},{"x":1656259200000,"y":3.1373,"equityReturn":-0.81,"unitMoney":""},{"x":1656345600000,"y":3.1386,"equityReturn":0.04,"unitMoney":""},{"x":1656432000000,"y":3.2053,"equityReturn":2.13,"unitMoney":""},{"x":1656518400000,"y":3.2809,"equityReturn":2.36,"unitMoney":""},{"x":1656604800000,"y":3.2954,"equityReturn":0.44,"unitMoney":""},{"x":1656864000000,"y":3.2876,"equityReturn":-0.24,"unitMoney":""},{"x":1656950400000,"y":3.3647,"equityReturn":2.35,"unitMoney":""},{"x":1657036800000,"y":3.3752,"equityReturn":0.31,"unitMoney":""},{"x":1657123200000,"y":3.3501,"equityReturn":-0.74,"unitMoney":""},{"x":1657209600000,"y":3.4495,"equityReturn":2.97,"unitMoney":""},{"x":1657468800000,"y":3.3715,"equityReturn":-2.26,"unitMoney":""},{"x":1657555200000,"y":3.3916,"equityReturn":0.6,"unitMoney":""},{"x":1657641600000,"y":3.4773,"equityReturn":2.53,"unitMoney":""},{"x":1657728000000,"y":3.5048,"equityReturn":0.79,"unitMoney":""},{"x":1657814400000,"y":3.5235,"equityReturn":0.53,"unitMoney":""},{"x":1658073600000,"y":3.5781,"equityReturn":1.55,"unitMoney":""},{"x":1658160000000,"y":3.5322,"equityReturn":-1.28,"unitMoney":""},{"x":1658246400000,"y":3.5377,"equityReturn":0.16,"unitMoney":""},{"x":1658332800000,"y":3.5416,"equityReturn":0.11,"unitMoney":""},{"x":1658419200000,"y":3.6009,"equityReturn":1.67,"unitMoney":""},{"x":1658678400000,"y":3.6323,"equityReturn":0.87,"unitMoney":""},{"x":1658764800000,"y":3.6439,"equityReturn":0.32,"unitMoney":""},{"x":1658851200000,"y":3.7186,"equityReturn":2.05,"unitMoney":""},{"x":1658937600000,"y":3.8,"equityReturn":2.19,"unitMoney":""},{"x":1659024000000,"y":3.7395,"equityReturn":-1.59,"unitMoney":""},{"x":1659283200000,"y":3.8902,"equityReturn":4.03,"unitMoney":""},{"x":1659369600000,"y":3.9201,"equityReturn":0.77,"unitMoney":""},{"x":1659456000000,"y":3.901,"equityReturn":-0.49,"unitMoney":""},{"x":1659542400000,"y":4.0089,"equityReturn":2.77,"unitMoney":""},{"x":1659628800000,"y":3.8713,"equityReturn":-3.43,"unitMoney":""},{"x":1659888000000,"y":3.8104,"equityReturn":-1.57,"unitMoney":""},{"x":1659974400000,"y":3.8351,"equityReturn":0.65,"unitMoney":""},{"x":1660060800000,"y":3.806,"equityReturn":-0.76,"unitMoney":""},{"x":1660147200000,"y":3.7486,"equityReturn":-1.51,"unitMoney":""},{"x":1660233600000,"y":3.7427,"equityReturn":-0.16,"unitMoney":""},{"x":1660492800000,"y":3.835,"equityReturn":2.47,"unitMoney":""},{"x":1660579200000,"y":3.8473,"equityReturn":0.32,"unitMoney":""},{"x":1660665600000,"y":3.9046,"equityReturn":1.49,"unitMoney":""},{"x":1660752000000,"y":3.9575,"equityReturn":1.35,"unitMoney":""},{"x":1660838400000,"y":3.9665,"equityReturn":0.23,"unitMoney":""},{"x":1661097600000,"y":3.9793,"equityReturn":0.32,"unitMoney":""},{"x":1661184000000,"y":3.9503,"equityReturn":-0.73,"unitMoney":""},{"x":1661270400000,"y":3.9739,"equityReturn":0.6,"unitMoney":""},{"x":1661356800000,"y":4.031,"equityReturn":1.44,"unitMoney":""},{"x":1661443200000,"y":4.0306,"equityReturn":-0.01,"unitMoney":""},{"x":1661702400000,"y":4.0388,"equityReturn":0.2,"unitMoney":""},{"x":1661788800000,"y":4.0787,"equityReturn":0.99,"unitMoney":""},{"x":1661875200000,"y":4.0941,"equityReturn":0.38,"unitMoney":""},{"x":1661961600000,"y":4.1239,"equityReturn":0.73,"unitMoney":""},{"x":1662048000000,"y":4.0224,"equityReturn":-2.46,"unitMoney":""},{"x":1662307200000,"y":4.0562,"equityReturn":0.84,"unitMoney":""},{"x":1662393600000,"y":3.9698,"equityReturn":-2.13,"unitMoney":""},{"x":1662480000000,"y":4.0174,"equityReturn":1.2,"unitMoney":""},{"x":1662566400000,"y":4.0184,"equityReturn":0.02,"unitMoney":""},{"x":1662652800000,"y":4.0028,"equityReturn":-0.39,"unitMoney":""},{"x":1662912000000,"y":3.9411,"equityReturn":-1.54,"unitMoney":""},{"x":1662998400000,"y":4.0046,"equityReturn":1.61,"unitMoney":""},{"x":1663084800000,"y":3.9903,"equityReturn":-0.36,"unitMoney":""},{"x":1663171200000,"y":3.9749,"equityReturn":-0.39,"unitMoney":""},{"x":1663257600000,"y":3.8748,"equityReturn":-2.52,"unitMoney":""},{"x":1663516800000,"y":3.9727,"equityReturn":2.53,"unitMoney":""},{"x":1663603200000,"y":3.9514,"equityReturn":-0.54,"unitMoney":""},{"x":1663689600000,"y":3.9129,"equityReturn":-0.97,"unitMoney":""},{"x":1663776000000,"y":3.9895,"equityReturn":1.96,"unitMoney":""},{"x":1663862400000,"y":4.0321,"equityReturn":1.07,"unitMoney":""},{"x":1664121600000,"y":3.8965,"equityReturn":-3.36,"unitMoney":""},{"x":1664208000000,"y":3.8999,"equityReturn":0.09,"unitMoney":""},{"x":1664294400000,"y":3.9962,"equityReturn":2.47,"unitMoney":""},{"x":1664380800000,"y":3.9915,"equityReturn":-0.12,"unitMoney":""},{"x":1664467200000,"y":3.9585,"equityReturn":-0.83,"unitMoney":""},{"x":1664726400000,"y":4.016,"equityReturn":1.45,"unitMoney":""},{"x":1664812800000,"y":4.0703,"equityReturn":1.35,"unitMoney":""},{"x":1664899200000,"y":4.0275,"equityReturn":-1.05,"unitMoney":""},{"x":1664985600000,"y":3.9978,"equityReturn":-0.74,"unitMoney":""},{"x":1665072000000,"y":3.9745,"equityReturn":-0.58,"unitMoney":""},{"x":1665331200000,"y":3.9533,"equityReturn":-0.53,"unitMoney":""},{"x":1665417600000,"y":3.889,"equityReturn":-1.63,"unitMoney":""},{"x":1665504000000,"y":3.8588,"equityReturn":-0.78,"unitMoney":""},{"x":1665590400000,"y":3.9055,"equityReturn":1.21,"unitMoney":""},{"x":1665676800000,"y":3.8255,"equityReturn":-2.05,"unitMoney":""},{"x":1665936000000,"y":3.8912,"equityReturn":1.72,"unitMoney":""},{"x":1666022400000,"y":3.9285,"equityReturn":0.96,"unitMoney":""},{"x":1666108800000,"y":3.9804,"equityReturn":1.32,"unitMoney":""},{"x":1666195200000,"y":4.0342,"equityReturn":1.35,"unitMoney":""},{"x":1666281600000,"y":3.9947,"equityReturn":-0.98,"unitMoney":""},{"x":1666540800000,"y":3.9121,"equityReturn":-2.07,"unitMoney":""},{"x":1666627200000,"y":3.9859,"equityReturn":1.89,"unitMoney":""},{"x":1666713600000,"y":3.9917,"equityReturn":0.15,"unitMoney":""},{"x":1666800000000,"y":4.0257,"equityReturn":0.85,"unitMoney":""},{"x":1666886400000,"y":4.0913,"equityReturn":1.63,"unitMoney":""},{"x":1667145600000,"y":4.0219,"equityReturn":-1.7,"unitMoney":""},{"x":1667232000000,"y":4.0266,"equityReturn":0.12,"unitMoney":""},{"x":1667318400000,"y":4.0326,"equityReturn":0.15,"unitMoney":""},{"x":1667404800000,"y":3.9835,"equityReturn":-1.22,"unitMoney":""},{"x":1667491200000,"y":3.9406,"equityReturn":-1.08,"unitMoney":""},{"x":1667750400000,"y":3.9488,"equityReturn":0.21,"unitMoney":""},{"x":1667836800000,"y":3.9773,"equityReturn":0.72,"unitMoney":""},{"x":1667923200000,"y":4.0587,"equityReturn":2.05,"unitMoney":""},{"x":1668009600000,"y":4.1198,"equityReturn":1.51,"unitMoney":""},{"x":1668096000000,"y":4.2144,"equityReturn":2.3,"unitMoney":""},{"x":1668355200000,"y":4.1943,"equityReturn":-0.48,"unitMoney":""},{"x":1668441600000,"y":4.2178,"equityReturn":0.56,"unitMoney":""},{"x":1668528000000,"y":4.2225,"equityReturn":0.11,"unitMoney":""},{"x":1668614400000,"y":4.2115,"equityReturn":-0.26,"unitMoney":""},{"x":1668700800000,"y":4.1873,"equityReturn":-0.57,"unitMoney":""},{"x":1668960000000,"y":4.2769,"equityReturn":2.14,"unitMoney":""},{"x":1669046400000,"y":4.3778,"equityReturn":2.36,"unitMoney":""},{"x":1669132800000,"y":4.3897,"equityReturn":0.27,"unitMoney":""},{"x":1669219200000,"y":4.2252,"equityReturn":-3.75,"unitMoney":""},{"x":1669305600000,"y":4.1609,"equityReturn":-1.52,"unitMoney":""},{"x":1669564800000,"y":4.1176,"equityReturn":-1.04,"unitMoney":""},{"x":1669651200000,"y":4.2265,"equityReturn":2.64,"unitMoney":""},{"x":1669737600000,"y":4.3022,"equityReturn":1.79,"unitMoney":""},{"x":1669824000000,"y":4.2946,"equityReturn":-0.18,"unitMoney":""},{"x":1669910400000,"y":4.3486,"equityReturn":1.26,"unitMoney":""},{"x":1670169600000,"y":4.3778,"equityReturn":0.67,"unitMoney":""},{"x":1670256000000,"y":4.38,"equityReturn":0.05,"unitMoney":""},{"x":1670342400000,"y":4.3808,"equityReturn":0.02,"unitMoney":""},{"x":1670428800000,"y":4.3292,"equityReturn":-1.18,"unitMoney":""},{"x":1670515200000,"y":4.2724,"equityReturn":-1.31,"unitMoney":""},{"x":1670774400000,"y":4.2703,"equityReturn":-0.05,"unitMoney":""},{"x":1670860800000,"y":4.2105,"equityReturn":-1.4,"unitMoney":""},{"x":1670947200000,"y":4.2409,"equityReturn":0.72,"unitMoney":""},{"x":1671033600000,"y":4.2303,"equityReturn":-0.25,"unitMoney":""},{"x":1671120000000,"y":4.185,"equityReturn":-1.07,"unitMoney":""},{"x":1671379200000,"y":4.2135,"equityReturn":0.68,"unitMoney":""},{"x":1671465600000,"y":4.174,"equityReturn":-0.94,"unitMoney":""},{"x":1671552000000,"y":4.1597,"equityReturn":-0.34,"unitMoney":""},{"x":1671638400000,"y":4.1097,"equityReturn":-1.2,"unitMoney":""},{"x":1671724800000,"y":4.1552,"equityReturn":1.11,"unitMoney":""},{"x":1671984000000,"y":4.1701,"equityReturn":0.36,"unitMoney":""},{"x":1672070400000,"y":4.1648,"equityReturn":-0.13,"unitMoney":""},{"x":1672156800000,"y":4.159,"equityReturn":-0.14,"unitMoney":""},{"x":1672243200000,"y":4.1952,"equityReturn":0.87,"unitMoney":""},{"x":1672329600000,"y":4.1733,"equityReturn":-0.52,"unitMoney":""},{"x":1672588800000,"y":4.07,"equityReturn":-2.48,"unitMoney":""},{"x":1672675200000,"y":4.1778,"equityReturn":2.65,"unitMoney":""},{"x":1672761600000,"y":4.1907,"equityReturn":0.31,"unitMoney":""},{"x":1672848000000,"y":4.2438,"equityReturn":1.27,"unitMoney":""},{"x":1672934400000,"y":4.1972,"equityReturn":-1.1,"unitMoney":""},{"x":1673193600000,"y":4.1067,"equityReturn":-2.16,"unitMoney":""},{"x":1673280000000,"y":4.0466,"equityReturn":-1.46,"unitMoney":""},{"x":1673366400000,"y":4.0872,"equityReturn":1.0,"unitMoney":""},{"x":1673452800000,"y":4.0695,"equityReturn":-0.43,"unitMoney":""},{"x":1673539200000,"y":4.0646,"equityReturn":-0.12,"unitMoney":""},{"x":1673798400000,"y":4.0424,"equityReturn":-0.55,"unitMoney":""},{"x":1673884800000,"y":3.9562,"equityReturn":-2.13,"unitMoney":""},{"x":1673971200000,"y":4.056,"equityReturn":2.52,"unitMoney":""},{"x":1674057600000,"y":4.0055,"equityReturn":-1.25,"unitMoney":""},{"x":1674144000000,"y":3.9537,"equityReturn":-1.29,"unitMoney":""},{"x":1674403200000,"y":3.8935,"equityReturn":-1.52,"unitMoney":""},{"x":1674489600000,"y":3.9167,"equityReturn":0.6,"unitMoney":""},{"x":1674576000000,"y":3.9922,"equityReturn":1.93,"unitMoney":""},{"x":1674662400000,"y":4.0087,"equityReturn":0.41,"unitMoney":""},{"x":1674748800000,"y":4.0384,"equityReturn":0.74,"unitMoney":""},{"x":1675008000000,"y":4.029,"equityReturn":-0.23,"unitMoney":""},{"x":1675094400000,"y":4.1133,"equityReturn":2.09,"unitMoney":""},{"x":1675180800000,"y":4.1336,"equityReturn":0.49,"unitMoney":""},{"x":1675267200000,"y":4.1642,"equityReturn":0.74,"unitMoney":""},{"x":1675353600000,"y":4.1064,"equityReturn":-1.39,"unitMoney":""},{"x":1675612800000,"y":4.1847,"equityReturn":1.91,"unitMoney":""},{"x":1675699200000,"y":4.2317,"equityReturn":1.12,"unitMoney":""},{"x":1675785600000,"y":4.2079,"equityReturn":-0.56,"unitMoney":""},{"x":1675872000000,"y":4.1713,"equityReturn":-0.87,"unitMoney":""},{"x":1675958400000,"y":4.2036,"equityReturn":0.77,"unitMoney":""},{"x":1676217600000,"y":4.1326,"equityReturn":-1.69,"unitMoney":""},{"x":1676304000000,"y":4.1445,"equityReturn":0.29,"unitMoney":""},{"x":1676390400000,"y":4.1018,"equityReturn":-1.03,"unitMoney":""},{"x":1676476800000,"y":4.0447,"equityReturn":-1.39,"unitMoney":""},{"x":1676563200000,"y":4.1144,"equityReturn":1.72,"unitMoney":""},{"x":1676822400000,"y":4.0573,"equityReturn":-1.39,"unitMoney":""},{"x":1676908800000,"y":3.9561,"equityReturn":-2.49,"unitMoney":""},{"x":1676995200000,"y":4.0465,"equityReturn":2.29,"unitMoney":""},{"x":1677081600000,"y":4.0143,"equityReturn":-0.8,"unitMoney":""},{"x":1677168000000,"y":4.0832,"equityReturn":1.72,"unitMoney":""},{"x":1677427200000,"y":4.089,"equityReturn":0.14,"unitMoney":""},{"x":1677513600000,"y":4.0371,"equityReturn":-1.27,"unitMoney":""},{"x":1677600000000,"y":3.9476,"equityReturn":-2.22,"unitMoney":""},{"x":1677686400000,"y":3.941,"equityReturn":-0.17,"unitMoney":""},{"x":1677772800000,"y":3.9618,"equityReturn":0.53,"unitMoney":""},{"x":1678032000000,"y":3.9293,"equityReturn":-0.82,"unitMoney":""},{"x":1678118400000,"y":3.9122,"equityReturn":-0.44,"unitMoney":""},{"x":1678204800000,"y":3.8716,"equityReturn":-1.04,"unitMoney":""},{"x":1678291200000,"y":3.8688,"equityReturn":-0.07,"unitMoney":""},{"x":1678377600000,"y":3.8807,"equityReturn":0.31,"unitMoney":""},{"x":1678636800000,"y":3.8723,"equityReturn":-0.22,"unitMoney":""},{"x":1678723200000,"y":3.7624,"equityReturn":-2.84,"unitMoney":""},{"x":1678809600000,"y":3.7225,"equityReturn":-1.06,"unitMoney":""},{"x":1678896000000,"y":3.7044,"equityReturn":-0.49,"unitMoney":""},{"x":1678982400000,"y":3.6816,"equityReturn":-0.62,"unitMoney":""},{"x":1679241600000,"y":3.5844,"equityReturn":-2.64,"unitMoney":""},{"x":1679328000000,"y":3.5562,"equityReturn":-0.79,"unitMoney":""},{"x":1679414400000,"y":3.4789,"equityReturn":-2.17,"unitMoney":""},{"x":1679500800000,"y":3.3968,"equityReturn":-2.36,"unitMoney":""},{"x":1679587200000,"y":3.4181,"equityReturn":0.63,"unitMoney":""},{"x":1679846400000,"y":3.3733,"equityReturn":-1.31,"unitMoney":""},{"x":1679932800000,"y":3.43,"equityReturn":1.68,"unitMoney":""},{"x":1680019200000,"y":3.4866,"equityReturn":1.65,"unitMoney":""},{"x":1680105600000,"y":3.3922,"equityReturn":-2.71,"unitMoney":""},{"x":1680192000000,"y":3.4049,"equityReturn":0.37,"unitMoney":""},{"x":1680451200000,"y":3.3297,"equityReturn":-2.21,"unitMoney":""},{"x":1680537600000,"y":3.3581,"equityReturn":0.85,"unitMoney":""},{"x":1680624000000,"y":3.4118,"equityReturn":1.6,"unitMoney":""},{"x":1680710400000,"y":3.4807,"equityReturn":2.02,"unitMoney":""},{"x":1680796800000,"y":3.5451,"equityReturn":1.85,"unitMoney":""},{"x":1681056000000,"y":3.474,"equityReturn":-2.01,"unitMoney":""},{"x":1681142400000,"y":3.4877,"equityReturn":0.39,"unitMoney":""},{"x":1681228800000,"y":3.4121,"equityReturn":-2.17,"unitMoney":""},{"x":1681315200000,"y":3.4353,"equityReturn":0.68,"unitMoney":""},{"x":1681401600000,"y":3.4771,"equityReturn":1.22,"unitMoney":""},{"x":1681660800000,"y":3.4702,"equityReturn":-0.2,"unitMoney":""},{"x":1681747200000,"y":3.5141,"equityReturn":1.27,"unitMoney":""},{"x":1681833600000,"y":3.4724,"equityReturn":-1.19,"unitMoney":""},{"x":1681920000000,"y":3.4487,"equityReturn":-0.68,"unitMoney":""},{"x":1682006400000,"y":3.3908,"equityReturn":-1.68,"unitMoney":""},{"x":1682265600000,"y":3.3023,"equityReturn":-2.61,"unitMoney":""},{"x":1682352000000,"y":3.308,"equityReturn":0.17,"unitMoney":""},{"x":1682438400000,"y":3.3091,"equityReturn":0.03,"unitMoney":""},{"x":1682524800000,"y":3.26,"equityReturn":-1.48,"unitMoney":""},{"x":1682611200000,"y":3.2204,"equityReturn":-1.21,"unitMoney":""},{"x":1682870400000,"y":3.15,"equityReturn":-2.19,"unitMoney":""},{"x":1682956800000,"y":3.183,"equityReturn":1.05,"unitMoney":""},{"x":1683043200000,"y":3.2105,"equityReturn":0.86,"unitMoney":""},{"x":1683129600000,"y":3.1871,"equityReturn":-0.73,"unitMoney":""},{"x":1683216000000,"y":3.1699,"equityReturn":-0.54,"unitMoney":""},{"x":1683475200000,"y":3.1501,"equityReturn":-0.62,"unitMoney":""},{"x":1683561600000,"y":3.1103,"equityReturn":-1.26,"unitMoney":""},{"x":1683648000000,"y":3.1275,"equityReturn":0.55,"unitMoney":""},{"x":1683734400000,"y":3.1727,"equityReturn":1.45,"unitMoney":""},{"x":1683820800000,"y":3.0793,"equityReturn":-2.94,"unitMoney":""},{"x":1684080000000,"y":3.1191,"equityReturn":1.29,"unitMoney":""},{"x":1684166400000,"y":3.0789,"equityReturn":-1.29,"unitMoney":""},{"x":1684252800000,"y":3.0636,"equityReturn":-0.5,"unitMoney":""},{"x":1684339200000,"y":3.0002,"equityReturn":-2.07,"unitMoney":""},{"x":1684425600000,"y":2.9779,"equityReturn":-0.74,"unitMoney":""},{"x":1684684800000,"y":2.9729,"equityReturn":-0.17,"unitMoney":""},{"x":1684771200000,"y":2.9607,"equityReturn":-0.41,"unitMoney":""},{"x":1684857600000,"y":3.0722,"equityReturn":3.77,"unitMoney":""},{"x":1684944000000,"y":3.0546,"equityReturn":-0.57,"unitMoney":""},{"x":1685030400000,"y":3.0431,"equityReturn":-0.38,"unitMoney":""},{"x":1685289600000,"y":3.0292,"equityReturn":-0.46,"unitMoney":""},{"x":1685376000000,"y":3.0496,"equityReturn":0.67,"unitMoney":""},{"x":1685462400000,"y":3.0824,"equityReturn":1.08,"unitMoney":""},{"x":1685548800000,"y":3.1157,"equityReturn":1.08,"unitMoney":""},{"x":1685635200000,"y":3.1146,"equityReturn":-0.04,"unitMoney":""},{"x":1685894400000,"y":3.1246,"equityReturn":0.32,"unitMoney":""},{"x":1685980800000,"y":3.0182,"equityReturn":-3.41,"unitMoney":""},{"x":1686067200000,"y":3.0223,"equityReturn":0.14,"unitMoney":""},{"x":1686153600000,"y":2.979,"equityReturn":-1.43,"unitMoney":""},{"x":1686240000000,"y":2.9907,"equityReturn":0.39,"unitMoney":""},{"x":1686499200000,"y":2.9659,"equityReturn":-0.83,"unitMoney":""},{"x":1686585600000,"y":2.9908,"equityReturn":0.84,"unitMoney":""},{"x":1686672000000,"y":2.9783,"equityReturn":-0.42,"unitMoney":""},{"x":1686758400000,"y":3.0055,"equityReturn":0.91,"unitMoney":""},{"x":1686844800000,"y":2.9162,"equityReturn":-2.97,"unitMoney":""},{"x":1687104000000,"y":2.9592,"equityReturn":1.47,"unitMoney":""},{"x":1687190400000,"y":2.8996,"equityReturn":-2.01,"unitMoney":""},{"x":1687276800000,"y":2.9677,"equityReturn":2.35,"unitMoney":""},{"x":1687363200000,"y":2.9056,"equityReturn":-2.09,"unitMoney":""},{"x":1687449600000,"y":2.9071,"equityReturn":0.05,"unitMoney":""},{"x":1687708800000,"y":2.865,"equityReturn":-1.45,"unitMoney":""},{"x":1687795200000,"y":2.871,"equityReturn":0.21,"unitMoney":""},{"x":1687881600000,"y":2.9154,"equityReturn":1.55,"unitMoney":""},{"x":1687968000000,"y":2.878,"equityReturn":-1.28,"unitMoney":""},{"x":1688054400000,"y":2.8926,"equityReturn":0.51,"unitMoney":""},{"x":1688313600000,"y":2.9284,"equityReturn":1.24,"unitMoney":""},{"x":1688400000000,"y":2.8851,"equityReturn":-1.48,"unitMoney":""},{"x":1688486400000,"y":2.9211,"equityReturn":1.25,"unitMoney":""},{"x":1688572800000,"y":2.8976,"equityReturn":-0.8,"unitMoney":""},{"x":1688659200000,"y":2.9225,"equityReturn":0.86,"unitMoney":""},{"x":1688918400000,"y":2.8774,"equityReturn":-1.54,"unitMoney":""},{"x":1689004800000,"y":3.0077,"equityReturn":4.53,"unitMoney":""},{"x":1689091200000,"y":3.0029,"equityReturn":-0.16,"unitMoney":""},{"x":1689177600000,"y":2.9144,"equityReturn":-2.95,"unitMoney":""},{"x":1689264000000,"y":2.9347,"equityReturn":0.7,"unitMoney":""},{"x":1689523200000,"y":2.9209,"equityReturn":-0.47,"unitMoney":""},{"x":1689609600000,"y":2.8536,"equityReturn":-2.3,"unitMoney":""},{"x":1689696000000,"y":2.8393,"equityReturn":-0.5,"unitMoney":""},{"x":1689782400000,"y":2.7883,"equityReturn":-1.8,"unitMoney":""},{"x":1689868800000,"y":2.7936,"equityReturn":0.19,"unitMoney":""},{"x":1690128000000,"y":2.7548,"equityReturn":-1.39,"unitMoney":""},{"x":1690214400000,"y":2.7127,"equityReturn":-1.53,"unitMoney":""},{"x":1690300800000,"y":2.7198,"equityReturn":0.26,"unitMoney":""},{"x":1690387200000,"y":2.7331,"equityReturn":0.49,"unitMoney":""},{"x":1690473600000,"y":2.7327,"equityReturn":-0.01,"unitMoney":""},{"x":1690732800000,"y":2.7446,"equityReturn":0.44,"unitMoney":""},{"x":1690819200000,"y":2.7415,"equityReturn":-0.11,"unitMoney":""},{"x":1690905600000,"y":2.7534,"equityReturn":0.43,"unitMoney":""},{"x":1690992000000,"y":2.8022,"equityReturn":1.77,"unitMoney":""},{"x":1691078400000,"y":2.841,"equityReturn":1.38,"unitMoney":""},{"x":1691337600000,"y":2.8649,"equityReturn":0.84,"unitMoney":""},{"x":1691424000000,"y":2.93,"equityReturn":2.27,"unitMoney":""},{"x":1691510400000,"y":2.8582,"equityReturn":-2.45,"unitMoney":""},{"x":1691596800000,"y":2.8989,"equityReturn":1.42,"unitMoney":""},{"x":1691683200000,"y":2.8177,"equityReturn":-2.8,"unitMoney":""},{"x":1691942400000,"y":2.7884,"equityReturn":-1.04,"unitMoney":""},{"x":1692028800000,"y":2.7507,"equityReturn":-1.35,"unitMoney":""},{"x":1692115200000,"y":2.7713,"equityReturn":0.75,"unitMoney":""},{"x":1692201600000,"y":2.8294,"equityReturn":2.1,"unitMoney":""},{"x":1692288000000,"y":2.8025,"equityReturn":-0.95,"unitMoney":""},{"x":1692547200000,"y":2.727,"equityReturn":-2.69,"unitMoney":""},{"x":1692633600000,"y":2.7642,"equityReturn":1.36,"unitMoney":""},{"x":1692720000000,"y":2.7573,"equityReturn":-0.25,"unitMoney":""},{"x":1692806400000,"y":2.6995,"equityReturn":-2.1,"unitMoney":""},{"x":1692892800000,"y":2.7841,"equityReturn":3.13,"unitMoney":""},{"x":1693152000000,"y":2.8003,"equityReturn":0.58,"unitMoney":""},{"x":1693238400000,"y":2.8075,"equityReturn":0.26,"unitMoney":""},{"x":1693324800000,"y":2.8134,"equityReturn":0.21,"unitMoney":""},{"x":1693411200000,"y":2.7998,"equityReturn":-0.48,"unitMoney":""},{"x":1693497600000,"y":2.8243,"equityReturn":0.88,"unitMoney":""},{"x":1693756800000,"y":2.8282,"equityReturn":0.14,"unitMoney":""},{"x":1693843200000,"y":2.8781,"equityReturn":1.76,"unitMoney":""},{"x":1693929600000,"y":2.8141,"equityReturn":-2.22,"unitMoney":""},{"x":1694016000000,"y":2.8139,"equityReturn":-0.01,"unitMoney":""},{"x":1694102400000,"y":2.8582,"equityReturn":1.57,"unitMoney":""},{"x":1694361600000,"y":2.8099,"equityReturn":-1.69,"unitMoney":""},{"x":1694448000000,"y":2.8409,"equityReturn":1.1,"unitMoney":""},{"x":1694534400000,"y":2.8083,"equityReturn":-1.15,"unitMoney":""},{"x":1694620800000,"y":2.8491,"equityReturn":1.45,"unitMoney":""},{"x":1694707200000,"y":2.9041,"equityReturn":1.93,"unitMoney":""},{"x":1694966400000,"y":2.9318,"equityReturn":0.95,"unitMoney":""},{"x":1695052800000,"y":2.9322,"equityReturn":0.01,"unitMoney":""},{"x":1695139200000,"y":2.9005,"equityReturn":-1.08,"unitMoney":""},{"x":1695225600000,"y":2.8735,"equityReturn":-0.93,"unitMoney":""},{"x":1695312000000,"y":2.8857,"equityReturn":0.42,"unitMoney":""},{"x":1695571200000,"y":2.8857,"equityReturn":0.0,"unitMoney":""},{"x":1695657600000,"y":2.8464,"equityReturn":-1.36,"unitMoney":""},{"x":1695744000000,"y":2.8531,"equityReturn":0.24,"unitMoney":""},{"x":1695830400000,"y":2.8061,"equityReturn":-1.65,"unitMoney":""},{"x":1695916800000,"y":2.8581,"equityReturn":1.85,"unitMoney":""},{"x":1696176000000,"y":2.8936,"equityReturn":1.24,"unitMoney":""},{"x":1696262400000,"y":2.8949,"equityReturn":0.04,"unitMoney":""},{"x":1696348800000,"y":2.9432,"equityReturn":1.67,"unitMoney":""},{"x":1696435200000,"y":2.9344,"equityReturn":-0.3,"unitMoney":""},{"x":1696521600000,"y":2.9964,"equityReturn":2.11,"unitMoney":""},{"x":1696780800000,"y":3.003,"equityReturn":0.22,"unitMoney":""},{"x":1696867200000,"y":2.947,"equityReturn":-1.86,"unitMoney":""},{"x":1696953600000,"y":2.8635,"equityReturn":-2.83,"unitMoney":""},{"x":1697040000000,"y":2.943,"equityReturn":2.78,"unitMoney":""},{"x":1697126400000,"y":2.873,"equityReturn":-2.38,"unitMoney":""},{"x":1697385600000,"y":2.8706,"equityReturn":-0.08,"unitMoney":""},{"x":1697472000000,"y":2.9093,"equityReturn":1.35,"unitMoney":""},{"x":1697558400000,"y":2.8972,"equityReturn":-0.42,"unitMoney":""},{"x":1697644800000,"y":2.8606,"equityReturn":-1.26,"unitMoney":""},{"x":1697731200000,"y":2.853,"equityReturn":-0.27,"unitMoney":""},{"x":1697990400000,"y":2.8627,"equityReturn":0.34,"unitMoney":""},{"x":1698076800000,"y":2.8712,"equityReturn":0.3,"unitMoney":""},{"x":1698163200000,"y":2.8942,"equityReturn":0.8,"unitMoney":""},{"x":1698249600000,"y":2.8484,"equityReturn":-1.58,"unitMoney":""},{"x":1698336000000,"y":2.8972,"equityReturn":1.71,"unitMoney":""},{"x":1698595200000,"y":2.9107,"equityReturn":0.47,"unitMoney":""},{"x":1698681600000,"y":2.9456,"equityReturn":1.2,"unitMoney":""},{"x":1698768000000,"y":2.9861,"equityReturn":1.37,"unitMoney":""},{"x":1698854400000,"y":3.0099,"equityReturn":0.8,"unitMoney":""},{"x":1698940800000,"y":2.959,"equityReturn":-1.69,"unitMoney":""},{"x":1699200000000,"y":2.9287,"equityReturn":-1.02,"unitMoney":""},{"x":1699286400000,"y":2.8969,"equityReturn":-1.09,"unitMoney":""},{"x":1699372800000,"y":2.8551,"equityReturn":-1.44,"unitMoney":""},{"x":1699459200000,"y":2.8306,"equityReturn":-0.86,"unitMoney":""},{"x":1699545600000,"y":2.7599,"equityReturn":-2.5,"unitMoney":""},{"x":1699804800000,"y":2.7618,"equityReturn":0.07,"unitMoney":""},{"x":1699891200000,"y":2.7616,"equityReturn":-0.01,"unitMoney":""},{"x":1699977600000,"y":2.8056,"equityReturn":1.59,"unitMoney":""},{"x":1700064000000,"y":2.7863,"equityReturn":-0.69,"unitMoney":""},{"x":1700150400000,"y":2.8582,"equityReturn":2.58,"unitMoney":""},{"x":1700409600000,"y":2.8561,"equityReturn":-0.07,"unitMoney":""},{"x":1700496000000,"y":2.8445,"equityReturn":-0.41,"unitMoney":""},{"x":1700582400000,"y":2.8487,"equityReturn":0.15,"unitMoney":""},{"x":1700668800000,"y":2.9105,"equityReturn":2.17,"unitMoney":""},{"x":1700755200000,"y":2.9549,"equityReturn":1.53,"unitMoney":""},{"x":1701014400000,"y":2.9703,"equityReturn":0.52,"unitMoney":""},{"x":1701100800000,"y":2.9721,"equityReturn":0.06,"unitMoney":""},{"x":1701187200000,"y":2.954,"equityReturn":-0.61,"unitMoney":""},{"x":1701273600000,"y":2.8977,"equityReturn":-1.91,"unitMoney":""},{"x":1701360000000,"y":2.8916,"equityReturn":-0.21,"unitMoney":""},{"x":1701619200000,"y":2.8782,"equityReturn":-0.46,"unitMoney":""},{"x":1701705600000,"y":2.9487,"equityReturn":2.45,"unitMoney":""},{"x":1701792000000,"y":2.9309,"equityReturn":-0.6,"unitMoney":""},{"x":1701878400000,"y":2.989,"equityReturn":1.98,"unitMoney":""},{"x":1701964800000,"y":2.9945,"equityReturn":0.18,"unitMoney":""},{"x":1702224000000,"y":2.9806,"equityReturn":-0.46,"unitMoney":""},{"x":1702310400000,"y":3.0107,"equityReturn":1.01,"unitMoney":""},{"x":1702396800000,"y":2.9146,"equityReturn":-3.19,"unitMoney":""},{"x":1702483200000,"y":2.834,"equityReturn":-2.77,"unitMoney":""},{"x":1702569600000,"y":2.9104,"equityReturn":2.7,"unitMoney":""},{"x":1702828800000,"y":2.9271,"equityReturn":0.57,"unitMoney":""},{"x":1702915200000,"y":2.9453,"equityReturn":0.62,"unitMoney":""},{"x":1703001600000,"y":2.9387,"equityReturn":-0.22,"unitMoney":""},{"x":1703088000000,"y":2.9459,"equityReturn":0.25,"unitMoney":""},{"x":1703174400000,"y":2.9425,"equityReturn":-0.12,"unitMoney":""},{"x":1703433600000,"y":2.9395,"equityReturn":-0.1,"unitMoney":""},{"x":1703520000000,"y":2.9493,"equityReturn":0.33,"unitMoney":""},{"x":1703606400000,"y":2.9624,"equityReturn":0.44,"unitMoney":""},{"x":1703692800000,"y":2.9881,"equityReturn":0.87,"unitMoney":""},{"x":1703779200000,"y":2.9449,"equityReturn":-1.45,"unitMoney":""},{"x":1704038400000,"y":2.9283,"equityReturn":-0.56,"unitMoney":""},{"x":1704124800000,"y":3.0016,"equityReturn":2.5,"unitMoney":""},{"x":1704211200000,"y":2.9876,"equityReturn":-0.47,"unitMoney":""},{"x":1704297600000,"y":3.004,"equityReturn":0.55,"unitMoney":""},{"x":1704384000000,"y":3.013,"equityReturn":0.3,"unitMoney":""},{"x":1704643200000,"y":2.9992,"equityReturn":-0.46,"unitMoney":""},{"x":1704729600000,"y":3.0817,"equityReturn":2.75,"unitMoney":""},{"x":1704816000000,"y":3.1112,"equityReturn":0.96,"unitMoney":""},{"x":1704902400000,"y":3.028,"equityReturn":-2.67,"unitMoney":""},{"x":1704988800000,"y":3.0783,"equityReturn":1.66,"unitMoney":""},{"x":1705248000000,"y":3.0237,"equityReturn":-1.77,"unitMoney":""},{"x":1705334400000,"y":2.9438,"equityReturn":-2.64,"unitMoney":""},{"x":1705420800000,"y":2.9141,"equityReturn":-1.01,"unitMoney":""},{"x":1705507200000,"y":2.9511,"equityReturn":1.27,"unitMoney":""},{"x":1705593600000,"y":2.8792,"equityReturn":-2.44,"unitMoney":""},{"x":1705852800000,"y":2.919,"equityReturn":1.38,"unitMoney":""},{"x":1705939200000,"y":2.8831,"equityReturn":-1.23,"unitMoney":""},{"x":1706025600000,"y":2.936,"equityReturn":1.83,"unitMoney":""},{"x":1706112000000,"y":2.9691,"equityReturn":1.13,"unitMoney":""},{"x":1706198400000,"y":2.9372,"equityReturn":-1.07,"unitMoney":""},{"x":1706457600000,"y":2.8361,"equityReturn":-3.44,"unitMoney":""},{"x":1706544000000,"y":2.8355,"equityReturn":-0.02,"unitMoney":""},{"x":1706630400000,"y":2.7462,"equityReturn":-3.15,"unitMoney":""},{"x":1706716800000,"y":2.7786,"equityReturn":1.18,"unitMoney":""},{"x":1706803200000,"y":2.7604,"equityReturn":-0.66,"unitMoney":""},{"x":1707062400000,"y":2.8095,"equityReturn":1.78,"unitMoney":""},{"x":1707148800000,"y":2.7861,"equityReturn":-0.83,"unitMoney":""},{"x":1707235200000,"y":2.7458,"equityReturn":-1.45,"unitMoney":""},{"x":1707321600000,"y":2.765,"equityReturn":0.7,"unitMoney":""},{"x":1707408000000,"y":2.7232,"equityReturn":-1.51,"unitMoney":""},{"x":1707667200000,"y":2.7253,"equityReturn":0.08,"unitMoney":""},{"x":1707753600000,"y":2.7208,"equityReturn":-0.17,"unitMoney":""},{"x":1707840000000,"y":2.691,"equityReturn":-1.1,"unitMoney":""},{"x":1707926400000,"y":2.6383,"equityReturn":-1.96,"unitMoney":""},{"x":1708012800000,"y":2.6618,"equityReturn":0.89,"unitMoney":""},{"x":1708272000000,"y":2.7264,"equityReturn":2.43,"unitMoney":""},{"x":1708358400000,"y":2.7152,"equityReturn":-0.41,"unitMoney":""},{"x":1708444800000,"y":2.6792,"equityReturn":-1.33,"unitMoney":""},{"x":1708531200000,"y":2.6671,"equityReturn":-0.45,"unitMoney":""},{"x":1708617600000,"y":2.6195,"equityReturn":-1.78,"unitMoney":""},{"x":1708876800000,"y":2.5451,"equityReturn":-2.84,"unitMoney":""},{"x":1708963200000,"y":2.5836,"equityReturn":1.51,"unitMoney":""},{"x":1709049600000,"y":2.5889,"equityReturn":0.21,"unitMoney":""},{"x":1709136000000,"y":2.5758,"equityReturn":-0.51,"unitMoney":""},{"x":1709222400000,"y":2.6422,"equityReturn":2.58,"unitMoney":""},{"x":1709481600000,"y":2.6417,"equityReturn":-0.02,"unitMoney":""},{"x":1709568000000,"y":2.6402,"equityReturn":-0.06,"unitMoney":""},{"x":1709654400000,"y":2.6736,"equityReturn":1.27,"unitMoney":""},{"x":1709740800000,"y":2.6499,"equityReturn":-0.89,"unitMoney":""},{"x":1709827200000,"y":2.6626,"equityReturn":0.48,"unitMoney":""},{"x":1710086400000,"y":2.6777,"equityReturn":0.57,"unitMoney":""},{"x":1710172800000,"y":2.7061,"equityReturn":1.06,"unitMoney":""},{"x":1710259200000,"y":2.7204,"equityReturn":0.53,"unitMoney":""},{"x":1710345600000,"y":2.777,"equityReturn":2.08,"unitMoney":""},{"x":1710432000000,"y":2.8102,"equityReturn":1.2,"unitMoney":""},{"x":1710691200000,"y":2.8404,"equityReturn":1.07,"unitMoney":""},{"x":1710777600000,"y":2.8761,"equityReturn":1.26,"unitMoney":""},{"x":1710864000000,"y":2.8517,"equityReturn":-0.85,"unitMoney":""},{"x":1710950400000,"y":2.8142,"equityReturn":-1.32,"unitMoney":""},{"x":1711036800000,"y":2.8034,"equityReturn":-0.38,"unitMoney":""},{"x":1711296000000,"y":2.8492,"equityReturn":1.63,"unitMoney":""},{"x":1711382400000,"y":2.7959,"equityReturn":-1.87,"unitMoney":""},{"x":1711468800000,"y":2.8107,"equityReturn":0.53,"unitMoney":""},{"x":1711555200000,"y":2.7808,"equityReturn":-1.06,"unitMoney":""},{"x":1711641600000,"y":2.7624,"equityReturn":-0.66,"unitMoney":""},{"x":1711900800000,"y":2.7293,"equityReturn":-1.2,"unitMoney":""},{"x":1711987200000,"y":2.6575,"equityReturn":-2.63,"unitMoney":""},{"x":1712073600000,"y":2.7128,"equityReturn":2.08,"unitMoney":""},{"x":1712160000000,"y":2.7021,"equityReturn":-0.39,"unitMoney":""},{"x":1712246400000,"y":2.7028,"equityReturn":0.03,"unitMoney":""},{"x":1712505600000,"y":2.7052,"equityReturn":0.09,"unitMoney":""},{"x":1712592000000,"y":2.5952,"equityReturn":-4.07,"unitMoney":""},{"x":1712678400000,"y":2.6465,"equityReturn":1.98,"unitMoney":""},{"x":1712764800000,"y":2.7099,"equityReturn":2.4,"unitMoney":""},{"x":1712851200000,"y":2.7068,"equityReturn":-0.11,"unitMoney":""},{"x":1713110400000,"y":2.7173,"equityReturn":0.39,"unitMoney":""},{"x":1713196800000,"y":2.7442,"equityReturn":0.99,"unitMoney":""},{"x":1713283200000,"y":2.7699,"equityReturn":0.94,"unitMoney":""},{"x":1713369600000,"y":2.8076,"equityReturn":1.36,"unitMoney":""},{"x":1713456000000,"y":2.8363,"equityReturn":1.02,"unitMoney":""},{"x":1713715200000,"y":2.8287,"equityReturn":-0.27,"unitMoney":""},{"x":1713801600000,"y":2.8515,"equityReturn":0.81,"unitMoney":""},{"x":1713888000000,"y":2.8033,"equityReturn":-1.69,"unitMoney":""},{"x":1713974400000,"y":2.7995,"equityReturn":-0.14,"unitMoney":""},{"x":1714060800000,"y":2.8465,"equityReturn":1.68,"unitMoney":""},{"x":1714320000000,"y":2.9048,"equityReturn":2.05,"unitMoney":""},{"x":1714406400000,"y":2.9264,"equityReturn":0.74,"unitMoney":""},{"x":1714492800000,"y":2.9596,"equityReturn":1.13,"unitMoney":""},{"x":1714579200000,"y":2.9385,"equityReturn":-0.71,"unitMoney":""},{"x":1714665600000,"y":2.9754,"equityReturn":1.26,"unitMoney":""},{"x":1714924800000,"y":2.9696,"equityReturn":-0.19,"unitMoney":""},{"x":1715011200000,"y":2.9292,"equityReturn":-1.36,"unitMoney":""},{"x":1715097600000,"y":2.9843,"equityReturn":1.88,"unitMoney":""},{"x":1715184000000,"y":2.9883,"equityReturn":0.13,"unitMoney":""},{"x":1715270400000,"y":3.0014,"equityReturn":0.44,"unitMoney":""},{"x":1715529600000,"y":2.9504,"equityReturn":-1.7,"unitMoney":""},{"x":1715616000000,"y":2.9517,"equityReturn":0.04,"unitMoney":""},{"x":1715702400000,"y":2.9672,"equityReturn":0.53,"unitMoney":""},{"x":1715788800000,"y":2.9918,"equityReturn":0.83,"unitMoney":""},{"x":1715875200000,"y":3.0151,"equityReturn":0.78,"unitMoney":""},{"x":1716134400000,"y":3.0355,"equityReturn":0.68,"unitMoney":""},{"x":1716220800000,"y":3.0755,"equityReturn":1.32,"unitMoney":""},{"x":1716307200000,"y":3.1308,"equityReturn":1.8,"unitMoney":""},{"x":1716393600000,"y":3.1811,"equityReturn":1.61,"unitMoney":""},{"x":1716480000000,"y":3.1415,"equityReturn":-1.24,"unitMoney":""},{"x":1716739200000,"y":3.1508,"equityReturn":0.3,"unitMoney":""},{"x":1716825600000,"y":3.2114,"equityReturn":1.92,"unitMoney":""},{"x":1716912000000,"y":3.2563,"equityReturn":1.4,"unitMoney":""},{"x":1716998400000,"y":3.2447,"equityReturn":-0.36,"unitMoney":""},{"x":1717084800000,"y":3.2454,"equityReturn":0.02,"unitMoney":""},{"x":1717344000000,"y":3.2417,"equityReturn":-0.11,"unitMoney":""},{"x":1717430400000,"y":3.2525,"equityReturn":0.33,"unitMoney":""},{"x":1717516800000,"y":3.1576,"equityReturn":-2.92,"unitMoney":""},{"x":1717603200000,"y":3.0618,"equityReturn":-3.03,"unitMoney":""},{"x":1717689600000,"y":3.0369,"equityReturn":-0.81,"unitMoney":""},{"x":1717948800000,"y":2.9727,"equityReturn":-2.11,"unitMoney":""},{"x":1718035200000,"y":2.9296,"equityReturn":-1.45,"unitMoney":""},{"x":1718121600000,"y":2.8876,"equityReturn":-1.43,"unitMoney":""},{"x":1718208000000,"y":2.8915,"equityReturn":0.14,"unitMoney":""},{"x":1718294400000,"y":2.8851,"equityReturn":-0.22,"unitMoney":""},{"x":1718553600000,"y":2.9413,"equityReturn":1.95,"unitMoney":""},{"x":1718640000000,"y":2.944,"equityReturn":0.09,"unitMoney":""},{"x":1718726400000,"y":2.9335,"equityReturn":-0.36,"unitMoney":""},{"x":1718812800000,"y":2.9292,"equityReturn":-0.15,"unitMoney":""},{"x":1718899200000,"y":2.9203,"equityReturn":-0.3,"unitMoney":""},{"x":1719158400000,"y":2.8785,"equityReturn":-1.43,"unitMoney":""},{"x":1719244800000,"y":2.8258,"equityReturn":-1.83,"unitMoney":""},{"x":1719331200000,"y":2.8804,"equityReturn":1.93,"unitMoney":""},{"x":1719417600000,"y":2.8502,"equityReturn":-1.05,"unitMoney":""},{"x":1719504000000,"y":2.8138,"equityReturn":-1.28,"unitMoney":""},{"x":1719763200000,"y":2.7628,"equityReturn":-1.81,"unitMoney":""},{"x":1719849600000,"y":2.7344,"equityReturn":-1.03,"unitMoney":""},{"x":1719936000000,"y":2.6796,"equityReturn":-2.0,"unitMoney":""},{"x":1720022400000,"y":2.6479,"equityReturn":-1.18,"unitMoney":""},{"x":1720108800000,"y":2.5791,"equityReturn":-2.6,"unitMoney":""},{"x":1720368000000,"y":2.5206,"equityReturn":-2.27,"unitMoney":""},{"x":1720454400000,"y":2.5946,"equityReturn":2.94,"unitMoney":""},{"x":1720540800000,"y":2.5998,"equityReturn":0.2,"unitMoney":""},{"x":1720627200000,"y":2.6119,"equityReturn":0.47,"unitMoney":""},{"x":1720713600000,"y":2.6598,"equityReturn":1.83,"unitMoney":""},{"x":1720972800000,"y":2.6768,"equityReturn":0.64,"unitMoney":""},{"x":1721059200000,"y":2.6907,"equityReturn":0.52,"unitMoney":""},{"x":1721145600000,"y":2.6755,"equityReturn":-0.56,"unitMoney":""},{"x":1721232000000,"y":2.712,"equityReturn":1.36,"unitMoney":""},{"x":1721318400000,"y":2.6815,"equityReturn":-1.12,"unitMoney":""},{"x":1721577600000,"y":2.6702,"equityReturn":-0.42,"unitMoney":""},{"x":1721664000000,"y":2.6506,"equityReturn":-0.73,"unitMoney":""},{"x":1721750400000,"y":2.696,"equityReturn":1.71,"unitMoney":""},{"x":1721836800000,"y":2.6951,"equityReturn":-0.03,"unitMoney":""},{"x":1721923200000,"y":2.6997,"equityReturn":0.17,"unitMoney":""},{"x":1722182400000,"y":2.7572,"equityReturn":2.13,"unitMoney":""},{"x":1722268800000,"y":2.8158,"equityReturn":2.13,"unitMoney":""},{"x":1722355200000,"y":2.8342,"equityReturn":0.65,"unitMoney":""},{"x":1722441600000,"y":2.847,"equityReturn":0.45,"unitMoney":""},{"x":1722528000000,"y":2.8295,"equityReturn":-0.61,"unitMoney":""},{"x":1722787200000,"y":2.83,"equityReturn":0.02,"unitMoney":""},{"x":1722873600000,"y":2.8651,"equityReturn":1.24,"unitMoney":""},{"x":1722960000000,"y":2.8865,"equityReturn":0.75,"unitMoney":""},{"x":1723046400000,"y":2.9443,"equityReturn":2.0,"unitMoney":""},{"x":1723132800000,"y":2.9648,"equityReturn":0.7,"unitMoney":""},{"x":1723392000000,"y":2.9208,"equityReturn":-1.48,"unitMoney":""},{"x":1723478400000,"y":2.8897,"equityReturn":-1.06,"unitMoney":""},{"x":1723564800000,"y":2.8019,"equityReturn":-3.04,"unitMoney":""},{"x":1723651200000,"y":2.8201,"equityReturn":0.65,"unitMoney":""},{"x":1723737600000,"y":2.7836,"equityReturn":-1.29,"unitMoney":""},{"x":1723996800000,"y":2.8059,"equityReturn":0.8,"unitMoney":""},{"x":1724083200000,"y":2.7904,"equityReturn":-0.55,"unitMoney":""},{"x":1724169600000,"y":2.7993,"equityReturn":0.32,"unitMoney":""},{"x":1724256000000,"y":2.7846,"equityReturn":-0.53,"unitMoney":""},{"x":1724342400000,"y":2.7774,"equityReturn":-0.26,"unitMoney":""},{"x":1724601600000,"y":2.7962,"equityReturn":0.68,"unitMoney":""},{"x":1724688000000,"y":2.7785,"equityReturn":-0.63,"unitMoney":""},{"x":1724774400000,"y":2.7717,"equityReturn":-0.24,"unitMoney":""},{"x":1724860800000,"y":2.7532,"equityReturn":-0.67,"unitMoney":""},{"x":1724947200000,"y":2.7387,"equityReturn":-0.53,"unitMoney":""},{"x":1725206400000,"y":2.7173,"equityReturn":-0.78,"unitMoney":""},{"x":1725292800000,"y":2.6763,"equityReturn":-1.51,"unitMoney":""},{"x":1725379200000,"y":2.669,"equityReturn":-0.27,"unitMoney":""},{"x":1725465600000,"y":2.6904,"equityReturn":0.8,"unitMoney":""},{"x":1725552000000,"y":2.6927,"equityReturn":0.09,"unitMoney":""},{"x":1725811200000,"y":2.6674,"equityReturn":-0.94,"unitMoney":""},{"x":1725897600000,"y":2.6242,"equityReturn":-1.62,"unitMoney":""},{"x":1725984000000,"y":2.7019,"equityReturn":2.96,"unitMoney":""},{"x":1726070400000,"y":2.7505,"equityReturn":1.8,"unitMoney":""},{"x":1726156800000,"y":2.7065,"equityReturn":-1.6,"unitMoney":""},{"x":1726416000000,"y":2.6568,"equityReturn":-1.84,"unitMoney":""},{"x":1726502400000,"y":2.5996,"equityReturn":-2.15,"unitMoney":""},{"x":1726588800000,"y":2.6385,"equityReturn":1.5,"unitMoney":""},{"x":1726675200000,"y":2.5755,"equityReturn":-2.39,"unitMoney":""},{"x":1726761600000,"y":2.5772,"equityReturn":0.07,"unitMoney":""},{"x":1727020800000,"y":2.5382,"equityReturn":-1.51,"unitMoney":""},{"x":1727107200000,"y":2.541,"equityReturn":0.11,"unitMoney":""},{"x":1727193600000,"y":2.5039,"equityReturn":-1.46,"unitMoney":""},{"x":1727280000000,"y":2.497,"equityReturn":-0.28,"unitMoney":""},{"x":1727366400000,"y":2.4947,"equityReturn":-0.09,"unitMoney":""},{"x":1727625600000,"y":2.5267,"equityReturn":1.28,"unitMoney":""},{"x":1727712000000,"y":2.575,"equityReturn":1.91,"unitMoney":""},{"x":1727798400000,"y":2.5912,"equityReturn":0.63,"unitMoney":""},{"x":1727884800000,"y":2.6013,"equityReturn":0.39,"unitMoney":""},{"x":1727971200000,"y":2.6609,"equityReturn":2.29,"unitMoney":""},{"x":1728230400000,"y":2.6016,"equityReturn":-2.23,"unitMoney":""},{"x":1728316800000,"y":2.6705,"equityReturn":2.65,"unitMoney":""},{"x":1728403200000,"y":2.6597,"equityReturn":-0.4,"unitMoney":""},{"x":1728489600000,"y":2.6438,"equityReturn":-0.6,"unitMoney":""},{"x":1728576000000,"y":2.6962,"equityReturn":1.98,"unitMoney":""},{"x":1728835200000,"y":2.6806,"equityReturn":-0.58,"unitMoney":""},{"x":1728921600000,"y":2.6799,"equityReturn":-0.03,"unitMoney":""},{"x":1729008000000,"y":2.711,"equityReturn":1.16,"unitMoney":""},{"x":1729094400000,"y":2.7592,"equityReturn":1.78,"unitMoney":""},{"x":1729180800000,"y":2.7122,"equityReturn":-1.7,"unitMoney":""},{"x":1729440000000,"y":2.7378,"equityReturn":0.94,"unitMoney":""},{"x":1729526400000,"y":2.753,"equityReturn":0.56,"unitMoney":""},{"x":1729612800000,"y":2.7466,"equityReturn":-0.23,"unitMoney":""},{"x":1729699200000,"y":2.8098,"equityReturn":2.3,"unitMoney":""},{"x":1729785600000,"y":2.9083,"equityReturn":3.51,"unitMoney":""},{"x":1730044800000,"y":2.9406,"equityReturn":1.11,"unitMoney":""},{"x":1730131200000,"y":2.97,"equityReturn":1.0,"unitMoney":""},{"x":1730217600000,"y":2.9381,"equityReturn":-1.07,"unitMoney":""},{"x":1730304000000,"y":2.9278,"equityReturn":-0.35,"unitMoney":""},{"x":1730390400000,"y":2.9093,"equityReturn":-0.63,"unitMoney":""},{"x":1730649600000,"y":2.9279,"equityReturn":0.64,"unitMoney":""},{"x":1730736000000,"y":2.9405,"equityReturn":0.43,"unitMoney":""},{"x":1730822400000,"y":2.9123,"equityReturn":-0.96,"unitMoney":""},{"x":1730908800000,"y":2.9049,"equityReturn":-0.25,"unitMoney":""},{"x":1730995200000,"y":2.8585,"equityReturn":-1.6,"unitMoney":""},{"x":1731254400000,"y":2.8422,"equityReturn":-0.57,"unitMoney":""},{"x":1731340800000,"y":2.8428,"equityReturn":0.02,"unitMoney":""},{"x":1731427200000,"y":2.8495,"equityReturn":0.24,"unitMoney":""},{"x":1731513600000,"y":2.8458,"equityReturn":-0.13,"unitMoney":""},{"x":1731600000000,"y":2.8524,"equityReturn":0.23,"unitMoney":""},{"x":1731859200000,"y":2.8475,"equityReturn":-0.17,"unitMoney":""},{"x":1731945600000,"y":2.8144,"equityReturn":-1.16,"unitMoney":""},{"x":1732032000000,"y":2.8464,"equityReturn":1.14,"unitMoney":""},{"x":1732118400000,"y":2.8219,"equityReturn":-0.86,"unitMoney":""},{"x":1732204800000,"y":2.8016,"equityReturn":-0.72,"unitMoney":""},{"x":1732464000000,"y":2.8413,"equityReturn":1.42,"unitMoney":""},{"x":1732550400000,"y":2.8417,"equityReturn":0.01,"unitMoney":""},{"x":1732636800000,"y":2.856,"equityReturn":0.5,"unitMoney":""},{"x":1732723200000,"y":2.9257,"equityReturn":2.44,"unitMoney":""},{"x":1732809600000,"y":2.9512,"equityReturn":0.87,"unitMoney":""},{"x":1733068800000,"y":2.9041,"equityReturn":-1.6,"unitMoney":""},{"x":1733155200000,"y":2.8639,"equityReturn":-1.38,"unitMoney":""},{"x":1733241600000,"y":2.8567,"equityReturn":-0.25,"unitMoney":""},{"x":1733328000000,"y":2.8492,"equityReturn":-0.26,"unitMoney":""},{"x":1733414400000,"y":2.8647,"equityReturn":0.54,"unitMoney":""},{"x":1733673600000,"y":2.8347,"equityReturn":-1.05,"unitMoney":""},{"x":1733760000000,"y":2.826,"equityReturn":-0.31,"unitMoney":""},{"x":1733846400000,"y":2.8109,"equityReturn":-0.53,"unitMoney":""},{"x":1733932800000,"y":2.8104,"equityReturn":-0.02,"unitMoney":""},{"x":1734019200000,"y":2.8038,"equityReturn":-0.23,"unitMoney":""},{"x":1734278400000,"y":2.7783,"equityReturn":-0.91,"unitMoney":""},{"x":1734364800000,"y":2.7527,"equityReturn":-0.92,"unitMoney":""},{"x":1734451200000,"y":2.7776,"equityReturn":0.9,"unitMoney":""},{"x":1734537600000,"y":2.7553,"equityReturn":-0.8,"unitMoney":""},{"x":1734624000000,"y":2.7377,"equityReturn":-0.64,"unitMoney":""},{"x":1734883200000,"y":2.7171,"equityReturn":-0.75,"unitMoney":""},{"x":1734969600000,"y":2.732,"equityReturn":0.55,"unitMoney":""},{"x":1735056000000,"y":2.7157,"equityReturn":-0.6,"unitMoney":""},{"x":1735142400000,"y":2.7117,"equityReturn":-0.15,"unitMoney":""},{"x":1735228800000,"y":2.6964,"equityReturn":-0.56,"unitMoney":""},{"x":1735488000000,"y":2.6701,"equityReturn":-0.98,"unitMoney":""},{"x":1735574400000,"y":2.7061,"equityReturn":1.35,"unitMoney":""},{"x":1735747200000,"y":2.6698,"equityReturn":-1.34,"unitMoney":""},{"x":1735833600000,"y":2.6402,"equityReturn":-1.11,"unitMoney":""},{"x":1736092800000,"y":2.627,"equityReturn":-0.5,"unitMoney":""},{"x":1736179200000,"y":2.6414,"equityReturn":0.55,"unitMoney":""},{"x":1736265600000,"y":2.6631,"equityReturn":0.82,"unitMoney":""},{"x":1736352000000,"y":2.6749,"equityReturn":0.44,"unitMoney":""},{"x":1736438400000,"y":2.6859,"equityReturn":0.41,"unitMoney":""},{"x":1736697600000,"y":2.6938,"equityReturn":0.29,"unitMoney":""},{"x":1736784000000,"y":2.7035,"equityReturn":0.36,"unitMoney":""},{"x":1736870400000,"y":2.7646,"equityReturn":2.26,"unitMoney":""},{"x":1736956800000,"y":2.7366,"equityReturn":-1.01,"unitMoney":""},{"x":1737043200000,"y":2.713,"equityReturn":-0.86,"unitMoney":""},{"x":1737302400000,"y":2.7254,"equityReturn":0.46,"unitMoney":""},{"x":1737388800000,"y":2.754,"equityReturn":1.05,"unitMoney":""},{"x":1737475200000,"y":2.7705,"equityReturn":0.6,"unitMoney":""},{"x":1737561600000,"y":2.7183,"equityReturn":-1.88,"unitMoney":""},{"x":1737648000000,"y":2.7198,"equityReturn":0.06,"unitMoney":""}];/*规模变动 mom-较上期环比*/var Data_fluctuationScale = {"categories":["2024-03-31","2024-06-30","2024-09-30","2024-12-31"],"series":[{"y":236.72,"mom":"-3.05%"},{"y":221.98,"mom":"-6.23%"},{"y":254.88,"mom":"14.82%"},{"y":210.42,"mom":"-17.44%"}]};/*现任基金经理*/var Data_currentFundManager =[{"id":"30189744","pic":"","name":"萧楠","star":5,"workTime":"12年又92天","fundSize":"386.25亿(6只基金)"}];
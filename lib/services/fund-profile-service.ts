@@ -0,0 +1,172 @@
+/**
+ * 基金基本面档案服务
+ *
+ * 汇总 pingzhongdata（收益、风险、基金经理、规模）、F10 基本概况页（类型、成立日期）、
+ * F10 费率页（管理费、托管费）和季报持仓（集中度、换手率），保存到本地，每天刷新一次。
+ * 持仓只对可能持有股票的基金获取，换手率只对确认的股票型、混合型、指数型基金估算
+ *
+ * pingzhongdata 获取失败时整份档案失败；其他数据源失败只记录在 warnings 中，对应字段为 null
+ */
+
+import { JsonFileStore } from '../storage/json-file-store';
+import { isFixtureMode } from '../fixtures';
+import { fetchBasicInfoPage } from '../benchmark/benchmark-service';
+import { getFeeSchedule } from '../fees/fee-schedule';
+import { getFundHoldings } from '../valuation/holdings-parser';
+import { getTurnoverRate } from '../valuation/holdings-history-service';
+import type { FundData } from '../scoring/multi-factor';
+import { fetchPingzhongData } from './pingzhongdata';
+import { FundProfile, parseBasicInfo, parsePingzhongProfile, toFundData } from './fund-profile';
+
+export type { FundProfile } from './fund-profile';
+
+// 收益、规模按日更新，档案每天刷新一次
+const REFRESH_INTERVAL = 24 * 60 * 60 * 1000;
+
+// 基金类型（如 混合型-偏股、债券型-长债、指数型-固收）
+const EQUITY_TYPE = /股票|混合|指数/;
+const NON_EQUITY_TYPE = /货币|债券|固收/;
+
+/**
+ * 基金档案获取失败
+ */
+export class FundProfileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FundProfileError';
+  }
+}
+
+function toPercent(rate: number | null | undefined): number | null {
+  return rate === null || rate === undefined ? null : Math.round(rate * 10000) / 100;
+}
+
+/**
+ * 基金档案服务类
+ */
+export class FundProfileService {
+  // 同一只基金的获取只执行一次，并发请求共享结果
+  private loading = new Map<string, Promise<FundProfile>>();
+
+  /**
+   * @param store - 档案存储，离线样本模式下与真实数据分开保存
+   */
+  constructor(
+    private store: JsonFileStore<FundProfile> = new JsonFileStore(isFixtureMode() ? 'fixture-fund-profiles' : 'fund-profiles')
+  ) {}
+
+  /**
+   * 获取基金档案
+   *
+   * @param fundCode - 基金代码
+   * @param refresh - 忽略刷新间隔，立即重新获取
+   */
+  async getProfile(fundCode: string, refresh: boolean = false): Promise<FundProfile> {
+    if (!refresh) {
+      const stored = await this.store.read(fundCode);
+      if (stored && Date.now() - stored.fetchedAt < REFRESH_INTERVAL) {
+        return stored;
+      }
+    }
+
+    const running = this.loading.get(fundCode);
+    if (running) return running;
+
+    const task = this.fetchProfile(fundCode).finally(() => this.loading.delete(fundCode));
+    this.loading.set(fundCode, task);
+    return task;
+  }
+
+  /**
+   * 获取评分模型使用的 FundData
+   */
+  async getFundData(fundCode: string, refresh: boolean = false): Promise<FundData> {
+    return toFundData(await this.getProfile(fundCode, refresh));
+  }
+
+  private async fetchProfile(fundCode: string): Promise<FundProfile> {
+    const script = await fetchPingzhongData(fundCode);
+    if (!script) {
+      throw new FundProfileError(`无法获取基金 ${fundCode} 的 pingzhongdata 数据`);
+    }
+
+    const base = parsePingzhongProfile(script, fundCode);
+    const warnings: string[] = [];
+
+    const [basicPage, fees] = await Promise.allSettled([
+      fetchBasicInfoPage(fundCode),
+      getFeeSchedule(fundCode),
+    ]);
+
+    const basic = basicPage.status === 'fulfilled' && basicPage.value ? parseBasicInfo(basicPage.value) : null;
+    if (!basic) warnings.push('基本概况页获取失败，缺少基金类型和成立日期');
+
+    const schedule = fees.status === 'fulfilled' ? fees.value : null;
+    if (!schedule) warnings.push('费率页获取失败，缺少管理费和托管费');
+
+    // 货币型、债券型没有股票持仓，跳过持仓页；换手率要拉取多年季报，只对确认的权益类基金估算
+    const type = basic?.type ?? null;
+    const hasStocks = !type || !NON_EQUITY_TYPE.test(type);
+    const isEquity = hasStocks && !!type && EQUITY_TYPE.test(type);
+    const [holdings, turnoverRate] = await Promise.allSettled([
+      hasStocks ? getFundHoldings(fundCode) : Promise.resolve(null),
+      isEquity ? getTurnoverRate(fundCode) : Promise.resolve(null),
+    ]);
+
+    const latestHoldings = holdings.status === 'fulfilled' && holdings.value?.success ? holdings.value.reports[0] : undefined;
+    if (!latestHoldings && hasStocks) warnings.push('没有股票持仓数据');
+
+    const turnover = turnoverRate.status === 'fulfilled' ? turnoverRate.value ?? null : null;
+    if (latestHoldings && turnover === null) warnings.push('持仓报告期不足，无法估算换手率');
+
+    if (base.returns.return3Y === null) warnings.push('净值历史不足 3 年');
+    if (base.risk.volatility === null) warnings.push('净值历史过短，无法计算风险指标');
+    if (base.managers.length === 0) warnings.push('缺少基金经理信息');
+
+    const profile: FundProfile = {
+      code: fundCode,
+      name: base.name,
+      type: basic?.type ?? null,
+      inceptionDate: basic?.inceptionDate ?? null,
+      company: basic?.company ?? null,
+      benchmark: basic?.benchmark ?? null,
+      navDate: base.navDate,
+      returns: base.returns,
+      risk: base.risk,
+      periods: base.periods,
+      managers: base.managers,
+      fees: {
+        managementFee: toPercent(schedule?.managementFee),
+        custodyFee: toPercent(schedule?.custodyFee),
+        salesServiceFee: toPercent(schedule?.salesServiceFee),
+        purchaseRate: base.purchaseRate,
+      },
+      scale: base.scale,
+      holdings: {
+        reportDate: latestHoldings?.reportDate ?? null,
+        concentration: latestHoldings?.totalRatio ?? null,
+        turnoverRate: turnover,
+      },
+      warnings,
+      fetchedAt: Date.now(),
+    };
+
+    // 保存失败（如只读部署环境）不影响本次返回的概况
+    await this.store.write(fundCode, profile).catch(error => {
+      console.error(`保存 ${fundCode} 基金概况失败:`, error);
+    });
+    return profile;
+  }
+}
+
+// 导出单例实例
+export const fundProfileService = new FundProfileService();
+
+// 导出便捷函数
+export async function getFundProfile(fundCode: string, refresh?: boolean): Promise<FundProfile> {
+  return fundProfileService.getProfile(fundCode, refresh);
+}
+
+export async function getFundData(fundCode: string, refresh?: boolean): Promise<FundData> {
+  return fundProfileService.getFundData(fundCode, refresh);
+}
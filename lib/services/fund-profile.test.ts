@@ -0,0 +1,185 @@
+/**
+ * 基金档案解析与 FundData 映射测试
+ *
+ * - 构造的净值走势：收益、波动率、最大回撤和夏普比率可以直接算出
+ * - 离线样本（110022、005827）：pingzhongdata（原始响应 + 构造的补充变量）、基本概况页和费率页，
+ *   映射结果与 fixtures/expected 下同名 JSON 比较，用 UPDATE_GOLDEN=1 npm test 重新生成
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { parseFeeSchedule } from '../fees/fee-schedule';
+import { FundProfile, parseBasicInfo, parsePingzhongProfile, parseWorkTime, toFundData } from './fund-profile';
+import { fetchPingzhongData } from './pingzhongdata';
+
+const EXPECTED_DIR = path.join(process.cwd(), 'lib', 'services', 'fixtures', 'expected');
+
+/**
+ * 北京时间零点的毫秒时间戳
+ */
+function beijingMidnight(date: Date): number {
+  return date.getTime() - 8 * 60 * 60 * 1000;
+}
+
+/**
+ * 从 2022-01-01 起逐日的净值走势：前 150 天每天 +0.2%，随后 50 天每天 -0.5%，最后 199 天每天 +0.2%
+ */
+function buildScript(): { script: string; returns: number[] } {
+  const returns: number[] = [];
+  for (let k = 1; k < 400; k++) {
+    returns.push(k > 150 && k <= 200 ? -0.005 : 0.002);
+  }
+
+  const trend = [0, ...returns].map((r, k) => ({
+    x: beijingMidnight(new Date(Date.UTC(2022, 0, 1 + k))),
+    y: 1,
+    equityReturn: Math.round(r * 10000) / 100,
+    unitMoney: '',
+  }));
+  const managers = [
+    { id: '1', pic: '', name: '甲', star: 4, workTime: '3年又146天', fundSize: '20.5亿(2只基金)' },
+    { id: '2', pic: '', name: '乙', star: 5, workTime: '8年又73天', fundSize: '120.30亿(5只基金)' },
+  ];
+  const scale = { categories: ['2022-09-30', '2022-12-31'], series: [{ y: 35.2, mom: '1.00%' }, { y: 42.8, mom: '21.59%' }] };
+
+  const script = [
+    'var fS_name = "测试基金";var fS_code = "000001";var fund_Rate="0.12";var syl_1n="99.99";',
+    `/*单位净值走势*/var Data_netWorthTrend = ${JSON.stringify(trend)};`,
+    `/*规模变动*/var Data_fluctuationScale = ${JSON.stringify(scale)};`,
+    `/*现任基金经理*/var Data_currentFundManager =${JSON.stringify(managers)};`,
+  ].join('');
+  return { script, returns };
+}
+
+function assertClose(actual: number | undefined, expected: number, tolerance: number, message: string) {
+  assert.ok(actual !== undefined && Math.abs(actual - expected) <= tolerance, `${message}: ${actual} 与 ${expected} 相差过大`);
+}
+
+function toProfile(base: ReturnType<typeof parsePingzhongProfile>, extra: Partial<FundProfile> = {}): FundProfile {
+  return {
+    ...base,
+    type: null,
+    inceptionDate: null,
+    company: null,
+    benchmark: null,
+    fees: { managementFee: null, custodyFee: null, salesServiceFee: null, purchaseRate: base.purchaseRate },
+    holdings: { reportDate: null, concentration: null, turnoverRate: null },
+    warnings: [],
+    fetchedAt: 0,
+    ...extra,
+  };
+}
+
+test('parseWorkTime converts years and days', () => {
+  assert.equal(parseWorkTime('12年又92天'), 12.25);
+  assert.equal(parseWorkTime('3年又146天'), 3.4);
+  assert.equal(parseWorkTime('200天'), 0.55);
+  assert.equal(parseWorkTime(''), null);
+});
+
+test('toFundData maps returns, risk, lead manager, scale and fees from a constructed series', () => {
+  const { script, returns } = buildScript();
+  const base = parsePingzhongProfile(script, '000001');
+  const data = toFundData(toProfile(base, {
+    fees: { managementFee: 1.2, custodyFee: 0.2, salesServiceFee: 0, purchaseRate: base.purchaseRate },
+  }));
+
+  assert.equal(base.navDate, '2023-02-04');
+
+  // 近 1 年从 2022-02-04（不含）起算：第 34 天之后的 365 个交易日，其中 50 天下跌
+  const growth1Y = Math.pow(1.002, 315) * Math.pow(0.995, 50);
+  assert.equal(data.return1Y, Math.round((growth1Y - 1) * 10000) / 100);
+  // 历史不足 3 年、5 年，不用 syl 兜底
+  assert.equal(data.return3Y, undefined);
+  assert.equal(data.return5Y, undefined);
+
+  // 风险指标覆盖全部 399 个日收益
+  const mean = returns.reduce((s, r) => s + r, 0) / returns.length;
+  const variance = returns.reduce((s, r) => s + (r - mean) ** 2, 0) / (returns.length - 1);
+  const volatility = Math.sqrt(variance) * Math.sqrt(250);
+  const annualReturn = Math.pow(returns.reduce((g, r) => g * (1 + r), 1), 250 / returns.length) - 1;
+  assertClose(data.volatility, volatility * 100, 0.01, '年化波动率');
+  assertClose(data.maxDrawdown, (1 - Math.pow(0.995, 50)) * 100, 0.01, '最大回撤');
+  assertClose(data.sharpeRatio, (annualReturn - 0.03) / volatility, 0.01, '夏普比率');
+
+  // 任职年限最长的基金经理
+  assert.equal(data.managerExperience, 8.2);
+  assert.equal(data.managerScale, 120.3);
+  assert.equal(data.fundScale, 42.8);
+  assert.equal(data.managementFee, 1.2);
+  assert.equal(base.scale.date, '2022-12-31');
+  assert.equal(base.purchaseRate, 0.12);
+});
+
+test('parsePingzhongProfile falls back to syl_1n without a NAV trend', () => {
+  const base = parsePingzhongProfile('var fS_name = "测试基金";var syl_1n="12.34";', '000001');
+  const data = toFundData(toProfile(base));
+
+  assert.equal(base.navDate, null);
+  assert.equal(data.return1Y, 12.34);
+  assert.equal(data.volatility, undefined);
+  assert.equal(data.managerExperience, undefined);
+  assert.equal(data.fundScale, undefined);
+});
+
+/**
+ * 按服务的方式由离线样本组装档案并映射为 FundData
+ */
+async function fixtureFundData(fundCode: string) {
+  const previous = process.env.DATA_SOURCE;
+  process.env.DATA_SOURCE = 'fixture';
+  const script = await fetchPingzhongData(fundCode).finally(() => {
+    if (previous === undefined) delete process.env.DATA_SOURCE;
+    else process.env.DATA_SOURCE = previous;
+  });
+  assert.ok(script, '缺少 pingzhongdata 样本');
+
+  const [basicHtml, feeHtml] = await Promise.all([
+    fs.readFile(path.join(process.cwd(), 'lib', 'benchmark', 'fixtures', `jbgk_${fundCode}.html`), 'utf-8'),
+    fs.readFile(path.join(process.cwd(), 'lib', 'fees', 'fixtures', `jjfl_${fundCode}.html`), 'utf-8'),
+  ]);
+  const base = parsePingzhongProfile(script!, fundCode);
+  const schedule = parseFeeSchedule(feeHtml, fundCode);
+  const percent = (rate: number) => Math.round(rate * 10000) / 100;
+
+  return toFundData(toProfile(base, {
+    ...parseBasicInfo(basicHtml),
+    fees: {
+      managementFee: percent(schedule.managementFee),
+      custodyFee: percent(schedule.custodyFee),
+      salesServiceFee: percent(schedule.salesServiceFee),
+      purchaseRate: base.purchaseRate,
+    },
+  }));
+}
+
+for (const fundCode of ['110022', '005827']) {
+  test(`toFundData ${fundCode} from fixtures`, async () => {
+    // 缺失字段为 undefined，按 JSON 序列化后比较
+    const data = JSON.parse(JSON.stringify(await fixtureFundData(fundCode)));
+    const expectedPath = path.join(EXPECTED_DIR, `${fundCode}.json`);
+
+    if (process.env.UPDATE_GOLDEN === '1') {
+      await fs.mkdir(EXPECTED_DIR, { recursive: true });
+      await fs.writeFile(expectedPath, `${JSON.stringify(data, null, 2)}\n`, 'utf-8');
+      return;
+    }
+
+    assert.deepEqual(data, JSON.parse(await fs.readFile(expectedPath, 'utf-8')));
+  });
+}
+
+test('110022 fixture maps the recorded fees and the supplemental manager and scale', async () => {
+  const data = await fixtureFundData('110022');
+
+  assert.equal(data.type, '股票型');
+  assert.equal(data.managementFee, 1.2);
+  assert.equal(data.managerExperience, 12.25);
+  assert.equal(data.managerScale, 386.25);
+  assert.equal(data.fundScale, 210.42);
+  assert.ok(data.volatility! > 0);
+  assert.ok(data.maxDrawdown! > 0);
+  assert.equal(typeof data.sharpeRatio, 'number');
+});
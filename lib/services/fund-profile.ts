@@ -0,0 +1,297 @@
+/**
+ * 基金基本面档案
+ *
+ * 把 pingzhongdata 脚本、F10 基本概况页、费率页和持仓数据整理为一份档案，并映射为评分模型使用的 FundData:
+ * - 收益率：由 Data_netWorthTrend 的日净值回报（已处理分红）连乘得到近 1/3/5 年收益，历史不足的区间为 null
+ * - 风险：最近 3 年（不足 3 年取全部）日收益率的年化波动率、最大回撤和夏普比率
+ * - 区间表现：近 6 月、1/3/5 年各自的收益、波动率、最大回撤和夏普比率，供基金筛选使用
+ * - 基金经理：Data_currentFundManager 中任职年限最长的一位
+ * - 规模：Data_fluctuationScale 最新一期净资产
+ *
+ * 所有百分数字段均以百分数表示（5 表示 5%）
+ */
+
+import * as cheerio from 'cheerio';
+import { extractVariable } from './pingzhongdata';
+import { computeSeriesRiskMetrics, DailyReturn } from '../risk/metrics';
+import type { FundData } from '../scoring/multi-factor';
+
+/**
+ * 基金经理
+ */
+export interface FundManagerProfile {
+  name: string;
+  years: number | null;        // 从业年限
+  managedScale: number | null; // 在管规模（亿元）
+  fundCount: number | null;    // 在管基金数
+  star: number | null;         // 天天基金评级
+}
+
+export type PeriodWindow = '6m' | '1y' | '3y' | '5y';
+
+export const PERIOD_WINDOWS: Record<PeriodWindow, { label: string; months: number }> = {
+  '6m': { label: '近6月', months: 6 },
+  '1y': { label: '近1年', months: 12 },
+  '3y': { label: '近3年', months: 36 },
+  '5y': { label: '近5年', months: 60 },
+};
+
+/**
+ * 区间表现
+ */
+export interface PeriodStats {
+  return: number;              // 区间收益 (%)
+  volatility: number;          // 年化波动率 (%)
+  maxDrawdown: number;         // 最大回撤 (%)
+  sharpeRatio: number;
+}
+
+/**
+ * 基金档案
+ */
+export interface FundProfile {
+  code: string;
+  name: string;
+  type: string | null;            // 基金类型，如 混合型-偏股
+  inceptionDate: string | null;
+  company: string | null;
+  benchmark: string | null;       // 业绩比较基准描述
+  navDate: string | null;         // 净值序列最新日期
+  returns: {
+    return1Y: number | null;
+    return3Y: number | null;
+    return5Y: number | null;
+  };
+  risk: {
+    window: string | null;        // 计算区间，如 2022-01-24 ~ 2025-01-24
+    volatility: number | null;    // 年化波动率 (%)
+    maxDrawdown: number | null;   // 最大回撤 (%)
+    sharpeRatio: number | null;
+  };
+  periods: Record<PeriodWindow, PeriodStats | null>;   // 净值历史不足该区间时为 null
+  managers: FundManagerProfile[];
+  fees: {
+    managementFee: number | null; // 管理费率 (%/年)
+    custodyFee: number | null;    // 托管费率 (%/年)
+    salesServiceFee: number | null;
+    purchaseRate: number | null;  // 平台申购费率 (%)
+  };
+  scale: { value: number | null; date: string | null };   // 基金规模（亿元）
+  holdings: {
+    reportDate: string | null;
+    concentration: number | null; // 前十大重仓股占净值比例 (%)
+    turnoverRate: number | null;  // 估算年化换手率 (%)
+  };
+  warnings: string[];             // 获取失败或缺失的数据项
+  fetchedAt: number;
+}
+
+/**
+ * pingzhongdata 中可直接取得的部分
+ */
+export type PingzhongProfile = Pick<FundProfile, 'code' | 'name' | 'navDate' | 'returns' | 'risk' | 'periods' | 'managers' | 'scale'> & {
+  purchaseRate: number | null;
+};
+
+interface NetWorthPoint {
+  x: number;
+  y: number;
+  equityReturn: number | string;
+  unitMoney?: string;
+}
+
+// 风险指标的计算区间（年）
+const RISK_WINDOW_YEARS = 3;
+
+// 计算风险指标至少需要的交易日数
+const MIN_RISK_OBSERVATIONS = 60;
+
+const RISK_FREE_RATE = 0.03;
+
+function round(value: number, digits: number = 2): number {
+  return Math.round(value * 10 ** digits) / 10 ** digits;
+}
+
+function toNumber(value: unknown): number | null {
+  const n = typeof value === 'number' ? value : parseFloat(String(value ?? '').replace(/[,%]/g, ''));
+  return isFinite(n) ? n : null;
+}
+
+/**
+ * 毫秒时间戳转为北京时间日期
+ */
+function toDate(timestamp: number): string {
+  return new Date(timestamp + 8 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+function monthsBefore(date: string, months: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCMonth(d.getUTCMonth() - months);
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * 解析任职年限，如 "12年又92天" → 12.25
+ */
+export function parseWorkTime(text: string): number | null {
+  const match = (text || '').match(/(?:(\d+)年)?(?:又)?(?:(\d+)天)?/);
+  if (!match || (!match[1] && !match[2])) return null;
+  return round(parseInt(match[1] || '0', 10) + parseInt(match[2] || '0', 10) / 365);
+}
+
+/**
+ * 解析在管规模，如 "386.25亿(6只基金)" → { scale: 386.25, count: 6 }
+ */
+export function parseManagedScale(text: string): { scale: number | null; count: number | null } {
+  const scale = (text || '').match(/([\d.]+)亿/);
+  const count = (text || '').match(/(\d+)只/);
+  return {
+    scale: scale ? parseFloat(scale[1]) : null,
+    count: count ? parseInt(count[1], 10) : null,
+  };
+}
+
+/**
+ * 由日净值回报序列计算区间收益 (%)
+ *
+ * @param returns - 按日期升序的日收益率
+ * @param from - 区间起点（不含）
+ * @returns 序列起点晚于区间起点时返回 null
+ */
+export function periodReturn(returns: DailyReturn[], from: string): number | null {
+  if (returns.length === 0 || returns[0].date > from) return null;
+  const growth = returns.filter(r => r.date > from).reduce((acc, r) => acc * (1 + r.value), 1);
+  return round((growth - 1) * 100);
+}
+
+/**
+ * 解析 pingzhongdata 脚本
+ */
+export function parsePingzhongProfile(script: string, fundCode: string): PingzhongProfile {
+  const name = extractVariable<string>(script, 'fS_name') || fundCode;
+  const trend = extractVariable<NetWorthPoint[]>(script, 'Data_netWorthTrend') || [];
+
+  const returns: DailyReturn[] = trend
+    .slice(1)
+    .map(p => ({ date: toDate(p.x), value: (toNumber(p.equityReturn) ?? NaN) / 100 }))
+    .filter(r => isFinite(r.value));
+  const navDate = trend.length > 0 ? toDate(trend[trend.length - 1].x) : null;
+
+  // 区间收益：第一天没有回报，起点取序列第一天
+  const withStart = trend.length > 0 ? [{ date: toDate(trend[0].x), value: 0 }, ...returns] : [];
+  const since = (years: number) => (navDate ? periodReturn(withStart, monthsBefore(navDate, years * 12)) : null);
+  const return1Y = since(1) ?? toNumber(extractVariable<string>(script, 'syl_1n'));
+
+  let risk: PingzhongProfile['risk'] = { window: null, volatility: null, maxDrawdown: null, sharpeRatio: null };
+  if (navDate) {
+    const windowed = returns.filter(r => r.date > monthsBefore(navDate, RISK_WINDOW_YEARS * 12));
+    if (windowed.length >= MIN_RISK_OBSERVATIONS) {
+      const metrics = computeSeriesRiskMetrics(windowed, RISK_FREE_RATE);
+      risk = {
+        window: `${metrics.startDate} ~ ${metrics.endDate}`,
+        volatility: round(metrics.annualizedVolatility * 100),
+        maxDrawdown: round(metrics.drawdown.maxDrawdown * 100),
+        sharpeRatio: round(metrics.sharpeRatio),
+      };
+    }
+  }
+
+  const periods = {} as Record<PeriodWindow, PeriodStats | null>;
+  (Object.keys(PERIOD_WINDOWS) as PeriodWindow[]).forEach(window => {
+    const from = navDate ? monthsBefore(navDate, PERIOD_WINDOWS[window].months) : null;
+    const total = from ? periodReturn(withStart, from) : null;
+    const windowed = from ? returns.filter(r => r.date > from) : [];
+
+    if (total === null || windowed.length < 2) {
+      periods[window] = null;
+      return;
+    }
+
+    const metrics = computeSeriesRiskMetrics(windowed, RISK_FREE_RATE);
+    periods[window] = {
+      return: total,
+      volatility: round(metrics.annualizedVolatility * 100),
+      maxDrawdown: round(metrics.drawdown.maxDrawdown * 100),
+      sharpeRatio: round(metrics.sharpeRatio),
+    };
+  });
+
+  const managers = (extractVariable<any[]>(script, 'Data_currentFundManager') || []).map(m => {
+    const managed = parseManagedScale(m.fundSize);
+    return {
+      name: m.name,
+      years: parseWorkTime(m.workTime),
+      managedScale: managed.scale,
+      fundCount: managed.count,
+      star: toNumber(m.star),
+    };
+  });
+
+  const fluctuation = extractVariable<{ categories: string[]; series: { y: number }[] }>(script, 'Data_fluctuationScale');
+  const lastScale = fluctuation?.series?.length ? fluctuation.series.length - 1 : -1;
+
+  return {
+    code: fundCode,
+    name,
+    navDate,
+    returns: {
+      return1Y,
+      return3Y: since(3),
+      return5Y: since(5),
+    },
+    risk,
+    periods,
+    managers,
+    scale: {
+      value: lastScale >= 0 ? toNumber(fluctuation!.series[lastScale].y) : null,
+      date: lastScale >= 0 ? fluctuation!.categories[lastScale] || null : null,
+    },
+    purchaseRate: toNumber(extractVariable<string>(script, 'fund_Rate')),
+  };
+}
+
+/**
+ * 解析 F10 基本概况页中的基金类型、成立日期、基金管理人和业绩比较基准
+ */
+export function parseBasicInfo(html: string): Pick<FundProfile, 'type' | 'inceptionDate' | 'company' | 'benchmark'> {
+  const $ = cheerio.load(html);
+  const field = (label: string) => {
+    const text = $('th').filter((_, el) => $(el).text().trim() === label).first().next('td').text().trim();
+    return text && text !== '--' ? text : null;
+  };
+
+  const inception = field('成立日期/规模')?.match(/\d{4}-\d{2}-\d{2}/);
+  const benchmark = field('业绩比较基准');
+  return {
+    type: field('基金类型'),
+    inceptionDate: inception ? inception[0] : null,
+    company: field('基金管理人'),
+    benchmark: benchmark && !benchmark.includes('暂无') ? benchmark : null,
+  };
+}
+
+/**
+ * 映射为评分模型使用的 FundData，缺失的数据保持 undefined
+ */
+export function toFundData(profile: FundProfile): FundData {
+  const optional = (value: number | null) => (value === null ? undefined : value);
+  const lead = [...profile.managers].sort((a, b) => (b.years ?? 0) - (a.years ?? 0))[0];
+
+  return {
+    code: profile.code,
+    name: profile.name,
+    type: profile.type || '',
+    return1Y: optional(profile.returns.return1Y),
+    return3Y: optional(profile.returns.return3Y),
+    return5Y: optional(profile.returns.return5Y),
+    volatility: optional(profile.risk.volatility),
+    maxDrawdown: optional(profile.risk.maxDrawdown),
+    sharpeRatio: optional(profile.risk.sharpeRatio),
+    managerExperience: optional(lead?.years ?? null),
+    managerScale: optional(lead?.managedScale ?? null),
+    managementFee: optional(profile.fees.managementFee),
+    fundScale: optional(profile.scale.value),
+    holdingsConcentration: optional(profile.holdings.concentration),
+    turnoverRate: optional(profile.holdings.turnoverRate),
+  };
+}
@@ -2,14 +2,19 @@
  * 统一的基金搜索服务
  *
  * 提供一致的基金搜索接口，支持多种搜索方式
- * 所有模块都应该使用这个服务来搜索基金
+ * 所有模块都应该使用这个服务来搜索基金，关键词搜索基于 lib/search 中的共享索引
  */
 
+import { isFixtureMode } from '../fixtures';
+import { getFundUniverse, searchFundUniverse } from '../search/fund-universe-service';
+
 export interface FundSearchResult {
   code: string;
   name: string;
   type: string;
   pinyin?: string;
+  shareClass?: string | null;   // 份额类别，如 A、C
+  groupKey?: string;            // 同一基金不同份额相同
 }
 
 export interface FundDetailResult {
@@ -25,59 +30,26 @@ export interface FundDetailResult {
  * 基金搜索服务类
  */
 export class FundSearchService {
-  private static cache: Map<string, { data: FundSearchResult[]; timestamp: number }> = new Map();
-  private static CACHE_TTL = 5 * 60 * 1000; // 5分钟缓存
-
   /**
-   * 从东方财富获取基金数据（服务端）
+   * 搜索基金
+   *
+   * 使用共享的基金搜索索引，按匹配质量排序，同一基金的不同份额相邻；没有关键词时返回列表前 50 只
    */
-  private async fetchFromEastmoney(keyword?: string): Promise<FundSearchResult[]> {
+  async search(keyword: string = '', limit: number = 20): Promise<FundSearchResult[]> {
     try {
-      const url = `https://fund.eastmoney.com/js/fundcode_search.js?timestamp=${Date.now()}`;
-      const response = await fetch(url);
-      const text = await response.text();
-
-      // 解析返回的数据（格式: var r = [...]）
-      const match = text.match(/var r = (\[.*?\]);/);
-      if (!match) {
-        console.warn('无法解析基金数据');
-        return [];
+      if (!keyword.trim()) {
+        const universe = await getFundUniverse();
+        return universe.funds.slice(0, 50).map(({ code, name, type, pinyin }) => ({ code, name, type, pinyin }));
       }
 
-      const fundsData = JSON.parse(match[1]);
-
-      // 如果有关键词，进行过滤
-      // 数据格式: [code, pinyin, name, type, ...]
-      if (keyword && keyword.trim()) {
-        return fundsData
-          .filter((fund: any[]) => {
-            const code = fund[0] || '';
-            const pinyin = fund[1] || '';
-            const name = fund[2] || '';
-            const type = fund[3] || '';
-
-            return (
-              code.includes(keyword) ||
-              name.toLowerCase().includes(keyword.toLowerCase()) ||
-              pinyin.toLowerCase().includes(keyword.toLowerCase()) ||
-              type.toLowerCase().includes(keyword.toLowerCase())
-            );
-          })
-          .slice(0, 20)
-          .map((fund: any[]) => ({
-            code: fund[0],
-            pinyin: fund[1],
-            name: fund[2],
-            type: fund[3],
-          }));
-      }
-
-      // 没有关键词时返回前 50 个
-      return fundsData.slice(0, 50).map((fund: any[]) => ({
-        code: fund[0],
-        pinyin: fund[1],
-        name: fund[2],
-        type: fund[3],
+      const { hits } = await searchFundUniverse(keyword, { limit });
+      return hits.map(hit => ({
+        code: hit.code,
+        name: hit.name,
+        type: hit.type,
+        pinyin: hit.pinyin,
+        shareClass: hit.shareClass,
+        groupKey: hit.groupKey,
       }));
     } catch (error) {
       console.error('获取基金数据失败:', error);
@@ -85,36 +57,18 @@ export class FundSearchService {
     }
   }
 
-  /**
-   * 搜索基金（带缓存）
-   */
-  async search(keyword: string = '', useCache = true): Promise<FundSearchResult[]> {
-    const cacheKey = keyword || 'all';
-
-    // 检查缓存
-    if (useCache) {
-      const cached = FundSearchService.cache.get(cacheKey);
-      if (cached && Date.now() - cached.timestamp < FundSearchService.CACHE_TTL) {
-        return cached.data;
-      }
-    }
-
-    // 获取数据
-    const results = await this.fetchFromEastmoney(keyword);
-
-    // 更新缓存
-    FundSearchService.cache.set(cacheKey, {
-      data: results,
-      timestamp: Date.now(),
-    });
-
-    return results;
-  }
-
   /**
    * 获取基金详情（实时估值）
+   *
+   * 离线样本模式下没有实时估值，只从基金列表样本中取名称
    */
   async getFundDetail(fundCode: string): Promise<FundDetailResult | null> {
+    if (isFixtureMode()) {
+      const universe = await getFundUniverse();
+      const fund = universe.funds.find(f => f.code === fundCode);
+      return fund ? { code: fund.code, name: fund.name } : null;
+    }
+
     try {
       const url = `https://fundgz.1234567.com.cn/js/${fundCode}.js?rt=${Date.now()}`;
       const response = await fetch(url);
@@ -169,19 +123,15 @@ export class FundSearchService {
     return results;
   }
 
-  /**
-   * 清除缓存
-   */
-  static clearCache(): void {
-    FundSearchService.cache.clear();
-  }
-
   /**
    * 获取热门基金（按类型）
    */
   async getPopularFundsByType(type: string, limit = 10): Promise<FundSearchResult[]> {
-    const results = await this.search(type);
-    return results.slice(0, limit);
+    const universe = await getFundUniverse();
+    return universe.funds
+      .filter(f => f.type.includes(type))
+      .slice(0, limit)
+      .map(({ code, name, type, pinyin }) => ({ code, name, type, pinyin }));
   }
 
   /**
@@ -197,8 +147,8 @@ export class FundSearchService {
 export const fundSearchService = new FundSearchService();
 
 // 导出便捷函数
-export async function searchFunds(keyword?: string): Promise<FundSearchResult[]> {
-  return fundSearchService.search(keyword);
+export async function searchFunds(keyword?: string, limit?: number): Promise<FundSearchResult[]> {
+  return fundSearchService.search(keyword, limit);
 }
 
 export async function getFundDetail(fundCode: string): Promise<FundDetailResult | null> {
@@ -0,0 +1,82 @@
+/**
+ * 天天基金 pingzhongdata 数据
+ *
+ * https://fund.eastmoney.com/pingzhongdata/{基金代码}.js 是一段 JS 脚本，
+ * 以 var 变量的形式给出基金名称、费率、收益率、资产配置、净值走势等数据，例如:
+ * var fS_name = "易方达消费行业股票";var Data_assetAllocation = {"series":[...],"categories":[...]};
+ */
+
+import { isFixtureMode, readFixture } from '../fixtures';
+
+// 脚本按日更新，缓存 1 小时
+const scriptCache = new Map<string, { data: string; timestamp: number }>();
+const CACHE_TTL = 60 * 60 * 1000;
+
+/**
+ * 读取离线样本：{基金代码}.js 为接口原始响应，
+ * {基金代码}.synthetic.js 为构造的补充变量（净值走势等录制时缺失的数据），存在时拼接在原始响应之后
+ */
+async function readFixtureScript(fundCode: string): Promise<string | null> {
+  const [recorded, synthetic] = await Promise.all([
+    readFixture('services', 'fixtures', 'pingzhongdata', `${fundCode}.js`),
+    readFixture('services', 'fixtures', 'pingzhongdata', `${fundCode}.synthetic.js`),
+  ]);
+  if (recorded === null) return null;
+  return synthetic === null ? recorded : `${recorded}\n${synthetic}`;
+}
+
+/**
+ * 获取基金的 pingzhongdata 脚本原文
+ *
+ * @param fundCode - 基金代码
+ * @returns 脚本文本，获取失败时返回 null
+ */
+export async function fetchPingzhongData(fundCode: string): Promise<string | null> {
+  if (isFixtureMode()) {
+    return readFixtureScript(fundCode);
+  }
+
+  const cached = scriptCache.get(fundCode);
+  if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
+    return cached.data;
+  }
+
+  try {
+    const response = await fetch(`https://fund.eastmoney.com/pingzhongdata/${fundCode}.js?v=${Date.now()}`, {
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+        'Referer': `https://fund.eastmoney.com/${fundCode}.html`,
+      },
+      signal: AbortSignal.timeout(10000),
+    });
+
+    if (!response.ok) {
+      return null;
+    }
+
+    const text = await response.text();
+    scriptCache.set(fundCode, { data: text, timestamp: Date.now() });
+    return text;
+  } catch (error) {
+    console.error(`获取基金 ${fundCode} pingzhongdata 失败:`, error);
+    return null;
+  }
+}
+
+/**
+ * 从脚本中取出指定变量的值并按 JSON 解析
+ *
+ * @param script - pingzhongdata 脚本原文
+ * @param name - 变量名，如 Data_assetAllocation
+ * @returns 变量值，不存在或无法解析时返回 undefined
+ */
+export function extractVariable<T = unknown>(script: string, name: string): T | undefined {
+  const match = script.match(new RegExp(`var\\s+${name}\\s*=\\s*([\\s\\S]*?);\\s*(?:/\\*|var\\s|$)`));
+  if (!match) return undefined;
+
+  try {
+    return JSON.parse(match[1]) as T;
+  } catch {
+    return undefined;
+  }
+}
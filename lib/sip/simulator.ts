@@ -0,0 +1,539 @@
+/**
+ * 定投模拟
+ *
+ * 按定投计划在历史净值上逐日回放：扣款日遇非交易日顺延到下一交易日，按当日单位净值确认份额，
+ * 现金分红按除息日净值再投资，份额折算按折算比例调整份额
+ *
+ * 支持的定投方式:
+ * - fixed: 定额定投，每期投入固定金额
+ * - value-averaging: 价值平均，每期把持仓市值补足到目标市值（目标市值每期增加基准金额）
+ * - percentile: 估值分位定投，净值处于回看窗口内低位时多投、高位时少投
+ * - ma-deviation: 均线偏离定投，净值低于均线时多投、高于均线时少投
+ *
+ * 智能定投的信号只使用扣款日之前的净值，避免未来函数
+ */
+
+import { getNavHistory, NavRecord } from '../nav/nav-history-service';
+import { DailyReturn, DrawdownInfo, maxDrawdown } from '../risk/metrics';
+import { CashFlow, xirr } from '../performance/xirr';
+import { getFeeSchedule } from '../fees/fee-schedule';
+import { parseDividendText } from '../events/fund-events';
+
+export type SipFrequency = 'weekly' | 'biweekly' | 'monthly';
+export type SipStrategy = 'fixed' | 'value-averaging' | 'percentile' | 'ma-deviation';
+
+/**
+ * 定投计划
+ */
+export interface SipPlan {
+  amount: number;                // 每期基准金额（元）
+  frequency: SipFrequency;
+  startDate: string;             // 开始日期 (YYYY-MM-DD)
+  endDate?: string;              // 结束日期，默认最新净值日
+  dayOfWeek?: number;            // 每周/双周扣款日，1-5 表示周一至周五，默认 1
+  dayOfMonth?: number;           // 每月扣款日，1-28，默认 1
+  strategy?: SipStrategy;        // 默认 fixed
+  minMultiplier?: number;        // 智能定投/价值平均单期金额下限倍数，默认 0.5（价值平均为 0）
+  maxMultiplier?: number;        // 单期金额上限倍数，默认 2
+  percentileWindow?: number;     // 估值分位回看交易日数，默认 750（约 3 年）
+  maWindow?: number;             // 均线交易日数，默认 250
+  maSensitivity?: number;        // 均线偏离敏感度：倍数 = 1 - 偏离 × 敏感度，默认 5
+  targetGrowthRate?: number;     // 价值平均目标市值的年化增长率，默认 0
+  allowSell?: boolean;           // 价值平均在市值超过目标时是否赎回，默认 false
+  feeRate?: number;              // 申购费率，缺省按费率页优惠费率
+  redemptionFeeRate?: number;    // 价值平均赎回时的赎回费率，默认 0.5%
+}
+
+/**
+ * 单期扣款（或价值平均的赎回）
+ */
+export interface SipContribution {
+  scheduledDate: string;         // 计划扣款日
+  date: string;                  // 实际确认日（交易日）
+  nav: number;
+  amount: number;                // 投入金额（含申购费），赎回时为负的到账金额
+  fee: number;
+  shares: number;                // 确认份额，赎回时为负
+  multiplier: number;            // 相对基准金额的倍数
+  signal: number | null;         // 估值分位 (0-1) 或均线偏离（小数），定额与价值平均为 null
+}
+
+/**
+ * 每日持仓
+ */
+export interface SipValuePoint {
+  date: string;
+  nav: number;
+  shares: number;
+  invested: number;              // 累计净投入（投入 - 赎回到账）
+  marketValue: number;
+  profit: number;
+}
+
+/**
+ * 持仓收益与风险
+ */
+export interface SipPerformance {
+  totalInvested: number;         // 累计投入（含申购费）
+  totalWithdrawn: number;        // 累计赎回到账
+  totalFees: number;
+  shares: number;
+  averageCost: number;           // 单位持仓成本 = 净投入 / 份额
+  marketValue: number;
+  profit: number;                // 市值 + 赎回到账 - 投入
+  returnRate: number;            // 收益率 = 收益 / 累计投入
+  xirr: number | null;           // 年化资金加权收益率
+  drawdown: DrawdownInfo;        // 持仓时间加权净值的最大回撤
+  maxLoss: { amount: number; percent: number; date: string | null };   // 最大浮亏（相对净投入）
+}
+
+/**
+ * 定投模拟结果
+ */
+export interface SipSimulationResult {
+  fundCode: string;
+  plan: SipPlan;
+  startDate: string;             // 第一期确认日
+  endDate: string;               // 估值日
+  finalNav: number;
+  periods: number;               // 实际执行期数
+  sip: SipPerformance;
+  lumpSum: SipPerformance & { date: string };   // 第一期确认日一次性投入同样金额
+  contributions: SipContribution[];
+  skipped: { date: string; reason: string }[];
+  series: SipValuePoint[];
+}
+
+/**
+ * 定投计划参数不合法
+ */
+export class SipPlanError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SipPlanError';
+  }
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DEFAULT_FEE_RATE = 0.0015;
+const DEFAULT_REDEMPTION_FEE_RATE = 0.005;
+const DEFAULT_PERCENTILE_WINDOW = 750;
+const DEFAULT_MA_WINDOW = 250;
+const DEFAULT_MA_SENSITIVITY = 5;
+// 智能定投信号至少需要的历史交易日数，不足时按基准金额投入
+const MIN_SIGNAL_OBSERVATIONS = 20;
+
+function round(value: number, digits: number = 2): number {
+  return Math.round(value * 10 ** digits) / 10 ** digits;
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+function yearsBetween(from: string, to: string): number {
+  return (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000 / 365;
+}
+
+/**
+ * 校验计划并补全默认值
+ */
+export function normalizePlan(plan: SipPlan): Required<Omit<SipPlan, 'endDate' | 'feeRate'>> & Pick<SipPlan, 'endDate' | 'feeRate'> {
+  if (!(plan.amount > 0)) {
+    throw new SipPlanError('每期金额应为正数');
+  }
+  if (!['weekly', 'biweekly', 'monthly'].includes(plan.frequency)) {
+    throw new SipPlanError(`不支持的定投频率: ${plan.frequency}`);
+  }
+  if (!DATE_PATTERN.test(plan.startDate || '') || (plan.endDate && !DATE_PATTERN.test(plan.endDate))) {
+    throw new SipPlanError('日期格式应为 YYYY-MM-DD');
+  }
+  if (plan.endDate && plan.endDate < plan.startDate) {
+    throw new SipPlanError('结束日期不能早于开始日期');
+  }
+
+  const strategy = plan.strategy || 'fixed';
+  if (!['fixed', 'value-averaging', 'percentile', 'ma-deviation'].includes(strategy)) {
+    throw new SipPlanError(`不支持的定投方式: ${strategy}`);
+  }
+
+  const dayOfWeek = plan.dayOfWeek ?? 1;
+  const dayOfMonth = plan.dayOfMonth ?? 1;
+  if (!Number.isInteger(dayOfWeek) || dayOfWeek < 1 || dayOfWeek > 5) {
+    throw new SipPlanError('每周扣款日应为 1-5（周一至周五）');
+  }
+  if (!Number.isInteger(dayOfMonth) || dayOfMonth < 1 || dayOfMonth > 28) {
+    throw new SipPlanError('每月扣款日应为 1-28');
+  }
+
+  const minMultiplier = plan.minMultiplier ?? (strategy === 'value-averaging' ? 0 : 0.5);
+  const maxMultiplier = plan.maxMultiplier ?? 2;
+  if (minMultiplier < 0 || maxMultiplier < minMultiplier) {
+    throw new SipPlanError('金额倍数上下限不合法');
+  }
+
+  const percentileWindow = plan.percentileWindow ?? DEFAULT_PERCENTILE_WINDOW;
+  const maWindow = plan.maWindow ?? DEFAULT_MA_WINDOW;
+  if (percentileWindow < MIN_SIGNAL_OBSERVATIONS || maWindow < 2) {
+    throw new SipPlanError(`估值分位窗口不少于 ${MIN_SIGNAL_OBSERVATIONS} 个交易日，均线不少于 2 个交易日`);
+  }
+  if (plan.feeRate !== undefined && (plan.feeRate < 0 || plan.feeRate >= 0.1)) {
+    throw new SipPlanError('申购费率应在 0 到 10% 之间');
+  }
+
+  return {
+    amount: plan.amount,
+    frequency: plan.frequency,
+    startDate: plan.startDate,
+    endDate: plan.endDate,
+    dayOfWeek,
+    dayOfMonth,
+    strategy,
+    minMultiplier,
+    maxMultiplier,
+    percentileWindow,
+    maWindow,
+    maSensitivity: plan.maSensitivity ?? DEFAULT_MA_SENSITIVITY,
+    targetGrowthRate: plan.targetGrowthRate ?? 0,
+    allowSell: plan.allowSell ?? false,
+    feeRate: plan.feeRate,
+    redemptionFeeRate: plan.redemptionFeeRate ?? DEFAULT_REDEMPTION_FEE_RATE,
+  };
+}
+
+/**
+ * 生成计划扣款日（自然日，尚未顺延到交易日）
+ */
+export function scheduleDates(
+  plan: Pick<SipPlan, 'frequency' | 'startDate' | 'dayOfWeek' | 'dayOfMonth'>,
+  endDate: string
+): string[] {
+  const dates: string[] = [];
+
+  if (plan.frequency === 'monthly') {
+    const day = plan.dayOfMonth ?? 1;
+    let [year, month] = plan.startDate.split('-').map(Number);
+    for (;;) {
+      const date = `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+      if (date > endDate) break;
+      if (date >= plan.startDate) dates.push(date);
+      month++;
+      if (month > 12) {
+        month = 1;
+        year++;
+      }
+    }
+    return dates;
+  }
+
+  // 第一个落在扣款星期的日期（getUTCDay: 0 为周日）
+  const weekday = plan.dayOfWeek ?? 1;
+  const startWeekday = new Date(`${plan.startDate}T00:00:00Z`).getUTCDay();
+  const step = plan.frequency === 'weekly' ? 7 : 14;
+  for (let date = addDays(plan.startDate, (weekday - startWeekday + 7) % 7); date <= endDate; date = addDays(date, step)) {
+    dates.push(date);
+  }
+  return dates;
+}
+
+/**
+ * 分红送配对份额的影响：现金分红按除息净值再投资，份额折算按比例调整
+ *
+ * @returns 份额乘数，无分红送配时为 1
+ */
+function shareAdjustment(record: NavRecord): number {
+  const { cashPerShare, ratio } = parseDividendText(record.dividend);
+  if (cashPerShare && record.nav > 0) {
+    return 1 + cashPerShare / record.nav;
+  }
+  return ratio || 1;
+}
+
+/**
+ * 估值分位：当前值在回看窗口内的百分位 (0-1)
+ */
+function percentileRank(window: number[], value: number): number {
+  const below = window.filter(v => v < value).length;
+  const equal = window.filter(v => v === value).length;
+  return (below + equal / 2) / window.length;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * 回放过程中的持仓
+ */
+interface ReplayState {
+  shares: number;
+  invested: number;
+  withdrawn: number;
+  fees: number;
+}
+
+/**
+ * 一次交易指令（正数为投入金额，负数为赎回市值）
+ */
+interface Order {
+  scheduledDate: string;
+  amount: number;
+  multiplier: number;
+  signal: number | null;
+}
+
+/**
+ * 逐日回放：每个交易日先处理分红送配，再执行当日指令
+ *
+ * @param orders - 根据当日净值和持仓决定当日指令
+ */
+function replay(
+  records: NavRecord[],
+  startIndex: number,
+  feeRate: number,
+  redemptionFeeRate: number,
+  orders: (index: number, state: ReplayState) => Order[]
+): { performance: SipPerformance; contributions: SipContribution[]; series: SipValuePoint[] } {
+  const state: ReplayState = { shares: 0, invested: 0, withdrawn: 0, fees: 0 };
+  const contributions: SipContribution[] = [];
+  const series: SipValuePoint[] = [];
+  const flows: CashFlow[] = [];
+  const returns: DailyReturn[] = [];
+  const maxLoss = { amount: 0, percent: 0, date: null as string | null };
+  let lastValue = 0;
+
+  for (let i = startIndex; i < records.length; i++) {
+    const record = records[i];
+    state.shares *= shareAdjustment(record);
+
+    // 时间加权收益：当日交易前市值相对前一日收盘市值
+    if (lastValue > 0) {
+      returns.push({ date: record.date, value: (state.shares * record.nav) / lastValue - 1 });
+    }
+
+    for (const order of orders(i, state)) {
+      if (order.amount > 0) {
+        const fee = round(order.amount - order.amount / (1 + feeRate));
+        const shares = round((order.amount - fee) / record.nav);
+        state.shares += shares;
+        state.invested += order.amount;
+        state.fees += fee;
+        flows.push({ date: record.date, amount: -order.amount });
+        contributions.push({
+          scheduledDate: order.scheduledDate,
+          date: record.date,
+          nav: record.nav,
+          amount: order.amount,
+          fee,
+          shares,
+          multiplier: order.multiplier,
+          signal: order.signal,
+        });
+      } else if (order.amount < 0 && state.shares > 0) {
+        const shares = Math.min(state.shares, round(-order.amount / record.nav));
+        const gross = round(shares * record.nav);
+        const fee = round(gross * redemptionFeeRate);
+        state.shares -= shares;
+        state.withdrawn += gross - fee;
+        state.fees += fee;
+        flows.push({ date: record.date, amount: gross - fee });
+        contributions.push({
+          scheduledDate: order.scheduledDate,
+          date: record.date,
+          nav: record.nav,
+          amount: -(gross - fee),
+          fee,
+          shares: -shares,
+          multiplier: order.multiplier,
+          signal: order.signal,
+        });
+      }
+    }
+
+    lastValue = state.shares * record.nav;
+    const netInvested = state.invested - state.withdrawn;
+    const profit = lastValue - netInvested;
+    series.push({
+      date: record.date,
+      nav: record.nav,
+      shares: round(state.shares),
+      invested: round(netInvested),
+      marketValue: round(lastValue),
+      profit: round(profit),
+    });
+
+    if (profit < maxLoss.amount) {
+      maxLoss.amount = round(profit);
+      maxLoss.percent = netInvested > 0 ? round(profit / netInvested, 4) : 0;
+      maxLoss.date = record.date;
+    }
+  }
+
+  const last = records[records.length - 1];
+  const marketValue = round(state.shares * last.nav);
+  const netInvested = state.invested - state.withdrawn;
+  const profit = round(marketValue + state.withdrawn - state.invested);
+
+  return {
+    performance: {
+      totalInvested: round(state.invested),
+      totalWithdrawn: round(state.withdrawn),
+      totalFees: round(state.fees),
+      shares: round(state.shares),
+      averageCost: state.shares > 0 ? round(netInvested / state.shares, 4) : 0,
+      marketValue,
+      profit,
+      returnRate: state.invested > 0 ? round(profit / state.invested, 4) : 0,
+      xirr: xirr([...flows, { date: last.date, amount: marketValue }]),
+      drawdown: maxDrawdown(returns),
+      maxLoss,
+    },
+    contributions,
+    series,
+  };
+}
+
+/**
+ * 在历史净值上模拟定投计划
+ *
+ * @param records - 按日期升序的净值记录，应包含开始日期之前用于计算信号的历史
+ * @param plan - 定投计划
+ * @param feeRate - 申购费率
+ */
+export function simulateSip(
+  fundCode: string,
+  records: NavRecord[],
+  plan: SipPlan,
+  feeRate: number = DEFAULT_FEE_RATE
+): SipSimulationResult {
+  const normalized = normalizePlan(plan);
+  const endDate = normalized.endDate || records[records.length - 1]?.date;
+  const tradable = records.filter(r => r.nav > 0 && r.date <= endDate);
+  const startIndex = tradable.findIndex(r => r.date >= normalized.startDate);
+  if (startIndex < 0) {
+    throw new SipPlanError(`基金 ${fundCode} 在 ${normalized.startDate} 之后没有净值数据`);
+  }
+
+  // 计划扣款日顺延到下一交易日
+  const scheduled = new Map<number, string[]>();
+  let cursor = startIndex;
+  for (const date of scheduleDates(normalized, tradable[tradable.length - 1].date)) {
+    while (cursor < tradable.length && tradable[cursor].date < date) cursor++;
+    if (cursor >= tradable.length) break;
+    scheduled.set(cursor, [...(scheduled.get(cursor) || []), date]);
+  }
+
+  const skipped: { date: string; reason: string }[] = [];
+  const signalValues = tradable.map(r => r.accumulatedNav || r.nav);
+  let periods = 0;
+  let targetValue = 0;
+  let lastTargetDate: string | null = null;
+
+  const signalFor = (index: number): number | null => {
+    if (normalized.strategy === 'percentile') {
+      const window = signalValues.slice(Math.max(0, index - normalized.percentileWindow), index);
+      return window.length >= MIN_SIGNAL_OBSERVATIONS ? percentileRank(window, window[window.length - 1]) : null;
+    }
+    if (normalized.strategy === 'ma-deviation') {
+      if (index < normalized.maWindow) return null;
+      const window = signalValues.slice(index - normalized.maWindow, index);
+      const ma = window.reduce((sum, v) => sum + v, 0) / window.length;
+      return window[window.length - 1] / ma - 1;
+    }
+    return null;
+  };
+
+  const sipOrders = (index: number, state: ReplayState): Order[] => {
+    const record = tradable[index];
+    return (scheduled.get(index) || []).flatMap(scheduledDate => {
+      if (record.purchaseStatus && record.purchaseStatus.includes('暂停')) {
+        skipped.push({ date: scheduledDate, reason: `${record.date} ${record.purchaseStatus}` });
+        return [];
+      }
+      periods++;
+
+      if (normalized.strategy === 'value-averaging') {
+        // 目标市值按年化增长率增长，每期再增加一个基准金额
+        targetValue = targetValue * Math.pow(1 + normalized.targetGrowthRate, lastTargetDate ? yearsBetween(lastTargetDate, record.date) : 0)
+          + normalized.amount;
+        lastTargetDate = record.date;
+        const gap = targetValue - state.shares * record.nav;
+        const amount = gap < 0 && normalized.allowSell
+          ? gap
+          : clamp(gap, normalized.minMultiplier * normalized.amount, normalized.maxMultiplier * normalized.amount);
+        return [{ scheduledDate, amount: round(amount), multiplier: round(amount / normalized.amount, 4), signal: null }];
+      }
+
+      const signal = signalFor(index);
+      let multiplier = 1;
+      if (signal !== null && normalized.strategy === 'percentile') {
+        // 分位 0 时投入上限倍数，分位 1 时投入下限倍数，中间线性插值
+        multiplier = normalized.maxMultiplier - (normalized.maxMultiplier - normalized.minMultiplier) * signal;
+      } else if (signal !== null && normalized.strategy === 'ma-deviation') {
+        multiplier = clamp(1 - signal * normalized.maSensitivity, normalized.minMultiplier, normalized.maxMultiplier);
+      }
+
+      return [{ scheduledDate, amount: round(normalized.amount * multiplier), multiplier: round(multiplier, 4), signal: signal === null ? null : round(signal, 4) }];
+    });
+  };
+
+  const sip = replay(tradable, startIndex, feeRate, normalized.redemptionFeeRate, sipOrders);
+  if (sip.contributions.length === 0) {
+    throw new SipPlanError('计划期间没有可执行的扣款');
+  }
+
+  // 一次性投入：第一期确认日投入定投的全部投入金额
+  const firstIndex = tradable.findIndex(r => r.date === sip.contributions[0].date);
+  const lumpSum = replay(tradable, firstIndex, feeRate, normalized.redemptionFeeRate, index =>
+    index === firstIndex
+      ? [{ scheduledDate: tradable[index].date, amount: sip.performance.totalInvested, multiplier: 1, signal: null }]
+      : []
+  );
+
+  const last = tradable[tradable.length - 1];
+  return {
+    fundCode,
+    plan: { ...normalized, endDate, feeRate },
+    startDate: sip.contributions[0].date,
+    endDate: last.date,
+    finalNav: last.nav,
+    periods,
+    sip: sip.performance,
+    lumpSum: { ...lumpSum.performance, date: tradable[firstIndex].date },
+    contributions: sip.contributions,
+    skipped,
+    series: sip.series.slice(sip.series.findIndex(p => p.shares > 0)),
+  };
+}
+
+/**
+ * 获取历史净值并模拟定投
+ *
+ * 申购费率缺省时取费率页第一档的优惠费率，取不到费率页时按 0.15%
+ */
+export async function runSipSimulation(fundCode: string, plan: SipPlan): Promise<SipSimulationResult> {
+  const normalized = normalizePlan(plan);
+
+  // 智能定投需要开始日期之前的净值计算信号，交易日约为自然日的 250/365
+  const signalWindow = normalized.strategy === 'percentile'
+    ? normalized.percentileWindow
+    : normalized.strategy === 'ma-deviation' ? normalized.maWindow : 0;
+  const from = addDays(normalized.startDate, -Math.ceil(signalWindow * 365 / 250) - 15);
+
+  const [records, feeRate] = await Promise.all([
+    getNavHistory(fundCode, { from, to: normalized.endDate }),
+    normalized.feeRate !== undefined
+      ? Promise.resolve(normalized.feeRate)
+      : getFeeSchedule(fundCode)
+        .then(schedule => schedule.purchase[0]?.discountRate ?? schedule.purchase[0]?.rate ?? DEFAULT_FEE_RATE)
+        .catch(() => DEFAULT_FEE_RATE),
+  ]);
+
+  if (records.length === 0) {
+    throw new Error(`无法获取基金 ${fundCode} 的历史净值`);
+  }
+
+  return simulateSip(fundCode, records, normalized, feeRate);
+}
@@ -0,0 +1,97 @@
+/**
+ * 本地 JSON 文件存储
+ *
+ * 每个命名空间对应数据目录下的一个子目录，每个键保存为一个 JSON 文件:
+ * {DATA_DIR}/{namespace}/{key}.json
+ *
+ * 数据目录默认为项目根目录下的 .data，可通过环境变量 DATA_DIR 修改
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * 数据目录
+ */
+export function getDataDir(): string {
+  return process.env.DATA_DIR || path.join(process.cwd(), '.data');
+}
+
+export class JsonFileStore<T> {
+  private dir: string;
+  // 同一个键的写入串行执行，避免并发请求互相覆盖
+  private pending = new Map<string, Promise<void>>();
+
+  /**
+   * @param namespace - 存储子目录名，如 nav-history
+   */
+  constructor(namespace: string) {
+    this.dir = path.join(getDataDir(), namespace);
+  }
+
+  private filePath(key: string): string {
+    // 键只允许字母数字和 -_，防止路径穿越
+    if (!/^[\w-]+$/.test(key)) {
+      throw new Error(`非法的存储键: ${key}`);
+    }
+    return path.join(this.dir, `${key}.json`);
+  }
+
+  /**
+   * 读取数据，不存在时返回 null
+   */
+  async read(key: string): Promise<T | null> {
+    try {
+      const text = await fs.readFile(this.filePath(key), 'utf-8');
+      return JSON.parse(text) as T;
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  /**
+   * 写入数据（先写临时文件再重命名，保证文件完整）
+   */
+  async write(key: string, value: T): Promise<void> {
+    const target = this.filePath(key);
+    const previous = this.pending.get(key) || Promise.resolve();
+
+    const task = previous.catch(() => undefined).then(async () => {
+      await fs.mkdir(this.dir, { recursive: true });
+      const tmp = `${target}.${process.pid}.${Date.now()}.tmp`;
+      await fs.writeFile(tmp, JSON.stringify(value), 'utf-8');
+      await fs.rename(tmp, target);
+    });
+
+    this.pending.set(key, task);
+    try {
+      await task;
+    } finally {
+      if (this.pending.get(key) === task) {
+        this.pending.delete(key);
+      }
+    }
+  }
+
+  /**
+   * 删除数据
+   */
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.filePath(key), { force: true });
+  }
+
+  /**
+   * 列出全部键
+   */
+  async keys(): Promise<string[]> {
+    try {
+      const files = await fs.readdir(this.dir);
+      return files.filter(f => f.endsWith('.json')).map(f => f.slice(0, -'.json'.length));
+    } catch {
+      return [];
+    }
+  }
+}
+
+export default JsonFileStore;
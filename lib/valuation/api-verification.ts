@@ -10,6 +10,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { resolveSymbols, toEastmoneySecid, toTencentSymbol } from '../quotes/quote-provider';
 
 /**
  * API 验证结果接口
@@ -101,14 +102,7 @@ export async function verifyRealtimeQuoteApi(stockCodes: string[] = ['000001', '
   const startTime = Date.now();
 
   // push2 API 格式
-  const codes = stockCodes.map(code => {
-    if (code.startsWith('6')) {
-      return `1.${code}`; // 上海交易所
-    } else if (code.startsWith('0') || code.startsWith('3')) {
-      return `0.${code}`; // 深圳交易所
-    }
-    return code;
-  }).join(',');
+  const codes = resolveSymbols(stockCodes).map(toEastmoneySecid).join(',');
 
   const url = `https://push2.eastmoney.com/api/qt/stock/get?secid=${codes}&fields=f43,f44,f45,f46,f47,f48,f49,f50,f51,f52,f57,f58,f60,f107,f116,f117,f127,f152,f161,f162,f167,f168,f169,f170,f171,f84,f85,f115`;
 
@@ -267,7 +261,7 @@ export async function verifyAllApis(fundCode: string = '000001', stockCodes: str
   const results = await Promise.all([
     verifyFundHoldingsApi(fundCode),
     verifyRealtimeQuoteApi(stockCodes),
-    verifyTencentQuoteApi(stockCodes.map(c => (c.startsWith('6') ? `sh${c}` : `sz${c}`))),
+    verifyTencentQuoteApi(resolveSymbols(stockCodes).map(toTencentSymbol)),
   ]);
 
   return {
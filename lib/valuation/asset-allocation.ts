@@ -0,0 +1,60 @@
+/**
+ * 基金资产配置
+ *
+ * 从 pingzhongdata 的 Data_assetAllocation 中读取各报告期的股票、债券、现金占净比，
+ * 用于修正十大重仓股之外未披露仓位的估值
+ */
+
+import type { AssetAllocation } from './calculation-engine';
+import { extractVariable, fetchPingzhongData } from '../services/pingzhongdata';
+
+interface AllocationChart {
+  series: { name: string; data: (number | null)[] }[];
+  categories: string[];
+}
+
+/**
+ * 解析 Data_assetAllocation，按报告期倒序返回
+ */
+export function parseAssetAllocation(script: string): AssetAllocation[] {
+  const chart = extractVariable<AllocationChart>(script, 'Data_assetAllocation');
+  if (!chart || !Array.isArray(chart.series) || !Array.isArray(chart.categories)) {
+    return [];
+  }
+
+  const seriesData = (keyword: string) =>
+    chart.series.find(s => s.name.includes(keyword))?.data || [];
+
+  const stock = seriesData('股票');
+  const bond = seriesData('债券');
+  const cash = seriesData('现金');
+
+  return chart.categories
+    .map((reportDate, i) => ({
+      stock: stock[i] ?? 0,
+      bond: bond[i] ?? 0,
+      cash: cash[i] ?? 0,
+      reportDate,
+    }))
+    .sort((a, b) => b.reportDate.localeCompare(a.reportDate));
+}
+
+/**
+ * 获取基金全部报告期的资产配置，按报告期倒序
+ */
+export async function getAssetAllocationHistory(fundCode: string): Promise<AssetAllocation[]> {
+  const script = await fetchPingzhongData(fundCode);
+  return script ? parseAssetAllocation(script) : [];
+}
+
+/**
+ * 获取基金资产配置
+ *
+ * @param fundCode - 基金代码
+ * @param asOf - 只使用该日期（YYYY-MM-DD）及以前披露的报告期，不传则取最新
+ * @returns 资产配置，无数据时返回 null
+ */
+export async function getAssetAllocation(fundCode: string, asOf?: string): Promise<AssetAllocation | null> {
+  const allocations = await getAssetAllocationHistory(fundCode);
+  return allocations.find(a => !asOf || a.reportDate! <= asOf) || null;
+}
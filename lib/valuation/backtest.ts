@@ -0,0 +1,347 @@
+/**
+ * 估值准确度回测
+ *
+ * 逐日回放历史: 用当日已披露的持仓和股票收盘涨跌幅计算估算净值，
+ * 与基金公司公布的实际净值比较，统计估值误差
+ *
+ * 持仓按「报告期 + 披露滞后天数」之后才可用，避免使用当时还不知道的持仓（未来函数）
+ */
+
+import {
+  AssetAllocation,
+  calculateEstimatedNav,
+  CorrectionMethod,
+  StockQuote,
+} from './calculation-engine';
+import { getFundHoldingsHistory, HoldingsReport } from './holdings-parser';
+import { getAssetAllocationHistory } from './asset-allocation';
+import { DEFAULT_BENCHMARK_CODE } from './valuation-service';
+import { getNavHistory } from '../nav/nav-history-service';
+import { DailyKline, getDailyKlines } from '../quotes/kline';
+import { extractVariable, fetchPingzhongData } from '../services/pingzhongdata';
+
+/**
+ * 回测参数
+ */
+export interface BacktestOptions {
+  startDate?: string;          // 开始日期，默认 90 天前
+  endDate?: string;            // 结束日期，默认今天
+  method?: CorrectionMethod;   // 未覆盖仓位修正方法，默认 scale
+  benchmarkCode?: string;      // benchmark 方法使用的指数
+  bondIndexCode?: string;      // 债券仓位跟随的指数
+  disclosureLagDays?: number;  // 报告期结束到持仓可用的天数，默认 21
+}
+
+/**
+ * 单日回测结果
+ */
+export interface BacktestDay {
+  date: string;
+  lastNav: number;                 // 前一日实际净值
+  actualNav: number;               // 当日实际净值
+  actualChangePercent: number;     // 实际涨跌幅 (%)
+  estimatedNav: number;            // 估算净值
+  estimatedChangePercent: number;  // 估算涨跌幅 (%)
+  error: number;                   // 估算涨跌幅 - 实际涨跌幅 (百分点)
+  holdingsReportDate: string;      // 使用的持仓报告期
+  coverage: number;                // 匹配到行情的持仓比例 (%)
+  confidence: number;              // 估值置信度 (0-1)
+}
+
+/**
+ * 误差统计（单位均为百分点）
+ */
+export interface BacktestStats {
+  days: number;                     // 有效回测天数
+  mae: number;                      // 平均绝对误差
+  rmse: number;                     // 均方根误差
+  bias: number;                     // 平均误差（正数表示系统性高估）
+  trackingError: number;            // 日误差标准差
+  annualizedTrackingError: number;  // 年化跟踪误差
+  maxAbsError: number;              // 最大绝对误差
+  directionAccuracy: number;        // 涨跌方向判断正确率 (0-1)
+  within02: number;                 // 误差在 ±0.2 个百分点以内的比例 (0-1)
+  within05: number;                 // 误差在 ±0.5 个百分点以内的比例 (0-1)
+}
+
+/**
+ * 单只基金回测结果
+ */
+export interface BacktestResult {
+  fundCode: string;
+  fundName: string;
+  startDate: string;
+  endDate: string;
+  method: CorrectionMethod;
+  disclosureLagDays: number;
+  stats: BacktestStats;
+  worstDays: BacktestDay[];                   // 绝对误差最大的 5 天
+  days: BacktestDay[];
+  skipped: { date: string; reason: string }[];
+}
+
+const DEFAULT_LOOKBACK_DAYS = 90;
+const DEFAULT_DISCLOSURE_LAG_DAYS = 21;
+const TRADING_DAYS_PER_YEAR = 250;
+const WORST_DAYS_COUNT = 5;
+
+/**
+ * 日期加减天数
+ */
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+function round(value: number, digits: number = 4): number {
+  return parseFloat(value.toFixed(digits));
+}
+
+/**
+ * 统计误差
+ */
+export function calculateBacktestStats(days: BacktestDay[]): BacktestStats {
+  const n = days.length;
+  if (n === 0) {
+    return {
+      days: 0,
+      mae: 0,
+      rmse: 0,
+      bias: 0,
+      trackingError: 0,
+      annualizedTrackingError: 0,
+      maxAbsError: 0,
+      directionAccuracy: 0,
+      within02: 0,
+      within05: 0,
+    };
+  }
+
+  const errors = days.map(d => d.error);
+  const bias = errors.reduce((sum, e) => sum + e, 0) / n;
+  const variance = n > 1
+    ? errors.reduce((sum, e) => sum + (e - bias) ** 2, 0) / (n - 1)
+    : 0;
+  const trackingError = Math.sqrt(variance);
+  const sameDirection = days.filter(d =>
+    Math.sign(d.estimatedChangePercent) === Math.sign(d.actualChangePercent)
+  ).length;
+
+  return {
+    days: n,
+    mae: round(errors.reduce((sum, e) => sum + Math.abs(e), 0) / n),
+    rmse: round(Math.sqrt(errors.reduce((sum, e) => sum + e * e, 0) / n)),
+    bias: round(bias),
+    trackingError: round(trackingError),
+    annualizedTrackingError: round(trackingError * Math.sqrt(TRADING_DAYS_PER_YEAR)),
+    maxAbsError: round(Math.max(...errors.map(Math.abs))),
+    directionAccuracy: round(sameDirection / n),
+    within02: round(errors.filter(e => Math.abs(e) <= 0.2).length / n),
+    within05: round(errors.filter(e => Math.abs(e) <= 0.5).length / n),
+  };
+}
+
+/**
+ * 按日期索引 K 线
+ */
+async function loadKlineMap(
+  codes: string[],
+  startDate: string,
+  endDate: string
+): Promise<Map<string, Map<string, DailyKline>>> {
+  const result = new Map<string, Map<string, DailyKline>>();
+
+  // 历史行情接口对并发敏感，分批请求
+  const batchSize = 5;
+  for (let i = 0; i < codes.length; i += batchSize) {
+    const batch = codes.slice(i, i + batchSize);
+    const settled = await Promise.allSettled(batch.map(code => getDailyKlines(code, startDate, endDate)));
+
+    settled.forEach((item, idx) => {
+      if (item.status === 'fulfilled') {
+        result.set(batch[idx], new Map(item.value.map(k => [k.date, k])));
+      } else {
+        console.warn(`获取 ${batch[idx]} 历史行情失败:`, item.reason);
+      }
+    });
+  }
+
+  return result;
+}
+
+/**
+ * 取某日的收盘行情（转换为估值引擎的行情格式）
+ */
+function klineToQuote(code: string, kline: DailyKline): StockQuote {
+  const prevClose = kline.close / (1 + kline.changePercent / 100);
+  return {
+    code,
+    price: kline.close,
+    prevClose,
+    open: kline.open,
+    change: kline.close - prevClose,
+    changePercent: kline.changePercent,
+  };
+}
+
+/**
+ * 回测单只基金的估值准确度
+ *
+ * @param fundCode - 基金代码
+ * @param options - 回测参数
+ * @returns 回测结果
+ */
+export async function backtestValuation(
+  fundCode: string,
+  options: BacktestOptions = {}
+): Promise<BacktestResult> {
+  const endDate = options.endDate || new Date().toISOString().slice(0, 10);
+  const startDate = options.startDate || addDays(endDate, -DEFAULT_LOOKBACK_DAYS);
+  const lag = options.disclosureLagDays ?? DEFAULT_DISCLOSURE_LAG_DAYS;
+  const method = options.method || 'scale';
+  const benchmarkCode = options.benchmarkCode || DEFAULT_BENCHMARK_CODE;
+
+  // 多取一段净值，保证第一个回测日有前一日净值
+  const maxYears = new Date().getFullYear() - parseInt(startDate.slice(0, 4), 10) + 2;
+  const [navs, reports, allocations, script] = await Promise.all([
+    getNavHistory(fundCode, { from: addDays(startDate, -15), to: endDate }),
+    getFundHoldingsHistory(fundCode, maxYears),
+    getAssetAllocationHistory(fundCode),
+    fetchPingzhongData(fundCode),
+  ]);
+
+  if (navs.length < 2) {
+    throw new Error('回测区间内净值数据不足');
+  }
+
+  if (reports.length === 0) {
+    throw new Error('无法获取基金持仓');
+  }
+
+  // 某日可用的最新披露数据（reports、allocations 均为倒序）
+  const availableReport = (date: string): HoldingsReport | undefined =>
+    reports.find(r => addDays(r.reportDate, lag) <= date);
+  const availableAllocation = (date: string): AssetAllocation | undefined =>
+    allocations.find(a => addDays(a.reportDate!, lag) <= date);
+
+  const usedReports = new Set<HoldingsReport>();
+  for (const nav of navs) {
+    if (nav.date < startDate) continue;
+    const report = availableReport(nav.date);
+    if (report) usedReports.add(report);
+  }
+
+  const indexCodes = [
+    ...(method === 'benchmark' ? [benchmarkCode] : []),
+    ...(options.bondIndexCode ? [options.bondIndexCode] : []),
+  ];
+  const stockCodes = Array.from(new Set(
+    Array.from(usedReports).flatMap(r => r.holdings.map(h => h.stockCode))
+  ));
+  const klines = await loadKlineMap([...stockCodes, ...indexCodes], startDate, endDate);
+  const indexChange = (code: string | undefined, date: string) =>
+    code ? klines.get(code)?.get(date)?.changePercent : undefined;
+
+  const fundName = extractVariable<string>(script || '', 'fS_name') || `基金${fundCode}`;
+  const days: BacktestDay[] = [];
+  const skipped: BacktestResult['skipped'] = [];
+
+  for (let i = 1; i < navs.length; i++) {
+    const today = navs[i];
+    const yesterday = navs[i - 1];
+    if (today.date < startDate) continue;
+
+    const report = availableReport(today.date);
+    if (!report) {
+      skipped.push({ date: today.date, reason: '当日无已披露持仓' });
+      continue;
+    }
+
+    const quotes = report.holdings
+      .map(h => {
+        const kline = klines.get(h.stockCode)?.get(today.date);
+        return kline ? klineToQuote(h.stockCode, kline) : null;
+      })
+      .filter((q): q is StockQuote => q !== null);
+
+    if (quotes.length === 0) {
+      skipped.push({ date: today.date, reason: '持仓股票当日无行情' });
+      continue;
+    }
+
+    const estimate = calculateEstimatedNav(
+      fundCode,
+      fundName,
+      yesterday.nav,
+      report.holdings,
+      quotes,
+      {
+        method,
+        allocation: availableAllocation(today.date),
+        benchmarkCode,
+        benchmarkChangePercent: indexChange(method === 'benchmark' ? benchmarkCode : undefined, today.date),
+        bondChangePercent: indexChange(options.bondIndexCode, today.date),
+      }
+    );
+
+    // 分红除息日的净值跳变由日增长率修正，优先使用公布的日增长率
+    const actualChangePercent = today.dayGrowth ?? ((today.nav / yesterday.nav) - 1) * 100;
+
+    days.push({
+      date: today.date,
+      lastNav: yesterday.nav,
+      actualNav: today.nav,
+      actualChangePercent: round(actualChangePercent, 2),
+      estimatedNav: estimate.estimatedNav,
+      estimatedChangePercent: estimate.estimatedChangePercent,
+      error: round(estimate.estimatedChangePercent - actualChangePercent),
+      holdingsReportDate: report.reportDate,
+      coverage: estimate.dataQuality.coverage,
+      confidence: estimate.dataQuality.confidence,
+    });
+  }
+
+  return {
+    fundCode,
+    fundName,
+    startDate,
+    endDate,
+    method,
+    disclosureLagDays: lag,
+    stats: calculateBacktestStats(days),
+    worstDays: [...days]
+      .sort((a, b) => Math.abs(b.error) - Math.abs(a.error))
+      .slice(0, WORST_DAYS_COUNT),
+    days,
+    skipped,
+  };
+}
+
+/**
+ * 批量回测，单只失败不影响其他基金
+ */
+export async function backtestFunds(
+  fundCodes: string[],
+  options: BacktestOptions = {}
+): Promise<{ results: BacktestResult[]; failed: { fundCode: string; error: string }[] }> {
+  const results: BacktestResult[] = [];
+  const failed: { fundCode: string; error: string }[] = [];
+
+  // 每只基金需要大量历史行情请求，逐只回测
+  for (const fundCode of fundCodes) {
+    try {
+      results.push(await backtestValuation(fundCode, options));
+    } catch (error) {
+      failed.push({
+        fundCode,
+        error: error instanceof Error ? error.message : '未知错误',
+      });
+    }
+  }
+
+  // 误差小的排在前面
+  results.sort((a, b) => a.stats.mae - b.stats.mae);
+
+  return { results, failed };
+}
@@ -2,6 +2,12 @@
  * 基金估值计算引擎
  *
  * 根据基金持仓和实时股票行情计算估算净值
+ *
+ * 十大重仓股通常只覆盖基金资产的一部分，未披露的仓位按修正方法估算:
+ * - none: 只统计匹配到行情的持仓，其余部分视为不变
+ * - scale: 将已匹配持仓的贡献按比例放大到基金的股票仓位
+ * - benchmark: 未覆盖的股票仓位按基准指数涨跌幅计算
+ * 债券仓位按债券指数涨跌幅计算（未提供时视为不变），现金视为不变
  */
 
 export interface StockQuote {
@@ -21,6 +27,32 @@ export interface FundHolding {
   reportDate: string;
 }
 
+/**
+ * 基金资产配置（占净值比例 %）
+ */
+export interface AssetAllocation {
+  stock: number;       // 股票占净比
+  bond: number;        // 债券占净比
+  cash: number;        // 现金占净比
+  reportDate?: string; // 报告期
+}
+
+/**
+ * 未覆盖仓位的修正方法
+ */
+export type CorrectionMethod = 'none' | 'scale' | 'benchmark';
+
+/**
+ * 估值修正参数
+ */
+export interface CorrectionOptions {
+  method?: CorrectionMethod;          // 默认: 有资产配置时 scale，否则 none
+  allocation?: AssetAllocation;       // 基金资产配置，scale/benchmark 必需
+  benchmarkChangePercent?: number;    // 基准指数涨跌幅 (%)，benchmark 必需
+  benchmarkCode?: string;             // 基准指数代码
+  bondChangePercent?: number;         // 债券指数涨跌幅 (%)，不传时债券视为不变
+}
+
 export interface ValuationResult {
   fundCode: string;
   fundName: string;
@@ -41,20 +73,43 @@ export interface ValuationResult {
     totalRatio: number;    // 总持仓比例
     coverage: number;      // 数据覆盖率
     isReliable: boolean;   // 是否可靠
+    method: CorrectionMethod;        // 实际使用的修正方法
+    confidence: number;              // 置信度 (0-1)
+    stockAllocation?: number;        // 股票仓位 (%)
+    bondAllocation?: number;         // 债券仓位 (%)
+    cashAllocation?: number;         // 现金仓位 (%)
+    matchedContribution: number;     // 已匹配持仓贡献 (%)
+    correctionContribution: number;  // 未覆盖股票仓位的修正贡献 (%)
+    bondContribution: number;        // 债券仓位贡献 (%)
+    benchmarkCode?: string;          // benchmark 方法使用的指数
   };
 }
 
+// 各类估算方式的可信度折扣：直接观测到的仓位计 1，按修正方法推算的仓位按折扣计入置信度
+const CONFIDENCE_WEIGHTS = {
+  scale: 0.5,       // 假设未披露持仓与重仓股同涨跌
+  benchmark: 0.7,   // 假设未披露持仓跟随基准指数
+  bondIndex: 0.9,   // 债券仓位跟随债券指数
+  bondFlat: 0.8,    // 债券仓位视为不变（日波动通常很小）
+};
+
 /**
  * 计算基金估算净值
  *
  * 核心公式:
- * 估算净值 = 昨日净值 × (1 + Σ(持仓比例 × 股票涨跌幅))
+ * 估算净值 = 昨日净值 × (1 + 股票仓位涨跌贡献 + 债券仓位涨跌贡献)
+ *
+ * 股票仓位涨跌贡献:
+ * - none: Σ(持仓比例 × 股票涨跌幅)
+ * - scale: Σ(持仓比例 × 股票涨跌幅) × 股票仓位 / 已匹配持仓比例
+ * - benchmark: Σ(持仓比例 × 股票涨跌幅) + (股票仓位 - 已匹配持仓比例) × 基准涨跌幅
  *
  * @param fundCode - 基金代码
  * @param fundName - 基金名称
  * @param lastNav - 昨日净值
  * @param holdings - 基金持仓
  * @param quotes - 股票实时行情
+ * @param options - 未覆盖仓位的修正参数
  * @returns 估值结果
  */
 export function calculateEstimatedNav(
@@ -62,7 +117,8 @@ export function calculateEstimatedNav(
   fundName: string,
   lastNav: number,
   holdings: FundHolding[],
-  quotes: StockQuote[]
+  quotes: StockQuote[],
+  options: CorrectionOptions = {}
 ): ValuationResult {
   // 创建股票代码到行情的映射
   const quoteMap = new Map<string, StockQuote>();
@@ -107,15 +163,33 @@ export function calculateEstimatedNav(
     }
   }
 
+  const { allocation } = options;
+  const method = resolveCorrectionMethod(options, totalRatio);
+
+  // 未覆盖的股票仓位（披露持仓可能因报告期滞后而超过当前股票仓位）
+  const uncoveredStock = allocation ? Math.max(0, allocation.stock - totalRatio) : 0;
+
+  let correctionContribution = 0;
+  if (method === 'scale') {
+    correctionContribution = weightedChangePercent * (uncoveredStock / totalRatio);
+  } else if (method === 'benchmark') {
+    correctionContribution = (uncoveredStock / 100) * options.benchmarkChangePercent!;
+  }
+
+  const bondContribution = allocation && options.bondChangePercent !== undefined
+    ? (allocation.bond / 100) * options.bondChangePercent
+    : 0;
+
   // 计算估算净值
-  // 公式: 估算净值 = 昨日净值 × (1 + 加权平均涨跌幅)
-  const estimatedChangePercent = weightedChangePercent;
+  // 公式: 估算净值 = 昨日净值 × (1 + 估算涨跌幅)
+  const estimatedChangePercent = weightedChangePercent + correctionContribution + bondContribution;
   const estimatedChange = lastNav * (estimatedChangePercent / 100);
   const estimatedNav = lastNav + estimatedChange;
 
   // 评估数据质量
   const coverage = totalRatio; // 持仓覆盖率
-  const isReliable = coverage >= 50; // 覆盖率超过 50% 认为可靠
+  const confidence = calculateConfidence(method, totalRatio, uncoveredStock, allocation, options.bondChangePercent !== undefined);
+  const isReliable = method === 'none' ? coverage >= 50 : confidence >= 0.6;
 
   return {
     fundCode,
@@ -130,10 +204,67 @@ export function calculateEstimatedNav(
       totalRatio: parseFloat(totalRatio.toFixed(2)),
       coverage: parseFloat(coverage.toFixed(2)),
       isReliable,
+      method,
+      confidence: parseFloat(confidence.toFixed(2)),
+      stockAllocation: allocation?.stock,
+      bondAllocation: allocation?.bond,
+      cashAllocation: allocation?.cash,
+      matchedContribution: parseFloat(weightedChangePercent.toFixed(4)),
+      correctionContribution: parseFloat(correctionContribution.toFixed(4)),
+      bondContribution: parseFloat(bondContribution.toFixed(4)),
+      benchmarkCode: method === 'benchmark' ? options.benchmarkCode : undefined,
     },
   };
 }
 
+/**
+ * 确定实际可用的修正方法
+ *
+ * 缺少所需数据时降级: benchmark → scale → none
+ */
+function resolveCorrectionMethod(options: CorrectionOptions, matchedRatio: number): CorrectionMethod {
+  const requested = options.method ?? (options.allocation ? 'scale' : 'none');
+  if (!options.allocation || requested === 'none') return 'none';
+
+  if (requested === 'benchmark' && options.benchmarkChangePercent !== undefined) {
+    return 'benchmark';
+  }
+
+  return matchedRatio > 0 ? 'scale' : 'none';
+}
+
+/**
+ * 计算估值置信度 (0-1)
+ *
+ * 按净值占比加权: 匹配到行情的持仓和现金计 1，修正推算的股票仓位和债券仓位按折扣计入，
+ * 其余无法解释的部分计 0
+ */
+function calculateConfidence(
+  method: CorrectionMethod,
+  matchedRatio: number,
+  uncoveredStock: number,
+  allocation: AssetAllocation | undefined,
+  hasBondIndex: boolean
+): number {
+  if (!allocation) {
+    return Math.min(1, matchedRatio / 100);
+  }
+
+  const stockPart = Math.min(matchedRatio, allocation.stock) + (
+    method === 'none' ? 0 : uncoveredStock * CONFIDENCE_WEIGHTS[method]
+  );
+  const bondPart = allocation.bond * (hasBondIndex ? CONFIDENCE_WEIGHTS.bondIndex : CONFIDENCE_WEIGHTS.bondFlat);
+  const total = allocation.stock + allocation.bond + allocation.cash;
+
+  return total > 0 ? Math.min(1, (stockPart + bondPart + allocation.cash) / Math.max(total, 100)) : 0;
+}
+
+const CORRECTION_METHOD_LABELS: Record<CorrectionMethod, string> = {
+  none: '仅统计重仓股',
+  scale: '按股票仓位放大',
+  benchmark: '未覆盖仓位跟随基准指数',
+};
+
 /**
  * 格式化估值结果为用户友好的文本
  */
@@ -152,6 +283,11 @@ export function formatValuationResult(result: ValuationResult): string {
   // 数据质量
   lines.push(`### 数据质量`);
   lines.push(`- 持仓覆盖率: ${result.dataQuality.coverage.toFixed(2)}%`);
+  if (result.dataQuality.stockAllocation !== undefined) {
+    lines.push(`- 股票仓位: ${result.dataQuality.stockAllocation.toFixed(2)}%`);
+  }
+  lines.push(`- 修正方法: ${CORRECTION_METHOD_LABELS[result.dataQuality.method]}`);
+  lines.push(`- 置信度: ${(result.dataQuality.confidence * 100).toFixed(0)}%`);
   lines.push(`- 可靠性: ${result.dataQuality.isReliable ? '✅ 可靠' : '⚠️ 数据不足'}`);
   lines.push('');
 
@@ -0,0 +1,174 @@
+/**
+ * 持仓季度变动分析
+ *
+ * 比较相邻两个报告期的重仓股，识别新进、退出、增持、减持，并估算换手率:
+ * - 变动按占净值比例判断，变化不超过 CHANGE_TOLERANCE 个百分点视为持平
+ * - 单期换手率 = Σ|w新 - w旧| / 2，w 为各股票占披露持仓合计的比例，相当于单边换手
+ * - 年化换手率按两期间隔月数折算到 12 个月后取平均，与基金年报口径（买入+卖出）/ 平均净值 相比偏低，
+ *   因为季报只披露前十大重仓股，看不到非重仓股的买卖
+ *
+ * 本模块只包含纯计算，浏览器端和服务端共用
+ */
+
+import type { HoldingsReport } from './holdings-parser';
+
+export type HoldingChangeType = 'new' | 'exited' | 'increased' | 'reduced' | 'unchanged';
+
+/**
+ * 单只股票的变动
+ */
+export interface HoldingChange {
+  stockCode: string;
+  stockName: string;
+  type: HoldingChangeType;
+  previousRatio: number;    // 上期占净值比例 (%)，新进为 0
+  currentRatio: number;     // 本期占净值比例 (%)，退出为 0
+  change: number;           // 比例变化 (百分点)
+  sharesChange?: number;    // 持股数变化 (万股)，两期都有持股数时才有
+}
+
+/**
+ * 相邻两个报告期的持仓变动
+ */
+export interface HoldingsDiff {
+  fromDate: string;
+  toDate: string;
+  fromQuarter: string;
+  toQuarter: string;
+  changes: HoldingChange[];                        // 依次为新进、增持、减持、退出、持平，同类按变化幅度降序
+  counts: Record<HoldingChangeType, number>;
+  turnover: number;                                // 单期估算换手率 (%)
+  annualizedTurnover: number;                      // 折算为年化 (%)
+}
+
+/**
+ * 基金全部报告期的持仓变动
+ */
+export interface HoldingsChangeHistory {
+  fundCode: string;
+  quarters: { reportDate: string; quarter: string; count: number; totalRatio: number }[];  // 按日期倒序
+  diffs: HoldingsDiff[];                          // 按日期倒序，第一项为最新一期相对上一期
+  turnoverRate: number | null;                    // 估算年化换手率 (%)，少于两个报告期时为 null
+}
+
+// 占净值比例变化不超过该值（百分点）视为持平
+export const CHANGE_TOLERANCE = 0.1;
+
+// 参与年化换手率平均的最近期数
+const TURNOVER_PERIODS = 4;
+
+const TYPE_ORDER: HoldingChangeType[] = ['new', 'increased', 'reduced', 'exited', 'unchanged'];
+
+function round(value: number, digits: number = 2): number {
+  return Math.round(value * 10 ** digits) / 10 ** digits;
+}
+
+/**
+ * 两个报告期之间相隔的月数（至少 1）
+ */
+function monthsBetween(from: string, to: string): number {
+  const months = (parseInt(to.slice(0, 4), 10) - parseInt(from.slice(0, 4), 10)) * 12
+    + parseInt(to.slice(5, 7), 10) - parseInt(from.slice(5, 7), 10);
+  return Math.max(1, months);
+}
+
+/**
+ * 比较两个报告期的持仓
+ *
+ * @param previous - 较早的报告期
+ * @param current - 较新的报告期
+ */
+export function diffHoldings(previous: HoldingsReport, current: HoldingsReport): HoldingsDiff {
+  const before = new Map(previous.holdings.map(h => [h.stockCode, h]));
+  const after = new Map(current.holdings.map(h => [h.stockCode, h]));
+  const codes = new Set([...before.keys(), ...after.keys()]);
+  const changes: HoldingChange[] = [];
+
+  const previousTotal = previous.holdings.reduce((sum, h) => sum + h.ratio, 0);
+  const currentTotal = current.holdings.reduce((sum, h) => sum + h.ratio, 0);
+  let turnover = 0;
+
+  codes.forEach(code => {
+    const a = before.get(code);
+    const b = after.get(code);
+    const previousRatio = a?.ratio || 0;
+    const currentRatio = b?.ratio || 0;
+    const change = currentRatio - previousRatio;
+
+    let type: HoldingChangeType;
+    if (!a) type = 'new';
+    else if (!b) type = 'exited';
+    else if (change > CHANGE_TOLERANCE) type = 'increased';
+    else if (change < -CHANGE_TOLERANCE) type = 'reduced';
+    else type = 'unchanged';
+
+    turnover += Math.abs(
+      (currentTotal > 0 ? currentRatio / currentTotal : 0) - (previousTotal > 0 ? previousRatio / previousTotal : 0)
+    );
+
+    changes.push({
+      stockCode: code,
+      stockName: (b || a)!.stockName,
+      type,
+      previousRatio,
+      currentRatio,
+      change: round(change),
+      sharesChange: a?.shares !== undefined && b?.shares !== undefined ? round(b.shares - a.shares) : undefined,
+    });
+  });
+
+  changes.sort((x, y) =>
+    TYPE_ORDER.indexOf(x.type) - TYPE_ORDER.indexOf(y.type) || Math.abs(y.change) - Math.abs(x.change)
+  );
+
+  const counts = TYPE_ORDER.reduce(
+    (acc, type) => ({ ...acc, [type]: changes.filter(c => c.type === type).length }),
+    {} as Record<HoldingChangeType, number>
+  );
+  const periodTurnover = (turnover / 2) * 100;
+
+  return {
+    fromDate: previous.reportDate,
+    toDate: current.reportDate,
+    fromQuarter: previous.quarter,
+    toQuarter: current.quarter,
+    changes,
+    counts,
+    turnover: round(periodTurnover),
+    annualizedTurnover: round(periodTurnover * (12 / monthsBetween(previous.reportDate, current.reportDate))),
+  };
+}
+
+/**
+ * 计算基金各报告期之间的持仓变动和估算年化换手率
+ *
+ * @param fundCode - 基金代码
+ * @param reports - 全部报告期（顺序不限）
+ */
+export function analyzeHoldingsChanges(fundCode: string, reports: HoldingsReport[]): HoldingsChangeHistory {
+  const sorted = reports
+    .filter(r => r.holdings.length > 0)
+    .sort((a, b) => b.reportDate.localeCompare(a.reportDate));
+
+  const diffs: HoldingsDiff[] = [];
+  for (let i = 0; i < sorted.length - 1; i++) {
+    diffs.push(diffHoldings(sorted[i + 1], sorted[i]));
+  }
+
+  const recent = diffs.slice(0, TURNOVER_PERIODS);
+  const turnoverRate = recent.length > 0
+    ? round(recent.reduce((sum, d) => sum + d.annualizedTurnover, 0) / recent.length)
+    : null;
+
+  return {
+    fundCode,
+    quarters: sorted.map(r => ({
+      reportDate: r.reportDate,
+      quarter: r.quarter,
+      count: r.holdings.length,
+      totalRatio: r.totalRatio,
+    })),
+    diffs,
+    turnoverRate,
+  };
+}
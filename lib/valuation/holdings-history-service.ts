@@ -0,0 +1,135 @@
+/**
+ * 基金持仓历史服务
+ *
+ * 持仓按季度披露，jjcc 接口一次只返回一个年份。首次请求时回溯拉取最近几年的全部报告期并保存到本地，
+ * 之后只拉取最新年份合并进去，已保存的报告期不会丢失，即使接口不再返回更早的年份
+ */
+
+import { JsonFileStore } from '../storage/json-file-store';
+import { isFixtureMode } from '../fixtures';
+import { getFundHoldings, getFundHoldingsHistory, HoldingsReport } from './holdings-parser';
+import { analyzeHoldingsChanges, HoldingsChangeHistory } from './holdings-changes';
+
+/**
+ * 本地保存的持仓历史
+ */
+export interface StoredHoldingsHistory {
+  fundCode: string;
+  reports: HoldingsReport[];   // 按日期倒序
+  syncedAt: number;            // 最近一次同步时间戳
+}
+
+// 首次同步回溯的年数
+const INITIAL_YEARS = 5;
+
+// 季报在季度结束后 15 个工作日内披露，每天同步一次即可
+const SYNC_INTERVAL = 24 * 60 * 60 * 1000;
+
+function mergeReports(stored: HoldingsReport[], fetched: HoldingsReport[]): HoldingsReport[] {
+  const byDate = new Map(stored.map(r => [r.reportDate, r]));
+  fetched.forEach(r => byDate.set(r.reportDate, r));
+  return Array.from(byDate.values()).sort((a, b) => b.reportDate.localeCompare(a.reportDate));
+}
+
+/**
+ * 基金持仓历史服务类
+ */
+export class HoldingsHistoryService {
+  private syncing = new Map<string, Promise<StoredHoldingsHistory>>();
+
+  /**
+   * @param store - 持仓历史存储，离线样本模式下与真实数据分开保存
+   */
+  constructor(
+    private store: JsonFileStore<StoredHoldingsHistory> = new JsonFileStore(isFixtureMode() ? 'fixture-holdings-history' : 'holdings-history')
+  ) {}
+
+  /**
+   * 同步持仓历史（本地无数据时回溯多年，否则只拉取最新年份）
+   */
+  async sync(fundCode: string, force: boolean = false): Promise<StoredHoldingsHistory> {
+    const running = this.syncing.get(fundCode);
+    if (running && !force) return running;
+
+    // 强制刷新排在正在进行的同步之后，不直接复用它的结果
+    const task: Promise<StoredHoldingsHistory> = (running ? running.catch(() => undefined) : Promise.resolve())
+      .then(() => this.doSync(fundCode, force))
+      .finally(() => {
+        if (this.syncing.get(fundCode) === task) this.syncing.delete(fundCode);
+      });
+    this.syncing.set(fundCode, task);
+    return task;
+  }
+
+  private async doSync(fundCode: string, force: boolean): Promise<StoredHoldingsHistory> {
+    const stored = await this.store.read(fundCode);
+
+    if (stored && !force && Date.now() - stored.syncedAt < SYNC_INTERVAL) {
+      return stored;
+    }
+
+    let fetched: HoldingsReport[];
+    if (stored) {
+      const latest = await getFundHoldings(fundCode, force);
+      fetched = latest.reports;
+    } else {
+      fetched = await getFundHoldingsHistory(fundCode, INITIAL_YEARS);
+    }
+
+    // 没有拉取到任何报告期视为失败，保留原来的同步时间，下次请求时重试
+    if (fetched.length === 0) {
+      return stored || { fundCode, reports: [], syncedAt: 0 };
+    }
+
+    const history: StoredHoldingsHistory = {
+      fundCode,
+      reports: mergeReports(stored?.reports || [], fetched),
+      syncedAt: Date.now(),
+    };
+
+    // 保存失败（如只读部署环境）不影响本次返回的持仓
+    await this.store.write(fundCode, history).catch(error => {
+      console.error(`保存 ${fundCode} 持仓历史失败:`, error);
+    });
+
+    return history;
+  }
+
+  /**
+   * 获取全部已披露报告期的持仓
+   *
+   * @returns 按日期倒序排列的报告期
+   */
+  async getReports(fundCode: string, refresh: boolean = false): Promise<HoldingsReport[]> {
+    const { reports } = await this.sync(fundCode, refresh);
+    return reports;
+  }
+
+  /**
+   * 获取各报告期之间的持仓变动和估算换手率
+   */
+  async getChanges(fundCode: string, refresh: boolean = false): Promise<HoldingsChangeHistory> {
+    return analyzeHoldingsChanges(fundCode, await this.getReports(fundCode, refresh));
+  }
+}
+
+// 导出单例实例
+export const holdingsHistoryService = new HoldingsHistoryService();
+
+// 导出便捷函数
+export async function getHoldingsChanges(fundCode: string, refresh?: boolean): Promise<HoldingsChangeHistory> {
+  return holdingsHistoryService.getChanges(fundCode, refresh);
+}
+
+/**
+ * 获取估算年化换手率 (%)，没有足够持仓数据时返回 undefined
+ */
+export async function getTurnoverRate(fundCode: string): Promise<number | undefined> {
+  try {
+    const { turnoverRate } = await holdingsHistoryService.getChanges(fundCode);
+    return turnoverRate ?? undefined;
+  } catch (error) {
+    console.warn(`计算基金 ${fundCode} 换手率失败:`, error);
+    return undefined;
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * 持仓解析器 golden 测试
+ *
+ * 对 fixtures/holdings 下保存的每个 jjcc 响应运行 parseFundHoldings，
+ * 与 fixtures/holdings-expected 下同名 JSON 比较（报告期数、最新报告期、每行持仓、可查询年份）
+ *
+ * 解析规则有意变更时，用 UPDATE_GOLDEN=1 npm test 重新生成期望结果，并检查 diff
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs, readdirSync } from 'fs';
+import path from 'path';
+import { parseFundHoldings } from './holdings-parser';
+
+const FIXTURE_DIR = path.join(process.cwd(), 'lib', 'valuation', 'fixtures', 'holdings');
+const EXPECTED_DIR = path.join(process.cwd(), 'lib', 'valuation', 'fixtures', 'holdings-expected');
+
+const fixtures = readdirSync(FIXTURE_DIR).filter(f => /^jjcc_\d{6}_\d{4}\.html$/.test(f));
+
+test('fixture corpus is not empty', () => {
+  assert.ok(fixtures.length > 0);
+});
+
+for (const file of fixtures) {
+  const fundCode = file.split('_')[1];
+  const expectedPath = path.join(EXPECTED_DIR, file.replace(/\.html$/, '.json'));
+
+  test(`parseFundHoldings ${file}`, async () => {
+    const payload = await fs.readFile(path.join(FIXTURE_DIR, file), 'utf-8');
+    const result = parseFundHoldings(payload, fundCode);
+
+    if (process.env.UPDATE_GOLDEN === '1') {
+      await fs.mkdir(EXPECTED_DIR, { recursive: true });
+      await fs.writeFile(expectedPath, `${JSON.stringify(result, null, 2)}\n`, 'utf-8');
+      return;
+    }
+
+    const expected = JSON.parse(await fs.readFile(expectedPath, 'utf-8'));
+
+    assert.equal(result.success, expected.success);
+    assert.equal(result.reports.length, expected.reports.length, '报告期数');
+    assert.equal(result.reportDate, expected.reportDate, '最新报告期');
+    assert.deepEqual(result.years, expected.years, '可查询年份');
+    assert.equal(result.total, expected.total);
+    assert.deepEqual(result.holdings, expected.holdings, '最新报告期持仓');
+    result.reports.forEach((report, i) => {
+      assert.deepEqual(report, expected.reports[i], `报告期 ${report.quarter}`);
+    });
+  });
+}
@@ -1,10 +1,16 @@
 /**
  * 基金持仓数据解析器
  *
- * 从东方财富的基金持仓页面 HTML 中提取结构化持仓数据
+ * 解析东方财富 FundArchivesDatas.aspx?type=jjcc 接口返回的持仓明细，
+ * 提取每个报告期的股票代码、名称、占净值比例、持股数和持仓市值
+ *
+ * 接口返回格式:
+ * var apidata={ content:"<div class='box'>...</div>...",arryear:[2024,2023],curyear:2024};
+ * content 中每个季度一个 div.boxitem，包含标题（报告期）和持仓表格
  */
 
-// import * as cheerio from 'cheerio'; // 暂时禁用，等待安装完成
+import * as cheerio from 'cheerio';
+import { isFixtureMode, listFixtures, readFixture } from '../fixtures';
 
 /**
  * 基金持仓项接口
@@ -14,138 +20,158 @@ export interface FundHolding {
   stockName: string;      // 股票名称
   ratio: number;          // 持仓比例 (%)
   shares?: number;        // 持股数量 (万股)
-  reportDate: string;     // 报告期
+  marketValue?: number;   // 持仓市值 (万元)
+  reportDate: string;     // 报告期 (YYYY-MM-DD)
   fundCode: string;       // 基金代码
 }
 
+/**
+ * 单个报告期的持仓
+ */
+export interface HoldingsReport {
+  reportDate: string;     // 报告期截止日 (YYYY-MM-DD)
+  quarter: string;        // 报告期名称，如 2024年4季度
+  holdings: FundHolding[];
+  totalRatio: number;     // 披露持仓合计占净值比例 (%)
+}
+
 /**
  * 解析结果接口
  */
 export interface ParseResult {
   success: boolean;
-  holdings: FundHolding[];
-  reportDate: string;
+  holdings: FundHolding[];    // 最新报告期持仓
+  reportDate: string;         // 最新报告期
   total: number;
+  reports: HoldingsReport[];  // 全部报告期，按日期倒序
+  years: number[];            // 接口可查询的年份
   error?: string;
 }
 
 /**
- * 从基金持仓 HTML 中解析持仓数据
+ * 从 jjcc 接口响应中提取 HTML 内容和年份列表
  *
- * @param html - 东方财富基金持仓页面 HTML
+ * 传入的不是 jjcc 响应时，原样作为 HTML 返回
+ */
+export function extractJjccContent(payload: string): { content: string; years: number[] } {
+  const contentMatch = payload.match(/content:"([\s\S]*?)",\s*arryear/);
+  if (!contentMatch) {
+    return { content: payload, years: [] };
+  }
+
+  const yearsMatch = payload.match(/arryear:\[([\d,\s]*)\]/);
+  const years = yearsMatch
+    ? yearsMatch[1].split(',').map(y => parseInt(y, 10)).filter(y => !isNaN(y))
+    : [];
+
+  return { content: contentMatch[1], years };
+}
+
+/**
+ * 解析数字（去掉千分位、百分号）
+ */
+function parseNumber(text: string): number | undefined {
+  const value = parseFloat(text.replace(/[,%\s]/g, ''));
+  return isNaN(value) ? undefined : value;
+}
+
+/**
+ * 季度末日期，如 (2024, 4) → 2024-12-31
+ */
+function quarterEndDate(year: number, quarter: number): string {
+  const ends = ['03-31', '06-30', '09-30', '12-31'];
+  return `${year}-${ends[quarter - 1]}`;
+}
+
+/**
+ * 根据表头确定各列位置
+ *
+ * 当季报表会多出「最新价」「涨跌幅」两列，因此不能依赖固定列号
+ */
+function locateColumns(headers: string[]) {
+  const find = (keyword: string) => headers.findIndex(h => h.includes(keyword));
+
+  return {
+    code: find('代码'),
+    name: find('名称'),
+    ratio: find('占净值'),
+    shares: find('持股数'),
+    marketValue: find('市值'),
+  };
+}
+
+/**
+ * 从基金持仓数据中解析全部报告期
+ *
+ * @param payload - jjcc 接口原始响应，或其中的 HTML 内容
  * @param fundCode - 基金代码
  * @returns 解析结果
  */
-export function parseFundHoldings(html: string, fundCode: string): ParseResult {
+export function parseFundHoldings(payload: string, fundCode: string): ParseResult {
   try {
-    // const $ = cheerio.load(html); // 暂时禁用 Cheerio
-    const holdings: FundHolding[] = [];
-
-    // 方法 1: 查找 JSON 数据嵌入在 script 标签中
-    console.log('尝试查找 JSON 数据...');
-
-    // 提取所有 script 标签内容
-    const scriptMatches = html.match(/<script[^>]*>([\s\S]*?)<\/script>/gi) || [];
-
-    for (const scriptContent of scriptMatches) {
-      const patterns = [
-        /var\s+stockholdings\s*=\s*(\{[\s\S]*?\});/i,
-        /var\s+Data_StockHoldings\s*=\s*(\{[\s\S]*?\});/i,
-        /"stockholdings":\s*(\{[\s\S]*?\})/i,
-        /"Data_StockHoldings":\s*(\{[\s\S]*?\})/i,
-        /var\s+ccmx\s*=\s*(\{[\s\S]*?\});/i,
-        /var\s+DATA\s*=\s*(\{[\s\S]*?\});/i,
-      ];
-
-      for (const pattern of patterns) {
-        const match = scriptContent.match(pattern);
-        if (match) {
-          try {
-            const jsonStr = match[1].replace(/(\w+):/g, '"$1":').replace(/'/g, '"');
-            const jsonData = JSON.parse(jsonStr);
-            console.log('找到 JSON 数据:', Object.keys(jsonData));
-
-            // 尝试解析不同可能的 JSON 结构
-            // 需要根据实际数据结构调整
-          } catch (e) {
-            console.log('JSON 解析失败:', e);
-          }
-        }
-      }
-    }
+    const { content, years } = extractJjccContent(payload);
+    const $ = cheerio.load(content);
+    const reports: HoldingsReport[] = [];
 
-    // 方法 2: 正则表达式直接匹配表格数据
-    console.log('使用正则表达式解析表格数据...');
-
-    // 尝试多种模式匹配持仓数据
-    const patterns = [
-      // 模式 1: 标准表格行 <td>代码</td><td>名称</td><td>比例%</td>
-      // 使用 [\s\S] 代替 . 以避免需要 ES2018 的 s 标志
-      /<tr[^>]*>[\s\S]*?<td[^>]*>(\d{6})<\/td>[\s\S]*?<td[^>]*>([^<]+)<\/td>[\s\S]*?<td[^>]*>([\d.]+)%/g,
-      // 模式 2: 代码和比例在同一行
-      /(\d{6})[^<\d]*?([^<\n]{2,15})[^<\d]*?([\d.]+)%/g,
-      // 模式 3: 带换行的表格
-      /<td[^>]*>(\d{6})[\s\S]*?<td[^>]*>([^<]+)[\s\S]*?<td[^>]*>([\d.]+)%/g,
-    ];
-
-    const seenStocks = new Set<string>(); // 去重
-
-    for (const pattern of patterns) {
-      const regex = new RegExp(pattern.source, pattern.flags);
-      const matches = html.matchAll(regex);
-
-      for (const match of matches) {
-        const stockCode = match[1];
-        const stockName = match[2]?.trim() || '';
-        const ratio = parseFloat(match[3]);
-
-        // 去重并验证
-        if (!isNaN(ratio) && ratio > 0 && ratio <= 100 && !seenStocks.has(stockCode)) {
-          seenStocks.add(stockCode);
-          holdings.push({
-            stockCode,
-            stockName,
-            ratio,
-            fundCode,
-            reportDate: '',
-          });
-        }
-      }
+    $('div.boxitem').each((_, box) => {
+      const $box = $(box);
+      const title = $box.find('h4 label.left').text();
+      const quarterMatch = title.match(/(\d{4})年(\d)季度/);
+      const dateMatch = $box.find('h4 label.right').text().match(/(\d{4}-\d{2}-\d{2})/);
 
-      if (holdings.length >= 10) {
-        break; // 找到足够的数据就停止
-      }
-    }
+      if (!quarterMatch && !dateMatch) return;
 
-    // 提取报告日期
-    let reportDate = '';
-    const datePatterns = [
-      /(\d{4})年(\d{1,2})季/,
-      /(\d{4})-(\d{1,2})-(\d{1,2})/,
-      /报告期[：:]\s*(\d{4}-\d{1,2}-\d{1,2})/,
-      /(\d{4})-(\d{1,2})-(\d{1,2})\s*\([一二三四]季度\)/,
-    ];
-
-    for (const pattern of datePatterns) {
-      const match = html.match(pattern);
-      if (match) {
-        reportDate = match[0];
-        break;
-      }
-    }
+      const reportDate = dateMatch
+        ? dateMatch[1]
+        : quarterEndDate(parseInt(quarterMatch![1], 10), parseInt(quarterMatch![2], 10));
+      const quarter = quarterMatch ? quarterMatch[0] : reportDate;
 
-    // 如果找到了报告日期，更新所有持仓项
-    if (reportDate && holdings.length > 0) {
-      holdings.forEach(h => h.reportDate = reportDate);
-    }
+      const headers = $box.find('table thead th').map((_, th) => $(th).text().replace(/\s/g, '')).get();
+      const columns = locateColumns(headers);
+      const holdings: FundHolding[] = [];
+
+      $box.find('table tbody tr').each((_, tr) => {
+        const cells = $(tr).find('td').map((_, td) => $(td).text().trim()).get();
+
+        // 无表头时退回到默认列: 序号、代码、名称 ... 占净值比例、持股数、持仓市值
+        const ratioIdx = columns.ratio >= 0 ? columns.ratio : cells.findIndex(c => /^[\d.]+%$/.test(c));
+        const stockCode = cells[columns.code >= 0 ? columns.code : 1] || '';
+        const stockName = cells[columns.name >= 0 ? columns.name : 2] || '';
+        const ratio = ratioIdx >= 0 ? parseNumber(cells[ratioIdx]) : undefined;
 
-    console.log(`解析结果: 找到 ${holdings.length} 条持仓数据`);
+        if (!stockCode || ratio === undefined || ratio <= 0 || ratio > 100) return;
+
+        holdings.push({
+          stockCode,
+          stockName,
+          ratio,
+          shares: parseNumber(cells[columns.shares >= 0 ? columns.shares : ratioIdx + 1] || ''),
+          marketValue: parseNumber(cells[columns.marketValue >= 0 ? columns.marketValue : ratioIdx + 2] || ''),
+          reportDate,
+          fundCode,
+        });
+      });
+
+      if (holdings.length > 0) {
+        reports.push({
+          reportDate,
+          quarter,
+          holdings,
+          totalRatio: parseFloat(holdings.reduce((sum, h) => sum + h.ratio, 0).toFixed(2)),
+        });
+      }
+    });
+
+    reports.sort((a, b) => b.reportDate.localeCompare(a.reportDate));
+    const latest = reports[0];
 
     return {
-      success: holdings.length > 0,
-      holdings,
-      reportDate,
-      total: holdings.length,
+      success: reports.length > 0,
+      holdings: latest ? latest.holdings : [],
+      reportDate: latest ? latest.reportDate : '',
+      total: latest ? latest.holdings.length : 0,
+      reports,
+      years,
     };
   } catch (error) {
     console.error('解析持仓数据时出错:', error);
@@ -154,50 +180,138 @@ export function parseFundHoldings(html: string, fundCode: string): ParseResult {
       holdings: [],
       reportDate: '',
       total: 0,
+      reports: [],
+      years: [],
       error: error instanceof Error ? error.message : '未知错误',
     };
   }
 }
 
+/**
+ * 从离线样本读取 jjcc 响应（fixtures/holdings/jjcc_{基金代码}_{年份}.html）
+ */
+async function readHoldingsFixture(fundCode: string, year?: number): Promise<string | null> {
+  if (year) {
+    return readFixture('valuation', 'fixtures', 'holdings', `jjcc_${fundCode}_${year}.html`);
+  }
+
+  // 未指定年份时取最新年份
+  const files = (await listFixtures('valuation', 'fixtures', 'holdings'))
+    .filter(f => f.startsWith(`jjcc_${fundCode}_`))
+    .sort();
+
+  return files.length > 0
+    ? readFixture('valuation', 'fixtures', 'holdings', files[files.length - 1])
+    : null;
+}
+
+/**
+ * 请求 jjcc 接口原始响应
+ *
+ * @param fundCode - 基金代码
+ * @param year - 年份，不传则返回最新年份
+ */
+export async function fetchHoldingsPayload(fundCode: string, year?: number): Promise<string> {
+  if (isFixtureMode()) {
+    const fixture = await readHoldingsFixture(fundCode, year);
+    if (fixture === null) {
+      throw new Error(`离线样本中没有基金 ${fundCode} 的持仓数据`);
+    }
+    return fixture;
+  }
+
+  const url = `https://fundf10.eastmoney.com/FundArchivesDatas.aspx?type=jjcc&code=${fundCode}&topline=10&year=${year ?? ''}&month=&rt=${Date.now()}`;
+
+  const response = await fetch(url, {
+    headers: {
+      'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+      'Referer': `https://fundf10.eastmoney.com/ccmx_${fundCode}.html`,
+    },
+    signal: AbortSignal.timeout(10000),
+  });
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  }
+
+  return response.text();
+}
+
+// 持仓按季度披露，缓存 6 小时
+const holdingsCache = new Map<string, { data: ParseResult; timestamp: number }>();
+const CACHE_TTL = 6 * 60 * 60 * 1000;
+
 /**
  * 获取基金持仓数据（带缓存）
  *
  * @param fundCode - 基金代码
  * @param forceRefresh - 强制刷新缓存
+ * @param year - 年份，不传则返回最新年份的各季度持仓
  * @returns 持仓数据
  */
 export async function getFundHoldings(
   fundCode: string,
-  forceRefresh: boolean = false
+  forceRefresh: boolean = false,
+  year?: number
 ): Promise<ParseResult> {
-  const url = `https://fundf10.eastmoney.com/ccmx_${fundCode}.html`;
+  const cacheKey = `${fundCode}:${year ?? 'latest'}`;
 
-  try {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 10000);
-
-    const response = await fetch(url, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-      },
-      signal: controller.signal,
-    });
+  if (!forceRefresh) {
+    const cached = holdingsCache.get(cacheKey);
+    if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
+      return cached.data;
+    }
+  }
 
-    clearTimeout(timeoutId);
+  try {
+    const payload = await fetchHoldingsPayload(fundCode, year);
+    const result = parseFundHoldings(payload, fundCode);
 
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    if (result.success) {
+      holdingsCache.set(cacheKey, { data: result, timestamp: Date.now() });
     }
 
-    const html = await response.text();
-    return parseFundHoldings(html, fundCode);
+    return result;
   } catch (error) {
     return {
       success: false,
       holdings: [],
       reportDate: '',
       total: 0,
+      reports: [],
+      years: [],
       error: error instanceof Error ? error.message : '未知错误',
     };
   }
 }
+
+/**
+ * 获取基金全部历史报告期持仓
+ *
+ * @param fundCode - 基金代码
+ * @param maxYears - 最多回溯的年数
+ * @returns 全部报告期，按日期倒序
+ */
+export async function getFundHoldingsHistory(
+  fundCode: string,
+  maxYears: number = 5
+): Promise<HoldingsReport[]> {
+  const latest = await getFundHoldings(fundCode);
+  if (!latest.success) return [];
+
+  const reports = [...latest.reports];
+  const latestYear = parseInt(latest.reportDate.slice(0, 4), 10);
+  const olderYears = latest.years
+    .filter(y => y < latestYear)
+    .sort((a, b) => b - a)
+    .slice(0, Math.max(0, maxYears - 1));
+
+  for (const year of olderYears) {
+    const result = await getFundHoldings(fundCode, false, year);
+    reports.push(...result.reports);
+  }
+
+  // 去重（同一报告期只保留一次）
+  const byDate = new Map(reports.map(r => [r.reportDate, r]));
+  return Array.from(byDate.values()).sort((a, b) => b.reportDate.localeCompare(a.reportDate));
+}
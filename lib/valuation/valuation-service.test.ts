@@ -0,0 +1,81 @@
+/**
+ * 离线估值测试
+ *
+ * DATA_SOURCE=fixture、QUOTE_PROVIDER=mock 下，净值、持仓、资产配置和行情都来自各模块的 fixtures，
+ * 本地存储写到临时目录。服务模块在加载时读取这些环境变量，需在设置后再动态导入
+ */
+
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import fixture from '../quotes/fixtures/quotes.json';
+
+type ValuationModule = typeof import('./valuation-service');
+type QuotesModule = typeof import('../quotes');
+
+const dataDir = mkdtempSync(path.join(os.tmpdir(), 'valuation-test-'));
+let valuation: ValuationModule;
+let quotes: QuotesModule;
+
+before(async () => {
+  process.env.DATA_SOURCE = 'fixture';
+  process.env.QUOTE_PROVIDER = 'mock';
+  process.env.DATA_DIR = dataDir;
+  valuation = await import('./valuation-service');
+  quotes = await import('../quotes');
+});
+
+after(() => {
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+test('estimateFundValuation 110022 prices the disclosed holdings with fixture quotes', async () => {
+  const result = await valuation.estimateFundValuation('110022');
+
+  assert.equal(result.fundCode, '110022');
+  assert.equal(result.fundName, '易方达消费行业股票');
+  assert.equal(result.lastNav, 2.7198);
+  assert.equal(result.estimatedNav, 2.7419);
+  assert.equal(result.estimatedChangePercent, 0.81);
+  assert.equal(result.holdings.length, 10);
+
+  const moutai = result.holdings.find(h => h.code === '600519');
+  assert.equal(moutai?.currentPrice, fixture.quotes.sh600519.price);
+  assert.equal(moutai?.changePercent, fixture.quotes.sh600519.changePercent);
+});
+
+test('estimateFundValuation applies the benchmark index quote for uncovered positions', async () => {
+  const scaled = await valuation.estimateFundValuation('110022');
+  const benchmark = await valuation.estimateFundValuation('110022', { method: 'benchmark' });
+
+  assert.equal(benchmark.dataQuality.method, 'benchmark');
+  assert.notEqual(benchmark.estimatedNav, scaled.estimatedNav);
+});
+
+test('estimateBatchValuation reports funds without fixture data as failed', async () => {
+  const { results, failed } = await valuation.estimateBatchValuation(['110022', '005827']);
+
+  assert.deepEqual(results.map(r => r.fundCode), ['110022']);
+  assert.deepEqual(failed, [{ fundCode: '005827', error: '无法获取基金净值' }]);
+});
+
+test('mock provider returns one quote per input code for the same security', async () => {
+  const provider = quotes.getQuoteProvider();
+  assert.equal(provider.name, 'mock');
+
+  const symbols = quotes.resolveSymbols(['600519', 'sh600519', 'SH600519', '600519', '000858']);
+  assert.deepEqual(symbols.map(s => s.inputs), [['600519', 'sh600519', 'SH600519'], ['000858']]);
+
+  const result = await provider.getQuotes(['600519', 'sh600519', 'SH600519', '600519']);
+  assert.deepEqual(result.map(q => q.code), ['600519', 'sh600519', 'SH600519']);
+  result.forEach(q => assert.equal(q.price, fixture.quotes.sh600519.price));
+});
+
+test('failover over the mock provider does not re-request codes already answered under another alias', async () => {
+  const provider = new quotes.FailoverQuoteProvider([new quotes.MockQuoteProvider(), new quotes.MockQuoteProvider({})]);
+  const result = await provider.getQuotes(['sh600519', '600519']);
+
+  assert.deepEqual(result.map(q => q.code).sort(), ['600519', 'sh600519']);
+});
@@ -0,0 +1,168 @@
+/**
+ * 基金实时估值服务
+ *
+ * 串联 净值获取 → 持仓解析 → 股票行情 → 估值计算 的完整流程
+ */
+
+import { calculateEstimatedNav, CorrectionMethod, ValuationResult } from './calculation-engine';
+import { getFundHoldings } from './holdings-parser';
+import { getAssetAllocation } from './asset-allocation';
+import { getFundDetail } from '../services/fund-search';
+import { getQuoteProvider } from '../quotes';
+import { getLatestNav } from '../nav/nav-history-service';
+
+/**
+ * 基金最新净值
+ */
+export interface FundNav {
+  date: string;
+  nav: number;
+  accumulatedNav: number;
+  dayGrowth: number;
+}
+
+/**
+ * 单只基金估值结果（附带净值信息）
+ */
+export interface FundValuation extends ValuationResult {
+  lastNavDate: string;
+  accumulatedNav: number;
+  dayGrowth: number;
+  holdingsReportDate: string;
+}
+
+/**
+ * 估值选项
+ */
+export interface ValuationOptions {
+  method?: CorrectionMethod;   // 未覆盖仓位修正方法，默认按股票仓位放大
+  benchmarkCode?: string;      // benchmark 方法使用的指数，默认沪深300
+  bondIndexCode?: string;      // 债券仓位跟随的指数（如 sh000012 国债指数），不传时视为不变
+}
+
+// 默认基准指数: 沪深300
+export const DEFAULT_BENCHMARK_CODE = 'sh000300';
+
+/**
+ * 批量估值结果
+ */
+export interface BatchValuationResult {
+  results: FundValuation[];
+  failed: { fundCode: string; error: string }[];
+}
+
+/**
+ * 获取基金最新净值
+ */
+export async function getLatestFundNav(fundCode: string): Promise<FundNav | null> {
+  try {
+    const latest = await getLatestNav(fundCode);
+    return latest
+      ? {
+          date: latest.date,
+          nav: latest.nav,
+          accumulatedNav: latest.accumulatedNav,
+          dayGrowth: latest.dayGrowth ?? 0,
+        }
+      : null;
+  } catch (error) {
+    console.error(`获取基金 ${fundCode} 最新净值失败:`, error);
+    return null;
+  }
+}
+
+/**
+ * 计算单只基金的实时估值
+ *
+ * @param fundCode - 基金代码
+ * @param options - 估值选项
+ * @returns 估值结果
+ */
+export async function estimateFundValuation(
+  fundCode: string,
+  options: ValuationOptions = {}
+): Promise<FundValuation> {
+  // 净值、持仓、名称、资产配置互不依赖，并行获取
+  const [navData, holdingsResult, detail, allocation] = await Promise.all([
+    getLatestFundNav(fundCode),
+    getFundHoldings(fundCode),
+    getFundDetail(fundCode),
+    getAssetAllocation(fundCode),
+  ]);
+
+  if (!navData) {
+    throw new Error('无法获取基金净值');
+  }
+
+  if (!holdingsResult.success) {
+    throw new Error(`无法获取基金持仓: ${holdingsResult.error || '未找到持仓数据'}`);
+  }
+
+  // 指数行情与持仓股票一起获取
+  const benchmarkCode = options.benchmarkCode || DEFAULT_BENCHMARK_CODE;
+  const indexCodes = [
+    ...(options.method === 'benchmark' ? [benchmarkCode] : []),
+    ...(options.bondIndexCode ? [options.bondIndexCode] : []),
+  ];
+  const quotes = await getQuoteProvider().getQuotes([
+    ...holdingsResult.holdings.map(h => h.stockCode),
+    ...indexCodes,
+  ]);
+  const indexQuote = (code?: string) => code ? quotes.find(q => q.code === code) : undefined;
+
+  const result = calculateEstimatedNav(
+    fundCode,
+    detail?.name || `基金${fundCode}`,
+    navData.nav,
+    holdingsResult.holdings,
+    quotes,
+    {
+      method: options.method,
+      allocation: allocation || undefined,
+      benchmarkCode,
+      benchmarkChangePercent: indexQuote(options.method === 'benchmark' ? benchmarkCode : undefined)?.changePercent,
+      bondChangePercent: indexQuote(options.bondIndexCode)?.changePercent,
+    }
+  );
+
+  return {
+    ...result,
+    lastNavDate: navData.date,
+    accumulatedNav: navData.accumulatedNav,
+    dayGrowth: navData.dayGrowth,
+    holdingsReportDate: holdingsResult.reportDate,
+  };
+}
+
+/**
+ * 批量计算基金估值（如自选列表）
+ *
+ * 分批并发，单只失败不影响其他基金
+ */
+export async function estimateBatchValuation(
+  fundCodes: string[],
+  options: ValuationOptions = {}
+): Promise<BatchValuationResult> {
+  const results: FundValuation[] = [];
+  const failed: BatchValuationResult['failed'] = [];
+
+  // 并发获取，但限制并发数量
+  const batchSize = 5;
+  for (let i = 0; i < fundCodes.length; i += batchSize) {
+    const batch = fundCodes.slice(i, i + batchSize);
+    const settled = await Promise.allSettled(batch.map(code => estimateFundValuation(code, options)));
+
+    settled.forEach((item, idx) => {
+      if (item.status === 'fulfilled') {
+        results.push(item.value);
+      } else {
+        failed.push({
+          fundCode: batch[idx],
+          error: item.reason instanceof Error ? item.reason.message : '未知错误',
+        });
+      }
+    });
+  }
+
+  return { results, failed };
+}